@@ -704,7 +704,8 @@ public class AuthController : ControllerBase
         {
             Id = s.Id, Name = s.Name, Provider = s.Provider, Model = s.Model,
             BaseUrl = s.BaseUrl, IsDefault = s.IsDefault,
-            HasApiKey = !string.IsNullOrEmpty(s.ApiKey), IsShared = false
+            HasApiKey = !string.IsNullOrEmpty(s.ApiKey), IsShared = false,
+            InputPricePerMillionTokens = s.InputPricePerMillionTokens, OutputPricePerMillionTokens = s.OutputPricePerMillionTokens
         })
         .Concat(shared.Select(s => new LlmSettingDto
         {
@@ -712,7 +713,8 @@ public class AuthController : ControllerBase
             BaseUrl = s.BaseUrl,
             // A shared provider is "default" for this user if they've chosen it as their preferred shared LLM
             IsDefault = user?.PreferredSharedLlmSettingId == s.Id,
-            HasApiKey = !string.IsNullOrEmpty(s.ApiKey), IsShared = true
+            HasApiKey = !string.IsNullOrEmpty(s.ApiKey), IsShared = true,
+            InputPricePerMillionTokens = s.InputPricePerMillionTokens, OutputPricePerMillionTokens = s.OutputPricePerMillionTokens
         }))
         .ToList();
 
@@ -734,6 +736,9 @@ public class AuthController : ControllerBase
             request.Model ?? "gpt-4o",
             request.BaseUrl,
             request.IsDefault);
+        if (GetPricingError(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens) is { } pricingError)
+            return BadRequest(new { message = pricingError });
+        entity.SetPricing(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens);
         entity = await _llmSettingRepository.AddAsync(entity, cancellationToken);
         return Ok(new LlmSettingDto
         {
@@ -743,7 +748,9 @@ public class AuthController : ControllerBase
             Model = entity.Model,
             BaseUrl = entity.BaseUrl,
             IsDefault = entity.IsDefault,
-            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey)
+            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey),
+            InputPricePerMillionTokens = entity.InputPricePerMillionTokens,
+            OutputPricePerMillionTokens = entity.OutputPricePerMillionTokens
         });
     }
 
@@ -763,6 +770,12 @@ public class AuthController : ControllerBase
             request.Model,
             request.BaseUrl,
             request.Provider);
+        if (request.UpdatePricing)
+        {
+            if (GetPricingError(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens) is { } pricingError)
+                return BadRequest(new { message = pricingError });
+            entity.SetPricing(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens);
+        }
         if (request.IsDefault.HasValue) entity.SetDefault(request.IsDefault.Value);
         await _llmSettingRepository.UpdateAsync(entity, cancellationToken);
         return Ok(new LlmSettingDto
@@ -773,7 +786,9 @@ public class AuthController : ControllerBase
             Model = entity.Model,
             BaseUrl = entity.BaseUrl,
             IsDefault = entity.IsDefault,
-            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey)
+            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey),
+            InputPricePerMillionTokens = entity.InputPricePerMillionTokens,
+            OutputPricePerMillionTokens = entity.OutputPricePerMillionTokens
         });
     }
 
@@ -848,6 +863,9 @@ public class AuthController : ControllerBase
         return Ok(new { message = "Default LLM setting updated" });
     }
 
+    private static string? GetPricingError(decimal? inputPricePerMillionTokens, decimal? outputPricePerMillionTokens) =>
+        inputPricePerMillionTokens < 0 || outputPricePerMillionTokens < 0 ? "Token prices cannot be negative." : null;
+
     #region Admin — shared LLM provider management
 
     [HttpGet("admin/llm")]
@@ -859,7 +877,8 @@ public class AuthController : ControllerBase
         {
             Id = s.Id, Name = s.Name, Provider = s.Provider, Model = s.Model,
             BaseUrl = s.BaseUrl, IsDefault = false,
-            HasApiKey = !string.IsNullOrEmpty(s.ApiKey), IsShared = true
+            HasApiKey = !string.IsNullOrEmpty(s.ApiKey), IsShared = true,
+            InputPricePerMillionTokens = s.InputPricePerMillionTokens, OutputPricePerMillionTokens = s.OutputPricePerMillionTokens
         }).ToList());
     }
 
@@ -873,12 +892,16 @@ public class AuthController : ControllerBase
             request.ApiKey,
             request.Model ?? "gpt-4o",
             request.BaseUrl);
+        if (GetPricingError(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens) is { } pricingError)
+            return BadRequest(new { message = pricingError });
+        entity.SetPricing(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens);
         entity = await _llmSettingRepository.AddAsync(entity, cancellationToken);
         return Ok(new LlmSettingDto
         {
             Id = entity.Id, Name = entity.Name, Provider = entity.Provider, Model = entity.Model,
             BaseUrl = entity.BaseUrl, IsDefault = false,
-            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey), IsShared = true
+            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey), IsShared = true,
+            InputPricePerMillionTokens = entity.InputPricePerMillionTokens, OutputPricePerMillionTokens = entity.OutputPricePerMillionTokens
         });
     }
 
@@ -890,12 +913,19 @@ public class AuthController : ControllerBase
         if (entity == null || !entity.IsShared) return NotFound();
 
         entity.Update(request.Name, request.ApiKey, request.Model, request.BaseUrl, request.Provider);
+        if (request.UpdatePricing)
+        {
+            if (GetPricingError(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens) is { } pricingError)
+                return BadRequest(new { message = pricingError });
+            entity.SetPricing(request.InputPricePerMillionTokens, request.OutputPricePerMillionTokens);
+        }
         await _llmSettingRepository.UpdateAsync(entity, cancellationToken);
         return Ok(new LlmSettingDto
         {
             Id = entity.Id, Name = entity.Name, Provider = entity.Provider, Model = entity.Model,
             BaseUrl = entity.BaseUrl, IsDefault = false,
-            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey), IsShared = true
+            HasApiKey = !string.IsNullOrEmpty(entity.ApiKey), IsShared = true,
+            InputPricePerMillionTokens = entity.InputPricePerMillionTokens, OutputPricePerMillionTokens = entity.OutputPricePerMillionTokens
         });
     }
 
@@ -1080,6 +1110,9 @@ public class AuthController : ControllerBase
         public bool HasApiKey { get; set; }
         /// <summary>True when this is an admin-created shared provider (read-only for regular users).</summary>
         public bool IsShared { get; set; }
+        /// <summary>Price per million prompt / completion tokens, used to cost agent turns; null when not set.</summary>
+        public decimal? InputPricePerMillionTokens { get; set; }
+        public decimal? OutputPricePerMillionTokens { get; set; }
     }
 
     public class CreateLlmSettingRequest
@@ -1090,6 +1123,8 @@ public class AuthController : ControllerBase
         public string? Model { get; set; }
         public string? BaseUrl { get; set; }
         public bool IsDefault { get; set; }
+        public decimal? InputPricePerMillionTokens { get; set; }
+        public decimal? OutputPricePerMillionTokens { get; set; }
     }
 
     public class UpdateLlmSettingRequest
@@ -1100,6 +1135,10 @@ public class AuthController : ControllerBase
         public string? Model { get; set; }
         public string? BaseUrl { get; set; }
         public bool? IsDefault { get; set; }
+        /// <summary>When true the two prices below replace the stored ones (null clears a price).</summary>
+        public bool UpdatePricing { get; set; }
+        public decimal? InputPricePerMillionTokens { get; set; }
+        public decimal? OutputPricePerMillionTokens { get; set; }
     }
 
     #endregion
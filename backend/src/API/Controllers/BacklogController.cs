@@ -5,6 +5,7 @@ using DevPilot.Application.UseCases;
 using DevPilot.Application.Services;
 using DevPilot.Domain.Interfaces;
 using DevPilot.Domain.Entities;
+using DevPilot.API.Hubs;
 using MediatR;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.AspNetCore.Authorization;
@@ -33,7 +34,11 @@ public class BacklogController : ControllerBase
     private readonly IEffectiveAiConfigResolver _effectiveAiConfigResolver;
     private readonly IConfiguration _configuration;
     private readonly IRepositoryAgentRuleRepository _repositoryAgentRuleRepository;
+    private readonly IRepositoryPromptTemplateRepository _repositoryPromptTemplateRepository;
     private readonly IStorySandboxConversationRepository _storySandboxConversationRepository;
+    private readonly ISprintRepository _sprintRepository;
+    private readonly IStoryStatusTransitionRepository _storyStatusTransitionRepository;
+    private readonly BoardEventPublisher _boardEvents;
 
     public BacklogController(
         IMediator mediator, 
@@ -49,7 +54,11 @@ public class BacklogController : ControllerBase
         IEffectiveAiConfigResolver effectiveAiConfigResolver,
         IConfiguration configuration,
         IRepositoryAgentRuleRepository repositoryAgentRuleRepository,
-        IStorySandboxConversationRepository storySandboxConversationRepository)
+        IRepositoryPromptTemplateRepository repositoryPromptTemplateRepository,
+        IStorySandboxConversationRepository storySandboxConversationRepository,
+        ISprintRepository sprintRepository,
+        IStoryStatusTransitionRepository storyStatusTransitionRepository,
+        BoardEventPublisher boardEvents)
     {
         _mediator = mediator ?? throw new ArgumentNullException(nameof(mediator));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
@@ -64,7 +73,11 @@ public class BacklogController : ControllerBase
         _effectiveAiConfigResolver = effectiveAiConfigResolver ?? throw new ArgumentNullException(nameof(effectiveAiConfigResolver));
         _configuration = configuration ?? throw new ArgumentNullException(nameof(configuration));
         _repositoryAgentRuleRepository = repositoryAgentRuleRepository ?? throw new ArgumentNullException(nameof(repositoryAgentRuleRepository));
+        _repositoryPromptTemplateRepository = repositoryPromptTemplateRepository ?? throw new ArgumentNullException(nameof(repositoryPromptTemplateRepository));
         _storySandboxConversationRepository = storySandboxConversationRepository ?? throw new ArgumentNullException(nameof(storySandboxConversationRepository));
+        _sprintRepository = sprintRepository ?? throw new ArgumentNullException(nameof(sprintRepository));
+        _storyStatusTransitionRepository = storyStatusTransitionRepository ?? throw new ArgumentNullException(nameof(storyStatusTransitionRepository));
+        _boardEvents = boardEvents ?? throw new ArgumentNullException(nameof(boardEvents));
     }
 
     /// <summary>
@@ -170,6 +183,7 @@ public class BacklogController : ControllerBase
 
         var command = new CreateBacklogCommand(repositoryId, request);
         var epics = await _mediator.Send(command, cancellationToken);
+        await _boardEvents.BacklogChangedAsync(repositoryId, cancellationToken);
 
         return Ok(epics);
     }
@@ -188,7 +202,13 @@ public class BacklogController : ControllerBase
         _logger.LogInformation("Updating status for story {StoryId} to {Status}, PR URL: {PrUrl}", 
             storyId, request.Status, request.PrUrl ?? "none");
 
-        var command = new UpdateStoryStatusCommand(storyId, request.Status, request.PrUrl);
+        // Clients may only record changes as their user or as the sandbox agent; sync sources are server-side.
+        var source = string.Equals(request.Source, StoryStatusTransition.SourceAgent, StringComparison.OrdinalIgnoreCase)
+            ? StoryStatusTransition.SourceAgent
+            : StoryStatusTransition.SourceUser;
+        Guid? changedByUserId = Guid.TryParse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value, out var userId) ? userId : null;
+
+        var command = new UpdateStoryStatusCommand(storyId, request.Status, request.PrUrl, source, changedByUserId);
         var success = await _mediator.Send(command, cancellationToken);
 
         if (!success)
@@ -196,6 +216,8 @@ public class BacklogController : ControllerBase
             return NotFound(new { error = "User story not found" });
         }
 
+        await _boardEvents.StoryMovedAsync(storyId, cancellationToken);
+
         return Ok(new { success = true, storyId, status = request.Status, prUrl = request.PrUrl });
     }
 
@@ -217,6 +239,7 @@ public class BacklogController : ControllerBase
 
         var command = new AddEpicCommand(repositoryId, request.Title, request.Description, request.Source, request.AzureDevOpsWorkItemId);
         var epic = await _mediator.Send(command, cancellationToken);
+        await _boardEvents.BacklogChangedAsync(repositoryId, cancellationToken);
         return Ok(epic);
     }
 
@@ -231,6 +254,7 @@ public class BacklogController : ControllerBase
     {
         var command = new AddFeatureCommand(epicId, request.Title, request.Description, request.Source, request.AzureDevOpsWorkItemId);
         var feature = await _mediator.Send(command, cancellationToken);
+        await _boardEvents.BacklogChangedForEpicAsync(epicId, cancellationToken);
         return Ok(feature);
     }
 
@@ -243,6 +267,24 @@ public class BacklogController : ControllerBase
         [FromBody] AddUserStoryRequest request,
         CancellationToken cancellationToken)
     {
+        if (request.DependsOnStoryIds is { Count: > 0 } || request.RepositoryPromptTemplateId.HasValue)
+        {
+            var feature = await _featureRepository.GetByIdAsync(featureId, cancellationToken);
+            if (feature?.Epic == null) return NotFound(new { error = "Feature not found" });
+            if (request.DependsOnStoryIds is { Count: > 0 })
+            {
+                var dependencyError = await StoryDependencyValidator.ValidateAsync(
+                    null, feature.Epic.RepositoryId, request.DependsOnStoryIds, _epicRepository, cancellationToken);
+                if (dependencyError != null) return BadRequest(new { error = dependencyError });
+            }
+            if (request.RepositoryPromptTemplateId.HasValue)
+            {
+                var template = await _repositoryPromptTemplateRepository.GetByIdAsync(request.RepositoryPromptTemplateId.Value, cancellationToken);
+                if (template == null || template.RepositoryId != feature.Epic.RepositoryId)
+                    return BadRequest(new { error = "Invalid repositoryPromptTemplateId for this feature's repository." });
+            }
+        }
+
         var command = new AddUserStoryCommand(
             featureId,
             request.Title,
@@ -252,8 +294,12 @@ public class BacklogController : ControllerBase
             request.Source,
             request.AzureDevOpsWorkItemId,
             request.GitHubIssueNumber,
-            request.RepositoryAgentRuleId);
+            request.RepositoryAgentRuleId,
+            request.DependsOnStoryIds,
+            request.RepositoryPromptTemplateId,
+            request.Tasks?.Select(t => new AddUserStoryTaskItem(t.Title, t.Description, t.Complexity, t.Status)).ToList());
         var story = await _mediator.Send(command, cancellationToken);
+        await _boardEvents.StoryCreatedAsync(featureId, story.Id, cancellationToken);
         return Ok(story);
     }
 
@@ -292,6 +338,8 @@ public class BacklogController : ControllerBase
             return BadRequest(new { success = false, message = result.Errors.FirstOrDefault(), errors = result.Errors });
         }
 
+        await _boardEvents.SyncFinishedAsync(repositoryId, "AzureDevOps", "export", cancellationToken);
+
         return Ok(new
         {
             success = result.Success,
@@ -343,6 +391,8 @@ public class BacklogController : ControllerBase
         if (result.CreatedCount == 0 && result.FailedCount == 0)
             return BadRequest(new { success = false, message = result.Errors.FirstOrDefault() ?? "Nothing created.", errors = result.Errors });
 
+        await _boardEvents.SyncFinishedAsync(repositoryId, "AzureDevOps", "export", cancellationToken);
+
         return Ok(new
         {
             success = result.Success,
@@ -423,6 +473,8 @@ public class BacklogController : ControllerBase
         if (result.CreatedCount == 0 && result.PulledCount == 0 && result.PushedCount == 0 && result.FailedCount == 0)
             return BadRequest(new { success = false, message = result.Errors.FirstOrDefault() ?? "No changes applied.", errors = result.Errors });
 
+        await _boardEvents.SyncFinishedAsync(repositoryId, "AzureDevOps", SyncDirection(pullN, createN + pushN), cancellationToken);
+
         return Ok(new
         {
             success = result.Success,
@@ -499,6 +551,8 @@ public class BacklogController : ControllerBase
         if (result.CreatedCount == 0 && result.PulledCount == 0 && result.PushedCount == 0 && result.FailedCount == 0)
             return BadRequest(new { success = false, message = result.Errors.FirstOrDefault() ?? "No changes applied.", errors = result.Errors });
 
+        await _boardEvents.SyncFinishedAsync(repositoryId, "GitHub", SyncDirection(pullN, createN + pushN), cancellationToken);
+
         return Ok(new
         {
             success = result.Success,
@@ -510,6 +564,10 @@ public class BacklogController : ControllerBase
         });
     }
 
+    /// <summary>"import", "export" or "both", for the board's syncFinished event</summary>
+    private static string SyncDirection(int pulledItems, int pushedItems) =>
+        pulledItems > 0 && pushedItems > 0 ? "both" : pulledItems > 0 ? "import" : "export";
+
     /// <summary>
     /// Sync backlog items imported from GitHub back to GitHub
     /// Updates title, description, state (open/closed)
@@ -539,6 +597,8 @@ public class BacklogController : ControllerBase
             return BadRequest(new { success = false, message = result.Errors.FirstOrDefault(), errors = result.Errors });
         }
 
+        await _boardEvents.SyncFinishedAsync(repositoryId, "GitHub", "export", cancellationToken);
+
         return Ok(new
         {
             success = result.Success,
@@ -554,9 +614,12 @@ public class BacklogController : ControllerBase
     [HttpDelete("epic/{epicId}")]
     public async Task<IActionResult> DeleteEpic(Guid epicId, CancellationToken cancellationToken)
     {
+        var repositoryId = (await _epicRepository.GetByIdAsync(epicId, cancellationToken))?.RepositoryId;
         var command = new DeleteEpicCommand(epicId);
         var success = await _mediator.Send(command, cancellationToken);
         if (!success) return NotFound(new { error = "Epic not found" });
+        if (repositoryId.HasValue)
+            await _boardEvents.BacklogChangedAsync(repositoryId.Value, cancellationToken);
         return Ok(new { success = true });
     }
 
@@ -566,9 +629,12 @@ public class BacklogController : ControllerBase
     [HttpDelete("feature/{featureId}")]
     public async Task<IActionResult> DeleteFeature(Guid featureId, CancellationToken cancellationToken)
     {
+        var repositoryId = (await _featureRepository.GetByIdAsync(featureId, cancellationToken))?.Epic?.RepositoryId;
         var command = new DeleteFeatureCommand(featureId);
         var success = await _mediator.Send(command, cancellationToken);
         if (!success) return NotFound(new { error = "Feature not found" });
+        if (repositoryId.HasValue)
+            await _boardEvents.BacklogChangedAsync(repositoryId.Value, cancellationToken);
         return Ok(new { success = true });
     }
 
@@ -578,9 +644,12 @@ public class BacklogController : ControllerBase
     [HttpDelete("story/{storyId}")]
     public async Task<IActionResult> DeleteUserStory(Guid storyId, CancellationToken cancellationToken)
     {
+        var repositoryId = (await _userStoryRepository.GetByIdAsync(storyId, cancellationToken))?.Feature?.Epic?.RepositoryId;
         var command = new DeleteUserStoryCommand(storyId);
         var success = await _mediator.Send(command, cancellationToken);
         if (!success) return NotFound(new { error = "User story not found" });
+        if (repositoryId.HasValue)
+            await _boardEvents.StoryDeletedAsync(repositoryId.Value, storyId, cancellationToken);
         return Ok(new { success = true });
     }
 
@@ -604,6 +673,7 @@ public class BacklogController : ControllerBase
         }
 
         await _epicRepository.UpdateAsync(epic, cancellationToken);
+        await _boardEvents.BacklogChangedAsync(epic.RepositoryId, cancellationToken);
 
         return Ok(new
         {
@@ -634,6 +704,7 @@ public class BacklogController : ControllerBase
         }
 
         await _featureRepository.UpdateAsync(feature, cancellationToken);
+        await _boardEvents.BacklogChangedForFeatureAsync(feature.Id, cancellationToken);
 
         return Ok(new
         {
@@ -663,7 +734,8 @@ public class BacklogController : ControllerBase
         story.SetStoryPoints(request.StoryPoints);
         if (!string.IsNullOrEmpty(request.Status))
         {
-            story.ChangeStatus(request.Status);
+            Guid? changedByUserId = Guid.TryParse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value, out var userId) ? userId : null;
+            story.ChangeStatus(request.Status, null, StoryStatusTransition.SourceUser, changedByUserId);
         }
 
         if (request.UpdateRepositoryAgentRule)
@@ -682,7 +754,34 @@ public class BacklogController : ControllerBase
             }
         }
 
+        if (request.UpdateRepositoryPromptTemplate)
+        {
+            if (!request.RepositoryPromptTemplateId.HasValue)
+            {
+                story.SetRepositoryPromptTemplateId(null);
+            }
+            else
+            {
+                var template = await _repositoryPromptTemplateRepository.GetByIdAsync(request.RepositoryPromptTemplateId.Value, cancellationToken);
+                var repositoryId = story.Feature?.Epic?.RepositoryId;
+                if (template == null || repositoryId == null || template.RepositoryId != repositoryId.Value)
+                    return BadRequest(new { error = "Invalid repositoryPromptTemplateId for this story's repository." });
+                story.SetRepositoryPromptTemplateId(request.RepositoryPromptTemplateId);
+            }
+        }
+
+        if (request.DependsOnStoryIds != null)
+        {
+            var repositoryId = story.Feature?.Epic?.RepositoryId;
+            if (repositoryId == null) return NotFound(new { error = "User story not found" });
+            var dependencyError = await StoryDependencyValidator.ValidateAsync(
+                story.Id, repositoryId.Value, request.DependsOnStoryIds, _epicRepository, cancellationToken);
+            if (dependencyError != null) return BadRequest(new { error = dependencyError });
+            story.SetDependsOn(request.DependsOnStoryIds);
+        }
+
         await _userStoryRepository.UpdateAsync(story, cancellationToken);
+        await _boardEvents.StoryUpdatedAsync(story.Id, cancellationToken);
 
         return Ok(new
         {
@@ -693,10 +792,408 @@ public class BacklogController : ControllerBase
             acceptanceCriteria = story.AcceptanceCriteria,
             storyPoints = story.StoryPoints,
             featureId = story.FeatureId,
-            repositoryAgentRuleId = story.RepositoryAgentRuleId
+            repositoryAgentRuleId = story.RepositoryAgentRuleId,
+            repositoryPromptTemplateId = story.RepositoryPromptTemplateId,
+            dependsOnStoryIds = story.DependsOnStoryIds
+        });
+    }
+
+    /// <summary>
+    /// Replace the stories a User Story depends on (e.g. after mapping Azure DevOps predecessor links on import)
+    /// </summary>
+    [HttpPut("story/{storyId}/dependencies")]
+    public async Task<IActionResult> UpdateStoryDependencies(
+        Guid storyId,
+        [FromBody] UpdateStoryDependenciesRequest request,
+        CancellationToken cancellationToken)
+    {
+        var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+        var repositoryId = story?.Feature?.Epic?.RepositoryId;
+        if (story == null || repositoryId == null) return NotFound(new { error = "User story not found" });
+
+        var dependsOn = request.DependsOnStoryIds ?? new List<Guid>();
+        var dependencyError = await StoryDependencyValidator.ValidateAsync(
+            story.Id, repositoryId.Value, dependsOn, _epicRepository, cancellationToken);
+        if (dependencyError != null) return BadRequest(new { error = dependencyError });
+
+        story.SetDependsOn(dependsOn);
+        await _userStoryRepository.UpdateAsync(story, cancellationToken);
+        await _boardEvents.StoryUpdatedAsync(story.Id, cancellationToken);
+        return Ok(new { id = story.Id, dependsOnStoryIds = story.DependsOnStoryIds });
+    }
+
+    /// <summary>
+    /// Record the outcome of the test run executed in the sandbox before a pull request was created
+    /// </summary>
+    [HttpPut("story/{storyId}/test-result")]
+    public async Task<IActionResult> RecordStoryTestResult(
+        Guid storyId,
+        [FromBody] RecordStoryTestResultRequest request,
+        CancellationToken cancellationToken)
+    {
+        var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+        if (story == null) return NotFound(new { error = "User story not found" });
+
+        story.RecordTestResult(request.Passed, request.Summary);
+        await _userStoryRepository.UpdateAsync(story, cancellationToken);
+        await _boardEvents.StoryUpdatedAsync(story.Id, cancellationToken);
+        return Ok(new
+        {
+            id = story.Id,
+            lastTestStatus = story.LastTestStatus,
+            lastTestSummary = story.LastTestSummary,
+            lastTestRunAt = story.LastTestRunAt
+        });
+    }
+
+    /// <summary>
+    /// Sprints of a repository, oldest first. Completed sprints carry the committed/completed points used for velocity.
+    /// </summary>
+    [HttpGet("repository/{repositoryId}/sprints")]
+    [Authorize]
+    public async Task<IActionResult> GetSprints(Guid repositoryId, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized();
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId, userId, cancellationToken);
+        if (repo == null) return Forbid();
+
+        var sprints = await _sprintRepository.GetByRepositoryIdAsync(repositoryId, cancellationToken);
+        return Ok(new { sprints = sprints.Select(ToSprintResponse) });
+    }
+
+    [HttpPost("repository/{repositoryId}/sprints")]
+    [Authorize]
+    public async Task<IActionResult> CreateSprint(Guid repositoryId, [FromBody] SprintRequest request, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized();
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId, userId, cancellationToken);
+        if (repo == null) return Forbid();
+        if (string.IsNullOrWhiteSpace(request.Name))
+            return BadRequest(new { error = "Sprint name is required" });
+
+        try
+        {
+            var sprint = new Sprint(
+                repositoryId,
+                request.Name.Trim(),
+                string.IsNullOrWhiteSpace(request.Goal) ? null : request.Goal.Trim(),
+                ToUtcDate(request.StartDate),
+                ToUtcDate(request.EndDate),
+                request.CapacityPoints);
+            sprint.SetProviderMapping(request.AzureDevOpsIterationPath, request.GitHubMilestoneNumber);
+            await _sprintRepository.AddAsync(sprint, cancellationToken);
+            return Ok(ToSprintResponse(sprint));
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+    }
+
+    [HttpPut("sprint/{sprintId}")]
+    [Authorize]
+    public async Task<IActionResult> UpdateSprint(Guid sprintId, [FromBody] SprintRequest request, CancellationToken cancellationToken)
+    {
+        var (sprint, error) = await GetAccessibleSprintAsync(sprintId, cancellationToken);
+        if (sprint == null) return error!;
+        if (string.IsNullOrWhiteSpace(request.Name))
+            return BadRequest(new { error = "Sprint name is required" });
+
+        try
+        {
+            sprint.Update(
+                request.Name.Trim(),
+                string.IsNullOrWhiteSpace(request.Goal) ? null : request.Goal.Trim(),
+                ToUtcDate(request.StartDate),
+                ToUtcDate(request.EndDate),
+                request.CapacityPoints);
+            sprint.SetProviderMapping(request.AzureDevOpsIterationPath, request.GitHubMilestoneNumber);
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+
+        await _sprintRepository.UpdateAsync(sprint, cancellationToken);
+        return Ok(ToSprintResponse(sprint));
+    }
+
+    /// <summary>
+    /// Deletes a sprint; its stories go back to the backlog (FK is set to null).
+    /// </summary>
+    [HttpDelete("sprint/{sprintId}")]
+    [Authorize]
+    public async Task<IActionResult> DeleteSprint(Guid sprintId, CancellationToken cancellationToken)
+    {
+        var (sprint, error) = await GetAccessibleSprintAsync(sprintId, cancellationToken);
+        if (sprint == null) return error!;
+
+        var repositoryId = sprint.RepositoryId;
+        await _sprintRepository.DeleteAsync(sprint, cancellationToken);
+        await _boardEvents.BacklogChangedAsync(repositoryId, cancellationToken);
+        return Ok(new { success = true });
+    }
+
+    [HttpPost("sprint/{sprintId}/start")]
+    [Authorize]
+    public async Task<IActionResult> StartSprint(Guid sprintId, CancellationToken cancellationToken)
+    {
+        var (sprint, error) = await GetAccessibleSprintAsync(sprintId, cancellationToken);
+        if (sprint == null) return error!;
+
+        try
+        {
+            sprint.Start();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { error = ex.Message });
+        }
+
+        await _sprintRepository.UpdateAsync(sprint, cancellationToken);
+        return Ok(ToSprintResponse(sprint));
+    }
+
+    /// <summary>
+    /// Completes a sprint: snapshots committed and Done story points for the velocity chart, then moves unfinished
+    /// stories to <see cref="CompleteSprintRequest.MoveUnfinishedToSprintId"/> or back to the backlog.
+    /// </summary>
+    [HttpPost("sprint/{sprintId}/complete")]
+    [Authorize]
+    public async Task<IActionResult> CompleteSprint(Guid sprintId, [FromBody] CompleteSprintRequest? request, CancellationToken cancellationToken)
+    {
+        var (sprint, error) = await GetAccessibleSprintAsync(sprintId, cancellationToken);
+        if (sprint == null) return error!;
+        if (sprint.Status == Sprint.StatusCompleted)
+            return BadRequest(new { error = "Sprint is already completed" });
+
+        var targetSprintId = request?.MoveUnfinishedToSprintId;
+        if (targetSprintId.HasValue)
+        {
+            var target = await _sprintRepository.GetByIdAsync(targetSprintId.Value, cancellationToken);
+            if (target == null || target.RepositoryId != sprint.RepositoryId || target.Id == sprint.Id || target.Status == Sprint.StatusCompleted)
+                return BadRequest(new { error = "Unfinished stories can only move to another open sprint of this repository" });
+        }
+
+        var epics = await _mediator.Send(new GetBacklogByRepositoryIdQuery(sprint.RepositoryId), cancellationToken);
+        var sprintStories = epics
+            .SelectMany(e => e.Features)
+            .SelectMany(f => f.UserStories)
+            .Where(s => s.SprintId == sprint.Id)
+            .ToList();
+        var doneStories = sprintStories.Where(s => s.Status.Equals("Done", StringComparison.OrdinalIgnoreCase)).ToList();
+        var unfinishedIds = sprintStories.Except(doneStories).Select(s => s.Id).ToList();
+
+        sprint.Complete(
+            sprintStories.Sum(s => s.StoryPoints ?? 0),
+            doneStories.Sum(s => s.StoryPoints ?? 0));
+        await _sprintRepository.UpdateAsync(sprint, cancellationToken);
+
+        foreach (var storyId in unfinishedIds)
+        {
+            var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+            if (story == null) continue;
+            story.SetSprintId(targetSprintId);
+            await _userStoryRepository.UpdateAsync(story, cancellationToken);
+        }
+
+        if (unfinishedIds.Count > 0)
+            await _boardEvents.BacklogChangedAsync(sprint.RepositoryId, cancellationToken);
+        return Ok(new { sprint = ToSprintResponse(sprint), movedStoryIds = unfinishedIds });
+    }
+
+    /// <summary>
+    /// Commits stories to a sprint, or moves them back to the backlog when <see cref="AssignSprintStoriesRequest.SprintId"/> is null.
+    /// </summary>
+    [HttpPut("repository/{repositoryId}/sprint-assignments")]
+    [Authorize]
+    public async Task<IActionResult> AssignSprintStories(Guid repositoryId, [FromBody] AssignSprintStoriesRequest request, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized();
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId, userId, cancellationToken);
+        if (repo == null) return Forbid();
+
+        if (request.SprintId.HasValue)
+        {
+            var sprint = await _sprintRepository.GetByIdAsync(request.SprintId.Value, cancellationToken);
+            if (sprint == null || sprint.RepositoryId != repositoryId)
+                return NotFound(new { error = "Sprint not found" });
+            if (sprint.Status == Sprint.StatusCompleted)
+                return BadRequest(new { error = "Stories cannot be added to a completed sprint" });
+        }
+
+        var updatedIds = new List<Guid>();
+        foreach (var storyId in request.StoryIds.Distinct())
+        {
+            var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+            if (story?.Feature?.Epic?.RepositoryId != repositoryId) continue;
+            story.SetSprintId(request.SprintId);
+            await _userStoryRepository.UpdateAsync(story, cancellationToken);
+            updatedIds.Add(story.Id);
+        }
+
+        if (updatedIds.Count > 0)
+            await _boardEvents.BacklogChangedAsync(repositoryId, cancellationToken);
+        return Ok(new { sprintId = request.SprintId, storyIds = updatedIds });
+    }
+
+    /// <summary>
+    /// Milestones of the GitHub repository, for mapping sprints (GitHub repositories only).
+    /// </summary>
+    [HttpGet("repository/{repositoryId}/github-milestones")]
+    [Authorize]
+    public async Task<IActionResult> GetGitHubMilestones(Guid repositoryId, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized();
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId, userId, cancellationToken);
+        if (repo == null) return Forbid();
+        if (!string.Equals(repo.Provider, "GitHub", StringComparison.OrdinalIgnoreCase))
+            return BadRequest(new { error = "Milestones are only available for GitHub repositories" });
+
+        var parts = repo.FullName.Split('/', StringSplitOptions.RemoveEmptyEntries);
+        if (parts.Length < 2)
+            return BadRequest(new { error = $"Repository full name '{repo.FullName}' is invalid. Expected format: owner/repo" });
+
+        var accessToken = await GetGitHubAccessTokenAsync(userId, cancellationToken);
+        if (string.IsNullOrEmpty(accessToken))
+            return BadRequest(new { error = "GitHub account not linked" });
+
+        try
+        {
+            var milestones = await _gitHubService.GetMilestonesAsync(accessToken, parts[0], parts[1], cancellationToken);
+            return Ok(new
+            {
+                milestones = milestones.Select(m => new { number = m.Number, title = m.Title, state = m.State, dueOn = m.DueOn })
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to list GitHub milestones for repository {RepositoryId}", repositoryId);
+            return BadRequest(new { error = "Could not load GitHub milestones" });
+        }
+    }
+
+    /// <summary>
+    /// Raw data for the insights dashboard: every recorded story status transition and the number of
+    /// sandbox agent runs per story. Burndown and cycle time are computed client-side from the backlog.
+    /// </summary>
+    [HttpGet("repository/{repositoryId}/insights")]
+    [Authorize]
+    public async Task<IActionResult> GetInsights(Guid repositoryId, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized();
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId, userId, cancellationToken);
+        if (repo == null) return Forbid();
+
+        var transitions = await _storyStatusTransitionRepository.GetByRepositoryIdAsync(repositoryId, cancellationToken);
+        var agentRuns = await _storySandboxConversationRepository.CountRunsByRepositoryIdAsync(repositoryId, cancellationToken);
+        return Ok(new
+        {
+            transitions = transitions.Select(t => new
+            {
+                storyId = t.UserStoryId,
+                fromStatus = t.FromStatus,
+                toStatus = t.ToStatus,
+                changedAt = t.CreatedAt
+            }),
+            agentRuns = agentRuns.Select(r => new { storyId = r.Key, runs = r.Value })
+        });
+    }
+
+    /// <summary>
+    /// Status audit history of a story, newest first: who or what moved it (user, agent, PR sync, provider sync),
+    /// when, from which status, and the PR linked at the time.
+    /// </summary>
+    [HttpGet("story/{storyId}/status-history")]
+    [Authorize]
+    public async Task<IActionResult> GetStoryStatusHistory(Guid storyId, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized();
+
+        var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+        var repositoryId = story?.Feature?.Epic?.RepositoryId;
+        if (story == null || repositoryId == null) return NotFound(new { error = "User story not found" });
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId.Value, userId, cancellationToken);
+        if (repo == null) return Forbid();
+
+        var transitions = await _storyStatusTransitionRepository.GetByUserStoryIdAsync(storyId, cancellationToken);
+        var users = new Dictionary<Guid, (string? Name, string? Email)>();
+        foreach (var changedBy in transitions.Where(t => t.ChangedByUserId.HasValue).Select(t => t.ChangedByUserId!.Value).Distinct())
+        {
+            var changedByUser = await _userRepository.GetByIdAsync(changedBy, cancellationToken);
+            users[changedBy] = (changedByUser?.Name, changedByUser?.Email);
+        }
+
+        return Ok(new
+        {
+            storyId,
+            history = transitions.Select(t =>
+            {
+                var changedBy = t.ChangedByUserId.HasValue ? users.GetValueOrDefault(t.ChangedByUserId.Value) : default;
+                return new
+                {
+                    id = t.Id,
+                    fromStatus = t.FromStatus,
+                    toStatus = t.ToStatus,
+                    source = t.Source,
+                    changedByUserId = t.ChangedByUserId,
+                    changedByName = changedBy.Name,
+                    changedByEmail = changedBy.Email,
+                    prUrl = t.PrUrl,
+                    changedAt = t.CreatedAt
+                };
+            })
         });
     }
 
+    private async Task<(Sprint? Sprint, IActionResult? Error)> GetAccessibleSprintAsync(Guid sprintId, CancellationToken cancellationToken)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return (null, Unauthorized());
+
+        var sprint = await _sprintRepository.GetByIdAsync(sprintId, cancellationToken);
+        if (sprint == null)
+            return (null, NotFound(new { error = "Sprint not found" }));
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(sprint.RepositoryId, userId, cancellationToken);
+        if (repo == null)
+            return (null, Forbid());
+        return (sprint, null);
+    }
+
+    private static DateTime? ToUtcDate(DateTime? value) =>
+        value.HasValue ? DateTime.SpecifyKind(value.Value.Date, DateTimeKind.Utc) : null;
+
+    private static object ToSprintResponse(Sprint s) => new
+    {
+        id = s.Id,
+        repositoryId = s.RepositoryId,
+        name = s.Name,
+        goal = s.Goal,
+        startDate = s.StartDate,
+        endDate = s.EndDate,
+        capacityPoints = s.CapacityPoints,
+        status = s.Status,
+        azureDevOpsIterationPath = s.AzureDevOpsIterationPath,
+        gitHubMilestoneNumber = s.GitHubMilestoneNumber,
+        committedPoints = s.CommittedPoints,
+        completedPoints = s.CompletedPoints,
+        createdAt = s.CreatedAt,
+        updatedAt = s.UpdatedAt
+    };
+
     /// <summary>
     /// Sync PR statuses for all stories with PRs in a repository.
     /// Checks GitHub or Azure DevOps (based on PR URL) for PR status and updates story status accordingly:
@@ -814,8 +1311,9 @@ public class BacklogController : ControllerBase
                         // Only update if status changed
                         if (!story.Status.Equals(newStatus, StringComparison.OrdinalIgnoreCase))
                         {
-                            var command = new UpdateStoryStatusCommand(story.Id, newStatus, story.PrUrl);
+                            var command = new UpdateStoryStatusCommand(story.Id, newStatus, story.PrUrl, StoryStatusTransition.SourcePrSync, userId);
                             await _mediator.Send(command, cancellationToken);
+                            await _boardEvents.PrStatusChangedAsync(repositoryId, story.Id, newStatus, story.PrUrl, prStatus.IsMerged, cancellationToken);
 
                             updatedStories.Add(new
                             {
@@ -925,9 +1423,13 @@ public class BacklogController : ControllerBase
             bool statusUpdated = false;
             if (!story.Status.Equals(expectedStatus, StringComparison.OrdinalIgnoreCase))
             {
-                story.ChangeStatus(expectedStatus);
+                story.ChangeStatus(expectedStatus, null, StoryStatusTransition.SourcePrSync, userId);
                 await _userStoryRepository.UpdateAsync(story, cancellationToken);
                 statusUpdated = true;
+
+                var repositoryId = story.Feature?.Epic?.RepositoryId;
+                if (repositoryId.HasValue)
+                    await _boardEvents.PrStatusChangedAsync(repositoryId.Value, story.Id, expectedStatus, story.PrUrl, prStatus.IsMerged, cancellationToken);
             }
 
             return Ok(new
@@ -1252,6 +1754,8 @@ public class UpdateStoryStatusRequest
 {
     public string Status { get; set; } = string.Empty;
     public string? PrUrl { get; set; }
+    /// <summary>"User" (default) or "Agent" when the sandbox agent flow moved the story.</summary>
+    public string? Source { get; set; }
 }
 
 /// <summary>
@@ -1372,6 +1876,18 @@ public class AddUserStoryRequest
     public int? AzureDevOpsWorkItemId { get; set; }
     public int? GitHubIssueNumber { get; set; }
     public Guid? RepositoryAgentRuleId { get; set; }
+    public List<Guid>? DependsOnStoryIds { get; set; }
+    public Guid? RepositoryPromptTemplateId { get; set; }
+    /// <summary>Tasks created with the story (backlog file import).</summary>
+    public List<AddUserStoryTaskRequest>? Tasks { get; set; }
+}
+
+public class AddUserStoryTaskRequest
+{
+    public string Title { get; set; } = string.Empty;
+    public string? Description { get; set; }
+    public string? Complexity { get; set; }
+    public string? Status { get; set; }
 }
 
 /// <summary>
@@ -1407,6 +1923,64 @@ public class UpdateUserStoryRequest
     /// <summary>When true, <see cref="RepositoryAgentRuleId"/> updates the story's chosen named rule (null clears).</summary>
     public bool UpdateRepositoryAgentRule { get; set; }
     public Guid? RepositoryAgentRuleId { get; set; }
+    /// <summary>When true, <see cref="RepositoryPromptTemplateId"/> updates the story's chosen prompt template (null clears).</summary>
+    public bool UpdateRepositoryPromptTemplate { get; set; }
+    public Guid? RepositoryPromptTemplateId { get; set; }
+    /// <summary>When set, replaces the stories this one depends on (empty clears); null leaves them unchanged.</summary>
+    public List<Guid>? DependsOnStoryIds { get; set; }
+}
+
+/// <summary>
+/// Request model for replacing a User Story's dependencies
+/// </summary>
+public class UpdateStoryDependenciesRequest
+{
+    public List<Guid>? DependsOnStoryIds { get; set; }
+}
+
+/// <summary>
+/// Request model for recording a User Story's pre-PR test result
+/// </summary>
+public class RecordStoryTestResultRequest
+{
+    public bool Passed { get; set; }
+    /// <summary>Summary line of the run, e.g. "Tests: 42 passed, 1 failed".</summary>
+    public string? Summary { get; set; }
+}
+
+/// <summary>
+/// Request model for creating or updating a sprint
+/// </summary>
+public class SprintRequest
+{
+    public string Name { get; set; } = string.Empty;
+    public string? Goal { get; set; }
+    public DateTime? StartDate { get; set; }
+    public DateTime? EndDate { get; set; }
+    public int? CapacityPoints { get; set; }
+    /// <summary>Azure DevOps iteration path stories of the sprint are synced to.</summary>
+    public string? AzureDevOpsIterationPath { get; set; }
+    /// <summary>GitHub milestone number issues of the sprint are synced to.</summary>
+    public int? GitHubMilestoneNumber { get; set; }
+}
+
+/// <summary>
+/// Request model for completing a sprint
+/// </summary>
+public class CompleteSprintRequest
+{
+    /// <summary>Open sprint receiving unfinished stories; null moves them back to the backlog.</summary>
+    public Guid? MoveUnfinishedToSprintId { get; set; }
+}
+
+/// <summary>
+/// Request model for assigning stories to a sprint
+/// </summary>
+public class AssignSprintStoriesRequest
+{
+    /// <summary>Target sprint; null moves the stories back to the backlog.</summary>
+    public Guid? SprintId { get; set; }
+    public List<Guid> StoryIds { get; set; } = new();
 }
 
 /// <summary>
@@ -1,6 +1,7 @@
 namespace DevPilot.API.Controllers;
 
 using System.Security.Claims;
+using System.Text.RegularExpressions;
 using Azure.Core;
 using Azure.Identity;
 using DevPilot.Application.Commands;
@@ -64,8 +65,12 @@ public class CreatePullRequestRequest
     public required string BaseBranch { get; set; }
     public required string Title { get; set; }
     public string? Body { get; set; }
-    /// <summary>Azure DevOps work item IDs to link to the PR (e.g. [190])</summary>
+    /// <summary>Work items to link: Azure DevOps work item IDs (e.g. [190]) or GitHub issue numbers (closed by the PR)</summary>
     public List<int>? WorkItemIds { get; set; }
+    /// <summary>GitHub logins or org/team slugs; Azure DevOps emails or display names</summary>
+    public List<string>? Reviewers { get; set; }
+    public List<string>? Labels { get; set; }
+    public bool IsDraft { get; set; }
 }
 
 /// <summary>
@@ -119,6 +124,48 @@ public class ReplaceRepositoryAgentRulesRequest
     public List<RepositoryAgentRuleItemRequest> Rules { get; set; } = new();
 }
 
+public class RepositoryPromptTemplateItemRequest
+{
+    public Guid? Id { get; set; }
+    public string Name { get; set; } = "";
+    public string Body { get; set; } = "";
+    public bool IsDefault { get; set; }
+    public int SortOrder { get; set; }
+}
+
+public class ReplaceRepositoryPromptTemplatesRequest
+{
+    public List<RepositoryPromptTemplateItemRequest> Templates { get; set; } = new();
+}
+
+public class UpdateRepositorySandboxProfileRequest
+{
+    /// <summary>Shell commands run in order after the clone, e.g. "npm ci".</summary>
+    public List<string>? SetupCommands { get; set; }
+    /// <summary>Non-secret environment variables exported in the sandbox.</summary>
+    public Dictionary<string, string>? EnvironmentVariables { get; set; }
+    public int? PreviewPort { get; set; }
+    public bool UseDevcontainer { get; set; }
+    /// <summary>Command run before a pull request is created, e.g. "npm test"; empty = no test gate.</summary>
+    public string? TestCommand { get; set; }
+    /// <summary>When true a failing test run blocks the pull request instead of only being reported.</summary>
+    public bool BlockPullRequestOnTestFailure { get; set; }
+}
+
+public class UpdateRepositoryPullRequestTemplateRequest
+{
+    /// <summary>Placeholders: {id}, {ref}, {storyId}, {title}, {slug}. Empty = built-in default.</summary>
+    public string? BranchNameTemplate { get; set; }
+    public string? CommitMessageTemplate { get; set; }
+    public string? TitleTemplate { get; set; }
+    public string? BodyTemplate { get; set; }
+    /// <summary>Empty = the repository's default branch.</summary>
+    public string? TargetBranch { get; set; }
+    public List<string>? Reviewers { get; set; }
+    public List<string>? Labels { get; set; }
+    public bool Draft { get; set; }
+}
+
 public class UpdateAzureIdentityRequest
 {
     public string? ClientId { get; set; }
@@ -153,6 +200,9 @@ public class RepositoriesController : ControllerBase
     private readonly IGitHubService _gitHubService;
     private readonly IAzureDevOpsService _azureDevOpsService;
     private readonly IRepositoryAgentRuleRepository _repositoryAgentRuleRepository;
+    private readonly IRepositoryPromptTemplateRepository _repositoryPromptTemplateRepository;
+    private readonly IRepositorySandboxProfileRepository _sandboxProfileRepository;
+    private readonly IRepositoryPullRequestTemplateRepository _pullRequestTemplateRepository;
     private readonly IUnpublishedRepositoryFileStore _unpublishedFileStore;
     private readonly IConfiguration _configuration;
     private readonly IHttpContextAccessor _httpContextAccessor;
@@ -169,6 +219,9 @@ public class RepositoriesController : ControllerBase
         IGitHubService gitHubService,
         IAzureDevOpsService azureDevOpsService,
         IRepositoryAgentRuleRepository repositoryAgentRuleRepository,
+        IRepositoryPromptTemplateRepository repositoryPromptTemplateRepository,
+        IRepositorySandboxProfileRepository sandboxProfileRepository,
+        IRepositoryPullRequestTemplateRepository pullRequestTemplateRepository,
         IUnpublishedRepositoryFileStore unpublishedFileStore,
         IConfiguration configuration,
         IHttpContextAccessor httpContextAccessor,
@@ -184,6 +237,9 @@ public class RepositoriesController : ControllerBase
         _gitHubService = gitHubService ?? throw new ArgumentNullException(nameof(gitHubService));
         _azureDevOpsService = azureDevOpsService ?? throw new ArgumentNullException(nameof(azureDevOpsService));
         _repositoryAgentRuleRepository = repositoryAgentRuleRepository ?? throw new ArgumentNullException(nameof(repositoryAgentRuleRepository));
+        _repositoryPromptTemplateRepository = repositoryPromptTemplateRepository ?? throw new ArgumentNullException(nameof(repositoryPromptTemplateRepository));
+        _sandboxProfileRepository = sandboxProfileRepository ?? throw new ArgumentNullException(nameof(sandboxProfileRepository));
+        _pullRequestTemplateRepository = pullRequestTemplateRepository ?? throw new ArgumentNullException(nameof(pullRequestTemplateRepository));
         _unpublishedFileStore = unpublishedFileStore ?? throw new ArgumentNullException(nameof(unpublishedFileStore));
         _configuration = configuration ?? throw new ArgumentNullException(nameof(configuration));
         _httpContextAccessor = httpContextAccessor ?? throw new ArgumentNullException(nameof(httpContextAccessor));
@@ -409,6 +465,228 @@ public class RepositoriesController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Get repository's named implementation prompt templates. Empty means the built-in prompt is used.
+    /// </summary>
+    [HttpGet("{id}/prompt-templates")]
+    [Authorize]
+    public async Task<IActionResult> GetRepositoryPromptTemplates(Guid id, CancellationToken cancellationToken = default)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized("User ID not found in token");
+
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(id, userId, cancellationToken);
+        if (repo == null) return NotFound(new { message = "Repository not found" });
+
+        var templates = await _repositoryPromptTemplateRepository.GetByRepositoryIdAsync(id, cancellationToken);
+        return Ok(new
+        {
+            templates = templates.Select(t => new
+            {
+                id = t.Id,
+                name = t.Name,
+                body = t.Body,
+                isDefault = t.IsDefault,
+                sortOrder = t.SortOrder
+            })
+        });
+    }
+
+    /// <summary>
+    /// Replace all implementation prompt templates for a repository (owner or user with access). At most one template should have isDefault true.
+    /// </summary>
+    [HttpPut("{id}/prompt-templates")]
+    [Authorize]
+    public async Task<IActionResult> ReplaceRepositoryPromptTemplates(
+        Guid id,
+        [FromBody] ReplaceRepositoryPromptTemplatesRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized("User ID not found in token");
+
+        if (await _repositoryRepository.GetByIdIfAccessibleAsync(id, userId, cancellationToken) is null)
+            return Forbid();
+
+        if (request?.Templates == null)
+            return BadRequest(new { message = "templates array is required." });
+
+        foreach (var t in request.Templates)
+        {
+            if (string.IsNullOrWhiteSpace(t.Name))
+                return BadRequest(new { message = "Each template must have a non-empty name." });
+        }
+
+        var normalized = request.Templates.Select((t, i) =>
+                (Id: t.Id, Name: t.Name.Trim(), Body: t.Body ?? "", IsDefault: t.IsDefault, SortOrder: t.SortOrder != 0 ? t.SortOrder : i))
+            .ToList();
+
+        var defaultCount = normalized.Count(x => x.IsDefault);
+        if (defaultCount > 1)
+        {
+            var firstDef = normalized.FindIndex(x => x.IsDefault);
+            normalized = normalized.Select((x, idx) => (x.Id, x.Name, x.Body, IsDefault: idx == firstDef, x.SortOrder)).ToList();
+        }
+        else if (defaultCount == 0 && normalized.Count > 0)
+        {
+            normalized = normalized.Select((x, idx) => (x.Id, x.Name, x.Body, IsDefault: idx == 0, x.SortOrder)).ToList();
+        }
+
+        await _repositoryPromptTemplateRepository.ReplaceForRepositoryAsync(
+            id,
+            normalized.Select(x => (x.Id, x.Name, x.Body, x.IsDefault, x.SortOrder)).ToList(),
+            cancellationToken);
+
+        var templates = await _repositoryPromptTemplateRepository.GetByRepositoryIdAsync(id, cancellationToken);
+        return Ok(new
+        {
+            message = "Repository prompt templates updated",
+            templates = templates.Select(t => new { id = t.Id, name = t.Name, body = t.Body, isDefault = t.IsDefault, sortOrder = t.SortOrder })
+        });
+    }
+
+    /// <summary>
+    /// Get the repository's sandbox profile (setup commands, env vars, preview port, devcontainer, test command). Unconfigured repos return an empty profile.
+    /// </summary>
+    [HttpGet("{id}/sandbox-profile")]
+    [Authorize]
+    public async Task<IActionResult> GetRepositorySandboxProfile(Guid id, CancellationToken cancellationToken = default)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized("User ID not found in token");
+
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(id, userId, cancellationToken);
+        if (repo == null) return NotFound(new { message = "Repository not found" });
+
+        var profile = await _sandboxProfileRepository.GetByRepositoryIdAsync(id, cancellationToken);
+        return Ok(ToSandboxProfileResponse(profile));
+    }
+
+    /// <summary>
+    /// Replace the repository's sandbox profile (owner or user with access). Applies to sandboxes created afterwards.
+    /// </summary>
+    [HttpPut("{id}/sandbox-profile")]
+    [Authorize]
+    public async Task<IActionResult> UpdateRepositorySandboxProfile(
+        Guid id,
+        [FromBody] UpdateRepositorySandboxProfileRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized("User ID not found in token");
+
+        if (await _repositoryRepository.GetByIdIfAccessibleAsync(id, userId, cancellationToken) is null)
+            return Forbid();
+        if (request == null)
+            return BadRequest(new { message = "Request body is required." });
+
+        var commands = (request.SetupCommands ?? new List<string>())
+            .Select(c => (c ?? "").Trim())
+            .Where(c => c.Length > 0)
+            .ToList();
+        var env = (request.EnvironmentVariables ?? new Dictionary<string, string>())
+            .GroupBy(kv => kv.Key.Trim())
+            .ToDictionary(g => g.Key, g => g.Last().Value ?? "");
+        var testCommand = string.IsNullOrWhiteSpace(request.TestCommand) ? null : request.TestCommand.Trim();
+        var error = RepositorySandboxProfile.GetValidationError(commands, env, request.PreviewPort, testCommand);
+        if (error != null)
+            return BadRequest(new { message = error });
+
+        var profile = await _sandboxProfileRepository.UpsertAsync(
+            id, commands, env, request.PreviewPort, request.UseDevcontainer,
+            testCommand, request.BlockPullRequestOnTestFailure, cancellationToken);
+        return Ok(ToSandboxProfileResponse(profile));
+    }
+
+    private static object ToSandboxProfileResponse(RepositorySandboxProfile? profile) => new
+    {
+        configured = profile != null,
+        setupCommands = profile?.GetSetupCommandList() ?? Array.Empty<string>(),
+        environmentVariables = profile?.GetEnvironmentVariables() ?? new Dictionary<string, string>(),
+        previewPort = profile?.PreviewPort,
+        useDevcontainer = profile?.UseDevcontainer ?? false,
+        testCommand = profile?.TestCommand,
+        blockPullRequestOnTestFailure = profile?.BlockPullRequestOnTestFailure ?? false,
+        updatedAt = profile?.UpdatedAt ?? profile?.CreatedAt
+    };
+
+    /// <summary>
+    /// Get the repository's pull request template (defaults of the PR form). Unconfigured repos return an empty template.
+    /// </summary>
+    [HttpGet("{id}/pull-request-template")]
+    [Authorize]
+    public async Task<IActionResult> GetRepositoryPullRequestTemplate(Guid id, CancellationToken cancellationToken = default)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized("User ID not found in token");
+
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(id, userId, cancellationToken);
+        if (repo == null) return NotFound(new { message = "Repository not found" });
+
+        var template = await _pullRequestTemplateRepository.GetByRepositoryIdAsync(id, cancellationToken);
+        return Ok(ToPullRequestTemplateResponse(template));
+    }
+
+    /// <summary>
+    /// Replace the repository's pull request template (owner or user with access).
+    /// </summary>
+    [HttpPut("{id}/pull-request-template")]
+    [Authorize]
+    public async Task<IActionResult> UpdateRepositoryPullRequestTemplate(
+        Guid id,
+        [FromBody] UpdateRepositoryPullRequestTemplateRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        var userIdClaim = User.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+            return Unauthorized("User ID not found in token");
+
+        if (await _repositoryRepository.GetByIdIfAccessibleAsync(id, userId, cancellationToken) is null)
+            return Forbid();
+        if (request == null)
+            return BadRequest(new { message = "Request body is required." });
+
+        var reviewers = (request.Reviewers ?? new List<string>()).Select(r => (r ?? "").Trim()).Where(r => r.Length > 0).ToList();
+        var labels = (request.Labels ?? new List<string>()).Select(l => (l ?? "").Trim()).Where(l => l.Length > 0).ToList();
+        var error = RepositoryPullRequestTemplate.GetValidationError(
+            request.BranchNameTemplate?.Trim(), request.CommitMessageTemplate?.Trim(), request.TitleTemplate?.Trim(),
+            request.BodyTemplate, request.TargetBranch?.Trim(), reviewers, labels);
+        if (error != null)
+            return BadRequest(new { message = error });
+
+        var template = await _pullRequestTemplateRepository.UpsertAsync(
+            id,
+            request.BranchNameTemplate,
+            request.CommitMessageTemplate,
+            request.TitleTemplate,
+            request.BodyTemplate,
+            request.TargetBranch,
+            reviewers,
+            labels,
+            request.Draft,
+            cancellationToken);
+        return Ok(ToPullRequestTemplateResponse(template));
+    }
+
+    private static object ToPullRequestTemplateResponse(RepositoryPullRequestTemplate? template) => new
+    {
+        configured = template != null,
+        branchNameTemplate = template?.BranchNameTemplate,
+        commitMessageTemplate = template?.CommitMessageTemplate,
+        titleTemplate = template?.TitleTemplate,
+        bodyTemplate = template?.BodyTemplate,
+        targetBranch = template?.TargetBranch,
+        reviewers = template?.GetReviewerList() ?? Array.Empty<string>(),
+        labels = template?.GetLabelList() ?? Array.Empty<string>(),
+        draft = template?.Draft ?? false,
+        updatedAt = template?.UpdatedAt ?? template?.CreatedAt
+    };
+
     /// <summary>
     /// Update Azure Service Principal identity for sandbox authentication (owner or user with access).
     /// Pass all three fields to set, or all null/empty to clear.
@@ -2004,7 +2282,10 @@ public class RepositoriesController : ControllerBase
                 request.HeadBranch,
                 request.BaseBranch,
                 request.Title,
-                request.Body,
+                AppendGitHubClosingReferences(request.Body, request.WorkItemIds),
+                request.Reviewers,
+                request.Labels,
+                request.IsDraft,
                 cancellationToken);
 
             return Ok(pr);
@@ -2016,6 +2297,24 @@ public class RepositoriesController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// GitHub links issues to a PR through closing keywords in the body; adds "Closes #n" for issues the body does not mention yet.
+    /// </summary>
+    private static string? AppendGitHubClosingReferences(string? body, IReadOnlyList<int>? issueNumbers)
+    {
+        if (issueNumbers == null || issueNumbers.Count == 0) return body;
+        var text = body ?? "";
+        var missing = issueNumbers
+            .Distinct()
+            .Where(n => !Regex.IsMatch(text, $@"#{n}\b"))
+            .Select(n => $"Closes #{n}")
+            .ToList();
+        if (missing.Count == 0) return body;
+        return string.IsNullOrWhiteSpace(text)
+            ? string.Join("\n", missing)
+            : text.TrimEnd() + "\n\n" + string.Join("\n", missing);
+    }
+
     private async Task<IActionResult> CreateAzureDevOpsPullRequest(
         Guid userId,
         Repository repository,
@@ -2053,6 +2352,9 @@ public class RepositoriesController : ControllerBase
                 request.Title,
                 request.Body,
                 request.WorkItemIds,
+                request.Reviewers,
+                request.Labels,
+                request.IsDraft,
                 cancellationToken,
                 useBasicAuth);
 
@@ -2665,9 +2967,7 @@ public class RepositoriesController : ControllerBase
         if (repository.Provider == "Unpublished")
         {
             var opt = _unpublishedOptions.Value;
-            var secret = !string.IsNullOrEmpty(opt.ArchiveSigningKey)
-                ? opt.ArchiveSigningKey!
-                : _configuration["JWT:SecretKey"] ?? string.Empty;
+            var secret = SandboxDownloadLinks.ResolveSigningSecret(opt, _configuration);
             if (string.IsNullOrEmpty(secret))
             {
                 return StatusCode(500, new
@@ -2678,26 +2978,17 @@ public class RepositoriesController : ControllerBase
 
             var exp = DateTimeOffset.UtcNow.AddHours(2).ToUnixTimeSeconds();
             var sig = UnpublishedArchiveToken.Sign(secret, repository.Id, exp);
-            var baseUrl = opt.DownloadBaseUrl?.Trim();
-            if (string.IsNullOrEmpty(baseUrl))
+            var baseUrl = SandboxDownloadLinks.ResolveApiBaseUrl(opt, _httpContextAccessor.HttpContext?.Request);
+            if (baseUrl is null)
             {
-                var req = _httpContextAccessor.HttpContext?.Request;
-                if (req is null)
+                return StatusCode(500, new
                 {
-                    return StatusCode(500, new
-                    {
-                        message = "Set UnpublishedRepositories:DownloadBaseUrl to the API URL reachable from the sandbox (no HTTP request context to infer it)."
-                    });
-                }
-
-                // The sandbox is another Docker container: localhost/127.0.0.1 would not reach the
-                // host where the API runs. Use host.docker.internal (Docker Desktop) or
-                // UnpublishedRepositories:DownloadBaseUrl / extra_hosts on the sandbox container (Linux).
-                baseUrl = BuildApiBaseForSandboxUnpublishedDownload(req);
+                    message = "Set UnpublishedRepositories:DownloadBaseUrl to the API URL reachable from the sandbox (no HTTP request context to infer it)."
+                });
             }
 
             archiveUrl =
-                $"{baseUrl.TrimEnd('/')}/api/repositories/{repositoryId}/unpublished/sandbox-archive?exp={exp}&sig={Uri.EscapeDataString(sig)}";
+                $"{baseUrl}/api/repositories/{repositoryId}/unpublished/sandbox-archive?exp={exp}&sig={Uri.EscapeDataString(sig)}";
             cloneUrl = string.Empty;
         }
         else if (repository.Provider == ProviderTypes.GitHub)
@@ -2727,10 +3018,7 @@ public class RepositoriesController : ControllerBase
             return BadRequest(new { message = "Missing signature" });
         }
 
-        var opt = _unpublishedOptions.Value;
-        var secret = !string.IsNullOrEmpty(opt.ArchiveSigningKey)
-            ? opt.ArchiveSigningKey!
-            : _configuration["JWT:SecretKey"] ?? string.Empty;
+        var secret = SandboxDownloadLinks.ResolveSigningSecret(_unpublishedOptions.Value, _configuration);
         if (string.IsNullOrEmpty(secret))
         {
             return Unauthorized(new { message = "Server misconfiguration" });
@@ -2804,26 +3092,4 @@ public class RepositoriesController : ControllerBase
             .ConfigureAwait(false);
         return Ok(new { message = "Project files updated" });
     }
-
-    /// <summary>
-    /// Base URL for the API as seen from inside a sandbox container (must not use loopback).
-    /// </summary>
-    private static string BuildApiBaseForSandboxUnpublishedDownload(HttpRequest req)
-    {
-        var pathBase = req.PathBase;
-        if (IsLoopbackHost(req.Host.Host))
-        {
-            var port = req.Host.Port;
-            var portSegment = port.HasValue ? $":{port.Value}" : "";
-            return $"{req.Scheme}://host.docker.internal{portSegment}{pathBase}";
-        }
-
-        return $"{req.Scheme}://{req.Host}{pathBase}";
-    }
-
-    private static bool IsLoopbackHost(string host) =>
-        host.Equals("localhost", StringComparison.OrdinalIgnoreCase)
-        || host.Equals("127.0.0.1", StringComparison.Ordinal)
-        || host.Equals("::1", StringComparison.Ordinal)
-        || host.Equals("[::1]", StringComparison.Ordinal);
 }
@@ -3,11 +3,13 @@ namespace DevPilot.API.Controllers;
 using System.Security.Claims;
 using System.Text.Json;
 using System.Text.Json.Serialization;
+using DevPilot.Application.Options;
 using DevPilot.Application.Services;
 using DevPilot.Domain.Entities;
 using DevPilot.Domain.Interfaces;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Options;
 
 /// <summary>
 /// Authenticated proxy for sandbox container management.
@@ -32,6 +34,12 @@ public class SandboxController : ControllerBase
     private readonly IUserStoryRepository _userStoryRepository;
     private readonly IRepositoryAgentRuleRepository _repositoryAgentRuleRepository;
     private readonly IUserRepositorySandboxBindingRepository _userRepositorySandboxBindingRepository;
+    private readonly IStorySandboxConversationRepository _storySandboxConversationRepository;
+    private readonly IStoryWorkspaceSnapshotRepository _workspaceSnapshotRepository;
+    private readonly IRepositorySandboxProfileRepository _sandboxProfileRepository;
+    private readonly ITokenUsageService _tokenUsageService;
+    private readonly IOptions<UnpublishedRepositoryOptions> _downloadOptions;
+    private readonly IConfiguration _configuration;
     private readonly ILogger<SandboxController> _logger;
 
     public SandboxController(
@@ -45,6 +53,12 @@ public class SandboxController : ControllerBase
         IUserStoryRepository userStoryRepository,
         IRepositoryAgentRuleRepository repositoryAgentRuleRepository,
         IUserRepositorySandboxBindingRepository userRepositorySandboxBindingRepository,
+        IStorySandboxConversationRepository storySandboxConversationRepository,
+        IStoryWorkspaceSnapshotRepository workspaceSnapshotRepository,
+        IRepositorySandboxProfileRepository sandboxProfileRepository,
+        ITokenUsageService tokenUsageService,
+        IOptions<UnpublishedRepositoryOptions> downloadOptions,
+        IConfiguration configuration,
         ILogger<SandboxController> logger)
     {
         _sandboxService = sandboxService;
@@ -57,6 +71,12 @@ public class SandboxController : ControllerBase
         _userStoryRepository = userStoryRepository;
         _repositoryAgentRuleRepository = repositoryAgentRuleRepository;
         _userRepositorySandboxBindingRepository = userRepositorySandboxBindingRepository;
+        _storySandboxConversationRepository = storySandboxConversationRepository;
+        _workspaceSnapshotRepository = workspaceSnapshotRepository;
+        _sandboxProfileRepository = sandboxProfileRepository;
+        _tokenUsageService = tokenUsageService;
+        _downloadOptions = downloadOptions;
+        _configuration = configuration;
         _logger = logger;
     }
 
@@ -132,6 +152,105 @@ public class SandboxController : ControllerBase
         return Ok(new { bindings = outList });
     }
 
+    /// <summary>
+    /// Sandbox fleet page: every sandbox of the user (or of all users for admins with <paramref name="allUsers"/>),
+    /// with creation time, owner and what it is bound to (story, Code Ask repository/branch).
+    /// Live CPU/memory/model/agent state is read from each sandbox bridge by the client.
+    /// </summary>
+    [HttpGet("fleet")]
+    public async Task<IActionResult> GetFleet([FromQuery] bool allUsers = false, CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty)
+            return Unauthorized();
+
+        var isAdmin = User.IsInRole("admin");
+        if (allUsers && !isAdmin)
+            return Forbid();
+
+        IReadOnlyList<SandboxListItem> sandboxes;
+        try
+        {
+            sandboxes = allUsers
+                ? await _sandboxService.ListAllSandboxesAsync(cancellationToken)
+                : await _sandboxService.ListSandboxesAsync(userId, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Listing sandbox fleet failed for user {UserId}", userId);
+            return StatusCode(502, new { error = "Sandbox manager is not reachable" });
+        }
+
+        var ids = sandboxes.Select(s => s.Id).ToList();
+        var bindings = (await _userRepositorySandboxBindingRepository.GetBySandboxIdsAsync(ids, cancellationToken))
+            .GroupBy(b => b.SandboxId)
+            .ToDictionary(g => g.Key, g => g.OrderByDescending(b => b.UpdatedAt ?? b.CreatedAt).First());
+        var snapshotStories = await _storySandboxConversationRepository.GetStoryIdsBySandboxIdsAsync(ids, cancellationToken);
+
+        var repositories = new Dictionary<Guid, Repository?>();
+        var stories = new Dictionary<Guid, UserStory?>();
+        var owners = new Dictionary<Guid, (string? Name, string? Email)>();
+        var rows = new List<object>();
+        foreach (var sandbox in sandboxes)
+        {
+            bindings.TryGetValue(sandbox.Id, out var binding);
+            var storyId = sandbox.StoryId;
+            if (storyId is null && snapshotStories.TryGetValue(sandbox.Id, out var snapshotStoryId))
+                storyId = snapshotStoryId;
+
+            UserStory? story = null;
+            if (storyId is Guid sid)
+            {
+                if (!stories.TryGetValue(sid, out story))
+                    stories[sid] = story = await _userStoryRepository.GetByIdAsync(sid, cancellationToken);
+            }
+
+            var repositoryId = story?.Feature?.Epic?.RepositoryId ?? binding?.RepositoryId;
+            Repository? repository = null;
+            if (repositoryId is Guid rid)
+            {
+                if (!repositories.TryGetValue(rid, out repository))
+                {
+                    repository = isAdmin
+                        ? await _repositoryRepository.GetByIdAsync(rid, cancellationToken)
+                        : await _repositoryRepository.GetByIdIfAccessibleAsync(rid, userId, cancellationToken);
+                    repositories[rid] = repository;
+                }
+            }
+            // Hide bindings to repositories the caller cannot see (e.g. repository unshared since).
+            if (repository is null)
+                story = null;
+
+            (string? Name, string? Email) owner = default;
+            if (allUsers && sandbox.OwnerId is Guid oid && !owners.TryGetValue(oid, out owner))
+            {
+                var ownerUser = await _userRepository.GetByIdAsync(oid, cancellationToken);
+                owners[oid] = owner = (ownerUser?.Name, ownerUser?.Email);
+            }
+
+            rows.Add(new
+            {
+                id = sandbox.Id,
+                status = sandbox.Status,
+                createdAt = sandbox.CreatedAt,
+                expiresAt = sandbox.ExpiresAt,
+                ownerId = sandbox.OwnerId,
+                ownerEmail = owner.Email,
+                ownerName = owner.Name,
+                isOwn = sandbox.OwnerId == userId,
+                kind = story is not null ? "story" : repository is not null ? "ask" : "other",
+                repositoryId = repository?.Id,
+                repositoryName = repository?.Name,
+                branch = binding?.RepoBranch,
+                storyId = story?.Id,
+                storyTitle = story?.Title,
+                vncPassword = sandbox.OwnerId is Guid ownerId ? _sandboxService.GetVncPasswordIfOwnedBy(ownerId, sandbox.Id) : null,
+            });
+        }
+
+        return Ok(new { sandboxes = rows, isAdmin });
+    }
+
     /// <summary>Creates a new sandbox container for the authenticated user.</summary>
     [HttpPost]
     public async Task<IActionResult> CreateSandbox(
@@ -142,6 +261,16 @@ public class SandboxController : ControllerBase
         if (userId == Guid.Empty)
             return Unauthorized();
 
+        // Past the hard limit of the monthly AI budget no new agent may run until next month.
+        var budget = await _tokenUsageService.GetBudgetStatusAsync(userId, cancellationToken);
+        if (budget.State == UsageBudget.StateHardLimitReached)
+        {
+            return StatusCode(403, new
+            {
+                error = $"Monthly AI budget reached ({budget.Spent:0.##} of {budget.MonthlyHardLimit:0.##}). Ask an admin to raise it."
+            });
+        }
+
         try
         {
             // Resolve artifact feeds server-side (same pattern as MCP/AI):
@@ -228,8 +357,36 @@ public class SandboxController : ControllerBase
                     cancellationToken);
             }
 
-            // Resolve AI config entirely server-side (never trust frontend with API keys)
-            var aiConfig = await _aiConfigResolver.GetEffectiveConfigAsync(userId, repositoryId, cancellationToken);
+            SandboxProfile? sandboxProfile = null;
+            if (resolvedRepo != null)
+            {
+                var profile = await _sandboxProfileRepository.GetByRepositoryIdAsync(resolvedRepo.Id, cancellationToken);
+                if (profile != null)
+                {
+                    sandboxProfile = new SandboxProfile
+                    {
+                        SetupCommands = profile.GetSetupCommandList().ToList(),
+                        EnvironmentVariables = new Dictionary<string, string>(profile.GetEnvironmentVariables()),
+                        PreviewPort = profile.PreviewPort,
+                        UseDevcontainer = profile.UseDevcontainer,
+                    };
+                }
+            }
+
+            // Resolve AI config entirely server-side (never trust frontend with API keys).
+            // A multi-model comparison picks the LLM per sandbox instead of the repository's setting.
+            EffectiveAiConfig aiConfig;
+            if (request.LlmSettingId is Guid llmSettingId)
+            {
+                var chosen = await _aiConfigResolver.GetConfigForLlmSettingAsync(userId, llmSettingId, cancellationToken);
+                if (chosen is null)
+                    return BadRequest(new { error = "LLM setting not found or not yours" });
+                aiConfig = chosen;
+            }
+            else
+            {
+                aiConfig = await _aiConfigResolver.GetEffectiveConfigAsync(userId, repositoryId, cancellationToken);
+            }
             SandboxAiConfig? sandboxAiConfig = null;
             if (!string.IsNullOrEmpty(aiConfig.ApiKey))
             {
@@ -264,6 +421,26 @@ public class SandboxController : ControllerBase
                 }
             }
 
+            string? snapshotArchiveUrl = null, snapshotConversationsUrl = null;
+            if (request.WorkspaceSnapshotId is Guid snapshotId)
+            {
+                var snapshot = await _workspaceSnapshotRepository.GetByIdAsync(snapshotId, cancellationToken);
+                if (snapshot is null || snapshot.UserStoryId != request.StoryId)
+                    return NotFound(new { error = "Workspace snapshot not found for this story" });
+                var snapshotStory = await _userStoryRepository.GetByIdAsync(snapshot.UserStoryId, cancellationToken);
+                if (snapshotStory?.Feature?.Epic?.Repository is null
+                    || await _repositoryRepository.GetByIdIfAccessibleAsync(
+                        snapshotStory.Feature.Epic.Repository.Id, userId, cancellationToken) is null)
+                    return Forbid();
+
+                var secret = SandboxDownloadLinks.ResolveSigningSecret(_downloadOptions.Value, _configuration);
+                var baseUrl = SandboxDownloadLinks.ResolveApiBaseUrl(_downloadOptions.Value, Request);
+                if (string.IsNullOrEmpty(secret) || baseUrl is null)
+                    return StatusCode(500, new { error = "Configure JWT:SecretKey or UnpublishedRepositories:ArchiveSigningKey to resume from snapshots" });
+                (snapshotArchiveUrl, snapshotConversationsUrl) =
+                    SandboxDownloadLinks.ForWorkspaceSnapshot(baseUrl, secret, snapshot.Id);
+            }
+
             var result = await _sandboxService.CreateSandboxAsync(
                 userId,
                 new SandboxCreateRequest
@@ -273,15 +450,19 @@ public class SandboxController : ControllerBase
                     RepoName = request.RepoName,
                     RepoBranch = request.RepoBranch,
                     RepoArchiveUrl = request.RepoArchiveUrl,
+                    WorkspaceSnapshotUrl = snapshotArchiveUrl,
+                    WorkspaceSnapshotConversationsUrl = snapshotConversationsUrl,
                     GithubToken = githubTokenForManager,
                     AzureDevOpsPat = azureDevOpsPat,
                     AiConfig = sandboxAiConfig,
                     ZedSettings = zedSettings,
                     ArtifactFeeds = artifactFeedsForSandbox.Count > 0 ? artifactFeedsForSandbox : null,
                     AgentRules = agentRulesForSandbox,
+                    Profile = sandboxProfile,
                     AzureIdentityClientId = azureIdClientId,
                     AzureIdentityClientSecret = azureIdClientSecret,
                     AzureIdentityTenantId = azureIdTenantId,
+                    StoryId = request.StoryId,
                 },
                 cancellationToken);
 
@@ -372,7 +553,7 @@ public class SandboxController : ControllerBase
         return Ok(new { id = result.Id, status = result.Status });
     }
 
-    /// <summary>Stops and removes a sandbox owned by the authenticated user.</summary>
+    /// <summary>Stops and removes a sandbox owned by the authenticated user (admins may remove any sandbox).</summary>
     [HttpDelete("{id}")]
     public async Task<IActionResult> DeleteSandbox(string id, CancellationToken cancellationToken)
     {
@@ -380,7 +561,9 @@ public class SandboxController : ControllerBase
         if (userId == Guid.Empty)
             return Unauthorized();
 
-        var deleted = await _sandboxService.DeleteSandboxAsync(userId, id, cancellationToken);
+        var actingUserId = await ResolveActingUserIdAsync(userId, id, cancellationToken);
+        await RecordUsageBeforeTeardownAsync(actingUserId, id, cancellationToken);
+        var deleted = await _sandboxService.DeleteSandboxAsync(actingUserId, id, cancellationToken);
         if (!deleted)
             return NotFound(new { error = "Sandbox not found or not owned by this user" });
 
@@ -389,6 +572,58 @@ public class SandboxController : ControllerBase
         return Ok(new { status = "deleted" });
     }
 
+    /// <summary>Stops a sandbox but keeps its container (admins may stop any sandbox).</summary>
+    [HttpPost("{id}/stop")]
+    public async Task<IActionResult> StopSandbox(string id, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty)
+            return Unauthorized();
+
+        var actingUserId = await ResolveActingUserIdAsync(userId, id, cancellationToken);
+        await RecordUsageBeforeTeardownAsync(actingUserId, id, cancellationToken);
+        var stopped = await _sandboxService.StopSandboxAsync(actingUserId, id, cancellationToken);
+        if (!stopped)
+            return NotFound(new { error = "Sandbox not found or not owned by this user" });
+
+        return Ok(new { status = "stopped" });
+    }
+
+    /// <summary>
+    /// Records the last turns of a sandbox that is about to stop; the background usage collector only runs
+    /// once a minute and cannot reach a stopped bridge.
+    /// </summary>
+    private async Task RecordUsageBeforeTeardownAsync(Guid ownerId, string sandboxId, CancellationToken cancellationToken)
+    {
+        var sandbox = _sandboxService.GetOwnedSandboxes().FirstOrDefault(s => s.Id == sandboxId && s.OwnerId == ownerId);
+        if (sandbox is null) return;
+        try
+        {
+            await _tokenUsageService.RecordFromSandboxAsync(sandbox, cancellationToken);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to record token usage of sandbox {SandboxId} before stopping it", sandboxId);
+        }
+    }
+
+    /// <summary>
+    /// User whose ownership is used for a sandbox action: the caller, or for admins the sandbox owner
+    /// (unclaimed sandboxes are adopted by the admin first).
+    /// </summary>
+    private async Task<Guid> ResolveActingUserIdAsync(Guid userId, string sandboxId, CancellationToken cancellationToken)
+    {
+        if (!User.IsInRole("admin"))
+            return userId;
+
+        var ownerId = _sandboxService.GetOwnerId(sandboxId);
+        if (ownerId.HasValue)
+            return ownerId.Value;
+
+        await _sandboxService.TryAssignSandboxOwnershipAsync(userId, sandboxId, cancellationToken);
+        return userId;
+    }
+
     private Guid GetUserId()
     {
         var raw = User.FindFirstValue(ClaimTypes.NameIdentifier);
@@ -563,6 +798,14 @@ public class CreateSandboxRequest
     /// <summary>When set, agent rules are resolved from this story's chosen rule (or repo default).</summary>
     [JsonPropertyName("story_id")]
     public Guid? StoryId { get; set; }
+
+    /// <summary>Resume: seed the sandbox from this workspace snapshot of <see cref="StoryId"/> (files and agent history).</summary>
+    [JsonPropertyName("workspace_snapshot_id")]
+    public Guid? WorkspaceSnapshotId { get; set; }
+
+    /// <summary>Use this LLM setting (own or shared) instead of the repository's; one sandbox per model when comparing.</summary>
+    [JsonPropertyName("llm_setting_id")]
+    public Guid? LlmSettingId { get; set; }
 }
 
 public class ArtifactFeedPayload
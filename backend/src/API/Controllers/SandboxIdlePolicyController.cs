@@ -0,0 +1,122 @@
+namespace DevPilot.API.Controllers;
+
+using System.Security.Claims;
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+/// <summary>
+/// Sandbox idle auto-shutdown policy. The effective policy is the user's override, else the admin default,
+/// else the built-in default. The frontend enforces it per open sandbox (warning toast, then stop).
+/// </summary>
+[ApiController]
+[Route("api/sandboxes/idle-policy")]
+[Authorize]
+public class SandboxIdlePolicyController : ControllerBase
+{
+    private readonly ISandboxIdlePolicyRepository _repo;
+    private readonly ILogger<SandboxIdlePolicyController> _logger;
+
+    public SandboxIdlePolicyController(ISandboxIdlePolicyRepository repo, ILogger<SandboxIdlePolicyController> logger)
+    {
+        _repo = repo;
+        _logger = logger;
+    }
+
+    /// <summary>Effective policy for the current user, with the user override and the default it falls back to.</summary>
+    [HttpGet]
+    public async Task<ActionResult<SandboxIdlePolicyResponse>> Get(CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        return Ok(await BuildResponseAsync(userId, cancellationToken));
+    }
+
+    /// <summary>Saves the current user's override.</summary>
+    [HttpPut]
+    public async Task<ActionResult<SandboxIdlePolicyResponse>> SaveForUser(
+        [FromBody] SaveSandboxIdlePolicyRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (request is null) return BadRequest();
+        var validationError = SandboxIdlePolicy.GetValidationError(request.IdleMinutes, request.WarningMinutes);
+        if (validationError != null) return BadRequest(new { message = validationError });
+
+        await _repo.UpsertAsync(userId, request.IdleMinutes, request.WarningMinutes, cancellationToken);
+        return Ok(await BuildResponseAsync(userId, cancellationToken));
+    }
+
+    /// <summary>Removes the current user's override (the admin default applies again).</summary>
+    [HttpDelete]
+    public async Task<ActionResult<SandboxIdlePolicyResponse>> ResetForUser(CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        await _repo.DeleteByUserIdAsync(userId, cancellationToken);
+        return Ok(await BuildResponseAsync(userId, cancellationToken));
+    }
+
+    /// <summary>Saves the default for users without an override.</summary>
+    [HttpPut("default")]
+    [Authorize(Roles = "admin")]
+    public async Task<ActionResult<SandboxIdlePolicyResponse>> SaveDefault(
+        [FromBody] SaveSandboxIdlePolicyRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (request is null) return BadRequest();
+        var validationError = SandboxIdlePolicy.GetValidationError(request.IdleMinutes, request.WarningMinutes);
+        if (validationError != null) return BadRequest(new { message = validationError });
+
+        await _repo.UpsertAsync(null, request.IdleMinutes, request.WarningMinutes, cancellationToken);
+        _logger.LogInformation(
+            "Sandbox idle default set to {IdleMinutes} min (warning {WarningMinutes} min) by {UserId}",
+            request.IdleMinutes, request.WarningMinutes, userId);
+        return Ok(await BuildResponseAsync(userId, cancellationToken));
+    }
+
+    private async Task<SandboxIdlePolicyResponse> BuildResponseAsync(Guid userId, CancellationToken cancellationToken)
+    {
+        var userPolicy = await _repo.GetByUserIdAsync(userId, cancellationToken);
+        var adminDefault = await _repo.GetDefaultAsync(cancellationToken);
+
+        var defaults = adminDefault is null
+            ? new SandboxIdlePolicyValues(SandboxIdlePolicy.BuiltInIdleMinutes, SandboxIdlePolicy.BuiltInWarningMinutes)
+            : new SandboxIdlePolicyValues(adminDefault.IdleMinutes, adminDefault.WarningMinutes);
+        var user = userPolicy is null ? null : new SandboxIdlePolicyValues(userPolicy.IdleMinutes, userPolicy.WarningMinutes);
+        var effective = user ?? defaults;
+
+        return new SandboxIdlePolicyResponse(
+            effective.IdleMinutes,
+            effective.WarningMinutes,
+            user != null ? "user" : adminDefault != null ? "admin" : "builtin",
+            user,
+            defaults);
+    }
+
+    private Guid GetUserId()
+    {
+        var raw = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(raw, out var id) ? id : Guid.Empty;
+    }
+
+    public record SandboxIdlePolicyValues(int IdleMinutes, int WarningMinutes);
+
+    /// <summary><paramref name="Source"/>: user, admin or builtin.</summary>
+    public record SandboxIdlePolicyResponse(
+        int IdleMinutes,
+        int WarningMinutes,
+        string Source,
+        SandboxIdlePolicyValues? User,
+        SandboxIdlePolicyValues Default);
+
+    public class SaveSandboxIdlePolicyRequest
+    {
+        public int IdleMinutes { get; set; }
+        public int WarningMinutes { get; set; }
+    }
+}
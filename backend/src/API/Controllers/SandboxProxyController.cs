@@ -8,19 +8,27 @@ using System.Net.WebSockets;
 using System.Security.Claims;
 using System.Text;
 using System.Text.RegularExpressions;
+using DevPilot.Application.Services;
 using DevPilot.Domain.Interfaces;
 using DevPilot.Infrastructure.Sandbox;
 using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Configuration;
+using SandboxViewShare = DevPilot.Domain.Entities.SandboxViewShare;
+using StoryWorkspaceSnapshot = DevPilot.Domain.Entities.StoryWorkspaceSnapshot;
+using UsageBudget = DevPilot.Domain.Entities.UsageBudget;
 
 /// <summary>
 /// Reverse-proxy all sandbox bridge, VNC, and dev-server preview traffic through the backend.
 /// The browser never receives internal sandbox URLs — it only uses relative
 /// paths like <c>/api/sandboxes/{id}/bridge/health</c>,
 /// <c>/api/sandboxes/{id}/vnc/vnc_lite.html</c>, or
-/// <c>/api/sandboxes/{id}/preview/5173/</c> for in-sandbox dev servers.
-/// Preview and VNC are <see cref="AllowAnonymousAttribute"/> (iframes cannot send JWT); bridge stays authorized.
+/// <c>/api/sandboxes/{id}/preview/5173/</c> for in-sandbox dev servers, and the
+/// <c>/api/sandboxes/{id}/bridge/terminal</c> and <c>/api/sandboxes/{id}/bridge/agent-events</c> WebSockets
+/// for the web terminal and the live agent event stream.
+/// Preview and the noVNC files are <see cref="AllowAnonymousAttribute"/> (iframes cannot send JWT), but the preview
+/// still requires the owner's preview-session cookie; bridge stays authorized.
+/// Read-only share links (<c>/api/shared/{token}/…</c>) are anonymous too, gated by the share token.
 /// </summary>
 [ApiController]
 [Route("api/sandboxes/{sandboxId}")]
@@ -55,10 +63,46 @@ public class SandboxProxyController : ControllerBase
     private static bool IsPreviewPortAllowed(int port) =>
         port is >= 1 and <= 65535 && !DeniedPreviewPorts.Contains(port);
 
+    /// <summary>
+    /// Read-only bridge routes an admin may call on any user's sandbox (fleet page live stats).
+    /// Everything else (chat, files, terminal, agent prompts) stays with the owner.
+    /// </summary>
+    private static readonly HashSet<string> AdminReadableBridgeRoutes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "system-info",
+        "agent/status",
+    };
+
+    /// <summary>Bridge routes that start an LLM turn; refused once the owner's monthly hard budget limit is reached.</summary>
+    private static readonly HashSet<string> PromptBridgeRoutes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "chat",
+        "agent/prompt",
+        "analyze",
+        "zed/send-prompt",   // types the prompt into Zed's agent panel; the main implementation path
+        "debug/test-input",  // types arbitrary text into the desktop, so it can submit a prompt too
+    };
+
+    /// <summary>Cookie holding the <see cref="SandboxAccessTicket.Preview"/> ticket, scoped to one sandbox's preview path.</summary>
+    private const string PreviewCookieName = "devpilot_preview";
+
+    /// <summary>Long enough for a working session; the frontend renews it on every preview load.</summary>
+    private static readonly TimeSpan PreviewSessionLifetime = TimeSpan.FromHours(8);
+
+    /// <summary>Only has to outlive loading the noVNC page up to its WebSocket connect.</summary>
+    private static readonly TimeSpan VncTicketLifetime = TimeSpan.FromMinutes(2);
+
+    /// <summary>How often an open shared desktop stream re-checks that its link is still active.</summary>
+    private static readonly TimeSpan ShareRecheckInterval = TimeSpan.FromSeconds(15);
+
     private readonly SandboxService _sandboxService;
     private readonly IUserStoryRepository _userStoryRepository;
     private readonly IRepositoryRepository _repositoryRepository;
     private readonly IStorySandboxConversationRepository _storySandboxConversationRepository;
+    private readonly IStoryWorkspaceSnapshotRepository _workspaceSnapshotRepository;
+    private readonly IWorkspaceSnapshotFileStore _workspaceSnapshotFileStore;
+    private readonly ITokenUsageService _tokenUsageService;
+    private readonly ISandboxViewShareRepository _shareRepository;
     private readonly IConfiguration _configuration;
     private readonly ILogger<SandboxProxyController> _logger;
 
@@ -67,6 +111,10 @@ public class SandboxProxyController : ControllerBase
         IUserStoryRepository userStoryRepository,
         IRepositoryRepository repositoryRepository,
         IStorySandboxConversationRepository storySandboxConversationRepository,
+        IStoryWorkspaceSnapshotRepository workspaceSnapshotRepository,
+        IWorkspaceSnapshotFileStore workspaceSnapshotFileStore,
+        ITokenUsageService tokenUsageService,
+        ISandboxViewShareRepository shareRepository,
         IConfiguration configuration,
         ILogger<SandboxProxyController> logger)
     {
@@ -74,6 +122,10 @@ public class SandboxProxyController : ControllerBase
         _userStoryRepository = userStoryRepository;
         _repositoryRepository = repositoryRepository;
         _storySandboxConversationRepository = storySandboxConversationRepository;
+        _workspaceSnapshotRepository = workspaceSnapshotRepository;
+        _workspaceSnapshotFileStore = workspaceSnapshotFileStore;
+        _tokenUsageService = tokenUsageService;
+        _shareRepository = shareRepository;
         _configuration = configuration;
         _logger = logger;
     }
@@ -88,9 +140,25 @@ public class SandboxProxyController : ControllerBase
     [HttpPatch("bridge/{**subpath}")]
     public async Task<IActionResult> ProxyBridge(string sandboxId, string? subpath)
     {
-        var info = await ResolveInfoAsync(sandboxId);
+        var adminReadable = HttpMethods.IsGet(Request.Method)
+            && subpath is not null
+            && AdminReadableBridgeRoutes.Contains(subpath.Trim('/'));
+        var info = await ResolveInfoAsync(sandboxId, adminReadable);
         if (info is null) return NotFound(new { error = "Sandbox not found" });
 
+        if (HttpMethods.IsPost(Request.Method) && subpath is not null && PromptBridgeRoutes.Contains(subpath.Trim('/')))
+        {
+            // Usage is recorded server-side as turns finish, so the budget is enforced per prompt, not only at creation.
+            var budget = await _tokenUsageService.GetBudgetStatusAsync(GetUserId(), HttpContext.RequestAborted);
+            if (budget.State == UsageBudget.StateHardLimitReached)
+            {
+                return StatusCode(403, new
+                {
+                    error = $"Monthly AI budget reached ({budget.Spent:0.##} of {budget.MonthlyHardLimit:0.##}). Ask an admin to raise it."
+                });
+            }
+        }
+
         var upstreamQuery = BuildBridgeQueryStringExcludingStoryId(Request.Query);
         var bridgeBase = ResolveManagerBridgeBase(sandboxId, info.InternalBridgeUrl);
         var target = BuildUpstreamUrl(bridgeBase, subpath, upstreamQuery);
@@ -106,9 +174,124 @@ public class SandboxProxyController : ControllerBase
         return await ForwardHttpAsync(target, info.SandboxToken);
     }
 
+    // ── Story workspace snapshots ────────────────────────────────────────────
+
+    /// <summary>
+    /// Saves the workspace (bridge <c>/project/archive.zip?snapshot=1</c>) and agent conversations of this sandbox
+    /// as a snapshot of the story, so a later sandbox can resume from it. Keeps the newest
+    /// <see cref="StoryWorkspaceSnapshot.MaxPerStory"/> snapshots per story.
+    /// </summary>
+    [Authorize]
+    [HttpPost("workspace-snapshots")]
+    public async Task<IActionResult> CreateWorkspaceSnapshot(string sandboxId, [FromBody] CreateWorkspaceSnapshotRequest? request)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty)
+            return Unauthorized();
+        if (request?.StoryId is not Guid storyId || storyId == Guid.Empty)
+            return BadRequest(new { error = "storyId is required" });
+
+        var ct = HttpContext.RequestAborted;
+        var story = await _userStoryRepository.GetByIdAsync(storyId, ct);
+        if (story?.Feature?.Epic?.Repository is null)
+            return NotFound(new { error = "User story not found" });
+        if (await _repositoryRepository.GetByIdIfAccessibleAsync(story.Feature.Epic.Repository.Id, userId, ct) is null)
+            return Forbid();
+
+        var info = await ResolveInfoAsync(sandboxId);
+        if (info is null) return NotFound(new { error = "Sandbox not found" });
+        var bridgeBase = ResolveManagerBridgeBase(sandboxId, info.InternalBridgeUrl);
+
+        using var client = CreateSandboxProxyHttpClient();
+        // Zipping a large workspace takes longer than a proxied bridge call.
+        client.Timeout = TimeSpan.FromMinutes(5);
+
+        var snapshotId = Guid.NewGuid();
+        string conversationsJson;
+        string? branch;
+        long archiveSize;
+        try
+        {
+            using var conversationsReq = new HttpRequestMessage(HttpMethod.Get, $"{bridgeBase}/all-conversations");
+            using var archiveReq = new HttpRequestMessage(HttpMethod.Get, $"{bridgeBase}/project/archive.zip?snapshot=1");
+            if (!string.IsNullOrEmpty(info.SandboxToken))
+            {
+                conversationsReq.Headers.Authorization = new AuthenticationHeaderValue("Bearer", info.SandboxToken);
+                archiveReq.Headers.Authorization = new AuthenticationHeaderValue("Bearer", info.SandboxToken);
+            }
+
+            using var conversationsRes = await client.SendAsync(conversationsReq, ct);
+            conversationsJson = conversationsRes.IsSuccessStatusCode
+                ? await conversationsRes.Content.ReadAsStringAsync(ct)
+                : "{\"conversations\":[],\"count\":0}";
+
+            using var archiveRes = await client.SendAsync(archiveReq, HttpCompletionOption.ResponseHeadersRead, ct);
+            if (!archiveRes.IsSuccessStatusCode)
+                return StatusCode(502, new { error = $"Sandbox could not archive the workspace ({(int)archiveRes.StatusCode})" });
+            branch = archiveRes.Headers.TryGetValues("X-DevPilot-Branch", out var branchValues)
+                ? branchValues.FirstOrDefault()
+                : null;
+            await using var archiveStream = await archiveRes.Content.ReadAsStreamAsync(ct);
+            archiveSize = await _workspaceSnapshotFileStore.SaveAsync(snapshotId, archiveStream, ct);
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException)
+        {
+            _workspaceSnapshotFileStore.Delete(snapshotId);
+            _logger.LogWarning(ex, "Workspace snapshot of sandbox {SandboxId} failed", sandboxId);
+            return StatusCode(502, new { error = "Upstream unreachable" });
+        }
+
+        var snapshot = new StoryWorkspaceSnapshot(snapshotId, storyId, sandboxId, userId, branch, archiveSize, conversationsJson);
+        try
+        {
+            await _workspaceSnapshotRepository.AddAsync(snapshot, ct);
+        }
+        catch
+        {
+            _workspaceSnapshotFileStore.Delete(snapshotId);
+            throw;
+        }
+
+        var existing = await _workspaceSnapshotRepository.ListByUserStoryIdAsync(storyId, ct);
+        foreach (var old in existing.Skip(StoryWorkspaceSnapshot.MaxPerStory))
+        {
+            await _workspaceSnapshotRepository.DeleteAsync(old.Id, ct);
+            _workspaceSnapshotFileStore.Delete(old.Id);
+        }
+
+        _logger.LogInformation(
+            "Workspace snapshot {SnapshotId} of sandbox {SandboxId} saved for story {StoryId} ({Bytes} bytes)",
+            snapshotId, sandboxId, storyId, archiveSize);
+        return Ok(WorkspaceSnapshotDto.From(snapshot));
+    }
+
     // ── In-sandbox app preview (HTTP only; e.g. Vite/webpack dev server) ────
-    // AllowAnonymous: iframe / window.open cannot attach JWT (same model as VNC).
-    // Access is gated by knowing the sandbox ID.
+    // AllowAnonymous: iframe / window.open cannot attach JWT. The owner's browser first calls
+    // preview-session, which sets a ticket cookie scoped to this sandbox's preview path; every
+    // proxied request must carry the JWT or that cookie, and the sandbox must belong to its user.
+
+    /// <summary>Sets the <see cref="PreviewCookieName"/> cookie the preview iframe sends instead of the JWT.</summary>
+    [Authorize]
+    [HttpPost("preview-session")]
+    public async Task<IActionResult> CreatePreviewSession(string sandboxId)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (await ResolveInfoAsync(sandboxId) is null) return NotFound(new { error = "Sandbox not found" });
+
+        var expiresAt = DateTimeOffset.UtcNow.Add(PreviewSessionLifetime);
+        var ticket = SandboxAccessTicket.Issue(
+            _configuration["JWT:SecretKey"] ?? string.Empty, SandboxAccessTicket.Preview, sandboxId, userId, expiresAt);
+        Response.Cookies.Append(PreviewCookieName, ticket, new CookieOptions
+        {
+            HttpOnly = true,
+            Secure = Request.IsHttps,
+            SameSite = SameSiteMode.Lax,
+            Path = $"{Request.PathBase}/api/sandboxes/{Uri.EscapeDataString(sandboxId)}/preview",
+            Expires = expiresAt,
+        });
+        return NoContent();
+    }
 
     [AllowAnonymous]
     [HttpGet("preview/{previewPort:int}")]
@@ -137,11 +320,24 @@ public class SandboxProxyController : ControllerBase
         if (!IsPreviewPortAllowed(previewPort))
             return BadRequest(new { error = $"Preview port {previewPort} is blocked (internal service or invalid)." });
 
-        var info = await _sandboxService.TryGetOrRediscoverByIdAsync(sandboxId, HttpContext.RequestAborted);
+        var userId = GetUserId();
+        if (userId == Guid.Empty)
+        {
+            userId = SandboxAccessTicket.Validate(
+                _configuration["JWT:SecretKey"] ?? string.Empty,
+                SandboxAccessTicket.Preview,
+                sandboxId,
+                Request.Cookies[PreviewCookieName]) ?? Guid.Empty;
+        }
+        if (userId == Guid.Empty)
+            return Unauthorized(new { error = "Open the preview from DevPilot to start a preview session." });
+
+        var info = _sandboxService.TryGetInternalInfo(userId, sandboxId)
+            ?? await _sandboxService.TryRediscoverAsync(userId, sandboxId, HttpContext.RequestAborted);
         if (info is null)
         {
             _logger.LogWarning(
-                "Preview: could not resolve sandbox {SandboxId} (not in server map and manager GET failed or returned no bridge_url). Check VPS:GatewayUrl and manager API key.",
+                "Preview: could not resolve sandbox {SandboxId} for its owner (not theirs, or not in server map and manager GET failed). Check VPS:GatewayUrl and manager API key.",
                 sandboxId);
             return NotFound(new { error = "Sandbox not found" });
         }
@@ -163,8 +359,8 @@ public class SandboxProxyController : ControllerBase
     }
 
     // ── VNC HTTP proxy (noVNC static files) ──────────────────────────────────
-    // AllowAnonymous: the noVNC iframe cannot carry a JWT.
-    // Access is gated by the sandbox ID (random UUID).
+    // AllowAnonymous: the noVNC iframe cannot carry a JWT, and these are only the static viewer files.
+    // The desktop itself is the websockify stream below, which needs a ticket issued to the owner.
 
     [AllowAnonymous]
     [HttpGet("vnc/{**subpath}")]
@@ -180,6 +376,29 @@ public class SandboxProxyController : ControllerBase
 
     // ── VNC WebSocket proxy ──────────────────────────────────────────────────
 
+    /// <summary>
+    /// Ticket for one connection of <see cref="ProxyVncWebSocket"/>, for the owner (or an admin, from the fleet page).
+    /// The viewer asks for a new one on every (re)load of the noVNC page, so the 24h JWT never lands in its URL.
+    /// </summary>
+    [Authorize]
+    [HttpPost("vnc/ticket")]
+    public async Task<IActionResult> CreateVncTicket(string sandboxId)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (await ResolveInfoAsync(sandboxId, allowAdmin: true) is null) return NotFound(new { error = "Sandbox not found" });
+
+        var expiresAt = DateTimeOffset.UtcNow.Add(VncTicketLifetime);
+        var ticket = SandboxAccessTicket.Issue(
+            _configuration["JWT:SecretKey"] ?? string.Empty, SandboxAccessTicket.Vnc, sandboxId, userId, expiresAt);
+        return Ok(new { ticket, expiresAt });
+    }
+
+    /// <summary>
+    /// The desktop stream of the owner (or an admin); a <see cref="CreateVncTicket"/> ticket arrives as <c>ticket</c>.
+    /// Not open to anyone else: the VNC passwords are shown to share viewers, so only the token-gated
+    /// <see cref="ProxySharedVncWebSocket"/> may serve them, and stops when the link is revoked or expires.
+    /// </summary>
     [AllowAnonymous]
     [Route("vnc/websockify")]
     public async Task ProxyVncWebSocket(string sandboxId)
@@ -191,6 +410,16 @@ public class SandboxProxyController : ControllerBase
             return;
         }
 
+        var ticketUser = SandboxAccessTicket.Validate(
+            _configuration["JWT:SecretKey"] ?? string.Empty, SandboxAccessTicket.Vnc, sandboxId, Request.Query["ticket"].FirstOrDefault());
+        if (ticketUser is null)
+        {
+            HttpContext.Response.StatusCode = 401;
+            await HttpContext.Response.WriteAsync("VNC ticket missing or expired");
+            return;
+        }
+
+        // The ticket was only issued after the owner / admin check in CreateVncTicket.
         var info = await _sandboxService.TryGetOrRediscoverByIdAsync(sandboxId, HttpContext.RequestAborted);
         if (info is null)
         {
@@ -199,6 +428,11 @@ public class SandboxProxyController : ControllerBase
             return;
         }
 
+        await RelayVncWebSocketAsync(sandboxId, info, HttpContext.RequestAborted);
+    }
+
+    private async Task RelayVncWebSocketAsync(string sandboxId, SandboxInternalInfo info, CancellationToken stopToken)
+    {
         var vncBase = ResolveManagerVncBase(sandboxId, info.InternalVncUrl);
         var httpUri = new Uri(vncBase, UriKind.Absolute);
         var wsScheme = httpUri.Scheme == "https" ? "wss" : "ws";
@@ -212,7 +446,7 @@ public class SandboxProxyController : ControllerBase
 
         try
         {
-            await upstream.ConnectAsync(wsUri, HttpContext.RequestAborted);
+            await upstream.ConnectAsync(wsUri, stopToken);
         }
         catch (Exception ex)
         {
@@ -221,6 +455,185 @@ public class SandboxProxyController : ControllerBase
             return;
         }
 
+        var cts = CancellationTokenSource.CreateLinkedTokenSource(stopToken);
+
+        var upToDown = PipeAsync(upstream, downstream, cts);
+        var downToUp = PipeAsync(downstream, upstream, cts);
+
+        await Task.WhenAny(upToDown, downToUp);
+        cts.Cancel();
+
+        await CloseGracefully(upstream);
+        await CloseGracefully(downstream);
+    }
+
+    // ── Read-only share links ────────────────────────────────────────────────
+    // AllowAnonymous: a teammate opens the link without signing in. Access is gated by the share token,
+    // checked on every request; the desktop uses the x11vnc view-only password, so input is ignored.
+    // The routes carry only the token (/api/shared/{token}/…): the sandbox id is resolved from the share
+    // and never reaches the viewer.
+
+    /// <summary>What the share page needs: title, expiry and the view-only VNC password (never the full one).</summary>
+    [AllowAnonymous]
+    [HttpGet("~/api/shared/{token}")]
+    public async Task<IActionResult> GetSharedView(string token)
+    {
+        var (share, error) = await ResolveActiveShareAsync(token);
+        if (share is null) return error!;
+
+        var info = await _sandboxService.TryGetOrRediscoverByIdAsync(share.SandboxId, HttpContext.RequestAborted);
+        if (info is null || string.IsNullOrEmpty(info.VncViewPassword))
+            return NotFound(new { error = "The shared sandbox is no longer running" });
+
+        return Ok(new { title = share.Title, expiresAt = share.ExpiresAt, vncViewPassword = info.VncViewPassword });
+    }
+
+    /// <summary>Agent chat of the shared sandbox (bridge <c>/all-conversations</c>), read-only.</summary>
+    [AllowAnonymous]
+    [HttpGet("~/api/shared/{token}/conversations")]
+    public async Task<IActionResult> GetSharedConversations(string token)
+    {
+        var (share, error) = await ResolveActiveShareAsync(token);
+        if (share is null) return error!;
+
+        var info = await _sandboxService.TryGetOrRediscoverByIdAsync(share.SandboxId, HttpContext.RequestAborted);
+        if (info is null) return NotFound(new { error = "The shared sandbox is no longer running" });
+
+        var target = BuildUpstreamUrl(ResolveManagerBridgeBase(share.SandboxId, info.InternalBridgeUrl), "all-conversations", null);
+        return await ForwardHttpAsync(target, info.SandboxToken);
+    }
+
+    [AllowAnonymous]
+    [HttpGet("~/api/shared/{token}/vnc/{**subpath}")]
+    public async Task<IActionResult> ProxySharedVnc(string token, string? subpath)
+    {
+        var (share, error) = await ResolveActiveShareAsync(token);
+        if (share is null) return error!;
+
+        var info = await _sandboxService.TryGetOrRediscoverByIdAsync(share.SandboxId, HttpContext.RequestAborted);
+        if (info is null) return NotFound(new { error = "Sandbox not found" });
+
+        var target = BuildUpstreamUrl(ResolveManagerVncBase(share.SandboxId, info.InternalVncUrl), subpath, Request.QueryString.Value);
+        return await ForwardHttpAsync(target, sandboxToken: null);
+    }
+
+    /// <summary>Like <see cref="ProxyVncWebSocket"/>, but the stream is closed once the link is revoked or expires.</summary>
+    [AllowAnonymous]
+    [Route("~/api/shared/{token}/vnc/websockify")]
+    public async Task ProxySharedVncWebSocket(string token)
+    {
+        if (!HttpContext.WebSockets.IsWebSocketRequest)
+        {
+            HttpContext.Response.StatusCode = 400;
+            await HttpContext.Response.WriteAsync("WebSocket upgrade required");
+            return;
+        }
+
+        var (share, _) = await ResolveActiveShareAsync(token);
+        var info = share is null ? null : await _sandboxService.TryGetOrRediscoverByIdAsync(share.SandboxId, HttpContext.RequestAborted);
+        if (share is null || info is null)
+        {
+            HttpContext.Response.StatusCode = 404;
+            await HttpContext.Response.WriteAsync("Share link not found");
+            return;
+        }
+
+        using var relay = CancellationTokenSource.CreateLinkedTokenSource(HttpContext.RequestAborted);
+        var watch = WatchShareAsync(share.Id, relay);
+        await RelayVncWebSocketAsync(share.SandboxId, info, relay.Token);
+        relay.Cancel();
+        await watch;
+    }
+
+    /// <summary>Share with this token, which names the sandbox; otherwise 404 (unknown) or 410 (revoked / expired).</summary>
+    private async Task<(SandboxViewShare? Share, IActionResult? Error)> ResolveActiveShareAsync(string token)
+    {
+        var share = await _shareRepository.GetByTokenAsync(token, HttpContext.RequestAborted);
+        if (share is null)
+            return (null, NotFound(new { error = "Share link not found" }));
+        if (!share.IsActive(DateTime.UtcNow))
+            return (null, StatusCode(410, new { error = "This share link has expired or was revoked" }));
+        return (share, null);
+    }
+
+    /// <summary>Cancels <paramref name="relay"/> when the share is revoked or expires; returns when the relay ends.</summary>
+    private async Task WatchShareAsync(Guid shareId, CancellationTokenSource relay)
+    {
+        try
+        {
+            while (!relay.IsCancellationRequested)
+            {
+                await Task.Delay(ShareRecheckInterval, relay.Token);
+                var share = await _shareRepository.GetByIdAsync(shareId, relay.Token);
+                if (share is null || !share.IsActive(DateTime.UtcNow))
+                {
+                    _logger.LogInformation("Closing shared desktop stream of view share {ShareId}", shareId);
+                    relay.Cancel();
+                }
+            }
+        }
+        catch (OperationCanceledException) { }
+    }
+
+    // ── Bridge WebSocket proxies (web terminal, agent events) ───────────────
+
+    /// <summary>
+    /// Relays the web terminal (a shell on a PTY, bridge <c>/terminal</c>) between the browser and the sandbox.
+    /// Browsers cannot set headers on WebSocket requests, so the JWT arrives as <c>access_token</c> (see Program.cs);
+    /// the sandbox token is added here as for <see cref="ProxyBridge"/>.
+    /// </summary>
+    [Authorize]
+    [Route("bridge/terminal")]
+    public Task ProxyBridgeTerminalWebSocket(string sandboxId) =>
+        RelayBridgeWebSocketAsync(sandboxId, "terminal", "Sandbox terminal unreachable");
+
+    /// <summary>
+    /// Relays the agent event stream (bridge <c>/agent/events</c>: token deltas, tool start/end, turn complete).
+    /// A WebSocket rather than <see cref="ProxyBridge"/> because turns outlive the HTTP proxy timeout; authorized like the terminal.
+    /// </summary>
+    [Authorize]
+    [Route("bridge/agent-events")]
+    public Task ProxyBridgeAgentEventsWebSocket(string sandboxId) =>
+        RelayBridgeWebSocketAsync(sandboxId, "agent/events", "Sandbox agent events unreachable");
+
+    private async Task RelayBridgeWebSocketAsync(string sandboxId, string bridgePath, string unreachableReason)
+    {
+        if (!HttpContext.WebSockets.IsWebSocketRequest)
+        {
+            HttpContext.Response.StatusCode = 400;
+            await HttpContext.Response.WriteAsync("WebSocket upgrade required");
+            return;
+        }
+
+        var info = await ResolveInfoAsync(sandboxId);
+        if (info is null)
+        {
+            HttpContext.Response.StatusCode = 404;
+            await HttpContext.Response.WriteAsync("Sandbox not found");
+            return;
+        }
+
+        var httpUri = new Uri(ResolveManagerBridgeBase(sandboxId, info.InternalBridgeUrl), UriKind.Absolute);
+        var wsScheme = httpUri.Scheme == "https" ? "wss" : "ws";
+        var wsUri = new Uri($"{wsScheme}://{httpUri.Authority}{httpUri.AbsolutePath.TrimEnd('/')}/{bridgePath}");
+
+        using var downstream = await HttpContext.WebSockets.AcceptWebSocketAsync();
+        using var upstream = new ClientWebSocket();
+        upstream.Options.KeepAliveInterval = TimeSpan.FromSeconds(25);
+        if (!string.IsNullOrEmpty(info.SandboxToken))
+            upstream.Options.SetRequestHeader("Authorization", $"Bearer {info.SandboxToken}");
+
+        try
+        {
+            await upstream.ConnectAsync(wsUri, HttpContext.RequestAborted);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Cannot connect to upstream bridge WebSocket at {Uri}", wsUri);
+            await downstream.CloseAsync(WebSocketCloseStatus.EndpointUnavailable, unreachableReason, default);
+            return;
+        }
+
         var cts = CancellationTokenSource.CreateLinkedTokenSource(HttpContext.RequestAborted);
 
         var upToDown = PipeAsync(upstream, downstream, cts);
@@ -235,7 +648,8 @@ public class SandboxProxyController : ControllerBase
 
     // ── Helpers ──────────────────────────────────────────────────────────────
 
-    private async Task<SandboxInternalInfo?> ResolveInfoAsync(string sandboxId)
+    /// <param name="allowAdmin">Let an admin reach a sandbox of another user: fleet page stats and desktop only.</param>
+    private async Task<SandboxInternalInfo?> ResolveInfoAsync(string sandboxId, bool allowAdmin = false)
     {
         var userId = GetUserId();
         if (userId == Guid.Empty) return null;
@@ -243,6 +657,10 @@ public class SandboxProxyController : ControllerBase
         var info = _sandboxService.TryGetInternalInfo(userId, sandboxId);
         if (info is not null) return info;
 
+        // Admins reach other users' sandboxes only where the fleet page needs it.
+        if (allowAdmin && User.IsInRole("admin"))
+            return await _sandboxService.TryGetOrRediscoverByIdAsync(sandboxId, HttpContext.RequestAborted);
+
         return await _sandboxService.TryRediscoverAsync(userId, sandboxId, HttpContext.RequestAborted);
     }
 
@@ -397,9 +815,9 @@ public class SandboxProxyController : ControllerBase
 
         if (upstream.IsSuccessStatusCode)
         {
+            var json = Encoding.UTF8.GetString(bytes);
             try
             {
-                var json = Encoding.UTF8.GetString(bytes);
                 await _storySandboxConversationRepository.UpsertAsync(userStoryId, sandboxId, json, HttpContext.RequestAborted);
             }
             catch (Exception ex)
@@ -408,6 +826,17 @@ public class SandboxProxyController : ControllerBase
                     "Failed to persist sandbox conversation snapshot for story {StoryId} sandbox {SandboxId}",
                     userStoryId, sandboxId);
             }
+
+            try
+            {
+                await _tokenUsageService.RecordFromConversationsAsync(userId, story, sandboxId, json, HttpContext.RequestAborted);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex,
+                    "Failed to record token usage for story {StoryId} sandbox {SandboxId}",
+                    userStoryId, sandboxId);
+            }
         }
 
         Response.StatusCode = (int)upstream.StatusCode;
@@ -826,3 +1255,8 @@ public class SandboxProxyController : ControllerBase
         catch { }
     }
 }
+
+public class CreateWorkspaceSnapshotRequest
+{
+    public Guid? StoryId { get; set; }
+}
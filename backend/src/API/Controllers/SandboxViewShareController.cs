@@ -0,0 +1,119 @@
+namespace DevPilot.API.Controllers;
+
+using System.Security.Claims;
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using DevPilot.Infrastructure.Sandbox;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+/// <summary>
+/// Read-only share links of a running sandbox, managed by its owner from the viewer toolbar.
+/// The links themselves are served anonymously by <see cref="SandboxProxyController"/> under
+/// <c>/api/shared/{token}</c>: view-only noVNC and the agent chat, nothing that sends input.
+/// </summary>
+[ApiController]
+[Route("api/sandboxes/{sandboxId}/view-shares")]
+[Authorize]
+public class SandboxViewShareController : ControllerBase
+{
+    private readonly SandboxService _sandboxService;
+    private readonly ISandboxViewShareRepository _shareRepository;
+    private readonly ILogger<SandboxViewShareController> _logger;
+
+    public SandboxViewShareController(
+        SandboxService sandboxService,
+        ISandboxViewShareRepository shareRepository,
+        ILogger<SandboxViewShareController> logger)
+    {
+        _sandboxService = sandboxService;
+        _shareRepository = shareRepository;
+        _logger = logger;
+    }
+
+    /// <summary>Links of the sandbox that are neither revoked nor expired, newest first.</summary>
+    [HttpGet]
+    public async Task<IActionResult> List(string sandboxId, CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (await ResolveOwnedSandboxAsync(userId, sandboxId, cancellationToken) is null)
+            return NotFound(new { error = "Sandbox not found or not owned by this user" });
+
+        var shares = await _shareRepository.ListActiveBySandboxIdAsync(sandboxId, DateTime.UtcNow, cancellationToken);
+        return Ok(shares.Select(SandboxViewShareDto.From));
+    }
+
+    /// <summary>Creates a link; <c>expiresInMinutes</c> null means it lasts until revoked or the sandbox is removed.</summary>
+    [HttpPost]
+    public async Task<IActionResult> Create(
+        string sandboxId,
+        [FromBody] CreateSandboxViewShareRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        var validationError = SandboxViewShare.GetValidationError(request?.ExpiresInMinutes);
+        if (validationError != null) return BadRequest(new { error = validationError });
+
+        var info = await ResolveOwnedSandboxAsync(userId, sandboxId, cancellationToken);
+        if (info is null)
+            return NotFound(new { error = "Sandbox not found or not owned by this user" });
+        // Sandboxes started before view-only passwords existed would hand out full control.
+        if (string.IsNullOrEmpty(info.VncViewPassword))
+            return Conflict(new { error = "This sandbox does not support view-only sharing. Start a new sandbox to share it." });
+
+        var share = new SandboxViewShare(sandboxId, userId, request?.Title, request?.ExpiresInMinutes);
+        await _shareRepository.AddAsync(share, cancellationToken);
+        _logger.LogInformation(
+            "View share {ShareId} of sandbox {SandboxId} created by {UserId} (expires {ExpiresAt})",
+            share.Id, sandboxId, userId, share.ExpiresAt?.ToString("O") ?? "never");
+        return Ok(SandboxViewShareDto.From(share));
+    }
+
+    /// <summary>Revokes a link: its page stops loading and open desktop streams are closed.</summary>
+    [HttpDelete("{shareId:guid}")]
+    public async Task<IActionResult> Revoke(string sandboxId, Guid shareId, CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (await ResolveOwnedSandboxAsync(userId, sandboxId, cancellationToken) is null)
+            return NotFound(new { error = "Sandbox not found or not owned by this user" });
+
+        var share = await _shareRepository.GetByIdAsync(shareId, cancellationToken);
+        if (share is null || share.SandboxId != sandboxId)
+            return NotFound(new { error = "Share link not found" });
+
+        await _shareRepository.RevokeAsync(shareId, cancellationToken);
+        _logger.LogInformation("View share {ShareId} of sandbox {SandboxId} revoked by {UserId}", shareId, sandboxId, userId);
+        return NoContent();
+    }
+
+    /// <summary>Owned sandbox, re-adopted from the manager after an API restart (admins may share any sandbox).</summary>
+    private async Task<SandboxInternalInfo?> ResolveOwnedSandboxAsync(Guid userId, string sandboxId, CancellationToken cancellationToken)
+    {
+        var info = _sandboxService.TryGetInternalInfo(userId, sandboxId);
+        if (info is not null) return info;
+        if (User.IsInRole("admin"))
+            return await _sandboxService.TryGetOrRediscoverByIdAsync(sandboxId, cancellationToken);
+        return await _sandboxService.TryRediscoverAsync(userId, sandboxId, cancellationToken);
+    }
+
+    private Guid GetUserId()
+    {
+        var raw = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(raw, out var id) ? id : Guid.Empty;
+    }
+
+    public class CreateSandboxViewShareRequest
+    {
+        public string? Title { get; set; }
+        public int? ExpiresInMinutes { get; set; }
+    }
+
+    public record SandboxViewShareDto(Guid Id, string Token, string Title, DateTime CreatedAt, DateTime? ExpiresAt)
+    {
+        public static SandboxViewShareDto From(SandboxViewShare share) =>
+            new(share.Id, share.Token, share.Title, share.CreatedAt, share.ExpiresAt);
+    }
+}
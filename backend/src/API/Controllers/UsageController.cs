@@ -0,0 +1,199 @@
+namespace DevPilot.API.Controllers;
+
+using System.Security.Claims;
+using DevPilot.Application.Services;
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+
+/// <summary>
+/// Token usage and cost of agent turns (captured from sandbox conversations) and monthly AI budgets.
+/// Repository usage is returned grouped by story, epic and user; the frontend rolls it up for the backlog and insights.
+/// </summary>
+[ApiController]
+[Route("api/usage")]
+[Authorize]
+public class UsageController : ControllerBase
+{
+    private readonly ITokenUsageRepository _tokenUsageRepository;
+    private readonly IUsageBudgetRepository _usageBudgetRepository;
+    private readonly ITokenUsageService _tokenUsageService;
+    private readonly IRepositoryRepository _repositoryRepository;
+    private readonly IUserRepository _userRepository;
+    private readonly ILogger<UsageController> _logger;
+
+    public UsageController(
+        ITokenUsageRepository tokenUsageRepository,
+        IUsageBudgetRepository usageBudgetRepository,
+        ITokenUsageService tokenUsageService,
+        IRepositoryRepository repositoryRepository,
+        IUserRepository userRepository,
+        ILogger<UsageController> logger)
+    {
+        _tokenUsageRepository = tokenUsageRepository;
+        _usageBudgetRepository = usageBudgetRepository;
+        _tokenUsageService = tokenUsageService;
+        _repositoryRepository = repositoryRepository;
+        _userRepository = userRepository;
+        _logger = logger;
+    }
+
+    /// <summary>Usage of a repository grouped by story, epic and user, with the names of those users.</summary>
+    [HttpGet("repository/{repositoryId:guid}")]
+    public async Task<IActionResult> GetRepositoryUsage(Guid repositoryId, CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        if (await _repositoryRepository.GetByIdIfAccessibleAsync(repositoryId, userId, cancellationToken) is null)
+            return Forbid();
+
+        var totals = await _tokenUsageRepository.SummarizeByRepositoryIdAsync(repositoryId, cancellationToken);
+        var users = new List<object>();
+        foreach (var id in totals.Select(t => t.UserId).OfType<Guid>().Distinct())
+        {
+            var user = await _userRepository.GetByIdAsync(id, cancellationToken);
+            users.Add(new { id, name = user?.Name ?? user?.Email ?? "Unknown user" });
+        }
+
+        return Ok(new
+        {
+            totals = totals.Select(t => new
+            {
+                storyId = t.UserStoryId,
+                epicId = t.EpicId,
+                userId = t.UserId,
+                promptTokens = t.PromptTokens,
+                completionTokens = t.CompletionTokens,
+                cost = t.Cost,
+                turns = t.Turns
+            }),
+            users
+        });
+    }
+
+    /// <summary>Current user's spend this month against their budget.</summary>
+    [HttpGet("budget")]
+    public async Task<ActionResult<UsageBudgetStatus>> GetMyBudget(CancellationToken cancellationToken = default)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty) return Unauthorized();
+        return Ok(await _tokenUsageService.GetBudgetStatusAsync(userId, cancellationToken));
+    }
+
+    /// <summary>Admin default budget and every user's budget and spend this month.</summary>
+    [HttpGet("budgets")]
+    [Authorize(Roles = "admin")]
+    public async Task<ActionResult<UsageBudgetsResponse>> GetBudgets(CancellationToken cancellationToken = default)
+    {
+        return Ok(await BuildBudgetsResponseAsync(cancellationToken));
+    }
+
+    /// <summary>Saves the budget of users without their own.</summary>
+    [HttpPut("budgets/default")]
+    [Authorize(Roles = "admin")]
+    public async Task<ActionResult<UsageBudgetsResponse>> SaveDefaultBudget(
+        [FromBody] SaveUsageBudgetRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        if (request is null) return BadRequest();
+        var validationError = UsageBudget.GetValidationError(request.MonthlySoftLimit, request.MonthlyHardLimit);
+        if (validationError != null) return BadRequest(new { message = validationError });
+
+        await _usageBudgetRepository.UpsertAsync(null, request.MonthlySoftLimit, request.MonthlyHardLimit, cancellationToken);
+        _logger.LogInformation(
+            "Default monthly AI budget set to soft {Soft} / hard {Hard} by {UserId}",
+            request.MonthlySoftLimit, request.MonthlyHardLimit, GetUserId());
+        return Ok(await BuildBudgetsResponseAsync(cancellationToken));
+    }
+
+    /// <summary>Saves one user's budget (overrides the default).</summary>
+    [HttpPut("budgets/users/{userId:guid}")]
+    [Authorize(Roles = "admin")]
+    public async Task<ActionResult<UsageBudgetsResponse>> SaveUserBudget(
+        Guid userId,
+        [FromBody] SaveUsageBudgetRequest? request,
+        CancellationToken cancellationToken = default)
+    {
+        if (request is null) return BadRequest();
+        var validationError = UsageBudget.GetValidationError(request.MonthlySoftLimit, request.MonthlyHardLimit);
+        if (validationError != null) return BadRequest(new { message = validationError });
+        if (await _userRepository.GetByIdAsync(userId, cancellationToken) is null) return NotFound();
+
+        await _usageBudgetRepository.UpsertAsync(userId, request.MonthlySoftLimit, request.MonthlyHardLimit, cancellationToken);
+        _logger.LogInformation(
+            "Monthly AI budget of {TargetUserId} set to soft {Soft} / hard {Hard} by {UserId}",
+            userId, request.MonthlySoftLimit, request.MonthlyHardLimit, GetUserId());
+        return Ok(await BuildBudgetsResponseAsync(cancellationToken));
+    }
+
+    /// <summary>Removes one user's budget (the default applies again).</summary>
+    [HttpDelete("budgets/users/{userId:guid}")]
+    [Authorize(Roles = "admin")]
+    public async Task<ActionResult<UsageBudgetsResponse>> ResetUserBudget(Guid userId, CancellationToken cancellationToken = default)
+    {
+        await _usageBudgetRepository.DeleteByUserIdAsync(userId, cancellationToken);
+        return Ok(await BuildBudgetsResponseAsync(cancellationToken));
+    }
+
+    private async Task<UsageBudgetsResponse> BuildBudgetsResponseAsync(CancellationToken cancellationToken)
+    {
+        var monthStart = UsageBudget.MonthStart(DateTime.UtcNow);
+        var adminDefault = await _usageBudgetRepository.GetDefaultAsync(cancellationToken);
+        var userBudgets = (await _usageBudgetRepository.ListUserBudgetsAsync(cancellationToken))
+            .ToDictionary(b => b.UserId!.Value);
+        var spend = (await _tokenUsageRepository.SummarizeByUserSinceAsync(monthStart, cancellationToken))
+            .Where(t => t.UserId != null)
+            .ToDictionary(t => t.UserId!.Value);
+        var users = await _userRepository.ListAllOrderedByEmailAsync(cancellationToken);
+
+        var rows = users.Select(u =>
+        {
+            userBudgets.TryGetValue(u.Id, out var own);
+            var budget = own ?? adminDefault;
+            var totals = spend.GetValueOrDefault(u.Id);
+            var spent = totals?.Cost ?? 0m;
+            return new UserUsageBudget(
+                u.Id,
+                u.Name,
+                u.Email,
+                own is null ? null : new UsageBudgetValues(own.MonthlySoftLimit, own.MonthlyHardLimit),
+                totals?.PromptTokens ?? 0,
+                totals?.CompletionTokens ?? 0,
+                spent,
+                budget?.GetState(spent) ?? UsageBudget.StateOk);
+        }).ToList();
+
+        return new UsageBudgetsResponse(
+            monthStart,
+            adminDefault is null ? null : new UsageBudgetValues(adminDefault.MonthlySoftLimit, adminDefault.MonthlyHardLimit),
+            rows);
+    }
+
+    private Guid GetUserId()
+    {
+        var raw = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(raw, out var id) ? id : Guid.Empty;
+    }
+
+    public record UsageBudgetValues(decimal? MonthlySoftLimit, decimal? MonthlyHardLimit);
+
+    /// <summary><paramref name="Budget"/> is the user's own budget; null when the default applies.</summary>
+    public record UserUsageBudget(
+        Guid UserId,
+        string? Name,
+        string Email,
+        UsageBudgetValues? Budget,
+        long PromptTokens,
+        long CompletionTokens,
+        decimal Spent,
+        string State);
+
+    public record UsageBudgetsResponse(DateTime MonthStart, UsageBudgetValues? Default, IReadOnlyList<UserUsageBudget> Users);
+
+    public class SaveUsageBudgetRequest
+    {
+        public decimal? MonthlySoftLimit { get; set; }
+        public decimal? MonthlyHardLimit { get; set; }
+    }
+}
@@ -0,0 +1,185 @@
+namespace DevPilot.API.Controllers;
+
+using System.Security.Claims;
+using DevPilot.Application.Options;
+using DevPilot.Application.Services;
+using DevPilot.Domain.Interfaces;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Options;
+using StoryWorkspaceSnapshot = DevPilot.Domain.Entities.StoryWorkspaceSnapshot;
+
+/// <summary>
+/// Story workspace snapshots: list and delete for users with access to the story's repository, and
+/// HMAC-signed anonymous downloads the resuming sandbox fetches during bootstrap.
+/// Snapshots are created through <c>POST /api/sandboxes/{sandboxId}/workspace-snapshots</c>.
+/// </summary>
+[ApiController]
+[Route("api/workspace-snapshots")]
+[Authorize]
+public class WorkspaceSnapshotController : ControllerBase
+{
+    private readonly IStoryWorkspaceSnapshotRepository _snapshotRepository;
+    private readonly IWorkspaceSnapshotFileStore _fileStore;
+    private readonly IUserStoryRepository _userStoryRepository;
+    private readonly IRepositoryRepository _repositoryRepository;
+    private readonly IOptions<UnpublishedRepositoryOptions> _downloadOptions;
+    private readonly IConfiguration _configuration;
+
+    public WorkspaceSnapshotController(
+        IStoryWorkspaceSnapshotRepository snapshotRepository,
+        IWorkspaceSnapshotFileStore fileStore,
+        IUserStoryRepository userStoryRepository,
+        IRepositoryRepository repositoryRepository,
+        IOptions<UnpublishedRepositoryOptions> downloadOptions,
+        IConfiguration configuration)
+    {
+        _snapshotRepository = snapshotRepository;
+        _fileStore = fileStore;
+        _userStoryRepository = userStoryRepository;
+        _repositoryRepository = repositoryRepository;
+        _downloadOptions = downloadOptions;
+        _configuration = configuration;
+    }
+
+    /// <summary>Snapshots of a story, newest first.</summary>
+    [HttpGet("story/{storyId:guid}")]
+    public async Task<IActionResult> ListForStory(Guid storyId, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty)
+            return Unauthorized();
+        var access = await CheckStoryAccessAsync(storyId, userId, cancellationToken);
+        if (access is not null)
+            return access;
+
+        var snapshots = await _snapshotRepository.ListByUserStoryIdAsync(storyId, cancellationToken);
+        return Ok(new { snapshots = snapshots.Select(WorkspaceSnapshotDto.From) });
+    }
+
+    [HttpDelete("{snapshotId:guid}")]
+    public async Task<IActionResult> Delete(Guid snapshotId, CancellationToken cancellationToken)
+    {
+        var userId = GetUserId();
+        if (userId == Guid.Empty)
+            return Unauthorized();
+
+        var snapshot = await _snapshotRepository.GetByIdAsync(snapshotId, cancellationToken);
+        if (snapshot is null)
+            return NotFound(new { error = "Snapshot not found" });
+        var access = await CheckStoryAccessAsync(snapshot.UserStoryId, userId, cancellationToken);
+        if (access is not null)
+            return access;
+
+        await _snapshotRepository.DeleteAsync(snapshotId, cancellationToken);
+        _fileStore.Delete(snapshotId);
+        return NoContent();
+    }
+
+    /// <summary>Anonymous download: HMAC-protected workspace zip (for sandbox bootstrap on resume).</summary>
+    [HttpGet("{snapshotId:guid}/archive")]
+    [AllowAnonymous]
+    public async Task<IActionResult> DownloadArchive(
+        Guid snapshotId,
+        [FromQuery] long exp,
+        [FromQuery] string? sig,
+        CancellationToken cancellationToken)
+    {
+        var invalid = ValidateSignature(snapshotId, exp, sig);
+        if (invalid is not null)
+            return invalid;
+        if (await _snapshotRepository.GetByIdAsync(snapshotId, cancellationToken) is null)
+            return NotFound(new { message = "Snapshot not found" });
+
+        var stream = _fileStore.OpenRead(snapshotId);
+        if (stream is null)
+            return NotFound(new { message = "Snapshot archive is missing" });
+        return File(stream, "application/zip", "workspace.zip");
+    }
+
+    /// <summary>Anonymous download: HMAC-protected agent conversations (bridge <c>/all-conversations</c> JSON).</summary>
+    [HttpGet("{snapshotId:guid}/conversations")]
+    [AllowAnonymous]
+    public async Task<IActionResult> DownloadConversations(
+        Guid snapshotId,
+        [FromQuery] long exp,
+        [FromQuery] string? sig,
+        CancellationToken cancellationToken)
+    {
+        var invalid = ValidateSignature(snapshotId, exp, sig);
+        if (invalid is not null)
+            return invalid;
+
+        var snapshot = await _snapshotRepository.GetByIdAsync(snapshotId, cancellationToken);
+        if (snapshot is null)
+            return NotFound(new { message = "Snapshot not found" });
+        return Content(snapshot.ConversationsJson, "application/json");
+    }
+
+    private IActionResult? ValidateSignature(Guid snapshotId, long exp, string? sig)
+    {
+        if (string.IsNullOrEmpty(sig))
+            return BadRequest(new { message = "Missing signature" });
+
+        var secret = SandboxDownloadLinks.ResolveSigningSecret(_downloadOptions.Value, _configuration);
+        if (string.IsNullOrEmpty(secret))
+            return Unauthorized(new { message = "Server misconfiguration" });
+        if (!UnpublishedArchiveToken.Validate(secret, snapshotId, exp, sig, out var err))
+            return Unauthorized(new { message = err ?? "Invalid token" });
+        return null;
+    }
+
+    /// <summary>Null when the user can access the story's repository; otherwise the error result.</summary>
+    private async Task<IActionResult?> CheckStoryAccessAsync(Guid storyId, Guid userId, CancellationToken cancellationToken)
+    {
+        var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+        if (story?.Feature?.Epic?.Repository is null)
+            return NotFound(new { error = "User story not found" });
+        var repo = await _repositoryRepository.GetByIdIfAccessibleAsync(
+            story.Feature.Epic.Repository.Id, userId, cancellationToken);
+        return repo is null ? Forbid() : null;
+    }
+
+    private Guid GetUserId()
+    {
+        var raw = User.FindFirstValue(ClaimTypes.NameIdentifier);
+        return Guid.TryParse(raw, out var id) ? id : Guid.Empty;
+    }
+}
+
+public record WorkspaceSnapshotDto(
+    Guid Id,
+    Guid StoryId,
+    string SandboxId,
+    Guid CreatedByUserId,
+    string? Branch,
+    long ArchiveSizeBytes,
+    int ConversationCount,
+    DateTime CreatedAt)
+{
+    public static WorkspaceSnapshotDto From(StoryWorkspaceSnapshot s) => new(
+        s.Id,
+        s.UserStoryId,
+        s.SandboxId,
+        s.CreatedByUserId,
+        s.Branch,
+        s.ArchiveSizeBytes,
+        CountConversations(s.ConversationsJson),
+        s.CreatedAt);
+
+    private static int CountConversations(string json)
+    {
+        try
+        {
+            using var doc = System.Text.Json.JsonDocument.Parse(json);
+            return doc.RootElement.TryGetProperty("conversations", out var list)
+                   && list.ValueKind == System.Text.Json.JsonValueKind.Array
+                ? list.GetArrayLength()
+                : 0;
+        }
+        catch (System.Text.Json.JsonException)
+        {
+            return 0;
+        }
+    }
+}
@@ -0,0 +1,136 @@
+namespace DevPilot.API.Hubs;
+
+using DevPilot.Domain.Interfaces;
+using Microsoft.AspNetCore.SignalR;
+
+/// <summary>
+/// Event types sent as the <c>type</c> field of <c>BoardUpdated</c> messages.
+/// Mirrored by the <c>BoardEvent</c> union in the frontend SignalR service.
+/// </summary>
+public static class BoardEventTypes
+{
+    public const string StoryCreated = "storyCreated";
+    public const string StoryUpdated = "storyUpdated";
+    public const string StoryMoved = "storyMoved";
+    public const string StoryDeleted = "storyDeleted";
+    public const string PrStatusChanged = "prStatusChanged";
+    public const string SyncFinished = "syncFinished";
+    public const string BacklogChanged = "backlogChanged";
+}
+
+/// <summary>
+/// Broadcasts typed board events to clients viewing a repository board.
+/// Best effort: a failed broadcast is logged and never fails the request that caused it.
+/// </summary>
+public class BoardEventPublisher
+{
+    public const string MethodName = "BoardUpdated";
+
+    private readonly IHubContext<BoardHub> _hub;
+    private readonly IUserStoryRepository _userStoryRepository;
+    private readonly IFeatureRepository _featureRepository;
+    private readonly IEpicRepository _epicRepository;
+    private readonly ILogger<BoardEventPublisher> _logger;
+
+    public BoardEventPublisher(
+        IHubContext<BoardHub> hub,
+        IUserStoryRepository userStoryRepository,
+        IFeatureRepository featureRepository,
+        IEpicRepository epicRepository,
+        ILogger<BoardEventPublisher> logger)
+    {
+        _hub = hub ?? throw new ArgumentNullException(nameof(hub));
+        _userStoryRepository = userStoryRepository ?? throw new ArgumentNullException(nameof(userStoryRepository));
+        _featureRepository = featureRepository ?? throw new ArgumentNullException(nameof(featureRepository));
+        _epicRepository = epicRepository ?? throw new ArgumentNullException(nameof(epicRepository));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    public Task StoryCreatedAsync(Guid featureId, Guid storyId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.StoryCreated, async () =>
+        {
+            var feature = await _featureRepository.GetByIdAsync(featureId, cancellationToken);
+            await PublishAsync(feature?.Epic?.RepositoryId, BoardEventTypes.StoryCreated,
+                new() { ["storyId"] = storyId, ["featureId"] = featureId }, cancellationToken);
+        });
+
+    public Task StoryUpdatedAsync(Guid storyId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.StoryUpdated, async () =>
+        {
+            var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+            await PublishAsync(story?.Feature?.Epic?.RepositoryId, BoardEventTypes.StoryUpdated,
+                new() { ["storyId"] = storyId }, cancellationToken);
+        });
+
+    /// <summary>Status change made on the board (or by a sandbox / PR creation)</summary>
+    public Task StoryMovedAsync(Guid storyId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.StoryMoved, async () =>
+        {
+            var story = await _userStoryRepository.GetByIdAsync(storyId, cancellationToken);
+            if (story == null) return;
+            await PublishAsync(story.Feature?.Epic?.RepositoryId, BoardEventTypes.StoryMoved,
+                new() { ["storyId"] = storyId, ["status"] = story.Status, ["prUrl"] = story.PrUrl }, cancellationToken);
+        });
+
+    public Task StoryDeletedAsync(Guid repositoryId, Guid storyId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.StoryDeleted, () =>
+            PublishAsync(repositoryId, BoardEventTypes.StoryDeleted, new() { ["storyId"] = storyId }, cancellationToken));
+
+    public Task PrStatusChangedAsync(Guid repositoryId, Guid storyId, string status, string? prUrl, bool merged, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.PrStatusChanged, () =>
+            PublishAsync(repositoryId, BoardEventTypes.PrStatusChanged,
+                new() { ["storyId"] = storyId, ["status"] = status, ["prUrl"] = prUrl, ["merged"] = merged }, cancellationToken));
+
+    /// <param name="repositoryId">Repository whose backlog was synced</param>
+    /// <param name="provider">"AzureDevOps" or "GitHub"</param>
+    /// <param name="direction">"import", "export" or "both"</param>
+    /// <param name="cancellationToken">Cancellation token</param>
+    public Task SyncFinishedAsync(Guid repositoryId, string provider, string direction, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.SyncFinished, () =>
+            PublishAsync(repositoryId, BoardEventTypes.SyncFinished,
+                new() { ["provider"] = provider, ["direction"] = direction }, cancellationToken));
+
+    /// <summary>Epics or features changed; clients reload the backlog</summary>
+    public Task BacklogChangedAsync(Guid repositoryId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.BacklogChanged, () =>
+            PublishAsync(repositoryId, BoardEventTypes.BacklogChanged, new(), cancellationToken));
+
+    public Task BacklogChangedForEpicAsync(Guid epicId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.BacklogChanged, async () =>
+        {
+            var epic = await _epicRepository.GetByIdAsync(epicId, cancellationToken);
+            await PublishAsync(epic?.RepositoryId, BoardEventTypes.BacklogChanged, new(), cancellationToken);
+        });
+
+    public Task BacklogChangedForFeatureAsync(Guid featureId, CancellationToken cancellationToken) =>
+        SafelyAsync(BoardEventTypes.BacklogChanged, async () =>
+        {
+            var feature = await _featureRepository.GetByIdAsync(featureId, cancellationToken);
+            await PublishAsync(feature?.Epic?.RepositoryId, BoardEventTypes.BacklogChanged, new(), cancellationToken);
+        });
+
+    private async Task SafelyAsync(string type, Func<Task> publish)
+    {
+        try
+        {
+            await publish();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to broadcast board event {EventType}", type);
+        }
+    }
+
+    private Task PublishAsync(Guid? repositoryId, string type, Dictionary<string, object?> fields, CancellationToken cancellationToken)
+    {
+        if (repositoryId == null)
+            return Task.CompletedTask;
+
+        // Keys are written camelCase here: the hub serializer does not rename dictionary keys
+        fields["type"] = type;
+        fields["repositoryId"] = repositoryId.Value;
+        fields["occurredAt"] = DateTime.UtcNow;
+        return _hub.Clients.Group(BoardHub.GroupName(repositoryId.Value.ToString()))
+            .SendAsync(MethodName, fields, cancellationToken);
+    }
+}
@@ -1,5 +1,7 @@
 namespace DevPilot.API.Hubs;
 
+using System.Security.Claims;
+using DevPilot.Domain.Interfaces;
 using Microsoft.AspNetCore.SignalR;
 
 /// <summary>
@@ -9,20 +11,43 @@ using Microsoft.AspNetCore.SignalR;
 public class BoardHub : Hub
 {
     private readonly ILogger<BoardHub> _logger;
+    private readonly BoardPresenceTracker _presence;
+    private readonly IUserRepository _userRepository;
 
-    public BoardHub(ILogger<BoardHub> logger)
+    public BoardHub(ILogger<BoardHub> logger, BoardPresenceTracker presence, IUserRepository userRepository)
     {
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        _presence = presence ?? throw new ArgumentNullException(nameof(presence));
+        _userRepository = userRepository ?? throw new ArgumentNullException(nameof(userRepository));
     }
 
     /// <summary>
-    /// Join a board group to receive updates for a specific repository
+    /// Group name for clients viewing a repository's board
+    /// </summary>
+    public static string GroupName(string repositoryId) => $"board-{repositoryId}";
+
+    /// <summary>
+    /// Join a board group to receive updates for a specific repository.
+    /// Signed-in users also show up in the board presence.
     /// </summary>
     public async Task JoinBoardGroup(string repositoryId)
     {
-        await Groups.AddToGroupAsync(Context.ConnectionId, $"board-{repositoryId}");
-        _logger.LogInformation("Client {ConnectionId} joined board group for repository {RepositoryId}", 
+        await Groups.AddToGroupAsync(Context.ConnectionId, GroupName(repositoryId));
+        _logger.LogInformation("Client {ConnectionId} joined board group for repository {RepositoryId}",
             Context.ConnectionId, repositoryId);
+
+        var userIdClaim = Context.User?.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+        if (string.IsNullOrEmpty(userIdClaim) || !Guid.TryParse(userIdClaim, out var userId))
+        {
+            // Anonymous connections still receive presence, they just are not listed
+            await Clients.Caller.SendAsync("PresenceChanged", PresencePayload(repositoryId));
+            return;
+        }
+
+        var user = await _userRepository.GetByIdAsync(userId, Context.ConnectionAborted);
+        var displayName = user?.GitHubUsername ?? user?.Name ?? user?.Email ?? "Unknown user";
+        _presence.Join(repositoryId, Context.ConnectionId, userId.ToString(), displayName);
+        await BroadcastPresenceAsync(repositoryId);
     }
 
     /// <summary>
@@ -30,9 +55,30 @@ public class BoardHub : Hub
     /// </summary>
     public async Task LeaveBoardGroup(string repositoryId)
     {
-        await Groups.RemoveFromGroupAsync(Context.ConnectionId, $"board-{repositoryId}");
-        _logger.LogInformation("Client {ConnectionId} left board group for repository {RepositoryId}", 
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, GroupName(repositoryId));
+        _logger.LogInformation("Client {ConnectionId} left board group for repository {RepositoryId}",
             Context.ConnectionId, repositoryId);
+
+        if (_presence.Leave(repositoryId, Context.ConnectionId))
+            await BroadcastPresenceAsync(repositoryId);
+    }
+
+    /// <summary>
+    /// Story this connection has open in the edit modal (null when closed)
+    /// </summary>
+    public async Task SetEditingStory(string repositoryId, string? storyId)
+    {
+        if (_presence.SetEditingStory(repositoryId, Context.ConnectionId, storyId))
+            await BroadcastPresenceAsync(repositoryId);
+    }
+
+    /// <summary>
+    /// Stories this connection is running implementation sandboxes for
+    /// </summary>
+    public async Task SetImplementingStories(string repositoryId, string[]? storyIds)
+    {
+        if (_presence.SetImplementingStories(repositoryId, Context.ConnectionId, storyIds))
+            await BroadcastPresenceAsync(repositoryId);
     }
 
     public override async Task OnConnectedAsync()
@@ -44,6 +90,17 @@ public class BoardHub : Hub
     public override async Task OnDisconnectedAsync(Exception? exception)
     {
         _logger.LogInformation("Client disconnected: {ConnectionId}", Context.ConnectionId);
+        foreach (var repositoryId in _presence.RemoveConnection(Context.ConnectionId))
+            await BroadcastPresenceAsync(repositoryId);
         await base.OnDisconnectedAsync(exception);
     }
+
+    private Task BroadcastPresenceAsync(string repositoryId) =>
+        Clients.Group(GroupName(repositoryId)).SendAsync("PresenceChanged", PresencePayload(repositoryId));
+
+    private object PresencePayload(string repositoryId) => new
+    {
+        repositoryId,
+        viewers = _presence.GetViewers(repositoryId)
+    };
 }
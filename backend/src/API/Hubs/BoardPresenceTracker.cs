@@ -0,0 +1,98 @@
+namespace DevPilot.API.Hubs;
+
+/// <summary>
+/// One SignalR connection viewing a repository board, and what that user is doing there
+/// </summary>
+public record BoardPresenceViewer(
+    string ConnectionId,
+    string UserId,
+    string DisplayName,
+    string? EditingStoryId,
+    IReadOnlyList<string> ImplementingStoryIds);
+
+/// <summary>
+/// In-memory presence for board groups (who is viewing, editing or implementing which story).
+/// Registered as a singleton; state is per API instance and is rebuilt by clients when they rejoin.
+/// </summary>
+public class BoardPresenceTracker
+{
+    private readonly object _lock = new();
+    private readonly Dictionary<string, Dictionary<string, BoardPresenceViewer>> _byRepository = new(StringComparer.OrdinalIgnoreCase);
+
+    public void Join(string repositoryId, string connectionId, string userId, string displayName)
+    {
+        lock (_lock)
+        {
+            if (!_byRepository.TryGetValue(repositoryId, out var viewers))
+            {
+                viewers = new Dictionary<string, BoardPresenceViewer>();
+                _byRepository[repositoryId] = viewers;
+            }
+            if (!viewers.ContainsKey(connectionId))
+                viewers[connectionId] = new BoardPresenceViewer(connectionId, userId, displayName, null, Array.Empty<string>());
+        }
+    }
+
+    /// <returns>True when the connection was present in the repository board</returns>
+    public bool Leave(string repositoryId, string connectionId)
+    {
+        lock (_lock)
+        {
+            if (!_byRepository.TryGetValue(repositoryId, out var viewers) || !viewers.Remove(connectionId))
+                return false;
+            if (viewers.Count == 0)
+                _byRepository.Remove(repositoryId);
+            return true;
+        }
+    }
+
+    /// <returns>Repositories the connection was viewing</returns>
+    public IReadOnlyList<string> RemoveConnection(string connectionId)
+    {
+        lock (_lock)
+        {
+            var left = _byRepository
+                .Where(kv => kv.Value.ContainsKey(connectionId))
+                .Select(kv => kv.Key)
+                .ToList();
+            foreach (var repositoryId in left)
+                Leave(repositoryId, connectionId);
+            return left;
+        }
+    }
+
+    /// <returns>False when the connection has not joined the repository board</returns>
+    public bool SetEditingStory(string repositoryId, string connectionId, string? storyId) =>
+        Update(repositoryId, connectionId, v => v with { EditingStoryId = string.IsNullOrWhiteSpace(storyId) ? null : storyId });
+
+    /// <returns>False when the connection has not joined the repository board</returns>
+    public bool SetImplementingStories(string repositoryId, string connectionId, IEnumerable<string>? storyIds) =>
+        Update(repositoryId, connectionId, v => v with
+        {
+            ImplementingStoryIds = (storyIds ?? Enumerable.Empty<string>())
+                .Where(id => !string.IsNullOrWhiteSpace(id))
+                .Distinct(StringComparer.OrdinalIgnoreCase)
+                .ToList()
+        });
+
+    public IReadOnlyList<BoardPresenceViewer> GetViewers(string repositoryId)
+    {
+        lock (_lock)
+        {
+            return _byRepository.TryGetValue(repositoryId, out var viewers)
+                ? viewers.Values.ToList()
+                : new List<BoardPresenceViewer>();
+        }
+    }
+
+    private bool Update(string repositoryId, string connectionId, Func<BoardPresenceViewer, BoardPresenceViewer> change)
+    {
+        lock (_lock)
+        {
+            if (!_byRepository.TryGetValue(repositoryId, out var viewers) || !viewers.TryGetValue(connectionId, out var viewer))
+                return false;
+            viewers[connectionId] = change(viewer);
+            return true;
+        }
+    }
+}
@@ -31,6 +31,8 @@ static void ConfigureServices(WebApplicationBuilder builder)
     builder.Services.AddMemoryCache();
     builder.Services.AddOpenApi();
     builder.Services.AddSignalR();
+    builder.Services.AddSingleton<BoardPresenceTracker>();
+    builder.Services.AddScoped<BoardEventPublisher>();
 
     ConfigureJwtAuthentication(builder);
 
@@ -70,6 +72,24 @@ static void ConfigureJwtAuthentication(WebApplicationBuilder builder)
                 ValidateLifetime = true,
                 ClockSkew = TimeSpan.Zero
             };
+            // Browsers cannot set headers on WebSocket requests; SignalR, the sandbox web terminal
+            // and the agent event stream send the token in the query string (the noVNC desktop stream
+            // uses a short-lived ticket instead, see SandboxProxyController.CreateVncTicket)
+            options.Events = new JwtBearerEvents
+            {
+                OnMessageReceived = context =>
+                {
+                    var accessToken = context.Request.Query["access_token"];
+                    var path = context.HttpContext.Request.Path;
+                    var isWebSocketPath = path.StartsWithSegments("/hubs")
+                        || (path.StartsWithSegments("/api/sandboxes")
+                            && (path.Value!.EndsWith("/bridge/terminal", StringComparison.OrdinalIgnoreCase)
+                                || path.Value!.EndsWith("/bridge/agent-events", StringComparison.OrdinalIgnoreCase)));
+                    if (!string.IsNullOrEmpty(accessToken) && isWebSocketPath)
+                        context.Token = accessToken;
+                    return Task.CompletedTask;
+                }
+            };
         });
 }
 
@@ -0,0 +1,58 @@
+using System.Security.Cryptography;
+using System.Text;
+
+namespace DevPilot.API;
+
+/// <summary>
+/// HMAC ticket that lets the owner's browser reach one sandbox where it cannot send the JWT (iframe navigation).
+/// Bound to a purpose and a sandbox id, so a ticket for one sandbox or route is useless on another.
+/// </summary>
+public static class SandboxAccessTicket
+{
+    /// <summary>Dev-server preview proxy, carried in a path-scoped cookie.</summary>
+    public const string Preview = "preview";
+
+    /// <summary>Owner's desktop stream (<c>vnc/websockify</c>), passed in the query; short-lived and fetched again for every noVNC page load.</summary>
+    public const string Vnc = "vnc";
+
+    public static string Issue(string secret, string purpose, string sandboxId, Guid userId, DateTimeOffset expiresAt)
+    {
+        var exp = expiresAt.ToUnixTimeSeconds();
+        return $"{userId:N}.{exp}.{Sign(secret, purpose, sandboxId, userId, exp)}";
+    }
+
+    /// <summary>The user the ticket was issued to; null when it is malformed, expired or for another purpose or sandbox.</summary>
+    public static Guid? Validate(string secret, string purpose, string sandboxId, string? ticket)
+    {
+        if (string.IsNullOrEmpty(secret) || string.IsNullOrEmpty(ticket)) return null;
+
+        var parts = ticket.Split('.');
+        if (parts.Length != 3
+            || !Guid.TryParseExact(parts[0], "N", out var userId)
+            || !long.TryParse(parts[1], out var exp))
+        {
+            return null;
+        }
+
+        if (exp < DateTimeOffset.UtcNow.ToUnixTimeSeconds()) return null;
+
+        var expected = Encoding.UTF8.GetBytes(Sign(secret, purpose, sandboxId, userId, exp));
+        var actual = Encoding.UTF8.GetBytes(parts[2]);
+        return CryptographicOperations.FixedTimeEquals(expected, actual) ? userId : null;
+    }
+
+    private static string Sign(string secret, string purpose, string sandboxId, Guid userId, long exp)
+    {
+        if (string.IsNullOrEmpty(secret))
+        {
+            throw new InvalidOperationException("Signing key is not configured");
+        }
+
+        var payload = $"{purpose}|{sandboxId}|{userId:N}|{exp}";
+        using var h = new HMACSHA256(Encoding.UTF8.GetBytes(secret));
+        return Base64Url(h.ComputeHash(Encoding.UTF8.GetBytes(payload)));
+    }
+
+    private static string Base64Url(byte[] data) =>
+        Convert.ToBase64String(data).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+}
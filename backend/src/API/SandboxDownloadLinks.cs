@@ -0,0 +1,62 @@
+using DevPilot.Application.Options;
+
+namespace DevPilot.API;
+
+/// <summary>
+/// Signed anonymous download links a sandbox container (without JWT) fetches during bootstrap:
+/// unpublished project zips and story workspace snapshots. Tokens come from <see cref="UnpublishedArchiveToken"/>.
+/// </summary>
+public static class SandboxDownloadLinks
+{
+    /// <summary>UnpublishedRepositories:ArchiveSigningKey, else JWT:SecretKey; empty when neither is configured.</summary>
+    public static string ResolveSigningSecret(UnpublishedRepositoryOptions options, IConfiguration configuration) =>
+        !string.IsNullOrEmpty(options.ArchiveSigningKey)
+            ? options.ArchiveSigningKey!
+            : configuration["JWT:SecretKey"] ?? string.Empty;
+
+    /// <summary>
+    /// UnpublishedRepositories:DownloadBaseUrl, else the API base inferred from <paramref name="request"/>;
+    /// null when neither is available.
+    /// </summary>
+    public static string? ResolveApiBaseUrl(UnpublishedRepositoryOptions options, HttpRequest? request)
+    {
+        var baseUrl = options.DownloadBaseUrl?.Trim();
+        if (!string.IsNullOrEmpty(baseUrl))
+            return baseUrl.TrimEnd('/');
+        return request is null ? null : BuildApiBaseForSandbox(request).TrimEnd('/');
+    }
+
+    /// <summary>Archive and conversations URLs of a story workspace snapshot, valid for two hours.</summary>
+    public static (string ArchiveUrl, string ConversationsUrl) ForWorkspaceSnapshot(string baseUrl, string secret, Guid snapshotId)
+    {
+        var exp = DateTimeOffset.UtcNow.AddHours(2).ToUnixTimeSeconds();
+        var sig = Uri.EscapeDataString(UnpublishedArchiveToken.Sign(secret, snapshotId, exp));
+        var prefix = $"{baseUrl}/api/workspace-snapshots/{snapshotId}";
+        return ($"{prefix}/archive?exp={exp}&sig={sig}", $"{prefix}/conversations?exp={exp}&sig={sig}");
+    }
+
+    /// <summary>
+    /// Base URL for the API as seen from inside a sandbox container (must not use loopback).
+    /// </summary>
+    private static string BuildApiBaseForSandbox(HttpRequest req)
+    {
+        // The sandbox is another Docker container: localhost/127.0.0.1 would not reach the
+        // host where the API runs. Use host.docker.internal (Docker Desktop) or
+        // UnpublishedRepositories:DownloadBaseUrl / extra_hosts on the sandbox container (Linux).
+        var pathBase = req.PathBase;
+        if (IsLoopbackHost(req.Host.Host))
+        {
+            var port = req.Host.Port;
+            var portSegment = port.HasValue ? $":{port.Value}" : "";
+            return $"{req.Scheme}://host.docker.internal{portSegment}{pathBase}";
+        }
+
+        return $"{req.Scheme}://{req.Host}{pathBase}";
+    }
+
+    private static bool IsLoopbackHost(string host) =>
+        host.Equals("localhost", StringComparison.OrdinalIgnoreCase)
+        || host.Equals("127.0.0.1", StringComparison.Ordinal)
+        || host.Equals("::1", StringComparison.Ordinal)
+        || host.Equals("[::1]", StringComparison.Ordinal);
+}
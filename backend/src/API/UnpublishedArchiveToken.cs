@@ -3,7 +3,7 @@ using System.Text;
 
 namespace DevPilot.API;
 
-/// <summary>HMAC token so the sandbox (without JWT) can download a zip of a local (unpublished) project.</summary>
+/// <summary>HMAC token so the sandbox (without JWT) can download a zip of a local (unpublished) project or a story workspace snapshot (signed with the snapshot id).</summary>
 public static class UnpublishedArchiveToken
 {
     public static string Sign(string secret, Guid repositoryId, long expUnixSeconds)
@@ -17,6 +17,12 @@ public class UserStoryDto
     public int? AzureDevOpsWorkItemId { get; set; }
     public int? GitHubIssueNumber { get; set; }
     public Guid? RepositoryAgentRuleId { get; set; }
+    public Guid? RepositoryPromptTemplateId { get; set; }
+    public List<Guid> DependsOnStoryIds { get; set; } = new();
+    public Guid? SprintId { get; set; }
+    public string? LastTestStatus { get; set; }
+    public string? LastTestSummary { get; set; }
+    public DateTime? LastTestRunAt { get; set; }
     public DateTime CreatedAt { get; set; }
     public DateTime? UpdatedAt { get; set; }
     public List<TaskDto> Tasks { get; set; } = new();
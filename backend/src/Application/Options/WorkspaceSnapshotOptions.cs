@@ -0,0 +1,10 @@
+namespace DevPilot.Application.Options;
+
+/// <summary>Filesystem root for story workspace snapshot archives.</summary>
+public class WorkspaceSnapshotOptions
+{
+    public const string SectionName = "WorkspaceSnapshots";
+
+    /// <summary>Absolute path, or null/empty to use ContentRootPath/App_Data/workspace-snapshots.</summary>
+    public string? RootPath { get; set; }
+}
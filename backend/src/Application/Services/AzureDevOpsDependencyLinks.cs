@@ -0,0 +1,79 @@
+namespace DevPilot.Application.Services;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Maps user story "depends on" links to Azure DevOps predecessor/successor links and back.</summary>
+public static class AzureDevOpsDependencyLinks
+{
+    /// <summary>Relation added on the dependent work item, pointing at the one it waits for.</summary>
+    public const string PredecessorRelation = "System.LinkTypes.Dependency-Reverse";
+
+    /// <summary>JSON Patch operations adding a predecessor link for each id that is not linked yet.</summary>
+    public static List<AzureDevOpsWorkItemPatchOperation> BuildAddPredecessorPatches(
+        string organization,
+        string project,
+        IEnumerable<int> predecessorIds,
+        IEnumerable<int> existingPredecessorIds)
+    {
+        var existing = existingPredecessorIds.ToHashSet();
+        return predecessorIds
+            .Distinct()
+            .Where(id => !existing.Contains(id))
+            .Select(id => new AzureDevOpsWorkItemPatchOperation
+            {
+                Op = "add",
+                Path = "/relations/-",
+                Value = new Dictionary<string, object?>
+                {
+                    ["rel"] = PredecessorRelation,
+                    ["url"] = $"https://dev.azure.com/{Uri.EscapeDataString(organization)}/{Uri.EscapeDataString(project)}/_apis/wit/workitems/{id}"
+                }
+            })
+            .ToList();
+    }
+
+    /// <summary>
+    /// JSON Patch operations removing the predecessor links to tracked work items (DevPilot stories) that are no
+    /// longer in <paramref name="predecessorIds"/>; links to work items DevPilot does not know are left alone.
+    /// Highest relation index first, so each removal leaves the paths of the next ones unchanged.
+    /// </summary>
+    public static List<AzureDevOpsWorkItemPatchOperation> BuildRemovePredecessorPatches(
+        IEnumerable<int> predecessorIds,
+        IReadOnlyDictionary<int, int> existingRelationIndexes,
+        IReadOnlySet<int> trackedWorkItemIds)
+    {
+        var wanted = predecessorIds.ToHashSet();
+        return existingRelationIndexes
+            .Where(link => trackedWorkItemIds.Contains(link.Key) && !wanted.Contains(link.Key))
+            .Select(link => link.Value)
+            .OrderByDescending(index => index)
+            .Select(index => new AzureDevOpsWorkItemPatchOperation { Op = "remove", Path = $"/relations/{index}" })
+            .ToList();
+    }
+
+    /// <summary>Azure DevOps ids of the stories <paramref name="story"/> depends on (unlinked stories are skipped).</summary>
+    public static List<int> PredecessorWorkItemIds(UserStory story, IReadOnlyDictionary<Guid, int> adoIdByStoryId) =>
+        story.DependsOnStoryIds
+            .Where(adoIdByStoryId.ContainsKey)
+            .Select(id => adoIdByStoryId[id])
+            .ToList();
+
+    /// <summary>
+    /// Dependencies after pulling <paramref name="workItem"/>: links to stories that exist in Azure DevOps follow
+    /// the work item's predecessor/successor links; links to local-only stories are kept.
+    /// </summary>
+    public static List<Guid> MergePulledDependencies(
+        UserStory story,
+        AzureDevOpsWorkItemDto workItem,
+        IReadOnlyDictionary<int, Guid> storyIdByAdoId)
+    {
+        var adoLinkedStoryIds = storyIdByAdoId.Values.ToHashSet();
+        var merged = story.DependsOnStoryIds.Where(id => !adoLinkedStoryIds.Contains(id)).ToList();
+        foreach (var predecessorId in workItem.PredecessorIds)
+        {
+            if (storyIdByAdoId.TryGetValue(predecessorId, out var localId) && localId != story.Id && !merged.Contains(localId))
+                merged.Add(localId);
+        }
+        return merged;
+    }
+}
@@ -40,7 +40,8 @@ public interface IAzureDevOpsService
         bool useBasicAuth = false);
 
     /// <summary>
-    /// Creates a pull request and optionally links work items to it
+    /// Creates a pull request with labels (optionally as draft), then links work items and adds reviewers
+    /// (emails or display names resolved to identities). Failing links or reviewers are logged and do not fail the PR.
     /// </summary>
     System.Threading.Tasks.Task<AzureDevOpsPullRequestDto> CreatePullRequestAsync(
         string accessToken,
@@ -52,6 +53,9 @@ public interface IAzureDevOpsService
         string title,
         string? description = null,
         IReadOnlyList<int>? workItemIds = null,
+        IReadOnlyList<string>? reviewers = null,
+        IReadOnlyList<string>? labels = null,
+        bool isDraft = false,
         CancellationToken cancellationToken = default,
         bool useBasicAuth = false);
 
@@ -88,7 +92,7 @@ public interface IAzureDevOpsService
         bool useBasicAuth = false);
 
     /// <summary>
-    /// Fetches work items by id with standard fields (title, description, state, story points, AC).
+    /// Fetches work items by id with standard fields (title, description, state, story points, AC) and relations.
     /// </summary>
     System.Threading.Tasks.Task<IReadOnlyList<AzureDevOpsWorkItemDto>> GetWorkItemsByIdsAsync(
         string accessToken,
@@ -355,6 +359,12 @@ public class AzureDevOpsWorkItemDto
     public string? AreaPath { get; set; }
     public string? IterationPath { get; set; }
     public List<int> ChildIds { get; set; } = new();
+    /// <summary>Predecessor links (<c>System.LinkTypes.Dependency-Reverse</c>): work items this one depends on.</summary>
+    public List<int> PredecessorIds { get; set; } = new();
+    /// <summary>Position of each predecessor link in the work item's relations, keyed by predecessor id (JSON Patch remove path).</summary>
+    public Dictionary<int, int> PredecessorRelationIndexes { get; set; } = new();
+    /// <summary>Successor links (<c>System.LinkTypes.Dependency-Forward</c>): work items that depend on this one.</summary>
+    public List<int> SuccessorIds { get; set; } = new();
     public string? Url { get; set; }
     public DateTime? CreatedDate { get; set; }
     public DateTime? ChangedDate { get; set; }
@@ -6,6 +6,12 @@ namespace DevPilot.Application.Services;
 public interface IEffectiveAiConfigResolver
 {
     Task<EffectiveAiConfig> GetEffectiveConfigAsync(Guid userId, Guid? repositoryId, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Config of one explicitly chosen LLM setting (e.g. a multi-model comparison run).
+    /// Null when the setting does not exist or is neither the user's own nor shared.
+    /// </summary>
+    Task<EffectiveAiConfig?> GetConfigForLlmSettingAsync(Guid userId, Guid llmSettingId, CancellationToken cancellationToken = default);
 }
 
 public record EffectiveAiConfig(string Provider, string? ApiKey, string? Model, string? BaseUrl);
@@ -54,7 +54,8 @@ public interface IGitHubService
         CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Creates a pull request
+    /// Creates a pull request, then requests reviews (logins, or <c>org/team</c> for teams) and adds labels.
+    /// Failing review requests or labels are logged and do not fail the PR.
     /// </summary>
     System.Threading.Tasks.Task<GitHubPullRequestDto> CreatePullRequestAsync(
         string accessToken,
@@ -64,6 +65,9 @@ public interface IGitHubService
         string baseBranch,
         string title,
         string? body = null,
+        IReadOnlyList<string>? reviewers = null,
+        IReadOnlyList<string>? labels = null,
+        bool draft = false,
         CancellationToken cancellationToken = default);
 
     /// <summary>
@@ -199,6 +203,22 @@ public interface IGitHubService
         string title,
         string? body,
         CancellationToken cancellationToken = default);
+
+    /// <summary>Assigns an issue to a milestone (sprint sync); null removes the milestone.</summary>
+    System.Threading.Tasks.Task SetIssueMilestoneAsync(
+        string accessToken,
+        string owner,
+        string repo,
+        int issueNumber,
+        int? milestoneNumber,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>All milestones of a repository (open and closed), by due date.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<GitHubMilestoneDto>> GetMilestonesAsync(
+        string accessToken,
+        string owner,
+        string repo,
+        CancellationToken cancellationToken = default);
 }
 
 /// <summary>
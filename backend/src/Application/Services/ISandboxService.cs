@@ -18,6 +18,13 @@ namespace DevPilot.Application.Services;
             Guid userId,
             CancellationToken cancellationToken = default);
 
+        /// <summary>
+        /// Returns every sandbox the manager reports, whoever owns it (admin fleet view).
+        /// <see cref="SandboxListItem.OwnerId"/> is null for sandboxes no user has claimed yet.
+        /// </summary>
+        Task<IReadOnlyList<SandboxListItem>> ListAllSandboxesAsync(
+            CancellationToken cancellationToken = default);
+
         /// <summary>Returns the current status of a sandbox owned by the given user.</summary>
         Task<SandboxStatusResult?> GetSandboxAsync(
             Guid userId,
@@ -30,6 +37,29 @@ namespace DevPilot.Application.Services;
             string sandboxId,
             CancellationToken cancellationToken = default);
 
+        /// <summary>Stops a sandbox owned by the given user; the container is kept so it can be restarted.</summary>
+        Task<bool> StopSandboxAsync(
+            Guid userId,
+            string sandboxId,
+            CancellationToken cancellationToken = default);
+
+        /// <summary>Owner of a tracked sandbox, or null when it is unknown to this API instance.</summary>
+        Guid? GetOwnerId(string sandboxId);
+
+        /// <summary>
+        /// Sandboxes this API instance tracks with a known owner, without asking the manager
+        /// (<see cref="SandboxListItem.Status"/> and the times are not filled in).
+        /// </summary>
+        IReadOnlyList<SandboxListItem> GetOwnedSandboxes();
+
+        /// <summary>
+        /// Bridge <c>/all-conversations</c> body of a tracked sandbox, read by the API itself rather than through the
+        /// proxy; null when the sandbox is unknown or its bridge does not answer (stopped, removed).
+        /// </summary>
+        Task<string?> TryGetConversationsJsonAsync(
+            string sandboxId,
+            CancellationToken cancellationToken = default);
+
         /// <summary>
         /// Ensures <paramref name="userId"/> owns <paramref name="sandboxId"/> in the in-memory map
         /// by loading the container from the manager (e.g. after API restart).
@@ -50,15 +80,23 @@ public record SandboxCreateRequest
     public string? RepoName { get; init; }
     public string? RepoBranch { get; init; }
     public string? RepoArchiveUrl { get; init; }
+    /// <summary>Signed URL of a story workspace snapshot zip, restored on top of the clone.</summary>
+    public string? WorkspaceSnapshotUrl { get; init; }
+    /// <summary>Signed URL of the snapshot's agent conversations, loaded by the bridge at start.</summary>
+    public string? WorkspaceSnapshotConversationsUrl { get; init; }
     public string? GithubToken { get; init; }
     public string? AzureDevOpsPat { get; init; }
     public SandboxAiConfig? AiConfig { get; init; }
     public object? ZedSettings { get; init; }
     public List<SandboxArtifactFeed>? ArtifactFeeds { get; init; }
     public string? AgentRules { get; init; }
+    /// <summary>Repository sandbox profile applied after the clone; null when the repository has none.</summary>
+    public SandboxProfile? Profile { get; init; }
     public string? AzureIdentityClientId { get; init; }
     public string? AzureIdentityClientSecret { get; init; }
     public string? AzureIdentityTenantId { get; init; }
+    /// <summary>Story the sandbox implements; kept server-side for the fleet view, not sent to the manager.</summary>
+    public Guid? StoryId { get; init; }
 }
 
 public record SandboxArtifactFeed
@@ -70,6 +108,14 @@ public record SandboxArtifactFeed
     public string FeedType { get; init; } = "nuget";
 }
 
+public record SandboxProfile
+{
+    public List<string> SetupCommands { get; init; } = new();
+    public Dictionary<string, string> EnvironmentVariables { get; init; } = new();
+    public int? PreviewPort { get; init; }
+    public bool UseDevcontainer { get; init; }
+}
+
 public record SandboxAiConfig
 {
     public string Provider { get; init; } = "openai";
@@ -89,6 +135,13 @@ public record SandboxListItem
 {
     public string Id { get; init; } = string.Empty;
     public string Status { get; init; } = string.Empty;
+    /// <summary>When the manager created the container (UTC); null when the manager did not report it.</summary>
+    public DateTime? CreatedAt { get; init; }
+    /// <summary>When the manager's cleanup removes the sandbox (UTC); null when unknown.</summary>
+    public DateTime? ExpiresAt { get; init; }
+    public Guid? OwnerId { get; init; }
+    /// <summary>Story the sandbox was created for, when known.</summary>
+    public Guid? StoryId { get; init; }
 }
 
 public record SandboxStatusResult
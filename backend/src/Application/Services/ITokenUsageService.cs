@@ -0,0 +1,47 @@
+namespace DevPilot.Application.Services;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>
+/// Token usage and cost accounting: captures the per-turn usage the sandbox bridge reports on its conversation
+/// entries, prices it with the matching LLM setting, and evaluates the user's monthly budget.
+/// </summary>
+public interface ITokenUsageService
+{
+    /// <summary>
+    /// Records the turns of a bridge <c>/all-conversations</c> body that carry usage and are not stored yet.
+    /// Returns the number of turns added.
+    /// </summary>
+    System.Threading.Tasks.Task<int> RecordFromConversationsAsync(
+        Guid userId,
+        UserStory story,
+        string sandboxId,
+        string conversationsJson,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Reads the conversations of a sandbox from its bridge and records the turns not stored yet, so usage counts
+    /// whether or not anyone watches the sandbox. Turns go to the story the sandbox was created for (or saved
+    /// conversations of), else to the repository it is bound to (Code Ask); otherwise nothing is recorded.
+    /// </summary>
+    System.Threading.Tasks.Task<int> RecordFromSandboxAsync(
+        SandboxListItem sandbox,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Spend of the current month against the user's budget (user budget, else admin default, else none).</summary>
+    System.Threading.Tasks.Task<UsageBudgetStatus> GetBudgetStatusAsync(Guid userId, CancellationToken cancellationToken = default);
+}
+
+/// <summary>
+/// <paramref name="State"/>: <see cref="UsageBudget.StateOk"/>, <see cref="UsageBudget.StateSoftLimitReached"/> or
+/// <see cref="UsageBudget.StateHardLimitReached"/>. <paramref name="Source"/>: user, admin or none.
+/// </summary>
+public record UsageBudgetStatus(
+    DateTime MonthStart,
+    long PromptTokens,
+    long CompletionTokens,
+    decimal Spent,
+    decimal? MonthlySoftLimit,
+    decimal? MonthlyHardLimit,
+    string State,
+    string Source);
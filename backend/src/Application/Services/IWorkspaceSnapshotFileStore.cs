@@ -0,0 +1,13 @@
+namespace DevPilot.Application.Services;
+
+/// <summary>Workspace zips of story snapshots on server-local disk, one file per snapshot id.</summary>
+public interface IWorkspaceSnapshotFileStore
+{
+    /// <summary>Writes the zip and returns its size in bytes; overwrites an existing file.</summary>
+    Task<long> SaveAsync(Guid snapshotId, Stream zipStream, CancellationToken cancellationToken = default);
+
+    /// <summary>Null when the archive is missing (deleted or never written).</summary>
+    Stream? OpenRead(Guid snapshotId);
+
+    void Delete(Guid snapshotId);
+}
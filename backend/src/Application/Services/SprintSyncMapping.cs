@@ -0,0 +1,48 @@
+namespace DevPilot.Application.Services;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Maps sprints to Azure DevOps iteration paths and GitHub milestones when pulling backlog items.</summary>
+public static class SprintSyncMapping
+{
+    /// <summary>
+    /// Sprint of a story pulled from Azure DevOps. The sprint mapped to the work item's iteration wins;
+    /// a story whose mapped sprint no longer matches goes back to the backlog; unmapped sprints are kept.
+    /// </summary>
+    public static Guid? FromIterationPath(Guid? currentSprintId, IEnumerable<Sprint> sprints, string? iterationPath)
+    {
+        var normalized = NormalizeIterationPath(iterationPath);
+        return Resolve(
+            currentSprintId,
+            sprints,
+            s => !string.IsNullOrEmpty(s.AzureDevOpsIterationPath),
+            s => normalized != null && string.Equals(NormalizeIterationPath(s.AzureDevOpsIterationPath), normalized, StringComparison.OrdinalIgnoreCase));
+    }
+
+    /// <summary>Sprint of a story pulled from GitHub, by the issue's milestone (same rules as <see cref="FromIterationPath"/>).</summary>
+    public static Guid? FromMilestone(Guid? currentSprintId, IEnumerable<Sprint> sprints, int? milestoneNumber)
+    {
+        return Resolve(
+            currentSprintId,
+            sprints,
+            s => s.GitHubMilestoneNumber.HasValue,
+            s => milestoneNumber.HasValue && s.GitHubMilestoneNumber == milestoneNumber);
+    }
+
+    private static Guid? Resolve(Guid? currentSprintId, IEnumerable<Sprint> sprints, Func<Sprint, bool> isMapped, Func<Sprint, bool> matches)
+    {
+        var list = sprints as IReadOnlyCollection<Sprint> ?? sprints.ToList();
+        var match = list.FirstOrDefault(s => isMapped(s) && matches(s));
+        if (match != null)
+            return match.Id;
+
+        var current = currentSprintId.HasValue ? list.FirstOrDefault(s => s.Id == currentSprintId.Value) : null;
+        return current != null && isMapped(current) ? null : currentSprintId;
+    }
+
+    private static string? NormalizeIterationPath(string? path)
+    {
+        var trimmed = path?.Trim().Trim('\\');
+        return string.IsNullOrEmpty(trimmed) ? null : trimmed;
+    }
+}
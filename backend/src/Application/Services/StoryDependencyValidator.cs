@@ -0,0 +1,57 @@
+namespace DevPilot.Application.Services;
+
+using DevPilot.Domain.Interfaces;
+
+/// <summary>Validates "depends on" links between user stories of one repository.</summary>
+public static class StoryDependencyValidator
+{
+    /// <summary>
+    /// Returns an error message when <paramref name="dependsOnStoryIds"/> contains an empty id, references a story
+    /// outside the repository, the story itself, or would create a cycle; otherwise null.
+    /// </summary>
+    public static async Task<string?> ValidateAsync(
+        Guid? storyId,
+        Guid repositoryId,
+        IReadOnlyCollection<Guid> dependsOnStoryIds,
+        IEpicRepository epicRepository,
+        CancellationToken cancellationToken)
+    {
+        if (dependsOnStoryIds.Count == 0)
+            return null;
+
+        if (dependsOnStoryIds.Contains(Guid.Empty))
+            return "Dependency story ids must not be empty.";
+
+        if (storyId.HasValue && dependsOnStoryIds.Contains(storyId.Value))
+            return "A user story cannot depend on itself.";
+
+        var epics = await epicRepository.GetByRepositoryIdAsync(repositoryId, cancellationToken);
+        var graph = epics
+            .SelectMany(e => e.Features)
+            .SelectMany(f => f.UserStories)
+            .ToDictionary(s => s.Id, s => (IReadOnlyList<Guid>)s.DependsOnStoryIds);
+
+        var unknown = dependsOnStoryIds.FirstOrDefault(id => !graph.ContainsKey(id));
+        if (unknown != Guid.Empty)
+            return $"User story {unknown} is not part of this repository's backlog.";
+
+        if (!storyId.HasValue)
+            return null;
+
+        // Walk from each new dependency; reaching the story itself means the link closes a cycle.
+        var visited = new HashSet<Guid>();
+        var stack = new Stack<Guid>(dependsOnStoryIds);
+        while (stack.Count > 0)
+        {
+            var current = stack.Pop();
+            if (current == storyId.Value)
+                return "These dependencies would create a cycle.";
+            if (!visited.Add(current) || !graph.TryGetValue(current, out var next))
+                continue;
+            foreach (var id in next)
+                stack.Push(id);
+        }
+
+        return null;
+    }
+}
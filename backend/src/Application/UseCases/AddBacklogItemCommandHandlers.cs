@@ -98,7 +98,10 @@ public class AddFeatureCommandHandler : IRequestHandler<AddFeatureCommand, Featu
 }
 
 // Add User Story
-public record AddUserStoryCommand(Guid FeatureId, string Title, string? Description = null, string? AcceptanceCriteria = null, int? StoryPoints = null, string? Source = null, int? AzureDevOpsWorkItemId = null, int? GitHubIssueNumber = null, Guid? RepositoryAgentRuleId = null) : IRequest<UserStoryDto>;
+/// <summary>Task created together with a user story (e.g. from a backlog file import).</summary>
+public record AddUserStoryTaskItem(string Title, string? Description = null, string? Complexity = null, string? Status = null);
+
+public record AddUserStoryCommand(Guid FeatureId, string Title, string? Description = null, string? AcceptanceCriteria = null, int? StoryPoints = null, string? Source = null, int? AzureDevOpsWorkItemId = null, int? GitHubIssueNumber = null, Guid? RepositoryAgentRuleId = null, IReadOnlyList<Guid>? DependsOnStoryIds = null, Guid? RepositoryPromptTemplateId = null, IReadOnlyList<AddUserStoryTaskItem>? Tasks = null) : IRequest<UserStoryDto>;
 
 public class AddUserStoryCommandHandler : IRequestHandler<AddUserStoryCommand, UserStoryDto>
 {
@@ -133,6 +136,22 @@ public class AddUserStoryCommandHandler : IRequestHandler<AddUserStoryCommand, U
         }
 
         var userStory = new UserStory(command.Title, command.FeatureId, command.Description, command.AcceptanceCriteria, command.StoryPoints, command.Source, command.AzureDevOpsWorkItemId, command.GitHubIssueNumber, command.RepositoryAgentRuleId);
+        if (command.DependsOnStoryIds is { Count: > 0 })
+            userStory.SetDependsOn(command.DependsOnStoryIds);
+        if (command.RepositoryPromptTemplateId.HasValue)
+            userStory.SetRepositoryPromptTemplateId(command.RepositoryPromptTemplateId);
+        foreach (var item in command.Tasks ?? Enumerable.Empty<AddUserStoryTaskItem>())
+        {
+            if (string.IsNullOrWhiteSpace(item.Title)) continue;
+            var task = new Domain.Entities.Task(
+                title: item.Title,
+                userStoryId: userStory.Id,
+                complexity: string.IsNullOrWhiteSpace(item.Complexity) ? "Medium" : item.Complexity,
+                description: item.Description);
+            if (!string.IsNullOrWhiteSpace(item.Status))
+                task.ChangeStatus(item.Status);
+            userStory.Tasks.Add(task);
+        }
         userStory = await _userStoryRepository.AddAsync(userStory, cancellationToken);
         _logger.LogInformation("Added UserStory {StoryId}: {Title} to Feature {FeatureId}", userStory.Id, userStory.Title, command.FeatureId);
 
@@ -149,9 +168,22 @@ public class AddUserStoryCommandHandler : IRequestHandler<AddUserStoryCommand, U
             AzureDevOpsWorkItemId = userStory.AzureDevOpsWorkItemId,
             GitHubIssueNumber = userStory.GitHubIssueNumber,
             RepositoryAgentRuleId = userStory.RepositoryAgentRuleId,
+            RepositoryPromptTemplateId = userStory.RepositoryPromptTemplateId,
+            DependsOnStoryIds = userStory.DependsOnStoryIds.ToList(),
             CreatedAt = userStory.CreatedAt,
             UpdatedAt = userStory.UpdatedAt,
-            Tasks = []
+            Tasks = userStory.Tasks.Select(t => new TaskDto
+            {
+                Id = t.Id,
+                Title = t.Title,
+                Description = t.Description,
+                UserStoryId = t.UserStoryId,
+                Status = t.Status,
+                Complexity = t.Complexity,
+                AssignedTo = t.AssignedTo,
+                CreatedAt = t.CreatedAt,
+                UpdatedAt = t.UpdatedAt
+            }).ToList()
         };
     }
 }
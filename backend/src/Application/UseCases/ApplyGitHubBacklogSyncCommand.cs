@@ -41,6 +41,7 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
     private readonly IUserRepository _userRepository;
     private readonly ILinkedProviderRepository _linkedProviderRepository;
     private readonly IGitHubService _gitHubService;
+    private readonly ISprintRepository _sprintRepository;
     private readonly ILogger<ApplyGitHubBacklogSyncCommandHandler> _logger;
 
     public ApplyGitHubBacklogSyncCommandHandler(
@@ -51,6 +52,7 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
         IUserRepository userRepository,
         ILinkedProviderRepository linkedProviderRepository,
         IGitHubService gitHubService,
+        ISprintRepository sprintRepository,
         ILogger<ApplyGitHubBacklogSyncCommandHandler> logger)
     {
         _epicRepository = epicRepository;
@@ -60,6 +62,7 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
         _userRepository = userRepository;
         _linkedProviderRepository = linkedProviderRepository;
         _gitHubService = gitHubService;
+        _sprintRepository = sprintRepository;
         _logger = logger;
     }
 
@@ -102,6 +105,10 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
         }
 
         var epics = (await _epicRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken)).ToList();
+        var sprints = await _sprintRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken);
+        var milestoneBySprintId = sprints
+            .Where(s => s.GitHubMilestoneNumber.HasValue)
+            .ToDictionary(s => s.Id, s => s.GitHubMilestoneNumber!.Value);
 
         var createN = command.CreateEpicIds.Count + command.CreateFeatureIds.Count + command.CreateStoryIds.Count;
         var pullN = command.PullEpicIds.Count + command.PullFeatureIds.Count + command.PullStoryIds.Count;
@@ -212,6 +219,8 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
                 story.SetGitHubIssueNumber(number);
                 story.SetSource("GitHub");
                 await _userStoryRepository.UpdateAsync(story, cancellationToken);
+                if (story.SprintId is { } sprintId && milestoneBySprintId.TryGetValue(sprintId, out var milestone))
+                    await _gitHubService.SetIssueMilestoneAsync(accessToken, owner, repoName, number, milestone, cancellationToken);
                 outResult.CreatedCount++;
             }
             catch (Exception ex)
@@ -279,7 +288,8 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
             try
             {
                 var issue = await _gitHubService.GetIssueAsync(accessToken, owner, repoName, num, cancellationToken);
-                ApplyIssueToStory(story, issue);
+                ApplyIssueToStory(story, issue, command.UserId);
+                story.SetSprintId(SprintSyncMapping.FromMilestone(story.SprintId, sprints, issue.MilestoneNumber));
                 await _userStoryRepository.UpdateAsync(story, cancellationToken);
                 outResult.PulledCount++;
             }
@@ -371,6 +381,8 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
                     story.Description ?? string.Empty,
                     ghState,
                     cancellationToken);
+                if (story.SprintId is { } sprintId && milestoneBySprintId.TryGetValue(sprintId, out var milestone))
+                    await _gitHubService.SetIssueMilestoneAsync(accessToken, owner, repoName, num, milestone, cancellationToken);
                 outResult.PushedCount++;
             }
             catch (Exception ex)
@@ -432,11 +444,11 @@ public class ApplyGitHubBacklogSyncCommandHandler : IRequestHandler<ApplyGitHubB
         feature.SetSource("GitHub");
     }
 
-    private static void ApplyIssueToStory(UserStory story, GitHubIssueDto issue)
+    private static void ApplyIssueToStory(UserStory story, GitHubIssueDto issue, Guid userId)
     {
         story.UpdateTitle(issue.Title ?? story.Title);
         story.UpdateDescription(issue.Body);
-        story.ChangeStatus(MapGitHubStateToAppStatus(issue.State), null);
+        story.ChangeStatus(MapGitHubStateToAppStatus(issue.State), null, StoryStatusTransition.SourceGitHubSync, userId);
         story.SetSource("GitHub");
     }
 
@@ -79,6 +79,12 @@ public class GetBacklogByRepositoryIdQueryHandler : IRequestHandler<GetBacklogBy
             AzureDevOpsWorkItemId = userStory.AzureDevOpsWorkItemId,
             GitHubIssueNumber = userStory.GitHubIssueNumber,
             RepositoryAgentRuleId = userStory.RepositoryAgentRuleId,
+            RepositoryPromptTemplateId = userStory.RepositoryPromptTemplateId,
+            DependsOnStoryIds = userStory.DependsOnStoryIds.ToList(),
+            SprintId = userStory.SprintId,
+            LastTestStatus = userStory.LastTestStatus,
+            LastTestSummary = userStory.LastTestSummary,
+            LastTestRunAt = userStory.LastTestRunAt,
             CreatedAt = userStory.CreatedAt,
             UpdatedAt = userStory.UpdatedAt,
             Tasks = userStory.Tasks.Select(t => MapTaskToDto(t)).ToList()
@@ -34,6 +34,7 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
     private readonly IUserStoryRepository _userStoryRepository;
     private readonly IUserRepository _userRepository;
     private readonly IAzureDevOpsService _azureDevOpsService;
+    private readonly ISprintRepository _sprintRepository;
     private readonly ILogger<PullBacklogFromAzureDevOpsCommandHandler> _logger;
 
     public PullBacklogFromAzureDevOpsCommandHandler(
@@ -42,6 +43,7 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
         IUserStoryRepository userStoryRepository,
         IUserRepository userRepository,
         IAzureDevOpsService azureDevOpsService,
+        ISprintRepository sprintRepository,
         ILogger<PullBacklogFromAzureDevOpsCommandHandler> logger)
     {
         _epicRepository = epicRepository;
@@ -49,6 +51,7 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
         _userStoryRepository = userStoryRepository;
         _userRepository = userRepository;
         _azureDevOpsService = azureDevOpsService;
+        _sprintRepository = sprintRepository;
         _logger = logger;
     }
 
@@ -80,6 +83,8 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
         var epicByAdo = new Dictionary<int, Epic>();
         var featureByAdo = new Dictionary<int, Feature>();
         var storyByAdo = new Dictionary<int, UserStory>();
+        // All ADO-linked stories of the repository, so predecessor links can resolve outside the selection
+        var storyIdByAdo = new Dictionary<int, Guid>();
 
         foreach (var epic in epics)
         {
@@ -101,6 +106,9 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
 
                 foreach (var story in feature.UserStories)
                 {
+                    if (story.AzureDevOpsWorkItemId.HasValue)
+                        storyIdByAdo[story.AzureDevOpsWorkItemId.Value] = story.Id;
+
                     if (story.AzureDevOpsWorkItemId.HasValue && (!filter || storyIdSet.Contains(story.Id)))
                     {
                         var id = story.AzureDevOpsWorkItemId.Value;
@@ -131,6 +139,9 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
         }
 
         var byId = workItems.ToDictionary(w => w.Id, w => w);
+        var sprints = storyByAdo.Count > 0
+            ? await _sprintRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken)
+            : Array.Empty<Sprint>();
 
         foreach (var adoId in adoIds.Distinct())
         {
@@ -154,7 +165,9 @@ public class PullBacklogFromAzureDevOpsCommandHandler : IRequestHandler<PullBack
                     story.UpdateAcceptanceCriteria(string.IsNullOrEmpty(wi.AcceptanceCriteria) ? null : StripHtmlToPlain(wi.AcceptanceCriteria));
                     if (wi.StoryPoints.HasValue)
                         story.SetStoryPoints((int)Math.Round(wi.StoryPoints.Value));
-                    story.ChangeStatus(status);
+                    story.ChangeStatus(status, null, StoryStatusTransition.SourceAzureDevOpsSync, command.UserId);
+                    story.SetDependsOn(AzureDevOpsDependencyLinks.MergePulledDependencies(story, wi, storyIdByAdo));
+                    story.SetSprintId(SprintSyncMapping.FromIterationPath(story.SprintId, sprints, wi.IterationPath));
                     await _userStoryRepository.UpdateAsync(story, cancellationToken);
                     result.UpdatedCount++;
                 }
@@ -135,6 +135,8 @@ public class PushManualBacklogToAzureDevOpsCommandHandler : IRequestHandler<Push
 
         bool StoryInScope(UserStory s) => storySel.Contains(s.Id);
 
+        var createdStories = new List<UserStory>();
+
         foreach (var epic in epics)
         {
             if (!EpicInScope(epic)) continue;
@@ -234,6 +236,7 @@ public class PushManualBacklogToAzureDevOpsCommandHandler : IRequestHandler<Push
                             story.SetAzureDevOpsWorkItemId(id);
                             story.SetSource("AzureDevOps");
                             await _userStoryRepository.UpdateAsync(story, cancellationToken);
+                            createdStories.Add(story);
                             result.CreatedCount++;
                         }
                         catch (Exception ex)
@@ -247,6 +250,29 @@ public class PushManualBacklogToAzureDevOpsCommandHandler : IRequestHandler<Push
             }
         }
 
+        // Predecessor links need both ends to exist, so they are added once every story is created
+        var adoIdByStoryId = epics
+            .SelectMany(e => e.Features)
+            .SelectMany(f => f.UserStories)
+            .Where(s => s.AzureDevOpsWorkItemId.HasValue)
+            .ToDictionary(s => s.Id, s => s.AzureDevOpsWorkItemId!.Value);
+        foreach (var story in createdStories)
+        {
+            var patches = AzureDevOpsDependencyLinks.BuildAddPredecessorPatches(
+                organization, project, AzureDevOpsDependencyLinks.PredecessorWorkItemIds(story, adoIdByStoryId), Enumerable.Empty<int>());
+            if (patches.Count == 0) continue;
+            try
+            {
+                await _azureDevOpsService.UpdateWorkItemAsync(
+                    accessToken, organization, project, story.AzureDevOpsWorkItemId!.Value, patches, cancellationToken, useBasicAuth);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Link ADO predecessors for {StoryId}", story.Id);
+                result.Errors.Add($"Story '{story.Title}': created, but dependency links failed: {ex.Message}");
+            }
+        }
+
         if (result.CreatedCount == 0 && result.FailedCount == 0)
             result.Errors.Add("Nothing to create: selected items may already be linked to Azure DevOps.");
 
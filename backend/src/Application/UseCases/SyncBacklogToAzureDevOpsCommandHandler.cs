@@ -34,19 +34,22 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
     private readonly IUserRepository _userRepository;
     private readonly IAzureDevOpsService _azureDevOpsService;
     private readonly ILogger<SyncBacklogToAzureDevOpsCommandHandler> _logger;
+    private readonly ISprintRepository? _sprintRepository;
 
     public SyncBacklogToAzureDevOpsCommandHandler(
         IEpicRepository epicRepository,
         IRepositoryRepository repositoryRepository,
         IUserRepository userRepository,
         IAzureDevOpsService azureDevOpsService,
-        ILogger<SyncBacklogToAzureDevOpsCommandHandler> logger)
+        ILogger<SyncBacklogToAzureDevOpsCommandHandler> logger,
+        ISprintRepository? sprintRepository = null)
     {
         _epicRepository = epicRepository ?? throw new ArgumentNullException(nameof(epicRepository));
         _repositoryRepository = repositoryRepository ?? throw new ArgumentNullException(nameof(repositoryRepository));
         _userRepository = userRepository ?? throw new ArgumentNullException(nameof(userRepository));
         _azureDevOpsService = azureDevOpsService ?? throw new ArgumentNullException(nameof(azureDevOpsService));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        _sprintRepository = sprintRepository;
     }
 
     public async System.Threading.Tasks.Task<SyncBacklogToAzureDevOpsResult> Handle(
@@ -125,7 +128,18 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
         }
 
         var epics = await _epicRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken);
-        var itemsToSync = new List<(int AdoId, string Title, string? Description, string Status, int? StoryPoints, string? AcceptanceCriteria)>();
+        // PredecessorIds is null for epics and features, which carry no dependency links
+        var itemsToSync = new List<(int AdoId, string Title, string? Description, string Status, int? StoryPoints, string? AcceptanceCriteria, IReadOnlyList<int>? PredecessorIds, string? IterationPath)>();
+        var iterationPathBySprintId = _sprintRepository == null
+            ? new Dictionary<Guid, string>()
+            : (await _sprintRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken))
+                .Where(s => !string.IsNullOrEmpty(s.AzureDevOpsIterationPath))
+                .ToDictionary(s => s.Id, s => s.AzureDevOpsIterationPath!);
+        var adoIdByStoryId = epics
+            .SelectMany(e => e.Features)
+            .SelectMany(f => f.UserStories)
+            .Where(s => s.AzureDevOpsWorkItemId.HasValue)
+            .ToDictionary(s => s.Id, s => s.AzureDevOpsWorkItemId!.Value);
 
         var epicIdsSet = command.EpicIds.Count > 0 ? new HashSet<Guid>(command.EpicIds) : null;
         var featureIdsSet = command.FeatureIds.Count > 0 ? new HashSet<Guid>(command.FeatureIds) : null;
@@ -136,7 +150,7 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
         {
             if (filterBySelection && (epicIdsSet == null || !epicIdsSet.Contains(epic.Id)))
                 continue;
-            itemsToSync.Add((epic.AzureDevOpsWorkItemId!.Value, epic.Title, epic.Description, epic.Status, null, null));
+            itemsToSync.Add((epic.AzureDevOpsWorkItemId!.Value, epic.Title, epic.Description, epic.Status, null, null, null, null));
         }
 
         foreach (var epic in epics)
@@ -145,7 +159,7 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
             {
                 if (filterBySelection && (featureIdsSet == null || !featureIdsSet.Contains(feature.Id)))
                     continue;
-                itemsToSync.Add((feature.AzureDevOpsWorkItemId!.Value, feature.Title, feature.Description, feature.Status, null, null));
+                itemsToSync.Add((feature.AzureDevOpsWorkItemId!.Value, feature.Title, feature.Description, feature.Status, null, null, null, null));
             }
 
             foreach (var feature in epic.Features)
@@ -154,7 +168,9 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
                 {
                     if (filterBySelection && (storyIdsSet == null || !storyIdsSet.Contains(story.Id)))
                         continue;
-                    itemsToSync.Add((story.AzureDevOpsWorkItemId!.Value, story.Title, story.Description, story.Status, story.StoryPoints, story.AcceptanceCriteria));
+                    itemsToSync.Add((story.AzureDevOpsWorkItemId!.Value, story.Title, story.Description, story.Status, story.StoryPoints, story.AcceptanceCriteria,
+                        AzureDevOpsDependencyLinks.PredecessorWorkItemIds(story, adoIdByStoryId),
+                        story.SprintId is { } sprintId && iterationPathBySprintId.TryGetValue(sprintId, out var iterationPath) ? iterationPath : null));
                 }
             }
         }
@@ -172,6 +188,18 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
         var workItemTypesById = await _azureDevOpsService.GetWorkItemTypesByIdsAsync(
             accessToken, organization, project, adoIds, cancellationToken, useBasicAuth);
 
+        // Existing predecessor links of the stories, so pushing dependencies adds the missing ones and removes
+        // the ones dropped in DevPilot (a pull would otherwise bring them back)
+        var storyAdoIds = itemsToSync.Where(x => x.PredecessorIds != null).Select(x => x.AdoId).Distinct().ToList();
+        var existingLinks = new Dictionary<int, AzureDevOpsWorkItemDto>();
+        if (storyAdoIds.Count > 0)
+        {
+            var current = await _azureDevOpsService.GetWorkItemsByIdsAsync(
+                accessToken, organization, project, storyAdoIds, cancellationToken, useBasicAuth);
+            existingLinks = current.ToDictionary(w => w.Id);
+        }
+        var trackedAdoIds = adoIdByStoryId.Values.ToHashSet();
+
         // Cache allowed states per work item type
         var statesByType = new Dictionary<string, IReadOnlyList<AzureDevOpsWorkItemStateDto>>(StringComparer.OrdinalIgnoreCase);
 
@@ -204,7 +232,7 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
             return match?.Name;
         }
 
-        foreach (var (adoId, title, description, status, storyPoints, acceptanceCriteria) in itemsToSync)
+        foreach (var (adoId, title, description, status, storyPoints, acceptanceCriteria, predecessorIds, iterationPath) in itemsToSync)
         {
             try
             {
@@ -247,6 +275,28 @@ public class SyncBacklogToAzureDevOpsCommandHandler : IRequestHandler<SyncBacklo
                     patches.Add(new AzureDevOpsWorkItemPatchOperation { Op = "add", Path = "/fields/Microsoft.VSTS.Common.AcceptanceCriteria", Value = ConvertAcceptanceCriteriaToHtml(acceptanceCriteria) });
                 }
 
+                // Stories in a sprint mapped to an iteration move to that iteration
+                if (!string.IsNullOrEmpty(iterationPath))
+                {
+                    patches.Add(new AzureDevOpsWorkItemPatchOperation { Op = "add", Path = "/fields/System.IterationPath", Value = iterationPath });
+                }
+
+                if (predecessorIds != null)
+                {
+                    var existing = existingLinks.TryGetValue(adoId, out var workItem) ? workItem : null;
+                    // Removals first: they address relations by index, adds append at the end
+                    if (existing != null)
+                    {
+                        patches.AddRange(AzureDevOpsDependencyLinks.BuildRemovePredecessorPatches(
+                            predecessorIds, existing.PredecessorRelationIndexes, trackedAdoIds));
+                    }
+                    patches.AddRange(AzureDevOpsDependencyLinks.BuildAddPredecessorPatches(
+                        organization,
+                        project,
+                        predecessorIds,
+                        existing?.PredecessorIds ?? Enumerable.Empty<int>()));
+                }
+
                 await _azureDevOpsService.UpdateWorkItemAsync(
                     accessToken, organization, project, adoId, patches, cancellationToken, useBasicAuth);
 
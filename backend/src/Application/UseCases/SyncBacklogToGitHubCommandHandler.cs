@@ -33,6 +33,7 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
     private readonly ILinkedProviderRepository _linkedProviderRepository;
     private readonly IGitHubService _gitHubService;
     private readonly ILogger<SyncBacklogToGitHubCommandHandler> _logger;
+    private readonly ISprintRepository? _sprintRepository;
 
     public SyncBacklogToGitHubCommandHandler(
         IEpicRepository epicRepository,
@@ -40,7 +41,8 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
         IUserRepository userRepository,
         ILinkedProviderRepository linkedProviderRepository,
         IGitHubService gitHubService,
-        ILogger<SyncBacklogToGitHubCommandHandler> logger)
+        ILogger<SyncBacklogToGitHubCommandHandler> logger,
+        ISprintRepository? sprintRepository = null)
     {
         _epicRepository = epicRepository ?? throw new ArgumentNullException(nameof(epicRepository));
         _repositoryRepository = repositoryRepository ?? throw new ArgumentNullException(nameof(repositoryRepository));
@@ -48,6 +50,7 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
         _linkedProviderRepository = linkedProviderRepository ?? throw new ArgumentNullException(nameof(linkedProviderRepository));
         _gitHubService = gitHubService ?? throw new ArgumentNullException(nameof(gitHubService));
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        _sprintRepository = sprintRepository;
     }
 
     public async System.Threading.Tasks.Task<SyncBacklogToGitHubResult> Handle(
@@ -92,7 +95,12 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
         }
 
         var epics = await _epicRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken);
-        var itemsToSync = new List<(int IssueNumber, string Title, string? Description, string Status)>();
+        var itemsToSync = new List<(int IssueNumber, string Title, string? Description, string Status, int? MilestoneNumber)>();
+        var milestoneBySprintId = _sprintRepository == null
+            ? new Dictionary<Guid, int>()
+            : (await _sprintRepository.GetByRepositoryIdAsync(command.RepositoryId, cancellationToken))
+                .Where(s => s.GitHubMilestoneNumber.HasValue)
+                .ToDictionary(s => s.Id, s => s.GitHubMilestoneNumber!.Value);
 
         var epicIdsSet = command.EpicIds.Count > 0 ? new HashSet<Guid>(command.EpicIds) : null;
         var featureIdsSet = command.FeatureIds.Count > 0 ? new HashSet<Guid>(command.FeatureIds) : null;
@@ -105,7 +113,7 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
             {
                 if (filterBySelection && (featureIdsSet == null || !featureIdsSet.Contains(feature.Id)))
                     continue;
-                itemsToSync.Add((feature.GitHubIssueNumber!.Value, feature.Title, feature.Description, feature.Status));
+                itemsToSync.Add((feature.GitHubIssueNumber!.Value, feature.Title, feature.Description, feature.Status, null));
             }
 
             foreach (var feature in epic.Features)
@@ -114,7 +122,8 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
                 {
                     if (filterBySelection && (storyIdsSet == null || !storyIdsSet.Contains(story.Id)))
                         continue;
-                    itemsToSync.Add((story.GitHubIssueNumber!.Value, story.Title, story.Description, story.Status));
+                    int? milestone = story.SprintId is { } sprintId && milestoneBySprintId.TryGetValue(sprintId, out var m) ? m : null;
+                    itemsToSync.Add((story.GitHubIssueNumber!.Value, story.Title, story.Description, story.Status, milestone));
                 }
             }
         }
@@ -127,7 +136,7 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
             return result;
         }
 
-        foreach (var (issueNumber, title, description, status) in itemsToSync)
+        foreach (var (issueNumber, title, description, status, milestoneNumber) in itemsToSync)
         {
             try
             {
@@ -147,6 +156,12 @@ public class SyncBacklogToGitHubCommandHandler : IRequestHandler<SyncBacklogToGi
                     ghState,
                     cancellationToken);
 
+                // Stories in a sprint mapped to a milestone land in that milestone
+                if (milestoneNumber.HasValue)
+                {
+                    await _gitHubService.SetIssueMilestoneAsync(accessToken, owner, repo, issueNumber, milestoneNumber, cancellationToken);
+                }
+
                 result.SyncedCount++;
             }
             catch (Exception ex)
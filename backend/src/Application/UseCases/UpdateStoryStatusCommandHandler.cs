@@ -5,9 +5,15 @@ using MediatR;
 using Microsoft.Extensions.Logging;
 
 /// <summary>
-/// Command to update a user story's status
+/// Command to update a user story's status.
+/// Source and ChangedByUserId are recorded in the story's status history (user, agent, PR sync...).
 /// </summary>
-public record UpdateStoryStatusCommand(Guid StoryId, string Status, string? PrUrl = null) : IRequest<bool>;
+public record UpdateStoryStatusCommand(
+    Guid StoryId,
+    string Status,
+    string? PrUrl = null,
+    string? Source = null,
+    Guid? ChangedByUserId = null) : IRequest<bool>;
 
 /// <summary>
 /// Handler for UpdateStoryStatusCommand
@@ -59,7 +65,7 @@ public class UpdateStoryStatusCommandHandler : IRequestHandler<UpdateStoryStatus
         }
 
         // Update the status and optionally the PR URL
-        userStory.ChangeStatus(command.Status, command.PrUrl);
+        userStory.ChangeStatus(command.Status, command.PrUrl, command.Source, command.ChangedByUserId);
         await _userStoryRepository.UpdateAsync(userStory, cancellationToken);
 
         _logger.LogInformation("Successfully updated story {StoryId} status to {Status}, PR URL: {PrUrl}", 
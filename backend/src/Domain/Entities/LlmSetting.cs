@@ -16,6 +16,12 @@ public class LlmSetting : Entity
     public string? BaseUrl { get; private set; }
     public bool IsDefault { get; private set; }
 
+    /// <summary>Price in USD per million prompt tokens; null when not configured.</summary>
+    public decimal? InputPricePerMillionTokens { get; private set; }
+
+    /// <summary>Price per million completion tokens; null when not configured.</summary>
+    public decimal? OutputPricePerMillionTokens { get; private set; }
+
     /// <summary>True when this is a shared/admin-created provider (UserId == null).</summary>
     public bool IsShared => UserId == null;
 
@@ -63,6 +69,24 @@ public class LlmSetting : Entity
         MarkAsUpdated();
     }
 
+    public void SetPricing(decimal? inputPricePerMillionTokens, decimal? outputPricePerMillionTokens)
+    {
+        if (inputPricePerMillionTokens < 0 || outputPricePerMillionTokens < 0)
+            throw new ArgumentOutOfRangeException(nameof(inputPricePerMillionTokens), "Token prices cannot be negative.");
+        InputPricePerMillionTokens = inputPricePerMillionTokens;
+        OutputPricePerMillionTokens = outputPricePerMillionTokens;
+        MarkAsUpdated();
+    }
+
+    /// <summary>Cost of one agent turn; null when no price is configured for this setting.</summary>
+    public decimal? ComputeCost(long promptTokens, long completionTokens)
+    {
+        if (InputPricePerMillionTokens is null && OutputPricePerMillionTokens is null)
+            return null;
+        return (promptTokens * (InputPricePerMillionTokens ?? 0m)
+                + completionTokens * (OutputPricePerMillionTokens ?? 0m)) / 1_000_000m;
+    }
+
     public void SetDefault(bool isDefault)
     {
         IsDefault = isDefault;
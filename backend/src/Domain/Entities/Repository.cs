@@ -29,6 +29,7 @@ public class Repository : Entity
     // Navigation properties
     public List<Epic> Epics { get; private set; } = new();
     public List<RepositoryAgentRule> RepositoryAgentRules { get; private set; } = new();
+    public List<RepositoryPromptTemplate> RepositoryPromptTemplates { get; private set; } = new();
 
     private Repository() { }
 
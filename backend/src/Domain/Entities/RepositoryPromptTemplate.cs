@@ -0,0 +1,36 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Named implementation prompt template for a repository (one of many per repo).
+/// The body uses placeholders such as <c>{{story.title}}</c> that the client fills in before sending the prompt to the agent.
+/// </summary>
+public class RepositoryPromptTemplate : Entity
+{
+    public Guid RepositoryId { get; private set; }
+    public string Name { get; private set; }
+    public string Body { get; private set; }
+    public bool IsDefault { get; private set; }
+    public int SortOrder { get; private set; }
+
+    public Repository Repository { get; private set; } = null!;
+
+    private RepositoryPromptTemplate() { }
+
+    public RepositoryPromptTemplate(Guid repositoryId, string name, string body, bool isDefault, int sortOrder)
+    {
+        RepositoryId = repositoryId;
+        Name = name ?? throw new ArgumentNullException(nameof(name));
+        Body = body ?? throw new ArgumentNullException(nameof(body));
+        IsDefault = isDefault;
+        SortOrder = sortOrder;
+    }
+
+    public void Update(string name, string body, bool isDefault, int sortOrder)
+    {
+        Name = name ?? throw new ArgumentNullException(nameof(name));
+        Body = body ?? throw new ArgumentNullException(nameof(body));
+        IsDefault = isDefault;
+        SortOrder = sortOrder;
+        MarkAsUpdated();
+    }
+}
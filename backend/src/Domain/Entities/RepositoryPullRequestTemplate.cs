@@ -0,0 +1,135 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Defaults of the pull request form shown before "Push &amp; Create PR": branch name, commit message, title and body
+/// templates (with placeholders such as <c>{title}</c> filled in by the client), target branch, reviewers, labels and
+/// draft. Null templates fall back to the built-in ones. One template per repository.
+/// </summary>
+public class RepositoryPullRequestTemplate : Entity
+{
+    public const int MaxTemplateLength = 200;
+    public const int MaxBodyTemplateLength = 20000;
+    public const int MaxReviewers = 20;
+    public const int MaxLabels = 20;
+    public const int MaxNameLength = 200;
+
+    public Guid RepositoryId { get; private set; }
+
+    /// <summary>e.g. <c>feature/US-{id}-{slug}</c>; null = built-in default.</summary>
+    public string? BranchNameTemplate { get; private set; }
+    public string? CommitMessageTemplate { get; private set; }
+    public string? TitleTemplate { get; private set; }
+    /// <summary>Markdown body template; null = built-in default.</summary>
+    public string? BodyTemplate { get; private set; }
+
+    /// <summary>Branch the PR targets; null = the repository's default branch.</summary>
+    public string? TargetBranch { get; private set; }
+
+    /// <summary>Reviewer logins / emails (GitHub teams as <c>org/team</c>), one per line.</summary>
+    public string Reviewers { get; private set; } = "";
+
+    /// <summary>Labels, one per line.</summary>
+    public string Labels { get; private set; } = "";
+
+    public bool Draft { get; private set; }
+
+    private RepositoryPullRequestTemplate() { }
+
+    public RepositoryPullRequestTemplate(
+        Guid repositoryId,
+        string? branchNameTemplate,
+        string? commitMessageTemplate,
+        string? titleTemplate,
+        string? bodyTemplate,
+        string? targetBranch,
+        IReadOnlyList<string> reviewers,
+        IReadOnlyList<string> labels,
+        bool draft)
+    {
+        RepositoryId = repositoryId;
+        Apply(branchNameTemplate, commitMessageTemplate, titleTemplate, bodyTemplate, targetBranch, reviewers, labels, draft);
+    }
+
+    public void Update(
+        string? branchNameTemplate,
+        string? commitMessageTemplate,
+        string? titleTemplate,
+        string? bodyTemplate,
+        string? targetBranch,
+        IReadOnlyList<string> reviewers,
+        IReadOnlyList<string> labels,
+        bool draft)
+    {
+        Apply(branchNameTemplate, commitMessageTemplate, titleTemplate, bodyTemplate, targetBranch, reviewers, labels, draft);
+        MarkAsUpdated();
+    }
+
+    public IReadOnlyList<string> GetReviewerList() => SplitLines(Reviewers);
+
+    public IReadOnlyList<string> GetLabelList() => SplitLines(Labels);
+
+    /// <summary>Null when the values are valid, otherwise a message for the API client.</summary>
+    public static string? GetValidationError(
+        string? branchNameTemplate,
+        string? commitMessageTemplate,
+        string? titleTemplate,
+        string? bodyTemplate,
+        string? targetBranch,
+        IReadOnlyList<string> reviewers,
+        IReadOnlyList<string> labels)
+    {
+        foreach (var (name, value) in new[]
+                 {
+                     ("Branch name", branchNameTemplate), ("Commit message", commitMessageTemplate),
+                     ("Title", titleTemplate), ("Target branch", targetBranch)
+                 })
+        {
+            if (value == null) continue;
+            if (value.Length > MaxTemplateLength)
+                return $"{name} must be at most {MaxTemplateLength} characters.";
+            if (value.Contains('\n') || value.Contains('\r'))
+                return $"{name} must be a single line.";
+        }
+        if (bodyTemplate?.Length > MaxBodyTemplateLength)
+            return $"Body must be at most {MaxBodyTemplateLength} characters.";
+        if (branchNameTemplate != null && branchNameTemplate.Any(char.IsWhiteSpace))
+            return "Branch name cannot contain spaces.";
+        if (targetBranch != null && targetBranch.Any(char.IsWhiteSpace))
+            return "Target branch cannot contain spaces.";
+        if (reviewers.Count > MaxReviewers)
+            return $"At most {MaxReviewers} reviewers are allowed.";
+        if (labels.Count > MaxLabels)
+            return $"At most {MaxLabels} labels are allowed.";
+        if (reviewers.Concat(labels).Any(v => v.Length > MaxNameLength || v.Contains('\n') || v.Contains('\r')))
+            return $"Reviewers and labels must be single lines of at most {MaxNameLength} characters.";
+        return null;
+    }
+
+    private void Apply(
+        string? branchNameTemplate,
+        string? commitMessageTemplate,
+        string? titleTemplate,
+        string? bodyTemplate,
+        string? targetBranch,
+        IReadOnlyList<string> reviewers,
+        IReadOnlyList<string> labels,
+        bool draft)
+    {
+        BranchNameTemplate = NullIfBlank(branchNameTemplate);
+        CommitMessageTemplate = NullIfBlank(commitMessageTemplate);
+        TitleTemplate = NullIfBlank(titleTemplate);
+        BodyTemplate = string.IsNullOrWhiteSpace(bodyTemplate) ? null : bodyTemplate;
+        TargetBranch = NullIfBlank(targetBranch);
+        Reviewers = JoinLines(reviewers);
+        Labels = JoinLines(labels);
+        Draft = draft;
+    }
+
+    private static string? NullIfBlank(string? value) => string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+
+    private static string JoinLines(IReadOnlyList<string> values) =>
+        string.Join('\n', values.Select(v => v.Trim()).Where(v => v.Length > 0).Distinct(StringComparer.OrdinalIgnoreCase));
+
+    private static IReadOnlyList<string> SplitLines(string value) =>
+        value.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries);
+}
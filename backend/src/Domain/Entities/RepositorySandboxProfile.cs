@@ -0,0 +1,139 @@
+using System.Text.Json;
+using System.Text.RegularExpressions;
+
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// How sandboxes for a repository are prepared after the clone: setup commands run in the project folder,
+/// non-secret environment variables, the dev-server port shown by default in previews and whether the repo's
+/// <c>.devcontainer/devcontainer.json</c> contributes commands, env and ports. Also holds the test command run
+/// before a pull request is created. One profile per repository.
+/// </summary>
+public class RepositorySandboxProfile : Entity
+{
+    public const int MaxSetupCommands = 20;
+    public const int MaxCommandLength = 1000;
+    public const int MaxEnvironmentVariables = 50;
+
+    /// <summary>Variables the sandbox itself relies on; a profile may not override them.</summary>
+    public static readonly IReadOnlySet<string> ReservedEnvironmentVariables = new HashSet<string>(StringComparer.OrdinalIgnoreCase)
+    {
+        "DISPLAY", "HOME", "PATH", "USER", "SANDBOX_ID", "SANDBOX_TOKEN", "VNC_PASSWORD", "VNC_VIEW_PASSWORD",
+        "REPO_URL", "REPO_NAME", "REPO_BRANCH", "REPO_ARCHIVE_URL", "SANDBOX_PROFILE_JSON"
+    };
+
+    private static readonly Regex EnvironmentVariableName = new("^[A-Za-z_][A-Za-z0-9_]*$", RegexOptions.Compiled);
+
+    public Guid RepositoryId { get; private set; }
+
+    /// <summary>Shell commands, one per line, run in order after the clone; blank lines are ignored.</summary>
+    public string SetupCommands { get; private set; } = "";
+
+    /// <summary>JSON object of non-secret environment variables, e.g. {"ASPNETCORE_ENVIRONMENT": "Development"}.</summary>
+    public string? EnvJson { get; private set; }
+
+    /// <summary>Dev-server port preselected for previews; null = no default.</summary>
+    public int? PreviewPort { get; private set; }
+
+    /// <summary>When true the sandbox also applies the repo's devcontainer.json (lifecycle commands, env, forwarded ports).</summary>
+    public bool UseDevcontainer { get; private set; }
+
+    /// <summary>Command run in the project folder before a pull request is created, e.g. "npm test"; null = no test gate.</summary>
+    public string? TestCommand { get; private set; }
+
+    /// <summary>When true a failing test run blocks the pull request; otherwise the failure is only reported in the PR body.</summary>
+    public bool BlockPullRequestOnTestFailure { get; private set; }
+
+    private RepositorySandboxProfile() { }
+
+    public RepositorySandboxProfile(
+        Guid repositoryId,
+        IReadOnlyList<string> setupCommands,
+        IReadOnlyDictionary<string, string> environmentVariables,
+        int? previewPort,
+        bool useDevcontainer,
+        string? testCommand = null,
+        bool blockPullRequestOnTestFailure = false)
+    {
+        RepositoryId = repositoryId;
+        Apply(setupCommands, environmentVariables, previewPort, useDevcontainer, testCommand, blockPullRequestOnTestFailure);
+    }
+
+    public void Update(
+        IReadOnlyList<string> setupCommands,
+        IReadOnlyDictionary<string, string> environmentVariables,
+        int? previewPort,
+        bool useDevcontainer,
+        string? testCommand = null,
+        bool blockPullRequestOnTestFailure = false)
+    {
+        Apply(setupCommands, environmentVariables, previewPort, useDevcontainer, testCommand, blockPullRequestOnTestFailure);
+        MarkAsUpdated();
+    }
+
+    public IReadOnlyList<string> GetSetupCommandList() =>
+        SetupCommands.Split('\n', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries);
+
+    public IReadOnlyDictionary<string, string> GetEnvironmentVariables()
+    {
+        if (string.IsNullOrEmpty(EnvJson)) return new Dictionary<string, string>();
+        try
+        {
+            return JsonSerializer.Deserialize<Dictionary<string, string>>(EnvJson) ?? new Dictionary<string, string>();
+        }
+        catch (JsonException)
+        {
+            return new Dictionary<string, string>();
+        }
+    }
+
+    /// <summary>Null when the values are valid, otherwise a message for the API client.</summary>
+    public static string? GetValidationError(
+        IReadOnlyList<string> setupCommands,
+        IReadOnlyDictionary<string, string> environmentVariables,
+        int? previewPort,
+        string? testCommand = null)
+    {
+        var commands = setupCommands.Where(c => !string.IsNullOrWhiteSpace(c)).ToList();
+        if (commands.Count > MaxSetupCommands)
+            return $"At most {MaxSetupCommands} setup commands are allowed.";
+        if (commands.Any(c => c.Contains('\n') || c.Contains('\r')))
+            return "Each setup command must be a single line.";
+        if (commands.Any(c => c.Length > MaxCommandLength))
+            return $"Setup commands must be at most {MaxCommandLength} characters.";
+        if (environmentVariables.Count > MaxEnvironmentVariables)
+            return $"At most {MaxEnvironmentVariables} environment variables are allowed.";
+        foreach (var name in environmentVariables.Keys)
+        {
+            if (!EnvironmentVariableName.IsMatch(name))
+                return $"'{name}' is not a valid environment variable name.";
+            if (ReservedEnvironmentVariables.Contains(name))
+                return $"'{name}' is set by the sandbox and cannot be overridden.";
+        }
+        if (previewPort is < 1 or > 65535)
+            return "Preview port must be between 1 and 65535.";
+        if (testCommand != null && (testCommand.Contains('\n') || testCommand.Contains('\r')))
+            return "The test command must be a single line.";
+        if (testCommand?.Length > MaxCommandLength)
+            return $"The test command must be at most {MaxCommandLength} characters.";
+        return null;
+    }
+
+    private void Apply(
+        IReadOnlyList<string> setupCommands,
+        IReadOnlyDictionary<string, string> environmentVariables,
+        int? previewPort,
+        bool useDevcontainer,
+        string? testCommand,
+        bool blockPullRequestOnTestFailure)
+    {
+        if (previewPort is < 1 or > 65535)
+            throw new ArgumentOutOfRangeException(nameof(previewPort), "Preview port must be between 1 and 65535.");
+        SetupCommands = string.Join('\n', setupCommands.Select(c => c.Trim()).Where(c => c.Length > 0));
+        EnvJson = environmentVariables.Count == 0 ? null : JsonSerializer.Serialize(environmentVariables);
+        PreviewPort = previewPort;
+        UseDevcontainer = useDevcontainer;
+        TestCommand = string.IsNullOrWhiteSpace(testCommand) ? null : testCommand.Trim();
+        BlockPullRequestOnTestFailure = TestCommand != null && blockPullRequestOnTestFailure;
+    }
+}
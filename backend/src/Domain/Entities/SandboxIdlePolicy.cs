@@ -0,0 +1,64 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Idle auto-shutdown policy for sandboxes: after <see cref="IdleMinutes"/> without agent activity or VNC input
+/// the user is warned for <see cref="WarningMinutes"/>, then the sandbox is stopped.
+/// When <see cref="UserId"/> is null the record is the admin default for every user; otherwise it is that user's override.
+/// </summary>
+public class SandboxIdlePolicy : Entity
+{
+    /// <summary>Used when neither the user nor an admin configured a policy.</summary>
+    public const int BuiltInIdleMinutes = 60;
+    public const int BuiltInWarningMinutes = 5;
+    public const int MaxIdleMinutes = 24 * 60;
+    public const int MaxWarningMinutes = 60;
+
+    /// <summary>null for the admin default; user's id for a personal override.</summary>
+    public Guid? UserId { get; private set; }
+
+    /// <summary>Minutes of inactivity before the sandbox is stopped; 0 disables auto-shutdown.</summary>
+    public int IdleMinutes { get; private set; }
+
+    /// <summary>How long before the stop the "keep alive" warning is shown.</summary>
+    public int WarningMinutes { get; private set; }
+
+    /// <summary>True for the admin default (UserId == null).</summary>
+    public bool IsDefault => UserId == null;
+
+    private SandboxIdlePolicy() { }
+
+    public SandboxIdlePolicy(Guid? userId, int idleMinutes, int warningMinutes)
+    {
+        Validate(idleMinutes, warningMinutes);
+        UserId = userId;
+        IdleMinutes = idleMinutes;
+        WarningMinutes = warningMinutes;
+    }
+
+    public void Update(int idleMinutes, int warningMinutes)
+    {
+        Validate(idleMinutes, warningMinutes);
+        IdleMinutes = idleMinutes;
+        WarningMinutes = warningMinutes;
+        MarkAsUpdated();
+    }
+
+    /// <summary>Null when the values are valid, otherwise a message for the API client.</summary>
+    public static string? GetValidationError(int idleMinutes, int warningMinutes)
+    {
+        if (idleMinutes < 0 || idleMinutes > MaxIdleMinutes)
+            return $"Idle timeout must be between 0 (never) and {MaxIdleMinutes} minutes.";
+        if (warningMinutes < 1 || warningMinutes > MaxWarningMinutes)
+            return $"Warning must be between 1 and {MaxWarningMinutes} minutes.";
+        if (idleMinutes > 0 && warningMinutes >= idleMinutes)
+            return "Warning must be shorter than the idle timeout.";
+        return null;
+    }
+
+    private static void Validate(int idleMinutes, int warningMinutes)
+    {
+        var error = GetValidationError(idleMinutes, warningMinutes);
+        if (error != null)
+            throw new ArgumentOutOfRangeException(nameof(idleMinutes), error);
+    }
+}
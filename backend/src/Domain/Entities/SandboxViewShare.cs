@@ -0,0 +1,63 @@
+namespace DevPilot.Domain.Entities;
+
+using System.Security.Cryptography;
+
+/// <summary>
+/// Read-only link to a running sandbox: whoever holds <see cref="Token"/> can watch the desktop (VNC view-only password)
+/// and the agent chat, but cannot type, click or send prompts. Optionally time-limited; revocable by the sandbox owner.
+/// </summary>
+public class SandboxViewShare : Entity
+{
+    /// <summary>Longest expiry the owner can pick; links without expiry last until revoked or the sandbox is gone.</summary>
+    public const int MaxExpiresInMinutes = 7 * 24 * 60;
+    public const int MaxTitleLength = 256;
+
+    public string SandboxId { get; private set; } = string.Empty;
+    public Guid CreatedByUserId { get; private set; }
+    /// <summary>URL-safe random secret carried by the share link.</summary>
+    public string Token { get; private set; } = string.Empty;
+    /// <summary>Shown to viewers, e.g. the story title.</summary>
+    public string Title { get; private set; } = string.Empty;
+    /// <summary>null when the link does not expire.</summary>
+    public DateTime? ExpiresAt { get; private set; }
+    public DateTime? RevokedAt { get; private set; }
+
+    private SandboxViewShare() { }
+
+    public SandboxViewShare(string sandboxId, Guid createdByUserId, string? title, int? expiresInMinutes)
+    {
+        var error = GetValidationError(expiresInMinutes);
+        if (error != null)
+            throw new ArgumentOutOfRangeException(nameof(expiresInMinutes), error);
+        if (string.IsNullOrWhiteSpace(sandboxId))
+            throw new ArgumentException("Sandbox id is required", nameof(sandboxId));
+
+        SandboxId = sandboxId;
+        CreatedByUserId = createdByUserId;
+        Token = NewToken();
+        Title = string.IsNullOrWhiteSpace(title) ? $"Sandbox {sandboxId}" : Truncate(title.Trim(), MaxTitleLength);
+        ExpiresAt = expiresInMinutes is { } minutes ? CreatedAt.AddMinutes(minutes) : null;
+    }
+
+    public bool IsActive(DateTime utcNow) => RevokedAt == null && (ExpiresAt == null || ExpiresAt > utcNow);
+
+    public void Revoke()
+    {
+        if (RevokedAt != null) return;
+        RevokedAt = DateTime.UtcNow;
+        MarkAsUpdated();
+    }
+
+    /// <summary>Null when the expiry is valid (null = no expiry), otherwise a message for the API client.</summary>
+    public static string? GetValidationError(int? expiresInMinutes)
+    {
+        if (expiresInMinutes is < 1 or > MaxExpiresInMinutes)
+            return $"Expiry must be between 1 and {MaxExpiresInMinutes} minutes.";
+        return null;
+    }
+
+    private static string NewToken() =>
+        Convert.ToBase64String(RandomNumberGenerator.GetBytes(32)).TrimEnd('=').Replace('+', '-').Replace('/', '_');
+
+    private static string Truncate(string value, int max) => value.Length <= max ? value : value[..max];
+}
@@ -0,0 +1,90 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Time-boxed iteration of a repository backlog. Stories are committed to a sprint via <see cref="UserStory.SprintId"/>.
+/// Maps to an Azure DevOps iteration path and/or a GitHub milestone when the backlog is synced.
+/// </summary>
+public class Sprint : Entity
+{
+    public const string StatusPlanned = "Planned";
+    public const string StatusActive = "Active";
+    public const string StatusCompleted = "Completed";
+
+    public Guid RepositoryId { get; private set; }
+    public string Name { get; private set; }
+    public string? Goal { get; private set; }
+    public DateTime? StartDate { get; private set; }
+    public DateTime? EndDate { get; private set; }
+    /// <summary>Story points the team can take on; null when not planned by capacity.</summary>
+    public int? CapacityPoints { get; private set; }
+    /// <summary>"Planned", "Active" or "Completed"</summary>
+    public string Status { get; private set; } = StatusPlanned;
+    /// <summary>Azure DevOps <c>System.IterationPath</c> stories of this sprint are synced to.</summary>
+    public string? AzureDevOpsIterationPath { get; private set; }
+    /// <summary>GitHub milestone number issues of this sprint are synced to.</summary>
+    public int? GitHubMilestoneNumber { get; private set; }
+    /// <summary>Points committed when the sprint was completed (velocity chart); null until completed.</summary>
+    public int? CommittedPoints { get; private set; }
+    /// <summary>Points of stories Done when the sprint was completed (velocity chart); null until completed.</summary>
+    public int? CompletedPoints { get; private set; }
+
+    public Repository Repository { get; private set; } = null!;
+
+    private Sprint() { }
+
+    public Sprint(Guid repositoryId, string name, string? goal, DateTime? startDate, DateTime? endDate, int? capacityPoints)
+    {
+        RepositoryId = repositoryId;
+        Name = name ?? throw new ArgumentNullException(nameof(name));
+        Goal = goal;
+        SetDates(startDate, endDate);
+        SetCapacity(capacityPoints);
+    }
+
+    public void Update(string name, string? goal, DateTime? startDate, DateTime? endDate, int? capacityPoints)
+    {
+        Name = name ?? throw new ArgumentNullException(nameof(name));
+        Goal = goal;
+        SetDates(startDate, endDate);
+        SetCapacity(capacityPoints);
+        MarkAsUpdated();
+    }
+
+    public void SetProviderMapping(string? azureDevOpsIterationPath, int? gitHubMilestoneNumber)
+    {
+        AzureDevOpsIterationPath = string.IsNullOrWhiteSpace(azureDevOpsIterationPath) ? null : azureDevOpsIterationPath.Trim();
+        GitHubMilestoneNumber = gitHubMilestoneNumber is > 0 ? gitHubMilestoneNumber : null;
+        MarkAsUpdated();
+    }
+
+    public void Start()
+    {
+        if (Status == StatusCompleted)
+            throw new InvalidOperationException("A completed sprint cannot be started again.");
+        Status = StatusActive;
+        MarkAsUpdated();
+    }
+
+    public void Complete(int committedPoints, int completedPoints)
+    {
+        Status = StatusCompleted;
+        CommittedPoints = committedPoints;
+        CompletedPoints = completedPoints;
+        MarkAsUpdated();
+    }
+
+    private void SetDates(DateTime? startDate, DateTime? endDate)
+    {
+        if (startDate.HasValue && endDate.HasValue && endDate.Value < startDate.Value)
+            throw new ArgumentException("Sprint end date must not be before its start date.", nameof(endDate));
+        StartDate = startDate;
+        EndDate = endDate;
+    }
+
+    private void SetCapacity(int? capacityPoints)
+    {
+        if (capacityPoints is < 0)
+            throw new ArgumentException("Capacity cannot be negative.", nameof(capacityPoints));
+        CapacityPoints = capacityPoints;
+    }
+}
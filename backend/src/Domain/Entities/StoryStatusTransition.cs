@@ -0,0 +1,49 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// One status change of a user story, recorded when the change is saved (burndown, cycle-time analytics and audit history).
+/// <see cref="Entity.CreatedAt"/> is when the transition happened.
+/// </summary>
+public class StoryStatusTransition : Entity
+{
+    public const string SourceUser = "User";
+    public const string SourceAgent = "Agent";
+    public const string SourcePrSync = "PrSync";
+    public const string SourceAzureDevOpsSync = "AzureDevOpsSync";
+    public const string SourceGitHubSync = "GitHubSync";
+    /// <summary>Transitions recorded before the source was tracked.</summary>
+    public const string SourceUnknown = "Unknown";
+
+    public Guid UserStoryId { get; private set; }
+    /// <summary>Status before the change; null for the first recorded status.</summary>
+    public string? FromStatus { get; private set; }
+    public string ToStatus { get; private set; }
+    /// <summary>What moved the story: one of the Source* constants.</summary>
+    public string Source { get; private set; }
+    /// <summary>User who made the change or triggered the sync; null for background changes.</summary>
+    public Guid? ChangedByUserId { get; private set; }
+    /// <summary>Pull request linked to the story at the time of the change.</summary>
+    public string? PrUrl { get; private set; }
+
+    private StoryStatusTransition()
+    {
+        ToStatus = null!;
+        Source = null!;
+    }
+
+    public StoryStatusTransition(
+        Guid userStoryId,
+        string? fromStatus,
+        string toStatus,
+        string? source = null,
+        Guid? changedByUserId = null,
+        string? prUrl = null)
+    {
+        UserStoryId = userStoryId;
+        FromStatus = fromStatus;
+        ToStatus = toStatus ?? throw new ArgumentNullException(nameof(toStatus));
+        Source = string.IsNullOrWhiteSpace(source) ? SourceUser : source;
+        ChangedByUserId = changedByUserId;
+        PrUrl = string.IsNullOrWhiteSpace(prUrl) ? null : prUrl;
+    }
+}
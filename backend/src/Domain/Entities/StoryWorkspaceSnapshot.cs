@@ -0,0 +1,48 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Saved sandbox workspace for a user story: the project files (zip kept by the workspace snapshot store,
+/// keyed by <see cref="Entity.Id"/>) and the bridge <c>/all-conversations</c> JSON at snapshot time.
+/// A new sandbox for the story can be seeded from it instead of a fresh clone.
+/// </summary>
+public class StoryWorkspaceSnapshot : Entity
+{
+    /// <summary>Snapshots kept per story; saving another one removes the oldest.</summary>
+    public const int MaxPerStory = 5;
+
+    public Guid UserStoryId { get; private set; }
+    /// <summary>Sandbox the workspace was taken from.</summary>
+    public string SandboxId { get; private set; } = string.Empty;
+    public Guid CreatedByUserId { get; private set; }
+    /// <summary>Git branch checked out in the sandbox, when the bridge reported it.</summary>
+    public string? Branch { get; private set; }
+    public long ArchiveSizeBytes { get; private set; }
+    /// <summary>Full JSON body from the sandbox bridge (conversations, count, flags).</summary>
+    public string ConversationsJson { get; private set; } = string.Empty;
+
+    private StoryWorkspaceSnapshot()
+    {
+    }
+
+    /// <param name="id">Chosen by the caller: the archive is stored under it before the row is saved.</param>
+    public StoryWorkspaceSnapshot(
+        Guid id,
+        Guid userStoryId,
+        string sandboxId,
+        Guid createdByUserId,
+        string? branch,
+        long archiveSizeBytes,
+        string conversationsJson)
+        : base(id)
+    {
+        if (archiveSizeBytes < 0)
+            throw new ArgumentOutOfRangeException(nameof(archiveSizeBytes));
+
+        UserStoryId = userStoryId;
+        SandboxId = sandboxId ?? throw new ArgumentNullException(nameof(sandboxId));
+        CreatedByUserId = createdByUserId;
+        Branch = string.IsNullOrWhiteSpace(branch) ? null : branch.Trim();
+        ArchiveSizeBytes = archiveSizeBytes;
+        ConversationsJson = conversationsJson ?? throw new ArgumentNullException(nameof(conversationsJson));
+    }
+}
@@ -0,0 +1,62 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Tokens (and their cost) of one agent turn in a sandbox, as reported by the bridge on a conversation entry.
+/// Story, epic and repository are copied at record time so totals roll up without walking the backlog.
+/// </summary>
+public class TokenUsageRecord : Entity
+{
+    /// <summary>User whose sandbox ran the turn.</summary>
+    public Guid UserId { get; private set; }
+    public Guid RepositoryId { get; private set; }
+    public Guid? EpicId { get; private set; }
+    public Guid? UserStoryId { get; private set; }
+    /// <summary>DevPilot sandbox container id (UUID string).</summary>
+    public string SandboxId { get; private set; } = string.Empty;
+    /// <summary>
+    /// Bridge conversation entry id; unique per repository so re-polling, or a sandbox resumed from a snapshot
+    /// with the same history, never counts a turn twice.
+    /// </summary>
+    public string TurnId { get; private set; } = string.Empty;
+    public string Model { get; private set; } = string.Empty;
+    public long PromptTokens { get; private set; }
+    public long CompletionTokens { get; private set; }
+    /// <summary>Null when the LLM setting that served the turn has no prices configured.</summary>
+    public decimal? Cost { get; private set; }
+    /// <summary>When the turn finished in the sandbox (UTC).</summary>
+    public DateTime OccurredAt { get; private set; }
+
+    public long TotalTokens => PromptTokens + CompletionTokens;
+
+    private TokenUsageRecord()
+    {
+    }
+
+    public TokenUsageRecord(
+        Guid userId,
+        Guid repositoryId,
+        Guid? epicId,
+        Guid? userStoryId,
+        string sandboxId,
+        string turnId,
+        string model,
+        long promptTokens,
+        long completionTokens,
+        decimal? cost,
+        DateTime occurredAt)
+    {
+        if (promptTokens < 0 || completionTokens < 0)
+            throw new ArgumentOutOfRangeException(nameof(promptTokens), "Token counts cannot be negative.");
+        UserId = userId;
+        RepositoryId = repositoryId;
+        EpicId = epicId;
+        UserStoryId = userStoryId;
+        SandboxId = sandboxId ?? throw new ArgumentNullException(nameof(sandboxId));
+        TurnId = turnId ?? throw new ArgumentNullException(nameof(turnId));
+        Model = model ?? string.Empty;
+        PromptTokens = promptTokens;
+        CompletionTokens = completionTokens;
+        Cost = cost;
+        OccurredAt = occurredAt;
+    }
+}
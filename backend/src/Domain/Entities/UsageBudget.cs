@@ -0,0 +1,71 @@
+namespace DevPilot.Domain.Entities;
+
+/// <summary>
+/// Monthly AI spend budget of a user (calendar month, UTC). Past the soft limit the user is warned;
+/// past the hard limit no new sandbox can be started until the next month.
+/// When <see cref="UserId"/> is null the record is the admin default for every user; otherwise it is that user's budget.
+/// </summary>
+public class UsageBudget : Entity
+{
+    public const string StateOk = "Ok";
+    public const string StateSoftLimitReached = "SoftLimitReached";
+    public const string StateHardLimitReached = "HardLimitReached";
+
+    /// <summary>null for the admin default; user's id for a per-user budget.</summary>
+    public Guid? UserId { get; private set; }
+
+    /// <summary>Spend that triggers a warning; null for none.</summary>
+    public decimal? MonthlySoftLimit { get; private set; }
+
+    /// <summary>Spend that blocks new sandboxes; null for none.</summary>
+    public decimal? MonthlyHardLimit { get; private set; }
+
+    /// <summary>True for the admin default (UserId == null).</summary>
+    public bool IsDefault => UserId == null;
+
+    private UsageBudget() { }
+
+    public UsageBudget(Guid? userId, decimal? monthlySoftLimit, decimal? monthlyHardLimit)
+    {
+        Validate(monthlySoftLimit, monthlyHardLimit);
+        UserId = userId;
+        MonthlySoftLimit = monthlySoftLimit;
+        MonthlyHardLimit = monthlyHardLimit;
+    }
+
+    public void Update(decimal? monthlySoftLimit, decimal? monthlyHardLimit)
+    {
+        Validate(monthlySoftLimit, monthlyHardLimit);
+        MonthlySoftLimit = monthlySoftLimit;
+        MonthlyHardLimit = monthlyHardLimit;
+        MarkAsUpdated();
+    }
+
+    /// <summary><see cref="StateOk"/>, <see cref="StateSoftLimitReached"/> or <see cref="StateHardLimitReached"/>.</summary>
+    public string GetState(decimal spentThisMonth)
+    {
+        if (MonthlyHardLimit is { } hard && spentThisMonth >= hard) return StateHardLimitReached;
+        if (MonthlySoftLimit is { } soft && spentThisMonth >= soft) return StateSoftLimitReached;
+        return StateOk;
+    }
+
+    /// <summary>First instant (UTC) of the budget month containing <paramref name="utcNow"/>.</summary>
+    public static DateTime MonthStart(DateTime utcNow) => new(utcNow.Year, utcNow.Month, 1, 0, 0, 0, DateTimeKind.Utc);
+
+    /// <summary>Null when the values are valid, otherwise a message for the API client.</summary>
+    public static string? GetValidationError(decimal? monthlySoftLimit, decimal? monthlyHardLimit)
+    {
+        if (monthlySoftLimit < 0 || monthlyHardLimit < 0)
+            return "Budget limits cannot be negative.";
+        if (monthlySoftLimit is { } soft && monthlyHardLimit is { } hard && soft > hard)
+            return "The soft limit must not exceed the hard limit.";
+        return null;
+    }
+
+    private static void Validate(decimal? monthlySoftLimit, decimal? monthlyHardLimit)
+    {
+        var error = GetValidationError(monthlySoftLimit, monthlyHardLimit);
+        if (error != null)
+            throw new ArgumentOutOfRangeException(nameof(monthlySoftLimit), error);
+    }
+}
@@ -20,12 +20,31 @@ public class UserStory : Entity
     public int? GitHubIssueNumber { get; private set; }
     /// <summary>Optional named agent rules profile for sandboxes opened from this story.</summary>
     public Guid? RepositoryAgentRuleId { get; private set; }
+    /// <summary>Optional named implementation prompt template; null uses the repository default template.</summary>
+    public Guid? RepositoryPromptTemplateId { get; private set; }
+    /// <summary>Stories of the same repository that must be Done before this one can be implemented.</summary>
+    public List<Guid> DependsOnStoryIds { get; private set; } = new();
+    /// <summary>Sprint the story is committed to; null while it sits in the backlog.</summary>
+    public Guid? SprintId { get; private set; }
+    /// <summary>Outcome of the last pre-PR test run: "Passed", "Failed", or null when the tests never ran.</summary>
+    public string? LastTestStatus { get; private set; }
+    /// <summary>Summary line of the last test run, e.g. "Tests: 42 passed, 1 failed".</summary>
+    public string? LastTestSummary { get; private set; }
+    public DateTime? LastTestRunAt { get; private set; }
+
+    public const int MaxTestSummaryLength = 500;
 
     // Navigation properties
     public Feature Feature { get; private set; } = null!;
     public RepositoryAgentRule? RepositoryAgentRule { get; private set; }
+    public RepositoryPromptTemplate? RepositoryPromptTemplate { get; private set; }
     public List<Task> Tasks { get; private set; } = new();
 
+    private readonly List<StoryStatusTransition> _pendingStatusTransitions = new();
+
+    /// <summary>Status changes not saved yet; the persistence layer stores and clears them on save.</summary>
+    public IReadOnlyList<StoryStatusTransition> PendingStatusTransitions => _pendingStatusTransitions;
+
     private UserStory() { }
 
     public UserStory(
@@ -75,19 +94,26 @@ public class UserStory : Entity
         MarkAsUpdated();
     }
 
-    public void ChangeStatus(string status, string? prUrl = null)
+    /// <param name="source">What made the change (<see cref="StoryStatusTransition"/> Source* constants); defaults to a user.</param>
+    /// <param name="changedByUserId">User who made the change or triggered the sync, when known.</param>
+    public void ChangeStatus(string status, string? prUrl = null, string? source = null, Guid? changedByUserId = null)
     {
         if (string.IsNullOrWhiteSpace(status))
             throw new ArgumentException("Status cannot be null or empty", nameof(status));
 
+        var previousStatus = Status;
         Status = status;
         if (prUrl != null)
         {
             PrUrl = prUrl;
         }
+        if (!string.Equals(previousStatus, status, StringComparison.Ordinal))
+            _pendingStatusTransitions.Add(new StoryStatusTransition(Id, previousStatus, status, source, changedByUserId, PrUrl));
         MarkAsUpdated();
     }
 
+    public void ClearPendingStatusTransitions() => _pendingStatusTransitions.Clear();
+
     public void SetPrUrl(string? prUrl)
     {
         PrUrl = prUrl;
@@ -119,4 +145,32 @@ public class UserStory : Entity
         RepositoryAgentRuleId = id;
         MarkAsUpdated();
     }
+
+    public void SetRepositoryPromptTemplateId(Guid? id)
+    {
+        RepositoryPromptTemplateId = id;
+        MarkAsUpdated();
+    }
+
+    public void SetDependsOn(IEnumerable<Guid> storyIds)
+    {
+        ArgumentNullException.ThrowIfNull(storyIds);
+        DependsOnStoryIds = storyIds.Where(id => id != Id).Distinct().ToList();
+        MarkAsUpdated();
+    }
+
+    public void SetSprintId(Guid? sprintId)
+    {
+        SprintId = sprintId;
+        MarkAsUpdated();
+    }
+
+    public void RecordTestResult(bool passed, string? summary)
+    {
+        LastTestStatus = passed ? "Passed" : "Failed";
+        var trimmed = string.IsNullOrWhiteSpace(summary) ? null : summary.Trim();
+        LastTestSummary = trimmed?.Length > MaxTestSummaryLength ? trimmed[..MaxTestSummaryLength] : trimmed;
+        LastTestRunAt = DateTime.UtcNow;
+        MarkAsUpdated();
+    }
 }
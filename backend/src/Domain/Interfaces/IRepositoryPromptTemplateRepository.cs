@@ -0,0 +1,18 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+public interface IRepositoryPromptTemplateRepository
+{
+    System.Threading.Tasks.Task<IReadOnlyList<RepositoryPromptTemplate>> GetByRepositoryIdAsync(
+        Guid repositoryId,
+        CancellationToken cancellationToken = default);
+
+    System.Threading.Tasks.Task<RepositoryPromptTemplate?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default);
+
+    /// <summary>Replace all templates for a repository (upsert by id, remove missing, null story FKs for deleted).</summary>
+    System.Threading.Tasks.Task ReplaceForRepositoryAsync(
+        Guid repositoryId,
+        IReadOnlyList<(Guid? Id, string Name, string Body, bool IsDefault, int SortOrder)> items,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,22 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Pull request templates, at most one per repository.</summary>
+public interface IRepositoryPullRequestTemplateRepository
+{
+    System.Threading.Tasks.Task<RepositoryPullRequestTemplate?> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default);
+
+    /// <summary>Creates or updates the template of <paramref name="repositoryId"/>.</summary>
+    System.Threading.Tasks.Task<RepositoryPullRequestTemplate> UpsertAsync(
+        Guid repositoryId,
+        string? branchNameTemplate,
+        string? commitMessageTemplate,
+        string? titleTemplate,
+        string? bodyTemplate,
+        string? targetBranch,
+        IReadOnlyList<string> reviewers,
+        IReadOnlyList<string> labels,
+        bool draft,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,20 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Sandbox profiles, at most one per repository.</summary>
+public interface IRepositorySandboxProfileRepository
+{
+    System.Threading.Tasks.Task<RepositorySandboxProfile?> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default);
+
+    /// <summary>Creates or updates the profile of <paramref name="repositoryId"/>.</summary>
+    System.Threading.Tasks.Task<RepositorySandboxProfile> UpsertAsync(
+        Guid repositoryId,
+        IReadOnlyList<string> setupCommands,
+        IReadOnlyDictionary<string, string> environmentVariables,
+        int? previewPort,
+        bool useDevcontainer,
+        string? testCommand,
+        bool blockPullRequestOnTestFailure,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,20 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Sandbox idle auto-shutdown policies: one admin default (UserId null) and optional per-user overrides.</summary>
+public interface ISandboxIdlePolicyRepository
+{
+    System.Threading.Tasks.Task<SandboxIdlePolicy?> GetDefaultAsync(CancellationToken cancellationToken = default);
+    System.Threading.Tasks.Task<SandboxIdlePolicy?> GetByUserIdAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>Creates or updates the policy for <paramref name="userId"/> (null = admin default).</summary>
+    System.Threading.Tasks.Task<SandboxIdlePolicy> UpsertAsync(
+        Guid? userId,
+        int idleMinutes,
+        int warningMinutes,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Removes the user's override so the admin default applies again.</summary>
+    System.Threading.Tasks.Task DeleteByUserIdAsync(Guid userId, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,25 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Read-only share links of running sandboxes.</summary>
+public interface ISandboxViewShareRepository
+{
+    System.Threading.Tasks.Task<SandboxViewShare?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default);
+
+    /// <summary>The share with this token (tokens are unique), active or not.</summary>
+    System.Threading.Tasks.Task<SandboxViewShare?> GetByTokenAsync(
+        string token,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Not revoked and not expired at <paramref name="utcNow"/>, newest first.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<SandboxViewShare>> ListActiveBySandboxIdAsync(
+        string sandboxId,
+        DateTime utcNow,
+        CancellationToken cancellationToken = default);
+
+    System.Threading.Tasks.Task AddAsync(SandboxViewShare share, CancellationToken cancellationToken = default);
+
+    /// <summary>Marks the share revoked; false when it does not exist.</summary>
+    System.Threading.Tasks.Task<bool> RevokeAsync(Guid id, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,14 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+public interface ISprintRepository
+{
+    /// <summary>Sprints of a repository, oldest start date first (undated sprints last).</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<Sprint>> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default);
+    System.Threading.Tasks.Task<Sprint?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default);
+    System.Threading.Tasks.Task<Sprint> AddAsync(Sprint sprint, CancellationToken cancellationToken = default);
+    System.Threading.Tasks.Task UpdateAsync(Sprint sprint, CancellationToken cancellationToken = default);
+    /// <summary>Deletes the sprint; its stories go back to the backlog (sprint FK is set to null).</summary>
+    System.Threading.Tasks.Task DeleteAsync(Sprint sprint, CancellationToken cancellationToken = default);
+}
@@ -12,6 +12,16 @@ public interface IStorySandboxConversationRepository
         Guid userStoryId,
         System.Threading.CancellationToken cancellationToken = default);
 
+    /// <summary>Number of stored sandbox agent runs per story of a repository (stories without runs are omitted).</summary>
+    System.Threading.Tasks.Task<IReadOnlyDictionary<Guid, int>> CountRunsByRepositoryIdAsync(
+        Guid repositoryId,
+        System.Threading.CancellationToken cancellationToken = default);
+
+    /// <summary>Story each of the given sandboxes has worked on (most recently saved snapshot wins).</summary>
+    System.Threading.Tasks.Task<IReadOnlyDictionary<string, Guid>> GetStoryIdsBySandboxIdsAsync(
+        IReadOnlyCollection<string> sandboxIds,
+        System.Threading.CancellationToken cancellationToken = default);
+
     System.Threading.Tasks.Task<DevPilot.Domain.Entities.StorySandboxConversationSnapshot?> GetAsync(
         Guid userStoryId,
         string sandboxId,
@@ -0,0 +1,12 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+public interface IStoryStatusTransitionRepository
+{
+    /// <summary>Status transitions of every story of a repository, oldest first.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<StoryStatusTransition>> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default);
+
+    /// <summary>Status history of one story, newest first.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<StoryStatusTransition>> GetByUserStoryIdAsync(Guid userStoryId, CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,23 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+public interface IStoryWorkspaceSnapshotRepository
+{
+    System.Threading.Tasks.Task<StoryWorkspaceSnapshot?> GetByIdAsync(
+        Guid id,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Newest first.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<StoryWorkspaceSnapshot>> ListByUserStoryIdAsync(
+        Guid userStoryId,
+        CancellationToken cancellationToken = default);
+
+    System.Threading.Tasks.Task AddAsync(
+        StoryWorkspaceSnapshot snapshot,
+        CancellationToken cancellationToken = default);
+
+    System.Threading.Tasks.Task DeleteAsync(
+        Guid id,
+        CancellationToken cancellationToken = default);
+}
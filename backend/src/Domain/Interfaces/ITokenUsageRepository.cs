@@ -0,0 +1,43 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>
+/// Summed usage of a group of agent turns. Grouping keys that do not apply to a query are null.
+/// <paramref name="Cost"/> only counts turns whose LLM setting has prices.
+/// </summary>
+public record TokenUsageTotals(
+    Guid? UserStoryId,
+    Guid? EpicId,
+    Guid? UserId,
+    long PromptTokens,
+    long CompletionTokens,
+    decimal Cost,
+    int Turns);
+
+/// <summary>Per-turn token usage captured from sandbox conversations.</summary>
+public interface ITokenUsageRepository
+{
+    /// <summary>
+    /// Stores the records whose (repository, turn) pair is not stored yet; returns how many were added.
+    /// </summary>
+    System.Threading.Tasks.Task<int> AddNewAsync(
+        IReadOnlyCollection<TokenUsageRecord> records,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Usage of a repository grouped by story, epic and user.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<TokenUsageTotals>> SummarizeByRepositoryIdAsync(
+        Guid repositoryId,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Usage of every user since <paramref name="sinceUtc"/>, one entry per user.</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<TokenUsageTotals>> SummarizeByUserSinceAsync(
+        DateTime sinceUtc,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Usage of one user since <paramref name="sinceUtc"/> across all repositories.</summary>
+    System.Threading.Tasks.Task<TokenUsageTotals> GetUserTotalsSinceAsync(
+        Guid userId,
+        DateTime sinceUtc,
+        CancellationToken cancellationToken = default);
+}
@@ -0,0 +1,23 @@
+namespace DevPilot.Domain.Interfaces;
+
+using DevPilot.Domain.Entities;
+
+/// <summary>Monthly AI spend budgets: one admin default (UserId null) and optional per-user budgets.</summary>
+public interface IUsageBudgetRepository
+{
+    System.Threading.Tasks.Task<UsageBudget?> GetDefaultAsync(CancellationToken cancellationToken = default);
+    System.Threading.Tasks.Task<UsageBudget?> GetByUserIdAsync(Guid userId, CancellationToken cancellationToken = default);
+
+    /// <summary>Per-user budgets (the admin default is excluded).</summary>
+    System.Threading.Tasks.Task<IReadOnlyList<UsageBudget>> ListUserBudgetsAsync(CancellationToken cancellationToken = default);
+
+    /// <summary>Creates or updates the budget for <paramref name="userId"/> (null = admin default).</summary>
+    System.Threading.Tasks.Task<UsageBudget> UpsertAsync(
+        Guid? userId,
+        decimal? monthlySoftLimit,
+        decimal? monthlyHardLimit,
+        CancellationToken cancellationToken = default);
+
+    /// <summary>Removes the user's budget so the admin default applies again.</summary>
+    System.Threading.Tasks.Task DeleteByUserIdAsync(Guid userId, CancellationToken cancellationToken = default);
+}
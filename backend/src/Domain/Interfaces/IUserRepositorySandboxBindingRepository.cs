@@ -17,6 +17,11 @@ public interface IUserRepositorySandboxBindingRepository
         string repoBranch,
         CancellationToken cancellationToken = default);
 
+    /// <summary>Bindings of the given sandboxes, whichever user owns them (fleet view).</summary>
+    Task<IReadOnlyList<UserRepositorySandboxBinding>> GetBySandboxIdsAsync(
+        IReadOnlyCollection<string> sandboxIds,
+        CancellationToken cancellationToken = default);
+
     Task UpsertAsync(
         Guid userId,
         Guid repositoryId,
@@ -256,6 +256,9 @@ public class AzureDevOpsService : IAzureDevOpsService
         string title,
         string? description = null,
         IReadOnlyList<int>? workItemIds = null,
+        IReadOnlyList<string>? reviewers = null,
+        IReadOnlyList<string>? labels = null,
+        bool isDraft = false,
         CancellationToken cancellationToken = default,
         bool useBasicAuth = false)
     {
@@ -272,7 +275,9 @@ public class AzureDevOpsService : IAzureDevOpsService
                 sourceRefName = sourceRef,
                 targetRefName = targetRef,
                 title = title,
-                description = description ?? ""
+                description = description ?? "",
+                isDraft = isDraft,
+                labels = (labels ?? Array.Empty<string>()).Select(l => new { name = l }).ToArray()
             };
 
             var jsonContent = new StringContent(
@@ -345,6 +350,31 @@ public class AzureDevOpsService : IAzureDevOpsService
                 }
             }
 
+            foreach (var reviewer in reviewers ?? Array.Empty<string>())
+            {
+                try
+                {
+                    var reviewerId = await ResolveIdentityIdAsync(httpClient, organization, reviewer, cancellationToken);
+                    if (reviewerId == null)
+                    {
+                        _logger.LogWarning("Reviewer {Reviewer} not found in {Organization}", reviewer, organization);
+                        continue;
+                    }
+                    var reviewerContent = new StringContent(
+                        JsonSerializer.Serialize(new { vote = 0 }),
+                        Encoding.UTF8,
+                        "application/json");
+                    var reviewerUrl = $"https://dev.azure.com/{AzureDevOpsPathSegment(organization, nameof(organization))}/{AzureDevOpsPathSegment(project, nameof(project))}/_apis/git/repositories/{AzureDevOpsPathSegment(repositoryId, nameof(repositoryId))}/pullrequests/{prId}/reviewers/{reviewerId}?api-version={AzureDevOpsApiVersion}";
+                    var reviewerResponse = await httpClient.PutAsync(reviewerUrl, reviewerContent, cancellationToken);
+                    if (!reviewerResponse.IsSuccessStatusCode)
+                        _logger.LogWarning("Failed to add reviewer {Reviewer} to PR {PrId}: {StatusCode}", reviewer, prId, reviewerResponse.StatusCode);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to add reviewer {Reviewer} to PR {PrId}", reviewer, prId);
+                }
+            }
+
             return new AzureDevOpsPullRequestDto
             {
                 PullRequestId = prId,
@@ -973,7 +1003,7 @@ public class AzureDevOpsService : IAzureDevOpsService
             if (chunk.Count == 0) continue;
             var idsParam = string.Join(",", chunk);
             var url =
-                $"https://dev.azure.com/{AzureDevOpsPathSegment(organization, nameof(organization))}/{AzureDevOpsPathSegment(project, nameof(project))}/_apis/wit/workitems?ids={idsParam}&api-version={AzureDevOpsApiVersion}";
+                $"https://dev.azure.com/{AzureDevOpsPathSegment(organization, nameof(organization))}/{AzureDevOpsPathSegment(project, nameof(project))}/_apis/wit/workitems?ids={idsParam}&$expand=relations&api-version={AzureDevOpsApiVersion}";
 
             var response = await httpClient.GetAsync(url, cancellationToken);
             var content = await response.Content.ReadAsStringAsync(cancellationToken);
@@ -1376,24 +1406,39 @@ public class AzureDevOpsService : IAzureDevOpsService
                 dto.ChangedDate = DateTime.Parse(changedProp.GetString() ?? DateTime.UtcNow.ToString());
             }
 
-            // Get child IDs from relations
+            // Get child, predecessor and successor IDs from relations
             if (item.TryGetProperty("relations", out var relations) && relations.ValueKind == JsonValueKind.Array)
             {
+                var relationIndex = -1;
                 foreach (var relation in relations.EnumerateArray())
                 {
-                    if (relation.TryGetProperty("rel", out var relType) && 
-                        relType.GetString() == "System.LinkTypes.Hierarchy-Forward" &&
-                        relation.TryGetProperty("url", out var urlProp))
+                    relationIndex++;
+                    if (!relation.TryGetProperty("rel", out var relType) ||
+                        !relation.TryGetProperty("url", out var urlProp))
                     {
-                        // URL format: https://dev.azure.com/{org}/_apis/wit/workItems/{id}
-                        var url = urlProp.GetString();
-                        if (url != null)
+                        continue;
+                    }
+
+                    var target = relType.GetString() switch
+                    {
+                        "System.LinkTypes.Hierarchy-Forward" => dto.ChildIds,
+                        "System.LinkTypes.Dependency-Reverse" => dto.PredecessorIds,
+                        "System.LinkTypes.Dependency-Forward" => dto.SuccessorIds,
+                        _ => null
+                    };
+                    if (target == null)
+                        continue;
+
+                    // URL format: https://dev.azure.com/{org}/_apis/wit/workItems/{id}
+                    var url = urlProp.GetString();
+                    if (url != null)
+                    {
+                        var lastSlash = url.LastIndexOf('/');
+                        if (lastSlash >= 0 && int.TryParse(url.Substring(lastSlash + 1), out var linkedId))
                         {
-                            var lastSlash = url.LastIndexOf('/');
-                            if (lastSlash >= 0 && int.TryParse(url.Substring(lastSlash + 1), out var childId))
-                            {
-                                dto.ChildIds.Add(childId);
-                            }
+                            target.Add(linkedId);
+                            if (target == dto.PredecessorIds)
+                                dto.PredecessorRelationIndexes[linkedId] = relationIndex;
                         }
                     }
                 }
@@ -1408,6 +1453,21 @@ public class AzureDevOpsService : IAzureDevOpsService
         }
     }
 
+    /// <summary>Identity id of a user or group by email, account name or display name; null when there is no match.</summary>
+    private async System.Threading.Tasks.Task<string?> ResolveIdentityIdAsync(
+        HttpClient httpClient,
+        string organization,
+        string nameOrEmail,
+        CancellationToken cancellationToken)
+    {
+        var url = $"https://vssps.dev.azure.com/{AzureDevOpsPathSegment(organization, nameof(organization))}/_apis/identities?searchFilter=General&filterValue={Uri.EscapeDataString(nameOrEmail)}&queryMembership=None&api-version={AzureDevOpsApiVersion}";
+        var response = await httpClient.GetAsync(url, cancellationToken);
+        if (!response.IsSuccessStatusCode) return null;
+        using var doc = JsonDocument.Parse(await response.Content.ReadAsStringAsync(cancellationToken));
+        if (!doc.RootElement.TryGetProperty("value", out var identities) || identities.GetArrayLength() == 0) return null;
+        return identities[0].TryGetProperty("id", out var id) ? id.GetString() : null;
+    }
+
     private HttpClient CreateHttpClient(string accessToken, bool useBasicAuth = false)
     {
         var httpClient = _httpClientFactory.CreateClient("AzureDevOps");
@@ -124,6 +124,9 @@ public class GitHubService : IGitHubService
         string baseBranch,
         string title,
         string? body = null,
+        IReadOnlyList<string>? reviewers = null,
+        IReadOnlyList<string>? labels = null,
+        bool draft = false,
         CancellationToken cancellationToken = default)
     {
         var client = CreateGitHubClient(accessToken);
@@ -132,11 +135,40 @@ public class GitHubService : IGitHubService
         {
             var prRequest = new NewPullRequest(title, head, baseBranch)
             {
-                Body = body ?? string.Empty
+                Body = body ?? string.Empty,
+                Draft = draft
             };
 
             var pr = await client.PullRequest.Create(owner, repo, prRequest);
 
+            if (reviewers is { Count: > 0 })
+            {
+                // "org/team" (or "@org/team") requests a team review; anything else is a user login.
+                var names = reviewers.Select(r => r.Trim().TrimStart('@')).Where(r => r.Length > 0).ToList();
+                var teams = names.Where(r => r.Contains('/')).Select(r => r[(r.IndexOf('/') + 1)..]).ToList();
+                var users = names.Where(r => !r.Contains('/')).ToList();
+                try
+                {
+                    await client.PullRequest.ReviewRequest.Create(owner, repo, pr.Number, new PullRequestReviewRequest(users, teams));
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to request reviewers for {Owner}/{Repo}#{Number}", owner, repo, pr.Number);
+                }
+            }
+
+            if (labels is { Count: > 0 })
+            {
+                try
+                {
+                    await client.Issue.Labels.AddToIssue(owner, repo, pr.Number, labels.ToArray());
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to add labels to {Owner}/{Repo}#{Number}", owner, repo, pr.Number);
+                }
+            }
+
             return new GitHubPullRequestDto
             {
                 Url = pr.HtmlUrl ?? pr.Url,
@@ -971,4 +1003,51 @@ public class GitHubService : IGitHubService
             throw;
         }
     }
+
+    public async System.Threading.Tasks.Task SetIssueMilestoneAsync(
+        string accessToken,
+        string owner,
+        string repo,
+        int issueNumber,
+        int? milestoneNumber,
+        CancellationToken cancellationToken = default)
+    {
+        var client = CreateGitHubClient(accessToken);
+
+        try
+        {
+            // IssueUpdate serializes a null milestone, which clears it on GitHub
+            await client.Issue.Update(owner, repo, issueNumber, new IssueUpdate { Milestone = milestoneNumber });
+            _logger.LogInformation("Set milestone of GitHub issue {Owner}/{Repo}#{Number} to {Milestone}",
+                owner, repo, issueNumber, milestoneNumber?.ToString() ?? "none");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error setting milestone of GitHub issue {Owner}/{Repo}#{Number}", owner, repo, issueNumber);
+            throw;
+        }
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<GitHubMilestoneDto>> GetMilestonesAsync(
+        string accessToken,
+        string owner,
+        string repo,
+        CancellationToken cancellationToken = default)
+    {
+        var client = CreateGitHubClient(accessToken);
+        var request = new MilestoneRequest { State = ItemStateFilter.All, SortProperty = MilestoneSort.DueDate, SortDirection = SortDirection.Ascending };
+        var milestones = await client.Issue.Milestone.GetAllForRepository(owner, repo, request);
+        return milestones.Select(milestone => new GitHubMilestoneDto
+        {
+            Number = milestone.Number,
+            Title = milestone.Title ?? $"Milestone {milestone.Number}",
+            Description = milestone.Description,
+            State = milestone.State.StringValue,
+            OpenIssues = milestone.OpenIssues,
+            ClosedIssues = milestone.ClosedIssues,
+            DueOn = milestone.DueOn?.DateTime,
+            CreatedAt = milestone.CreatedAt.DateTime,
+            Url = milestone.HtmlUrl
+        }).ToList();
+    }
 }
@@ -0,0 +1,36 @@
+using System;
+using System.Collections.Generic;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Story-to-story "depends on" links (uuid[] of user story ids in the same repository).
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260501120000_AddUserStoryDependencies")]
+public class AddUserStoryDependencies : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.AddColumn<List<Guid>>(
+            name: "depends_on_story_ids",
+            table: "user_stories",
+            type: "uuid[]",
+            nullable: false,
+            defaultValueSql: "'{}'::uuid[]");
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropColumn(
+            name: "depends_on_story_ids",
+            table: "user_stories");
+    }
+}
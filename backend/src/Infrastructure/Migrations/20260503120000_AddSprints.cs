@@ -0,0 +1,93 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Sprints per repository (capacity, ADO iteration / GitHub milestone mapping, velocity snapshot), plus the optional per-story sprint FK.
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260503120000_AddSprints")]
+public class AddSprints : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.AddColumn<Guid>(
+            name: "sprint_id",
+            table: "user_stories",
+            type: "uuid",
+            nullable: true);
+
+        migrationBuilder.CreateTable(
+            name: "sprints",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                repository_id = table.Column<Guid>(type: "uuid", nullable: false),
+                name = table.Column<string>(type: "character varying(128)", maxLength: 128, nullable: false),
+                goal = table.Column<string>(type: "text", nullable: true),
+                start_date = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                end_date = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                capacity_points = table.Column<int>(type: "integer", nullable: true),
+                status = table.Column<string>(type: "character varying(32)", maxLength: 32, nullable: false, defaultValue: "Planned"),
+                azure_devops_iteration_path = table.Column<string>(type: "character varying(512)", maxLength: 512, nullable: true),
+                github_milestone_number = table.Column<int>(type: "integer", nullable: true),
+                committed_points = table.Column<int>(type: "integer", nullable: true),
+                completed_points = table.Column<int>(type: "integer", nullable: true),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_sprints", x => x.id);
+                table.ForeignKey(
+                    name: "FK_sprints_repositories_repository_id",
+                    column: x => x.repository_id,
+                    principalTable: "repositories",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_user_stories_sprint_id",
+            table: "user_stories",
+            column: "sprint_id");
+
+        migrationBuilder.CreateIndex(
+            name: "IX_sprints_repository_id",
+            table: "sprints",
+            column: "repository_id");
+
+        migrationBuilder.AddForeignKey(
+            name: "FK_user_stories_sprints_sprint_id",
+            table: "user_stories",
+            column: "sprint_id",
+            principalTable: "sprints",
+            principalColumn: "id",
+            onDelete: ReferentialAction.SetNull);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropForeignKey(
+            name: "FK_user_stories_sprints_sprint_id",
+            table: "user_stories");
+
+        migrationBuilder.DropTable(
+            name: "sprints");
+
+        migrationBuilder.DropIndex(
+            name: "IX_user_stories_sprint_id",
+            table: "user_stories");
+
+        migrationBuilder.DropColumn(
+            name: "sprint_id",
+            table: "user_stories");
+    }
+}
@@ -0,0 +1,54 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// History of user story status changes (burndown and cycle-time insights).
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260504120000_AddStoryStatusTransitions")]
+public class AddStoryStatusTransitions : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.CreateTable(
+            name: "story_status_transitions",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                user_story_id = table.Column<Guid>(type: "uuid", nullable: false),
+                from_status = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: true),
+                to_status = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_story_status_transitions", x => x.id);
+                table.ForeignKey(
+                    name: "FK_story_status_transitions_user_stories_user_story_id",
+                    column: x => x.user_story_id,
+                    principalTable: "user_stories",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_story_status_transitions_user_story_id",
+            table: "story_status_transitions",
+            column: "user_story_id");
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "story_status_transitions");
+    }
+}
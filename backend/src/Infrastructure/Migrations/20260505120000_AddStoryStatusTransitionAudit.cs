@@ -0,0 +1,56 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Who or what changed a story status (user, agent, PR sync, provider sync) and the linked PR, for the story audit timeline.
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260505120000_AddStoryStatusTransitionAudit")]
+public class AddStoryStatusTransitionAudit : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.AddColumn<string>(
+            name: "source",
+            table: "story_status_transitions",
+            type: "character varying(32)",
+            maxLength: 32,
+            nullable: false,
+            defaultValue: "Unknown");
+
+        migrationBuilder.AddColumn<Guid>(
+            name: "changed_by_user_id",
+            table: "story_status_transitions",
+            type: "uuid",
+            nullable: true);
+
+        migrationBuilder.AddColumn<string>(
+            name: "pr_url",
+            table: "story_status_transitions",
+            type: "text",
+            nullable: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropColumn(
+            name: "source",
+            table: "story_status_transitions");
+
+        migrationBuilder.DropColumn(
+            name: "changed_by_user_id",
+            table: "story_status_transitions");
+
+        migrationBuilder.DropColumn(
+            name: "pr_url",
+            table: "story_status_transitions");
+    }
+}
@@ -0,0 +1,55 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Sandbox idle auto-shutdown policies (admin default and per-user overrides).
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260506120000_AddSandboxIdlePolicies")]
+public class AddSandboxIdlePolicies : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.CreateTable(
+            name: "sandbox_idle_policies",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                user_id = table.Column<Guid>(type: "uuid", nullable: true),
+                idle_minutes = table.Column<int>(type: "integer", nullable: false),
+                warning_minutes = table.Column<int>(type: "integer", nullable: false),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_sandbox_idle_policies", x => x.id);
+                table.ForeignKey(
+                    name: "FK_sandbox_idle_policies_users_user_id",
+                    column: x => x.user_id,
+                    principalTable: "users",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_sandbox_idle_policies_user_id",
+            table: "sandbox_idle_policies",
+            column: "user_id",
+            unique: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "sandbox_idle_policies");
+    }
+}
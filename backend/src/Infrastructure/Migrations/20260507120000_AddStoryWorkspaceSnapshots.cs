@@ -0,0 +1,57 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Story workspace snapshots (archive kept on disk, agent conversations in the row) for resuming a story in a new sandbox.
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260507120000_AddStoryWorkspaceSnapshots")]
+public class AddStoryWorkspaceSnapshots : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.CreateTable(
+            name: "story_workspace_snapshots",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                user_story_id = table.Column<Guid>(type: "uuid", nullable: false),
+                sandbox_id = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                created_by_user_id = table.Column<Guid>(type: "uuid", nullable: false),
+                branch = table.Column<string>(type: "character varying(255)", maxLength: 255, nullable: true),
+                archive_size_bytes = table.Column<long>(type: "bigint", nullable: false),
+                conversations_json = table.Column<string>(type: "text", nullable: false),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_story_workspace_snapshots", x => x.id);
+                table.ForeignKey(
+                    name: "FK_story_workspace_snapshots_user_stories_user_story_id",
+                    column: x => x.user_story_id,
+                    principalTable: "user_stories",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_story_workspace_snapshots_user_story_id",
+            table: "story_workspace_snapshots",
+            column: "user_story_id");
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "story_workspace_snapshots");
+    }
+}
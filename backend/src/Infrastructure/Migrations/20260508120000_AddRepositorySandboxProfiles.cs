@@ -0,0 +1,57 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Per-repository sandbox profiles (setup commands, env vars, preview port, devcontainer support).
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260508120000_AddRepositorySandboxProfiles")]
+public class AddRepositorySandboxProfiles : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.CreateTable(
+            name: "repository_sandbox_profiles",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                repository_id = table.Column<Guid>(type: "uuid", nullable: false),
+                setup_commands = table.Column<string>(type: "text", nullable: false),
+                env_json = table.Column<string>(type: "text", nullable: true),
+                preview_port = table.Column<int>(type: "integer", nullable: true),
+                use_devcontainer = table.Column<bool>(type: "boolean", nullable: false, defaultValue: false),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_repository_sandbox_profiles", x => x.id);
+                table.ForeignKey(
+                    name: "FK_repository_sandbox_profiles_repositories_repository_id",
+                    column: x => x.repository_id,
+                    principalTable: "repositories",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_repository_sandbox_profiles_repository_id",
+            table: "repository_sandbox_profiles",
+            column: "repository_id",
+            unique: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "repository_sandbox_profiles");
+    }
+}
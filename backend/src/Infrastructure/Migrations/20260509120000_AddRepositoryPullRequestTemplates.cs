@@ -0,0 +1,61 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Per-repository pull request templates (branch, commit, title and body templates, target branch, reviewers, labels, draft).
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260509120000_AddRepositoryPullRequestTemplates")]
+public class AddRepositoryPullRequestTemplates : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.CreateTable(
+            name: "repository_pull_request_templates",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                repository_id = table.Column<Guid>(type: "uuid", nullable: false),
+                branch_name_template = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: true),
+                commit_message_template = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: true),
+                title_template = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: true),
+                body_template = table.Column<string>(type: "text", nullable: true),
+                target_branch = table.Column<string>(type: "character varying(200)", maxLength: 200, nullable: true),
+                reviewers = table.Column<string>(type: "text", nullable: false),
+                labels = table.Column<string>(type: "text", nullable: false),
+                draft = table.Column<bool>(type: "boolean", nullable: false, defaultValue: false),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_repository_pull_request_templates", x => x.id);
+                table.ForeignKey(
+                    name: "FK_repository_pull_request_templates_repositories_repository_id",
+                    column: x => x.repository_id,
+                    principalTable: "repositories",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_repository_pull_request_templates_repository_id",
+            table: "repository_pull_request_templates",
+            column: "repository_id",
+            unique: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "repository_pull_request_templates");
+    }
+}
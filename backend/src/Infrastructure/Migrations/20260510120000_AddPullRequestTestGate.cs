@@ -0,0 +1,78 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Test command and fail policy on sandbox profiles, and the last pre-PR test result on user stories.
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260510120000_AddPullRequestTestGate")]
+public class AddPullRequestTestGate : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.AddColumn<string>(
+            name: "test_command",
+            table: "repository_sandbox_profiles",
+            type: "character varying(1000)",
+            maxLength: 1000,
+            nullable: true);
+
+        migrationBuilder.AddColumn<bool>(
+            name: "block_pull_request_on_test_failure",
+            table: "repository_sandbox_profiles",
+            type: "boolean",
+            nullable: false,
+            defaultValue: false);
+
+        migrationBuilder.AddColumn<string>(
+            name: "last_test_status",
+            table: "user_stories",
+            type: "character varying(16)",
+            maxLength: 16,
+            nullable: true);
+
+        migrationBuilder.AddColumn<string>(
+            name: "last_test_summary",
+            table: "user_stories",
+            type: "character varying(500)",
+            maxLength: 500,
+            nullable: true);
+
+        migrationBuilder.AddColumn<DateTime>(
+            name: "last_test_run_at",
+            table: "user_stories",
+            type: "timestamp with time zone",
+            nullable: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropColumn(
+            name: "test_command",
+            table: "repository_sandbox_profiles");
+
+        migrationBuilder.DropColumn(
+            name: "block_pull_request_on_test_failure",
+            table: "repository_sandbox_profiles");
+
+        migrationBuilder.DropColumn(
+            name: "last_test_status",
+            table: "user_stories");
+
+        migrationBuilder.DropColumn(
+            name: "last_test_summary",
+            table: "user_stories");
+
+        migrationBuilder.DropColumn(
+            name: "last_test_run_at",
+            table: "user_stories");
+    }
+}
@@ -0,0 +1,123 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Token prices on LLM settings, per-turn token usage records and monthly AI budgets (admin default and per-user).
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260511120000_AddTokenUsageAndBudgets")]
+public class AddTokenUsageAndBudgets : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.AddColumn<decimal>(
+            name: "input_price_per_million_tokens",
+            table: "llm_settings",
+            type: "numeric(18,6)",
+            precision: 18,
+            scale: 6,
+            nullable: true);
+
+        migrationBuilder.AddColumn<decimal>(
+            name: "output_price_per_million_tokens",
+            table: "llm_settings",
+            type: "numeric(18,6)",
+            precision: 18,
+            scale: 6,
+            nullable: true);
+
+        migrationBuilder.CreateTable(
+            name: "token_usage_records",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                user_id = table.Column<Guid>(type: "uuid", nullable: false),
+                repository_id = table.Column<Guid>(type: "uuid", nullable: false),
+                epic_id = table.Column<Guid>(type: "uuid", nullable: true),
+                user_story_id = table.Column<Guid>(type: "uuid", nullable: true),
+                sandbox_id = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                turn_id = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                model = table.Column<string>(type: "character varying(128)", maxLength: 128, nullable: false),
+                prompt_tokens = table.Column<long>(type: "bigint", nullable: false),
+                completion_tokens = table.Column<long>(type: "bigint", nullable: false),
+                cost = table.Column<decimal>(type: "numeric(18,6)", precision: 18, scale: 6, nullable: true),
+                occurred_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_token_usage_records", x => x.id);
+                table.ForeignKey(
+                    name: "FK_token_usage_records_users_user_id",
+                    column: x => x.user_id,
+                    principalTable: "users",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_token_usage_records_repository_id_turn_id",
+            table: "token_usage_records",
+            columns: new[] { "repository_id", "turn_id" },
+            unique: true);
+
+        migrationBuilder.CreateIndex(
+            name: "IX_token_usage_records_user_id_occurred_at",
+            table: "token_usage_records",
+            columns: new[] { "user_id", "occurred_at" });
+
+        migrationBuilder.CreateTable(
+            name: "usage_budgets",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                user_id = table.Column<Guid>(type: "uuid", nullable: true),
+                monthly_soft_limit = table.Column<decimal>(type: "numeric(18,2)", precision: 18, scale: 2, nullable: true),
+                monthly_hard_limit = table.Column<decimal>(type: "numeric(18,2)", precision: 18, scale: 2, nullable: true),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_usage_budgets", x => x.id);
+                table.ForeignKey(
+                    name: "FK_usage_budgets_users_user_id",
+                    column: x => x.user_id,
+                    principalTable: "users",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_usage_budgets_user_id",
+            table: "usage_budgets",
+            column: "user_id",
+            unique: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "token_usage_records");
+
+        migrationBuilder.DropTable(
+            name: "usage_budgets");
+
+        migrationBuilder.DropColumn(
+            name: "input_price_per_million_tokens",
+            table: "llm_settings");
+
+        migrationBuilder.DropColumn(
+            name: "output_price_per_million_tokens",
+            table: "llm_settings");
+    }
+}
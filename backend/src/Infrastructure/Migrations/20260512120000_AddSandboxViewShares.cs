@@ -0,0 +1,68 @@
+using System;
+using DevPilot.Infrastructure.Persistence;
+using Microsoft.EntityFrameworkCore.Infrastructure;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace DevPilot.Infrastructure.Migrations;
+
+/// <summary>
+/// Read-only share links of running sandboxes (view-only desktop and agent chat), optionally time-limited.
+/// </summary>
+[DbContext(typeof(DevPilotDbContext))]
+[Migration("20260512120000_AddSandboxViewShares")]
+public class AddSandboxViewShares : Migration
+{
+    /// <inheritdoc />
+    protected override void Up(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.CreateTable(
+            name: "sandbox_view_shares",
+            columns: table => new
+            {
+                id = table.Column<Guid>(type: "uuid", nullable: false),
+                sandbox_id = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                created_by_user_id = table.Column<Guid>(type: "uuid", nullable: false),
+                token = table.Column<string>(type: "character varying(64)", maxLength: 64, nullable: false),
+                title = table.Column<string>(type: "character varying(256)", maxLength: 256, nullable: false),
+                expires_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                revoked_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true),
+                created_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: false),
+                updated_at = table.Column<DateTime>(type: "timestamp with time zone", nullable: true)
+            },
+            constraints: table =>
+            {
+                table.PrimaryKey("PK_sandbox_view_shares", x => x.id);
+                table.ForeignKey(
+                    name: "FK_sandbox_view_shares_users_created_by_user_id",
+                    column: x => x.created_by_user_id,
+                    principalTable: "users",
+                    principalColumn: "id",
+                    onDelete: ReferentialAction.Cascade);
+            });
+
+        migrationBuilder.CreateIndex(
+            name: "IX_sandbox_view_shares_created_by_user_id",
+            table: "sandbox_view_shares",
+            column: "created_by_user_id");
+
+        migrationBuilder.CreateIndex(
+            name: "IX_sandbox_view_shares_sandbox_id",
+            table: "sandbox_view_shares",
+            column: "sandbox_id");
+
+        migrationBuilder.CreateIndex(
+            name: "IX_sandbox_view_shares_token",
+            table: "sandbox_view_shares",
+            column: "token",
+            unique: true);
+    }
+
+    /// <inheritdoc />
+    protected override void Down(MigrationBuilder migrationBuilder)
+    {
+        migrationBuilder.DropTable(
+            name: "sandbox_view_shares");
+    }
+}
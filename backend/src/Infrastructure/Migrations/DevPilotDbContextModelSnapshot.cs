@@ -1,5 +1,6 @@
 ﻿// <auto-generated />
 using System;
+using System.Collections.Generic;
 using DevPilot.Infrastructure.Persistence;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.EntityFrameworkCore.Infrastructure;
@@ -487,6 +488,11 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("created_at");
 
+                    b.Property<decimal?>("InputPricePerMillionTokens")
+                        .HasPrecision(18, 6)
+                        .HasColumnType("numeric(18,6)")
+                        .HasColumnName("input_price_per_million_tokens");
+
                     b.Property<bool>("IsDefault")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("boolean")
@@ -505,6 +511,11 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasColumnType("character varying(128)")
                         .HasColumnName("name");
 
+                    b.Property<decimal?>("OutputPricePerMillionTokens")
+                        .HasPrecision(18, 6)
+                        .HasColumnType("numeric(18,6)")
+                        .HasColumnName("output_price_per_million_tokens");
+
                     b.Property<string>("Provider")
                         .IsRequired()
                         .HasMaxLength(64)
@@ -715,71 +726,511 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasColumnType("uuid")
                         .HasColumnName("repository_id");
 
-                    b.Property<int>("SortOrder")
-                        .ValueGeneratedOnAdd()
-                        .HasColumnType("integer")
-                        .HasDefaultValue(0)
-                        .HasColumnName("sort_order");
+                    b.Property<int>("SortOrder")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasDefaultValue(0)
+                        .HasColumnName("sort_order");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RepositoryId");
+
+                    b.ToTable("repository_agent_rules", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryPromptTemplate", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<string>("Body")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("body");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<bool>("IsDefault")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false)
+                        .HasColumnName("is_default");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(128)
+                        .HasColumnType("character varying(128)")
+                        .HasColumnName("name");
+
+                    b.Property<Guid>("RepositoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_id");
+
+                    b.Property<int>("SortOrder")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("integer")
+                        .HasDefaultValue(0)
+                        .HasColumnName("sort_order");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RepositoryId");
+
+                    b.ToTable("repository_prompt_templates", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryPullRequestTemplate", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<string>("BodyTemplate")
+                        .HasColumnType("text")
+                        .HasColumnName("body_template");
+
+                    b.Property<string>("BranchNameTemplate")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("branch_name_template");
+
+                    b.Property<string>("CommitMessageTemplate")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("commit_message_template");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<bool>("Draft")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false)
+                        .HasColumnName("draft");
+
+                    b.Property<string>("Labels")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("labels");
+
+                    b.Property<Guid>("RepositoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_id");
+
+                    b.Property<string>("Reviewers")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("reviewers");
+
+                    b.Property<string>("TargetBranch")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("target_branch");
+
+                    b.Property<string>("TitleTemplate")
+                        .HasMaxLength(200)
+                        .HasColumnType("character varying(200)")
+                        .HasColumnName("title_template");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RepositoryId")
+                        .IsUnique();
+
+                    b.ToTable("repository_pull_request_templates", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositorySandboxProfile", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<bool>("BlockPullRequestOnTestFailure")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false)
+                        .HasColumnName("block_pull_request_on_test_failure");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<string>("EnvJson")
+                        .HasColumnType("text")
+                        .HasColumnName("env_json");
+
+                    b.Property<int?>("PreviewPort")
+                        .HasColumnType("integer")
+                        .HasColumnName("preview_port");
+
+                    b.Property<Guid>("RepositoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_id");
+
+                    b.Property<string>("SetupCommands")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("setup_commands");
+
+                    b.Property<string>("TestCommand")
+                        .HasMaxLength(1000)
+                        .HasColumnType("character varying(1000)")
+                        .HasColumnName("test_command");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.Property<bool>("UseDevcontainer")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("boolean")
+                        .HasDefaultValue(false)
+                        .HasColumnName("use_devcontainer");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RepositoryId")
+                        .IsUnique();
+
+                    b.ToTable("repository_sandbox_profiles", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryShare", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<Guid>("RepositoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_id");
+
+                    b.Property<Guid>("SharedWithUserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("shared_with_user_id");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("SharedWithUserId");
+
+                    b.HasIndex("RepositoryId", "SharedWithUserId")
+                        .IsUnique();
+
+                    b.ToTable("repository_shares", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.SandboxIdlePolicy", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<int>("IdleMinutes")
+                        .HasColumnType("integer")
+                        .HasColumnName("idle_minutes");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.Property<Guid?>("UserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("user_id");
+
+                    b.Property<int>("WarningMinutes")
+                        .HasColumnType("integer")
+                        .HasColumnName("warning_minutes");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId")
+                        .IsUnique();
+
+                    b.ToTable("sandbox_idle_policies", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.SandboxViewShare", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<Guid>("CreatedByUserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("created_by_user_id");
+
+                    b.Property<DateTime?>("ExpiresAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("expires_at");
+
+                    b.Property<DateTime?>("RevokedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("revoked_at");
+
+                    b.Property<string>("SandboxId")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("sandbox_id");
+
+                    b.Property<string>("Title")
+                        .IsRequired()
+                        .HasMaxLength(256)
+                        .HasColumnType("character varying(256)")
+                        .HasColumnName("title");
+
+                    b.Property<string>("Token")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("token");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("CreatedByUserId");
+
+                    b.HasIndex("SandboxId");
+
+                    b.HasIndex("Token")
+                        .IsUnique();
+
+                    b.ToTable("sandbox_view_shares", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.Sprint", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<string>("AzureDevOpsIterationPath")
+                        .HasMaxLength(512)
+                        .HasColumnType("character varying(512)")
+                        .HasColumnName("azure_devops_iteration_path");
+
+                    b.Property<int?>("CapacityPoints")
+                        .HasColumnType("integer")
+                        .HasColumnName("capacity_points");
+
+                    b.Property<int?>("CommittedPoints")
+                        .HasColumnType("integer")
+                        .HasColumnName("committed_points");
+
+                    b.Property<int?>("CompletedPoints")
+                        .HasColumnType("integer")
+                        .HasColumnName("completed_points");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<DateTime?>("EndDate")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("end_date");
+
+                    b.Property<int?>("GitHubMilestoneNumber")
+                        .HasColumnType("integer")
+                        .HasColumnName("github_milestone_number");
+
+                    b.Property<string>("Goal")
+                        .HasColumnType("text")
+                        .HasColumnName("goal");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(128)
+                        .HasColumnType("character varying(128)")
+                        .HasColumnName("name");
+
+                    b.Property<Guid>("RepositoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_id");
+
+                    b.Property<DateTime?>("StartDate")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("start_date");
+
+                    b.Property<string>("Status")
+                        .IsRequired()
+                        .ValueGeneratedOnAdd()
+                        .HasMaxLength(32)
+                        .HasColumnType("character varying(32)")
+                        .HasDefaultValue("Planned")
+                        .HasColumnName("status");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RepositoryId");
+
+                    b.ToTable("sprints", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.StorySandboxConversationSnapshot", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<string>("PayloadJson")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("payload_json");
+
+                    b.Property<string>("SandboxId")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("sandbox_id");
 
                     b.Property<DateTime?>("UpdatedAt")
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("updated_at");
 
+                    b.Property<Guid>("UserStoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("user_story_id");
+
                     b.HasKey("Id");
 
-                    b.HasIndex("RepositoryId");
+                    b.HasIndex("UserStoryId", "SandboxId")
+                        .IsUnique();
 
-                    b.ToTable("repository_agent_rules", (string)null);
+                    b.ToTable("story_sandbox_conversation_snapshots", (string)null);
                 });
 
-            modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryShare", b =>
+            modelBuilder.Entity("DevPilot.Domain.Entities.StoryStatusTransition", b =>
                 {
                     b.Property<Guid>("Id")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uuid")
                         .HasColumnName("id");
 
+                    b.Property<Guid?>("ChangedByUserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("changed_by_user_id");
+
                     b.Property<DateTime>("CreatedAt")
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("created_at");
 
-                    b.Property<Guid>("RepositoryId")
-                        .HasColumnType("uuid")
-                        .HasColumnName("repository_id");
+                    b.Property<string>("FromStatus")
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("from_status");
 
-                    b.Property<Guid>("SharedWithUserId")
-                        .HasColumnType("uuid")
-                        .HasColumnName("shared_with_user_id");
+                    b.Property<string>("PrUrl")
+                        .HasColumnType("text")
+                        .HasColumnName("pr_url");
+
+                    b.Property<string>("Source")
+                        .IsRequired()
+                        .HasMaxLength(32)
+                        .HasColumnType("character varying(32)")
+                        .HasColumnName("source");
+
+                    b.Property<string>("ToStatus")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("to_status");
 
                     b.Property<DateTime?>("UpdatedAt")
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("updated_at");
 
-                    b.HasKey("Id");
+                    b.Property<Guid>("UserStoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("user_story_id");
 
-                    b.HasIndex("SharedWithUserId");
+                    b.HasKey("Id");
 
-                    b.HasIndex("RepositoryId", "SharedWithUserId")
-                        .IsUnique();
+                    b.HasIndex("UserStoryId");
 
-                    b.ToTable("repository_shares", (string)null);
+                    b.ToTable("story_status_transitions", (string)null);
                 });
 
-            modelBuilder.Entity("DevPilot.Domain.Entities.StorySandboxConversationSnapshot", b =>
+            modelBuilder.Entity("DevPilot.Domain.Entities.StoryWorkspaceSnapshot", b =>
                 {
                     b.Property<Guid>("Id")
                         .ValueGeneratedOnAdd()
                         .HasColumnType("uuid")
                         .HasColumnName("id");
 
+                    b.Property<long>("ArchiveSizeBytes")
+                        .HasColumnType("bigint")
+                        .HasColumnName("archive_size_bytes");
+
+                    b.Property<string>("Branch")
+                        .HasMaxLength(255)
+                        .HasColumnType("character varying(255)")
+                        .HasColumnName("branch");
+
+                    b.Property<string>("ConversationsJson")
+                        .IsRequired()
+                        .HasColumnType("text")
+                        .HasColumnName("conversations_json");
+
                     b.Property<DateTime>("CreatedAt")
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("created_at");
 
-                    b.Property<string>("PayloadJson")
-                        .IsRequired()
-                        .HasColumnType("text")
-                        .HasColumnName("payload_json");
+                    b.Property<Guid>("CreatedByUserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("created_by_user_id");
 
                     b.Property<string>("SandboxId")
                         .IsRequired()
@@ -797,10 +1248,9 @@ namespace DevPilot.Infrastructure.Migrations
 
                     b.HasKey("Id");
 
-                    b.HasIndex("UserStoryId", "SandboxId")
-                        .IsUnique();
+                    b.HasIndex("UserStoryId");
 
-                    b.ToTable("story_sandbox_conversation_snapshots", (string)null);
+                    b.ToTable("story_workspace_snapshots", (string)null);
                 });
 
             modelBuilder.Entity("DevPilot.Domain.Entities.Task", b =>
@@ -856,6 +1306,119 @@ namespace DevPilot.Infrastructure.Migrations
                     b.ToTable("tasks", (string)null);
                 });
 
+            modelBuilder.Entity("DevPilot.Domain.Entities.TokenUsageRecord", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<long>("CompletionTokens")
+                        .HasColumnType("bigint")
+                        .HasColumnName("completion_tokens");
+
+                    b.Property<decimal?>("Cost")
+                        .HasPrecision(18, 6)
+                        .HasColumnType("numeric(18,6)")
+                        .HasColumnName("cost");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<Guid?>("EpicId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("epic_id");
+
+                    b.Property<string>("Model")
+                        .IsRequired()
+                        .HasMaxLength(128)
+                        .HasColumnType("character varying(128)")
+                        .HasColumnName("model");
+
+                    b.Property<DateTime>("OccurredAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("occurred_at");
+
+                    b.Property<long>("PromptTokens")
+                        .HasColumnType("bigint")
+                        .HasColumnName("prompt_tokens");
+
+                    b.Property<Guid>("RepositoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_id");
+
+                    b.Property<string>("SandboxId")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("sandbox_id");
+
+                    b.Property<string>("TurnId")
+                        .IsRequired()
+                        .HasMaxLength(64)
+                        .HasColumnType("character varying(64)")
+                        .HasColumnName("turn_id");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.Property<Guid>("UserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("user_id");
+
+                    b.Property<Guid?>("UserStoryId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("user_story_id");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("RepositoryId", "TurnId")
+                        .IsUnique();
+
+                    b.HasIndex("UserId", "OccurredAt");
+
+                    b.ToTable("token_usage_records", (string)null);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.UsageBudget", b =>
+                {
+                    b.Property<Guid>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("uuid")
+                        .HasColumnName("id");
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("created_at");
+
+                    b.Property<decimal?>("MonthlyHardLimit")
+                        .HasPrecision(18, 2)
+                        .HasColumnType("numeric(18,2)")
+                        .HasColumnName("monthly_hard_limit");
+
+                    b.Property<decimal?>("MonthlySoftLimit")
+                        .HasPrecision(18, 2)
+                        .HasColumnType("numeric(18,2)")
+                        .HasColumnName("monthly_soft_limit");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("updated_at");
+
+                    b.Property<Guid?>("UserId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("user_id");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("UserId")
+                        .IsUnique();
+
+                    b.ToTable("usage_budgets", (string)null);
+                });
+
             modelBuilder.Entity("DevPilot.Domain.Entities.User", b =>
                 {
                     b.Property<Guid>("Id")
@@ -1001,6 +1564,11 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasColumnType("timestamp with time zone")
                         .HasColumnName("created_at");
 
+                    b.Property<List<Guid>>("DependsOnStoryIds")
+                        .IsRequired()
+                        .HasColumnType("uuid[]")
+                        .HasColumnName("depends_on_story_ids");
+
                     b.Property<string>("Description")
                         .HasColumnType("text")
                         .HasColumnName("description");
@@ -1013,6 +1581,20 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasColumnType("integer")
                         .HasColumnName("github_issue_number");
 
+                    b.Property<DateTime?>("LastTestRunAt")
+                        .HasColumnType("timestamp with time zone")
+                        .HasColumnName("last_test_run_at");
+
+                    b.Property<string>("LastTestStatus")
+                        .HasMaxLength(16)
+                        .HasColumnType("character varying(16)")
+                        .HasColumnName("last_test_status");
+
+                    b.Property<string>("LastTestSummary")
+                        .HasMaxLength(500)
+                        .HasColumnType("character varying(500)")
+                        .HasColumnName("last_test_summary");
+
                     b.Property<string>("PrUrl")
                         .HasColumnType("text");
 
@@ -1020,6 +1602,10 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasColumnType("uuid")
                         .HasColumnName("repository_agent_rule_id");
 
+                    b.Property<Guid?>("RepositoryPromptTemplateId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("repository_prompt_template_id");
+
                     b.Property<string>("Source")
                         .IsRequired()
                         .ValueGeneratedOnAdd()
@@ -1028,6 +1614,10 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasDefaultValue("Manual")
                         .HasColumnName("source");
 
+                    b.Property<Guid?>("SprintId")
+                        .HasColumnType("uuid")
+                        .HasColumnName("sprint_id");
+
                     b.Property<string>("Status")
                         .IsRequired()
                         .HasMaxLength(64)
@@ -1053,6 +1643,10 @@ namespace DevPilot.Infrastructure.Migrations
 
                     b.HasIndex("RepositoryAgentRuleId");
 
+                    b.HasIndex("RepositoryPromptTemplateId");
+
+                    b.HasIndex("SprintId");
+
                     b.ToTable("user_stories", (string)null);
                 });
 
@@ -1170,6 +1764,35 @@ namespace DevPilot.Infrastructure.Migrations
                     b.Navigation("Repository");
                 });
 
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryPromptTemplate", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.Repository", "Repository")
+                        .WithMany("RepositoryPromptTemplates")
+                        .HasForeignKey("RepositoryId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Repository");
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryPullRequestTemplate", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.Repository", null)
+                        .WithMany()
+                        .HasForeignKey("RepositoryId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.RepositorySandboxProfile", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.Repository", null)
+                        .WithMany()
+                        .HasForeignKey("RepositoryId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
             modelBuilder.Entity("DevPilot.Domain.Entities.RepositoryShare", b =>
                 {
                     b.HasOne("DevPilot.Domain.Entities.Repository", null)
@@ -1185,6 +1808,34 @@ namespace DevPilot.Infrastructure.Migrations
                         .IsRequired();
                 });
 
+            modelBuilder.Entity("DevPilot.Domain.Entities.SandboxIdlePolicy", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.User", null)
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.SandboxViewShare", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.User", null)
+                        .WithMany()
+                        .HasForeignKey("CreatedByUserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.Sprint", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.Repository", "Repository")
+                        .WithMany()
+                        .HasForeignKey("RepositoryId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Repository");
+                });
+
             modelBuilder.Entity("DevPilot.Domain.Entities.StorySandboxConversationSnapshot", b =>
                 {
                     b.HasOne("DevPilot.Domain.Entities.UserStory", null)
@@ -1194,6 +1845,24 @@ namespace DevPilot.Infrastructure.Migrations
                         .IsRequired();
                 });
 
+            modelBuilder.Entity("DevPilot.Domain.Entities.StoryStatusTransition", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.UserStory", null)
+                        .WithMany()
+                        .HasForeignKey("UserStoryId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.StoryWorkspaceSnapshot", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.UserStory", null)
+                        .WithMany()
+                        .HasForeignKey("UserStoryId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
             modelBuilder.Entity("DevPilot.Domain.Entities.Task", b =>
                 {
                     b.HasOne("DevPilot.Domain.Entities.UserStory", "UserStory")
@@ -1205,6 +1874,23 @@ namespace DevPilot.Infrastructure.Migrations
                     b.Navigation("UserStory");
                 });
 
+            modelBuilder.Entity("DevPilot.Domain.Entities.TokenUsageRecord", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.User", null)
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+                });
+
+            modelBuilder.Entity("DevPilot.Domain.Entities.UsageBudget", b =>
+                {
+                    b.HasOne("DevPilot.Domain.Entities.User", null)
+                        .WithMany()
+                        .HasForeignKey("UserId")
+                        .OnDelete(DeleteBehavior.Cascade);
+                });
+
             modelBuilder.Entity("DevPilot.Domain.Entities.UserRepositorySandboxBinding", b =>
                 {
                     b.HasOne("DevPilot.Domain.Entities.Repository", null)
@@ -1233,9 +1919,21 @@ namespace DevPilot.Infrastructure.Migrations
                         .HasForeignKey("RepositoryAgentRuleId")
                         .OnDelete(DeleteBehavior.SetNull);
 
+                    b.HasOne("DevPilot.Domain.Entities.RepositoryPromptTemplate", "RepositoryPromptTemplate")
+                        .WithMany()
+                        .HasForeignKey("RepositoryPromptTemplateId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
+                    b.HasOne("DevPilot.Domain.Entities.Sprint", null)
+                        .WithMany()
+                        .HasForeignKey("SprintId")
+                        .OnDelete(DeleteBehavior.SetNull);
+
                     b.Navigation("Feature");
 
                     b.Navigation("RepositoryAgentRule");
+
+                    b.Navigation("RepositoryPromptTemplate");
                 });
 
             modelBuilder.Entity("DevPilot.Domain.Entities.Epic", b =>
@@ -1253,6 +1951,8 @@ namespace DevPilot.Infrastructure.Migrations
                     b.Navigation("Epics");
 
                     b.Navigation("RepositoryAgentRules");
+
+                    b.Navigation("RepositoryPromptTemplates");
                 });
 
             modelBuilder.Entity("DevPilot.Domain.Entities.User", b =>
@@ -18,7 +18,12 @@ public class DevPilotDbContext : DbContext
     public DbSet<Epic> Epics => Set<Epic>();
     public DbSet<Feature> Features => Set<Feature>();
     public DbSet<UserStory> UserStories => Set<UserStory>();
+    public DbSet<StoryStatusTransition> StoryStatusTransitions => Set<StoryStatusTransition>();
     public DbSet<RepositoryAgentRule> RepositoryAgentRules => Set<RepositoryAgentRule>();
+    public DbSet<RepositoryPromptTemplate> RepositoryPromptTemplates => Set<RepositoryPromptTemplate>();
+    public DbSet<RepositorySandboxProfile> RepositorySandboxProfiles => Set<RepositorySandboxProfile>();
+    public DbSet<RepositoryPullRequestTemplate> RepositoryPullRequestTemplates => Set<RepositoryPullRequestTemplate>();
+    public DbSet<Sprint> Sprints => Set<Sprint>();
     public DbSet<GlobalAgentRule> GlobalAgentRules => Set<GlobalAgentRule>();
     public DbSet<Task> Tasks => Set<Task>();
     public DbSet<LinkedProvider> LinkedProviders => Set<LinkedProvider>();
@@ -29,8 +34,13 @@ public class DevPilotDbContext : DbContext
     public DbSet<McpServerConfig> McpServerConfigs => Set<McpServerConfig>();
     public DbSet<ArtifactFeedConfig> ArtifactFeedConfigs => Set<ArtifactFeedConfig>();
     public DbSet<StorySandboxConversationSnapshot> StorySandboxConversationSnapshots => Set<StorySandboxConversationSnapshot>();
+    public DbSet<StoryWorkspaceSnapshot> StoryWorkspaceSnapshots => Set<StoryWorkspaceSnapshot>();
     public DbSet<UserRepositorySandboxBinding> UserRepositorySandboxBindings => Set<UserRepositorySandboxBinding>();
     public DbSet<CodeAskConversationSnapshot> CodeAskConversationSnapshots => Set<CodeAskConversationSnapshot>();
+    public DbSet<SandboxIdlePolicy> SandboxIdlePolicies => Set<SandboxIdlePolicy>();
+    public DbSet<TokenUsageRecord> TokenUsageRecords => Set<TokenUsageRecord>();
+    public DbSet<UsageBudget> UsageBudgets => Set<UsageBudget>();
+    public DbSet<SandboxViewShare> SandboxViewShares => Set<SandboxViewShare>();
 
     protected override void OnModelCreating(ModelBuilder modelBuilder)
     {
@@ -108,6 +118,10 @@ public class DevPilotDbContext : DbContext
                 .WithOne(ar => ar.Repository)
                 .HasForeignKey(ar => ar.RepositoryId)
                 .OnDelete(DeleteBehavior.Cascade);
+            entity.HasMany(e => e.RepositoryPromptTemplates)
+                .WithOne(pt => pt.Repository)
+                .HasForeignKey(pt => pt.RepositoryId)
+                .OnDelete(DeleteBehavior.Cascade);
         });
 
         modelBuilder.Entity<RepositoryAgentRule>(entity =>
@@ -125,6 +139,84 @@ public class DevPilotDbContext : DbContext
             entity.HasIndex(e => e.RepositoryId);
         });
 
+        modelBuilder.Entity<RepositoryPromptTemplate>(entity =>
+        {
+            entity.ToTable("repository_prompt_templates");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.RepositoryId).HasColumnName("repository_id");
+            entity.Property(e => e.Name).HasColumnName("name").HasMaxLength(128);
+            entity.Property(e => e.Body).HasColumnName("body");
+            entity.Property(e => e.IsDefault).HasColumnName("is_default").HasDefaultValue(false);
+            entity.Property(e => e.SortOrder).HasColumnName("sort_order").HasDefaultValue(0);
+            entity.HasIndex(e => e.RepositoryId);
+        });
+
+        modelBuilder.Entity<RepositorySandboxProfile>(entity =>
+        {
+            entity.ToTable("repository_sandbox_profiles");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.RepositoryId).HasColumnName("repository_id");
+            entity.Property(e => e.SetupCommands).HasColumnName("setup_commands").IsRequired();
+            entity.Property(e => e.EnvJson).HasColumnName("env_json");
+            entity.Property(e => e.PreviewPort).HasColumnName("preview_port");
+            entity.Property(e => e.UseDevcontainer).HasColumnName("use_devcontainer").HasDefaultValue(false);
+            entity.Property(e => e.TestCommand).HasColumnName("test_command").HasMaxLength(1000);
+            entity.Property(e => e.BlockPullRequestOnTestFailure).HasColumnName("block_pull_request_on_test_failure").HasDefaultValue(false);
+            entity.HasOne<Repository>().WithMany().HasForeignKey(e => e.RepositoryId).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.RepositoryId).IsUnique();
+        });
+
+        modelBuilder.Entity<RepositoryPullRequestTemplate>(entity =>
+        {
+            entity.ToTable("repository_pull_request_templates");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.RepositoryId).HasColumnName("repository_id");
+            entity.Property(e => e.BranchNameTemplate).HasColumnName("branch_name_template").HasMaxLength(RepositoryPullRequestTemplate.MaxTemplateLength);
+            entity.Property(e => e.CommitMessageTemplate).HasColumnName("commit_message_template").HasMaxLength(RepositoryPullRequestTemplate.MaxTemplateLength);
+            entity.Property(e => e.TitleTemplate).HasColumnName("title_template").HasMaxLength(RepositoryPullRequestTemplate.MaxTemplateLength);
+            entity.Property(e => e.BodyTemplate).HasColumnName("body_template");
+            entity.Property(e => e.TargetBranch).HasColumnName("target_branch").HasMaxLength(RepositoryPullRequestTemplate.MaxTemplateLength);
+            entity.Property(e => e.Reviewers).HasColumnName("reviewers").IsRequired();
+            entity.Property(e => e.Labels).HasColumnName("labels").IsRequired();
+            entity.Property(e => e.Draft).HasColumnName("draft").HasDefaultValue(false);
+            entity.HasOne<Repository>().WithMany().HasForeignKey(e => e.RepositoryId).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.RepositoryId).IsUnique();
+        });
+
+        modelBuilder.Entity<Sprint>(entity =>
+        {
+            entity.ToTable("sprints");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.RepositoryId).HasColumnName("repository_id");
+            entity.Property(e => e.Name).HasColumnName("name").HasMaxLength(128);
+            entity.Property(e => e.Goal).HasColumnName("goal");
+            entity.Property(e => e.StartDate).HasColumnName("start_date");
+            entity.Property(e => e.EndDate).HasColumnName("end_date");
+            entity.Property(e => e.CapacityPoints).HasColumnName("capacity_points");
+            entity.Property(e => e.Status).HasColumnName("status").HasMaxLength(32).HasDefaultValue(Sprint.StatusPlanned);
+            entity.Property(e => e.AzureDevOpsIterationPath).HasColumnName("azure_devops_iteration_path").HasMaxLength(512);
+            entity.Property(e => e.GitHubMilestoneNumber).HasColumnName("github_milestone_number");
+            entity.Property(e => e.CommittedPoints).HasColumnName("committed_points");
+            entity.Property(e => e.CompletedPoints).HasColumnName("completed_points");
+            entity.HasOne(e => e.Repository)
+                .WithMany()
+                .HasForeignKey(e => e.RepositoryId)
+                .OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.RepositoryId);
+        });
+
         modelBuilder.Entity<GlobalAgentRule>(entity =>
         {
             entity.ToTable("global_agent_rules");
@@ -151,10 +243,85 @@ public class DevPilotDbContext : DbContext
             entity.Property(e => e.Model).HasColumnName("model").HasMaxLength(128).IsRequired();
             entity.Property(e => e.BaseUrl).HasColumnName("base_url").HasMaxLength(512);
             entity.Property(e => e.IsDefault).HasColumnName("is_default").HasDefaultValue(false);
+            entity.Property(e => e.InputPricePerMillionTokens).HasColumnName("input_price_per_million_tokens").HasPrecision(18, 6);
+            entity.Property(e => e.OutputPricePerMillionTokens).HasColumnName("output_price_per_million_tokens").HasPrecision(18, 6);
             // Shared providers (UserId = null) have no FK; personal ones cascade-delete with the user.
             entity.HasOne<User>().WithMany().HasForeignKey(e => e.UserId).IsRequired(false).OnDelete(DeleteBehavior.Cascade);
         });
 
+        modelBuilder.Entity<SandboxIdlePolicy>(entity =>
+        {
+            entity.ToTable("sandbox_idle_policies");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.UserId).HasColumnName("user_id").IsRequired(false);
+            entity.Property(e => e.IdleMinutes).HasColumnName("idle_minutes");
+            entity.Property(e => e.WarningMinutes).HasColumnName("warning_minutes");
+            // Admin default (UserId = null) has no FK; personal overrides cascade-delete with the user.
+            entity.HasOne<User>().WithMany().HasForeignKey(e => e.UserId).IsRequired(false).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.UserId).IsUnique();
+        });
+
+        modelBuilder.Entity<UsageBudget>(entity =>
+        {
+            entity.ToTable("usage_budgets");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.UserId).HasColumnName("user_id").IsRequired(false);
+            entity.Property(e => e.MonthlySoftLimit).HasColumnName("monthly_soft_limit").HasPrecision(18, 2);
+            entity.Property(e => e.MonthlyHardLimit).HasColumnName("monthly_hard_limit").HasPrecision(18, 2);
+            // Admin default (UserId = null) has no FK; per-user budgets cascade-delete with the user.
+            entity.HasOne<User>().WithMany().HasForeignKey(e => e.UserId).IsRequired(false).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.UserId).IsUnique();
+        });
+
+        modelBuilder.Entity<SandboxViewShare>(entity =>
+        {
+            entity.ToTable("sandbox_view_shares");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.SandboxId).HasColumnName("sandbox_id").HasMaxLength(64).IsRequired();
+            entity.Property(e => e.CreatedByUserId).HasColumnName("created_by_user_id");
+            entity.Property(e => e.Token).HasColumnName("token").HasMaxLength(64).IsRequired();
+            entity.Property(e => e.Title).HasColumnName("title").HasMaxLength(SandboxViewShare.MaxTitleLength).IsRequired();
+            entity.Property(e => e.ExpiresAt).HasColumnName("expires_at");
+            entity.Property(e => e.RevokedAt).HasColumnName("revoked_at");
+            entity.HasOne<User>().WithMany().HasForeignKey(e => e.CreatedByUserId).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.Token).IsUnique();
+            entity.HasIndex(e => e.SandboxId);
+        });
+
+        modelBuilder.Entity<TokenUsageRecord>(entity =>
+        {
+            entity.ToTable("token_usage_records");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.UserId).HasColumnName("user_id");
+            entity.Property(e => e.RepositoryId).HasColumnName("repository_id");
+            entity.Property(e => e.EpicId).HasColumnName("epic_id");
+            entity.Property(e => e.UserStoryId).HasColumnName("user_story_id");
+            entity.Property(e => e.SandboxId).HasColumnName("sandbox_id").HasMaxLength(64).IsRequired();
+            entity.Property(e => e.TurnId).HasColumnName("turn_id").HasMaxLength(64).IsRequired();
+            entity.Property(e => e.Model).HasColumnName("model").HasMaxLength(128).IsRequired();
+            entity.Property(e => e.PromptTokens).HasColumnName("prompt_tokens");
+            entity.Property(e => e.CompletionTokens).HasColumnName("completion_tokens");
+            entity.Property(e => e.Cost).HasColumnName("cost").HasPrecision(18, 6);
+            entity.Property(e => e.OccurredAt).HasColumnName("occurred_at");
+            entity.Ignore(e => e.TotalTokens);
+            // No FK to stories, epics or repositories: spend still counts against the month's budget after they are deleted.
+            entity.HasOne<User>().WithMany().HasForeignKey(e => e.UserId).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => new { e.RepositoryId, e.TurnId }).IsUnique();
+            entity.HasIndex(e => new { e.UserId, e.OccurredAt });
+        });
+
         modelBuilder.Entity<McpServerConfig>(entity =>
         {
             entity.ToTable("mcp_server_configs");
@@ -244,6 +411,7 @@ public class DevPilotDbContext : DbContext
         modelBuilder.Entity<UserStory>(entity =>
         {
             entity.ToTable("user_stories");
+            entity.Ignore(e => e.PendingStatusTransitions);
             entity.HasKey(e => e.Id);
             entity.Property(e => e.Id).HasColumnName("id");
             entity.Property(e => e.CreatedAt).HasColumnName("created_at");
@@ -257,14 +425,45 @@ public class DevPilotDbContext : DbContext
             entity.Property(e => e.AzureDevOpsWorkItemId).HasColumnName("azure_devops_work_item_id");
             entity.Property(e => e.GitHubIssueNumber).HasColumnName("github_issue_number");
             entity.Property(e => e.RepositoryAgentRuleId).HasColumnName("repository_agent_rule_id");
+            entity.Property(e => e.RepositoryPromptTemplateId).HasColumnName("repository_prompt_template_id");
+            entity.Property(e => e.DependsOnStoryIds).HasColumnName("depends_on_story_ids");
+            entity.Property(e => e.SprintId).HasColumnName("sprint_id");
+            entity.Property(e => e.LastTestStatus).HasColumnName("last_test_status").HasMaxLength(16);
+            entity.Property(e => e.LastTestSummary).HasColumnName("last_test_summary").HasMaxLength(500);
+            entity.Property(e => e.LastTestRunAt).HasColumnName("last_test_run_at");
             entity.HasOne(e => e.Feature).WithMany(f => f.UserStories).HasForeignKey(e => e.FeatureId).OnDelete(DeleteBehavior.Cascade);
             entity.HasOne(e => e.RepositoryAgentRule)
                 .WithMany()
                 .HasForeignKey(e => e.RepositoryAgentRuleId)
                 .OnDelete(DeleteBehavior.SetNull);
+            entity.HasOne(e => e.RepositoryPromptTemplate)
+                .WithMany()
+                .HasForeignKey(e => e.RepositoryPromptTemplateId)
+                .OnDelete(DeleteBehavior.SetNull);
+            entity.HasOne<Sprint>()
+                .WithMany()
+                .HasForeignKey(e => e.SprintId)
+                .OnDelete(DeleteBehavior.SetNull);
             entity.HasMany(e => e.Tasks).WithOne(t => t.UserStory).HasForeignKey(t => t.UserStoryId).OnDelete(DeleteBehavior.Cascade);
         });
 
+        modelBuilder.Entity<StoryStatusTransition>(entity =>
+        {
+            entity.ToTable("story_status_transitions");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.UserStoryId).HasColumnName("user_story_id");
+            entity.Property(e => e.FromStatus).HasColumnName("from_status").HasMaxLength(64);
+            entity.Property(e => e.ToStatus).HasColumnName("to_status").HasMaxLength(64).IsRequired();
+            entity.Property(e => e.Source).HasColumnName("source").HasMaxLength(32).IsRequired();
+            entity.Property(e => e.ChangedByUserId).HasColumnName("changed_by_user_id");
+            entity.Property(e => e.PrUrl).HasColumnName("pr_url");
+            entity.HasOne<UserStory>().WithMany().HasForeignKey(e => e.UserStoryId).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.UserStoryId);
+        });
+
         modelBuilder.Entity<StorySandboxConversationSnapshot>(entity =>
         {
             entity.ToTable("story_sandbox_conversation_snapshots");
@@ -279,6 +478,23 @@ public class DevPilotDbContext : DbContext
             entity.HasIndex(e => new { e.UserStoryId, e.SandboxId }).IsUnique();
         });
 
+        modelBuilder.Entity<StoryWorkspaceSnapshot>(entity =>
+        {
+            entity.ToTable("story_workspace_snapshots");
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Id).HasColumnName("id");
+            entity.Property(e => e.CreatedAt).HasColumnName("created_at");
+            entity.Property(e => e.UpdatedAt).HasColumnName("updated_at");
+            entity.Property(e => e.UserStoryId).HasColumnName("user_story_id");
+            entity.Property(e => e.SandboxId).HasColumnName("sandbox_id").HasMaxLength(64).IsRequired();
+            entity.Property(e => e.CreatedByUserId).HasColumnName("created_by_user_id");
+            entity.Property(e => e.Branch).HasColumnName("branch").HasMaxLength(255);
+            entity.Property(e => e.ArchiveSizeBytes).HasColumnName("archive_size_bytes");
+            entity.Property(e => e.ConversationsJson).HasColumnName("conversations_json").IsRequired();
+            entity.HasOne<UserStory>().WithMany().HasForeignKey(e => e.UserStoryId).OnDelete(DeleteBehavior.Cascade);
+            entity.HasIndex(e => e.UserStoryId);
+        });
+
         modelBuilder.Entity<Task>(entity =>
         {
             entity.ToTable("tasks");
@@ -370,4 +586,34 @@ public class DevPilotDbContext : DbContext
             entity.HasOne<Repository>().WithMany().HasForeignKey(e => e.RepositoryId).OnDelete(DeleteBehavior.Cascade);
         });
     }
+
+    public override int SaveChanges(bool acceptAllChangesOnSuccess)
+    {
+        AddPendingStatusTransitions();
+        return base.SaveChanges(acceptAllChangesOnSuccess);
+    }
+
+    public override System.Threading.Tasks.Task<int> SaveChangesAsync(bool acceptAllChangesOnSuccess, CancellationToken cancellationToken = default)
+    {
+        AddPendingStatusTransitions();
+        return base.SaveChangesAsync(acceptAllChangesOnSuccess, cancellationToken);
+    }
+
+    /// <summary>
+    /// Stores the status changes recorded by <see cref="UserStory.ChangeStatus"/> on every story being saved,
+    /// whichever handler or sync path changed it.
+    /// </summary>
+    private void AddPendingStatusTransitions()
+    {
+        var stories = ChangeTracker.Entries<UserStory>()
+            .Where(e => e.State is EntityState.Added or EntityState.Modified)
+            .Select(e => e.Entity)
+            .Where(s => s.PendingStatusTransitions.Count > 0)
+            .ToList();
+        foreach (var story in stories)
+        {
+            StoryStatusTransitions.AddRange(story.PendingStatusTransitions);
+            story.ClearPendingStatusTransitions();
+        }
+    }
 }
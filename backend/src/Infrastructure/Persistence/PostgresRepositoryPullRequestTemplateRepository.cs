@@ -0,0 +1,51 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresRepositoryPullRequestTemplateRepository : IRepositoryPullRequestTemplateRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresRepositoryPullRequestTemplateRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<RepositoryPullRequestTemplate?> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default)
+    {
+        return await _context.RepositoryPullRequestTemplates
+            .AsNoTracking()
+            .FirstOrDefaultAsync(t => t.RepositoryId == repositoryId, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<RepositoryPullRequestTemplate> UpsertAsync(
+        Guid repositoryId,
+        string? branchNameTemplate,
+        string? commitMessageTemplate,
+        string? titleTemplate,
+        string? bodyTemplate,
+        string? targetBranch,
+        IReadOnlyList<string> reviewers,
+        IReadOnlyList<string> labels,
+        bool draft,
+        CancellationToken cancellationToken = default)
+    {
+        var tracked = await _context.RepositoryPullRequestTemplates
+            .FirstOrDefaultAsync(t => t.RepositoryId == repositoryId, cancellationToken);
+        if (tracked is null)
+        {
+            tracked = new RepositoryPullRequestTemplate(
+                repositoryId, branchNameTemplate, commitMessageTemplate, titleTemplate, bodyTemplate, targetBranch, reviewers, labels, draft);
+            _context.RepositoryPullRequestTemplates.Add(tracked);
+        }
+        else
+        {
+            tracked.Update(branchNameTemplate, commitMessageTemplate, titleTemplate, bodyTemplate, targetBranch, reviewers, labels, draft);
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+        return tracked;
+    }
+}
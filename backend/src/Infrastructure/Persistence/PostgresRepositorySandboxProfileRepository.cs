@@ -0,0 +1,49 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresRepositorySandboxProfileRepository : IRepositorySandboxProfileRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresRepositorySandboxProfileRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<RepositorySandboxProfile?> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default)
+    {
+        return await _context.RepositorySandboxProfiles
+            .AsNoTracking()
+            .FirstOrDefaultAsync(p => p.RepositoryId == repositoryId, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<RepositorySandboxProfile> UpsertAsync(
+        Guid repositoryId,
+        IReadOnlyList<string> setupCommands,
+        IReadOnlyDictionary<string, string> environmentVariables,
+        int? previewPort,
+        bool useDevcontainer,
+        string? testCommand,
+        bool blockPullRequestOnTestFailure,
+        CancellationToken cancellationToken = default)
+    {
+        var tracked = await _context.RepositorySandboxProfiles
+            .FirstOrDefaultAsync(p => p.RepositoryId == repositoryId, cancellationToken);
+        if (tracked is null)
+        {
+            tracked = new RepositorySandboxProfile(
+                repositoryId, setupCommands, environmentVariables, previewPort, useDevcontainer, testCommand, blockPullRequestOnTestFailure);
+            _context.RepositorySandboxProfiles.Add(tracked);
+        }
+        else
+        {
+            tracked.Update(setupCommands, environmentVariables, previewPort, useDevcontainer, testCommand, blockPullRequestOnTestFailure);
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+        return tracked;
+    }
+}
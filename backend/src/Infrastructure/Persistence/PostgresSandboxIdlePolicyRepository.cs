@@ -0,0 +1,64 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresSandboxIdlePolicyRepository : ISandboxIdlePolicyRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresSandboxIdlePolicyRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<SandboxIdlePolicy?> GetDefaultAsync(CancellationToken cancellationToken = default)
+    {
+        return await _context.SandboxIdlePolicies
+            .AsNoTracking()
+            .Where(p => p.UserId == null)
+            .OrderByDescending(p => p.UpdatedAt ?? p.CreatedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<SandboxIdlePolicy?> GetByUserIdAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        return await _context.SandboxIdlePolicies
+            .AsNoTracking()
+            .FirstOrDefaultAsync(p => p.UserId == userId, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<SandboxIdlePolicy> UpsertAsync(
+        Guid? userId,
+        int idleMinutes,
+        int warningMinutes,
+        CancellationToken cancellationToken = default)
+    {
+        var tracked = await _context.SandboxIdlePolicies
+            .Where(p => p.UserId == userId)
+            .OrderByDescending(p => p.UpdatedAt ?? p.CreatedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+        if (tracked is null)
+        {
+            tracked = new SandboxIdlePolicy(userId, idleMinutes, warningMinutes);
+            _context.SandboxIdlePolicies.Add(tracked);
+        }
+        else
+        {
+            tracked.Update(idleMinutes, warningMinutes);
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+        return tracked;
+    }
+
+    public async System.Threading.Tasks.Task DeleteByUserIdAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var entity = await _context.SandboxIdlePolicies
+            .FirstOrDefaultAsync(p => p.UserId == userId, cancellationToken);
+        if (entity is null) return;
+        _context.SandboxIdlePolicies.Remove(entity);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+}
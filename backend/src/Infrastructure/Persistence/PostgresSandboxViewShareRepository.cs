@@ -0,0 +1,59 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresSandboxViewShareRepository : ISandboxViewShareRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresSandboxViewShareRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<SandboxViewShare?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await _context.SandboxViewShares
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<SandboxViewShare?> GetByTokenAsync(
+        string token,
+        CancellationToken cancellationToken = default)
+    {
+        return await _context.SandboxViewShares
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.Token == token, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<SandboxViewShare>> ListActiveBySandboxIdAsync(
+        string sandboxId,
+        DateTime utcNow,
+        CancellationToken cancellationToken = default)
+    {
+        return await _context.SandboxViewShares
+            .AsNoTracking()
+            .Where(s => s.SandboxId == sandboxId && s.RevokedAt == null && (s.ExpiresAt == null || s.ExpiresAt > utcNow))
+            .OrderByDescending(s => s.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task AddAsync(SandboxViewShare share, CancellationToken cancellationToken = default)
+    {
+        _context.SandboxViewShares.Add(share);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<bool> RevokeAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        var share = await _context.SandboxViewShares.FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+        if (share is null)
+            return false;
+        share.Revoke();
+        await _context.SaveChangesAsync(cancellationToken);
+        return true;
+    }
+}
@@ -0,0 +1,54 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresSprintRepository : ISprintRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresSprintRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<Sprint>> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default)
+    {
+        return await _context.Sprints
+            .AsNoTracking()
+            .Where(s => s.RepositoryId == repositoryId)
+            .OrderBy(s => s.StartDate == null)
+            .ThenBy(s => s.StartDate)
+            .ThenBy(s => s.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<Sprint?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await _context.Sprints.FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<Sprint> AddAsync(Sprint sprint, CancellationToken cancellationToken = default)
+    {
+        _context.Sprints.Add(sprint);
+        await _context.SaveChangesAsync(cancellationToken);
+        return sprint;
+    }
+
+    public async System.Threading.Tasks.Task UpdateAsync(Sprint sprint, CancellationToken cancellationToken = default)
+    {
+        _context.Sprints.Update(sprint);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task DeleteAsync(Sprint sprint, CancellationToken cancellationToken = default)
+    {
+        var toDelete = await _context.Sprints.FindAsync(new object[] { sprint.Id }, cancellationToken);
+        if (toDelete != null)
+        {
+            _context.Sprints.Remove(toDelete);
+            await _context.SaveChangesAsync(cancellationToken);
+        }
+    }
+}
@@ -39,6 +39,37 @@ public class PostgresStorySandboxConversationRepository : IStorySandboxConversat
             .ToListAsync(cancellationToken);
     }
 
+    public async System.Threading.Tasks.Task<IReadOnlyDictionary<Guid, int>> CountRunsByRepositoryIdAsync(
+        Guid repositoryId,
+        CancellationToken cancellationToken = default)
+    {
+        return await (
+                from x in _context.StorySandboxConversationSnapshots.AsNoTracking()
+                join s in _context.UserStories on x.UserStoryId equals s.Id
+                where s.Feature.Epic.RepositoryId == repositoryId
+                group x by x.UserStoryId into g
+                select new { UserStoryId = g.Key, Runs = g.Count() })
+            .ToDictionaryAsync(g => g.UserStoryId, g => g.Runs, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyDictionary<string, Guid>> GetStoryIdsBySandboxIdsAsync(
+        IReadOnlyCollection<string> sandboxIds,
+        CancellationToken cancellationToken = default)
+    {
+        if (sandboxIds.Count == 0) return new Dictionary<string, Guid>();
+        var rows = await _context.StorySandboxConversationSnapshots
+            .AsNoTracking()
+            .Where(x => sandboxIds.Contains(x.SandboxId))
+            .OrderBy(x => x.UpdatedAt ?? x.CreatedAt)
+            .Select(x => new { x.SandboxId, x.UserStoryId })
+            .ToListAsync(cancellationToken);
+
+        var result = new Dictionary<string, Guid>(StringComparer.Ordinal);
+        foreach (var row in rows)
+            result[row.SandboxId] = row.UserStoryId;
+        return result;
+    }
+
     public async System.Threading.Tasks.Task<StorySnapshot?> GetAsync(
         Guid userStoryId,
         string sandboxId,
@@ -0,0 +1,38 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+/// <summary>
+/// Reads story status history; rows are written by <see cref="DevPilotDbContext"/> when stories are saved.
+/// </summary>
+public class PostgresStoryStatusTransitionRepository : IStoryStatusTransitionRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresStoryStatusTransitionRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<StoryStatusTransition>> GetByRepositoryIdAsync(Guid repositoryId, CancellationToken cancellationToken = default)
+    {
+        return await (
+                from t in _context.StoryStatusTransitions.AsNoTracking()
+                join s in _context.UserStories on t.UserStoryId equals s.Id
+                where s.Feature.Epic.RepositoryId == repositoryId
+                orderby t.CreatedAt
+                select t)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<StoryStatusTransition>> GetByUserStoryIdAsync(Guid userStoryId, CancellationToken cancellationToken = default)
+    {
+        return await _context.StoryStatusTransitions
+            .AsNoTracking()
+            .Where(t => t.UserStoryId == userStoryId)
+            .OrderByDescending(t => t.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+}
@@ -0,0 +1,48 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresStoryWorkspaceSnapshotRepository : IStoryWorkspaceSnapshotRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresStoryWorkspaceSnapshotRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<StoryWorkspaceSnapshot?> GetByIdAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        return await _context.StoryWorkspaceSnapshots
+            .AsNoTracking()
+            .FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<StoryWorkspaceSnapshot>> ListByUserStoryIdAsync(
+        Guid userStoryId,
+        CancellationToken cancellationToken = default)
+    {
+        return await _context.StoryWorkspaceSnapshots
+            .AsNoTracking()
+            .Where(s => s.UserStoryId == userStoryId)
+            .OrderByDescending(s => s.CreatedAt)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task AddAsync(StoryWorkspaceSnapshot snapshot, CancellationToken cancellationToken = default)
+    {
+        _context.StoryWorkspaceSnapshots.Add(snapshot);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task DeleteAsync(Guid id, CancellationToken cancellationToken = default)
+    {
+        var existing = await _context.StoryWorkspaceSnapshots.FirstOrDefaultAsync(s => s.Id == id, cancellationToken);
+        if (existing is null)
+            return;
+        _context.StoryWorkspaceSnapshots.Remove(existing);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+}
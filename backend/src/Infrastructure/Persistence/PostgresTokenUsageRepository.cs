@@ -0,0 +1,101 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresTokenUsageRepository : ITokenUsageRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresTokenUsageRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<int> AddNewAsync(
+        IReadOnlyCollection<TokenUsageRecord> records,
+        CancellationToken cancellationToken = default)
+    {
+        if (records.Count == 0) return 0;
+        var repositoryIds = records.Select(r => r.RepositoryId).Distinct().ToList();
+        var turnIds = records.Select(r => r.TurnId).Distinct().ToList();
+        var existing = await _context.TokenUsageRecords
+            .AsNoTracking()
+            .Where(r => repositoryIds.Contains(r.RepositoryId) && turnIds.Contains(r.TurnId))
+            .Select(r => new { r.RepositoryId, r.TurnId })
+            .ToListAsync(cancellationToken);
+        var known = existing.Select(r => (r.RepositoryId, r.TurnId)).ToHashSet();
+
+        var added = 0;
+        foreach (var record in records)
+        {
+            if (!known.Add((record.RepositoryId, record.TurnId))) continue;
+            _context.TokenUsageRecords.Add(record);
+            added++;
+        }
+
+        if (added > 0)
+            await _context.SaveChangesAsync(cancellationToken);
+        return added;
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<TokenUsageTotals>> SummarizeByRepositoryIdAsync(
+        Guid repositoryId,
+        CancellationToken cancellationToken = default)
+    {
+        return await _context.TokenUsageRecords
+            .AsNoTracking()
+            .Where(r => r.RepositoryId == repositoryId)
+            .GroupBy(r => new { r.UserStoryId, r.EpicId, r.UserId })
+            .Select(g => new TokenUsageTotals(
+                g.Key.UserStoryId,
+                g.Key.EpicId,
+                g.Key.UserId,
+                g.Sum(r => r.PromptTokens),
+                g.Sum(r => r.CompletionTokens),
+                g.Sum(r => r.Cost ?? 0m),
+                g.Count()))
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<TokenUsageTotals>> SummarizeByUserSinceAsync(
+        DateTime sinceUtc,
+        CancellationToken cancellationToken = default)
+    {
+        return await _context.TokenUsageRecords
+            .AsNoTracking()
+            .Where(r => r.OccurredAt >= sinceUtc)
+            .GroupBy(r => r.UserId)
+            .Select(g => new TokenUsageTotals(
+                null,
+                null,
+                g.Key,
+                g.Sum(r => r.PromptTokens),
+                g.Sum(r => r.CompletionTokens),
+                g.Sum(r => r.Cost ?? 0m),
+                g.Count()))
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<TokenUsageTotals> GetUserTotalsSinceAsync(
+        Guid userId,
+        DateTime sinceUtc,
+        CancellationToken cancellationToken = default)
+    {
+        var totals = await _context.TokenUsageRecords
+            .AsNoTracking()
+            .Where(r => r.UserId == userId && r.OccurredAt >= sinceUtc)
+            .GroupBy(r => r.UserId)
+            .Select(g => new TokenUsageTotals(
+                null,
+                null,
+                g.Key,
+                g.Sum(r => r.PromptTokens),
+                g.Sum(r => r.CompletionTokens),
+                g.Sum(r => r.Cost ?? 0m),
+                g.Count()))
+            .FirstOrDefaultAsync(cancellationToken);
+        return totals ?? new TokenUsageTotals(null, null, userId, 0, 0, 0m, 0);
+    }
+}
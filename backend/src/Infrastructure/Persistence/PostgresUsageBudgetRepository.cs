@@ -0,0 +1,72 @@
+namespace DevPilot.Infrastructure.Persistence;
+
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.EntityFrameworkCore;
+
+public class PostgresUsageBudgetRepository : IUsageBudgetRepository
+{
+    private readonly DevPilotDbContext _context;
+
+    public PostgresUsageBudgetRepository(DevPilotDbContext context)
+    {
+        _context = context ?? throw new ArgumentNullException(nameof(context));
+    }
+
+    public async System.Threading.Tasks.Task<UsageBudget?> GetDefaultAsync(CancellationToken cancellationToken = default)
+    {
+        return await _context.UsageBudgets
+            .AsNoTracking()
+            .Where(b => b.UserId == null)
+            .OrderByDescending(b => b.UpdatedAt ?? b.CreatedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<UsageBudget?> GetByUserIdAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        return await _context.UsageBudgets
+            .AsNoTracking()
+            .FirstOrDefaultAsync(b => b.UserId == userId, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<IReadOnlyList<UsageBudget>> ListUserBudgetsAsync(CancellationToken cancellationToken = default)
+    {
+        return await _context.UsageBudgets
+            .AsNoTracking()
+            .Where(b => b.UserId != null)
+            .ToListAsync(cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<UsageBudget> UpsertAsync(
+        Guid? userId,
+        decimal? monthlySoftLimit,
+        decimal? monthlyHardLimit,
+        CancellationToken cancellationToken = default)
+    {
+        var tracked = await _context.UsageBudgets
+            .Where(b => b.UserId == userId)
+            .OrderByDescending(b => b.UpdatedAt ?? b.CreatedAt)
+            .FirstOrDefaultAsync(cancellationToken);
+        if (tracked is null)
+        {
+            tracked = new UsageBudget(userId, monthlySoftLimit, monthlyHardLimit);
+            _context.UsageBudgets.Add(tracked);
+        }
+        else
+        {
+            tracked.Update(monthlySoftLimit, monthlyHardLimit);
+        }
+
+        await _context.SaveChangesAsync(cancellationToken);
+        return tracked;
+    }
+
+    public async System.Threading.Tasks.Task DeleteByUserIdAsync(Guid userId, CancellationToken cancellationToken = default)
+    {
+        var entity = await _context.UsageBudgets
+            .FirstOrDefaultAsync(b => b.UserId == userId, cancellationToken);
+        if (entity is null) return;
+        _context.UsageBudgets.Remove(entity);
+        await _context.SaveChangesAsync(cancellationToken);
+    }
+}
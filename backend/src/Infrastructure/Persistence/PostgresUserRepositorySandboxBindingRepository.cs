@@ -41,6 +41,17 @@ public class PostgresUserRepositorySandboxBindingRepository : IUserRepositorySan
                 cancellationToken);
     }
 
+    public async Task<IReadOnlyList<UserRepositorySandboxBinding>> GetBySandboxIdsAsync(
+        IReadOnlyCollection<string> sandboxIds,
+        CancellationToken cancellationToken = default)
+    {
+        if (sandboxIds.Count == 0) return [];
+        return await _context.UserRepositorySandboxBindings
+            .AsNoTracking()
+            .Where(x => sandboxIds.Contains(x.SandboxId))
+            .ToListAsync(cancellationToken);
+    }
+
     public async Task UpsertAsync(
         Guid userId,
         Guid repositoryId,
@@ -1,6 +1,7 @@
 namespace DevPilot.Infrastructure.Sandbox;
 
 using System.Collections.Concurrent;
+using System.Net.Http.Headers;
 using System.Net.Http.Json;
 using System.Text.Json;
 using System.Text.Json.Serialization;
@@ -21,6 +22,7 @@ using Microsoft.Extensions.Logging;
 public class SandboxService : ISandboxService
 {
     private readonly HttpClient _httpClient;
+    private readonly IHttpClientFactory _httpClientFactory;
     private readonly ILogger<SandboxService> _logger;
     private readonly string _gatewayBaseUrl;
 
@@ -39,6 +41,7 @@ public class SandboxService : ISandboxService
         ILogger<SandboxService> logger)
     {
         _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+        _httpClientFactory = httpClientFactory;
         _httpClient = httpClientFactory.CreateClient("VPSManager");
 
         var gatewayUrl = configuration["VPS:GatewayUrl"]
@@ -115,6 +118,7 @@ public class SandboxService : ISandboxService
                 InternalVncUrl = raw.Url ?? "",
                 SandboxToken = raw.SandboxToken ?? "",
                 VncPassword = raw.VncPassword ?? "",
+                VncViewPassword = raw.VncViewPassword ?? "",
             };
             _sandboxMap[sandboxId] = info;
             _logger.LogInformation("Re-discovered sandbox {SandboxId} from manager (anonymous proxy path)", sandboxId);
@@ -151,6 +155,7 @@ public class SandboxService : ISandboxService
                 InternalVncUrl = raw.Url ?? "",
                 SandboxToken = raw.SandboxToken ?? "",
                 VncPassword = raw.VncPassword ?? "",
+                VncViewPassword = raw.VncViewPassword ?? "",
             };
             _sandboxMap[sandboxId] = info;
             _logger.LogInformation("Re-discovered sandbox {SandboxId} from manager for user {UserId}", sandboxId, userId);
@@ -195,6 +200,8 @@ public class SandboxService : ISandboxService
             InternalVncUrl = raw.Url,
             SandboxToken = raw.SandboxToken,
             VncPassword = raw.VncPassword,
+            VncViewPassword = raw.VncViewPassword ?? "",
+            StoryId = request.StoryId,
         };
 
         return new SandboxCreateResult
@@ -230,20 +237,29 @@ public class SandboxService : ISandboxService
                     InternalVncUrl = s.Url,
                     SandboxToken = s.SandboxToken,
                     VncPassword = s.VncPassword ?? "",
+                    VncViewPassword = s.VncViewPassword ?? "",
                 };
             }
         }
 
         return raw.Sandboxes
             .Where(s => _sandboxMap.TryGetValue(s.Id, out var info) && info.OwnerId == userId)
-            .Select(s => new SandboxListItem
-            {
-                Id = s.Id,
-                Status = s.Status,
-            })
+            .Select(ToListItem)
             .ToList();
     }
 
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<SandboxListItem>> ListAllSandboxesAsync(CancellationToken cancellationToken = default)
+    {
+        using var response = await _httpClient.GetAsync("/sandboxes", cancellationToken);
+        response.EnsureSuccessStatusCode();
+
+        var raw = await response.Content.ReadFromJsonAsync<ManagerListResponse>(_jsonOptions, cancellationToken);
+        if (raw?.Sandboxes is null) return [];
+
+        return raw.Sandboxes.Select(ToListItem).ToList();
+    }
+
     public async Task<SandboxStatusResult?> GetSandboxAsync(
         Guid userId,
         string sandboxId,
@@ -290,6 +306,65 @@ public class SandboxService : ISandboxService
         return false;
     }
 
+    /// <inheritdoc />
+    public async Task<bool> StopSandboxAsync(
+        Guid userId,
+        string sandboxId,
+        CancellationToken cancellationToken = default)
+    {
+        if (!IsOwner(userId, sandboxId))
+        {
+            _logger.LogWarning("User {UserId} attempted to stop sandbox {SandboxId} they do not own", userId, sandboxId);
+            return false;
+        }
+
+        using var response = await _httpClient.PostAsync($"/sandboxes/{Uri.EscapeDataString(sandboxId)}/stop", null, cancellationToken);
+        return response.IsSuccessStatusCode;
+    }
+
+    /// <inheritdoc />
+    public Guid? GetOwnerId(string sandboxId) =>
+        _sandboxMap.TryGetValue(sandboxId, out var info) && info.OwnerId != Guid.Empty ? info.OwnerId : (Guid?)null;
+
+    /// <inheritdoc />
+    public IReadOnlyList<SandboxListItem> GetOwnedSandboxes() =>
+        _sandboxMap
+            .Where(kv => kv.Value.OwnerId != Guid.Empty)
+            .Select(kv => new SandboxListItem { Id = kv.Key, OwnerId = kv.Value.OwnerId, StoryId = kv.Value.StoryId })
+            .ToList();
+
+    /// <inheritdoc />
+    public async Task<string?> TryGetConversationsJsonAsync(
+        string sandboxId,
+        CancellationToken cancellationToken = default)
+    {
+        if (!_sandboxMap.TryGetValue(sandboxId, out var info) || string.IsNullOrWhiteSpace(info.InternalBridgeUrl))
+            return null;
+
+        // Same rule as the bridge proxy: manager-style bridge URLs often name localhost, so go through the gateway.
+        var bridgeBase = info.InternalBridgeUrl.TrimEnd('/');
+        if (bridgeBase.Contains("/sandbox/", StringComparison.OrdinalIgnoreCase)
+            && bridgeBase.EndsWith("/bridge", StringComparison.OrdinalIgnoreCase))
+            bridgeBase = $"{_gatewayBaseUrl}/sandbox/{sandboxId}/bridge";
+
+        // Not the VPSManager client: its API key must not reach the sandbox.
+        using var client = _httpClientFactory.CreateClient("SandboxBridge");
+        using var request = new HttpRequestMessage(HttpMethod.Get, $"{bridgeBase}/all-conversations");
+        if (!string.IsNullOrEmpty(info.SandboxToken))
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", info.SandboxToken);
+
+        try
+        {
+            using var response = await client.SendAsync(request, cancellationToken);
+            return response.IsSuccessStatusCode ? await response.Content.ReadAsStringAsync(cancellationToken) : null;
+        }
+        catch (Exception ex) when (ex is HttpRequestException or TaskCanceledException && !cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogDebug(ex, "Bridge of sandbox {SandboxId} did not answer /all-conversations", sandboxId);
+            return null;
+        }
+    }
+
     /// <inheritdoc />
     public async Task<bool> TryAssignSandboxOwnershipAsync(
         Guid userId,
@@ -316,6 +391,7 @@ public class SandboxService : ISandboxService
                 InternalVncUrl = raw.Url ?? "",
                 SandboxToken = raw.SandboxToken,
                 VncPassword = raw.VncPassword ?? "",
+                VncViewPassword = raw.VncViewPassword ?? "",
             };
             _logger.LogInformation("Registered sandbox {SandboxId} for user {UserId} from manager", sandboxId, userId);
             return true;
@@ -337,6 +413,24 @@ public class SandboxService : ISandboxService
     private bool IsOwner(Guid userId, string sandboxId) =>
         _sandboxMap.TryGetValue(sandboxId, out var info) && info.OwnerId == userId;
 
+    /// <summary>Manager timestamps are Unix seconds; 0 means unknown.</summary>
+    private static DateTime? FromUnixSeconds(double? seconds) =>
+        seconds is > 0 ? DateTimeOffset.FromUnixTimeMilliseconds((long)(seconds.Value * 1000)).UtcDateTime : null;
+
+    private static SandboxListItem ToListItem(ManagerListItem s)
+    {
+        _sandboxMap.TryGetValue(s.Id, out var info);
+        return new SandboxListItem
+        {
+            Id = s.Id,
+            Status = s.Status,
+            CreatedAt = FromUnixSeconds(s.CreatedAt),
+            ExpiresAt = FromUnixSeconds(s.ExpiresAt),
+            OwnerId = info is null || info.OwnerId == Guid.Empty ? null : (Guid?)info.OwnerId,
+            StoryId = info?.StoryId,
+        };
+    }
+
     private static object BuildManagerPayload(SandboxCreateRequest req)
     {
         return new
@@ -346,6 +440,8 @@ public class SandboxService : ISandboxService
             repo_name = req.RepoName,
             repo_branch = req.RepoBranch,
             repo_archive_url = req.RepoArchiveUrl,
+            workspace_snapshot_url = req.WorkspaceSnapshotUrl,
+            workspace_snapshot_conversations_url = req.WorkspaceSnapshotConversationsUrl,
             github_token = req.GithubToken,
             azure_devops_pat = req.AzureDevOpsPat,
             ai_config = req.AiConfig is null ? null : new
@@ -365,6 +461,13 @@ public class SandboxService : ISandboxService
                 feed_type = f.FeedType,
             }).ToList(),
             agent_rules = req.AgentRules,
+            sandbox_profile = req.Profile is null ? null : new
+            {
+                setup_commands = req.Profile.SetupCommands,
+                env = req.Profile.EnvironmentVariables,
+                preview_port = req.Profile.PreviewPort,
+                use_devcontainer = req.Profile.UseDevcontainer,
+            },
             azure_identity_client_id = req.AzureIdentityClientId,
             azure_identity_client_secret = req.AzureIdentityClientSecret,
             azure_identity_tenant_id = req.AzureIdentityTenantId,
@@ -382,7 +485,10 @@ public class SandboxService : ISandboxService
         [property: JsonPropertyName("bridge_url")] string BridgeUrl,
         [property: JsonPropertyName("status")] string Status,
         [property: JsonPropertyName("sandbox_token")] string? SandboxToken = null,
-        [property: JsonPropertyName("vnc_password")] string? VncPassword = null);
+        [property: JsonPropertyName("vnc_password")] string? VncPassword = null,
+        [property: JsonPropertyName("vnc_view_password")] string? VncViewPassword = null,
+        [property: JsonPropertyName("created_at")] double? CreatedAt = null,
+        [property: JsonPropertyName("expires_at")] double? ExpiresAt = null);
 
     private record ManagerCreateResponse(
         [property: JsonPropertyName("id")] string Id,
@@ -390,7 +496,8 @@ public class SandboxService : ISandboxService
         [property: JsonPropertyName("bridge_url")] string BridgeUrl,
         [property: JsonPropertyName("status")] string Status,
         [property: JsonPropertyName("sandbox_token")] string SandboxToken,
-        [property: JsonPropertyName("vnc_password")] string VncPassword);
+        [property: JsonPropertyName("vnc_password")] string VncPassword,
+        [property: JsonPropertyName("vnc_view_password")] string? VncViewPassword = null);
 
     private record ManagerStatusResponse(
         [property: JsonPropertyName("id")] string? Id = null,
@@ -398,7 +505,8 @@ public class SandboxService : ISandboxService
         [property: JsonPropertyName("bridge_url")] string? BridgeUrl = null,
         [property: JsonPropertyName("status")] string? Status = null,
         [property: JsonPropertyName("sandbox_token")] string? SandboxToken = null,
-        [property: JsonPropertyName("vnc_password")] string? VncPassword = null);
+        [property: JsonPropertyName("vnc_password")] string? VncPassword = null,
+        [property: JsonPropertyName("vnc_view_password")] string? VncViewPassword = null);
 }
 
 /// <summary>Server-side sandbox credentials — never exposed to the browser.</summary>
@@ -409,4 +517,8 @@ public class SandboxInternalInfo
     public string InternalVncUrl { get; init; } = string.Empty;
     public string SandboxToken { get; init; } = string.Empty;
     public string VncPassword { get; init; } = string.Empty;
+    /// <summary>x11vnc view-only password, handed to read-only share viewers; empty for older sandbox images.</summary>
+    public string VncViewPassword { get; init; } = string.Empty;
+    /// <summary>Story the sandbox was created for (fleet view); lost when the API restarts.</summary>
+    public Guid? StoryId { get; init; }
 }
@@ -0,0 +1,51 @@
+namespace DevPilot.Infrastructure.Sandbox;
+
+using DevPilot.Application.Services;
+using Microsoft.Extensions.DependencyInjection;
+using Microsoft.Extensions.Hosting;
+using Microsoft.Extensions.Logging;
+
+/// <summary>
+/// Records token usage of every owned sandbox once a minute, so turns count whether or not a browser polls the
+/// sandbox (comparison runs, queued implementations in the background, Code Ask). Recording is idempotent per
+/// turn, so the bridge proxy recording the same turns is harmless.
+/// </summary>
+public class SandboxUsageCollector : BackgroundService
+{
+    private static readonly TimeSpan Interval = TimeSpan.FromMinutes(1);
+
+    private readonly ISandboxService _sandboxService;
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<SandboxUsageCollector> _logger;
+
+    public SandboxUsageCollector(
+        ISandboxService sandboxService,
+        IServiceScopeFactory scopeFactory,
+        ILogger<SandboxUsageCollector> logger)
+    {
+        _sandboxService = sandboxService ?? throw new ArgumentNullException(nameof(sandboxService));
+        _scopeFactory = scopeFactory ?? throw new ArgumentNullException(nameof(scopeFactory));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        using var timer = new PeriodicTimer(Interval);
+        while (await timer.WaitForNextTickAsync(stoppingToken))
+        {
+            foreach (var sandbox in _sandboxService.GetOwnedSandboxes())
+            {
+                try
+                {
+                    using var scope = _scopeFactory.CreateScope();
+                    var usage = scope.ServiceProvider.GetRequiredService<ITokenUsageService>();
+                    await usage.RecordFromSandboxAsync(sandbox, stoppingToken);
+                }
+                catch (Exception ex) when (!stoppingToken.IsCancellationRequested)
+                {
+                    _logger.LogWarning(ex, "Failed to record token usage of sandbox {SandboxId}", sandbox.Id);
+                }
+            }
+        }
+    }
+}
@@ -75,4 +75,24 @@ public class EffectiveAiConfigResolver : IEffectiveAiConfigResolver
         _logger.LogWarning("[EffectiveAI] No LLM configured, returning empty config");
         return new EffectiveAiConfig("openai", null, null, null);
     }
+
+    public async System.Threading.Tasks.Task<EffectiveAiConfig?> GetConfigForLlmSettingAsync(
+        Guid userId,
+        Guid llmSettingId,
+        CancellationToken cancellationToken = default)
+    {
+        var llm = await _llmSettingRepository.GetByIdAsync(llmSettingId, cancellationToken);
+        if (llm == null || (!llm.IsShared && llm.UserId != userId))
+        {
+            _logger.LogWarning("[EffectiveAI] LLM {LlmSettingId} not found or not accessible for user {UserId}", llmSettingId, userId);
+            return null;
+        }
+
+        _logger.LogInformation("[EffectiveAI] Using chosen LLM: {Name} ({Provider} / {Model})", llm.Name, llm.Provider, llm.Model);
+        return new EffectiveAiConfig(
+            llm.Provider,
+            string.IsNullOrEmpty(llm.ApiKey) ? null : llm.ApiKey,
+            llm.Model,
+            llm.BaseUrl);
+    }
 }
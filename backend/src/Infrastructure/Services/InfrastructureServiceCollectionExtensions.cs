@@ -42,7 +42,14 @@ public static class InfrastructureServiceCollectionExtensions
         services.AddScoped<IRepositoryShareRepository, PostgresRepositoryShareRepository>();
         services.AddScoped<IRepositoryRepository, PostgresRepositoryRepository>();
         services.AddScoped<IRepositoryAgentRuleRepository, PostgresRepositoryAgentRuleRepository>();
+        services.AddScoped<IRepositoryPromptTemplateRepository, PostgresRepositoryPromptTemplateRepository>();
+        services.AddScoped<IRepositorySandboxProfileRepository, PostgresRepositorySandboxProfileRepository>();
+        services.AddScoped<IRepositoryPullRequestTemplateRepository, PostgresRepositoryPullRequestTemplateRepository>();
+        services.AddScoped<ISprintRepository, PostgresSprintRepository>();
         services.AddScoped<IGlobalAgentRuleRepository, PostgresGlobalAgentRuleRepository>();
+        services.AddScoped<ISandboxIdlePolicyRepository, PostgresSandboxIdlePolicyRepository>();
+        services.AddScoped<IUsageBudgetRepository, PostgresUsageBudgetRepository>();
+        services.AddScoped<ITokenUsageRepository, PostgresTokenUsageRepository>();
         services.AddScoped<IEpicRepository, PostgresEpicRepository>();
         services.AddScoped<IFeatureRepository, PostgresFeatureRepository>();
         services.AddScoped<IUserRepository, PostgresUserRepository>();
@@ -54,9 +61,13 @@ public static class InfrastructureServiceCollectionExtensions
         services.AddScoped<IMcpServerConfigRepository, PostgresMcpServerConfigRepository>();
         services.AddScoped<IArtifactFeedConfigRepository, PostgresArtifactFeedConfigRepository>();
         services.AddScoped<IStorySandboxConversationRepository, PostgresStorySandboxConversationRepository>();
+        services.AddScoped<IStoryWorkspaceSnapshotRepository, PostgresStoryWorkspaceSnapshotRepository>();
+        services.AddScoped<ISandboxViewShareRepository, PostgresSandboxViewShareRepository>();
+        services.AddScoped<IStoryStatusTransitionRepository, PostgresStoryStatusTransitionRepository>();
         services.AddScoped<IUserRepositorySandboxBindingRepository, PostgresUserRepositorySandboxBindingRepository>();
         services.AddScoped<ICodeAskConversationRepository, PostgresCodeAskConversationRepository>();
         services.AddScoped<IEffectiveAiConfigResolver, EffectiveAiConfigResolver>();
+        services.AddScoped<ITokenUsageService, TokenUsageService>();
 
         // Register authentication service
         services.AddScoped<AuthenticationService>();
@@ -65,11 +76,14 @@ public static class InfrastructureServiceCollectionExtensions
         // Auth provider registry (configuration-driven)
         // ------------------------------------------------------------------
         services.AddSingleton<IUnpublishedRepositoryFileStore, UnpublishedRepositoryFileStore>();
+        services.AddSingleton<IWorkspaceSnapshotFileStore, WorkspaceSnapshotFileStore>();
 
         if (configuration != null)
         {
             services.Configure<UnpublishedRepositoryOptions>(
                 configuration.GetSection(UnpublishedRepositoryOptions.SectionName));
+            services.Configure<WorkspaceSnapshotOptions>(
+                configuration.GetSection(WorkspaceSnapshotOptions.SectionName));
             // Bind the AuthProviders config section
             services.Configure<AuthProvidersOptions>(opts =>
             {
@@ -116,9 +130,13 @@ public static class InfrastructureServiceCollectionExtensions
         // Register sandbox manager proxy (authenticated via API key).
         // Singleton because SandboxService holds in-memory ownership + credential maps.
         services.AddHttpClient("VPSManager");
+        services.AddHttpClient("SandboxBridge", client => client.Timeout = TimeSpan.FromSeconds(30));
         services.AddSingleton<SandboxService>();
         services.AddSingleton<ISandboxService>(sp => sp.GetRequiredService<SandboxService>());
 
+        // Records token usage of running sandboxes whether or not a browser is watching them.
+        services.AddHostedService<SandboxUsageCollector>();
+
         return services;
     }
 }
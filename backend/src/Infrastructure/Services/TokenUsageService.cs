@@ -0,0 +1,220 @@
+namespace DevPilot.Infrastructure.Services;
+
+using System.Text.Json;
+using DevPilot.Application.Services;
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using Microsoft.Extensions.Logging;
+
+public class TokenUsageService : ITokenUsageService
+{
+    private readonly ITokenUsageRepository _tokenUsageRepository;
+    private readonly IUsageBudgetRepository _usageBudgetRepository;
+    private readonly ILlmSettingRepository _llmSettingRepository;
+    private readonly ISandboxService _sandboxService;
+    private readonly IUserStoryRepository _userStoryRepository;
+    private readonly IRepositoryRepository _repositoryRepository;
+    private readonly IStorySandboxConversationRepository _storySandboxConversationRepository;
+    private readonly IUserRepositorySandboxBindingRepository _sandboxBindingRepository;
+    private readonly ILogger<TokenUsageService> _logger;
+
+    public TokenUsageService(
+        ITokenUsageRepository tokenUsageRepository,
+        IUsageBudgetRepository usageBudgetRepository,
+        ILlmSettingRepository llmSettingRepository,
+        ISandboxService sandboxService,
+        IUserStoryRepository userStoryRepository,
+        IRepositoryRepository repositoryRepository,
+        IStorySandboxConversationRepository storySandboxConversationRepository,
+        IUserRepositorySandboxBindingRepository sandboxBindingRepository,
+        ILogger<TokenUsageService> logger)
+    {
+        _tokenUsageRepository = tokenUsageRepository ?? throw new ArgumentNullException(nameof(tokenUsageRepository));
+        _usageBudgetRepository = usageBudgetRepository ?? throw new ArgumentNullException(nameof(usageBudgetRepository));
+        _llmSettingRepository = llmSettingRepository ?? throw new ArgumentNullException(nameof(llmSettingRepository));
+        _sandboxService = sandboxService ?? throw new ArgumentNullException(nameof(sandboxService));
+        _userStoryRepository = userStoryRepository ?? throw new ArgumentNullException(nameof(userStoryRepository));
+        _repositoryRepository = repositoryRepository ?? throw new ArgumentNullException(nameof(repositoryRepository));
+        _storySandboxConversationRepository = storySandboxConversationRepository
+            ?? throw new ArgumentNullException(nameof(storySandboxConversationRepository));
+        _sandboxBindingRepository = sandboxBindingRepository ?? throw new ArgumentNullException(nameof(sandboxBindingRepository));
+        _logger = logger ?? throw new ArgumentNullException(nameof(logger));
+    }
+
+    public async System.Threading.Tasks.Task<int> RecordFromConversationsAsync(
+        Guid userId,
+        UserStory story,
+        string sandboxId,
+        string conversationsJson,
+        CancellationToken cancellationToken = default)
+    {
+        var repository = story.Feature?.Epic?.Repository
+            ?? throw new ArgumentException("Story must be loaded with its feature, epic and repository", nameof(story));
+        return await RecordAsync(userId, repository, story.Feature.EpicId, story.Id, sandboxId, conversationsJson, cancellationToken);
+    }
+
+    public async System.Threading.Tasks.Task<int> RecordFromSandboxAsync(
+        SandboxListItem sandbox,
+        CancellationToken cancellationToken = default)
+    {
+        if (sandbox.OwnerId is not { } userId) return 0;
+
+        var storyId = sandbox.StoryId;
+        if (storyId is null)
+        {
+            var saved = await _storySandboxConversationRepository.GetStoryIdsBySandboxIdsAsync([sandbox.Id], cancellationToken);
+            if (saved.TryGetValue(sandbox.Id, out var savedStoryId)) storyId = savedStoryId;
+        }
+
+        UserStory? story = null;
+        Repository? repository = null;
+        if (storyId is { } id)
+        {
+            story = await _userStoryRepository.GetByIdAsync(id, cancellationToken);
+            repository = story?.Feature?.Epic?.Repository;
+        }
+        if (repository is null)
+        {
+            var binding = (await _sandboxBindingRepository.GetBySandboxIdsAsync([sandbox.Id], cancellationToken)).FirstOrDefault();
+            story = null;
+            repository = binding is null ? null : await _repositoryRepository.GetByIdAsync(binding.RepositoryId, cancellationToken);
+        }
+        if (repository is null) return 0;
+
+        var json = await _sandboxService.TryGetConversationsJsonAsync(sandbox.Id, cancellationToken);
+        if (json is null) return 0;
+
+        return await RecordAsync(userId, repository, story?.Feature.EpicId, story?.Id, sandbox.Id, json, cancellationToken);
+    }
+
+    private async System.Threading.Tasks.Task<int> RecordAsync(
+        Guid userId,
+        Repository repository,
+        Guid? epicId,
+        Guid? storyId,
+        string sandboxId,
+        string conversationsJson,
+        CancellationToken cancellationToken)
+    {
+        var turns = ParseTurns(conversationsJson);
+        if (turns.Count == 0) return 0;
+
+        var pricing = await LoadPricingCandidatesAsync(userId, repository.LlmSettingId, cancellationToken);
+        var records = turns
+            .Select(t => new TokenUsageRecord(
+                userId,
+                repository.Id,
+                epicId,
+                storyId,
+                sandboxId,
+                t.TurnId,
+                t.Model,
+                t.PromptTokens,
+                t.CompletionTokens,
+                FindPricing(pricing, t.Model)?.ComputeCost(t.PromptTokens, t.CompletionTokens),
+                t.OccurredAt))
+            .ToList();
+
+        var added = await _tokenUsageRepository.AddNewAsync(records, cancellationToken);
+        if (added > 0)
+            _logger.LogInformation(
+                "Recorded token usage of {Count} turn(s) for repository {RepositoryId} story {StoryId} in sandbox {SandboxId}",
+                added, repository.Id, storyId, sandboxId);
+        return added;
+    }
+
+    public async System.Threading.Tasks.Task<UsageBudgetStatus> GetBudgetStatusAsync(
+        Guid userId,
+        CancellationToken cancellationToken = default)
+    {
+        var monthStart = UsageBudget.MonthStart(DateTime.UtcNow);
+        var totals = await _tokenUsageRepository.GetUserTotalsSinceAsync(userId, monthStart, cancellationToken);
+        var userBudget = await _usageBudgetRepository.GetByUserIdAsync(userId, cancellationToken);
+        var budget = userBudget ?? await _usageBudgetRepository.GetDefaultAsync(cancellationToken);
+
+        return new UsageBudgetStatus(
+            monthStart,
+            totals.PromptTokens,
+            totals.CompletionTokens,
+            totals.Cost,
+            budget?.MonthlySoftLimit,
+            budget?.MonthlyHardLimit,
+            budget?.GetState(totals.Cost) ?? UsageBudget.StateOk,
+            userBudget != null ? "user" : budget != null ? "admin" : "none");
+    }
+
+    /// <summary>A bridge conversation entry that reported token usage.</summary>
+    public record BridgeTurnUsage(string TurnId, string Model, long PromptTokens, long CompletionTokens, DateTime OccurredAt);
+
+    /// <summary>
+    /// Turns of a bridge <c>/all-conversations</c> body with a non-empty <c>usage</c>
+    /// (<c>prompt_tokens</c> / <c>completion_tokens</c>). Entries without an id or usage are skipped.
+    /// </summary>
+    public static IReadOnlyList<BridgeTurnUsage> ParseTurns(string conversationsJson)
+    {
+        var result = new List<BridgeTurnUsage>();
+        try
+        {
+            using var doc = JsonDocument.Parse(conversationsJson);
+            if (!doc.RootElement.TryGetProperty("conversations", out var conversations)
+                || conversations.ValueKind != JsonValueKind.Array)
+                return result;
+
+            foreach (var entry in conversations.EnumerateArray())
+            {
+                if (entry.ValueKind != JsonValueKind.Object
+                    || !entry.TryGetProperty("usage", out var usage)
+                    || usage.ValueKind != JsonValueKind.Object
+                    || !entry.TryGetProperty("id", out var id)
+                    || id.ValueKind != JsonValueKind.String
+                    || string.IsNullOrEmpty(id.GetString()))
+                    continue;
+
+                var prompt = ReadTokens(usage, "prompt_tokens");
+                var completion = ReadTokens(usage, "completion_tokens");
+                if (prompt + completion == 0) continue;
+
+                var occurredAt = entry.TryGetProperty("timestamp", out var ts) && ts.TryGetDouble(out var seconds)
+                    ? DateTimeOffset.FromUnixTimeMilliseconds((long)(seconds * 1000)).UtcDateTime
+                    : DateTime.UtcNow;
+                var model = entry.TryGetProperty("model", out var m) && m.ValueKind == JsonValueKind.String
+                    ? m.GetString() ?? string.Empty
+                    : string.Empty;
+
+                result.Add(new BridgeTurnUsage(id.GetString()!, model, prompt, completion, occurredAt));
+            }
+        }
+        catch (JsonException)
+        {
+            // Not a conversations body (e.g. an error page from the bridge); nothing to record.
+        }
+
+        return result;
+    }
+
+    private static long ReadTokens(JsonElement usage, string name) =>
+        usage.TryGetProperty(name, out var value) && value.TryGetInt64(out var tokens) && tokens > 0 ? tokens : 0;
+
+    /// <summary>
+    /// Settings that may have served a turn, in priority order: the repository's LLM, then the user's own, then shared ones.
+    /// </summary>
+    private async System.Threading.Tasks.Task<IReadOnlyList<LlmSetting>> LoadPricingCandidatesAsync(
+        Guid userId,
+        Guid? repositoryLlmSettingId,
+        CancellationToken cancellationToken)
+    {
+        var candidates = new List<LlmSetting>();
+        if (repositoryLlmSettingId is { } settingId
+            && await _llmSettingRepository.GetByIdAsync(settingId, cancellationToken) is { } repositorySetting)
+            candidates.Add(repositorySetting);
+        candidates.AddRange(await _llmSettingRepository.GetByUserIdAsync(userId, cancellationToken));
+        candidates.AddRange(await _llmSettingRepository.GetSharedAsync(cancellationToken));
+        return candidates;
+    }
+
+    /// <summary>First setting for the turn's model that has prices; null leaves the turn unpriced.</summary>
+    public static LlmSetting? FindPricing(IEnumerable<LlmSetting> candidates, string model) =>
+        candidates.FirstOrDefault(s =>
+            string.Equals(s.Model, model, StringComparison.OrdinalIgnoreCase)
+            && (s.InputPricePerMillionTokens != null || s.OutputPricePerMillionTokens != null));
+}
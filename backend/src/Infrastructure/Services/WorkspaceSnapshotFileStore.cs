@@ -0,0 +1,85 @@
+using DevPilot.Application.Options;
+using DevPilot.Application.Services;
+using Microsoft.AspNetCore.Hosting;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+
+namespace DevPilot.Infrastructure.Services;
+
+/// <summary>Stores story workspace snapshot zips as App_Data/workspace-snapshots/{snapshotId}.zip.</summary>
+public sealed class WorkspaceSnapshotFileStore : IWorkspaceSnapshotFileStore
+{
+    private readonly IWebHostEnvironment _hostEnvironment;
+    private readonly IOptions<WorkspaceSnapshotOptions> _options;
+    private readonly ILogger<WorkspaceSnapshotFileStore> _logger;
+
+    public WorkspaceSnapshotFileStore(
+        IWebHostEnvironment hostEnvironment,
+        IOptions<WorkspaceSnapshotOptions> options,
+        ILogger<WorkspaceSnapshotFileStore> logger)
+    {
+        _hostEnvironment = hostEnvironment;
+        _options = options;
+        _logger = logger;
+    }
+
+    private string ResolveBaseDirectory()
+    {
+        var custom = _options.Value.RootPath;
+        if (!string.IsNullOrWhiteSpace(custom))
+        {
+            return Path.GetFullPath(custom);
+        }
+
+        return Path.GetFullPath(
+            Path.Combine(_hostEnvironment.ContentRootPath, "App_Data", "workspace-snapshots"));
+    }
+
+    private string GetArchivePath(Guid snapshotId) =>
+        Path.Combine(ResolveBaseDirectory(), snapshotId.ToString("D") + ".zip");
+
+    public async Task<long> SaveAsync(Guid snapshotId, Stream zipStream, CancellationToken cancellationToken = default)
+    {
+        Directory.CreateDirectory(ResolveBaseDirectory());
+        var path = GetArchivePath(snapshotId);
+        await using (var fs = new FileStream(
+            path,
+            FileMode.Create,
+            FileAccess.Write,
+            FileShare.None,
+            bufferSize: 81920,
+            FileOptions.Asynchronous))
+        {
+            await zipStream.CopyToAsync(fs, cancellationToken).ConfigureAwait(false);
+        }
+
+        return new FileInfo(path).Length;
+    }
+
+    public Stream? OpenRead(Guid snapshotId)
+    {
+        var path = GetArchivePath(snapshotId);
+        if (!File.Exists(path))
+        {
+            return null;
+        }
+
+        return new FileStream(path, FileMode.Open, FileAccess.Read, FileShare.Read, bufferSize: 81920, FileOptions.Asynchronous);
+    }
+
+    public void Delete(Guid snapshotId)
+    {
+        var path = GetArchivePath(snapshotId);
+        try
+        {
+            if (File.Exists(path))
+            {
+                File.Delete(path);
+            }
+        }
+        catch (IOException ex)
+        {
+            _logger.LogWarning(ex, "Could not delete workspace snapshot archive {Path}", path);
+        }
+    }
+}
@@ -0,0 +1,187 @@
+using System.Net;
+using System.Security.Claims;
+using DevPilot.API;
+using DevPilot.API.Controllers;
+using DevPilot.Application.Services;
+using DevPilot.Domain.Interfaces;
+using DevPilot.Infrastructure.Sandbox;
+using FluentAssertions;
+using Microsoft.AspNetCore.Http;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Configuration;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+using SandboxViewShare = DevPilot.Domain.Entities.SandboxViewShare;
+using UsageBudget = DevPilot.Domain.Entities.UsageBudget;
+
+namespace DevPilot.UnitTests.API;
+
+public class SandboxProxyControllerTests
+{
+    private const string Secret = "test-signing-key-with-enough-length-0123456789";
+
+    // SandboxService keeps its sandbox map in a static, so every test gets a sandbox of its own.
+    private readonly string _sandboxId = $"sb-{Guid.NewGuid():N}";
+
+    private readonly List<string> _bridgeCalls = new();
+    private readonly Mock<IConfiguration> _configuration = new();
+    private readonly Mock<ITokenUsageService> _usage = new();
+    private readonly Mock<ISandboxViewShareRepository> _shares = new();
+    private readonly SandboxService _sandboxService;
+
+    public SandboxProxyControllerTests()
+    {
+        var handler = new StubHttpMessageHandler(request =>
+        {
+            if (request.RequestUri!.AbsolutePath == $"/sandboxes/{_sandboxId}")
+            {
+                return new HttpResponseMessage(HttpStatusCode.OK)
+                {
+                    Content = new StringContent(
+                        "{\"bridge_url\":\"http://sandbox-1:8091\",\"sandbox_token\":\"t\",\"vnc_view_password\":\"view-pw\"}",
+                        System.Text.Encoding.UTF8, "application/json")
+                };
+            }
+            _bridgeCalls.Add(request.RequestUri.AbsolutePath);
+            return new HttpResponseMessage(HttpStatusCode.OK);
+        });
+        var factory = new Mock<IHttpClientFactory>();
+        factory.Setup(f => f.CreateClient(It.IsAny<string>())).Returns(() => new HttpClient(handler));
+        _configuration.Setup(c => c["VPS:GatewayUrl"]).Returns("http://manager:8090");
+        _configuration.Setup(c => c["JWT:SecretKey"]).Returns(Secret);
+        _sandboxService = new SandboxService(factory.Object, _configuration.Object, NullLogger<SandboxService>.Instance);
+    }
+
+    [Theory]
+    [InlineData("zed/send-prompt")]
+    [InlineData("agent/prompt")]
+    [InlineData("debug/test-input")]
+    public async System.Threading.Tasks.Task ProxyBridge_Refuses_Prompts_Once_The_Hard_Budget_Limit_Is_Reached(string route)
+    {
+        var uid = Guid.NewGuid();
+        _usage.Setup(u => u.GetBudgetStatusAsync(uid, It.IsAny<CancellationToken>())).ReturnsAsync(new UsageBudgetStatus(
+            DateTime.UtcNow, 900_000, 100_000, 55m, 40m, 50m, UsageBudget.StateHardLimitReached, "user"));
+        var controller = CreateController(uid);
+        controller.HttpContext.Request.Method = HttpMethods.Post;
+
+        var result = await controller.ProxyBridge(_sandboxId, route);
+
+        result.Should().BeOfType<ObjectResult>().Which.StatusCode.Should().Be(403);
+        _bridgeCalls.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task CreatePreviewSession_Sets_A_Ticket_Cookie_Scoped_To_The_Sandbox_Preview()
+    {
+        var uid = Guid.NewGuid();
+        var controller = CreateController(uid);
+
+        var result = await controller.CreatePreviewSession(_sandboxId);
+
+        result.Should().BeOfType<NoContentResult>();
+        var cookie = controller.HttpContext.Response.Headers.SetCookie.ToString();
+        cookie.Should().Contain($"path=/api/sandboxes/{_sandboxId}/preview").And.Contain("httponly");
+        var ticket = Uri.UnescapeDataString(cookie.Split(';')[0].Split('=', 2)[1]);
+        SandboxAccessTicket.Validate(Secret, SandboxAccessTicket.Preview, _sandboxId, ticket).Should().Be(uid);
+        SandboxAccessTicket.Validate(Secret, SandboxAccessTicket.Preview, "sb-2", ticket).Should().BeNull();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ProxyPreview_Refuses_Requests_Without_The_Owner_Or_A_Preview_Session()
+    {
+        var anonymous = CreateController(userId: null);
+        (await anonymous.ProxyPreview(_sandboxId, 5173, "index.html"))
+            .Should().BeOfType<UnauthorizedObjectResult>();
+
+        var otherSandbox = CreateController(userId: null);
+        otherSandbox.HttpContext.Request.Headers.Cookie = $"devpilot_preview={Ticket("sb-2", Guid.NewGuid())}";
+        (await otherSandbox.ProxyPreview(_sandboxId, 5173, "index.html"))
+            .Should().BeOfType<UnauthorizedObjectResult>();
+
+        var expired = CreateController(userId: null);
+        expired.HttpContext.Request.Headers.Cookie =
+            $"devpilot_preview={Ticket(_sandboxId, Guid.NewGuid(), DateTimeOffset.UtcNow.AddMinutes(-1))}";
+        (await expired.ProxyPreview(_sandboxId, 5173, "index.html"))
+            .Should().BeOfType<UnauthorizedObjectResult>();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ProxyPreview_Refuses_A_Preview_Session_Of_Someone_Other_Than_The_Owner()
+    {
+        var owner = Guid.NewGuid();
+        (await CreateController(owner).CreatePreviewSession(_sandboxId)).Should().BeOfType<NoContentResult>();
+
+        var stranger = CreateController(userId: null);
+        stranger.HttpContext.Request.Headers.Cookie = $"devpilot_preview={Ticket(_sandboxId, Guid.NewGuid())}";
+
+        (await stranger.ProxyPreview(_sandboxId, 5173, "index.html")).Should().BeOfType<NotFoundObjectResult>();
+        _bridgeCalls.Should().BeEmpty();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task CreateVncTicket_Issues_A_Short_Lived_Desktop_Ticket_To_The_Owner_Only()
+    {
+        var owner = Guid.NewGuid();
+
+        var result = await CreateController(owner).CreateVncTicket(_sandboxId);
+
+        var body = result.Should().BeOfType<OkObjectResult>().Which.Value!;
+        var ticket = (string)body.GetType().GetProperty("ticket")!.GetValue(body)!;
+        var expiresAt = (DateTimeOffset)body.GetType().GetProperty("expiresAt")!.GetValue(body)!;
+        expiresAt.Should().BeBefore(DateTimeOffset.UtcNow.AddMinutes(5));
+        SandboxAccessTicket.Validate(Secret, SandboxAccessTicket.Vnc, _sandboxId, ticket).Should().Be(owner);
+        SandboxAccessTicket.Validate(Secret, SandboxAccessTicket.Preview, _sandboxId, ticket).Should().BeNull();
+
+        (await CreateController(Guid.NewGuid()).CreateVncTicket(_sandboxId)).Should().BeOfType<NotFoundObjectResult>();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task GetSharedView_Resolves_The_Sandbox_From_The_Token_Alone()
+    {
+        var share = new SandboxViewShare(_sandboxId, Guid.NewGuid(), "Login page", expiresInMinutes: 60);
+        _shares.Setup(s => s.GetByTokenAsync(share.Token, It.IsAny<CancellationToken>())).ReturnsAsync(share);
+        var controller = CreateController(userId: null);
+
+        var result = await controller.GetSharedView(share.Token);
+
+        var body = result.Should().BeOfType<OkObjectResult>().Which.Value!;
+        body.GetType().GetProperty("vncViewPassword")!.GetValue(body).Should().Be("view-pw");
+        body.GetType().GetProperty("sandboxId").Should().BeNull();
+        (await controller.GetSharedView("unknown")).Should().BeOfType<NotFoundObjectResult>();
+    }
+
+    private static string Ticket(string sandboxId, Guid userId, DateTimeOffset? expiresAt = null) =>
+        SandboxAccessTicket.Issue(Secret, SandboxAccessTicket.Preview, sandboxId, userId,
+            expiresAt ?? DateTimeOffset.UtcNow.AddHours(1));
+
+    private SandboxProxyController CreateController(Guid? userId)
+    {
+        var controller = new SandboxProxyController(
+            _sandboxService,
+            Mock.Of<IUserStoryRepository>(),
+            Mock.Of<IRepositoryRepository>(),
+            Mock.Of<IStorySandboxConversationRepository>(),
+            Mock.Of<IStoryWorkspaceSnapshotRepository>(),
+            Mock.Of<IWorkspaceSnapshotFileStore>(),
+            _usage.Object,
+            _shares.Object,
+            _configuration.Object,
+            NullLogger<SandboxProxyController>.Instance);
+        var httpContext = new DefaultHttpContext();
+        if (userId is { } uid)
+        {
+            httpContext.User = new ClaimsPrincipal(
+                new ClaimsIdentity(new[] { new Claim(ClaimTypes.NameIdentifier, uid.ToString()) }, "test"));
+        }
+        controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+        return controller;
+    }
+
+    private sealed class StubHttpMessageHandler : HttpMessageHandler
+    {
+        private readonly Func<HttpRequestMessage, HttpResponseMessage> _respond;
+        public StubHttpMessageHandler(Func<HttpRequestMessage, HttpResponseMessage> respond) => _respond = respond;
+        protected override Task<HttpResponseMessage> SendAsync(HttpRequestMessage request, CancellationToken cancellationToken)
+            => Task.FromResult(_respond(request));
+    }
+}
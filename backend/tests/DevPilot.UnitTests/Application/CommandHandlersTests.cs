@@ -135,6 +135,32 @@ public class AddBacklogItemHandlersTests
             NullLogger<AddUserStoryCommandHandler>.Instance);
         (await hu.Handle(new AddUserStoryCommand(feat.Id, "US"), default)).Title.Should().Be("US");
     }
+
+    [Fact]
+    public async System.Threading.Tasks.Task AddUserStory_WithTasks_CreatesTasks()
+    {
+        var feat = new Feature("F", Guid.NewGuid());
+        var mockF = new Mock<IFeatureRepository>();
+        mockF.Setup(x => x.GetByIdAsync(feat.Id, default)).ReturnsAsync(feat);
+        var mockUs = new Mock<IUserStoryRepository>();
+        mockUs.Setup(x => x.AddAsync(It.IsAny<UserStory>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync((UserStory u, CancellationToken _) => u);
+        var hu = new AddUserStoryCommandHandler(
+            mockUs.Object,
+            mockF.Object,
+            new Mock<IRepositoryAgentRuleRepository>().Object,
+            NullLogger<AddUserStoryCommandHandler>.Instance);
+        var dto = await hu.Handle(new AddUserStoryCommand(feat.Id, "US", Tasks: new[]
+        {
+            new AddUserStoryTaskItem("T1", "d", "Complex", "Done"),
+            new AddUserStoryTaskItem("T2"),
+            new AddUserStoryTaskItem(" ")
+        }), default);
+        dto.Tasks.Should().HaveCount(2);
+        dto.Tasks[0].Complexity.Should().Be("Complex");
+        dto.Tasks[0].Status.Should().Be("Done");
+        dto.Tasks[1].Complexity.Should().Be("Medium");
+    }
 }
 
 public class CreateAndSaveBacklogTests
@@ -0,0 +1,51 @@
+using DevPilot.Application.Services;
+using DevPilot.Domain.Entities;
+using FluentAssertions;
+
+namespace DevPilot.UnitTests.Application;
+
+public class SprintSyncMappingTests
+{
+    private static (Sprint Mapped, Sprint Other, Sprint Unmapped) Sprints()
+    {
+        var repositoryId = Guid.NewGuid();
+        var mapped = new Sprint(repositoryId, "Sprint 1", null, null, null, 20);
+        mapped.SetProviderMapping(@"Project\Sprint 1", 3);
+        var other = new Sprint(repositoryId, "Sprint 2", null, null, null, 20);
+        other.SetProviderMapping(@"Project\Sprint 2", 4);
+        var unmapped = new Sprint(repositoryId, "Local", null, null, null, null);
+        return (mapped, other, unmapped);
+    }
+
+    [Fact]
+    public void FromIterationPath_MatchingSprint_WinsCaseInsensitively()
+    {
+        var (mapped, other, unmapped) = Sprints();
+        SprintSyncMapping.FromIterationPath(other.Id, new[] { mapped, other, unmapped }, @"\project\sprint 1")
+            .Should().Be(mapped.Id);
+    }
+
+    [Fact]
+    public void FromIterationPath_MappedSprintNoLongerMatching_ReturnsToBacklog()
+    {
+        var (mapped, other, unmapped) = Sprints();
+        SprintSyncMapping.FromIterationPath(mapped.Id, new[] { mapped, other, unmapped }, @"Project")
+            .Should().BeNull();
+    }
+
+    [Fact]
+    public void FromIterationPath_UnmappedSprint_IsKept()
+    {
+        var (mapped, other, unmapped) = Sprints();
+        SprintSyncMapping.FromIterationPath(unmapped.Id, new[] { mapped, other, unmapped }, @"Project")
+            .Should().Be(unmapped.Id);
+    }
+
+    [Fact]
+    public void FromMilestone_MatchesByNumber()
+    {
+        var (mapped, other, unmapped) = Sprints();
+        SprintSyncMapping.FromMilestone(null, new[] { mapped, other, unmapped }, 4).Should().Be(other.Id);
+        SprintSyncMapping.FromMilestone(other.Id, new[] { mapped, other, unmapped }, null).Should().BeNull();
+    }
+}
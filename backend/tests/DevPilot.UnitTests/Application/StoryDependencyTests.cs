@@ -0,0 +1,110 @@
+using DevPilot.Application.Services;
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using FluentAssertions;
+using Moq;
+
+namespace DevPilot.UnitTests.Application;
+
+public class StoryDependencyValidatorTests
+{
+    private static (Mock<IEpicRepository> Repo, Guid RepositoryId, UserStory A, UserStory B, UserStory C) Backlog()
+    {
+        var repositoryId = Guid.NewGuid();
+        var epic = new Epic("E", repositoryId);
+        var feat = new Feature("F", epic.Id);
+        var a = new UserStory("A", feat.Id);
+        var b = new UserStory("B", feat.Id);
+        var c = new UserStory("C", feat.Id);
+        feat.UserStories.AddRange(new[] { a, b, c });
+        epic.Features.Add(feat);
+        var repo = new Mock<IEpicRepository>();
+        repo.Setup(x => x.GetByRepositoryIdAsync(repositoryId, It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new[] { epic });
+        return (repo, repositoryId, a, b, c);
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ValidateAsync_ValidChain_ReturnsNull()
+    {
+        var (repo, repositoryId, a, b, c) = Backlog();
+        b.SetDependsOn(new[] { c.Id });
+        var error = await StoryDependencyValidator.ValidateAsync(a.Id, repositoryId, new[] { b.Id }, repo.Object, default);
+        error.Should().BeNull();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ValidateAsync_Self_ReturnsError()
+    {
+        var (repo, repositoryId, a, _, _) = Backlog();
+        var error = await StoryDependencyValidator.ValidateAsync(a.Id, repositoryId, new[] { a.Id }, repo.Object, default);
+        error.Should().Contain("itself");
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ValidateAsync_UnknownStory_ReturnsError()
+    {
+        var (repo, repositoryId, a, _, _) = Backlog();
+        var error = await StoryDependencyValidator.ValidateAsync(a.Id, repositoryId, new[] { Guid.NewGuid() }, repo.Object, default);
+        error.Should().Contain("not part of");
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ValidateAsync_EmptyId_ReturnsError()
+    {
+        var (repo, repositoryId, a, b, _) = Backlog();
+        var error = await StoryDependencyValidator.ValidateAsync(a.Id, repositoryId, new[] { b.Id, Guid.Empty }, repo.Object, default);
+        error.Should().Contain("empty");
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ValidateAsync_Cycle_ReturnsError()
+    {
+        var (repo, repositoryId, a, b, c) = Backlog();
+        b.SetDependsOn(new[] { c.Id });
+        c.SetDependsOn(new[] { a.Id });
+        var error = await StoryDependencyValidator.ValidateAsync(a.Id, repositoryId, new[] { b.Id }, repo.Object, default);
+        error.Should().Contain("cycle");
+    }
+}
+
+public class AzureDevOpsDependencyLinksTests
+{
+    [Fact]
+    public void BuildAddPredecessorPatches_SkipsExistingLinks()
+    {
+        var patches = AzureDevOpsDependencyLinks.BuildAddPredecessorPatches("org", "my proj", new[] { 1, 2, 2 }, new[] { 1 });
+        patches.Should().HaveCount(1);
+        patches[0].Path.Should().Be("/relations/-");
+        var value = (Dictionary<string, object?>)patches[0].Value!;
+        value["rel"].Should().Be(AzureDevOpsDependencyLinks.PredecessorRelation);
+        value["url"].Should().Be("https://dev.azure.com/org/my%20proj/_apis/wit/workitems/2");
+    }
+
+    [Fact]
+    public void BuildRemovePredecessorPatches_RemovesDroppedTrackedLinksFromTheEnd()
+    {
+        var patches = AzureDevOpsDependencyLinks.BuildRemovePredecessorPatches(
+            new[] { 2 },
+            new Dictionary<int, int> { [1] = 0, [2] = 1, [3] = 3, [50] = 2 },
+            new HashSet<int> { 1, 2, 3 });
+        patches.Select(p => (p.Op, p.Path)).Should().Equal(("remove", "/relations/3"), ("remove", "/relations/0"));
+    }
+
+    [Fact]
+    public void MergePulledDependencies_FollowsAdoAndKeepsLocalOnlyLinks()
+    {
+        var featureId = Guid.NewGuid();
+        var story = new UserStory("S", featureId, azureDevOpsWorkItemId: 10);
+        var removedInAdo = new UserStory("Old", featureId, azureDevOpsWorkItemId: 11);
+        var predecessor = new UserStory("P", featureId, azureDevOpsWorkItemId: 12);
+        var localOnly = new UserStory("L", featureId);
+        story.SetDependsOn(new[] { removedInAdo.Id, localOnly.Id });
+        var storyIdByAdo = new Dictionary<int, Guid> { [10] = story.Id, [11] = removedInAdo.Id, [12] = predecessor.Id };
+
+        var merged = AzureDevOpsDependencyLinks.MergePulledDependencies(
+            story, new AzureDevOpsWorkItemDto { Id = 10, Title = "S", WorkItemType = "User Story", State = "New", PredecessorIds = new List<int> { 12, 99 } }, storyIdByAdo);
+
+        merged.Should().BeEquivalentTo(new[] { localOnly.Id, predecessor.Id });
+    }
+}
@@ -356,6 +356,67 @@ public class SyncBacklogToAzureDevOpsCommandHandlerTests
             It.IsAny<CancellationToken>(), true), Times.Once);
     }
 
+    [Fact]
+    public async System.Threading.Tasks.Task Handle_RemovedDependency_RemovesAdoLinkSoPullKeepsItRemoved()
+    {
+        var h = CreateHandler(out var epicMock, out var repoMock, out var userMock, out var adoMock);
+        var uid = Guid.NewGuid();
+        var repo = new Repository("n", "org/proj", "c", "AzureDevOps", "o", uid);
+        repoMock.Setup(x => x.GetByIdAsync(repo.Id, It.IsAny<CancellationToken>())).ReturnsAsync(repo);
+        var u = new User("a@b.c");
+        u.UpdateAzureDevOpsToken("secret");
+        userMock.Setup(x => x.GetByIdAsync(uid, It.IsAny<CancellationToken>())).ReturnsAsync(u);
+
+        var epic = new Epic("E", repo.Id);
+        var feat = new Feature("F", epic.Id);
+        var story = new UserStory("S", feat.Id, source: "AzureDevOps", azureDevOpsWorkItemId: 10);
+        var predecessor = new UserStory("P", feat.Id, source: "AzureDevOps", azureDevOpsWorkItemId: 12);
+        // The dependency on P was removed in DevPilot; ADO still links it (index 0) next to an untracked item (index 2)
+        story.SetDependsOn(Array.Empty<Guid>());
+        feat.UserStories.AddRange(new[] { story, predecessor });
+        epic.Features.Add(feat);
+        epicMock.Setup(x => x.GetByRepositoryIdAsync(repo.Id, It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new[] { epic });
+
+        var b64 = Convert.ToBase64String(System.Text.Encoding.ASCII.GetBytes(":secret"));
+        adoMock.Setup(x => x.GetWorkItemTypesByIdsAsync(
+                b64, "org", "proj", It.IsAny<IReadOnlyList<int>>(), It.IsAny<CancellationToken>(), true))
+            .ReturnsAsync(new Dictionary<int, string>());
+        adoMock.Setup(x => x.GetWorkItemsByIdsAsync(
+                b64, "org", "proj", It.IsAny<IReadOnlyList<int>>(), It.IsAny<CancellationToken>(), true))
+            .ReturnsAsync(new List<AzureDevOpsWorkItemDto>
+            {
+                new()
+                {
+                    Id = 10, Title = "S", WorkItemType = "User Story", State = "New",
+                    PredecessorIds = new List<int> { 12, 50 },
+                    PredecessorRelationIndexes = new Dictionary<int, int> { [12] = 0, [50] = 2 }
+                },
+                new() { Id = 12, Title = "P", WorkItemType = "User Story", State = "New" }
+            });
+        IReadOnlyList<AzureDevOpsWorkItemPatchOperation>? storyPatches = null;
+        adoMock.Setup(x => x.UpdateWorkItemAsync(
+                b64, "org", "proj", It.IsAny<int>(), It.IsAny<IReadOnlyList<AzureDevOpsWorkItemPatchOperation>>(),
+                It.IsAny<CancellationToken>(), true))
+            .Callback<string, string, string, int, IReadOnlyList<AzureDevOpsWorkItemPatchOperation>, CancellationToken, bool>(
+                (_, _, _, id, patches, _, _) => { if (id == 10) storyPatches = patches; })
+            .Returns(System.Threading.Tasks.Task.CompletedTask);
+
+        var r = await h.Handle(new SyncBacklogToAzureDevOpsCommand(repo.Id, uid, [], [], []), default);
+
+        r.Success.Should().BeTrue();
+        storyPatches.Should().NotBeNull();
+        storyPatches!.Where(p => p.Op == "remove").Select(p => p.Path).Should().Equal("/relations/0");
+        storyPatches.Should().NotContain(p => p.Path == "/relations/-");
+
+        // The next pull sees ADO without the link and keeps the dependency removed
+        var pulled = AzureDevOpsDependencyLinks.MergePulledDependencies(
+            story,
+            new AzureDevOpsWorkItemDto { Id = 10, Title = "S", WorkItemType = "User Story", State = "New", PredecessorIds = new List<int> { 50 } },
+            new Dictionary<int, Guid> { [10] = story.Id, [12] = predecessor.Id });
+        pulled.Should().BeEmpty();
+    }
+
     [Fact]
     public async System.Threading.Tasks.Task Handle_UpdateWorkItemFails_CountsFailed()
     {
@@ -99,6 +99,20 @@ public class EpicFeatureStoryTaskTests
         us.SetPrUrl(null);
     }
 
+    [Fact]
+    public void UserStory_RecordTestResult_KeepsStatusAndTruncatesSummary()
+    {
+        var us = new UserStory("S", Guid.NewGuid());
+        us.RecordTestResult(false, "  Tests: 1 failed, 41 passed  ");
+        us.LastTestStatus.Should().Be("Failed");
+        us.LastTestSummary.Should().Be("Tests: 1 failed, 41 passed");
+        us.LastTestRunAt.Should().NotBeNull();
+
+        us.RecordTestResult(true, new string('x', 600));
+        us.LastTestStatus.Should().Be("Passed");
+        us.LastTestSummary.Should().HaveLength(UserStory.MaxTestSummaryLength);
+    }
+
     [Fact]
     public void Task_Lifecycle()
     {
@@ -182,3 +196,262 @@ public class AnalysisEntityTests
         f.Update("e2", complexity: "high");
     }
 }
+
+public class SprintTests
+{
+    [Fact]
+    public void Sprint_Lifecycle()
+    {
+        var s = new Sprint(Guid.NewGuid(), "Sprint 1", null, new DateTime(2026, 5, 4), new DateTime(2026, 5, 15), 20);
+        s.Status.Should().Be(Sprint.StatusPlanned);
+        s.Start();
+        s.Status.Should().Be(Sprint.StatusActive);
+        s.Complete(21, 13);
+        s.CommittedPoints.Should().Be(21);
+        s.CompletedPoints.Should().Be(13);
+        Assert.Throws<InvalidOperationException>(() => s.Start());
+    }
+
+    [Fact]
+    public void Sprint_Validation()
+    {
+        Assert.Throws<ArgumentException>(() => new Sprint(Guid.NewGuid(), "S", null, new DateTime(2026, 5, 4), new DateTime(2026, 5, 1), null));
+        Assert.Throws<ArgumentException>(() => new Sprint(Guid.NewGuid(), "S", null, null, null, -1));
+        var s = new Sprint(Guid.NewGuid(), "S", null, null, null, null);
+        s.SetProviderMapping("  ", 0);
+        s.AzureDevOpsIterationPath.Should().BeNull();
+        s.GitHubMilestoneNumber.Should().BeNull();
+    }
+}
+
+public class StoryStatusTransitionTests
+{
+    [Fact]
+    public void UserStory_ChangeStatus_RecordsPendingTransitions()
+    {
+        var story = new UserStory("S", Guid.NewGuid());
+        story.ChangeStatus("Backlog");
+        story.PendingStatusTransitions.Should().BeEmpty();
+
+        story.ChangeStatus("InProgress");
+        story.ChangeStatus("Done", "https://example.com/pr/1");
+        story.PendingStatusTransitions.Select(t => (t.FromStatus, t.ToStatus))
+            .Should().Equal(("Backlog", "InProgress"), ("InProgress", "Done"));
+        story.PendingStatusTransitions.Should().OnlyContain(t => t.UserStoryId == story.Id);
+
+        story.ClearPendingStatusTransitions();
+        story.PendingStatusTransitions.Should().BeEmpty();
+    }
+
+    [Fact]
+    public void UserStory_ChangeStatus_RecordsSourceUserAndPr()
+    {
+        var story = new UserStory("S", Guid.NewGuid());
+        var userId = Guid.NewGuid();
+
+        story.ChangeStatus("InProgress");
+        story.ChangeStatus("PendingReview", "https://example.com/pr/2", StoryStatusTransition.SourceAgent, userId);
+        story.ChangeStatus("Done", null, StoryStatusTransition.SourcePrSync);
+
+        var transitions = story.PendingStatusTransitions;
+        transitions[0].Source.Should().Be(StoryStatusTransition.SourceUser);
+        transitions[0].PrUrl.Should().BeNull();
+        transitions[1].Source.Should().Be(StoryStatusTransition.SourceAgent);
+        transitions[1].ChangedByUserId.Should().Be(userId);
+        transitions[1].PrUrl.Should().Be("https://example.com/pr/2");
+        transitions[2].Source.Should().Be(StoryStatusTransition.SourcePrSync);
+        transitions[2].ChangedByUserId.Should().BeNull();
+        transitions[2].PrUrl.Should().Be("https://example.com/pr/2");
+    }
+}
+
+public class SandboxIdlePolicyTests
+{
+    [Fact]
+    public void GetValidationError_AcceptsDisabledAndRejectsOutOfRange()
+    {
+        SandboxIdlePolicy.GetValidationError(60, 5).Should().BeNull();
+        SandboxIdlePolicy.GetValidationError(0, 5).Should().BeNull();
+        SandboxIdlePolicy.GetValidationError(-1, 5).Should().NotBeNull();
+        SandboxIdlePolicy.GetValidationError(SandboxIdlePolicy.MaxIdleMinutes + 1, 5).Should().NotBeNull();
+        SandboxIdlePolicy.GetValidationError(10, 0).Should().NotBeNull();
+        SandboxIdlePolicy.GetValidationError(10, 10).Should().NotBeNull();
+    }
+
+    [Fact]
+    public void Update_ChangesValuesAndRejectsInvalidOnes()
+    {
+        var policy = new SandboxIdlePolicy(null, 60, 5);
+        policy.IsDefault.Should().BeTrue();
+
+        policy.Update(30, 2);
+        policy.IdleMinutes.Should().Be(30);
+        policy.WarningMinutes.Should().Be(2);
+        policy.UpdatedAt.Should().NotBeNull();
+
+        var act = () => policy.Update(5, 5);
+        act.Should().Throw<ArgumentOutOfRangeException>();
+    }
+}
+
+public class StoryWorkspaceSnapshotTests
+{
+    [Fact]
+    public void Constructor_UsesGivenIdAndNormalizesBranch()
+    {
+        var id = Guid.NewGuid();
+        var storyId = Guid.NewGuid();
+        var snapshot = new StoryWorkspaceSnapshot(id, storyId, "sbx-1", Guid.NewGuid(), "  ", 1024, "{}");
+
+        snapshot.Id.Should().Be(id);
+        snapshot.UserStoryId.Should().Be(storyId);
+        snapshot.Branch.Should().BeNull();
+        snapshot.ArchiveSizeBytes.Should().Be(1024);
+
+        var act = () => new StoryWorkspaceSnapshot(Guid.NewGuid(), storyId, "sbx-1", Guid.NewGuid(), "main", -1, "{}");
+        act.Should().Throw<ArgumentOutOfRangeException>();
+    }
+}
+
+public class RepositorySandboxProfileTests
+{
+    [Fact]
+    public void Constructor_DropsBlankCommandsAndRoundTripsEnvironment()
+    {
+        var env = new Dictionary<string, string> { ["ASPNETCORE_ENVIRONMENT"] = "Development" };
+        var profile = new RepositorySandboxProfile(Guid.NewGuid(), new[] { " npm ci ", "", "dotnet restore" }, env, 4200, true);
+
+        profile.GetSetupCommandList().Should().Equal("npm ci", "dotnet restore");
+        profile.GetEnvironmentVariables().Should().ContainKey("ASPNETCORE_ENVIRONMENT").WhoseValue.Should().Be("Development");
+        profile.PreviewPort.Should().Be(4200);
+        profile.UseDevcontainer.Should().BeTrue();
+    }
+
+    [Fact]
+    public void GetValidationError_RejectsBadNamesReservedNamesAndPorts()
+    {
+        var none = new Dictionary<string, string>();
+        RepositorySandboxProfile.GetValidationError(new[] { "npm ci" }, none, 3000).Should().BeNull();
+        RepositorySandboxProfile.GetValidationError(new[] { "npm ci" }, new Dictionary<string, string> { ["1BAD"] = "x" }, null).Should().NotBeNull();
+        RepositorySandboxProfile.GetValidationError(new[] { "npm ci" }, new Dictionary<string, string> { ["SANDBOX_TOKEN"] = "x" }, null).Should().NotBeNull();
+        RepositorySandboxProfile.GetValidationError(Array.Empty<string>(), none, 70000).Should().NotBeNull();
+    }
+
+    [Fact]
+    public void TestCommand_IsTrimmedAndBlockingRequiresACommand()
+    {
+        var none = new Dictionary<string, string>();
+        var profile = new RepositorySandboxProfile(Guid.NewGuid(), Array.Empty<string>(), none, null, false, " npm test ", true);
+        profile.TestCommand.Should().Be("npm test");
+        profile.BlockPullRequestOnTestFailure.Should().BeTrue();
+
+        profile.Update(Array.Empty<string>(), none, null, false, "  ", true);
+        profile.TestCommand.Should().BeNull();
+        profile.BlockPullRequestOnTestFailure.Should().BeFalse();
+
+        RepositorySandboxProfile.GetValidationError(Array.Empty<string>(), none, null, "npm test\nrm -rf /").Should().NotBeNull();
+    }
+}
+
+public class RepositoryPullRequestTemplateTests
+{
+    [Fact]
+    public void Constructor_NormalizesBlankTemplatesAndDeduplicatesReviewers()
+    {
+        var template = new RepositoryPullRequestTemplate(
+            Guid.NewGuid(), " feature/{id}-{slug} ", "", null, "  ", "develop",
+            new[] { "octocat", " Octocat ", "", "org/backend" }, new[] { "devpilot" }, true);
+
+        template.BranchNameTemplate.Should().Be("feature/{id}-{slug}");
+        template.CommitMessageTemplate.Should().BeNull();
+        template.BodyTemplate.Should().BeNull();
+        template.GetReviewerList().Should().Equal("octocat", "org/backend");
+        template.GetLabelList().Should().Equal("devpilot");
+        template.Draft.Should().BeTrue();
+    }
+
+    [Fact]
+    public void GetValidationError_RejectsMultilineTemplatesSpacesInBranchesAndTooManyReviewers()
+    {
+        var none = Array.Empty<string>();
+        RepositoryPullRequestTemplate.GetValidationError("feature/{id}", "Implement: {title}", null, "body\nlines", "main", none, none).Should().BeNull();
+        RepositoryPullRequestTemplate.GetValidationError(null, "a\nb", null, null, null, none, none).Should().NotBeNull();
+        RepositoryPullRequestTemplate.GetValidationError("feature/{title}", null, null, null, "my branch", none, none).Should().NotBeNull();
+        RepositoryPullRequestTemplate.GetValidationError(null, null, null, null, null, Enumerable.Range(0, 21).Select(i => $"user{i}").ToList(), none).Should().NotBeNull();
+    }
+}
+
+public class TokenUsageAccountingTests
+{
+    [Fact]
+    public void LlmSetting_ComputeCost_UsesPricesPerMillionTokensAndNullWithoutPrices()
+    {
+        var setting = new LlmSetting(Guid.NewGuid(), "Work", "openai", "key", "gpt-4o", null);
+        setting.ComputeCost(1000, 1000).Should().BeNull();
+
+        setting.SetPricing(2.5m, 10m);
+        setting.ComputeCost(1_000_000, 500_000).Should().Be(7.5m);
+
+        setting.SetPricing(null, 10m);
+        setting.ComputeCost(1_000_000, 100_000).Should().Be(1m);
+
+        var act = () => setting.SetPricing(-1m, null);
+        act.Should().Throw<ArgumentOutOfRangeException>();
+    }
+
+    [Fact]
+    public void UsageBudget_ReportsSoftAndHardLimitsAndValidates()
+    {
+        UsageBudget.GetValidationError(50m, 100m).Should().BeNull();
+        UsageBudget.GetValidationError(null, null).Should().BeNull();
+        UsageBudget.GetValidationError(-1m, null).Should().NotBeNull();
+        UsageBudget.GetValidationError(200m, 100m).Should().NotBeNull();
+
+        var budget = new UsageBudget(null, 50m, 100m);
+        budget.IsDefault.Should().BeTrue();
+        budget.GetState(10m).Should().Be(UsageBudget.StateOk);
+        budget.GetState(50m).Should().Be(UsageBudget.StateSoftLimitReached);
+        budget.GetState(100m).Should().Be(UsageBudget.StateHardLimitReached);
+
+        budget.Update(null, 100m);
+        budget.GetState(99m).Should().Be(UsageBudget.StateOk);
+
+        UsageBudget.MonthStart(new DateTime(2026, 5, 17, 13, 45, 0, DateTimeKind.Utc))
+            .Should().Be(new DateTime(2026, 5, 1, 0, 0, 0, DateTimeKind.Utc));
+    }
+}
+
+public class SandboxViewShareTests
+{
+    [Fact]
+    public void SandboxViewShare_IsActiveUntilExpiryOrRevocation()
+    {
+        var share = new SandboxViewShare("abc123", Guid.NewGuid(), "  Add login page  ", 60);
+        share.Title.Should().Be("Add login page");
+        share.Token.Should().HaveLength(43).And.NotContainAny("+", "/", "=");
+        share.ExpiresAt.Should().Be(share.CreatedAt.AddMinutes(60));
+        share.IsActive(share.CreatedAt.AddMinutes(59)).Should().BeTrue();
+        share.IsActive(share.CreatedAt.AddMinutes(60)).Should().BeFalse();
+
+        var open = new SandboxViewShare("abc123", Guid.NewGuid(), null, null);
+        open.Title.Should().Be("Sandbox abc123");
+        open.IsActive(DateTime.UtcNow.AddYears(1)).Should().BeTrue();
+        open.Token.Should().NotBe(share.Token);
+
+        open.Revoke();
+        open.RevokedAt.Should().NotBeNull();
+        open.IsActive(DateTime.UtcNow).Should().BeFalse();
+    }
+
+    [Fact]
+    public void SandboxViewShare_ValidatesExpiry()
+    {
+        SandboxViewShare.GetValidationError(null).Should().BeNull();
+        SandboxViewShare.GetValidationError(30).Should().BeNull();
+        SandboxViewShare.GetValidationError(0).Should().NotBeNull();
+        SandboxViewShare.GetValidationError(SandboxViewShare.MaxExpiresInMinutes + 1).Should().NotBeNull();
+
+        var act = () => new SandboxViewShare("abc123", Guid.NewGuid(), null, -5);
+        act.Should().Throw<ArgumentOutOfRangeException>();
+    }
+}
@@ -103,4 +103,23 @@ public class EffectiveAiConfigResolverTests
         empty.ApiKey.Should().BeNull();
         empty.Model.Should().BeNull();
     }
+
+    [Fact]
+    public async System.Threading.Tasks.Task ChosenLlm_Allows_OwnAndShared_Only()
+    {
+        var uid = Guid.NewGuid();
+        var own = new LlmSetting(uid, "own", "anthropic", "k-own", "claude", null, isDefault: false);
+        var shared = LlmSetting.CreateShared("shared", "openai", "sk-shared", "gpt", null);
+        var foreign = new LlmSetting(Guid.NewGuid(), "other", "openai", "k-other", "gpt", null, isDefault: false);
+
+        var llms = new Mock<ILlmSettingRepository>();
+        foreach (var llm in new[] { own, shared, foreign })
+            llms.Setup(x => x.GetByIdAsync(llm.Id, It.IsAny<CancellationToken>())).ReturnsAsync(llm);
+
+        var h = new EffectiveAiConfigResolver(Mock.Of<IUserRepository>(), llms.Object, Mock.Of<IRepositoryRepository>(), NullLogger<EffectiveAiConfigResolver>.Instance);
+        (await h.GetConfigForLlmSettingAsync(uid, own.Id))!.ApiKey.Should().Be("k-own");
+        (await h.GetConfigForLlmSettingAsync(uid, shared.Id))!.Model.Should().Be("gpt");
+        (await h.GetConfigForLlmSettingAsync(uid, foreign.Id)).Should().BeNull();
+        (await h.GetConfigForLlmSettingAsync(uid, Guid.NewGuid())).Should().BeNull();
+    }
 }
@@ -0,0 +1,124 @@
+using DevPilot.Application.Services;
+using DevPilot.Domain.Entities;
+using DevPilot.Domain.Interfaces;
+using DevPilot.Infrastructure.Services;
+using FluentAssertions;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+
+namespace DevPilot.UnitTests.Infrastructure;
+
+public class TokenUsageServiceTests
+{
+    [Fact]
+    public void ParseTurns_Reads_Usage_And_Skips_Entries_Without_It()
+    {
+        const string json = """
+            {"conversations": [
+              {"id": "a1", "timestamp": 1767225600.5, "model": "gpt-4o", "usage": {"prompt_tokens": 1200, "completion_tokens": 300}},
+              {"id": "a2", "timestamp": 1767225700, "model": "gpt-4o"},
+              {"id": "a3", "timestamp": 1767225800, "model": "gpt-4o", "usage": {"prompt_tokens": 0, "completion_tokens": 0}},
+              {"timestamp": 1767225900, "usage": {"prompt_tokens": 5, "completion_tokens": 5}}
+            ], "count": 4}
+            """;
+
+        var turns = TokenUsageService.ParseTurns(json);
+
+        turns.Should().ContainSingle();
+        turns[0].TurnId.Should().Be("a1");
+        turns[0].PromptTokens.Should().Be(1200);
+        turns[0].CompletionTokens.Should().Be(300);
+        turns[0].OccurredAt.Should().Be(new DateTime(2026, 1, 1, 0, 0, 0, 500, DateTimeKind.Utc));
+        TokenUsageService.ParseTurns("<html>bad gateway</html>").Should().BeEmpty();
+    }
+
+    [Fact]
+    public void FindPricing_Picks_First_Priced_Setting_For_The_Model()
+    {
+        var unpriced = new LlmSetting(Guid.NewGuid(), "Mine", "openai", "k", "gpt-4o", null);
+        var priced = LlmSetting.CreateShared("Team", "openai", "k", "GPT-4o", null);
+        priced.SetPricing(2.5m, 10m);
+        var other = LlmSetting.CreateShared("Other", "anthropic", "k", "claude", null);
+        other.SetPricing(3m, 15m);
+
+        TokenUsageService.FindPricing(new[] { unpriced, other, priced }, "gpt-4o").Should().BeSameAs(priced);
+        TokenUsageService.FindPricing(new[] { unpriced }, "gpt-4o").Should().BeNull();
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task BudgetStatus_Uses_User_Budget_Before_Admin_Default()
+    {
+        var uid = Guid.NewGuid();
+        var usage = new Mock<ITokenUsageRepository>();
+        usage.Setup(r => r.GetUserTotalsSinceAsync(uid, It.IsAny<DateTime>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new TokenUsageTotals(null, null, uid, 1000, 200, 60m, 3));
+        var budgets = new Mock<IUsageBudgetRepository>();
+        budgets.Setup(r => r.GetDefaultAsync(It.IsAny<CancellationToken>())).ReturnsAsync(new UsageBudget(null, 10m, 50m));
+        var service = CreateService(usage.Object, budgets.Object);
+
+        var status = await service.GetBudgetStatusAsync(uid);
+        status.State.Should().Be(UsageBudget.StateHardLimitReached);
+        status.Source.Should().Be("admin");
+        status.Spent.Should().Be(60m);
+
+        budgets.Setup(r => r.GetByUserIdAsync(uid, It.IsAny<CancellationToken>())).ReturnsAsync(new UsageBudget(uid, 50m, 500m));
+        status = await service.GetBudgetStatusAsync(uid);
+        status.State.Should().Be(UsageBudget.StateSoftLimitReached);
+        status.Source.Should().Be("user");
+    }
+
+    [Fact]
+    public async System.Threading.Tasks.Task RecordFromSandbox_Reads_The_Bridge_And_Attributes_A_Code_Ask_Sandbox_To_Its_Repository()
+    {
+        var uid = Guid.NewGuid();
+        var repository = new Repository("api", "acme/api", "https://git/acme/api", "GitHub", "acme", uid);
+        var sandboxes = new Mock<ISandboxService>();
+        sandboxes.Setup(s => s.TryGetConversationsJsonAsync("sb-1", It.IsAny<CancellationToken>())).ReturnsAsync(
+            """{"conversations": [{"id": "a1", "timestamp": 1767225600, "model": "gpt-4o", "usage": {"prompt_tokens": 100, "completion_tokens": 20}}]}""");
+        var bindings = new Mock<IUserRepositorySandboxBindingRepository>();
+        bindings.Setup(b => b.GetBySandboxIdsAsync(It.IsAny<IReadOnlyCollection<string>>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new[] { new UserRepositorySandboxBinding(uid, repository.Id, "sb-1", "main") });
+        var repositories = new Mock<IRepositoryRepository>();
+        repositories.Setup(r => r.GetByIdAsync(repository.Id, It.IsAny<CancellationToken>())).ReturnsAsync(repository);
+        var conversations = new Mock<IStorySandboxConversationRepository>();
+        conversations.Setup(c => c.GetStoryIdsBySandboxIdsAsync(It.IsAny<IReadOnlyCollection<string>>(), It.IsAny<CancellationToken>()))
+            .ReturnsAsync(new Dictionary<string, Guid>());
+        IReadOnlyCollection<TokenUsageRecord>? recorded = null;
+        var usage = new Mock<ITokenUsageRepository>();
+        usage.Setup(r => r.AddNewAsync(It.IsAny<IReadOnlyCollection<TokenUsageRecord>>(), It.IsAny<CancellationToken>()))
+            .Callback<IReadOnlyCollection<TokenUsageRecord>, CancellationToken>((records, _) => recorded = records)
+            .ReturnsAsync(1);
+        var service = CreateService(usage.Object, Mock.Of<IUsageBudgetRepository>(), sandboxes.Object,
+            repositories.Object, conversations.Object, bindings.Object);
+
+        var added = await service.RecordFromSandboxAsync(new SandboxListItem { Id = "sb-1", OwnerId = uid });
+
+        added.Should().Be(1);
+        var record = recorded.Should().ContainSingle().Subject;
+        record.UserId.Should().Be(uid);
+        record.RepositoryId.Should().Be(repository.Id);
+        record.UserStoryId.Should().BeNull();
+        record.PromptTokens.Should().Be(100);
+
+        // Sandboxes nobody owns are not charged to anyone
+        (await service.RecordFromSandboxAsync(new SandboxListItem { Id = "sb-1" })).Should().Be(0);
+    }
+
+    private static TokenUsageService CreateService(
+        ITokenUsageRepository usage,
+        IUsageBudgetRepository budgets,
+        ISandboxService? sandboxes = null,
+        IRepositoryRepository? repositories = null,
+        IStorySandboxConversationRepository? conversations = null,
+        IUserRepositorySandboxBindingRepository? bindings = null) =>
+        new(
+            usage,
+            budgets,
+            Mock.Of<ILlmSettingRepository>(),
+            sandboxes ?? Mock.Of<ISandboxService>(),
+            Mock.Of<IUserStoryRepository>(),
+            repositories ?? Mock.Of<IRepositoryRepository>(),
+            conversations ?? Mock.Of<IStorySandboxConversationRepository>(),
+            bindings ?? Mock.Of<IUserRepositorySandboxBindingRepository>(),
+            NullLogger<TokenUsageService>.Instance);
+}
@@ -7,6 +7,7 @@ import { MermaidDiagramService } from './core/services/mermaid-diagram.service';
 import { VncViewerService } from './core/services/vnc-viewer.service';
 import { SandboxService } from './core/services/sandbox.service';
 import { AuthService } from './core/services/auth.service';
+import { SandboxIdleService } from './core/services/sandbox-idle.service';
 
 describe('AppComponent', () => {
   let viewers$: BehaviorSubject<unknown[]>;
@@ -37,6 +38,7 @@ describe('AppComponent', () => {
             listSandboxes: () => of([]),
           }
         },
+        { provide: SandboxIdleService, useValue: { start: jest.fn() } },
         {
           provide: AuthService,
           useValue: {
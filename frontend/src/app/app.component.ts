@@ -23,6 +23,7 @@ import { ConfirmDialogComponent } from './components/confirm-dialog/confirm-dial
 import { MermaidModalComponent } from './components/mermaid-modal/mermaid-modal.component';
 import { VncViewerService, VncViewer } from './core/services/vnc-viewer.service';
 import { SandboxService, Sandbox } from './core/services/sandbox.service';
+import { SandboxIdleService } from './core/services/sandbox-idle.service';
 // VNC URLs now come from the sandbox manager proxy
 import { AuthService } from './core/services/auth.service';
 import { CommonModule, DOCUMENT } from '@angular/common';
@@ -91,6 +92,7 @@ export class AppComponent implements OnInit, OnDestroy {
     private themeService: ThemeService,
     private vncViewerService: VncViewerService,
     private sandboxService: SandboxService,
+    private sandboxIdleService: SandboxIdleService,
     public authService: AuthService
   ) {
     const destroyRef = inject(DestroyRef);
@@ -182,6 +184,9 @@ export class AppComponent implements OnInit, OnDestroy {
     // Initialize theme on app start
     this.themeService.setTheme(this.themeService.theme());
 
+    // Idle auto-shutdown (warning toast, then stop) for sandboxes with an open viewer
+    this.sandboxIdleService.start();
+
     // Subscribe to VNC viewers
     this.subscriptions.push(
       this.vncViewerService.viewers$.subscribe(viewers => {
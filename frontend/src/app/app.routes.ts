@@ -17,6 +17,11 @@ export const routes: Routes = [
     path: 'auth/callback/:provider',
     loadComponent: () => import('./core/auth/callback/callback.component').then(m => m.CallbackComponent)
   },
+  {
+    // Read-only share link of a running sandbox; opened without signing in.
+    path: 'share/:token',
+    loadComponent: () => import('./features/shared-view/shared-view.component').then(m => m.SharedViewComponent)
+  },
   {
     path: 'repositories',
     loadComponent: () => import('./features/repositories/repositories.component').then(m => m.RepositoriesComponent)
@@ -25,11 +30,19 @@ export const routes: Routes = [
     path: 'settings',
     loadComponent: () => import('./features/settings/settings.component').then(m => m.SettingsComponent)
   },
+  {
+    path: 'sandboxes',
+    loadComponent: () => import('./features/sandboxes/sandboxes.component').then(m => m.SandboxesComponent)
+  },
   {
     path: 'backlog/:repositoryId',
     loadComponent: () => import('./features/backlog/backlog.component').then(m => m.BacklogComponent),
     canDeactivate: [backlogCanDeactivateGuard]
   },
+  {
+    path: 'insights/:repositoryId',
+    loadComponent: () => import('./features/insights/insights.component').then(m => m.InsightsComponent)
+  },
   {
     path: 'code/:repositoryId',
     loadComponent: () => import('./features/code/code.component').then(m => m.CodeComponent),
@@ -24,6 +24,8 @@ export interface EditItemData {
   storyPoints?: number;
   status?: string;
   repositoryAgentRuleId?: string | null;
+  repositoryPromptTemplateId?: string | null;
+  dependsOnStoryIds?: string[];
 }
 
 export interface StoryAgentRuleOption {
@@ -32,6 +34,21 @@ export interface StoryAgentRuleOption {
   isDefault?: boolean;
 }
 
+/** Named implementation prompt template of this repository (story picker). */
+export interface StoryPromptTemplateOption {
+  id: string;
+  name: string;
+  isDefault?: boolean;
+}
+
+/** Another story of the backlog that the edited story can depend on. */
+export interface StoryDependencyOption {
+  id: string;
+  title: string;
+  status: string;
+  featureTitle: string;
+}
+
 @Component({
   selector: 'app-add-backlog-item-modal',
   standalone: true,
@@ -353,6 +370,104 @@ export interface StoryAgentRuleOption {
                     </div>
                     <p class="story-profile-hint">Uses the named rule from repository AI settings. Leave on default unless this story needs different instructions.</p>
                   </div>
+                  @if (storyPromptTemplateOptions().length > 0) {
+                    <div class="story-profile-field story-profile-field--spaced">
+                      <label class="story-profile-label" id="storyPromptTemplateFieldLabel">Implementation prompt</label>
+                      <div class="story-profile-dropdown" #storyPromptTemplateRoot>
+                        <div class="story-profile-trigger-wrap">
+                          <button
+                            type="button"
+                            class="story-profile-trigger"
+                            id="storyPromptTemplate"
+                            aria-haspopup="listbox"
+                            [attr.aria-expanded]="storyPromptTemplateMenuOpen"
+                            [attr.aria-controls]="storyPromptTemplateMenuOpen ? 'storyPromptTemplateListbox' : null"
+                            aria-labelledby="storyPromptTemplateFieldLabel"
+                            (click)="toggleStoryPromptTemplateMenu($event)">
+                            <span class="story-profile-trigger__text">{{ storyPromptTemplateDisplayLabel() }}</span>
+                            <span class="story-profile-trigger__chevron" [class.story-profile-trigger__chevron--open]="storyPromptTemplateMenuOpen" aria-hidden="true">
+                              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" width="18" height="18">
+                                <polyline points="6 9 12 15 18 9"/>
+                              </svg>
+                            </span>
+                          </button>
+                        </div>
+                        @if (storyPromptTemplateMenuOpen && storyPromptTemplateMenuFixedStyle) {
+                          <div
+                            class="story-profile-menu"
+                            id="storyPromptTemplateListbox"
+                            role="listbox"
+                            aria-labelledby="storyPromptTemplateFieldLabel"
+                            [style.top]="storyPromptTemplateMenuFixedStyle.top"
+                            [style.left]="storyPromptTemplateMenuFixedStyle.left"
+                            [style.width]="storyPromptTemplateMenuFixedStyle.width"
+                          >
+                            <button
+                              type="button"
+                              class="story-profile-menu__item"
+                              role="option"
+                              [attr.aria-selected]="selectedStoryPromptTemplateId === ''"
+                              [class.story-profile-menu__item--active]="selectedStoryPromptTemplateId === ''"
+                              (click)="pickStoryPromptTemplate('')">
+                              Repository default
+                            </button>
+                            @for (opt of storyPromptTemplateOptions(); track opt.id) {
+                              <button
+                                type="button"
+                                class="story-profile-menu__item"
+                                role="option"
+                                [attr.aria-selected]="selectedStoryPromptTemplateId === opt.id"
+                                [class.story-profile-menu__item--active]="selectedStoryPromptTemplateId === opt.id"
+                                (click)="pickStoryPromptTemplate(opt.id)">
+                                {{ opt.name }}
+                              </button>
+                            }
+                          </div>
+                        }
+                      </div>
+                      <p class="story-profile-hint">Template used to write the prompt sent to the agent when this story is implemented.</p>
+                    </div>
+                  }
+                </div>
+                <div class="story-profile-block">
+                  <h4 class="section-title story-profile-block__heading">
+                    <span class="story-profile-block__icon" aria-hidden="true">
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                        <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"/>
+                        <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"/>
+                      </svg>
+                    </span>
+                    Depends on
+                    @if (selectedDependsOnIds.length > 0) {
+                      <span class="depends-on-count">{{ selectedDependsOnIds.length }}</span>
+                    }
+                  </h4>
+                  @if (availableDependencyOptions().length === 0) {
+                    <p class="story-profile-hint">No other stories in this backlog yet.</p>
+                  } @else {
+                    <input
+                      type="text"
+                      class="depends-on-filter"
+                      placeholder="Filter stories..."
+                      [(ngModel)]="dependsOnFilter"
+                      name="dependsOnFilter"
+                      aria-label="Filter stories" />
+                    <div class="depends-on-list" role="group" aria-label="Stories this one depends on">
+                      @for (opt of filteredDependencyOptions(); track opt.id) {
+                        <label class="depends-on-item" [title]="opt.featureTitle + ' › ' + opt.title">
+                          <input
+                            type="checkbox"
+                            [checked]="isDependsOnSelected(opt.id)"
+                            (change)="toggleDependsOn(opt.id)" />
+                          <span class="depends-on-item__title">{{ opt.title }}</span>
+                          <span class="depends-on-item__status" [class.depends-on-item__status--done]="opt.status === 'Done'">{{ opt.status }}</span>
+                        </label>
+                      } @empty {
+                        <p class="story-profile-hint">No matching stories.</p>
+                      }
+                    </div>
+                    <p class="story-profile-hint">Implement stays disabled until every selected story is Done.</p>
+                  }
                 </div>
               </div>
             </div>
@@ -602,6 +717,9 @@ export interface StoryAgentRuleOption {
       flex-direction: column;
       gap: 0.35rem;
     }
+    .story-profile-field--spaced {
+      margin-top: 0.85rem;
+    }
     .story-profile-label {
       font-size: 0.8125rem;
       font-weight: 600;
@@ -751,6 +869,66 @@ export interface StoryAgentRuleOption {
       line-height: 1.45;
       color: var(--text-tertiary);
     }
+    .depends-on-count {
+      margin-left: auto;
+      min-width: 1.25rem;
+      padding: 0 0.35rem;
+      border-radius: 999px;
+      font-size: 0.6875rem;
+      line-height: 1.25rem;
+      text-align: center;
+      background: rgba(96, 165, 250, 0.18);
+      color: rgba(147, 197, 253, 1);
+    }
+    .depends-on-filter {
+      width: 100%;
+      padding: 0.4rem 0.6rem;
+      margin-bottom: 0.4rem;
+      border-radius: 8px;
+      border: 1px solid var(--border-default, rgba(255,255,255,0.12));
+      background: var(--bg-primary, rgba(0,0,0,0.2));
+      color: var(--text-primary);
+      font-size: 0.8125rem;
+    }
+    .depends-on-filter:focus {
+      outline: none;
+      border-color: var(--brand-primary, #6366f1);
+    }
+    .depends-on-list {
+      display: flex;
+      flex-direction: column;
+      gap: 0.15rem;
+      max-height: 180px;
+      overflow-y: auto;
+    }
+    .depends-on-item {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 0.3rem 0.4rem;
+      border-radius: 6px;
+      font-size: 0.8125rem;
+      color: var(--text-secondary);
+      cursor: pointer;
+    }
+    .depends-on-item:hover {
+      background: var(--surface-hover, rgba(255,255,255,0.06));
+    }
+    .depends-on-item__title {
+      flex: 1;
+      min-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .depends-on-item__status {
+      flex-shrink: 0;
+      font-size: 0.6875rem;
+      color: var(--text-muted, #94a3b8);
+    }
+    .depends-on-item__status--done {
+      color: #34d399;
+    }
 
     /* AI suggest button styles */
     .label-row {
@@ -1129,6 +1307,7 @@ export class AddBacklogItemModalComponent implements OnInit {
   private backlogService = inject(BacklogService);
 
   @ViewChild('storyProfileRoot') storyProfileRoot?: ElementRef<HTMLElement>;
+  @ViewChild('storyPromptTemplateRoot') storyPromptTemplateRoot?: ElementRef<HTMLElement>;
   @ViewChild('parentEpicRoot') parentEpicRoot?: ElementRef<HTMLElement>;
   @ViewChild('parentFeatureRoot') parentFeatureRoot?: ElementRef<HTMLElement>;
 
@@ -1143,6 +1322,10 @@ export class AddBacklogItemModalComponent implements OnInit {
   repositoryId = input<string | null>(null);
   /** Named agent rule profiles for this repository (story picker). */
   storyAgentRuleOptions = input<StoryAgentRuleOption[]>([]);
+  /** Named implementation prompt templates for this repository (story picker; hidden when empty). */
+  storyPromptTemplateOptions = input<StoryPromptTemplateOption[]>([]);
+  /** Stories of this backlog the story can depend on (the edited story itself is filtered out). */
+  storyDependencyOptions = input<StoryDependencyOption[]>([]);
 
   add = output<{
     id?: string; // Present when editing
@@ -1154,6 +1337,9 @@ export class AddBacklogItemModalComponent implements OnInit {
     status?: string;
     repositoryAgentRuleId?: string | null;
     updateRepositoryAgentRule?: boolean;
+    repositoryPromptTemplateId?: string | null;
+    updateRepositoryPromptTemplate?: boolean;
+    dependsOnStoryIds?: string[];
   }>();
   modalCancelled = output<void>();
 
@@ -1165,10 +1351,16 @@ export class AddBacklogItemModalComponent implements OnInit {
   selectedFeatureId = '';
   /** Empty string = use repository default (no story-specific named rule). */
   selectedStoryAgentRuleId = '';
+  /** Empty string = use the repository default prompt template. */
+  selectedStoryPromptTemplateId = '';
+  selectedDependsOnIds: string[] = [];
+  dependsOnFilter = '';
 
   /** Custom profile picker (no native OS select dropdown). */
   storyProfileMenuOpen = false;
   storyProfileMenuFixedStyle: { top: string; left: string; width: string } | null = null;
+  storyPromptTemplateMenuOpen = false;
+  storyPromptTemplateMenuFixedStyle: { top: string; left: string; width: string } | null = null;
 
   /** Parent epic / feature pickers (same UX as agent rules dropdown). */
   parentEpicMenuOpen = false;
@@ -1195,6 +1387,8 @@ export class AddBacklogItemModalComponent implements OnInit {
       this.acceptanceCriteria = data.acceptanceCriteria || '';
       this.storyPoints = data.storyPoints ?? null;
       this.selectedStoryAgentRuleId = data.repositoryAgentRuleId ? String(data.repositoryAgentRuleId) : '';
+      this.selectedStoryPromptTemplateId = data.repositoryPromptTemplateId ? String(data.repositoryPromptTemplateId) : '';
+      this.selectedDependsOnIds = [...(data.dependsOnStoryIds ?? [])];
     }
   }
 
@@ -1207,6 +1401,12 @@ export class AddBacklogItemModalComponent implements OnInit {
         this.closeStoryProfileMenu();
       }
     }
+    if (this.storyPromptTemplateMenuOpen) {
+      const root = this.storyPromptTemplateRoot?.nativeElement;
+      if (root && !root.contains(t)) {
+        this.closeStoryPromptTemplateMenu();
+      }
+    }
     if (this.parentEpicMenuOpen) {
       const root = this.parentEpicRoot?.nativeElement;
       if (root && !root.contains(t)) {
@@ -1237,6 +1437,7 @@ export class AddBacklogItemModalComponent implements OnInit {
 
   private closeAllCustomDropdowns(): void {
     this.closeStoryProfileMenu();
+    this.closeStoryPromptTemplateMenu();
     this.closeParentEpicMenu();
     this.closeParentFeatureMenu();
   }
@@ -1266,6 +1467,45 @@ export class AddBacklogItemModalComponent implements OnInit {
     this.storyProfileMenuFixedStyle = null;
   }
 
+  toggleStoryPromptTemplateMenu(event: MouseEvent): void {
+    event.stopPropagation();
+    if (this.storyPromptTemplateMenuOpen) {
+      this.closeStoryPromptTemplateMenu();
+      return;
+    }
+    this.closeStoryProfileMenu();
+    this.closeParentEpicMenu();
+    this.closeParentFeatureMenu();
+    const btn = event.currentTarget as HTMLElement | null;
+    if (btn?.getBoundingClientRect) {
+      const r = btn.getBoundingClientRect();
+      this.storyPromptTemplateMenuFixedStyle = {
+        top: `${Math.round(r.bottom + 6)}px`,
+        left: `${Math.round(r.left)}px`,
+        width: `${Math.round(r.width)}px`
+      };
+    }
+    this.storyPromptTemplateMenuOpen = true;
+  }
+
+  closeStoryPromptTemplateMenu(): void {
+    this.storyPromptTemplateMenuOpen = false;
+    this.storyPromptTemplateMenuFixedStyle = null;
+  }
+
+  pickStoryPromptTemplate(id: string): void {
+    this.selectedStoryPromptTemplateId = id;
+    this.closeStoryPromptTemplateMenu();
+  }
+
+  storyPromptTemplateDisplayLabel(): string {
+    const v = this.selectedStoryPromptTemplateId.trim();
+    if (!v) {
+      return 'Repository default';
+    }
+    return this.storyPromptTemplateOptions().find(o => o.id === v)?.name ?? 'Repository default';
+  }
+
   toggleParentEpicMenu(event: MouseEvent): void {
     event.stopPropagation();
     if (this.parentEpicMenuOpen) {
@@ -1273,6 +1513,7 @@ export class AddBacklogItemModalComponent implements OnInit {
       return;
     }
     this.closeStoryProfileMenu();
+    this.closeStoryPromptTemplateMenu();
     this.closeParentFeatureMenu();
     const btn = event.currentTarget as HTMLElement | null;
     if (btn?.getBoundingClientRect) {
@@ -1310,6 +1551,7 @@ export class AddBacklogItemModalComponent implements OnInit {
       return;
     }
     this.closeStoryProfileMenu();
+    this.closeStoryPromptTemplateMenu();
     this.closeParentEpicMenu();
     const btn = event.currentTarget as HTMLElement | null;
     if (btn?.getBoundingClientRect) {
@@ -1477,6 +1719,28 @@ export class AddBacklogItemModalComponent implements OnInit {
     });
   }
 
+  availableDependencyOptions(): StoryDependencyOption[] {
+    const selfId = this.editData()?.id;
+    return this.storyDependencyOptions().filter(o => o.id !== selfId);
+  }
+
+  filteredDependencyOptions(): StoryDependencyOption[] {
+    const q = this.dependsOnFilter.trim().toLowerCase();
+    const options = this.availableDependencyOptions();
+    if (!q) return options;
+    return options.filter(o => o.title.toLowerCase().includes(q) || o.featureTitle.toLowerCase().includes(q));
+  }
+
+  isDependsOnSelected(id: string): boolean {
+    return this.selectedDependsOnIds.includes(id);
+  }
+
+  toggleDependsOn(id: string): void {
+    this.selectedDependsOnIds = this.isDependsOnSelected(id)
+      ? this.selectedDependsOnIds.filter(x => x !== id)
+      : [...this.selectedDependsOnIds, id];
+  }
+
   onSubmit(): void {
     if (!this.canSubmit()) return;
     
@@ -1486,6 +1750,7 @@ export class AddBacklogItemModalComponent implements OnInit {
       ?? (this.itemType() === 'story' ? this.selectedFeatureId || undefined : undefined);
     
     const rid = this.selectedStoryAgentRuleId.trim();
+    const tid = this.selectedStoryPromptTemplateId.trim();
     this.add.emit({
       ...(editDataValue && { id: editDataValue.id }),
       title: this.title.trim(),
@@ -1497,7 +1762,12 @@ export class AddBacklogItemModalComponent implements OnInit {
       ...(this.itemType() === 'story' && !this.isEditMode() && rid ? { repositoryAgentRuleId: rid } : {}),
       ...(this.itemType() === 'story' && this.isEditMode()
         ? { updateRepositoryAgentRule: true, repositoryAgentRuleId: rid || null }
-        : {})
+        : {}),
+      ...(this.itemType() === 'story' && !this.isEditMode() && tid ? { repositoryPromptTemplateId: tid } : {}),
+      ...(this.itemType() === 'story' && this.isEditMode()
+        ? { updateRepositoryPromptTemplate: true, repositoryPromptTemplateId: tid || null }
+        : {}),
+      ...(this.itemType() === 'story' && { dependsOnStoryIds: [...this.selectedDependsOnIds] })
     });
     
     this.resetForm();
@@ -1512,5 +1782,8 @@ export class AddBacklogItemModalComponent implements OnInit {
     this.selectedEpicId = '';
     this.selectedFeatureId = '';
     this.selectedStoryAgentRuleId = '';
+    this.selectedStoryPromptTemplateId = '';
+    this.selectedDependsOnIds = [];
+    this.dependsOnFilter = '';
   }
 }
@@ -0,0 +1,153 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, computed, inject, input, output, signal, untracked } from '@angular/core';
+import { Subscription, catchError, forkJoin, map, of, switchMap, timer } from 'rxjs';
+import { AIConfigService } from '../../core/services/ai-config.service';
+import { LlmSettingDto } from '../../core/services/auth.service';
+import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
+import {
+  MAX_COMPARISON_MODELS,
+  MIN_COMPARISON_MODELS,
+  ModelComparisonRun,
+  formatDiffSize,
+  llmSettingLabel,
+  toggleComparisonModel
+} from '../../core/services/model-comparison';
+import { ModelComparisonService } from '../../core/services/model-comparison.service';
+import { SandboxBridgeService, ZedConversation } from '../../core/services/sandbox-bridge.service';
+import { SandboxService } from '../../core/services/sandbox.service';
+import { MarkdownPipe } from '../../shared/pipes/markdown.pipe';
+
+/**
+ * "Implement with N models" dialog: picks the LLM settings to compare, then shows one column per
+ * model (agent conversation, diff size, test result). Choosing a run is handled by the host, which
+ * owns the implementation viewer and the PR flow.
+ */
+@Component({
+  selector: 'app-model-comparison',
+  standalone: true,
+  imports: [CommonModule, MarkdownPipe],
+  templateUrl: './model-comparison.component.html',
+  styleUrl: './model-comparison.component.css',
+})
+export class ModelComparisonComponent implements OnDestroy {
+  private static readonly CONVERSATION_POLL_INTERVAL_MS = 10000;
+
+  private readonly aiConfigService = inject(AIConfigService);
+  private readonly comparisonService = inject(ModelComparisonService);
+  private readonly sandboxBridgeService = inject(SandboxBridgeService);
+  private readonly sandboxService = inject(SandboxService);
+  private readonly confirmDialog = inject(ConfirmDialogService);
+
+  readonly storyId = input.required<string>();
+  readonly storyTitle = input('');
+  /** Emits the chosen LLM settings; the host creates one sandbox per model. */
+  readonly start = output<LlmSettingDto[]>();
+  readonly choose = output<ModelComparisonRun>();
+  readonly modalClosed = output<void>();
+
+  readonly minModels = MIN_COMPARISON_MODELS;
+  readonly maxModels = MAX_COMPARISON_MODELS;
+  readonly llmSettings = this.aiConfigService.llmSettings;
+  readonly selectedIds = signal<string[]>([]);
+  readonly comparison = computed(() => this.comparisonService.get(this.storyId()) ?? null);
+  /** Agent turns of each run since the comparison started, keyed by sandbox id. */
+  readonly conversations = signal<Record<string, ZedConversation[]>>({});
+
+  readonly label = llmSettingLabel;
+  readonly formatDiffSize = formatDiffSize;
+
+  private conversationPoll: Subscription;
+
+  constructor() {
+    this.conversationPoll = timer(0, ModelComparisonComponent.CONVERSATION_POLL_INTERVAL_MS)
+      .pipe(switchMap(() => this.loadConversations()))
+      .subscribe(byId => {
+        if (byId) this.conversations.set(byId);
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.conversationPoll.unsubscribe();
+  }
+
+  /** Settings without credentials cannot start an agent. */
+  isUsable(setting: LlmSettingDto): boolean {
+    return this.aiConfigService.isLlmSettingTestable(setting);
+  }
+
+  isSelected(setting: LlmSettingDto): boolean {
+    return this.selectedIds().includes(setting.id);
+  }
+
+  toggle(setting: LlmSettingDto): void {
+    if (!this.isUsable(setting)) return;
+    this.selectedIds.update(ids => toggleComparisonModel(ids, setting.id));
+  }
+
+  onStart(): void {
+    const ids = this.selectedIds();
+    if (ids.length < MIN_COMPARISON_MODELS) return;
+    this.start.emit(this.llmSettings().filter(s => ids.includes(s.id)));
+  }
+
+  refreshDiff(run: ModelComparisonRun): void {
+    this.comparisonService.refreshDiff(this.storyId(), run.llmSettingId);
+  }
+
+  conversationsOf(run: ModelComparisonRun): ZedConversation[] {
+    return run.sandboxId ? this.conversations()[run.sandboxId] ?? [] : [];
+  }
+
+  stateLabel(run: ModelComparisonRun): string {
+    switch (run.state) {
+      case 'starting': return 'Starting sandbox';
+      case 'implementing': return 'Implementing';
+      case 'testing': return 'Running tests';
+      case 'finished': return 'Done';
+      case 'failed': return 'Failed';
+    }
+  }
+
+  testLabel(run: ModelComparisonRun): string {
+    if (run.test) return `${run.test.passed ? 'Passed' : 'Failed'}: ${run.test.summary}`;
+    if (run.state === 'testing') return 'Running…';
+    return run.state === 'finished' ? 'Not run' : '–';
+  }
+
+  /** Stops the sandboxes of the runs that were not chosen and forgets the comparison. */
+  async onDiscard(): Promise<void> {
+    const comparison = this.comparison();
+    if (!comparison) return;
+    const ok = await this.confirmDialog.confirm({
+      title: 'Discard comparison',
+      message: comparison.chosenSandboxId
+        ? 'The sandboxes of the models that were not chosen will be deleted.'
+        : 'The sandboxes of all compared models will be deleted.',
+      confirmText: 'Discard',
+      variant: 'danger'
+    });
+    if (!ok) return;
+    for (const run of comparison.runs) {
+      if (run.sandboxId && run.sandboxId !== comparison.chosenSandboxId) {
+        this.sandboxService.deleteSandbox(run.sandboxId).subscribe();
+      }
+    }
+    this.comparisonService.remove(comparison.storyId);
+    this.selectedIds.set([]);
+  }
+
+  private loadConversations() {
+    const comparison = untracked(() => this.comparison());
+    const runs = comparison?.runs.filter(r => r.sandboxId && r.state !== 'starting') ?? [];
+    if (!comparison || runs.length === 0) return of(null);
+    const since = comparison.startedAt / 1000;
+    return forkJoin(
+      runs.map(run =>
+        this.sandboxBridgeService.getAllConversations(run.sandboxId!, comparison.storyId).pipe(
+          map(res => [run.sandboxId!, res.conversations.filter(c => c.timestamp >= since)] as const),
+          catchError(() => of([run.sandboxId!, this.conversations()[run.sandboxId!] ?? []] as const))
+        )
+      )
+    ).pipe(map(entries => Object.fromEntries(entries) as Record<string, ZedConversation[]>));
+  }
+}
@@ -0,0 +1,244 @@
+import { CommonModule } from '@angular/common';
+import {
+  Component,
+  DestroyRef,
+  ElementRef,
+  HostListener,
+  computed,
+  effect,
+  inject,
+  input,
+  output,
+  signal,
+  untracked,
+  viewChild
+} from '@angular/core';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { Subscription, switchMap, timer } from 'rxjs';
+import { ListeningPort, SandboxBridgeService } from '../../core/services/sandbox-bridge.service';
+import {
+  COMMON_PREVIEW_PORTS,
+  appendPreviewQueryParam,
+  describePortProcess,
+  firstHttpPort,
+  parsePreviewPort,
+  withPreviewPath
+} from '../../core/services/sandbox-preview';
+
+/**
+ * Dev-server preview of a sandbox: port picker with the ports the bridge sees listening (refreshed live),
+ * optional sub-path, and the proxied app in an iframe. Until the user picks a port, the first port that
+ * answers HTTP is opened automatically. The iframe loads once the owner's preview session cookie is set.
+ */
+@Component({
+  selector: 'app-sandbox-preview',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sandbox-preview.component.html',
+  styleUrl: './sandbox-preview.component.css',
+})
+export class SandboxPreviewComponent {
+  private static readonly PORT_POLL_INTERVAL_MS = 3000;
+
+  private readonly sandboxBridgeService = inject(SandboxBridgeService);
+  private readonly sanitizer = inject(DomSanitizer);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly sandboxId = input.required<string>();
+  /** Preselected port (e.g. from the repository's sandbox profile); disables auto-open. */
+  readonly defaultPort = input<number | null>(null);
+  /** Big-view state of the host layout; null hides the big-view button. */
+  readonly bigView = input<boolean | null>(null);
+  readonly bigViewToggle = output<void>();
+
+  readonly commonPorts = COMMON_PREVIEW_PORTS;
+  readonly port = signal<number | null>(null);
+  /** True once a port was picked by hand (or preset): discovered ports no longer change the preview. */
+  private readonly portChosen = signal(false);
+  readonly listeningPorts = signal<ListeningPort[]>([]);
+  readonly portsLoaded = signal(false);
+  readonly showPortDropdown = signal(false);
+  readonly portInput = signal('');
+  readonly portError = signal<string | null>(null);
+  /** Sub-path while editing; the iframe only reloads with {@link appliedPath} (Enter, Go, new port). */
+  readonly path = signal('');
+  readonly appliedPath = signal('');
+  private readonly reloadNonce = signal(0);
+  /** null while the preview session cookie is being set; the iframe waits for true. */
+  readonly previewSession = signal<boolean | null>(null);
+  private readonly frameHost = viewChild<ElementRef<HTMLElement>>('frameWrap');
+  private portWatch?: Subscription;
+  private sessionRequest?: Subscription;
+
+  readonly selectedListeningPort = computed(() => this.listeningPorts().find(p => p.port === this.port()) ?? null);
+  readonly suggestedPorts = computed(() => {
+    const listening = new Set(this.listeningPorts().map(p => p.port));
+    return this.commonPorts.filter(p => !listening.has(p));
+  });
+
+  readonly safeUrl = computed((): SafeResourceUrl | null => {
+    const port = this.port();
+    if (port == null || !this.previewSession()) return null;
+    const raw = withPreviewPath(this.sandboxBridgeService.buildPreviewUrl(this.sandboxId(), port), this.appliedPath());
+    return this.sanitizer.bypassSecurityTrustResourceUrl(appendPreviewQueryParam(raw, '__dpPreview', String(this.reloadNonce())));
+  });
+
+  readonly describeProcess = describePortProcess;
+
+  constructor() {
+    effect(() => {
+      const sandboxId = this.sandboxId();
+      const preset = this.defaultPort();
+      untracked(() => {
+        this.port.set(preset);
+        this.portChosen.set(preset != null);
+        this.path.set('');
+        this.appliedPath.set('');
+        this.startPreviewSession(sandboxId);
+        this.watchPorts(sandboxId);
+      });
+    }, { allowSignalWrites: true });
+
+    this.destroyRef.onDestroy(() => {
+      this.portWatch?.unsubscribe();
+      this.sessionRequest?.unsubscribe();
+      this.exitFullscreenIfNeeded();
+    });
+  }
+
+  /** Sets the preview cookie; `then` runs once it is in place (e.g. the reload that needs it). */
+  private startPreviewSession(sandboxId: string, then?: () => void): void {
+    this.sessionRequest?.unsubscribe();
+    this.sessionRequest = this.sandboxBridgeService.openPreviewSession(sandboxId).subscribe(ok => {
+      this.previewSession.set(ok);
+      if (ok) then?.();
+    });
+  }
+
+  private watchPorts(sandboxId: string): void {
+    this.portWatch?.unsubscribe();
+    this.listeningPorts.set([]);
+    this.portsLoaded.set(false);
+    this.portWatch = timer(0, SandboxPreviewComponent.PORT_POLL_INTERVAL_MS)
+      .pipe(switchMap(() => this.sandboxBridgeService.listPorts(sandboxId)))
+      .subscribe(ports => {
+        if (!ports) return;
+        this.listeningPorts.set(ports);
+        this.portsLoaded.set(true);
+        if (!this.portChosen()) {
+          const auto = firstHttpPort(ports);
+          if (auto != null && auto !== this.port()) this.port.set(auto);
+        }
+      });
+  }
+
+  @HostListener('document:fullscreenchange')
+  onDocumentFullscreenChange(): void {
+    /* Ensures the fullscreen toggle icon updates when the user hits Escape. */
+  }
+
+  @HostListener('document:click')
+  onDocumentClick(): void {
+    this.showPortDropdown.set(false);
+  }
+
+  togglePortDropdown(): void {
+    this.showPortDropdown.update(open => {
+      if (!open) {
+        this.portInput.set(String(this.port() ?? ''));
+        this.portError.set(null);
+      }
+      return !open;
+    });
+  }
+
+  selectPort(port: number): void {
+    this.port.set(port);
+    this.portChosen.set(true);
+    this.portInput.set(String(port));
+    this.portError.set(null);
+    this.showPortDropdown.set(false);
+    // Keep the pending text-field path but commit it now so the iframe loads the combined URL.
+    this.appliedPath.set(this.path());
+  }
+
+  /** Apply the free-form port from the dropdown input (Enter / Preview button). */
+  applyCustomPort(): void {
+    const result = parsePreviewPort(this.portInput());
+    if ('error' in result) {
+      this.portError.set(result.error);
+      return;
+    }
+    this.selectPort(result.port);
+  }
+
+  onPortKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.applyCustomPort();
+    } else if (event.key === 'Escape') {
+      this.showPortDropdown.set(false);
+    }
+  }
+
+  /** Commit the edited path (Enter / Go button): reloads the iframe. */
+  applyPath(): void {
+    this.appliedPath.set(this.path());
+  }
+
+  /** Enter commits the path; Escape reverts to the last applied value. */
+  onPathKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      this.applyPath();
+    } else if (event.key === 'Escape') {
+      this.path.set(this.appliedPath());
+    }
+  }
+
+  /** Reload the preview iframe (full navigation), renewing the preview session first. */
+  refresh(): void {
+    if (this.port() == null) return;
+    this.startPreviewSession(this.sandboxId(), () => this.reloadNonce.update(n => n + 1));
+  }
+
+  /** Open the proxied dev server in a new tab. */
+  openInNewTab(): void {
+    const port = this.port();
+    if (port == null) return;
+    const url = withPreviewPath(this.sandboxBridgeService.buildPreviewUrl(this.sandboxId(), port), this.appliedPath());
+    window.open(url, '_blank', 'noopener,noreferrer')?.focus();
+  }
+
+  toggleBigView(): void {
+    if (this.bigView()) this.exitFullscreenIfNeeded();
+    this.bigViewToggle.emit();
+  }
+
+  isInFullscreen(): boolean {
+    const el = this.frameHost()?.nativeElement;
+    return !!el && document.fullscreenElement === el;
+  }
+
+  /** Fullscreen the preview frame on the current monitor. */
+  toggleFullscreen(): void {
+    const el = this.frameHost()?.nativeElement;
+    if (!el) return;
+    if (document.fullscreenElement === el) {
+      this.exitFullscreenIfNeeded();
+      return;
+    }
+    const req =
+      el.requestFullscreen?.bind(el) ||
+      (el as HTMLElement & { webkitRequestFullscreen?: () => Promise<void> }).webkitRequestFullscreen?.bind(el);
+    if (req) void req();
+  }
+
+  private exitFullscreenIfNeeded(): void {
+    if (!document.fullscreenElement) return;
+    const ex =
+      document.exitFullscreen?.bind(document) ||
+      (document as Document & { webkitExitFullscreen?: () => Promise<void> }).webkitExitFullscreen?.bind(document);
+    if (ex) void ex();
+  }
+}
@@ -0,0 +1,130 @@
+import { CommonModule } from '@angular/common';
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  OnDestroy,
+  ViewChild,
+  computed,
+  effect,
+  inject,
+  input,
+  signal,
+  untracked
+} from '@angular/core';
+import { SandboxTerminalService, SandboxTerminalSession } from '../../core/services/sandbox-terminal.service';
+
+/**
+ * Tabbed web terminal for a sandbox (shells on the bridge, independent of the VNC desktop).
+ * Opens a first tab automatically; tabs are kept by {@link SandboxTerminalService} when this unmounts.
+ */
+@Component({
+  selector: 'app-sandbox-terminal',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './sandbox-terminal.component.html',
+  styleUrl: './sandbox-terminal.component.css',
+})
+export class SandboxTerminalComponent implements AfterViewInit, OnDestroy {
+  private readonly terminalService = inject(SandboxTerminalService);
+
+  readonly sandboxId = input.required<string>();
+
+  @ViewChild('terminalHost') private terminalHost?: ElementRef<HTMLDivElement>;
+
+  readonly sessions = computed(() => this.terminalService.sessionsFor(this.sandboxId()));
+  private readonly selectedId = signal<string | null>(null);
+  readonly activeSession = computed(() => {
+    const sessions = this.sessions();
+    return sessions.find(s => s.id === this.selectedId()) ?? sessions[sessions.length - 1] ?? null;
+  });
+  readonly copied = signal(false);
+
+  private readonly viewReady = signal(false);
+  private autoOpenedFor?: string;
+  private resizeObserver?: ResizeObserver;
+  private copiedTimer?: ReturnType<typeof setTimeout>;
+
+  constructor() {
+    effect(() => {
+      const sandboxId = this.sandboxId();
+      untracked(() => {
+        if (this.autoOpenedFor !== sandboxId && this.terminalService.sessionsFor(sandboxId).length === 0) {
+          this.newTab();
+        }
+        this.autoOpenedFor = sandboxId;
+      });
+    }, { allowSignalWrites: true });
+
+    effect(() => {
+      const session = this.activeSession();
+      if (!this.viewReady()) return;
+      untracked(() => this.attach(session));
+    });
+  }
+
+  ngAfterViewInit(): void {
+    const host = this.terminalHost?.nativeElement;
+    if (host && typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => {
+        const session = this.activeSession();
+        if (session) this.terminalService.fit(session);
+      });
+      this.resizeObserver.observe(host);
+    }
+    this.viewReady.set(true);
+  }
+
+  ngOnDestroy(): void {
+    this.resizeObserver?.disconnect();
+    clearTimeout(this.copiedTimer);
+  }
+
+  select(session: SandboxTerminalSession): void {
+    this.selectedId.set(session.id);
+  }
+
+  newTab(): void {
+    void this.terminalService.open(this.sandboxId()).then(session => this.selectedId.set(session.id));
+  }
+
+  closeTab(event: Event, session: SandboxTerminalSession): void {
+    event.stopPropagation();
+    this.terminalService.close(session);
+  }
+
+  reconnect(session: SandboxTerminalSession): void {
+    this.terminalService.reconnect(session);
+    session.terminal.focus();
+  }
+
+  async copy(session: SandboxTerminalSession): Promise<void> {
+    if (await this.terminalService.copySelection(session)) {
+      this.copied.set(true);
+      clearTimeout(this.copiedTimer);
+      this.copiedTimer = setTimeout(() => this.copied.set(false), 1500);
+    }
+    session.terminal.focus();
+  }
+
+  paste(session: SandboxTerminalSession): void {
+    void this.terminalService.paste(session);
+  }
+
+  /** Shows the session's xterm in the host; xterm can only be opened once, afterwards its element is moved. */
+  private attach(session: SandboxTerminalSession | null): void {
+    const host = this.terminalHost?.nativeElement;
+    if (!host) return;
+    const element = session?.terminal.element;
+    if (element && element.parentElement === host) return;
+    host.replaceChildren();
+    if (!session) return;
+    if (element) {
+      host.appendChild(element);
+    } else {
+      session.terminal.open(host);
+    }
+    this.terminalService.fit(session);
+    session.terminal.focus();
+  }
+}
@@ -0,0 +1,293 @@
+import { CommonModule } from '@angular/common';
+import { Component, computed, effect, inject, input, signal, untracked } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Observable } from 'rxjs';
+import { BacklogService, GitHubMilestoneOption, SprintRequest } from '../../core/services/backlog.service';
+import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
+import { SprintSummary, averageVelocity, summarizeSprint, velocitySeries } from '../../core/services/sprint-planning';
+import { Repository } from '../../shared/models/repository.model';
+import { Sprint } from '../../shared/models/sprint.model';
+import { UserStory } from '../../shared/models/user-story.model';
+
+interface PlanningStory {
+  story: UserStory;
+  featureTitle: string;
+  epicTitle: string;
+}
+
+@Component({
+  selector: 'app-sprint-planning',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  templateUrl: './sprint-planning.component.html',
+  styleUrl: './sprint-planning.component.css',
+})
+export class SprintPlanningComponent {
+  private readonly backlogService = inject(BacklogService);
+  private readonly confirmDialog = inject(ConfirmDialogService);
+
+  readonly repository = input.required<Repository>();
+
+  readonly sprints = signal<Sprint[]>([]);
+  readonly loading = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly busy = signal(false);
+  readonly selectedSprintId = signal<string | null>(null);
+  /** Unplanned stories ticked for adding to the selected sprint. */
+  readonly pickedStoryIds = signal<ReadonlySet<string>>(new Set());
+
+  /** null = form closed, 'new' = create, otherwise the sprint being edited */
+  readonly editing = signal<Sprint | 'new' | null>(null);
+  formName = '';
+  formGoal = '';
+  formStartDate = '';
+  formEndDate = '';
+  formCapacity: number | null = null;
+  formIterationPath = '';
+  formMilestoneNumber: number | null = null;
+
+  /** Sprint being completed and where its unfinished stories go ('' = backlog). */
+  readonly completing = signal<Sprint | null>(null);
+  completeTarget = '';
+
+  readonly iterationPaths = signal<string[]>([]);
+  readonly milestones = signal<GitHubMilestoneOption[]>([]);
+  private providerOptionsLoaded = false;
+
+  readonly isAzure = computed(() => this.repository().provider === 'AzureDevOps');
+  readonly isGitHub = computed(() => this.repository().provider === 'GitHub');
+
+  private readonly stories = computed<PlanningStory[]>(() =>
+    this.backlogService.backlog().flatMap(epic =>
+      epic.features.flatMap(feature =>
+        feature.userStories.map(story => ({ story, featureTitle: feature.title, epicTitle: epic.title }))
+      )
+    )
+  );
+
+  readonly summaries = computed(() => {
+    const stories = this.stories().map(s => s.story);
+    const map = new Map<string, SprintSummary>();
+    for (const sprint of this.sprints()) map.set(sprint.id, summarizeSprint(sprint, stories));
+    return map;
+  });
+
+  readonly selectedSprint = computed(() => this.sprints().find(s => s.id === this.selectedSprintId()) ?? null);
+  readonly selectedStories = computed(() => {
+    const id = this.selectedSprintId();
+    return id ? this.stories().filter(s => s.story.sprintId === id) : [];
+  });
+  readonly unplannedStories = computed(() => {
+    const known = new Set(this.sprints().map(s => s.id));
+    return this.stories().filter(s => !s.story.sprintId || !known.has(s.story.sprintId));
+  });
+  readonly openSprints = computed(() => this.sprints().filter(s => s.status !== 'Completed'));
+
+  /** Points of the ticked stories and whether adding them would exceed the selected sprint's capacity. */
+  readonly pickedPoints = computed(() => {
+    const picked = this.pickedStoryIds();
+    return this.unplannedStories()
+      .filter(s => picked.has(s.story.id))
+      .reduce((sum, s) => sum + (s.story.storyPoints ?? 0), 0);
+  });
+  readonly pickWouldExceed = computed(() => {
+    const sprint = this.selectedSprint();
+    const summary = sprint ? this.summaries().get(sprint.id) : undefined;
+    return !!summary && summary.remainingPoints != null && this.pickedPoints() > summary.remainingPoints;
+  });
+
+  readonly velocity = computed(() => velocitySeries(this.sprints()));
+  readonly averageVelocity = computed(() => averageVelocity(this.velocity()));
+  readonly velocityMax = computed(() =>
+    Math.max(1, ...this.velocity().map(p => Math.max(p.committed, p.completed)))
+  );
+
+  constructor() {
+    effect(() => {
+      const repositoryId = this.repository().id;
+      untracked(() => this.load(repositoryId));
+    });
+  }
+
+  load(repositoryId = this.repository().id): void {
+    this.loading.set(true);
+    this.error.set(null);
+    this.backlogService.getSprints(repositoryId).subscribe({
+      next: sprints => {
+        this.sprints.set(sprints);
+        this.loading.set(false);
+        if (!sprints.some(s => s.id === this.selectedSprintId())) {
+          const current = sprints.find(s => s.status === 'Active') ?? sprints.find(s => s.status === 'Planned');
+          this.selectedSprintId.set(current?.id ?? null);
+        }
+      },
+      error: err => {
+        this.loading.set(false);
+        this.error.set(err?.error?.error || 'Failed to load sprints');
+      }
+    });
+  }
+
+  selectSprint(sprint: Sprint): void {
+    this.selectedSprintId.set(sprint.id);
+    this.pickedStoryIds.set(new Set());
+  }
+
+  summaryOf(sprint: Sprint): SprintSummary | undefined {
+    return this.summaries().get(sprint.id);
+  }
+
+  /** Width of the capacity bar, capped at 100%. */
+  loadWidth(summary: SprintSummary | undefined): number {
+    return Math.min(100, summary?.loadPercent ?? 0);
+  }
+
+  openCreate(): void {
+    this.formName = `Sprint ${this.sprints().length + 1}`;
+    this.formGoal = '';
+    this.formStartDate = '';
+    this.formEndDate = '';
+    this.formCapacity = this.averageVelocity() != null ? Math.round(this.averageVelocity()!) : null;
+    this.formIterationPath = '';
+    this.formMilestoneNumber = null;
+    this.editing.set('new');
+    this.loadProviderOptions();
+  }
+
+  openEdit(sprint: Sprint): void {
+    this.formName = sprint.name;
+    this.formGoal = sprint.goal ?? '';
+    this.formStartDate = sprint.startDate?.slice(0, 10) ?? '';
+    this.formEndDate = sprint.endDate?.slice(0, 10) ?? '';
+    this.formCapacity = sprint.capacityPoints ?? null;
+    this.formIterationPath = sprint.azureDevOpsIterationPath ?? '';
+    this.formMilestoneNumber = sprint.gitHubMilestoneNumber ?? null;
+    this.editing.set(sprint);
+    this.loadProviderOptions();
+  }
+
+  cancelEdit(): void {
+    this.editing.set(null);
+  }
+
+  saveSprint(): void {
+    const editing = this.editing();
+    if (!editing || !this.formName.trim()) return;
+    const body: SprintRequest = {
+      name: this.formName.trim(),
+      goal: this.formGoal.trim() || null,
+      startDate: this.formStartDate || null,
+      endDate: this.formEndDate || null,
+      capacityPoints: this.formCapacity ?? null,
+      azureDevOpsIterationPath: this.formIterationPath.trim() || null,
+      gitHubMilestoneNumber: this.formMilestoneNumber ?? null
+    };
+    const request = editing === 'new'
+      ? this.backlogService.createSprint(this.repository().id, body)
+      : this.backlogService.updateSprint(editing.id, body);
+    this.run(request, sprint => {
+      this.upsert(sprint);
+      this.editing.set(null);
+      this.selectedSprintId.set(sprint.id);
+    });
+  }
+
+  startSprint(sprint: Sprint): void {
+    this.run(this.backlogService.startSprint(sprint.id), updated => this.upsert(updated));
+  }
+
+  openComplete(sprint: Sprint): void {
+    this.completeTarget = this.openSprints().find(s => s.id !== sprint.id && s.status === 'Planned')?.id ?? '';
+    this.completing.set(sprint);
+  }
+
+  confirmComplete(): void {
+    const sprint = this.completing();
+    if (!sprint) return;
+    this.run(this.backlogService.completeSprint(sprint.id, this.completeTarget || null), res => {
+      this.upsert(res.sprint);
+      this.completing.set(null);
+      if (this.completeTarget) this.selectedSprintId.set(this.completeTarget);
+    });
+  }
+
+  async deleteSprint(sprint: Sprint): Promise<void> {
+    const ok = await this.confirmDialog.confirm({
+      title: 'Delete sprint',
+      message: `Delete "${sprint.name}"? Its stories go back to the backlog.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+    if (!ok) return;
+    this.run(this.backlogService.deleteSprint(sprint.id), () => {
+      this.sprints.update(list => list.filter(s => s.id !== sprint.id));
+      if (this.selectedSprintId() === sprint.id) this.selectedSprintId.set(null);
+    });
+  }
+
+  togglePicked(storyId: string): void {
+    const next = new Set(this.pickedStoryIds());
+    if (next.has(storyId)) next.delete(storyId);
+    else next.add(storyId);
+    this.pickedStoryIds.set(next);
+  }
+
+  addPickedToSprint(): void {
+    const sprintId = this.selectedSprintId();
+    const ids = [...this.pickedStoryIds()];
+    if (!sprintId || ids.length === 0) return;
+    this.run(this.backlogService.assignStoriesToSprint(this.repository().id, ids, sprintId), () =>
+      this.pickedStoryIds.set(new Set())
+    );
+  }
+
+  removeFromSprint(storyId: string): void {
+    this.run(this.backlogService.assignStoriesToSprint(this.repository().id, [storyId], null), () => {});
+  }
+
+  milestoneTitle(number: number | null | undefined): string {
+    if (number == null) return '';
+    return this.milestones().find(m => m.number === number)?.title ?? `#${number}`;
+  }
+
+  private loadProviderOptions(): void {
+    if (this.providerOptionsLoaded) return;
+    const repo = this.repository();
+    if (this.isAzure()) {
+      const project = repo.fullName.split('/')[1];
+      if (!project) return;
+      this.providerOptionsLoaded = true;
+      this.backlogService.getAzureDevOpsIterationPaths(project).subscribe({
+        next: paths => this.iterationPaths.set((paths ?? []).map(p => p.path)),
+        error: () => this.iterationPaths.set([])
+      });
+    } else if (this.isGitHub()) {
+      this.providerOptionsLoaded = true;
+      this.backlogService.getGitHubMilestones(repo.id).subscribe({
+        next: milestones => this.milestones.set(milestones),
+        error: () => this.milestones.set([])
+      });
+    }
+  }
+
+  private upsert(sprint: Sprint): void {
+    this.sprints.update(list =>
+      list.some(s => s.id === sprint.id) ? list.map(s => (s.id === sprint.id ? sprint : s)) : [...list, sprint]
+    );
+  }
+
+  private run<T>(request: Observable<T>, done: (result: T) => void): void {
+    this.busy.set(true);
+    this.error.set(null);
+    request.subscribe({
+      next: result => {
+        this.busy.set(false);
+        done(result);
+      },
+      error: err => {
+        this.busy.set(false);
+        this.error.set(err?.error?.error || err?.error?.message || 'Request failed');
+      }
+    });
+  }
+}
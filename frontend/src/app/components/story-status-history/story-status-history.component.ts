@@ -0,0 +1,65 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, effect, inject, input, signal, untracked } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { BacklogService } from '../../core/services/backlog.service';
+import { StoryStatusHistoryEntry, describeStatusChange, pullRequestLabel } from '../../core/services/story-status-history';
+
+/**
+ * Timeline of a story's status changes (who/what moved it, when, from which status, related PR).
+ * Reloads when the story's status changes so live board moves show up.
+ */
+@Component({
+  selector: 'app-story-status-history',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './story-status-history.component.html',
+  styleUrl: './story-status-history.component.css',
+})
+export class StoryStatusHistoryComponent implements OnDestroy {
+  private readonly backlogService = inject(BacklogService);
+
+  readonly storyId = input.required<string>();
+  /** Current status of the story; a change triggers a reload. */
+  readonly status = input<string>();
+
+  readonly entries = signal<StoryStatusHistoryEntry[]>([]);
+  readonly loading = signal(false);
+  readonly error = signal<string | null>(null);
+
+  readonly describe = describeStatusChange;
+  readonly prLabel = pullRequestLabel;
+
+  private request?: Subscription;
+
+  constructor() {
+    effect(() => {
+      const storyId = this.storyId();
+      this.status();
+      untracked(() => this.load(storyId));
+    });
+  }
+
+  load(storyId: string): void {
+    this.request?.unsubscribe();
+    this.loading.set(true);
+    this.error.set(null);
+    this.request = this.backlogService.getStoryStatusHistory(storyId).subscribe({
+      next: res => {
+        this.entries.set(res.history ?? []);
+        this.loading.set(false);
+      },
+      error: err => {
+        this.loading.set(false);
+        this.error.set(err?.error?.error || 'Failed to load status history');
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.request?.unsubscribe();
+  }
+
+  isAutomated(entry: StoryStatusHistoryEntry): boolean {
+    return entry.source !== 'User';
+  }
+}
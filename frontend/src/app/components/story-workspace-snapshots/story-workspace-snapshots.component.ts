@@ -0,0 +1,71 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnDestroy, effect, inject, input, output, signal, untracked } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { SandboxService, StoryWorkspaceSnapshot } from '../../core/services/sandbox.service';
+import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
+import { workspaceSnapshotDetails } from '../../core/services/workspace-snapshot';
+
+/**
+ * Saved sandbox workspaces of a story (files + agent history), newest first.
+ * Resume is handled by the host, which owns sandbox creation for the story.
+ */
+@Component({
+  selector: 'app-story-workspace-snapshots',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './story-workspace-snapshots.component.html',
+  styleUrl: './story-workspace-snapshots.component.css',
+})
+export class StoryWorkspaceSnapshotsComponent implements OnDestroy {
+  private readonly sandboxService = inject(SandboxService);
+  private readonly confirmDialog = inject(ConfirmDialogService);
+
+  readonly storyId = input.required<string>();
+  /** Disables Resume, e.g. while a sandbox is already being created for the story. */
+  readonly disabled = input(false);
+  readonly resume = output<StoryWorkspaceSnapshot>();
+
+  readonly snapshots = signal<StoryWorkspaceSnapshot[]>([]);
+  readonly deletingId = signal<string | null>(null);
+
+  readonly details = workspaceSnapshotDetails;
+
+  private request?: Subscription;
+
+  constructor() {
+    effect(() => {
+      const storyId = this.storyId();
+      untracked(() => this.load(storyId));
+    });
+  }
+
+  load(storyId: string): void {
+    this.request?.unsubscribe();
+    this.request = this.sandboxService.listWorkspaceSnapshots(storyId).subscribe(snapshots => this.snapshots.set(snapshots));
+  }
+
+  ngOnDestroy(): void {
+    this.request?.unsubscribe();
+  }
+
+  onResume(event: Event, snapshot: StoryWorkspaceSnapshot): void {
+    event.stopPropagation();
+    this.resume.emit(snapshot);
+  }
+
+  async onDelete(event: Event, snapshot: StoryWorkspaceSnapshot): Promise<void> {
+    event.stopPropagation();
+    const ok = await this.confirmDialog.confirm({
+      title: 'Delete snapshot',
+      message: 'The saved workspace and agent history of this snapshot will be removed.',
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+    if (!ok) return;
+    this.deletingId.set(snapshot.id);
+    this.sandboxService.deleteWorkspaceSnapshot(snapshot.id).subscribe(deleted => {
+      this.deletingId.set(null);
+      if (deleted) this.snapshots.update(list => list.filter(s => s.id !== snapshot.id));
+    });
+  }
+}
@@ -11,24 +11,58 @@ import {
   output,
   computed,
   HostListener,
+  SecurityContext,
   untracked
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { DomSanitizer, SafeHtml, SafeResourceUrl } from '@angular/platform-browser';
-import { Subject, takeUntil, forkJoin, of, switchMap, map, catchError } from 'rxjs';
+import { Observable, Subject, Subscription, takeUntil, takeWhile, timer, forkJoin, of, switchMap, map, catchError } from 'rxjs';
 import { VncService } from '../../core/services/vnc.service';
-import { VncViewerService, DockPosition } from '../../core/services/vnc-viewer.service';
+import { VncViewerService, DockPosition, VncViewMode, ImplementationContext } from '../../core/services/vnc-viewer.service';
 import {
   SandboxBridgeService,
   SandboxStats,
   ZedConversation,
   ZedConversationsResponse,
   LiveResponse,
+  ProjectFile,
+  SandboxProfileStatusResponse,
+  TestRunStatusResponse,
   SANDBOX_AGENT_QUIET_POLL_COUNT
 } from '../../core/services/sandbox-bridge.service';
+import { AgentLiveState, INITIAL_AGENT_LIVE_STATE, applyAgentEvent } from '../../core/services/agent-events';
 import { RepositoryService } from '../../core/services/repository.service';
 import { BacklogService } from '../../core/services/backlog.service';
+import { SandboxIdleService } from '../../core/services/sandbox-idle.service';
+import { formatIdleCountdown } from '../../core/services/sandbox-idle';
+import { SandboxService } from '../../core/services/sandbox.service';
+import { NotificationService } from '../../core/services/notification.service';
+import { formatBytes } from '../../core/services/workspace-snapshot';
+import { isSandboxProfileActive } from '../../core/services/sandbox-profile';
+import { DiffFile, buildPatch, diffUnitKeys, isLockfile, parseUnifiedDiff } from '../../core/services/working-tree-diff';
+import { PrFormValue, PrSubmission, buildPrForm, toPrSubmission } from '../../core/services/pr-template';
+import { TestGateResult, appendTestReport, isTestRunActive, toTestGateResult } from '../../core/services/test-gate';
+import {
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  TranscriptSession,
+  renderTranscript,
+  stripEditInstructions,
+  transcriptFileName,
+  turnsFromZedConversations
+} from '../../core/services/conversation-transcript';
+import { SandboxViewShareService } from '../../core/services/sandbox-view-share.service';
+import {
+  joinProjectPath,
+  parentProjectPath,
+  projectDownloadName,
+  projectPathCrumbs,
+  uploadSizeError
+} from '../../core/services/sandbox-files';
+import { SHARE_EXPIRY_OPTIONS, SandboxViewShare, shareExpiryLabel, shareViewPath } from '../../core/services/sandbox-view-share';
+import { SandboxTerminalComponent } from '../sandbox-terminal/sandbox-terminal.component';
+import { SandboxPreviewComponent } from '../sandbox-preview/sandbox-preview.component';
 import { VncConfig, VncConnectionState, DEFAULT_VNC_CONFIG } from '../../shared/models/vnc-config.model';
 import { MarkdownPipe } from '../../shared/pipes/markdown.pipe';
 
@@ -50,7 +84,7 @@ export type FsTopBarPosition = 'top' | 'right' | 'bottom' | 'left';
 @Component({
   selector: 'app-vnc-viewer',
   standalone: true,
-  imports: [CommonModule, FormsModule, MarkdownPipe],
+  imports: [CommonModule, FormsModule, MarkdownPipe, SandboxTerminalComponent, SandboxPreviewComponent],
   templateUrl: './vnc-viewer.component.html',
   styleUrl: './vnc-viewer.component.css'
 })
@@ -66,19 +100,11 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   viewerId = input<string>('');
   initialDockPosition = input<DockPosition>('floating');
   initialConnectionState = input<string | undefined>(undefined);
-  initialViewMode = input<'sandbox' | 'split' | 'chat' | undefined>(undefined);
+  initialViewMode = input<VncViewMode | undefined>(undefined);
   viewerTitle = input<string>('Sandbox');
   embedded = input<boolean>(false); // When true, renders without container/header (for dock panel)
   sandboxId = input<string | undefined>(undefined);
-  implementationContext = input<{
-    repositoryId: string;
-    repositoryFullName: string;
-    defaultBranch: string;
-    storyTitle: string;
-    storyId: string;
-    azureDevOpsWorkItemId?: number;
-    repositoryProvider?: string;
-  } | undefined>(undefined); // Enables Push & Create PR (or commit for Unpublished)
+  implementationContext = input<ImplementationContext | undefined>(undefined); // Enables Push & Create PR (or commit for Unpublished)
 
   // Output: Close event
   closeEvent = output<void>();
@@ -211,8 +237,28 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   // Conversations: current sandbox bridge poll vs earlier runs (same story) loaded from API
   conversations = signal<ZedConversation[]>([]);
   priorStorySessions = signal<PriorSandboxSessionView[]>([]);
+  /** Earlier runs minus turns already shown live (a sandbox resumed from a snapshot restores them into the bridge). */
+  visiblePriorStorySessions = computed(() => {
+    const liveIds = new Set(this.conversations().map((c) => c.id));
+    if (!liveIds.size) return this.priorStorySessions();
+    return this.priorStorySessions()
+      .map((s) => ({ ...s, conversations: s.conversations.filter((c) => !liveIds.has(c.id)) }))
+      .filter((s) => s.conversations.length > 0);
+  });
   liveResponse = signal<LiveResponse | null>(null);
   requestInProgress = signal<boolean>(false);
+  /** Transcript export menu in the chat header. */
+  showTranscriptMenu = signal(false);
+  readonly transcriptFormats = TRANSCRIPT_FORMATS;
+
+  /** Repository sandbox profile progress (setup commands) of the open sandbox; null until the bridge reports one. */
+  sandboxProfile = signal<SandboxProfileStatusResponse | null>(null);
+  /** Accumulated setup output (the bridge only returns what is new since the last offset). */
+  sandboxProfileLog = signal<string>('');
+  showSandboxProfileLog = signal<boolean>(false);
+  private sandboxProfileWatch?: Subscription;
+  private static readonly PROFILE_POLL_INTERVAL_MS = 2000;
+  private static readonly PROFILE_LOG_MAX_CHARS = 200_000;
 
   /**
    * Pre-rendered HTML for the live streaming response.
@@ -225,9 +271,11 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   private _liveRenderTimer: any = null;
   private _liveLastRenderedLen = 0;
   private static readonly LIVE_RENDER_INTERVAL_MS = 1200;
-  viewMode = signal<'sandbox' | 'split' | 'chat'>('sandbox');
+  viewMode = signal<VncViewMode>('sandbox');
   showChat = computed(() => this.viewMode() === 'split' || this.viewMode() === 'chat');
   showSandbox = computed(() => this.viewMode() === 'split' || this.viewMode() === 'sandbox');
+  showTerminal = computed(() => this.viewMode() === 'terminal');
+  showPreview = computed(() => this.viewMode() === 'preview');
   /** False when viewport matches {@link AGENT_CHAT_SIDEBAR_MEDIA} — hide AI chat UI (desktop only) */
   agentChatSidebarAllowed = signal<boolean>(
     typeof matchMedia === 'undefined'
@@ -245,7 +293,14 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   private destroy$ = new Subject<void>();
   private lastConversationId = '';
 
-  /** Same quiet-period logic as {@link SandboxBridgeService.waitForImplementationComplete} */
+  /**
+   * Agent event stream of the open sandbox (live text, explicit turn complete); null while it is not
+   * connected, and the conversation poll then drives live text and the Push PR quiet heuristic.
+   */
+  private agentLive: AgentLiveState | null = null;
+  private agentEventsSub: Subscription | null = null;
+
+  /** Same quiet-period logic as the polling fallback of {@link SandboxBridgeService.waitForImplementationComplete} */
   private pushPrQuietAccum: { stableLatestId: string | null; consecutiveStableIdle: number } = {
     stableLatestId: null,
     consecutiveStableIdle: 0
@@ -258,8 +313,70 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   pushPrError = signal<string | null>(null);
   pushPrSuccess = signal<{ url?: string; title: string } | null>(null);
 
+  /** Pre-push review: working tree diff where files and hunks can be left out of the PR, then the PR details. */
+  pushReviewOpen = signal<boolean>(false);
+  pushReviewStep = signal<'changes' | 'tests' | 'details'>('changes');
+  /** PR form, pre-filled from the repository's pull request template. */
+  prForm = signal<PrFormValue | null>(null);
+  prFormError = signal<string | null>(null);
+  /** Branch names offered as PR target (free text is allowed too). */
+  prTargetBranches = signal<string[]>([]);
+  pushReviewLoading = signal<boolean>(false);
+  pushReviewError = signal<string | null>(null);
+  pushReviewFiles = signal<DiffFile[]>([]);
+  /** Changed paths when the diff was too large to review; the push then commits everything. */
+  pushReviewTooLarge = signal<string[] | null>(null);
+  /** Excluded units, keyed as in {@link diffUnitKeys}. */
+  pushReviewExcluded = signal<ReadonlySet<string>>(new Set());
+  pushReviewCollapsed = signal<ReadonlySet<string>>(new Set());
+  readonly pushReviewEntries = computed(() => this.pushReviewFiles().map(file => {
+    const keys = diffUnitKeys(file);
+    return {
+      file,
+      keys,
+      lockfile: isLockfile(file.path),
+      hunks: file.hunks.map((hunk, i) => ({
+        key: keys[i],
+        hunk,
+        html: this.markdownPipe.renderUnifiedHunk(hunk.header, hunk.header, hunk.lines)
+      }))
+    };
+  }));
+  readonly pushReviewSummary = computed(() => {
+    const excluded = this.pushReviewExcluded();
+    let files = 0;
+    let additions = 0;
+    let deletions = 0;
+    for (const { file, keys } of this.pushReviewEntries()) {
+      if (keys.every(k => excluded.has(k))) continue;
+      files++;
+      if (file.hunks.length === 0) continue;
+      file.hunks.forEach((hunk, i) => {
+        if (excluded.has(keys[i])) return;
+        additions += hunk.additions;
+        deletions += hunk.deletions;
+      });
+    }
+    return { files, additions, deletions };
+  });
+  readonly pushReviewHasLockfiles = computed(() => this.pushReviewEntries().some(e => e.lockfile));
+
+  /** Test gate from the repository's sandbox profile; null when no test command is configured. */
+  testGate = signal<{ command: string; block: boolean } | null>(null);
+  testRunStatus = signal<TestRunStatusResponse | null>(null);
+  testRunLog = signal<string>('');
+  testRunError = signal<string | null>(null);
+  testResult = signal<TestGateResult | null>(null);
+  private testRunWatch?: Subscription;
+  readonly testRunning = computed(() => this.testRunStatus()?.state === 'running' && !this.testResult());
+  /** Blocking policy and the last run did not pass: the PR cannot be created. */
+  readonly testGateBlocksPr = computed(() => !!this.testGate()?.block && !this.testResult()?.passed);
+
   /** Clipboard: paste from host OS into sandbox (bridge /clipboard/paste) */
   pasteFromHostBusy = signal<boolean>(false);
+  /** Story sandboxes only: saving a workspace snapshot (files + agent history) for a later resume. */
+  snapshotBusy = signal<boolean>(false);
+  readonly snapshotStoryId = computed(() => this.persistableStoryIdForConversations());
   pasteFromHostMessage = signal<string | null>(null);
 
   // Auto-reconnect state
@@ -279,12 +396,42 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   private statsRefreshInterval: any = null;
   bridgeLatencyMs = signal<number>(0);
 
+  // Read-only share links (view-only desktop + chat for teammates)
+  showSharePanel = signal(false);
+  viewShares = signal<SandboxViewShare[]>([]);
+  shareBusy = signal(false);
+  shareExpiryMinutes = signal<number | null>(4 * 60);
+  copiedShareId = signal<string | null>(null);
+  readonly shareExpiryOptions = SHARE_EXPIRY_OPTIONS;
+  readonly shareExpiryLabel = shareExpiryLabel;
+
+  // File transfer: project file browser (download files / zipped folders) and drag-and-drop upload
+  showFilesPanel = signal(false);
+  /** Directory shown in the browser, relative to the projects root; null until first listed (repository folder). */
+  filesPath = signal<string | null>(null);
+  filesEntries = signal<ProjectFile[]>([]);
+  filesLoading = signal(false);
+  filesError = signal<string | null>(null);
+  filesUploadBusy = signal(false);
+  filesDownloading = signal<string | null>(null);
+  filesDragActive = signal(false);
+  filesCrumbs = computed(() => projectPathCrumbs(this.filesPath() ?? ''));
+  readonly formatBytes = formatBytes;
+  copyToHostBusy = signal(false);
+
   /**
-   * Enable Push PR after latest turn has assistant text and the bridge has been idle with a
-   * stable latest conversation id for {@link SANDBOX_AGENT_QUIET_POLL_COUNT} polls (not only “any reply”).
+   * Enable Push PR after latest turn has assistant text and the bridge reported the turn complete
+   * (without the event stream: idle with a stable latest conversation id for
+   * {@link SANDBOX_AGENT_QUIET_POLL_COUNT} polls, not only “any reply”).
    */
   canPushPrAfterQuiet = signal<boolean>(false);
 
+  /** Idle auto-shutdown countdown for the toolbar (hidden while the policy is disabled). */
+  readonly idleState = computed(() => this.sandboxIdleService.stateFor(this.sandboxId()));
+  readonly idleCountdown = computed(() => formatIdleCountdown(this.idleState().secondsLeft));
+  private lastIdleActivityMark = 0;
+  private static readonly IDLE_ACTIVITY_THROTTLE_MS = 10000;
+
   // Ready for PR state - shows alert on minimized widget
   readyForPr = signal<boolean>(false);
 
@@ -302,6 +449,8 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
 
   // VNC iframe URL
   private vncIframeUrlRaw = signal<string>('');
+  /** Pending desktop-stream ticket for the next iframe load; dropped on disconnect. */
+  private vncTicketRequest?: Subscription;
 
   // Check if we have a valid iframe URL
   hasIframeUrl = computed<boolean>(() => {
@@ -373,7 +522,11 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     private sandboxBridgeService: SandboxBridgeService,
     private repositoryService: RepositoryService,
     private backlogService: BacklogService,
-    private markdownPipe: MarkdownPipe
+    private markdownPipe: MarkdownPipe,
+    private sandboxIdleService: SandboxIdleService,
+    private sandboxService: SandboxService,
+    private notificationService: NotificationService,
+    private sandboxViewShareService: SandboxViewShareService
   ) {
     effect(() => {
       const inputConfig = this.config();
@@ -427,6 +580,12 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
       }
     });
 
+    // Follow the repository sandbox profile (setup commands) of whichever sandbox is open
+    effect(() => {
+      const sid = this.sandboxId();
+      untracked(() => this.watchSandboxProfile(sid));
+    }, { allowSignalWrites: true });
+
     // Restore viewMode from service when component re-mounts (minimize→restore)
     effect(() => {
       const init = this.initialViewMode();
@@ -561,14 +720,16 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     if (!mql) return;
     const allowed = !mql.matches;
     this.agentChatSidebarAllowed.set(allowed);
-    if (!allowed) {
+    if (!allowed && this.showChat()) {
       this.viewMode.set('sandbox');
     }
   }
 
   /**
    * Start polling for AI conversations from the Bridge API.
-   * Uses adaptive interval: 600ms while the LLM is streaming, 3s when idle.
+   * Uses adaptive interval: 600ms while the LLM is streaming, 3s when idle. While the agent event
+   * stream is connected it carries live text, and the poll only syncs (and persists) the stored
+   * conversations every 10s and right after each turn.
    *
    * Signal updates are deduplicated: conversations/liveResponse are only
    * written when the payload actually changed, preventing unnecessary DOM
@@ -583,6 +744,125 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
       .join('|');
   }
 
+  /**
+   * Poll the bridge for setup command progress until the profile has finished (or there is none),
+   * appending new log output as it arrives.
+   */
+  private watchSandboxProfile(sandboxId: string | null | undefined): void {
+    this.sandboxProfileWatch?.unsubscribe();
+    this.sandboxProfile.set(null);
+    this.sandboxProfileLog.set('');
+    if (!sandboxId) return;
+    let offset = 0;
+    this.sandboxProfileWatch = timer(0, VncViewerComponent.PROFILE_POLL_INTERVAL_MS)
+      .pipe(
+        switchMap(() => this.sandboxBridgeService.profileStatus(sandboxId, offset)),
+        takeWhile(status => isSandboxProfileActive(status), true),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(status => {
+        if (!status || this.sandboxId() !== sandboxId) return;
+        if (status.log) {
+          this.sandboxProfileLog.update(log => (log + status.log).slice(-VncViewerComponent.PROFILE_LOG_MAX_CHARS));
+        }
+        offset = status.offset ?? offset;
+        this.sandboxProfile.set(status);
+        if (status.state === 'failed') this.showSandboxProfileLog.set(true);
+      });
+  }
+
+  toggleSandboxProfileLog(): void {
+    this.showSandboxProfileLog.update(v => !v);
+  }
+
+  /** Stores the workspace and agent history on the server so the story can be resumed in a new sandbox. */
+  saveWorkspaceSnapshot(): void {
+    const sid = this.sandboxId();
+    const storyId = this.snapshotStoryId();
+    if (!sid || !storyId || this.snapshotBusy()) return;
+    this.snapshotBusy.set(true);
+    this.sandboxService
+      .createWorkspaceSnapshot(sid, storyId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (snapshot) => {
+          this.snapshotBusy.set(false);
+          this.notificationService.success(
+            'Snapshot saved',
+            `${formatBytes(snapshot.archiveSizeBytes)}${snapshot.branch ? ' on ' + snapshot.branch : ''}. Use Resume on the story to continue from it.`
+          );
+        },
+        error: (err) => {
+          this.snapshotBusy.set(false);
+          this.notificationService.error('Snapshot failed', err?.error?.error || 'Could not save the workspace');
+        }
+      });
+  }
+
+  toggleSharePanel(): void {
+    const sid = this.sandboxId();
+    const show = !this.showSharePanel();
+    this.showSharePanel.set(show);
+    if (!show || !sid) return;
+    this.showFilesPanel.set(false);
+    if (this.showStatsOverlay()) this.toggleStats();
+    this.sandboxViewShareService
+      .list(sid)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (shares) => this.viewShares.set(shares),
+        error: () => this.viewShares.set([])
+      });
+  }
+
+  /** Creates a read-only link (view-only desktop and chat) and copies it. */
+  createViewShare(): void {
+    const sid = this.sandboxId();
+    if (!sid || this.shareBusy()) return;
+    this.shareBusy.set(true);
+    const title = this.implementationContext()?.storyTitle || this.viewerTitle();
+    this.sandboxViewShareService
+      .create(sid, title, this.shareExpiryMinutes())
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (share) => {
+          this.shareBusy.set(false);
+          this.viewShares.update(list => [share, ...list]);
+          this.copyShareLink(share);
+        },
+        error: (err) => {
+          this.shareBusy.set(false);
+          this.notificationService.error('Share link failed', err?.error?.error || 'Could not create the link');
+        }
+      });
+  }
+
+  copyShareLink(share: SandboxViewShare): void {
+    const url = `${window.location.origin}${shareViewPath(share.token)}`;
+    navigator.clipboard.writeText(url).then(
+      () => {
+        this.copiedShareId.set(share.id);
+        setTimeout(() => {
+          if (this.copiedShareId() === share.id) this.copiedShareId.set(null);
+        }, 2000);
+      },
+      () => this.notificationService.info('Share link', url)
+    );
+  }
+
+  /** Revokes the link: its page stops loading and open desktop streams close within seconds. */
+  revokeViewShare(share: SandboxViewShare): void {
+    const sid = this.sandboxId();
+    if (!sid) return;
+    this.sandboxViewShareService
+      .revoke(sid, share.id)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: () => this.viewShares.update(list => list.filter(s => s.id !== share.id)),
+        error: (err) => this.notificationService.error('Revoke failed', err?.error?.error || 'Could not revoke the link')
+      });
+  }
+
   /** Real user-story GUID only — backend stores bridge snapshots keyed by story + sandbox. */
   private persistableStoryIdForConversations(): string | undefined {
     const id = this.implementationContext()?.storyId?.trim();
@@ -687,6 +967,7 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
 
     const FAST_MS = 600;
     const SLOW_MS = 3000;
+    const STREAM_SYNC_MS = 10000;
 
     const poll = () => {
       const currentSid = this.sandboxId();
@@ -704,6 +985,7 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
         this.liveResponse.set(null);
         this.renderLiveStream(null);
         this.loadPriorStorySessionHistoryForOpenSandbox(currentSid);
+        this.connectAgentEvents(currentSid, () => schedulePoll(0));
       }
 
       this.sandboxBridgeService.getAllConversations(
@@ -738,6 +1020,13 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
             }
           }
 
+          if (this.agentLive) {
+            streaming = this.agentLive.inProgress;
+            this.updatePushPrEligibility({ ...response, conversations: convs, count: convs.length });
+            schedulePoll(STREAM_SYNC_MS);
+            return;
+          }
+
           const wasStreaming = streaming;
           streaming = response.request_in_progress === true;
 
@@ -808,21 +1097,70 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     };
 
     this.destroy$.subscribe(() => { if (pollTimer) clearTimeout(pollTimer); });
+    this.connectAgentEvents(sid, () => schedulePoll(0));
     poll();
   }
 
   /**
-   * Gate "Push & Create PR" on the same heuristic as implementation-complete: avoid enabling
-   * right after the first assistant chunk while tool/LLM rounds are still in flight.
+   * Follow the agent event stream of `sid`: live text and progress as they happen, and a conversation
+   * refresh when a turn completes. When the stream is unavailable or drops, polling takes over.
+   */
+  private connectAgentEvents(sid: string, refreshConversations: () => void): void {
+    this.agentEventsSub?.unsubscribe();
+    this.agentLive = null;
+    this.agentEventsSub = this.sandboxBridgeService.agentEvents(sid).pipe(
+      takeUntil(this.destroy$)
+    ).subscribe({
+      next: (event) => {
+        if (this.sandboxId() !== sid) return;
+        const live = applyAgentEvent(this.agentLive ?? INITIAL_AGENT_LIVE_STATE, event);
+        this.agentLive = live;
+
+        if (event.type === 'hello' || event.type === 'turn_start') {
+          if (this._liveRenderTimer) {
+            clearTimeout(this._liveRenderTimer);
+            this._liveRenderTimer = null;
+          }
+          this._liveLastRenderedLen = 0;
+        }
+        if (live.inProgress !== this.requestInProgress()) {
+          this.requestInProgress.set(live.inProgress);
+        }
+        const content = live.inProgress ? live.content : '';
+        if (content !== (this.liveResponse()?.content ?? '')) {
+          this.liveResponse.set(content ? { content, user_message: live.userMessage } : null);
+          this.renderLiveStream(content || null);
+        }
+
+        if (!live.settled) {
+          this.setPushPrEligibility(false);
+        }
+        if (event.type === 'hello' || event.type === 'turn_complete') {
+          refreshConversations();
+        }
+      },
+      error: () => {
+        this.agentLive = null;
+        if (this.sandboxId() === sid) refreshConversations();
+      }
+    });
+  }
+
+  /**
+   * Gate "Push & Create PR" like implementation-complete: the latest turn has assistant text and the
+   * bridge reported it complete, so it never enables while tool/LLM rounds are still in flight.
+   * Without the event stream, falls back to the quiet-period heuristic.
    */
   private updatePushPrEligibility(response: ZedConversationsResponse): void {
-    const prevEligible = this.canPushPrAfterQuiet();
     const inProgress = response.request_in_progress === true;
     const list = response.conversations;
 
     let nextEligible = false;
 
-    if (list.length === 0) {
+    if (this.agentLive) {
+      const latest = list.length > 0 ? list[list.length - 1] : null;
+      nextEligible = !!latest?.assistant_message?.trim() && this.agentLive.settled;
+    } else if (list.length === 0) {
       this.pushPrQuietAccum = { stableLatestId: null, consecutiveStableIdle: 0 };
     } else {
       const latest = list[list.length - 1];
@@ -841,6 +1179,11 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
       }
     }
 
+    this.setPushPrEligibility(nextEligible);
+  }
+
+  private setPushPrEligibility(nextEligible: boolean): void {
+    const prevEligible = this.canPushPrAfterQuiet();
     this.canPushPrAfterQuiet.set(nextEligible);
     this.syncReadyForPrWithPushEligibility(prevEligible, nextEligible);
   }
@@ -861,19 +1204,50 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     }
   }
 
-  setViewMode(mode: 'sandbox' | 'split' | 'chat'): void {
-    if (!this.agentChatSidebarAllowed() && mode !== 'sandbox') return;
+  setViewMode(mode: VncViewMode): void {
+    if (!this.agentChatSidebarAllowed() && (mode === 'chat' || mode === 'split')) return;
     this.viewMode.set(mode);
   }
 
+  /** Downloads the story's earlier runs and this sandbox's thread as a Markdown, HTML or JSON transcript. */
+  exportConversations(format: TranscriptFormat): void {
+    this.showTranscriptMenu.set(false);
+    const ctx = this.implementationContext();
+    const clean = (m: string) => this.cleanUserMessage(m);
+    const sessions: TranscriptSession[] = this.visiblePriorStorySessions().map(s => ({
+      label: `Sandbox ${s.sandboxId.slice(0, 8)} · ${new Date(s.updatedAt ?? s.createdAt).toLocaleString()}`,
+      sandboxId: s.sandboxId,
+      startedAt: s.createdAt,
+      turns: turnsFromZedConversations(s.conversations, clean),
+      raw: s.conversations
+    }));
+    const sandboxId = this.sandboxId() ?? '';
+    sessions.push({
+      label: `${sessions.length > 0 ? 'Current sandbox' : 'Sandbox'} ${sandboxId.slice(0, 8)}`,
+      sandboxId,
+      turns: turnsFromZedConversations(this.conversations(), clean),
+      raw: this.conversations()
+    });
+    const title = ctx?.storyTitle || this.viewerTitle();
+    const details = ctx
+      ? [{ label: 'Repository', value: ctx.repositoryFullName }, { label: 'Story', value: ctx.storyTitle }]
+      : [];
+    const content = renderTranscript(
+      { title, details, exportedAt: new Date().toISOString(), sessions },
+      format,
+      md => this.sanitizer.sanitize(SecurityContext.HTML, this.markdownPipe.renderHtml(md)) ?? ''
+    );
+    const meta = TRANSCRIPT_FORMATS.find(f => f.format === format)!;
+    const url = URL.createObjectURL(new Blob([content], { type: `${meta.mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = transcriptFileName(title, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   cleanUserMessage(msg: string): string {
-    if (!msg) return msg;
-    return msg
-      .replace(/(?:You\s*\n)?You\s+MUST\s+respond\s+with\s+a\s+series\s+of\s+edits[\s\S]*?must\s+exactly\s+match\s+existing[^\n]*/gi, '')
-      .replace(/You\s+MUST\s+respond\s+with\s+a\s+series\s+of\s+edits[\s\S]*?```/g, '')
-      .replace(/#+\s*File Editing Instructions[\s\S]*?(?=\n\n[A-Z]|\n\n#[^#]|$)/g, '')
-      .replace(/\n{3,}/g, '\n\n')
-      .trim();
+    return stripEditInstructions(msg);
   }
 
   onChatResizeStart(event: MouseEvent): void {
@@ -935,7 +1309,8 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   }
 
   /**
-   * Push changes and create PR (when implementation context is present)
+   * Push changes and create PR (when implementation context is present). Opens the diff review
+   * first; the push itself starts from {@link confirmPushReview}.
    */
   pushAndCreatePr(): void {
     const ctx = this.implementationContext();
@@ -947,36 +1322,236 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
       return;
     }
 
+    this.openPushReview(sid, ctx);
+  }
+
+  private openPushReview(sandboxId: string, ctx: ImplementationContext): void {
+    this.pushReviewOpen.set(true);
+    this.pushReviewStep.set('changes');
+    this.pushReviewLoading.set(true);
+    this.pushReviewError.set(null);
+    this.pushReviewFiles.set([]);
+    this.pushReviewTooLarge.set(null);
+    this.pushReviewExcluded.set(new Set());
+    this.pushReviewCollapsed.set(new Set());
+    this.pushPrError.set(null);
+    this.testRunWatch?.unsubscribe();
+    this.testGate.set(null);
+    this.testRunStatus.set(null);
+    this.testRunLog.set('');
+    this.testRunError.set(null);
+    this.testResult.set(null);
+
+    this.sandboxBridgeService.getWorkingTreeDiff(sandboxId).pipe(takeUntil(this.destroy$)).subscribe({
+      next: (res) => {
+        this.pushReviewLoading.set(false);
+        if (res.too_large) {
+          this.pushReviewTooLarge.set(res.files);
+        } else {
+          this.pushReviewFiles.set(parseUnifiedDiff(res.diff));
+        }
+      },
+      error: (err: { error?: { error?: string }; message?: string }) => {
+        this.pushReviewLoading.set(false);
+        this.pushReviewError.set(err.error?.error || err.message || 'Failed to load changes from the sandbox');
+      }
+    });
+
+    this.prForm.set(buildPrForm(null, ctx));
+    this.prFormError.set(null);
+    this.prTargetBranches.set([]);
+    this.repositoryService.getRepositoryPullRequestTemplate(ctx.repositoryId).pipe(
+      catchError(() => of(null)),
+      takeUntil(this.destroy$)
+    ).subscribe(template => this.prForm.set(buildPrForm(template, ctx)));
+    this.repositoryService.getBranches(ctx.repositoryId).pipe(
+      catchError(() => of([])),
+      takeUntil(this.destroy$)
+    ).subscribe(branches => this.prTargetBranches.set(branches.map(b => b.name)));
+    this.repositoryService.getRepositorySandboxProfile(ctx.repositoryId).pipe(
+      catchError(() => of(null)),
+      takeUntil(this.destroy$)
+    ).subscribe(profile => this.testGate.set(
+      profile?.testCommand ? { command: profile.testCommand, block: profile.blockPullRequestOnTestFailure } : null
+    ));
+  }
+
+  updatePrForm<K extends keyof PrFormValue>(key: K, value: PrFormValue[K]): void {
+    this.prForm.update(form => form ? { ...form, [key]: value } : form);
+    this.prFormError.set(null);
+  }
+
+  closePushReview(): void {
+    this.pushReviewOpen.set(false);
+  }
+
+  pushReviewFileState(keys: readonly string[]): 'all' | 'some' | 'none' {
+    const excluded = this.pushReviewExcluded();
+    const count = keys.filter(k => excluded.has(k)).length;
+    return count === 0 ? 'all' : count === keys.length ? 'none' : 'some';
+  }
+
+  isPushReviewUnitIncluded(key: string): boolean {
+    return !this.pushReviewExcluded().has(key);
+  }
+
+  /** File checkbox: a partly or fully included file is excluded as a whole, an excluded one included again. */
+  togglePushReviewFile(keys: readonly string[]): void {
+    const include = this.pushReviewFileState(keys) === 'none';
+    this.pushReviewExcluded.update(set => {
+      const next = new Set(set);
+      keys.forEach(k => include ? next.delete(k) : next.add(k));
+      return next;
+    });
+  }
+
+  togglePushReviewHunk(key: string): void {
+    this.pushReviewExcluded.update(set => {
+      const next = new Set(set);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  }
+
+  excludePushReviewLockfiles(): void {
+    this.pushReviewExcluded.update(set => {
+      const next = new Set(set);
+      this.pushReviewEntries().filter(e => e.lockfile).forEach(e => e.keys.forEach(k => next.add(k)));
+      return next;
+    });
+  }
+
+  togglePushReviewCollapsed(path: string): void {
+    this.pushReviewCollapsed.update(set => {
+      const next = new Set(set);
+      if (!next.delete(path)) next.add(path);
+      return next;
+    });
+  }
+
+  /** Reviewed selection → test step when the repository has a test command, otherwise the PR details step. */
+  confirmPushReview(): void {
+    if (this.pushReviewTooLarge() === null && !buildPatch(this.pushReviewFiles(), this.pushReviewExcluded())) return;
+    if (!this.testGate()) {
+      this.pushReviewStep.set('details');
+      return;
+    }
+    this.pushReviewStep.set('tests');
+    if (!this.testResult() && !this.testRunning()) this.runPushTests();
+  }
+
+  /** Runs the repository's test command in the sandbox and follows its output until it finishes. */
+  runPushTests(): void {
+    const sid = this.sandboxId();
+    const gate = this.testGate();
+    if (!sid || !gate) return;
+    this.testRunWatch?.unsubscribe();
+    this.testResult.set(null);
+    this.testRunError.set(null);
+    this.testRunLog.set('');
+    this.testRunStatus.set({ state: 'running', command: gate.command });
+    this.sandboxBridgeService.runTests(sid, gate.command).pipe(takeUntil(this.destroy$)).subscribe({
+      next: () => this.watchTestRun(sid),
+      error: (err: { status?: number; error?: { error?: string }; message?: string }) => {
+        // 409: a run started earlier (e.g. before the dialog was reopened) is still going; follow that one
+        if (err.status === 409) {
+          this.watchTestRun(sid);
+          return;
+        }
+        this.testRunStatus.set(null);
+        this.testRunError.set(err.error?.error || err.message || 'Failed to start the tests');
+      }
+    });
+  }
+
+  private watchTestRun(sandboxId: string): void {
+    let offset = 0;
+    this.testRunWatch = timer(0, VncViewerComponent.PROFILE_POLL_INTERVAL_MS)
+      .pipe(
+        switchMap(() => this.sandboxBridgeService.testStatus(sandboxId, offset)),
+        takeWhile(status => isTestRunActive(status), true),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(status => {
+        if (!status || this.sandboxId() !== sandboxId) return;
+        if (status.log) {
+          this.testRunLog.update(log => (log + status.log).slice(-VncViewerComponent.PROFILE_LOG_MAX_CHARS));
+        }
+        offset = status.offset ?? offset;
+        this.testRunStatus.set(status);
+        if (status.state === 'idle') {
+          this.testRunError.set('The sandbox lost the test run; run the tests again');
+        } else if (status.state !== 'running') {
+          this.finishTestRun(status);
+        }
+      });
+  }
+
+  /** Keeps the result for the PR body and records it on the story for the backlog badge. */
+  private finishTestRun(status: TestRunStatusResponse): void {
+    const result = toTestGateResult(status, this.testRunLog());
+    this.testResult.set(result);
+    const storyId = this.persistableStoryIdForConversations();
+    if (!storyId) return;
+    this.backlogService.recordStoryTestResult(storyId, result.passed, result.summary).pipe(
+      catchError(() => of(null)),
+      takeUntil(this.destroy$)
+    ).subscribe();
+  }
+
+  /** Test step → PR details, adding the test section to the PR description. */
+  continueAfterTests(): void {
+    if (this.testRunning() || this.testGateBlocksPr()) return;
+    const result = this.testResult();
+    if (result) {
+      this.prForm.update(form => form ? { ...form, body: appendTestReport(form.body, result) } : form);
+    }
+    this.pushReviewStep.set('details');
+  }
+
+  /**
+   * Pushes the reviewed selection with the PR details from the form. The patch is staged as-is by the
+   * bridge, so later edits by the agent are not picked up; a too-large diff could not be reviewed and is pushed in full.
+   */
+  submitPushReview(): void {
+    const sid = this.sandboxId();
+    const form = this.prForm();
+    if (!sid || !form || !this.canPushPrAfterQuiet()) return;
+    if (this.testGateBlocksPr()) {
+      this.prFormError.set('This repository requires passing tests before a pull request is created');
+      return;
+    }
+    const result = toPrSubmission(form);
+    if ('error' in result) {
+      this.prFormError.set(result.error);
+      return;
+    }
+    let patch: string | undefined;
+    if (this.pushReviewTooLarge() === null) {
+      patch = buildPatch(this.pushReviewFiles(), this.pushReviewExcluded());
+      if (!patch) return;
+    }
+    this.pushReviewOpen.set(false);
+    this.pushReviewedChanges(sid, result.submission, patch);
+  }
+
+  private pushReviewedChanges(sid: string, pr: PrSubmission, patch: string | undefined): void {
+    const ctx = this.implementationContext();
+    if (!ctx) return;
+
     this.pushCreatingPr.set(true);
     this.pushPrError.set(null);
     this.pushPrSuccess.set(null);
 
-    const shortStoryId = ctx.storyId.slice(0, 8);
-    const adoWorkItemId = ctx.azureDevOpsWorkItemId;
-    const branchName = `feature/US-${adoWorkItemId ?? shortStoryId}-${ctx.storyTitle.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '').slice(0, 40)}`;
-    const commitMessage = `Implement: ${ctx.storyTitle}`;
-    const prTitle = adoWorkItemId != null ? `#${adoWorkItemId}: ${ctx.storyTitle}` : `${shortStoryId}: ${ctx.storyTitle}`;
-    const prBody = [
-      '## Implements User Story',
-      '',
-      adoWorkItemId != null ? `**Work Item:** #${adoWorkItemId}` : `**Story ID:** \`${ctx.storyId}\``,
-      `**Title:** ${ctx.storyTitle}`,
-      '',
-      'This PR implements the user story as described above.',
-      '',
-      '---',
-      '*Created by DevPilot*'
-    ].join('\n');
-
     // Fetch authenticated clone URL to get credentials for push
     this.repositoryService.getAuthenticatedCloneUrl(ctx.repositoryId).subscribe({
       next: (result) => {
         // Extract credentials from URL (format: https://TOKEN@host/...)
         const gitCredentials = this.extractCredentialsFromUrl(result.cloneUrl);
-        this.executePush(sid, ctx, branchName, commitMessage, prTitle, prBody, gitCredentials);
+        this.executePush(sid, ctx, pr, gitCredentials, patch);
       },
       error: () => {
-        this.executePush(sid, ctx, branchName, commitMessage, prTitle, prBody, undefined);
+        this.executePush(sid, ctx, pr, undefined, patch);
       }
     });
   }
@@ -1026,35 +1601,29 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
 
   private executePush(
     sandboxId: string,
-    ctx: {
-      repositoryId: string;
-      repositoryFullName: string;
-      defaultBranch: string;
-      storyTitle: string;
-      storyId: string;
-      azureDevOpsWorkItemId?: number;
-      repositoryProvider?: string;
-    },
-    branchName: string,
-    commitMessage: string,
-    prTitle: string,
-    prBody: string,
-    gitCredentials: string | undefined
+    ctx: ImplementationContext,
+    pr: PrSubmission,
+    gitCredentials: string | undefined,
+    patch: string | undefined
   ): void {
     this.sandboxBridgeService.pushAndCreatePr(sandboxId, {
-      branchName,
-      commitMessage,
-      prTitle,
-      prBody,
-      gitCredentials
+      branchName: pr.branchName,
+      commitMessage: pr.commitMessage,
+      prTitle: pr.title,
+      prBody: pr.body,
+      gitCredentials,
+      patch
     }).subscribe({
       next: () => {
         this.repositoryService.createPullRequest(ctx.repositoryId, {
-          headBranch: branchName,
-          baseBranch: ctx.defaultBranch,
-          title: prTitle,
-          body: prBody,
-          workItemIds: ctx.azureDevOpsWorkItemId != null ? [ctx.azureDevOpsWorkItemId] : undefined
+          headBranch: pr.branchName,
+          baseBranch: pr.targetBranch,
+          title: pr.title,
+          body: pr.body,
+          workItemIds: pr.workItemIds.length ? pr.workItemIds : undefined,
+          reviewers: pr.reviewers.length ? pr.reviewers : undefined,
+          labels: pr.labels.length ? pr.labels : undefined,
+          isDraft: pr.draft
         }).subscribe({
           next: (pr: { url: string; title: string }) => {
             this.pushCreatingPr.set(false);
@@ -1062,7 +1631,7 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
             
             // Update story status to "PendingReview" (PR created, awaiting merge)
             // Status will change to "Done" when PR is merged
-            this.backlogService.updateStoryStatus(ctx.storyId, 'PendingReview', pr.url).subscribe({
+            this.backlogService.updateStoryStatus(ctx.storyId, 'PendingReview', pr.url, 'Agent').subscribe({
               next: () => console.log('Story status updated to PendingReview with PR URL:', pr.url),
               error: (err) => console.warn('Failed to update story status:', err)
             });
@@ -1125,6 +1694,8 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
       clearTimeout(this.connectionTimeout);
     }
     // Stop polling
+    this.sandboxProfileWatch?.unsubscribe();
+    this.testRunWatch?.unsubscribe();
     this.destroy$.next();
     this.destroy$.complete();
 
@@ -1365,7 +1936,7 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     // Set connection state and URL
     this.connectionState.set(VncConnectionState.Connecting);
     this.error.set(null);
-    this.vncIframeUrlRaw.set(finalUrl);
+    this.loadVncIframe(finalUrl);
 
     this.connectionRetryCount = 0;
 
@@ -1436,6 +2007,7 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     this.stopHealthCheck();
     this.stopStatsRefresh();
     this.connectionRetryCount = 0;
+    this.vncTicketRequest?.unsubscribe();
     this.vncIframeUrlRaw.set('');
     this.connectionState.set(VncConnectionState.Disconnected);
   }
@@ -1530,6 +2102,8 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     const show = !this.showStatsOverlay();
     this.showStatsOverlay.set(show);
     if (show) {
+      this.showSharePanel.set(false);
+      this.showFilesPanel.set(false);
       this.refreshStats();
       this.startStatsRefresh();
     } else {
@@ -1626,6 +2200,180 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     });
   }
 
+  /**
+   * Copies the text selected in the sandbox desktop (or its clipboard) to the host clipboard —
+   * the way back for text that noVNC's clipboard channel does not deliver.
+   */
+  copyToHostClipboard(): void {
+    const sid = this.sandboxId();
+    if (!sid) return;
+    if (!navigator.clipboard?.writeText) {
+      this.pasteFromHostMessage.set('Clipboard API not available. Use a secure context (HTTPS) or a supported browser.');
+      setTimeout(() => this.pasteFromHostMessage.set(null), 5000);
+      return;
+    }
+    this.copyToHostBusy.set(true);
+    this.pasteFromHostMessage.set(null);
+    this.sandboxBridgeService.copySandboxClipboard(sid).subscribe({
+      next: ({ text }) => {
+        if (!text) {
+          this.copyToHostBusy.set(false);
+          this.pasteFromHostMessage.set('Nothing selected in the sandbox.');
+          setTimeout(() => this.pasteFromHostMessage.set(null), 3000);
+          return;
+        }
+        navigator.clipboard.writeText(text).then(
+          () => {
+            this.copyToHostBusy.set(false);
+            this.pasteFromHostMessage.set('Copied to your clipboard.');
+            setTimeout(() => this.pasteFromHostMessage.set(null), 2500);
+          },
+          () => {
+            this.copyToHostBusy.set(false);
+            this.pasteFromHostMessage.set('Could not write to your clipboard. Allow clipboard permission and try again.');
+            setTimeout(() => this.pasteFromHostMessage.set(null), 5000);
+          }
+        );
+      },
+      error: (err) => {
+        this.copyToHostBusy.set(false);
+        this.pasteFromHostMessage.set(String(err?.error?.error || err?.message || 'Copy failed'));
+        setTimeout(() => this.pasteFromHostMessage.set(null), 5000);
+      }
+    });
+  }
+
+  toggleFilesPanel(): void {
+    const show = !this.showFilesPanel();
+    this.showFilesPanel.set(show);
+    if (!show) return;
+    this.showSharePanel.set(false);
+    if (this.showStatsOverlay()) this.toggleStats();
+    this.openFilesDirectory(this.filesPath());
+  }
+
+  /** Lists a project directory; null opens the repository folder. */
+  openFilesDirectory(path: string | null): void {
+    const sid = this.sandboxId();
+    if (!sid) return;
+    this.filesLoading.set(true);
+    this.filesError.set(null);
+    this.sandboxBridgeService
+      .listFiles(sid, path ?? '')
+      .pipe(
+        switchMap(listing =>
+          path === null && listing.workspace ? this.sandboxBridgeService.listFiles(sid, listing.workspace) : of(listing)
+        ),
+        takeUntil(this.destroy$)
+      )
+      .subscribe({
+        next: (listing) => {
+          this.filesLoading.set(false);
+          this.filesPath.set(listing.relative_path);
+          this.filesEntries.set(listing.files);
+        },
+        error: (err) => {
+          this.filesLoading.set(false);
+          this.filesError.set(err?.error?.error || 'Could not list files');
+        }
+      });
+  }
+
+  filesEntryPath(entry: ProjectFile): string {
+    return joinProjectPath(this.filesPath() ?? '', entry.name);
+  }
+
+  openFilesEntry(entry: ProjectFile): void {
+    if (entry.type === 'directory') this.openFilesDirectory(this.filesEntryPath(entry));
+  }
+
+  openFilesParent(): void {
+    this.openFilesDirectory(parentProjectPath(this.filesPath() ?? ''));
+  }
+
+  /** Downloads a file, or a folder as a zip. */
+  downloadProjectEntry(entry: ProjectFile): void {
+    const sid = this.sandboxId();
+    if (!sid || this.filesDownloading()) return;
+    const path = this.filesEntryPath(entry);
+    this.filesDownloading.set(path);
+    this.sandboxBridgeService
+      .downloadProjectPath(sid, path)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (blob) => {
+          this.filesDownloading.set(null);
+          const url = URL.createObjectURL(blob);
+          const link = document.createElement('a');
+          link.href = url;
+          link.download = projectDownloadName(entry);
+          link.click();
+          URL.revokeObjectURL(url);
+        },
+        error: () => {
+          this.filesDownloading.set(null);
+          this.notificationService.error('Download failed', `Could not download ${entry.name}`);
+        }
+      });
+  }
+
+  /** Uploads into the directory shown in the file browser (the repository folder until it was opened). */
+  uploadFilesToSandbox(files: File[]): void {
+    const sid = this.sandboxId();
+    if (!sid || files.length === 0 || this.filesUploadBusy()) return;
+    const sizeError = uploadSizeError(files);
+    if (sizeError) {
+      this.notificationService.error('Upload too large', sizeError);
+      return;
+    }
+    this.filesUploadBusy.set(true);
+    this.sandboxBridgeService
+      .uploadProjectFiles(sid, this.filesPath(), files)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: ({ saved }) => {
+          this.filesUploadBusy.set(false);
+          const where = this.filesPath() || 'the repository folder';
+          this.notificationService.success(
+            'Uploaded to sandbox',
+            saved.length === 1 ? `${saved[0]} saved in ${where}` : `${saved.length} files saved in ${where}`
+          );
+          if (this.showFilesPanel()) this.openFilesDirectory(this.filesPath());
+        },
+        error: (err) => {
+          this.filesUploadBusy.set(false);
+          this.notificationService.error('Upload failed', err?.error?.error || 'Could not upload the files');
+        }
+      });
+  }
+
+  onFilesPicked(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    this.uploadFilesToSandbox(Array.from(input.files ?? []));
+    input.value = '';
+  }
+
+  /** Only drags that carry files (from the OS) open the drop target over the desktop. */
+  onFilesDragOver(event: DragEvent): void {
+    if (!this.sandboxId() || !event.dataTransfer?.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    this.filesDragActive.set(true);
+  }
+
+  onFilesDragLeave(event: DragEvent): void {
+    const next = event.relatedTarget as Node | null;
+    if (next && (event.currentTarget as HTMLElement).contains(next)) return;
+    this.filesDragActive.set(false);
+  }
+
+  onFilesDrop(event: DragEvent): void {
+    if (!this.filesDragActive()) return;
+    event.preventDefault();
+    this.filesDragActive.set(false);
+    this.uploadFilesToSandbox(Array.from(event.dataTransfer?.files ?? []));
+  }
+
   // Dock methods
   setDockPosition(position: DockPosition): void {
     this.dockPosition.set(position);
@@ -1715,7 +2463,11 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
   openInNewTab(): void {
     const url = this.vncIframeUrlRaw();
     if (url) {
-      window.open(url, '_blank');
+      // Opened before the ticket request so the popup blocker sees the click.
+      const tab = window.open('about:blank', '_blank');
+      this.withVncTicket(url).subscribe(fresh => {
+        if (tab) tab.location.href = fresh;
+      });
     }
   }
 
@@ -1723,13 +2475,34 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     const currentUrl = this.vncIframeUrlRaw();
     if (currentUrl && this.vncIframeRef?.nativeElement) {
       console.log('Refreshing iframe...');
-      this.vncIframeRef.nativeElement.src = currentUrl;
+      this.loadVncIframe(currentUrl);
       if (!this.everConnected()) {
         this.connectionState.set(VncConnectionState.Connecting);
       }
     }
   }
 
+  /**
+   * Loads the desktop iframe with a fresh stream ticket: tickets are short-lived, so every load,
+   * retry and auto-reconnect asks for a new one rather than reusing the URL's.
+   */
+  private loadVncIframe(url: string): void {
+    this.vncTicketRequest?.unsubscribe();
+    this.vncTicketRequest = this.withVncTicket(url).subscribe(fresh => {
+      if (fresh === this.vncIframeUrlRaw() && this.vncIframeRef?.nativeElement) {
+        this.vncIframeRef.nativeElement.src = fresh;
+      } else {
+        this.vncIframeUrlRaw.set(fresh);
+      }
+    });
+  }
+
+  /** `url` with a fresh desktop-stream ticket; unchanged for a plain VNC url without a sandbox. */
+  private withVncTicket(url: string): Observable<string> {
+    const sid = this.sandboxId();
+    return sid ? this.vncViewerService.vncUrlWithTicket(sid, url) : of(url);
+  }
+
   // Open VNC in a popup window (bypasses iframe restrictions)
   private vncPopupWindow: Window | null = null;
 
@@ -1750,12 +2523,16 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     const top = (screen.height - height) / 2;
 
     this.vncPopupWindow = window.open(
-      url,
+      'about:blank',
       'VNC_Desktop',
       `width=${width},height=${height},left=${left},top=${top},resizable=yes,scrollbars=no,toolbar=no,menubar=no,location=no,status=no`
     );
 
     if (this.vncPopupWindow) {
+      const popup = this.vncPopupWindow;
+      this.withVncTicket(url).subscribe(fresh => {
+        if (!popup.closed) popup.location.href = fresh;
+      });
       this.connectionState.set(VncConnectionState.Connected);
 
       // Monitor popup close
@@ -1793,6 +2570,21 @@ export class VncViewerComponent implements OnInit, AfterViewInit, OnDestroy {
     event.preventDefault();
   }
 
+  /** Clicks and typing in the viewer (chat, toolbar) count as activity for the idle policy. */
+  @HostListener('mousedown')
+  @HostListener('keydown')
+  onViewerInteraction(): void {
+    const now = Date.now();
+    if (now - this.lastIdleActivityMark < VncViewerComponent.IDLE_ACTIVITY_THROTTLE_MS) return;
+    this.lastIdleActivityMark = now;
+    this.sandboxIdleService.markActivity(this.sandboxId());
+  }
+
+  keepSandboxAlive(): void {
+    this.lastIdleActivityMark = Date.now();
+    this.sandboxIdleService.markActivity(this.sandboxId());
+  }
+
   @HostListener('document:mousemove', ['$event'])
   onMouseMove(event: MouseEvent): void {
     if (this.isDragging) {
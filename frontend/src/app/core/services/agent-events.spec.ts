@@ -0,0 +1,51 @@
+import { AgentEvent, INITIAL_AGENT_LIVE_STATE, agentEventsSocketUrl, applyAgentEvent, parseAgentEvent } from './agent-events';
+
+describe('agent events', () => {
+  const fold = (events: AgentEvent[]) => events.reduce(applyAgentEvent, INITIAL_AGENT_LIVE_STATE);
+
+  it('builds the socket URL like the terminal one', () => {
+    expect(agentEventsSocketUrl('/api', 'sb 1', 'jwt', 'https://devpilot.example/backlog/1'))
+      .toBe('wss://devpilot.example/api/sandboxes/sb%201/bridge/agent-events?access_token=jwt');
+    expect(agentEventsSocketUrl('http://localhost:5000/api/', 'abc', null, 'http://localhost:4200/'))
+      .toBe('ws://localhost:5000/api/sandboxes/abc/bridge/agent-events');
+  });
+
+  it('parses event frames and ignores pings and garbage', () => {
+    expect(parseAgentEvent('{"seq":3,"type":"delta","text":"Hi"}')).toEqual({ type: 'delta', seq: 3, text: 'Hi', replace: false });
+    expect(parseAgentEvent('{"seq":4,"type":"turn_complete","source":"proxy","conversation_id":"c1","aborted":false}'))
+      .toEqual({ type: 'turn_complete', seq: 4, source: 'proxy', prompt_id: null, conversation_id: 'c1', aborted: false, error: null });
+    expect(parseAgentEvent('{"type":"ping"}')).toBeNull();
+    expect(parseAgentEvent('{"type":"delta"}')).toBeNull();
+    expect(parseAgentEvent('not json')).toBeNull();
+    expect(parseAgentEvent(new ArrayBuffer(2))).toBeNull();
+  });
+
+  it('folds a turn with a tool round into live state', () => {
+    const running = fold([
+      { type: 'turn_start', seq: 1, source: 'proxy', prompt_id: null, user_message: 'Fix it' },
+      { type: 'delta', seq: 2, text: 'Looking', replace: true },
+      { type: 'delta', seq: 3, text: '…', replace: false },
+      { type: 'tool_start', seq: 4, name: 'grep', args_preview: '{"q":"x"}' },
+      { type: 'tool_end', seq: 5, name: 'grep', result_preview: 'a.ts' },
+      { type: 'delta', seq: 6, text: 'Done', replace: true }
+    ]);
+    expect(running).toMatchObject({ inProgress: true, settled: false, userMessage: 'Fix it', content: 'Done' });
+    expect(running.tools).toEqual([{ name: 'grep', args_preview: '{"q":"x"}', result_preview: 'a.ts' }]);
+
+    const done = applyAgentEvent(running, {
+      type: 'turn_complete', seq: 7, source: 'proxy', prompt_id: null, conversation_id: 'c1', aborted: false, error: null
+    });
+    expect(done).toMatchObject({ inProgress: false, settled: true });
+    expect(done.lastCompleted?.conversation_id).toBe('c1');
+  });
+
+  it('takes the running turn from hello and is settled when nothing runs', () => {
+    const hello = (running: boolean): AgentEvent => ({
+      type: 'hello', seq: 9, request_in_progress: running, source: running ? 'headless_agent' : null,
+      prompt_id: running ? 'p1' : null, user_message: running ? 'Explain' : '', content: running ? 'So far' : '', tools: []
+    });
+    expect(fold([hello(true)])).toMatchObject({ inProgress: true, settled: false, promptId: 'p1', content: 'So far' });
+    expect(fold([hello(false)])).toMatchObject({ inProgress: false, settled: true });
+    expect(INITIAL_AGENT_LIVE_STATE.settled).toBe(false);
+  });
+});
@@ -0,0 +1,183 @@
+/** A tool call of the running turn, as sent on the agent event stream and in `headless_progress`. */
+export interface AgentToolActivity {
+  name: string;
+  args_preview?: string;
+  result_preview?: string;
+  at?: number;
+}
+
+export interface AgentHelloEvent {
+  type: 'hello';
+  seq: number;
+  request_in_progress: boolean;
+  source: string | null;
+  prompt_id: string | null;
+  user_message: string;
+  content: string;
+  tools: AgentToolActivity[];
+}
+
+export interface AgentTurnCompleteEvent {
+  type: 'turn_complete';
+  seq: number;
+  source: string;
+  /** Headless /agent/prompt runs only. */
+  prompt_id: string | null;
+  /** Id of the stored conversation; null when the turn stored none (empty answer, failure). */
+  conversation_id: string | null;
+  aborted: boolean;
+  error: string | null;
+}
+
+/**
+ * Frames of the bridge `/agent/events` socket: a `hello` snapshot on connect, then the turn as it
+ * happens. `delta` text is appended to the answer, or replaces it when `replace` is set (new round).
+ */
+export type AgentEvent =
+  | AgentHelloEvent
+  | { type: 'turn_start'; seq: number; source: string; prompt_id: string | null; user_message: string }
+  | { type: 'delta'; seq: number; text: string; replace: boolean }
+  | { type: 'tool_start'; seq: number; name: string; args_preview: string }
+  | { type: 'tool_end'; seq: number; name: string; result_preview: string }
+  | AgentTurnCompleteEvent;
+
+/** What the agent is doing, folded from the event stream by {@link applyAgentEvent}. */
+export interface AgentLiveState {
+  /** A turn is running; Zed turns stay in progress while Zed runs tools between LLM rounds. */
+  inProgress: boolean;
+  /** The bridge reported the last turn over (or nothing running on connect). */
+  settled: boolean;
+  source: string | null;
+  promptId: string | null;
+  userMessage: string;
+  /** Answer text of the current round so far. */
+  content: string;
+  tools: AgentToolActivity[];
+  /** The `turn_complete` of the last turn; cleared when the next one starts. */
+  lastCompleted: AgentTurnCompleteEvent | null;
+}
+
+export const INITIAL_AGENT_LIVE_STATE: AgentLiveState = {
+  inProgress: false,
+  settled: false,
+  source: null,
+  promptId: null,
+  userMessage: '',
+  content: '',
+  tools: [],
+  lastCompleted: null
+};
+
+/** The agent event socket could not be opened or dropped; callers fall back to polling `/all-conversations`. */
+export class AgentStreamUnavailableError extends Error {
+  constructor(message = 'Agent event stream unavailable') {
+    super(message);
+    this.name = 'AgentStreamUnavailableError';
+  }
+}
+
+/** WebSocket URL of the agent event stream; same resolution and `access_token` rule as the web terminal. */
+export function agentEventsSocketUrl(apiUrl: string, sandboxId: string, token: string | null, pageUrl: string): string {
+  const url = new URL(`${apiUrl.replace(/\/$/, '')}/sandboxes/${encodeURIComponent(sandboxId)}/bridge/agent-events`, pageUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (token) url.searchParams.set('access_token', token);
+  return url.toString();
+}
+
+/** Parses a frame from the bridge; pings, unknown and malformed frames yield null. */
+export function parseAgentEvent(raw: unknown): AgentEvent | null {
+  if (typeof raw !== 'string') return null;
+  let msg: Record<string, unknown>;
+  try {
+    msg = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (!msg || typeof msg !== 'object') return null;
+  const seq = typeof msg['seq'] === 'number' ? msg['seq'] : 0;
+  const text = (key: string) => (typeof msg[key] === 'string' ? (msg[key] as string) : '');
+  const textOrNull = (key: string) => (typeof msg[key] === 'string' ? (msg[key] as string) : null);
+
+  switch (msg['type']) {
+    case 'hello':
+      return {
+        type: 'hello',
+        seq,
+        request_in_progress: msg['request_in_progress'] === true,
+        source: textOrNull('source'),
+        prompt_id: textOrNull('prompt_id'),
+        user_message: text('user_message'),
+        content: text('content'),
+        tools: Array.isArray(msg['tools'])
+          ? (msg['tools'] as AgentToolActivity[]).filter(t => typeof t?.name === 'string')
+          : []
+      };
+    case 'turn_start':
+      return { type: 'turn_start', seq, source: text('source'), prompt_id: textOrNull('prompt_id'), user_message: text('user_message') };
+    case 'delta':
+      return typeof msg['text'] === 'string'
+        ? { type: 'delta', seq, text: msg['text'], replace: msg['replace'] === true }
+        : null;
+    case 'tool_start':
+      return { type: 'tool_start', seq, name: text('name') || 'tool', args_preview: text('args_preview') };
+    case 'tool_end':
+      return { type: 'tool_end', seq, name: text('name') || 'tool', result_preview: text('result_preview') };
+    case 'turn_complete':
+      return {
+        type: 'turn_complete',
+        seq,
+        source: text('source'),
+        prompt_id: textOrNull('prompt_id'),
+        conversation_id: textOrNull('conversation_id'),
+        aborted: msg['aborted'] === true,
+        error: textOrNull('error')
+      };
+    default:
+      return null;
+  }
+}
+
+/** Next live state after `event`. */
+export function applyAgentEvent(state: AgentLiveState, event: AgentEvent): AgentLiveState {
+  switch (event.type) {
+    case 'hello':
+      return {
+        inProgress: event.request_in_progress,
+        settled: !event.request_in_progress,
+        source: event.source,
+        promptId: event.prompt_id,
+        userMessage: event.user_message,
+        content: event.content,
+        tools: event.tools,
+        lastCompleted: null
+      };
+    case 'turn_start':
+      return {
+        ...INITIAL_AGENT_LIVE_STATE,
+        inProgress: true,
+        source: event.source,
+        promptId: event.prompt_id,
+        userMessage: event.user_message
+      };
+    case 'delta':
+      return { ...state, inProgress: true, settled: false, content: event.replace ? event.text : state.content + event.text };
+    case 'tool_start':
+      return {
+        ...state,
+        inProgress: true,
+        settled: false,
+        tools: [...state.tools, { name: event.name, args_preview: event.args_preview }]
+      };
+    case 'tool_end': {
+      // Results arrive in call order, so the oldest call of that name still without a result is the one
+      const index = state.tools.findIndex(t => t.name === event.name && t.result_preview === undefined);
+      const tools =
+        index < 0
+          ? [...state.tools, { name: event.name, result_preview: event.result_preview }]
+          : state.tools.map((t, i) => (i === index ? { ...t, result_preview: event.result_preview } : t));
+      return { ...state, inProgress: true, settled: false, tools };
+    }
+    case 'turn_complete':
+      return { ...state, inProgress: false, settled: true, lastCompleted: event };
+  }
+}
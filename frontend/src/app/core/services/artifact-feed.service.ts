@@ -18,6 +18,9 @@ export interface ArtifactFeedDto {
   canManage?: boolean;
 }
 
+/** A feed as a new sandbox receives it: the registry coordinates without ownership. */
+export type SandboxArtifactFeed = Pick<ArtifactFeedDto, 'name' | 'organization' | 'feedName' | 'projectName' | 'feedType'>;
+
 export interface AzureDevOpsFeedDto {
   id: string;
   name: string;
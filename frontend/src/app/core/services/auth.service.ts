@@ -394,6 +394,10 @@ export interface LlmSettingDto {
   hasApiKey: boolean;
   /** True when this is an admin-created shared provider (read-only for regular users). */
   isShared?: boolean;
+  /** USD per million prompt tokens; used to price agent turns. */
+  inputPricePerMillionTokens?: number | null;
+  /** USD per million completion tokens. */
+  outputPricePerMillionTokens?: number | null;
 }
 
 export interface CreateLlmSettingRequest {
@@ -403,6 +407,8 @@ export interface CreateLlmSettingRequest {
   model?: string;
   baseUrl?: string;
   isDefault?: boolean;
+  inputPricePerMillionTokens?: number | null;
+  outputPricePerMillionTokens?: number | null;
 }
 
 export interface UpdateLlmSettingRequest {
@@ -412,6 +418,10 @@ export interface UpdateLlmSettingRequest {
   model?: string;
   baseUrl?: string;
   isDefault?: boolean;
+  /** When true the prices below replace the current ones (null clears a price). */
+  updatePricing?: boolean;
+  inputPricePerMillionTokens?: number | null;
+  outputPricePerMillionTokens?: number | null;
 }
 
 export interface ProviderSettings {
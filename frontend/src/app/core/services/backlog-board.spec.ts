@@ -0,0 +1,41 @@
+import { BoardItem, boardColumnKey, buildBoard } from './backlog-board';
+
+describe('backlog board', () => {
+  const item = (id: string, status: string, epicId = 'e1', featureId = 'f1'): BoardItem => ({
+    story: { id, title: id, featureId, status, createdAt: '', tasks: [] },
+    featureId,
+    featureTitle: featureId.toUpperCase(),
+    epicId,
+    epicTitle: epicId.toUpperCase()
+  });
+
+  const keys = (items: BoardItem[]) => items.map(i => i.story.id);
+
+  it('maps status aliases onto the fixed columns', () => {
+    expect(boardColumnKey('Backlog')).toBe('new');
+    expect(boardColumnKey('To Do')).toBe('new');
+    expect(boardColumnKey('')).toBe('new');
+    expect(boardColumnKey('Active')).toBe('inprogress');
+    expect(boardColumnKey('Pending Review')).toBe('pendingreview');
+    expect(boardColumnKey('Closed')).toBe('done');
+    expect(boardColumnKey('Blocked')).toBe('blocked');
+  });
+
+  it('adds custom status columns before Done', () => {
+    const [lane] = buildBoard([item('a', 'New'), item('b', 'Blocked'), item('c', 'Done'), item('d', 'blocked')], 'none');
+    expect(lane.columns.map(c => c.column.label)).toEqual(['New', 'In Progress', 'Pending Review', 'Blocked', 'Done']);
+    expect(lane.columns.find(c => c.column.key === 'blocked')!.column).toEqual({ key: 'blocked', label: 'Blocked', status: 'Blocked', custom: true });
+    expect(keys(lane.columns[3].items)).toEqual(['b', 'd']);
+    expect(lane.columns[0].column.status).toBe('Backlog');
+  });
+
+  it('splits stories into swimlanes that share the same columns', () => {
+    const lanes = buildBoard([item('a', 'InProgress', 'e1'), item('b', 'Review', 'e2'), item('c', 'Done', 'e1')], 'epic');
+    expect(lanes.map(l => l.title)).toEqual(['E1', 'E2']);
+    expect(lanes[0].columns.map(c => keys(c.items))).toEqual([[], ['a'], [], ['c']]);
+    expect(lanes[1].columns.map(c => keys(c.items))).toEqual([[], [], ['b'], []]);
+    expect(buildBoard([], 'feature')).toEqual([
+      { key: '', title: '', columns: expect.arrayContaining([expect.objectContaining({ items: [] })]) }
+    ]);
+  });
+});
@@ -0,0 +1,92 @@
+import { UserStory } from '../../shared/models/user-story.model';
+
+export type BoardSwimlaneMode = 'none' | 'epic' | 'feature';
+
+/** A board column. `status` is what gets saved when a card is dropped on it. */
+export interface BoardColumnDef {
+  key: string;
+  label: string;
+  status: string;
+  custom: boolean;
+}
+
+/** Story plus parent info, same shape as the backlog flat list rows. */
+export interface BoardItem {
+  story: UserStory;
+  featureId: string;
+  featureTitle: string;
+  epicId: string;
+  epicTitle: string;
+}
+
+export interface BoardLane<T extends BoardItem> {
+  /** Empty when swimlanes are off. */
+  key: string;
+  title: string;
+  columns: Array<{ column: BoardColumnDef; items: T[] }>;
+}
+
+/** Fixed columns, in workflow order. "New" saves as `Backlog`, the status the API uses for not-started stories. */
+export const BOARD_COLUMNS: ReadonlyArray<BoardColumnDef> = [
+  { key: 'new', label: 'New', status: 'Backlog', custom: false },
+  { key: 'inprogress', label: 'In Progress', status: 'InProgress', custom: false },
+  { key: 'pendingreview', label: 'Pending Review', status: 'PendingReview', custom: false },
+  { key: 'done', label: 'Done', status: 'Done', custom: false }
+];
+
+const STATUS_ALIASES: Record<string, string> = {
+  '': 'new',
+  new: 'new',
+  backlog: 'new',
+  todo: 'new',
+  inprogress: 'inprogress',
+  active: 'inprogress',
+  started: 'inprogress',
+  pendingreview: 'pendingreview',
+  pendingmerge: 'pendingreview',
+  review: 'pendingreview',
+  done: 'done',
+  completed: 'done',
+  closed: 'done'
+};
+
+/** Column key for a story status; statuses outside the fixed workflow get their own key. */
+export function boardColumnKey(status: string | null | undefined): string {
+  const s = (status ?? '').toLowerCase().replace(/\s+/g, '');
+  return STATUS_ALIASES[s] ?? s;
+}
+
+/**
+ * Group stories into board columns, optionally split into epic / feature swimlanes.
+ * Custom statuses become extra columns (before Done, in order of first appearance); every lane has the same columns.
+ */
+export function buildBoard<T extends BoardItem>(items: T[], swimlanes: BoardSwimlaneMode): BoardLane<T>[] {
+  const customColumns: BoardColumnDef[] = [];
+  for (const item of items) {
+    const key = boardColumnKey(item.story.status);
+    if (!BOARD_COLUMNS.some(c => c.key === key) && !customColumns.some(c => c.key === key)) {
+      customColumns.push({ key, label: item.story.status.trim(), status: item.story.status.trim(), custom: true });
+    }
+  }
+  const columns = [...BOARD_COLUMNS.slice(0, 3), ...customColumns, BOARD_COLUMNS[3]];
+
+  const lanes = new Map<string, BoardLane<T>>();
+  for (const item of items) {
+    const [laneKey, laneTitle] =
+      swimlanes === 'epic' ? [item.epicId, item.epicTitle]
+      : swimlanes === 'feature' ? [item.featureId, item.featureTitle]
+      : ['', ''];
+    let lane = lanes.get(laneKey);
+    if (!lane) {
+      lane = { key: laneKey, title: laneTitle, columns: columns.map(column => ({ column, items: [] })) };
+      lanes.set(laneKey, lane);
+    }
+    const key = boardColumnKey(item.story.status);
+    lane.columns.find(c => c.column.key === key)!.items.push(item);
+  }
+
+  if (lanes.size === 0) {
+    return [{ key: '', title: '', columns: columns.map(column => ({ column, items: [] })) }];
+  }
+  return [...lanes.values()];
+}
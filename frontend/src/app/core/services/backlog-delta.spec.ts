@@ -0,0 +1,49 @@
+import { diffBacklog, isEmptyDelta } from './backlog-delta';
+import { Epic } from '../../shared/models/epic.model';
+import { UserStory } from '../../shared/models/user-story.model';
+
+describe('backlog delta', () => {
+  const story = (id: string, status = 'Backlog'): UserStory => ({ id, title: id, featureId: 'f1', status, createdAt: '', tasks: [] });
+
+  const backlog = (stories: UserStory[], featureTitle = 'Auth'): Epic[] => [
+    {
+      id: 'e1',
+      title: 'Accounts',
+      repositoryId: 'r1',
+      status: 'Backlog',
+      createdAt: '',
+      features: [
+        { id: 'f1', title: featureTitle, epicId: 'e1', status: 'Backlog', createdAt: '', userStories: stories },
+        { id: 'f2', title: 'Billing', epicId: 'e1', status: 'Backlog', createdAt: '', userStories: [] }
+      ]
+    }
+  ];
+
+  it('keeps the current objects when nothing changed', () => {
+    const current = backlog([story('s1'), story('s2')]);
+    const delta = diffBacklog(current, JSON.parse(JSON.stringify(current)));
+    expect(isEmptyDelta(delta)).toBe(true);
+    expect(delta.epics[0]).toBe(current[0]);
+  });
+
+  it('reports added, updated and removed stories and reuses untouched branches', () => {
+    const current = backlog([story('s1'), story('s2')]);
+    const next = backlog([story('s1', 'Done'), story('s3')]);
+    const delta = diffBacklog(current, next);
+
+    expect(delta.updatedStoryIds).toEqual(['s1']);
+    expect(delta.addedStoryIds).toEqual(['s3']);
+    expect(delta.removedStoryIds).toEqual(['s2']);
+    expect(delta.structureChanged).toBe(false);
+    expect(delta.epics[0]).not.toBe(current[0]);
+    expect(delta.epics[0].features[1]).toBe(current[0].features[1]);
+    expect(delta.epics[0].features[0].userStories[0].status).toBe('Done');
+  });
+
+  it('flags epic and feature changes as structural', () => {
+    const current = backlog([story('s1')]);
+    expect(diffBacklog(current, backlog([story('s1')], 'Sign-in')).structureChanged).toBe(true);
+    expect(diffBacklog(current, []).structureChanged).toBe(true);
+    expect(diffBacklog(current, []).removedStoryIds).toEqual(['s1']);
+  });
+});
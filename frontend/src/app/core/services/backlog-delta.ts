@@ -0,0 +1,76 @@
+import { Epic } from '../../shared/models/epic.model';
+
+export interface BacklogDelta {
+  /** Backlog to show: `next`, but reusing the current objects for anything that did not change. */
+  epics: Epic[];
+  addedStoryIds: string[];
+  updatedStoryIds: string[];
+  removedStoryIds: string[];
+  /** An epic or feature was added, removed, reordered or edited. */
+  structureChanged: boolean;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const sameItems = (a: readonly unknown[], b: readonly unknown[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+/** The item's own fields, without its child collection. */
+function ownFields<T extends object>(item: T, childKey: keyof T): Omit<T, typeof childKey> {
+  const { [childKey]: _children, ...rest } = item;
+  return rest;
+}
+
+/**
+ * Compare a freshly loaded backlog with the one on screen. Unchanged epics, features and stories keep
+ * their object identity, so a resync after a reconnect only re-renders what actually changed.
+ */
+export function diffBacklog(current: Epic[], next: Epic[]): BacklogDelta {
+  const currentEpics = new Map(current.map(e => [e.id, e]));
+  const currentFeatures = new Map(current.flatMap(e => e.features).map(f => [f.id, f]));
+  const currentStories = new Map(current.flatMap(e => e.features.flatMap(f => f.userStories)).map(s => [s.id, s]));
+  const seenStoryIds = new Set<string>();
+  const delta: BacklogDelta = { epics: [], addedStoryIds: [], updatedStoryIds: [], removedStoryIds: [], structureChanged: false };
+
+  delta.epics = next.map(epic => {
+    const features = epic.features.map(feature => {
+      const userStories = feature.userStories.map(story => {
+        seenStoryIds.add(story.id);
+        const prev = currentStories.get(story.id);
+        if (!prev) {
+          delta.addedStoryIds.push(story.id);
+          return story;
+        }
+        if (!same(prev, story)) {
+          delta.updatedStoryIds.push(story.id);
+          return story;
+        }
+        return prev;
+      });
+
+      const prevFeature = currentFeatures.get(feature.id);
+      const fieldsSame = !!prevFeature && same(ownFields(prevFeature, 'userStories'), ownFields(feature, 'userStories'));
+      if (!fieldsSame) delta.structureChanged = true;
+      return fieldsSame && sameItems(prevFeature!.userStories, userStories) ? prevFeature! : { ...feature, userStories };
+    });
+
+    const prevEpic = currentEpics.get(epic.id);
+    const fieldsSame = !!prevEpic && same(ownFields(prevEpic, 'features'), ownFields(epic, 'features'));
+    if (!fieldsSame) delta.structureChanged = true;
+    return fieldsSame && sameItems(prevEpic!.features, features) ? prevEpic! : { ...epic, features };
+  });
+
+  delta.removedStoryIds = [...currentStories.keys()].filter(id => !seenStoryIds.has(id));
+  const featureIds = (epics: Epic[]) => epics.flatMap(e => e.features.map(f => f.id));
+  if (!same(current.map(e => e.id), next.map(e => e.id)) || !same(featureIds(current), featureIds(next))) {
+    delta.structureChanged = true;
+  }
+  return delta;
+}
+
+export function isEmptyDelta(delta: BacklogDelta): boolean {
+  return !delta.structureChanged
+    && delta.addedStoryIds.length === 0
+    && delta.updatedStoryIds.length === 0
+    && delta.removedStoryIds.length === 0;
+}
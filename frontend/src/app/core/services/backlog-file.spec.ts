@@ -0,0 +1,81 @@
+import { BacklogFile, parseBacklogFile, serializeBacklogFile, toBacklogFile } from './backlog-file';
+import { Epic } from '../../shared/models/epic.model';
+
+describe('backlog files', () => {
+  const epics: Epic[] = [
+    {
+      id: 'e1',
+      title: 'Accounts',
+      description: 'Everything about users',
+      repositoryId: 'r1',
+      status: 'InProgress',
+      createdAt: '',
+      features: [
+        {
+          id: 'f1',
+          title: 'Auth / SSO',
+          epicId: 'e1',
+          status: 'Backlog',
+          createdAt: '',
+          userStories: [
+            {
+              id: 's1',
+              title: 'Login page',
+              description: 'Add a form, with "remember me"\nand errors',
+              acceptanceCriteria: '- shows errors\n- remembers the user',
+              storyPoints: 3,
+              featureId: 'f1',
+              status: 'Done',
+              createdAt: '',
+              tasks: [
+                { id: 't1', title: 'Form', description: 'Email + password', userStoryId: 's1', status: 'Done', complexity: 'Simple', createdAt: '' },
+                { id: 't2', title: 'Validation', userStoryId: 's1', status: 'Backlog', complexity: 'Medium', createdAt: '' }
+              ]
+            }
+          ]
+        }
+      ]
+    }
+  ];
+
+  const tree = (file: BacklogFile) => file.epics;
+
+  it('round-trips JSON losslessly', () => {
+    const file = toBacklogFile(epics, 'acme/app');
+    const parsed = parseBacklogFile('backlog.json', serializeBacklogFile(file, 'json'));
+    expect(tree(parsed)).toEqual(tree(file));
+  });
+
+  it('round-trips CSV rows with parent paths and quoted cells', () => {
+    const file = toBacklogFile(epics);
+    const csv = serializeBacklogFile(file, 'csv');
+    expect(csv).toContain('\r\nTask,Accounts / Auth / SSO / Login page,Form,Email + password,Done,,,Simple\r\n');
+    expect(tree(parseBacklogFile('backlog.csv', csv))).toEqual(tree(file));
+  });
+
+  it('reads back the Markdown outline', () => {
+    const md = serializeBacklogFile(toBacklogFile(epics, 'acme/app'), 'markdown');
+    expect(md).toContain('#### User Story: Login page\n_Status: Done · 3 points_');
+    const story = parseBacklogFile('backlog.md', md).epics[0].features[0].userStories[0];
+    expect(story).toEqual({
+      title: 'Login page',
+      description: 'Add a form, with "remember me"\nand errors',
+      acceptanceCriteria: '- shows errors\n- remembers the user',
+      storyPoints: 3,
+      status: 'Done',
+      tasks: [
+        { title: 'Form', description: 'Email + password', status: 'Done', complexity: 'Simple' },
+        { title: 'Validation', description: undefined, status: undefined, complexity: 'Medium' }
+      ]
+    });
+  });
+
+  it('accepts generated backlog JSON and reports bad input', () => {
+    const generated = JSON.stringify({
+      epics: [{ title: 'E', description: 'd', features: [{ title: 'F', description: '', userStories: [{ title: 'S', description: 'x', acceptanceCriteria: ['a', 'b'] }] }] }]
+    });
+    expect(parseBacklogFile('generated.json', generated).epics[0].features[0].userStories[0].acceptanceCriteria).toBe('a\n- b');
+    expect(() => parseBacklogFile('x.csv', 'Type,Title\nFeature,Orphan')).toThrow('Row 2');
+    expect(() => parseBacklogFile('x.txt', 'hello')).toThrow('Unsupported');
+  });
+});
@@ -0,0 +1,414 @@
+import { Epic } from '../../shared/models/epic.model';
+
+/** File formats offered by backlog export / import. JSON is the lossless one. */
+export type BacklogFileFormat = 'json' | 'csv' | 'markdown';
+
+export const BACKLOG_FILE_FORMATS: ReadonlyArray<{ format: BacklogFileFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' }
+];
+
+export interface BacklogFileTask {
+  title: string;
+  description?: string;
+  status?: string;
+  complexity?: string;
+}
+
+export interface BacklogFileStory {
+  title: string;
+  description?: string;
+  acceptanceCriteria?: string;
+  storyPoints?: number;
+  status?: string;
+  tasks: BacklogFileTask[];
+}
+
+export interface BacklogFileFeature {
+  title: string;
+  description?: string;
+  status?: string;
+  userStories: BacklogFileStory[];
+}
+
+export interface BacklogFileEpic {
+  title: string;
+  description?: string;
+  status?: string;
+  features: BacklogFileFeature[];
+}
+
+/** Epic → Feature → User Story → Task tree as written to / read from backlog files. */
+export interface BacklogFile {
+  format: 'devpilot-backlog';
+  version: 1;
+  repository?: string;
+  exportedAt?: string;
+  epics: BacklogFileEpic[];
+}
+
+const CSV_COLUMNS = ['Type', 'Parent Path', 'Title', 'Description', 'Status', 'Acceptance Criteria', 'Story Points', 'Complexity'];
+const PATH_SEPARATOR = ' / ';
+
+/** Snapshot of the loaded backlog (ids, sources and sync metadata are not exported). */
+export function toBacklogFile(epics: Epic[], repository?: string): BacklogFile {
+  return {
+    format: 'devpilot-backlog',
+    version: 1,
+    repository,
+    exportedAt: new Date().toISOString(),
+    epics: epics.map(e => ({
+      title: e.title,
+      description: e.description || undefined,
+      status: e.status,
+      features: (e.features ?? []).map(f => ({
+        title: f.title,
+        description: f.description || undefined,
+        status: f.status,
+        userStories: (f.userStories ?? []).map(s => ({
+          title: s.title,
+          description: s.description || undefined,
+          acceptanceCriteria: s.acceptanceCriteria || undefined,
+          storyPoints: s.storyPoints ?? undefined,
+          status: s.status,
+          tasks: (s.tasks ?? []).map(t => ({
+            title: t.title,
+            description: t.description || undefined,
+            status: t.status,
+            complexity: t.complexity
+          }))
+        }))
+      }))
+    }))
+  };
+}
+
+export function serializeBacklogFile(file: BacklogFile, format: BacklogFileFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(file, null, 2) + '\n';
+    case 'csv':
+      return toCsv(file);
+    case 'markdown':
+      return toMarkdown(file);
+  }
+}
+
+/**
+ * Parse an exported backlog file. The format is taken from the extension, falling back to the content.
+ * JSON also accepts the `{ epics: [...] }` shape of generated backlogs (acceptance criteria as a list).
+ * @throws Error with a user-facing message when the file cannot be read as a backlog
+ */
+export function parseBacklogFile(fileName: string, text: string): BacklogFile {
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+  const trimmed = text.replace(/^\uFEFF/, '').trim();
+  let epics: BacklogFileEpic[];
+  if (ext === 'json' || (ext !== 'csv' && ext !== 'md' && trimmed.startsWith('{'))) {
+    epics = parseJson(trimmed);
+  } else if (ext === 'csv') {
+    epics = parseCsv(trimmed);
+  } else if (ext === 'md' || ext === 'markdown') {
+    epics = parseMarkdown(trimmed);
+  } else {
+    throw new Error('Unsupported file type — use a .json, .csv or .md backlog export.');
+  }
+  if (epics.length === 0) {
+    throw new Error('The file does not contain any epics.');
+  }
+  return { format: 'devpilot-backlog', version: 1, epics };
+}
+
+// --- JSON ---
+
+function parseJson(text: string): BacklogFileEpic[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const epics = (data as { epics?: unknown })?.epics;
+  if (!Array.isArray(epics)) {
+    throw new Error('JSON backlog must have an "epics" array.');
+  }
+  const str = (v: unknown) => (typeof v === 'string' && v.trim() ? v : undefined);
+  const title = (v: unknown, what: string) => {
+    const t = str(v)?.trim();
+    if (!t) throw new Error(`Every ${what} needs a title.`);
+    return t;
+  };
+  const list = (v: unknown) => (Array.isArray(v) ? v : []) as Record<string, unknown>[];
+  return list(epics).map(e => ({
+    title: title(e['title'], 'epic'),
+    description: str(e['description']),
+    status: str(e['status']),
+    features: list(e['features']).map(f => ({
+      title: title(f['title'], 'feature'),
+      description: str(f['description']),
+      status: str(f['status']),
+      userStories: list(f['userStories']).map(s => {
+        const ac = s['acceptanceCriteria'];
+        const points = Number(s['storyPoints']);
+        return {
+          title: title(s['title'], 'user story'),
+          description: str(s['description']),
+          acceptanceCriteria: Array.isArray(ac) ? str(ac.map(String).join('\n- ')) : str(ac),
+          storyPoints: Number.isFinite(points) && points > 0 ? points : undefined,
+          status: str(s['status']),
+          tasks: list(s['tasks']).map(t => ({
+            title: title(t['title'], 'task'),
+            description: str(t['description']),
+            status: str(t['status']),
+            complexity: str(t['complexity'])
+          }))
+        };
+      })
+    }))
+  }));
+}
+
+// --- CSV ---
+
+function csvCell(value: string | number | undefined): string {
+  const s = value == null ? '' : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function toCsv(file: BacklogFile): string {
+  const rows: (string | number | undefined)[][] = [CSV_COLUMNS];
+  for (const e of file.epics) {
+    rows.push(['Epic', '', e.title, e.description, e.status]);
+    for (const f of e.features) {
+      const featurePath = e.title;
+      rows.push(['Feature', featurePath, f.title, f.description, f.status]);
+      for (const s of f.userStories) {
+        const storyPath = featurePath + PATH_SEPARATOR + f.title;
+        rows.push(['User Story', storyPath, s.title, s.description, s.status, s.acceptanceCriteria, s.storyPoints]);
+        for (const t of s.tasks) {
+          rows.push(['Task', storyPath + PATH_SEPARATOR + s.title, t.title, t.description, t.status, undefined, undefined, t.complexity]);
+        }
+      }
+    }
+  }
+  return rows.map(r => CSV_COLUMNS.map((_, i) => csvCell(r[i])).join(',')).join('\r\n') + '\r\n';
+}
+
+/** RFC 4180 records (quoted cells may contain separators and line breaks). */
+function readCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      record.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell);
+      records.push(record);
+      record = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== '' || record.length > 0) {
+    record.push(cell);
+    records.push(record);
+  }
+  return records.filter(r => r.some(c => c.trim() !== ''));
+}
+
+function parseCsv(text: string): BacklogFileEpic[] {
+  const [header, ...records] = readCsvRecords(text);
+  const col = (name: string) => (header ?? []).findIndex(h => h.trim().toLowerCase() === name.toLowerCase());
+  const idx = Object.fromEntries(CSV_COLUMNS.map(c => [c, col(c)]));
+  if (idx['Type'] < 0 || idx['Title'] < 0) {
+    throw new Error('CSV backlog needs at least "Type" and "Title" columns.');
+  }
+  const get = (r: string[], c: string) => (idx[c] >= 0 ? (r[idx[c]] ?? '').trim() : '');
+  const opt = (v: string) => v || undefined;
+
+  const epics: BacklogFileEpic[] = [];
+  const features = new Map<string, BacklogFileFeature>();
+  const stories = new Map<string, BacklogFileStory>();
+  const epicsByPath = new Map<string, BacklogFileEpic>();
+
+  records.forEach((r, i) => {
+    const line = i + 2;
+    const type = get(r, 'Type').toLowerCase().replace(/\s+/g, '');
+    const title = get(r, 'Title');
+    const parent = get(r, 'Parent Path');
+    if (!title) throw new Error(`Row ${line}: title is empty.`);
+    const missingParent = () => new Error(`Row ${line}: parent "${parent}" is not defined above this row.`);
+    switch (type) {
+      case 'epic': {
+        const epic: BacklogFileEpic = { title, description: opt(get(r, 'Description')), status: opt(get(r, 'Status')), features: [] };
+        epics.push(epic);
+        epicsByPath.set(title, epic);
+        break;
+      }
+      case 'feature': {
+        const epic = epicsByPath.get(parent);
+        if (!epic) throw missingParent();
+        const feature: BacklogFileFeature = { title, description: opt(get(r, 'Description')), status: opt(get(r, 'Status')), userStories: [] };
+        epic.features.push(feature);
+        features.set(parent + PATH_SEPARATOR + title, feature);
+        break;
+      }
+      case 'userstory':
+      case 'story': {
+        const feature = features.get(parent);
+        if (!feature) throw missingParent();
+        const points = Number(get(r, 'Story Points'));
+        const story: BacklogFileStory = {
+          title,
+          description: opt(get(r, 'Description')),
+          acceptanceCriteria: opt(get(r, 'Acceptance Criteria')),
+          storyPoints: Number.isFinite(points) && points > 0 ? points : undefined,
+          status: opt(get(r, 'Status')),
+          tasks: []
+        };
+        feature.userStories.push(story);
+        stories.set(parent + PATH_SEPARATOR + title, story);
+        break;
+      }
+      case 'task': {
+        const story = stories.get(parent);
+        if (!story) throw missingParent();
+        story.tasks.push({
+          title,
+          description: opt(get(r, 'Description')),
+          status: opt(get(r, 'Status')),
+          complexity: opt(get(r, 'Complexity'))
+        });
+        break;
+      }
+      default:
+        throw new Error(`Row ${line}: unknown type "${get(r, 'Type')}" (use Epic, Feature, User Story or Task).`);
+    }
+  });
+  return epics;
+}
+
+// --- Markdown ---
+
+const MD_EPIC = /^## Epic: (.+)$/;
+const MD_FEATURE = /^### Feature: (.+)$/;
+const MD_STORY = /^#### User Story: (.+)$/;
+const MD_META = /^_Status: ([^·_]+?)(?: · (\d+) points?)?_$/;
+const MD_TASK = /^- \[( |x|X)\] (.+?)(?: — (.+?))?(?: _\((\w+)\)_)?$/;
+const MD_AC_LABEL = '**Acceptance Criteria:**';
+const MD_TASKS_LABEL = '**Tasks:**';
+
+function toMarkdown(file: BacklogFile): string {
+  const out: string[] = [`# Backlog${file.repository ? ` — ${file.repository}` : ''}`, ''];
+  const block = (text?: string) => {
+    if (text?.trim()) out.push(text.trim(), '');
+  };
+  for (const e of file.epics) {
+    out.push(`## Epic: ${e.title}`, `_Status: ${e.status || 'Backlog'}_`, '');
+    block(e.description);
+    for (const f of e.features) {
+      out.push(`### Feature: ${f.title}`, `_Status: ${f.status || 'Backlog'}_`, '');
+      block(f.description);
+      for (const s of f.userStories) {
+        const points = s.storyPoints ? ` · ${s.storyPoints} point${s.storyPoints === 1 ? '' : 's'}` : '';
+        out.push(`#### User Story: ${s.title}`, `_Status: ${s.status || 'Backlog'}${points}_`, '');
+        block(s.description);
+        if (s.acceptanceCriteria?.trim()) {
+          out.push(MD_AC_LABEL);
+          block(s.acceptanceCriteria);
+        }
+        if (s.tasks.length > 0) {
+          out.push(MD_TASKS_LABEL);
+          for (const t of s.tasks) {
+            const done = t.status?.toLowerCase() === 'done' ? 'x' : ' ';
+            const desc = t.description?.trim() ? ` — ${t.description.trim().replace(/\s*\n\s*/g, ' ')}` : '';
+            out.push(`- [${done}] ${t.title}${desc}${t.complexity ? ` _(${t.complexity})_` : ''}`);
+          }
+          out.push('');
+        }
+      }
+    }
+  }
+  return out.join('\n');
+}
+
+/** Reads the outline written by {@link toMarkdown}; task statuses other than Done come back as the default. */
+function parseMarkdown(text: string): BacklogFileEpic[] {
+  const epics: BacklogFileEpic[] = [];
+  let epic: BacklogFileEpic | null = null;
+  let feature: BacklogFileFeature | null = null;
+  let story: BacklogFileStory | null = null;
+  let section: 'description' | 'ac' | 'tasks' = 'description';
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const value = buffer.join('\n').trim() || undefined;
+    buffer = [];
+    const target = story ?? feature ?? epic;
+    if (!target || !value) return;
+    if (section === 'ac' && story) story.acceptanceCriteria = value;
+    else if (section === 'description') target.description = value;
+  };
+
+  for (const line of text.split(/\r?\n/)) {
+    let m: RegExpMatchArray | null;
+    if ((m = line.match(MD_EPIC))) {
+      flush();
+      epic = { title: m[1].trim(), features: [] };
+      epics.push(epic);
+      feature = story = null;
+      section = 'description';
+    } else if ((m = line.match(MD_FEATURE))) {
+      flush();
+      if (!epic) throw new Error(`Feature "${m[1].trim()}" appears before any "## Epic:" heading.`);
+      feature = { title: m[1].trim(), userStories: [] };
+      epic.features.push(feature);
+      story = null;
+      section = 'description';
+    } else if ((m = line.match(MD_STORY))) {
+      flush();
+      if (!feature) throw new Error(`User story "${m[1].trim()}" appears before any "### Feature:" heading.`);
+      story = { title: m[1].trim(), tasks: [] };
+      feature.userStories.push(story);
+      section = 'description';
+    } else if ((m = line.trim().match(MD_META)) && buffer.every(b => !b.trim())) {
+      const target = story ?? feature ?? epic;
+      if (target) target.status = m[1].trim();
+      if (story && m[2]) story.storyPoints = Number(m[2]);
+    } else if (story && line.trim() === MD_AC_LABEL) {
+      flush();
+      section = 'ac';
+    } else if (story && line.trim() === MD_TASKS_LABEL) {
+      flush();
+      section = 'tasks';
+    } else if (story && section === 'tasks' && (m = line.trim().match(MD_TASK))) {
+      story.tasks.push({
+        title: m[2].trim(),
+        description: m[3]?.trim() || undefined,
+        status: m[1] === ' ' ? undefined : 'Done',
+        complexity: m[4]
+      });
+    } else if (section !== 'tasks' && epic) {
+      buffer.push(line);
+    }
+  }
+  flush();
+  return epics;
+}
@@ -0,0 +1,69 @@
+import { UserStory } from '../../shared/models/user-story.model';
+import {
+  StoryStatusTransition,
+  buildAgentShare,
+  buildBurndown,
+  buildCycleTimes,
+  formatDuration,
+  groupTransitions,
+  summarizeCycleTimes
+} from './backlog-insights';
+
+describe('backlog insights', () => {
+  const story = (id: string, status: string, storyPoints?: number, prUrl?: string): UserStory => ({
+    id, title: id.toUpperCase(), featureId: 'f1', status, storyPoints, prUrl, createdAt: '2026-05-01T08:00:00Z', tasks: []
+  });
+  const move = (storyId: string, toStatus: string, changedAt: string, fromStatus: string | null = null): StoryStatusTransition =>
+    ({ storyId, fromStatus, toStatus, changedAt });
+
+  it('burns down points on the day stories are done', () => {
+    const stories = [story('a', 'Done', 3), story('b', 'Done', 5), story('c', 'InProgress', 2)];
+    const byStory = groupTransitions([
+      move('b', 'Done', '2026-05-03T17:00:00Z'),
+      move('a', 'Done', '2026-05-02T10:00:00Z')
+    ]);
+    const points = buildBurndown(stories, byStory, new Date('2026-05-01'), new Date('2026-05-05'), new Date('2026-05-03T18:00:00Z'));
+    expect(points.map(p => p.date)).toEqual(['2026-05-01', '2026-05-02', '2026-05-03', '2026-05-04', '2026-05-05']);
+    expect(points.map(p => p.remaining)).toEqual([10, 7, 2, null, null]);
+    expect(points.map(p => p.ideal)).toEqual([10, 7.5, 5, 2.5, 0]);
+  });
+
+  it('uses the last update for stories done before history was recorded', () => {
+    const done = { ...story('a', 'Done', 4), updatedAt: '2026-05-02T09:00:00Z' };
+    const points = buildBurndown([done], new Map(), new Date('2026-05-01'), new Date('2026-05-02'), new Date('2026-05-02T12:00:00Z'));
+    expect(points.map(p => p.remaining)).toEqual([4, 0]);
+  });
+
+  it('measures InProgress → PendingReview → Done', () => {
+    const stories = [story('a', 'Done'), story('b', 'PendingReview'), story('c', 'Backlog')];
+    const byStory = groupTransitions([
+      move('a', 'InProgress', '2026-05-01T08:00:00Z', 'Backlog'),
+      move('a', 'PendingReview', '2026-05-01T14:00:00Z', 'InProgress'),
+      move('a', 'Done', '2026-05-02T08:00:00Z', 'PendingReview'),
+      move('b', 'PendingReview', '2026-05-02T08:00:00Z', 'Backlog')
+    ]);
+    const entries = buildCycleTimes(stories, byStory);
+    expect(entries.map(e => e.storyId)).toEqual(['a', 'b']);
+    expect(entries[0]).toMatchObject({ inProgressHours: 6, reviewHours: 18, totalHours: 24 });
+    expect(entries[1]).toMatchObject({ inProgressHours: null, reviewHours: null, totalHours: null });
+    expect(summarizeCycleTimes(entries)).toEqual({ count: 1, avgInProgressHours: 6, avgReviewHours: 18, avgTotalHours: 24 });
+  });
+
+  it('splits delivered stories between agent and manual work', () => {
+    const stories = [
+      story('a', 'Done', 1, 'https://github.com/o/r/pull/1'),
+      story('b', 'PendingReview', 1, 'https://github.com/o/r/pull/2'),
+      story('c', 'Done'),
+      story('d', 'InProgress')
+    ];
+    const share = buildAgentShare(stories, [{ storyId: 'a', runs: 3 }, { storyId: 'b', runs: 2 }, { storyId: 'd', runs: 1 }]);
+    expect(share).toEqual({ agent: 2, manual: 1, avgIterationsPerPr: 2.5 });
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(null)).toBe('–');
+    expect(formatDuration(0.5)).toBe('30 min');
+    expect(formatDuration(5.25)).toBe('5.3 h');
+    expect(formatDuration(72)).toBe('3 d');
+  });
+});
@@ -0,0 +1,197 @@
+import { UserStory } from '../../shared/models/user-story.model';
+import { boardColumnKey } from './backlog-board';
+
+/** One recorded status change of a story. */
+export interface StoryStatusTransition {
+  storyId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  changedAt: string;
+}
+
+/** Number of sandbox agent runs stored for a story. */
+export interface StoryAgentRuns {
+  storyId: string;
+  runs: number;
+}
+
+export interface RepositoryInsightsResponse {
+  transitions: StoryStatusTransition[];
+  agentRuns: StoryAgentRuns[];
+}
+
+export interface BurndownPoint {
+  /** yyyy-MM-dd (UTC) */
+  date: string;
+  ideal: number;
+  /** Points not Done at the end of the day; null for days still to come. */
+  remaining: number | null;
+}
+
+export interface StoryCycleTime {
+  storyId: string;
+  title: string;
+  inProgressAt: string | null;
+  pendingReviewAt: string | null;
+  doneAt: string | null;
+  /** InProgress → PendingReview */
+  inProgressHours: number | null;
+  /** PendingReview → Done */
+  reviewHours: number | null;
+  /** First InProgress (or PendingReview) → Done */
+  totalHours: number | null;
+}
+
+export interface CycleTimeSummary {
+  count: number;
+  avgInProgressHours: number | null;
+  avgReviewHours: number | null;
+  avgTotalHours: number | null;
+}
+
+export interface AgentShare {
+  /** Done stories or stories with a PR that had at least one sandbox agent run. */
+  agent: number;
+  /** Done stories or stories with a PR that had none. */
+  manual: number;
+  /** Average sandbox runs of agent-built stories with a PR; null when there are none. */
+  avgIterationsPerPr: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Longest burndown drawn, so an old epic does not produce thousands of points. */
+const MAX_BURNDOWN_DAYS = 180;
+
+/** Transitions per story, oldest first. */
+export function groupTransitions(transitions: StoryStatusTransition[]): Map<string, StoryStatusTransition[]> {
+  const byStory = new Map<string, StoryStatusTransition[]>();
+  const sorted = [...transitions].sort((a, b) => Date.parse(a.changedAt) - Date.parse(b.changedAt));
+  for (const t of sorted) {
+    const list = byStory.get(t.storyId);
+    if (list) list.push(t);
+    else byStory.set(t.storyId, [t]);
+  }
+  return byStory;
+}
+
+/**
+ * When the story became Done (ms), or null when it is not Done now.
+ * Stories Done before history was recorded fall back to their last update.
+ */
+export function storyDoneAt(story: UserStory, history: StoryStatusTransition[] | undefined): number | null {
+  if (boardColumnKey(story.status) !== 'done') return null;
+  const last = [...(history ?? [])].reverse().find(t => boardColumnKey(t.toStatus) === 'done');
+  if (last) return Date.parse(last.changedAt);
+  return Date.parse(story.updatedAt ?? story.createdAt);
+}
+
+/** Remaining story points per day between `start` and `end` (inclusive, UTC days). */
+export function buildBurndown(
+  stories: UserStory[],
+  byStory: Map<string, StoryStatusTransition[]>,
+  start: Date,
+  end: Date,
+  now: Date = new Date()
+): BurndownPoint[] {
+  const first = utcDay(start);
+  const last = Math.max(first, Math.min(utcDay(end), first + (MAX_BURNDOWN_DAYS - 1) * DAY_MS));
+  const days = Math.round((last - first) / DAY_MS) + 1;
+  const total = stories.reduce((sum, s) => sum + (s.storyPoints ?? 0), 0);
+  const done = stories
+    .map(s => ({ points: s.storyPoints ?? 0, at: storyDoneAt(s, byStory.get(s.id)) }))
+    .filter((d): d is { points: number; at: number } => d.at != null);
+  const today = utcDay(now);
+
+  const points: BurndownPoint[] = [];
+  for (let i = 0; i < days; i++) {
+    const day = first + i * DAY_MS;
+    const endOfDay = day + DAY_MS - 1;
+    const burned = done.filter(d => d.at <= endOfDay).reduce((sum, d) => sum + d.points, 0);
+    points.push({
+      date: new Date(day).toISOString().slice(0, 10),
+      ideal: days === 1 ? 0 : round1(total * (1 - i / (days - 1))),
+      remaining: day > today ? null : total - burned
+    });
+  }
+  return points;
+}
+
+/** InProgress → PendingReview → Done timings of every story that has moved through the workflow. */
+export function buildCycleTimes(stories: UserStory[], byStory: Map<string, StoryStatusTransition[]>): StoryCycleTime[] {
+  const result: StoryCycleTime[] = [];
+  for (const story of stories) {
+    const history = byStory.get(story.id);
+    if (!history?.length) continue;
+
+    const inProgress = history.find(t => boardColumnKey(t.toStatus) === 'inprogress');
+    const review = history.find(t =>
+      boardColumnKey(t.toStatus) === 'pendingreview' && (!inProgress || t.changedAt >= inProgress.changedAt)
+    );
+    const done = boardColumnKey(story.status) === 'done'
+      ? [...history].reverse().find(t => boardColumnKey(t.toStatus) === 'done')
+      : undefined;
+    if (!inProgress && !review) continue;
+
+    const startedAt = inProgress?.changedAt ?? review?.changedAt ?? null;
+    result.push({
+      storyId: story.id,
+      title: story.title,
+      inProgressAt: inProgress?.changedAt ?? null,
+      pendingReviewAt: review?.changedAt ?? null,
+      doneAt: done?.changedAt ?? null,
+      inProgressHours: hoursBetween(inProgress?.changedAt, review?.changedAt),
+      reviewHours: hoursBetween(review?.changedAt, done?.changedAt),
+      totalHours: hoursBetween(startedAt, done?.changedAt)
+    });
+  }
+  return result;
+}
+
+export function summarizeCycleTimes(entries: StoryCycleTime[]): CycleTimeSummary {
+  return {
+    count: entries.filter(e => e.totalHours != null).length,
+    avgInProgressHours: average(entries.map(e => e.inProgressHours)),
+    avgReviewHours: average(entries.map(e => e.reviewHours)),
+    avgTotalHours: average(entries.map(e => e.totalHours))
+  };
+}
+
+/** Share of delivered stories built by the sandbox agent versus by hand. */
+export function buildAgentShare(stories: UserStory[], agentRuns: StoryAgentRuns[]): AgentShare {
+  const runs = new Map(agentRuns.map(r => [r.storyId, r.runs]));
+  const delivered = stories.filter(s => boardColumnKey(s.status) === 'done' || !!s.prUrl);
+  const agentBuilt = delivered.filter(s => (runs.get(s.id) ?? 0) > 0);
+  const avg = average(agentBuilt.filter(s => !!s.prUrl).map(s => runs.get(s.id) ?? 0));
+  return {
+    agent: agentBuilt.length,
+    manual: delivered.length - agentBuilt.length,
+    avgIterationsPerPr: avg == null ? null : round1(avg)
+  };
+}
+
+/** "45 min", "5.5 h" or "3.2 d". */
+export function formatDuration(hours: number | null): string {
+  if (hours == null) return '–';
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))} min`;
+  if (hours < 48) return `${round1(hours)} h`;
+  return `${round1(hours / 24)} d`;
+}
+
+function utcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+function hoursBetween(from: string | null | undefined, to: string | null | undefined): number | null {
+  if (!from || !to) return null;
+  const ms = Date.parse(to) - Date.parse(from);
+  return ms < 0 ? null : ms / (60 * 60 * 1000);
+}
+
+function average(values: Array<number | null>): number | null {
+  const present = values.filter((v): v is number => v != null);
+  return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
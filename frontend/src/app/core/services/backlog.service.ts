@@ -1,10 +1,15 @@
 import { Injectable, signal } from '@angular/core';
-import { Observable, tap, switchMap, firstValueFrom } from 'rxjs';
+import { Observable, of, tap, switchMap, firstValueFrom, map } from 'rxjs';
 import { ApiService } from './api.service';
 import type { ZedConversationsResponse } from './sandbox-bridge.service';
 import { Epic } from '../../shared/models/epic.model';
 import { Feature } from '../../shared/models/feature.model';
 import { UserStory } from '../../shared/models/user-story.model';
+import { Sprint } from '../../shared/models/sprint.model';
+import type { BacklogFile, BacklogFileTask } from './backlog-file';
+import { BacklogDelta, diffBacklog, isEmptyDelta } from './backlog-delta';
+import type { RepositoryInsightsResponse } from './backlog-insights';
+import type { StatusChangeSource, StoryStatusHistoryResponse } from './story-status-history';
 
 /** Epic title used for standalone user stories (no epic/feature parent). Rendered without tree. */
 export const STANDALONE_EPIC_TITLE = '__Standalone__';
@@ -64,6 +69,19 @@ export class BacklogService {
     );
   }
 
+  /**
+   * Reload the backlog and apply only what changed (after a reconnect or a teammate's edit).
+   * Unchanged items keep their identity, so the view does not re-render or collapse.
+   */
+  resyncBacklog(repositoryId: string): Observable<BacklogDelta> {
+    return this.apiService.get<Epic[]>(`/backlog/repository/${repositoryId}`).pipe(
+      map(epics => diffBacklog(this.backlogSignal(), epics)),
+      tap(delta => {
+        if (!isEmptyDelta(delta)) this.backlogSignal.set(delta.epics);
+      })
+    );
+  }
+
   /**
    * Create backlog from AI-generated data
    */
@@ -89,32 +107,45 @@ export class BacklogService {
   }
 
   /**
-   * Update a user story's status and optionally the PR URL
+   * Update a user story's status and optionally the PR URL.
+   * `source` is recorded in the story's status history ('Agent' when the sandbox agent flow moved it).
    */
-  updateStoryStatus(storyId: string, status: string, prUrl?: string): Observable<{ success: boolean; storyId: string; status: string; prUrl?: string }> {
+  updateStoryStatus(
+    storyId: string,
+    status: string,
+    prUrl?: string,
+    source: StatusChangeSource = 'User'
+  ): Observable<{ success: boolean; storyId: string; status: string; prUrl?: string }> {
     return this.apiService.patch<{ success: boolean; storyId: string; status: string; prUrl?: string }>(
       `/backlog/story/${storyId}/status`,
-      { status, prUrl }
+      { status, prUrl, source }
     ).pipe(
       tap(response => {
         if (response.success) {
-          // Update local signal
-          const epics = this.backlogSignal();
-          const updatedEpics = epics.map(epic => ({
-            ...epic,
-            features: epic.features.map(feature => ({
-              ...feature,
-              userStories: feature.userStories.map(story =>
-                story.id === storyId ? { ...story, status, prUrl: prUrl || story.prUrl } : story
-              )
-            }))
-          }));
-          this.backlogSignal.set(updatedEpics);
+          this.applyStoryStatus(storyId, status, prUrl);
         }
       })
     );
   }
 
+  /**
+   * Apply a story status change to the local backlog signal without calling the API
+   * (e.g. a move made by a teammate, received over SignalR)
+   */
+  applyStoryStatus(storyId: string, status: string, prUrl?: string | null): void {
+    const epics = this.backlogSignal();
+    const updatedEpics = epics.map(epic => ({
+      ...epic,
+      features: epic.features.map(feature => ({
+        ...feature,
+        userStories: feature.userStories.map(story =>
+          story.id === storyId ? { ...story, status, prUrl: prUrl || story.prUrl } : story
+        )
+      }))
+    }));
+    this.backlogSignal.set(updatedEpics);
+  }
+
   /**
    * Get the head (source) branch name of a pull request from its URL.
    * Used when opening a story that already has a PR so the sandbox can clone that branch.
@@ -229,7 +260,10 @@ export class BacklogService {
     source?: string,
     azureDevOpsWorkItemId?: number,
     gitHubIssueNumber?: number,
-    repositoryAgentRuleId?: string | null
+    repositoryAgentRuleId?: string | null,
+    dependsOnStoryIds?: string[],
+    repositoryPromptTemplateId?: string | null,
+    tasks?: BacklogFileTask[]
   ): Observable<UserStory> {
     const body: {
       title: string;
@@ -240,6 +274,9 @@ export class BacklogService {
       azureDevOpsWorkItemId?: number;
       gitHubIssueNumber?: number;
       repositoryAgentRuleId?: string;
+      dependsOnStoryIds?: string[];
+      repositoryPromptTemplateId?: string;
+      tasks?: BacklogFileTask[];
     } = {
       title,
       description,
@@ -250,6 +287,9 @@ export class BacklogService {
     if (azureDevOpsWorkItemId != null) body.azureDevOpsWorkItemId = azureDevOpsWorkItemId;
     if (gitHubIssueNumber != null) body.gitHubIssueNumber = gitHubIssueNumber;
     if (repositoryAgentRuleId) body.repositoryAgentRuleId = repositoryAgentRuleId;
+    if (dependsOnStoryIds?.length) body.dependsOnStoryIds = dependsOnStoryIds;
+    if (repositoryPromptTemplateId) body.repositoryPromptTemplateId = repositoryPromptTemplateId;
+    if (tasks?.length) body.tasks = tasks;
     return this.apiService.post<UserStory>(`/backlog/feature/${featureId}/story`, body).pipe(
       tap(() => repositoryId && this.getBacklog(repositoryId).subscribe())
     );
@@ -305,7 +345,9 @@ export class BacklogService {
     storyPoints?: number,
     status?: string,
     repositoryId?: string,
-    ruleUpdate?: { updateRepositoryAgentRule: boolean; repositoryAgentRuleId?: string | null }
+    ruleUpdate?: { updateRepositoryAgentRule: boolean; repositoryAgentRuleId?: string | null },
+    dependsOnStoryIds?: string[],
+    templateUpdate?: { updateRepositoryPromptTemplate: boolean; repositoryPromptTemplateId?: string | null }
   ): Observable<UserStory> {
     const body: {
       title: string;
@@ -315,6 +357,9 @@ export class BacklogService {
       status?: string;
       updateRepositoryAgentRule?: boolean;
       repositoryAgentRuleId?: string | null;
+      dependsOnStoryIds?: string[];
+      updateRepositoryPromptTemplate?: boolean;
+      repositoryPromptTemplateId?: string | null;
     } = {
       title,
       description,
@@ -326,11 +371,129 @@ export class BacklogService {
       body.updateRepositoryAgentRule = true;
       body.repositoryAgentRuleId = ruleUpdate.repositoryAgentRuleId ?? null;
     }
+    // Omitted = unchanged on the server; an empty array clears the dependencies
+    if (dependsOnStoryIds) body.dependsOnStoryIds = dependsOnStoryIds;
+    if (templateUpdate?.updateRepositoryPromptTemplate) {
+      body.updateRepositoryPromptTemplate = true;
+      body.repositoryPromptTemplateId = templateUpdate.repositoryPromptTemplateId ?? null;
+    }
     return this.apiService.put<UserStory>(`/backlog/story/${storyId}`, body).pipe(
       tap(() => repositoryId && this.getBacklog(repositoryId).subscribe())
     );
   }
 
+  /**
+   * Replace the stories a User Story depends on (must be Done before it can be implemented)
+   */
+  updateStoryDependencies(storyId: string, dependsOnStoryIds: string[]): Observable<{ id: string; dependsOnStoryIds: string[] }> {
+    return this.apiService.put<{ id: string; dependsOnStoryIds: string[] }>(
+      `/backlog/story/${storyId}/dependencies`,
+      { dependsOnStoryIds }
+    );
+  }
+
+  /**
+   * Record the outcome of the test run executed in the sandbox before creating the story's pull request
+   */
+  recordStoryTestResult(storyId: string, passed: boolean, summary: string): Observable<{ id: string; lastTestStatus: string; lastTestSummary: string | null; lastTestRunAt: string }> {
+    return this.apiService.put<{ id: string; lastTestStatus: string; lastTestSummary: string | null; lastTestRunAt: string }>(
+      `/backlog/story/${storyId}/test-result`,
+      { passed, summary }
+    );
+  }
+
+  /**
+   * Sprints of a repository, oldest first
+   */
+  getSprints(repositoryId: string): Observable<Sprint[]> {
+    return this.apiService.get<{ sprints: Sprint[] }>(`/backlog/repository/${repositoryId}/sprints`).pipe(
+      map(res => res.sprints ?? [])
+    );
+  }
+
+  createSprint(repositoryId: string, body: SprintRequest): Observable<Sprint> {
+    return this.apiService.post<Sprint>(`/backlog/repository/${repositoryId}/sprints`, body);
+  }
+
+  updateSprint(sprintId: string, body: SprintRequest): Observable<Sprint> {
+    return this.apiService.put<Sprint>(`/backlog/sprint/${sprintId}`, body);
+  }
+
+  /**
+   * Delete a sprint; its stories go back to the backlog
+   */
+  deleteSprint(sprintId: string): Observable<{ success: boolean }> {
+    return this.apiService.delete<{ success: boolean }>(`/backlog/sprint/${sprintId}`).pipe(
+      tap(() => this.applyStorySprint(this.storyIdsInSprint(sprintId), null))
+    );
+  }
+
+  startSprint(sprintId: string): Observable<Sprint> {
+    return this.apiService.post<Sprint>(`/backlog/sprint/${sprintId}/start`, {});
+  }
+
+  /**
+   * Complete a sprint (snapshots velocity) and move unfinished stories to another sprint or back to the backlog
+   */
+  completeSprint(sprintId: string, moveUnfinishedToSprintId: string | null): Observable<CompleteSprintResponse> {
+    return this.apiService.post<CompleteSprintResponse>(`/backlog/sprint/${sprintId}/complete`, { moveUnfinishedToSprintId }).pipe(
+      tap(res => this.applyStorySprint(res.movedStoryIds ?? [], moveUnfinishedToSprintId))
+    );
+  }
+
+  /**
+   * Commit stories to a sprint, or move them back to the backlog when sprintId is null
+   */
+  assignStoriesToSprint(repositoryId: string, storyIds: string[], sprintId: string | null): Observable<{ sprintId: string | null; storyIds: string[] }> {
+    return this.apiService.put<{ sprintId: string | null; storyIds: string[] }>(
+      `/backlog/repository/${repositoryId}/sprint-assignments`,
+      { sprintId, storyIds }
+    ).pipe(
+      tap(res => this.applyStorySprint(res.storyIds ?? [], sprintId))
+    );
+  }
+
+  /** Milestones of the repository on GitHub, for mapping sprints. */
+  getGitHubMilestones(repositoryId: string): Observable<GitHubMilestoneOption[]> {
+    return this.apiService.get<{ milestones: GitHubMilestoneOption[] }>(`/backlog/repository/${repositoryId}/github-milestones`).pipe(
+      map(res => res.milestones ?? [])
+    );
+  }
+
+  /**
+   * Story status history and sandbox agent runs per story, for the insights dashboard
+   */
+  getInsights(repositoryId: string): Observable<RepositoryInsightsResponse> {
+    return this.apiService.get<RepositoryInsightsResponse>(`/backlog/repository/${repositoryId}/insights`);
+  }
+
+  /** Status audit history of a story, newest first. */
+  getStoryStatusHistory(storyId: string): Observable<StoryStatusHistoryResponse> {
+    return this.apiService.get<StoryStatusHistoryResponse>(`/backlog/story/${storyId}/status-history`);
+  }
+
+  private storyIdsInSprint(sprintId: string): string[] {
+    return this.backlogSignal()
+      .flatMap(e => e.features)
+      .flatMap(f => f.userStories)
+      .filter(s => s.sprintId === sprintId)
+      .map(s => s.id);
+  }
+
+  private applyStorySprint(storyIds: string[], sprintId: string | null): void {
+    if (storyIds.length === 0) return;
+    const ids = new Set(storyIds);
+    this.backlogSignal.set(this.backlogSignal().map(epic => ({
+      ...epic,
+      features: epic.features.map(feature => ({
+        ...feature,
+        userStories: feature.userStories.map(story =>
+          ids.has(story.id) ? { ...story, sprintId } : story
+        )
+      }))
+    })));
+  }
+
   /**
    * Preview unified Azure sync: per-item suggested create / push / pull.
    */
@@ -774,10 +937,160 @@ export class BacklogService {
     // Merge: use existing epics/features when tree already exists (match by title)
     return this.getBacklog(repositoryId).pipe(
       switchMap(existingEpics => this.mergeBacklogItems(repositoryId, backlogRequest, [...existingEpics], 'AzureDevOps')),
+      switchMap(() => this.getBacklog(repositoryId)),
+      switchMap(epics => this.linkAzureDevOpsDependencies(repositoryId, epics, workItems.userStories))
+    );
+  }
+
+  /**
+   * Map ADO predecessor/successor links of imported stories onto "depends on" links.
+   * Existing local dependencies are kept; returns the reloaded backlog when anything changed.
+   */
+  private linkAzureDevOpsDependencies(
+    repositoryId: string,
+    epics: Epic[],
+    adoStories: AzureDevOpsWorkItem[]
+  ): Observable<Epic[]> {
+    const stories = epics.flatMap(e => e.features ?? []).flatMap(f => f.userStories ?? []);
+    const storyByAdoId = new Map<number, UserStory>();
+    for (const s of stories) {
+      if (s.azureDevOpsWorkItemId != null) storyByAdoId.set(s.azureDevOpsWorkItemId, s);
+    }
+
+    // predecessor ADO id sets per dependent ADO id, from both link directions
+    const predecessorsByAdoId = new Map<number, Set<number>>();
+    const link = (dependent: number, predecessor: number) => {
+      if (dependent === predecessor) return;
+      const set = predecessorsByAdoId.get(dependent) ?? new Set<number>();
+      set.add(predecessor);
+      predecessorsByAdoId.set(dependent, set);
+    };
+    for (const wi of adoStories) {
+      for (const p of wi.predecessorIds ?? []) link(wi.id, p);
+      for (const s of wi.successorIds ?? []) link(s, wi.id);
+    }
+
+    const updates: { storyId: string; dependsOnStoryIds: string[] }[] = [];
+    for (const [adoId, predecessorAdoIds] of predecessorsByAdoId) {
+      const story = storyByAdoId.get(adoId);
+      if (!story) continue;
+      const current = story.dependsOnStoryIds ?? [];
+      const next = new Set(current);
+      for (const p of predecessorAdoIds) {
+        const predecessor = storyByAdoId.get(p);
+        if (predecessor) next.add(predecessor.id);
+      }
+      if (next.size !== current.length) updates.push({ storyId: story.id, dependsOnStoryIds: [...next] });
+    }
+    if (updates.length === 0) return of(epics);
+
+    const apply = async () => {
+      for (const u of updates) {
+        try {
+          await firstValueFrom(this.updateStoryDependencies(u.storyId, u.dependsOnStoryIds));
+        } catch (err) {
+          // A rejected link (e.g. a cycle across imported items) must not fail the whole import
+          console.warn('Could not link ADO dependencies for story', u.storyId, err);
+        }
+      }
+    };
+    return new Observable<void>(subscriber => {
+      apply()
+        .then(() => {
+          subscriber.next();
+          subscriber.complete();
+        })
+        .catch(err => subscriber.error(err));
+    }).pipe(switchMap(() => this.getBacklog(repositoryId)));
+  }
+
+  /**
+   * Import a backlog file (already filtered to the selected items).
+   * Epics/features are reused by title; stories whose title already exists in the feature are skipped.
+   */
+  importBacklogFile(repositoryId: string, file: BacklogFile): Observable<Epic[]> {
+    return this.getBacklog(repositoryId).pipe(
+      switchMap(existingEpics => this.mergeBacklogFile(repositoryId, file, [...existingEpics])),
       switchMap(() => this.getBacklog(repositoryId))
     );
   }
 
+  private mergeBacklogFile(repositoryId: string, file: BacklogFile, existingEpics: Epic[]): Observable<void> {
+    const differs = (status: string | undefined, current: string) =>
+      !!status && status.toLowerCase() !== (current ?? '').toLowerCase();
+    // Unknown statuses from hand-edited files keep the default instead of aborting the import
+    const applyStatus = async (update: Observable<unknown>, itemId: string) => {
+      try {
+        await firstValueFrom(update);
+      } catch (err) {
+        console.warn('Could not apply imported status for backlog item', itemId, err);
+      }
+    };
+
+    const addItems = async () => {
+      for (const epicReq of file.epics) {
+        let epic = this.findEpicByTitle(existingEpics, epicReq.title);
+        if (!epic) {
+          epic = await firstValueFrom(this.addEpic(repositoryId, epicReq.title, epicReq.description, 'Manual'));
+          if (differs(epicReq.status, epic.status)) {
+            await applyStatus(this.updateEpic(epic.id, epic.title, epic.description, epicReq.status), epic.id);
+          }
+          epic.features = epic.features ?? [];
+          existingEpics.push(epic);
+        }
+
+        for (const featureReq of epicReq.features) {
+          let feature = this.findFeatureByTitle(epic, featureReq.title);
+          if (!feature) {
+            feature = await firstValueFrom(
+              this.addFeature(epic.id, featureReq.title, featureReq.description, repositoryId, 'Manual')
+            );
+            if (differs(featureReq.status, feature.status)) {
+              await applyStatus(this.updateFeature(feature.id, feature.title, feature.description, featureReq.status), feature.id);
+            }
+            feature.userStories = feature.userStories ?? [];
+            epic.features = [...(epic.features ?? []), feature];
+          }
+
+          for (const storyReq of featureReq.userStories) {
+            const t = storyReq.title.toLowerCase().trim();
+            if ((feature.userStories ?? []).some(s => s.title.toLowerCase().trim() === t)) continue;
+            const story = await firstValueFrom(
+              this.addUserStory(
+                feature.id,
+                storyReq.title,
+                storyReq.description,
+                storyReq.acceptanceCriteria,
+                storyReq.storyPoints,
+                repositoryId,
+                'Manual',
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                undefined,
+                storyReq.tasks
+              )
+            );
+            feature.userStories = [...(feature.userStories ?? []), story];
+            if (differs(storyReq.status, story.status)) {
+              await applyStatus(this.updateStoryStatus(story.id, storyReq.status!), story.id);
+            }
+          }
+        }
+      }
+    };
+
+    return new Observable<void>(subscriber => {
+      addItems()
+        .then(() => {
+          subscriber.next();
+          subscriber.complete();
+        })
+        .catch(err => subscriber.error(err));
+    });
+  }
+
   /**
    * Merge backlog items: reuse existing epics/features by title, add stories to them
    * @param source Optional: "Manual" | "AzureDevOps" | "GitHub" - set on all created items
@@ -1064,6 +1377,10 @@ export interface AzureDevOpsWorkItem {
   areaPath?: string;
   iterationPath?: string;
   childIds: number[];
+  /** Work items this one depends on (ADO predecessor links). */
+  predecessorIds?: number[];
+  /** Work items that depend on this one (ADO successor links). */
+  successorIds?: number[];
   url?: string;
   createdDate?: string;
   changedDate?: string;
@@ -1142,6 +1459,30 @@ export interface GitHubMilestone {
   url?: string;
 }
 
+/** Milestone as listed for sprint mapping */
+export interface GitHubMilestoneOption {
+  number: number;
+  title: string;
+  state: string;
+  dueOn?: string | null;
+}
+
+export interface SprintRequest {
+  name: string;
+  goal?: string | null;
+  /** yyyy-MM-dd */
+  startDate?: string | null;
+  endDate?: string | null;
+  capacityPoints?: number | null;
+  azureDevOpsIterationPath?: string | null;
+  gitHubMilestoneNumber?: number | null;
+}
+
+export interface CompleteSprintResponse {
+  sprint: Sprint;
+  movedStoryIds: string[];
+}
+
 export interface GitHubIssuesHierarchy {
   milestones: GitHubMilestone[];
   issues: GitHubIssue[];
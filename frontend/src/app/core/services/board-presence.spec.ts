@@ -0,0 +1,38 @@
+import { formatPresenceNames, summarizeBoardPresence } from './board-presence';
+import { BoardPresenceViewer } from './signalr.service';
+
+describe('board presence', () => {
+  const viewer = (connectionId: string, userId: string, displayName: string, extra: Partial<BoardPresenceViewer> = {}): BoardPresenceViewer => ({
+    connectionId,
+    userId,
+    displayName,
+    editingStoryId: null,
+    implementingStoryIds: [],
+    ...extra
+  });
+
+  it('groups connections per user and per story, without the current user', () => {
+    const summary = summarizeBoardPresence([
+      viewer('c1', 'me', 'Me', { editingStoryId: 's1' }),
+      viewer('c2', 'u1', 'alice', { editingStoryId: 's1' }),
+      viewer('c3', 'u1', 'alice', { implementingStoryIds: ['s2'] }),
+      viewer('c4', 'u2', 'bob', { implementingStoryIds: ['s2', 's3'] })
+    ], 'ME');
+
+    expect(summary.viewers).toEqual([
+      { userId: 'u1', displayName: 'alice', initial: 'A' },
+      { userId: 'u2', displayName: 'bob', initial: 'B' }
+    ]);
+    expect(summary.editing.get('s1')?.map(u => u.userId)).toEqual(['u1']);
+    expect(summary.implementing.get('s2')?.map(u => u.userId)).toEqual(['u1', 'u2']);
+    expect(summary.implementing.get('s3')?.map(u => u.userId)).toEqual(['u2']);
+  });
+
+  it('formats names for warnings', () => {
+    const users = ['Ann', 'Ben', 'Cid', 'Dee'].map(n => ({ userId: n, displayName: n, initial: n[0] }));
+    expect(formatPresenceNames(users.slice(0, 1))).toBe('Ann');
+    expect(formatPresenceNames(users.slice(0, 2))).toBe('Ann and Ben');
+    expect(formatPresenceNames(users.slice(0, 3))).toBe('Ann, Ben and 1 other');
+    expect(formatPresenceNames(users)).toBe('Ann, Ben and 2 others');
+  });
+});
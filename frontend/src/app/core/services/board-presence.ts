@@ -0,0 +1,51 @@
+import { BoardPresenceViewer } from './signalr.service';
+
+/** A teammate on the board (one entry per user, however many tabs they have open). */
+export interface PresenceUser {
+  userId: string;
+  displayName: string;
+  initial: string;
+}
+
+export interface BoardPresenceSummary {
+  /** Other users viewing the board. */
+  viewers: PresenceUser[];
+  /** storyId -> other users with the story open in the edit modal. */
+  editing: Map<string, PresenceUser[]>;
+  /** storyId -> other users running a sandbox for the story. */
+  implementing: Map<string, PresenceUser[]>;
+}
+
+function addUnique(map: Map<string, PresenceUser[]>, storyId: string, user: PresenceUser): void {
+  const users = map.get(storyId) ?? [];
+  if (!users.some(u => u.userId === user.userId)) users.push(user);
+  map.set(storyId, users);
+}
+
+/**
+ * Fold the per-connection presence list into per-user / per-story views, leaving out the current user
+ * (their other tabs are not "someone else").
+ */
+export function summarizeBoardPresence(viewers: BoardPresenceViewer[], currentUserId: string | null): BoardPresenceSummary {
+  const summary: BoardPresenceSummary = { viewers: [], editing: new Map(), implementing: new Map() };
+  for (const v of viewers) {
+    if (currentUserId && v.userId.toLowerCase() === currentUserId.toLowerCase()) continue;
+    let user = summary.viewers.find(u => u.userId === v.userId);
+    if (!user) {
+      const name = v.displayName?.trim() || 'Unknown user';
+      user = { userId: v.userId, displayName: name, initial: name[0].toUpperCase() };
+      summary.viewers.push(user);
+    }
+    if (v.editingStoryId) addUnique(summary.editing, v.editingStoryId, user);
+    for (const storyId of v.implementingStoryIds ?? []) addUnique(summary.implementing, storyId, user);
+  }
+  return summary;
+}
+
+/** "Alice", "Alice and Bob", "Alice, Bob and 2 others" */
+export function formatPresenceNames(users: PresenceUser[]): string {
+  const names = users.map(u => u.displayName);
+  if (names.length <= 2) return names.join(' and ');
+  const rest = names.length - 2;
+  return `${names.slice(0, 2).join(', ')} and ${rest} other${rest === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,78 @@
+import {
+  Transcript,
+  transcriptFileName,
+  transcriptToHtml,
+  transcriptToJson,
+  transcriptToMarkdown,
+  turnsFromCodeAsk,
+  turnsFromZedConversations
+} from './conversation-transcript';
+import type { ZedConversation } from './sandbox-bridge.service';
+
+describe('conversation transcript', () => {
+  const conversation: ZedConversation = {
+    id: 'c1',
+    timestamp: 1_767_225_600,
+    user_message: 'Add a health endpoint',
+    assistant_message: 'Done.\n\n```ts\nconst a = 1;\n```',
+    model: 'gpt-4o',
+    tool_calls: [{ name: 'read_file', args: { path: 'src/app.ts' }, result: 'export const x = `y`;' }]
+  };
+
+  const transcript = (): Transcript => ({
+    title: 'Health <endpoint>',
+    details: [{ label: 'Repository', value: 'acme/api' }],
+    exportedAt: '2026-01-02T00:00:00.000Z',
+    sessions: [
+      { label: 'Sandbox 1234', sandboxId: '1234', turns: turnsFromZedConversations([conversation]), raw: [conversation] }
+    ]
+  });
+
+  it('maps bridge conversations to turns', () => {
+    const [turn] = turnsFromZedConversations([conversation], m => m.toUpperCase());
+    expect(turn.user).toBe('ADD A HEALTH ENDPOINT');
+    expect(turn.toolCalls).toEqual([{ name: 'read_file', args: { path: 'src/app.ts' }, result: 'export const x = `y`;' }]);
+  });
+
+  it('pairs Code Ask messages into turns', () => {
+    const turns = turnsFromCodeAsk([
+      { id: '1', role: 'user', content: 'Where is auth?' },
+      { id: '2', role: 'assistant', content: 'In AuthService.', toolCallsSummary: 'grep' },
+      { id: '3', role: 'assistant', content: 'Also the guard.' },
+      { id: '4', role: 'user', content: 'Thanks' }
+    ]);
+    expect(turns).toHaveLength(2);
+    expect(turns[0]).toMatchObject({ user: 'Where is auth?', assistant: 'In AuthService.\n\nAlso the guard.', toolSummary: 'grep' });
+    expect(turns[1]).toMatchObject({ user: 'Thanks', assistant: '' });
+  });
+
+  it('writes Markdown with quoted prompts and folded tool calls', () => {
+    const md = transcriptToMarkdown(transcript());
+    expect(md).toContain('# Health <endpoint>');
+    expect(md).toContain('- **Repository:** acme/api');
+    expect(md).toContain('### You · 2026-01-01 00:00 UTC\n\n> Add a health endpoint');
+    expect(md).toContain('<details>\n<summary>Tool: read_file</summary>');
+    expect(md).toContain('```json\n{\n  "path": "src/app.ts"\n}\n```');
+    expect(md).toContain('### Agent (gpt-4o)\n\nDone.');
+  });
+
+  it('writes a self-contained HTML page through the Markdown renderer', () => {
+    const html = transcriptToHtml(transcript(), md => `<div class="md">${md.length}</div>`);
+    expect(html).toContain('<title>Health &lt;endpoint&gt;</title>');
+    expect(html).toContain('<details class="tool"><summary>Tool: read_file</summary>');
+    expect(html).toContain('<div class="answer"><div class="md">');
+    expect(html).not.toContain('<script');
+  });
+
+  it('keeps the raw entries in JSON', () => {
+    const json = JSON.parse(transcriptToJson(transcript()));
+    expect(json.details).toEqual({ Repository: 'acme/api' });
+    expect(json.sessions[0].conversations[0]).toEqual(conversation);
+  });
+
+  it('names the file after the title', () => {
+    expect(transcriptFileName('Health <endpoint>', 'markdown', new Date('2026-05-12T10:00:00Z')))
+      .toBe('Health-endpoint-conversation-2026-05-12.md');
+    expect(transcriptFileName('  ', 'json', new Date('2026-05-12T10:00:00Z'))).toBe('agent-conversation-2026-05-12.json');
+  });
+});
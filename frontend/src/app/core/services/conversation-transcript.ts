@@ -0,0 +1,255 @@
+import type { ZedConversation } from './sandbox-bridge.service';
+
+export type TranscriptFormat = 'markdown' | 'html' | 'json';
+
+export const TRANSCRIPT_FORMATS: ReadonlyArray<{ format: TranscriptFormat; label: string; extension: string; mimeType: string }> = [
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' }
+];
+
+/** Tool output longer than this is cut in Markdown / HTML transcripts (JSON keeps everything). */
+const TOOL_RESULT_MAX_CHARS = 20_000;
+
+export interface TranscriptToolCall {
+  name: string;
+  args?: Record<string, unknown>;
+  result?: string;
+}
+
+/** One user message and the agent's answer. */
+export interface TranscriptTurn {
+  id: string;
+  /** Unix seconds; null when the source has no time (Code Ask). */
+  timestamp: number | null;
+  user: string;
+  assistant: string;
+  model?: string;
+  toolCalls: TranscriptToolCall[];
+  /** One-line tool summary when the individual calls are not known (Code Ask). */
+  toolSummary?: string;
+}
+
+/** One sandbox run, or one Code Ask thread. `raw` is what the JSON export contains. */
+export interface TranscriptSession {
+  label: string;
+  sandboxId?: string;
+  startedAt?: string | null;
+  turns: TranscriptTurn[];
+  raw: unknown[];
+}
+
+export interface Transcript {
+  title: string;
+  /** Shown under the title, e.g. repository, branch, story. */
+  details: { label: string; value: string }[];
+  exportedAt: string;
+  sessions: TranscriptSession[];
+}
+
+/** Removes the file-editing instructions Zed appends to prompts, so only what the user typed remains. */
+export function stripEditInstructions(message: string): string {
+  if (!message) return message;
+  return message
+    .replace(/(?:You\s*\n)?You\s+MUST\s+respond\s+with\s+a\s+series\s+of\s+edits[\s\S]*?must\s+exactly\s+match\s+existing[^\n]*/gi, '')
+    .replace(/You\s+MUST\s+respond\s+with\s+a\s+series\s+of\s+edits[\s\S]*?```/g, '')
+    .replace(/#+\s*File Editing Instructions[\s\S]*?(?=\n\n[A-Z]|\n\n#[^#]|$)/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function turnsFromZedConversations(
+  conversations: ZedConversation[],
+  cleanUserMessage: (message: string) => string = m => m
+): TranscriptTurn[] {
+  return conversations.map(c => ({
+    id: c.id,
+    timestamp: c.timestamp ?? null,
+    user: cleanUserMessage(c.user_message ?? ''),
+    assistant: c.assistant_message ?? '',
+    model: c.model || undefined,
+    toolCalls: (c.tool_calls ?? []).map(t => ({ name: t.name, args: t.args, result: t.result }))
+  }));
+}
+
+/** Pairs each user message of a Code Ask thread with the assistant messages that follow it. */
+export function turnsFromCodeAsk(
+  messages: { id: string; role: 'user' | 'assistant'; content: string; toolCallsSummary?: string }[]
+): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  for (const m of messages) {
+    const last = turns[turns.length - 1];
+    if (m.role === 'user' || !last) {
+      turns.push({
+        id: m.id,
+        timestamp: null,
+        user: m.role === 'user' ? m.content : '',
+        assistant: m.role === 'assistant' ? m.content : '',
+        toolCalls: [],
+        toolSummary: m.role === 'assistant' ? m.toolCallsSummary : undefined
+      });
+      continue;
+    }
+    last.assistant = [last.assistant, m.content].filter(Boolean).join('\n\n');
+    last.toolSummary = [last.toolSummary, m.toolCallsSummary].filter(Boolean).join('; ') || undefined;
+  }
+  return turns;
+}
+
+export function transcriptToMarkdown(transcript: Transcript): string {
+  const out: string[] = [`# ${transcript.title}`, ''];
+  for (const d of transcript.details) out.push(`- **${d.label}:** ${d.value}`);
+  out.push(`- **Exported:** ${transcript.exportedAt}`, '');
+
+  for (const session of transcript.sessions) {
+    out.push(`## ${session.label}`, '');
+    if (session.turns.length === 0) out.push('_No messages._', '');
+    for (const turn of session.turns) {
+      out.push(`### You${turn.timestamp != null ? ` · ${formatTimestamp(turn.timestamp)}` : ''}`, '', quote(turn.user), '');
+      if (turn.toolSummary) out.push(`_Tools: ${turn.toolSummary}_`, '');
+      for (const call of turn.toolCalls) {
+        out.push('<details>', `<summary>Tool: ${escapeHtml(call.name)}</summary>`, '');
+        if (call.args && Object.keys(call.args).length > 0) out.push(fence(JSON.stringify(call.args, null, 2), 'json'), '');
+        if (call.result) out.push(fence(truncate(call.result), ''), '');
+        out.push('</details>', '');
+      }
+      out.push(`### Agent${turn.model ? ` (${turn.model})` : ''}`, '', turn.assistant.trim() || '_No text answer._', '');
+    }
+  }
+  return out.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd() + '\n';
+}
+
+/** The sessions' source entries as they came from the bridge or the Code Ask history. */
+export function transcriptToJson(transcript: Transcript): string {
+  return JSON.stringify(
+    {
+      title: transcript.title,
+      details: Object.fromEntries(transcript.details.map(d => [d.label, d.value])),
+      exportedAt: transcript.exportedAt,
+      sessions: transcript.sessions.map(s => ({
+        label: s.label,
+        sandboxId: s.sandboxId ?? null,
+        startedAt: s.startedAt ?? null,
+        conversations: s.raw
+      }))
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Self-contained HTML page (inline styles, no scripts). `renderMarkdown` turns assistant Markdown into
+ * HTML — the app passes the Markdown pipe so code blocks and agent edits look like they do in the viewer.
+ */
+export function transcriptToHtml(transcript: Transcript, renderMarkdown: (markdown: string) => string): string {
+  const details = [...transcript.details, { label: 'Exported', value: transcript.exportedAt }]
+    .map(d => `<div><dt>${escapeHtml(d.label)}</dt><dd>${escapeHtml(d.value)}</dd></div>`)
+    .join('');
+  const sessions = transcript.sessions
+    .map(session => {
+      const turns = session.turns.map(turn => {
+        const tools = turn.toolCalls
+          .map(call => {
+            const args = call.args && Object.keys(call.args).length > 0
+              ? `<pre>${escapeHtml(JSON.stringify(call.args, null, 2))}</pre>`
+              : '';
+            const result = call.result ? `<pre>${escapeHtml(truncate(call.result))}</pre>` : '';
+            return `<details class="tool"><summary>Tool: ${escapeHtml(call.name)}</summary>${args}${result}</details>`;
+          })
+          .join('');
+        const summary = turn.toolSummary ? `<p class="tool-summary">Tools: ${escapeHtml(turn.toolSummary)}</p>` : '';
+        const when = turn.timestamp != null ? ` · ${escapeHtml(formatTimestamp(turn.timestamp))}` : '';
+        const answer = turn.assistant.trim() ? renderMarkdown(turn.assistant) : '<p class="muted">No text answer.</p>';
+        return `<article class="turn">` +
+          `<div class="role">You${when}</div><div class="user">${escapeHtml(turn.user)}</div>` +
+          summary + tools +
+          `<div class="role">Agent${turn.model ? ` (${escapeHtml(turn.model)})` : ''}</div><div class="answer">${answer}</div>` +
+          `</article>`;
+      });
+      return `<section><h2>${escapeHtml(session.label)}</h2>${turns.join('') || '<p class="muted">No messages.</p>'}</section>`;
+    })
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(transcript.title)}</title>
+<style>${TRANSCRIPT_CSS}</style>
+</head>
+<body>
+<header><h1>${escapeHtml(transcript.title)}</h1><dl>${details}</dl></header>
+${sessions}
+</body>
+</html>
+`;
+}
+
+/** `<title>-conversation-2026-05-12.md` */
+export function transcriptFileName(title: string, format: TranscriptFormat, now: Date = new Date()): string {
+  const meta = TRANSCRIPT_FORMATS.find(f => f.format === format)!;
+  const slug = title.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'agent';
+  return `${slug}-conversation-${now.toISOString().slice(0, 10)}.${meta.extension}`;
+}
+
+export function renderTranscript(
+  transcript: Transcript,
+  format: TranscriptFormat,
+  renderMarkdown: (markdown: string) => string
+): string {
+  switch (format) {
+    case 'markdown': return transcriptToMarkdown(transcript);
+    case 'html': return transcriptToHtml(transcript, renderMarkdown);
+    case 'json': return transcriptToJson(transcript);
+  }
+}
+
+/** Code fence longer than any backtick run in the text, so nested fences stay intact. */
+function fence(text: string, lang: string): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(longest + 1);
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+function quote(text: string): string {
+  const body = text.trim() || '(empty)';
+  return body.split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+}
+
+function truncate(text: string): string {
+  return text.length > TOOL_RESULT_MAX_CHARS
+    ? `${text.slice(0, TOOL_RESULT_MAX_CHARS)}\n… (${text.length - TOOL_RESULT_MAX_CHARS} more characters)`
+    : text;
+}
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace('T', ' ').slice(0, 16) + ' UTC';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const TRANSCRIPT_CSS = `
+body{margin:0 auto;max-width:960px;padding:24px;font:14px/1.55 -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif;color:#1e293b;background:#fff}
+h1{font-size:22px;margin:0 0 8px}h2{font-size:17px;margin:32px 0 12px;padding-bottom:6px;border-bottom:1px solid #e2e8f0}
+dl{display:flex;flex-wrap:wrap;gap:4px 20px;margin:0;font-size:13px;color:#64748b}dl div{display:flex;gap:6px}dt{font-weight:600}dd{margin:0}
+.turn{margin:0 0 16px;padding:12px 16px;border:1px solid #e2e8f0;border-radius:8px;background:#f8fafc}
+.role{margin:8px 0 4px;font-size:12px;font-weight:600;color:#6366f1;text-transform:uppercase;letter-spacing:.03em}
+.user{white-space:pre-wrap;word-break:break-word}.answer{overflow-x:auto}.muted,.tool-summary{color:#64748b;font-size:13px}
+details.tool{margin:6px 0;padding:4px 8px;border:1px solid #e2e8f0;border-radius:6px;background:#fff}details.tool summary{cursor:pointer;font-family:ui-monospace,monospace;font-size:12px}
+pre{margin:8px 0;padding:10px;overflow-x:auto;border-radius:6px;background:#0f172a;color:#e2e8f0;font:12px/1.5 ui-monospace,SFMono-Regular,Menlo,monospace}
+code{font-family:ui-monospace,SFMono-Regular,Menlo,monospace;font-size:12px}:not(pre)>code{padding:1px 4px;border-radius:4px;background:#e2e8f0}
+.code-block-wrapper{margin:8px 0}.code-block-header{font-size:11px;color:#64748b}.code-block-header button{display:none}
+.diff-block{margin:8px 0;border:1px solid #e2e8f0;border-radius:6px;overflow:hidden}.diff-header{padding:4px 8px;font-size:12px;background:#f1f5f9}.diff-header svg{display:none}
+.diff-table{width:100%;border-collapse:collapse;font:12px/1.45 ui-monospace,monospace}.diff-gutter{width:1%;padding:0 6px;color:#94a3b8;text-align:right}.diff-sign{width:1%;padding:0 4px}
+.diff-code{white-space:pre-wrap}.diff-added{background:#dcfce7}.diff-removed{background:#fee2e2}
+.mermaid-expand-btn,.mermaid-header svg{display:none}.mermaid{white-space:pre-wrap;font:12px ui-monospace,monospace}
+table{border-collapse:collapse}th,td{padding:4px 8px;border:1px solid #e2e8f0}img{max-width:100%}
+`;
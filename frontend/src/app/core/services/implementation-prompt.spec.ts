@@ -0,0 +1,78 @@
+import {
+  DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE,
+  ImplementationPromptContext,
+  extractLinkedFiles,
+  renderImplementationPrompt
+} from './implementation-prompt';
+import { UserStory } from '../../shared/models/user-story.model';
+
+describe('implementation prompt templates', () => {
+  const story = (overrides: Partial<UserStory> = {}): UserStory => ({
+    id: 's1',
+    title: 'Login page',
+    featureId: 'f1',
+    status: 'Backlog',
+    createdAt: '2026-01-01T00:00:00Z',
+    tasks: [],
+    ...overrides
+  });
+
+  const ctx = (s: UserStory): ImplementationPromptContext => ({
+    story: s,
+    feature: { title: 'Auth', description: 'Sign-in flows' },
+    epic: { title: 'Accounts' },
+    repository: { name: 'app', fullName: 'acme/app', defaultBranch: 'main' }
+  });
+
+  it('renders the built-in template like the former hard-coded prompt', () => {
+    const out = renderImplementationPrompt(
+      DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE,
+      ctx(story({ description: 'Add a form', acceptanceCriteria: '- shows errors', storyPoints: 3 }))
+    );
+    expect(out).toBe(`Please implement the following User Story:
+
+## Epic: Accounts
+## Feature: Auth
+
+## User Story: Login page
+
+**Description:**
+Add a form
+
+**Acceptance Criteria:**
+- shows errors
+
+**Story Points:** 3
+`);
+  });
+
+  it('drops empty sections and falls back when there is no description', () => {
+    const out = renderImplementationPrompt(DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE, ctx(story()));
+    expect(out).toContain('No description provided');
+    expect(out).not.toContain('Acceptance Criteria');
+    expect(out).not.toContain('Story Points');
+  });
+
+  it('fills nested, list and repository placeholders and keeps unknown ones', () => {
+    const s = story({
+      tasks: [{ id: 't1', title: 'Form', description: 'Email + password', userStoryId: 's1', status: 'ToDo', complexity: 'Simple', createdAt: '' }]
+    });
+    const out = renderImplementationPrompt(
+      '{{feature.description}} | {{repository.fullName}}@{{repository.defaultBranch}}\n{{tasks}}\n{{story.owner}}',
+      ctx(s)
+    );
+    expect(out).toBe('Sign-in flows | acme/app@main\n- Form — Email + password\n{{story.owner}}');
+  });
+
+  it('extracts file paths mentioned in the story', () => {
+    const s = story({
+      description: 'Update `src/app/login/login.component.ts` and README.md, e.g. like v1.2.',
+      acceptanceCriteria: 'Covered in src/app/login/login.component.spec.ts.'
+    });
+    expect(extractLinkedFiles(s)).toEqual([
+      'src/app/login/login.component.ts',
+      'README.md',
+      'src/app/login/login.component.spec.ts'
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { UserStory } from '../../shared/models/user-story.model';
+
+/**
+ * Values available to implementation prompt templates.
+ * Epic / feature titles are empty for standalone stories.
+ */
+export interface ImplementationPromptContext {
+  story: UserStory;
+  feature: { title: string; description?: string | null };
+  epic: { title: string; description?: string | null };
+  repository?: { name: string; fullName: string; defaultBranch?: string | null };
+}
+
+/** Placeholder catalog shown next to the template editor (insertable chips). */
+export const PROMPT_TEMPLATE_PLACEHOLDERS: ReadonlyArray<{ key: string; description: string }> = [
+  { key: 'story.title', description: 'User story title' },
+  { key: 'story.description', description: 'User story description' },
+  { key: 'acceptanceCriteria', description: 'Acceptance criteria' },
+  { key: 'story.storyPoints', description: 'Story points' },
+  { key: 'story.status', description: 'Current status' },
+  { key: 'feature.title', description: 'Parent feature title' },
+  { key: 'feature.description', description: 'Parent feature description' },
+  { key: 'epic.title', description: 'Parent epic title' },
+  { key: 'epic.description', description: 'Parent epic description' },
+  { key: 'tasks', description: 'Story tasks as a Markdown list' },
+  { key: 'linkedFiles', description: 'File paths mentioned in the story, as a Markdown list' },
+  { key: 'repository.name', description: 'Repository name' },
+  { key: 'repository.fullName', description: 'Repository owner/name' },
+  { key: 'repository.defaultBranch', description: 'Default branch' }
+];
+
+/**
+ * Built-in prompt, used when the repository has no template.
+ * `{{#key}}…{{/key}}` renders only when the value is non-empty; `{{^key}}…{{/key}}` only when it is empty.
+ */
+export const DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE = `Please implement the following User Story:
+
+## Epic: {{epic.title}}
+## Feature: {{feature.title}}
+
+## User Story: {{story.title}}
+
+**Description:**
+{{story.description}}{{^story.description}}No description provided{{/story.description}}
+{{#acceptanceCriteria}}
+**Acceptance Criteria:**
+{{acceptanceCriteria}}
+{{/acceptanceCriteria}}{{#story.storyPoints}}
+**Story Points:** {{story.storyPoints}}
+{{/story.storyPoints}}`;
+
+/** Repo-relative paths such as `src/app/foo.ts` or `README.md`. */
+const FILE_PATH_PATTERN = /(?:^|[\s`'"(\[])((?:[\w.-]+\/)*[\w.-]+\.[A-Za-z]\w{0,9})(?=$|[\s`'"),:;.\]])/gm;
+/** Extensions accepted for bare file names (no directory), so "e.g." or "v1.2" are not taken for files. */
+const KNOWN_FILE_EXTENSION = /\.(?:tsx?|jsx?|mjs|cjs|json|ya?ml|toml|md|cs|csproj|sln|py|go|rs|java|kt|rb|php|html|css|scss|sql|sh|xml|txt|ini|cfg|lock|dockerfile)$/i;
+
+/** File paths referenced in the story description, acceptance criteria and tasks (deduplicated, in order). */
+export function extractLinkedFiles(story: UserStory): string[] {
+  const sources = [
+    story.description ?? '',
+    story.acceptanceCriteria ?? '',
+    ...(story.tasks ?? []).flatMap(t => [t.title, t.description ?? ''])
+  ];
+  const found: string[] = [];
+  for (const text of sources) {
+    for (const m of text.matchAll(FILE_PATH_PATTERN)) {
+      const path = m[1];
+      if (!path.includes('/') && !KNOWN_FILE_EXTENSION.test(path)) continue;
+      if (!found.includes(path)) found.push(path);
+    }
+  }
+  return found;
+}
+
+function placeholderValues(ctx: ImplementationPromptContext): Record<string, string> {
+  const { story, feature, epic, repository } = ctx;
+  const tasks = (story.tasks ?? [])
+    .map(t => `- ${t.title}${t.description ? ` — ${t.description}` : ''}`)
+    .join('\n');
+  return {
+    'story.id': story.id,
+    'story.title': story.title ?? '',
+    'story.description': story.description ?? '',
+    'story.storyPoints': story.storyPoints ? String(story.storyPoints) : '',
+    'story.status': story.status ?? '',
+    acceptanceCriteria: story.acceptanceCriteria ?? '',
+    'feature.title': feature.title ?? '',
+    'feature.description': feature.description ?? '',
+    'epic.title': epic.title ?? '',
+    'epic.description': epic.description ?? '',
+    tasks,
+    linkedFiles: extractLinkedFiles(story).map(p => `- \`${p}\``).join('\n'),
+    'repository.name': repository?.name ?? '',
+    'repository.fullName': repository?.fullName ?? '',
+    'repository.defaultBranch': repository?.defaultBranch ?? ''
+  };
+}
+
+/**
+ * Fill a prompt template for a story. Unknown placeholders are left as written so typos stay visible in the preview.
+ */
+export function renderImplementationPrompt(template: string, ctx: ImplementationPromptContext): string {
+  const values = placeholderValues(ctx);
+  const known = (key: string) => Object.prototype.hasOwnProperty.call(values, key);
+
+  const withSections = template.replace(
+    /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g,
+    (match, kind: string, key: string, body: string) => {
+      if (!known(key)) return match;
+      const present = values[key].trim().length > 0;
+      return (kind === '#') === present ? body : '';
+    }
+  );
+
+  return withSections.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (match, key: string) => (known(key) ? values[key] : match));
+}
@@ -0,0 +1,74 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { ImplementationQueueService } from './implementation-queue.service';
+import { VncViewerService } from './vnc-viewer.service';
+
+describe('ImplementationQueueService', () => {
+  let svc: ImplementationQueueService;
+  let viewerClosed: Subject<string>;
+
+  const request = (storyId: string, start: () => void = () => {}) => ({
+    storyId,
+    storyTitle: `Story ${storyId}`,
+    repositoryId: 'repo-1',
+    start
+  });
+
+  beforeEach(() => {
+    localStorage.clear();
+    viewerClosed = new Subject<string>();
+    TestBed.configureTestingModule({
+      providers: [{ provide: VncViewerService, useValue: { viewerClosed$: viewerClosed.asObservable() } }]
+    });
+    svc = TestBed.inject(ImplementationQueueService);
+  });
+
+  it('starts at most maxConcurrent stories and keeps the rest waiting', () => {
+    const started: string[] = [];
+    svc.setMaxConcurrent(2);
+    svc.enqueue(['a', 'b', 'c'].map(id => request(id, () => started.push(id))));
+    expect(started).toEqual(['a', 'b']);
+    expect(svc.getState('a')).toBe('starting');
+    expect(svc.getState('c')).toBe('waiting');
+    expect(svc.activeCount()).toBe(2);
+    expect(svc.waitingCount()).toBe(1);
+  });
+
+  it('starts the next story when a running one fails', () => {
+    const started: string[] = [];
+    svc.setMaxConcurrent(1);
+    svc.enqueue(['a', 'b'].map(id => request(id, () => started.push(id))));
+    svc.markFailed('a', 'boom');
+    expect(svc.getItem('a')?.error).toBe('boom');
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('frees the slot when the story sandbox viewer closes', () => {
+    const started: string[] = [];
+    svc.setMaxConcurrent(1);
+    svc.enqueue(['a', 'b'].map(id => request(id, () => started.push(id))));
+    svc.markSandboxCreated('a', 'sb-1');
+    svc.markPromptSent('a');
+    svc.markReadyForPr('a');
+    expect(started).toEqual(['a']);
+    viewerClosed.next('sb-1');
+    expect(svc.getItem('a')).toBeUndefined();
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('does not queue a story twice unless it failed', () => {
+    const start = jest.fn();
+    svc.enqueue([request('a', start)]);
+    svc.enqueue([request('a', start)]);
+    expect(start).toHaveBeenCalledTimes(1);
+    svc.markFailed('a', 'x');
+    svc.enqueue([request('a', start)]);
+    expect(start).toHaveBeenCalledTimes(2);
+  });
+
+  it('clamps and persists the concurrency limit', () => {
+    svc.setMaxConcurrent(42);
+    expect(svc.maxConcurrent()).toBe(5);
+    expect(localStorage.getItem('devpilot.implementationQueue.maxConcurrent')).toBe('5');
+  });
+});
@@ -0,0 +1,164 @@
+import { Injectable, computed, signal } from '@angular/core';
+import { VncViewerService } from './vnc-viewer.service';
+
+/** Lifecycle of one story in the batch implementation queue. */
+export type ImplementationQueueState = 'waiting' | 'starting' | 'prompt_sent' | 'ready_for_pr' | 'failed';
+
+export interface ImplementationQueueItem {
+  storyId: string;
+  storyTitle: string;
+  repositoryId: string;
+  state: ImplementationQueueState;
+  /** Set once the sandbox is created; used to free the slot when its viewer closes. */
+  sandboxId?: string;
+  error?: string;
+  enqueuedAt: number;
+}
+
+/** Story handed to {@link ImplementationQueueService.enqueue}; `start` creates the sandbox and sends the prompt. */
+export interface ImplementationQueueRequest {
+  storyId: string;
+  storyTitle: string;
+  repositoryId: string;
+  start: () => void;
+}
+
+const MAX_CONCURRENT_STORAGE_KEY = 'devpilot.implementationQueue.maxConcurrent';
+const DEFAULT_MAX_CONCURRENT = 2;
+/** Same ceiling as the VNC dock (opening more closes the oldest viewer). */
+const MAX_CONCURRENT_LIMIT = 5;
+
+/** States that hold a sandbox slot. */
+const ACTIVE_STATES: ImplementationQueueState[] = ['starting', 'prompt_sent', 'ready_for_pr'];
+
+/**
+ * Batch "Implement" queue: runs at most {@link maxConcurrent} implementation sandboxes at once
+ * and starts the next waiting story when a slot frees up (viewer closed, failure or removal).
+ * The caller drives progress through {@link markPromptSent}, {@link markReadyForPr} and {@link markFailed}.
+ */
+@Injectable({ providedIn: 'root' })
+export class ImplementationQueueService {
+  private itemsSignal = signal<ImplementationQueueItem[]>([]);
+  private starters = new Map<string, () => void>();
+
+  items = this.itemsSignal.asReadonly();
+  maxConcurrent = signal<number>(this.readMaxConcurrent());
+
+  activeCount = computed(() => this.itemsSignal().filter(i => ACTIVE_STATES.includes(i.state)).length);
+  waitingCount = computed(() => this.itemsSignal().filter(i => i.state === 'waiting').length);
+
+  constructor(private vncViewerService: VncViewerService) {
+    this.vncViewerService.viewerClosed$.subscribe(sandboxId => this.releaseSandbox(sandboxId));
+  }
+
+  /** Adds stories to the queue (skipping ones already queued and not failed) and starts what fits. */
+  enqueue(requests: ImplementationQueueRequest[]): void {
+    const now = Date.now();
+    const added: ImplementationQueueItem[] = [];
+    for (const req of requests) {
+      const existing = this.getItem(req.storyId);
+      if (existing && existing.state !== 'failed') continue;
+      this.starters.set(req.storyId, req.start);
+      added.push({
+        storyId: req.storyId,
+        storyTitle: req.storyTitle,
+        repositoryId: req.repositoryId,
+        state: 'waiting',
+        enqueuedAt: now
+      });
+    }
+    if (added.length === 0) return;
+    const ids = new Set(added.map(a => a.storyId));
+    this.itemsSignal.update(items => [...items.filter(i => !ids.has(i.storyId)), ...added]);
+    this.pump();
+  }
+
+  getItem(storyId: string): ImplementationQueueItem | undefined {
+    return this.itemsSignal().find(i => i.storyId === storyId);
+  }
+
+  getState(storyId: string): ImplementationQueueState | null {
+    return this.getItem(storyId)?.state ?? null;
+  }
+
+  markSandboxCreated(storyId: string, sandboxId: string): void {
+    this.patch(storyId, { sandboxId });
+  }
+
+  markPromptSent(storyId: string): void {
+    this.patch(storyId, { state: 'prompt_sent' });
+  }
+
+  markReadyForPr(storyId: string): void {
+    this.patch(storyId, { state: 'ready_for_pr' });
+  }
+
+  markFailed(storyId: string, error: string): void {
+    this.patch(storyId, { state: 'failed', error });
+    this.starters.delete(storyId);
+    this.pump();
+  }
+
+  /** Drops a story from the queue (waiting or finished); frees its slot if it held one. */
+  remove(storyId: string): void {
+    this.starters.delete(storyId);
+    this.itemsSignal.update(items => items.filter(i => i.storyId !== storyId));
+    this.pump();
+  }
+
+  /** Removes failed items (finished items leave the queue when their viewer closes). */
+  clearFinished(): void {
+    this.itemsSignal.update(items => items.filter(i => i.state !== 'failed'));
+  }
+
+  setMaxConcurrent(value: number): void {
+    const n = Math.min(MAX_CONCURRENT_LIMIT, Math.max(1, Math.floor(value) || DEFAULT_MAX_CONCURRENT));
+    this.maxConcurrent.set(n);
+    try {
+      localStorage.setItem(MAX_CONCURRENT_STORAGE_KEY, String(n));
+    } catch {
+      /* private mode / quota */
+    }
+    this.pump();
+  }
+
+  private releaseSandbox(sandboxId: string): void {
+    const item = this.itemsSignal().find(i => i.sandboxId === sandboxId);
+    if (item) this.remove(item.storyId);
+  }
+
+  private pump(): void {
+    let free = this.maxConcurrent() - this.activeCount();
+    while (free > 0) {
+      const next = this.itemsSignal().find(i => i.state === 'waiting');
+      if (!next) return;
+      const start = this.starters.get(next.storyId);
+      this.patch(next.storyId, { state: 'starting', error: undefined });
+      free--;
+      if (!start) {
+        this.markFailed(next.storyId, 'Nothing to run for this story');
+        return;
+      }
+      try {
+        start();
+      } catch (e) {
+        this.markFailed(next.storyId, e instanceof Error ? e.message : String(e));
+        return;
+      }
+    }
+  }
+
+  private patch(storyId: string, changes: Partial<ImplementationQueueItem>): void {
+    this.itemsSignal.update(items => items.map(i => (i.storyId === storyId ? { ...i, ...changes } : i)));
+  }
+
+  private readMaxConcurrent(): number {
+    try {
+      const raw = Number(localStorage.getItem(MAX_CONCURRENT_STORAGE_KEY));
+      if (Number.isFinite(raw) && raw >= 1) return Math.min(MAX_CONCURRENT_LIMIT, Math.floor(raw));
+    } catch {
+      /* ignore */
+    }
+    return DEFAULT_MAX_CONCURRENT;
+  }
+}
@@ -0,0 +1,41 @@
+import { TestBed } from '@angular/core/testing';
+import { of } from 'rxjs';
+import { ModelComparisonService } from './model-comparison.service';
+import { SandboxBridgeService } from './sandbox-bridge.service';
+
+describe('ModelComparisonService', () => {
+  const bridge = {
+    waitForImplementationComplete: jest.fn(),
+    getWorkingTreeDiff: jest.fn(),
+    runTests: jest.fn(),
+    testStatus: jest.fn()
+  };
+
+  const create = () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [ModelComparisonService, { provide: SandboxBridgeService, useValue: bridge }]
+    });
+    return TestBed.inject(ModelComparisonService);
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    jest.resetAllMocks();
+    bridge.getWorkingTreeDiff.mockReturnValue(of({ diff: '', too_large: false, files: [] }));
+  });
+
+  it('keeps runs across a reload and finishes an agent that completed meanwhile', () => {
+    const first = create();
+    first.start('s1', 'Story', 'r1', [{ id: 'm1', name: 'M1', provider: 'openai', model: 'm1', isDefault: false, hasApiKey: true }]);
+    first.setTestCommand('s1', null);
+    first.markSandboxCreated('s1', 'm1', 'sb-1');
+    first.markImplementing('s1', 'm1');
+    bridge.waitForImplementationComplete.mockReturnValue(of({ id: 'c1' }));
+
+    const reloaded = create();
+
+    expect(bridge.waitForImplementationComplete).toHaveBeenCalledWith('sb-1', expect.any(Number));
+    expect(reloaded.get('s1')?.runs[0]).toEqual(expect.objectContaining({ sandboxId: 'sb-1', state: 'finished' }));
+  });
+});
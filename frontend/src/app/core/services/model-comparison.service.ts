@@ -0,0 +1,216 @@
+import { Injectable, signal } from '@angular/core';
+import { Subscription, catchError, of, switchMap, takeWhile, timer } from 'rxjs';
+import { LlmSettingDto } from './auth.service';
+import { SandboxBridgeService, TestRunStatusResponse } from './sandbox-bridge.service';
+import {
+  ModelComparison,
+  ModelComparisonRun,
+  llmSettingLabel,
+  measureDiff,
+  restoreComparisons,
+  serializeComparisons
+} from './model-comparison';
+import { isTestRunActive, toTestGateResult } from './test-gate';
+
+const TEST_POLL_INTERVAL_MS = 3000;
+const TEST_LOG_MAX_CHARS = 200_000;
+const STORAGE_KEY = 'devpilot.modelComparisons';
+
+/**
+ * "Implement with N models": one comparison per story, one sandbox per model. The backlog creates the
+ * sandboxes and sends the prompt; this service tracks each run and, once its agent finishes, measures
+ * the diff and runs the repository's test command so the runs can be compared side by side.
+ * Comparisons are kept in localStorage so a reload picks the running ones up again.
+ */
+@Injectable({ providedIn: 'root' })
+export class ModelComparisonService {
+  private comparisonsSignal = signal<ModelComparison[]>([]);
+  private testWatches = new Map<string, Subscription>();
+  private implementationWatches = new Map<string, Subscription>();
+
+  comparisons = this.comparisonsSignal.asReadonly();
+
+  constructor(private sandboxBridgeService: SandboxBridgeService) {
+    this.comparisonsSignal.set(this.readFromStorage());
+    for (const comparison of this.comparisonsSignal()) this.resume(comparison);
+  }
+
+  /** Starts (or restarts) the comparison of a story with one run per LLM setting. */
+  start(storyId: string, storyTitle: string, repositoryId: string, settings: LlmSettingDto[]): ModelComparison {
+    this.remove(storyId);
+    const comparison: ModelComparison = {
+      storyId,
+      storyTitle,
+      repositoryId,
+      startedAt: Date.now(),
+      chosenSandboxId: null,
+      runs: settings.map(s => ({
+        llmSettingId: s.id,
+        label: llmSettingLabel(s),
+        state: 'starting',
+        sandboxId: null,
+        error: null,
+        diff: null,
+        test: null
+      }))
+    };
+    this.updateComparisons(list => [...list, comparison]);
+    return comparison;
+  }
+
+  get(storyId: string): ModelComparison | undefined {
+    return this.comparisonsSignal().find(c => c.storyId === storyId);
+  }
+
+  /** Kept with the comparison so runs resumed after a reload still run the tests. */
+  setTestCommand(storyId: string, testCommand: string | null): void {
+    this.updateComparisons(list => list.map(c => (c.storyId === storyId ? { ...c, testCommand } : c)));
+  }
+
+  markSandboxCreated(storyId: string, llmSettingId: string, sandboxId: string, vncPassword?: string): void {
+    this.patchRun(storyId, llmSettingId, { sandboxId, vncPassword });
+  }
+
+  markImplementing(storyId: string, llmSettingId: string): void {
+    this.patchRun(storyId, llmSettingId, { state: 'implementing' });
+  }
+
+  markFailed(storyId: string, llmSettingId: string, error: string): void {
+    this.patchRun(storyId, llmSettingId, { state: 'failed', error });
+  }
+
+  /** The agent finished: measure its diff, then run the tests when the repository has a test command. */
+  markFinished(storyId: string, llmSettingId: string, testCommand: string | null): void {
+    this.refreshDiff(storyId, llmSettingId);
+    if (!testCommand) {
+      this.patchRun(storyId, llmSettingId, { state: 'finished' });
+      return;
+    }
+    this.runTests(storyId, llmSettingId, testCommand);
+  }
+
+  refreshDiff(storyId: string, llmSettingId: string): void {
+    const sandboxId = this.findRun(storyId, llmSettingId)?.sandboxId;
+    if (!sandboxId) return;
+    this.sandboxBridgeService.getWorkingTreeDiff(sandboxId).pipe(catchError(() => of(null))).subscribe(res => {
+      if (res) this.patchRun(storyId, llmSettingId, { diff: measureDiff(res) });
+    });
+  }
+
+  /** The run whose sandbox becomes the pull request. */
+  choose(storyId: string, sandboxId: string): void {
+    this.updateComparisons(list => list.map(c => (c.storyId === storyId ? { ...c, chosenSandboxId: sandboxId } : c)));
+  }
+
+  remove(storyId: string): void {
+    for (const run of this.get(storyId)?.runs ?? []) {
+      if (run.sandboxId) this.stopWatches(run.sandboxId);
+    }
+    this.updateComparisons(list => list.filter(c => c.storyId !== storyId));
+  }
+
+  /** After a reload: wait again for agents still implementing and follow test runs still going. */
+  private resume(comparison: ModelComparison): void {
+    for (const run of comparison.runs) {
+      if (!run.sandboxId) continue;
+      if (run.state === 'testing') {
+        this.watchTests(comparison.storyId, run.llmSettingId, run.sandboxId);
+      } else if (run.state === 'implementing') {
+        this.waitForImplementation(comparison, run.llmSettingId, run.sandboxId);
+      }
+    }
+  }
+
+  private waitForImplementation(comparison: ModelComparison, llmSettingId: string, sandboxId: string): void {
+    const { storyId } = comparison;
+    const watch = this.sandboxBridgeService.waitForImplementationComplete(sandboxId, comparison.startedAt / 1000).subscribe({
+      next: () => this.markFinished(storyId, llmSettingId, this.get(storyId)?.testCommand ?? null),
+      error: (err: { message?: string }) => this.markFailed(storyId, llmSettingId, err.message || 'Implementation failed')
+    });
+    this.implementationWatches.set(sandboxId, watch);
+  }
+
+  private runTests(storyId: string, llmSettingId: string, command: string): void {
+    const sandboxId = this.findRun(storyId, llmSettingId)?.sandboxId;
+    if (!sandboxId) return;
+    this.patchRun(storyId, llmSettingId, { state: 'testing', test: null });
+    this.sandboxBridgeService.runTests(sandboxId, command).subscribe({
+      next: () => this.watchTests(storyId, llmSettingId, sandboxId),
+      error: (err: { status?: number; error?: { error?: string }; message?: string }) => {
+        // 409: a run is already going in this sandbox; follow it
+        if (err.status === 409) {
+          this.watchTests(storyId, llmSettingId, sandboxId);
+          return;
+        }
+        this.patchRun(storyId, llmSettingId, {
+          state: 'finished',
+          error: err.error?.error || err.message || 'Failed to start the tests'
+        });
+      }
+    });
+  }
+
+  private watchTests(storyId: string, llmSettingId: string, sandboxId: string): void {
+    this.stopTestWatch(sandboxId);
+    let offset = 0;
+    let log = '';
+    const watch = timer(0, TEST_POLL_INTERVAL_MS)
+      .pipe(
+        switchMap(() => this.sandboxBridgeService.testStatus(sandboxId, offset)),
+        takeWhile(status => isTestRunActive(status), true)
+      )
+      .subscribe((status: TestRunStatusResponse | null) => {
+        if (!status) return;
+        if (status.log) log = (log + status.log).slice(-TEST_LOG_MAX_CHARS);
+        offset = status.offset ?? offset;
+        if (status.state === 'idle') {
+          this.patchRun(storyId, llmSettingId, { state: 'finished', error: 'The sandbox lost the test run' });
+        } else if (status.state !== 'running') {
+          this.patchRun(storyId, llmSettingId, { state: 'finished', test: toTestGateResult(status, log) });
+        }
+      });
+    this.testWatches.set(sandboxId, watch);
+  }
+
+  private stopTestWatch(sandboxId: string): void {
+    this.testWatches.get(sandboxId)?.unsubscribe();
+    this.testWatches.delete(sandboxId);
+  }
+
+  private stopWatches(sandboxId: string): void {
+    this.stopTestWatch(sandboxId);
+    this.implementationWatches.get(sandboxId)?.unsubscribe();
+    this.implementationWatches.delete(sandboxId);
+  }
+
+  private findRun(storyId: string, llmSettingId: string): ModelComparisonRun | undefined {
+    return this.get(storyId)?.runs.find(r => r.llmSettingId === llmSettingId);
+  }
+
+  private patchRun(storyId: string, llmSettingId: string, changes: Partial<ModelComparisonRun>): void {
+    this.updateComparisons(list =>
+      list.map(c =>
+        c.storyId !== storyId
+          ? c
+          : { ...c, runs: c.runs.map(r => (r.llmSettingId === llmSettingId ? { ...r, ...changes } : r)) }
+      )
+    );
+  }
+
+  private updateComparisons(fn: (list: ModelComparison[]) => ModelComparison[]): void {
+    this.comparisonsSignal.update(fn);
+    try {
+      localStorage.setItem(STORAGE_KEY, serializeComparisons(this.comparisonsSignal()));
+    } catch {
+      /* private mode / quota */
+    }
+  }
+
+  private readFromStorage(): ModelComparison[] {
+    try {
+      return restoreComparisons(localStorage.getItem(STORAGE_KEY));
+    } catch {
+      return [];
+    }
+  }
+}
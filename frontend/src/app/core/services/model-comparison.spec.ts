@@ -0,0 +1,75 @@
+import {
+  MAX_COMPARISON_MODELS,
+  ModelComparison,
+  formatDiffSize,
+  llmSettingLabel,
+  measureDiff,
+  restoreComparisons,
+  serializeComparisons,
+  toggleComparisonModel
+} from './model-comparison';
+
+describe('model comparison', () => {
+  it('labels models without repeating the model name', () => {
+    expect(llmSettingLabel({ name: 'Team Anthropic', model: 'claude-sonnet-4' })).toBe('Team Anthropic (claude-sonnet-4)');
+    expect(llmSettingLabel({ name: 'gpt-4o (work)', model: 'gpt-4o' })).toBe('gpt-4o (work)');
+    expect(llmSettingLabel({ name: '', model: 'llama3' })).toBe('llama3');
+  });
+
+  it('caps the model selection', () => {
+    let selected: string[] = [];
+    for (let i = 0; i <= MAX_COMPARISON_MODELS; i++) selected = toggleComparisonModel(selected, `m${i}`);
+    expect(selected).toHaveLength(MAX_COMPARISON_MODELS);
+    expect(toggleComparisonModel(selected, 'm0')).not.toContain('m0');
+  });
+
+  it('measures the diff of a run', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,3 @@',
+      ' keep',
+      '-old',
+      '+new',
+      '+added',
+      ''
+    ].join('\n');
+    const size = measureDiff({ diff, too_large: false, files: ['src/a.ts'] });
+    expect(size).toEqual({ files: 1, additions: 2, deletions: 1 });
+    expect(formatDiffSize(size)).toBe('1 file · +2 −1');
+    expect(formatDiffSize(measureDiff({ diff: '', too_large: true, files: ['a', 'b'] }))).toBe('2 files · too large to count');
+    expect(formatDiffSize({ files: 0, additions: 0, deletions: 0 })).toBe('No changes');
+  });
+
+  it('restores saved comparisons and fails runs that never got their sandbox', () => {
+    const run = { llmSettingId: 'm1', label: 'M1', sandboxId: 'sb-1', error: null, diff: null, test: null };
+    const comparison: ModelComparison = {
+      storyId: 's1',
+      storyTitle: 'Story',
+      repositoryId: 'r1',
+      startedAt: 1000,
+      chosenSandboxId: null,
+      testCommand: 'npm test',
+      runs: [
+        { ...run, state: 'implementing' },
+        { ...run, llmSettingId: 'm2', sandboxId: null, state: 'starting' },
+        {
+          ...run,
+          llmSettingId: 'm3',
+          state: 'finished',
+          test: { passed: true, command: 'npm test', summary: 'ok', exitCode: 0, durationSeconds: 1, log: 'x'.repeat(50_000) }
+        }
+      ]
+    };
+
+    const [restored] = restoreComparisons(serializeComparisons([comparison]));
+
+    expect(restored.testCommand).toBe('npm test');
+    expect(restored.runs.map(r => r.state)).toEqual(['implementing', 'failed', 'finished']);
+    expect(restored.runs[1].error).toBe('Interrupted by a page reload');
+    expect(restored.runs[2].test?.log.length).toBe(20_000);
+    expect(restoreComparisons('not json')).toEqual([]);
+    expect(restoreComparisons(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { LlmSettingDto } from './auth.service';
+import { WorkingTreeDiffResponse } from './sandbox-bridge.service';
+import { TestGateResult } from './test-gate';
+import { parseUnifiedDiff } from './working-tree-diff';
+
+/** One sandbox per model: a comparison needs two and is capped to keep the host responsive. */
+export const MIN_COMPARISON_MODELS = 2;
+export const MAX_COMPARISON_MODELS = 4;
+
+/** Saved test logs keep their tail only, so several runs fit in localStorage. */
+const STORED_TEST_LOG_MAX_CHARS = 20_000;
+
+/** Lifecycle of one model's sandbox in a comparison. */
+export type ModelComparisonRunState = 'starting' | 'implementing' | 'testing' | 'finished' | 'failed';
+
+/** Size of the agent's uncommitted changes; line counts are null when the bridge only listed the files. */
+export interface DiffSize {
+  files: number;
+  additions: number | null;
+  deletions: number | null;
+}
+
+export interface ModelComparisonRun {
+  llmSettingId: string;
+  label: string;
+  state: ModelComparisonRunState;
+  sandboxId: string | null;
+  vncPassword?: string;
+  error: string | null;
+  diff: DiffSize | null;
+  /** Null until the repository's test command ran (or when the repository has none). */
+  test: TestGateResult | null;
+}
+
+/** Same story implemented in parallel by several models; the chosen run becomes the PR. */
+export interface ModelComparison {
+  storyId: string;
+  storyTitle: string;
+  repositoryId: string;
+  startedAt: number;
+  runs: ModelComparisonRun[];
+  chosenSandboxId: string | null;
+  /** Repository test command, resolved after the sandboxes start; undefined until then. */
+  testCommand?: string | null;
+}
+
+/** `Claude (claude-sonnet-4)`; the model is left out when the name already contains it. */
+export function llmSettingLabel(setting: Pick<LlmSettingDto, 'name' | 'model'>): string {
+  const name = setting.name?.trim() || setting.model;
+  if (!setting.model || name.toLowerCase().includes(setting.model.toLowerCase())) return name;
+  return `${name} (${setting.model})`;
+}
+
+/** Adds or removes a model from the picker selection; additions beyond the cap are ignored. */
+export function toggleComparisonModel(selected: readonly string[], llmSettingId: string): string[] {
+  if (selected.includes(llmSettingId)) return selected.filter(id => id !== llmSettingId);
+  if (selected.length >= MAX_COMPARISON_MODELS) return [...selected];
+  return [...selected, llmSettingId];
+}
+
+export function measureDiff(res: WorkingTreeDiffResponse): DiffSize {
+  if (res.too_large) return { files: res.files.length, additions: null, deletions: null };
+  const files = parseUnifiedDiff(res.diff);
+  return {
+    files: files.length,
+    additions: files.reduce((sum, f) => sum + f.additions, 0),
+    deletions: files.reduce((sum, f) => sum + f.deletions, 0)
+  };
+}
+
+/** `3 files · +120 −14`, or `No changes`. */
+export function formatDiffSize(size: DiffSize | null): string {
+  if (!size) return '–';
+  if (size.files === 0) return 'No changes';
+  const files = `${size.files} file${size.files === 1 ? '' : 's'}`;
+  if (size.additions == null || size.deletions == null) return `${files} · too large to count`;
+  return `${files} · +${size.additions} −${size.deletions}`;
+}
+
+/** JSON for localStorage; test logs are cut to their tail. */
+export function serializeComparisons(comparisons: readonly ModelComparison[]): string {
+  return JSON.stringify(
+    comparisons.map(c => ({
+      ...c,
+      runs: c.runs.map(r => (r.test ? { ...r, test: { ...r.test, log: r.test.log.slice(-STORED_TEST_LOG_MAX_CHARS) } } : r))
+    }))
+  );
+}
+
+/**
+ * Comparisons saved before a reload. A run still waiting for its sandbox lost the creation request with
+ * the page, so it is failed; implementing and testing runs keep their state and are followed again.
+ */
+export function restoreComparisons(raw: string | null): ModelComparison[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) return [];
+    return (parsed as ModelComparison[])
+      .filter(c => c && typeof c.storyId === 'string' && Array.isArray(c.runs))
+      .map(c => ({
+        ...c,
+        runs: c.runs.map(r =>
+          r.state === 'starting' ? { ...r, state: 'failed', error: r.error ?? 'Interrupted by a page reload' } : r
+        )
+      }));
+  } catch {
+    return [];
+  }
+}
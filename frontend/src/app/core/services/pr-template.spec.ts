@@ -0,0 +1,56 @@
+import { buildPrForm, isValidBranchName, renderPrTemplate, toPrSubmission } from './pr-template';
+
+const story = { storyId: '0123456789abcdef', storyTitle: 'Add Login Page!', defaultBranch: 'main' };
+
+describe('pull request templates', () => {
+  it('fills the built-in templates for a story without work item', () => {
+    const form = buildPrForm(null, story);
+    expect(form.branchName).toBe('feature/US-01234567-add-login-page');
+    expect(form.commitMessage).toBe('Implement: Add Login Page!');
+    expect(form.title).toBe('01234567: Add Login Page!');
+    expect(form.targetBranch).toBe('main');
+    expect(form.workItemIds).toBe('');
+    expect(form.draft).toBe(false);
+  });
+
+  it('prefers the repository template and keeps unknown placeholders', () => {
+    const form = buildPrForm({
+      branchNameTemplate: 'story/{id}',
+      commitMessageTemplate: null,
+      titleTemplate: '[{ref}] {title}',
+      bodyTemplate: 'Fixes {ref} {unknown}',
+      targetBranch: 'develop',
+      reviewers: ['octocat', 'org/backend'],
+      labels: ['devpilot'],
+      draft: true
+    }, { ...story, azureDevOpsWorkItemId: 190 });
+    expect(form.branchName).toBe('story/190');
+    expect(form.commitMessage).toBe('Implement: Add Login Page!');
+    expect(form.title).toBe('[#190] Add Login Page!');
+    expect(form.body).toBe('Fixes #190 {unknown}');
+    expect(form.targetBranch).toBe('develop');
+    expect(form.reviewers).toBe('octocat, org/backend');
+    expect(form.workItemIds).toBe('190');
+    expect(form.draft).toBe(true);
+    expect(renderPrTemplate('{title}{title}', { title: 'x' })).toBe('xx');
+  });
+
+  it('validates branch names', () => {
+    expect(isValidBranchName('feature/US-1-login')).toBe(true);
+    expect(isValidBranchName('feature/a b')).toBe(false);
+    expect(isValidBranchName('feature/../x')).toBe(false);
+    expect(isValidBranchName('feature/.hidden')).toBe(false);
+    expect(isValidBranchName('feature/x.lock')).toBe(false);
+    expect(isValidBranchName('/feature')).toBe(false);
+  });
+
+  it('parses lists and work item IDs into a submission', () => {
+    const form = { ...buildPrForm(null, story), reviewers: 'a, b\nb', labels: '', workItemIds: '#12, 13' };
+    const result = toPrSubmission(form);
+    expect(result).toEqual({
+      submission: expect.objectContaining({ reviewers: ['a', 'b'], labels: [], workItemIds: [12, 13] })
+    });
+    expect(toPrSubmission({ ...form, workItemIds: 'abc' })).toEqual({ error: '"abc" is not a work item ID' });
+    expect(toPrSubmission({ ...form, branchName: 'main' })).toEqual({ error: 'The PR branch must differ from the target branch' });
+  });
+});
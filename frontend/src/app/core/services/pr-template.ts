@@ -0,0 +1,180 @@
+import { RepositoryPullRequestTemplateDto } from './repository.service';
+
+/** Built-in templates, used for every field the repository template leaves empty. */
+export const DEFAULT_PR_TEMPLATE = {
+  branchNameTemplate: 'feature/US-{id}-{slug}',
+  commitMessageTemplate: 'Implement: {title}',
+  titleTemplate: '{ref}: {title}',
+  bodyTemplate: [
+    '## Implements User Story',
+    '',
+    '**Reference:** {ref}',
+    '**Title:** {title}',
+    '',
+    'This PR implements the user story as described above.',
+    '',
+    '---',
+    '*Created by DevPilot*'
+  ].join('\n')
+};
+
+/** Placeholders available in pull request templates (shown in the template editor). */
+export const PR_TEMPLATE_PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'id', description: 'Work item ID, or the first 8 characters of the story ID' },
+  { key: 'ref', description: '#<work item ID>, or the short story ID' },
+  { key: 'storyId', description: 'Full story ID' },
+  { key: 'title', description: 'Story title' },
+  { key: 'slug', description: 'Story title for branch names, e.g. add-login-page' }
+];
+
+export interface PrTemplateStory {
+  storyId: string;
+  storyTitle: string;
+  defaultBranch: string;
+  azureDevOpsWorkItemId?: number;
+}
+
+/** Editable PR form; list fields are comma or newline separated text. */
+export interface PrFormValue {
+  branchName: string;
+  targetBranch: string;
+  commitMessage: string;
+  title: string;
+  body: string;
+  reviewers: string;
+  labels: string;
+  workItemIds: string;
+  draft: boolean;
+}
+
+export interface PrSubmission {
+  branchName: string;
+  targetBranch: string;
+  commitMessage: string;
+  title: string;
+  body: string;
+  reviewers: string[];
+  labels: string[];
+  workItemIds: number[];
+  draft: boolean;
+}
+
+export function branchSlug(title: string): string {
+  return title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '').slice(0, 40);
+}
+
+export function prTemplateValues(story: PrTemplateStory): Record<string, string> {
+  const shortId = story.storyId.slice(0, 8);
+  const workItemId = story.azureDevOpsWorkItemId;
+  return {
+    id: workItemId != null ? String(workItemId) : shortId,
+    ref: workItemId != null ? `#${workItemId}` : shortId,
+    storyId: story.storyId,
+    title: story.storyTitle,
+    slug: branchSlug(story.storyTitle)
+  };
+}
+
+/** Replaces `{name}` placeholders; unknown placeholders are left as they are. */
+export function renderPrTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/** The PR form pre-filled from the repository template (or the built-in one) for a story. */
+export function buildPrForm(template: RepositoryPullRequestTemplateDto | null, story: PrTemplateStory): PrFormValue {
+  const values = prTemplateValues(story);
+  const render = (custom: string | null | undefined, fallback: string) => renderPrTemplate(custom || fallback, values);
+  return {
+    branchName: render(template?.branchNameTemplate, DEFAULT_PR_TEMPLATE.branchNameTemplate),
+    targetBranch: template?.targetBranch || story.defaultBranch,
+    commitMessage: render(template?.commitMessageTemplate, DEFAULT_PR_TEMPLATE.commitMessageTemplate),
+    title: render(template?.titleTemplate, DEFAULT_PR_TEMPLATE.titleTemplate),
+    body: render(template?.bodyTemplate, DEFAULT_PR_TEMPLATE.bodyTemplate),
+    reviewers: (template?.reviewers ?? []).join(', '),
+    labels: (template?.labels ?? []).join(', '),
+    workItemIds: story.azureDevOpsWorkItemId != null ? String(story.azureDevOpsWorkItemId) : '',
+    draft: !!template?.draft
+  };
+}
+
+export function parseNameList(text: string): string[] {
+  const names = text.split(/[,\n]/).map(s => s.trim()).filter(s => s.length > 0);
+  return [...new Set(names)];
+}
+
+/** Template editor in the repository settings; empty fields mean "built-in default". */
+export interface PrTemplateEditorValue {
+  branchNameTemplate: string;
+  commitMessageTemplate: string;
+  titleTemplate: string;
+  bodyTemplate: string;
+  targetBranch: string;
+  reviewers: string;
+  labels: string;
+  draft: boolean;
+}
+
+export function toPrTemplateEditor(template: RepositoryPullRequestTemplateDto | null): PrTemplateEditorValue {
+  return {
+    branchNameTemplate: template?.branchNameTemplate ?? '',
+    commitMessageTemplate: template?.commitMessageTemplate ?? '',
+    titleTemplate: template?.titleTemplate ?? '',
+    bodyTemplate: template?.bodyTemplate ?? '',
+    targetBranch: template?.targetBranch ?? '',
+    reviewers: (template?.reviewers ?? []).join(', '),
+    labels: (template?.labels ?? []).join(', '),
+    draft: !!template?.draft
+  };
+}
+
+export function fromPrTemplateEditor(value: PrTemplateEditorValue): RepositoryPullRequestTemplateDto {
+  return {
+    branchNameTemplate: value.branchNameTemplate.trim() || null,
+    commitMessageTemplate: value.commitMessageTemplate.trim() || null,
+    titleTemplate: value.titleTemplate.trim() || null,
+    bodyTemplate: value.bodyTemplate.trim() ? value.bodyTemplate : null,
+    targetBranch: value.targetBranch.trim() || null,
+    reviewers: parseNameList(value.reviewers),
+    labels: parseNameList(value.labels),
+    draft: value.draft
+  };
+}
+
+/** Subset of `git check-ref-format` rules, enough to catch typos before pushing. */
+export function isValidBranchName(name: string): boolean {
+  return name.length > 0
+    && !/[\s~^:?*[\\]|\.\.|@\{|\/\/|^[/.-]|[/.]$|\.lock$/.test(name)
+    && !name.split('/').some(part => part.startsWith('.'));
+}
+
+/** Validated submission from the form, or the first problem found. */
+export function toPrSubmission(form: PrFormValue): { submission: PrSubmission } | { error: string } {
+  const branchName = form.branchName.trim();
+  const targetBranch = form.targetBranch.trim();
+  if (!isValidBranchName(branchName)) return { error: `"${branchName}" is not a valid branch name` };
+  if (!isValidBranchName(targetBranch)) return { error: 'Choose the branch to merge into' };
+  if (branchName === targetBranch) return { error: 'The PR branch must differ from the target branch' };
+  if (!form.commitMessage.trim()) return { error: 'Commit message is required' };
+  if (!form.title.trim()) return { error: 'Title is required' };
+
+  const workItemIds: number[] = [];
+  for (const raw of parseNameList(form.workItemIds)) {
+    const id = Number(raw.replace(/^#/, ''));
+    if (!Number.isInteger(id) || id <= 0) return { error: `"${raw}" is not a work item ID` };
+    if (!workItemIds.includes(id)) workItemIds.push(id);
+  }
+
+  return {
+    submission: {
+      branchName,
+      targetBranch,
+      commitMessage: form.commitMessage.trim(),
+      title: form.title.trim(),
+      body: form.body,
+      reviewers: parseNameList(form.reviewers),
+      labels: parseNameList(form.labels),
+      workItemIds,
+      draft: form.draft
+    }
+  };
+}
@@ -143,6 +143,54 @@ export interface ReplaceRepositoryAgentRuleItem {
   sortOrder: number;
 }
 
+/** Named implementation prompt template for a repository (placeholders filled per story). */
+export interface RepositoryPromptTemplateDto {
+  id: string;
+  name: string;
+  body: string;
+  isDefault: boolean;
+  sortOrder: number;
+}
+
+export interface ReplaceRepositoryPromptTemplateItem {
+  id?: string | null;
+  name: string;
+  body: string;
+  isDefault: boolean;
+  sortOrder: number;
+}
+
+/** How sandboxes for a repository are prepared after the clone. */
+export interface RepositorySandboxProfileDto {
+  /** False until the profile was saved once (the other fields are then empty defaults). */
+  configured?: boolean;
+  setupCommands: string[];
+  /** Non-secret variables exported in the sandbox (terminal, agent, setup commands). */
+  environmentVariables: Record<string, string>;
+  previewPort: number | null;
+  useDevcontainer: boolean;
+  /** Run in the sandbox before a pull request is created; null = no test gate. */
+  testCommand: string | null;
+  /** A failing run blocks the PR; otherwise the failure is only reported in the PR body. */
+  blockPullRequestOnTestFailure: boolean;
+  updatedAt?: string | null;
+}
+
+/** Defaults of the PR form; empty templates fall back to the built-in ones (see pr-template.ts). */
+export interface RepositoryPullRequestTemplateDto {
+  configured?: boolean;
+  branchNameTemplate: string | null;
+  commitMessageTemplate: string | null;
+  titleTemplate: string | null;
+  bodyTemplate: string | null;
+  /** Null = the repository's default branch. */
+  targetBranch: string | null;
+  reviewers: string[];
+  labels: string[];
+  draft: boolean;
+  updatedAt?: string | null;
+}
+
 export const DEFAULT_AGENT_RULES = `# DevPilot AI Agent Instructions
 
 ## Before Making Changes
@@ -358,7 +406,17 @@ export class RepositoryService {
    */
   createPullRequest(
     repositoryId: string,
-    params: { headBranch: string; baseBranch: string; title: string; body?: string; workItemIds?: number[] }
+    params: {
+      headBranch: string;
+      baseBranch: string;
+      title: string;
+      body?: string;
+      /** Azure DevOps work item IDs, or GitHub issue numbers the PR closes */
+      workItemIds?: number[];
+      reviewers?: string[];
+      labels?: string[];
+      isDraft?: boolean;
+    }
   ): Observable<{ url: string; number: number; title: string }> {
     return this.apiService.post<{ url: string; number: number; title: string }>(
       `/repositories/${repositoryId}/pull-requests`,
@@ -481,6 +539,48 @@ export class RepositoryService {
     );
   }
 
+  /**
+   * Get named implementation prompt templates (empty = built-in prompt).
+   */
+  getRepositoryPromptTemplates(repositoryId: string): Observable<{ templates: RepositoryPromptTemplateDto[] }> {
+    return this.apiService.get<{ templates: RepositoryPromptTemplateDto[] }>(`/repositories/${repositoryId}/prompt-templates`);
+  }
+
+  /**
+   * Replace all implementation prompt templates for a repository (PUT). The server keeps exactly one default.
+   */
+  replaceRepositoryPromptTemplates(
+    repositoryId: string,
+    templates: ReplaceRepositoryPromptTemplateItem[]
+  ): Observable<{ message?: string; templates: RepositoryPromptTemplateDto[] }> {
+    return this.apiService.put<{ message?: string; templates: RepositoryPromptTemplateDto[] }>(
+      `/repositories/${repositoryId}/prompt-templates`,
+      { templates }
+    );
+  }
+
+  getRepositorySandboxProfile(repositoryId: string): Observable<RepositorySandboxProfileDto> {
+    return this.apiService.get<RepositorySandboxProfileDto>(`/repositories/${repositoryId}/sandbox-profile`);
+  }
+
+  /**
+   * Replace the repository's sandbox profile (PUT). Applies to sandboxes created afterwards.
+   */
+  updateRepositorySandboxProfile(repositoryId: string, profile: RepositorySandboxProfileDto): Observable<RepositorySandboxProfileDto> {
+    return this.apiService.put<RepositorySandboxProfileDto>(`/repositories/${repositoryId}/sandbox-profile`, profile);
+  }
+
+  getRepositoryPullRequestTemplate(repositoryId: string): Observable<RepositoryPullRequestTemplateDto> {
+    return this.apiService.get<RepositoryPullRequestTemplateDto>(`/repositories/${repositoryId}/pull-request-template`);
+  }
+
+  updateRepositoryPullRequestTemplate(
+    repositoryId: string,
+    template: RepositoryPullRequestTemplateDto
+  ): Observable<RepositoryPullRequestTemplateDto> {
+    return this.apiService.put<RepositoryPullRequestTemplateDto>(`/repositories/${repositoryId}/pull-request-template`, template);
+  }
+
   getAzureIdentity(repositoryId: string): Observable<{ clientId: string | null; tenantId: string | null; hasSecret: boolean; hasAzureIdentity: boolean }> {
     return this.apiService.get<{ clientId: string | null; tenantId: string | null; hasSecret: boolean; hasAzureIdentity: boolean }>(`/repositories/${repositoryId}/azure-identity`);
   }
@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { HttpClientTestingModule, HttpTestingController } from '@angular/common/http/testing';
+import { defer, firstValueFrom, of, throwError } from 'rxjs';
+import { APP_CONFIG } from './config.service';
+import { AuthService } from './auth.service';
+import { SandboxBridgeService, ZedConversationsResponse } from './sandbox-bridge.service';
+
+describe('SandboxBridgeService', () => {
+  let svc: SandboxBridgeService;
+
+  const turnComplete = {
+    type: 'turn_complete' as const, seq: 1, source: 'headless_agent', prompt_id: null,
+    conversation_id: 'c1', aborted: false, error: null
+  };
+  const stored: ZedConversationsResponse = {
+    conversations: [{ id: 'c1', timestamp: 200, user_message: 'Implement', assistant_message: 'Done', model: 'm' }],
+    count: 1
+  };
+  const unavailable = () => throwError(() => new HttpErrorResponse({ status: 502, statusText: 'Bad Gateway' }));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    TestBed.configureTestingModule({
+      imports: [HttpClientTestingModule],
+      providers: [
+        SandboxBridgeService,
+        { provide: APP_CONFIG, useValue: { apiUrl: 'http://api.test' } },
+        { provide: AuthService, useValue: { getToken: () => null } },
+      ],
+    });
+    svc = TestBed.inject(SandboxBridgeService);
+    jest.spyOn(svc, 'agentEvents').mockReturnValue(of(turnComplete));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('waitForImplementationComplete retries a failed conversations fetch after the turn completes', async () => {
+    let requests = 0;
+    jest.spyOn(svc, 'getAllConversations').mockReturnValue(defer(() => (++requests === 1 ? unavailable() : of(stored))));
+
+    const conv = await firstValueFrom(svc.waitForImplementationComplete('sb-1', 100, 1, 5000));
+
+    expect(conv.id).toBe('c1');
+    expect(requests).toBe(2);
+  });
+
+  it('waitForImplementationComplete falls back to polling when the conversations keep failing', async () => {
+    let requests = 0;
+    jest.spyOn(svc, 'getAllConversations').mockReturnValue(defer(() => (++requests <= 4 ? unavailable() : of(stored))));
+
+    const conv = await firstValueFrom(svc.waitForImplementationComplete('sb-1', 100, 1, 5000, 1));
+
+    expect(conv.id).toBe('c1');
+    // Three failed attempts after the turn, one failed poll skipped, then two polls for the quiet period
+    expect(requests).toBe(6);
+  });
+
+  it('openPreviewSession asks for the preview cookie with credentials and reports failures as false', async () => {
+    const http = TestBed.inject(HttpTestingController);
+
+    const opened = firstValueFrom(svc.openPreviewSession('sb 1'));
+    const req = http.expectOne('http://api.test/sandboxes/sb%201/preview-session');
+    expect(req.request.method).toBe('POST');
+    expect(req.request.withCredentials).toBe(true);
+    req.flush(null, { status: 204, statusText: 'No Content' });
+    expect(await opened).toBe(true);
+
+    const refused = firstValueFrom(svc.openPreviewSession('sb-1'));
+    http.expectOne('http://api.test/sandboxes/sb-1/preview-session').flush(null, { status: 404, statusText: 'Not Found' });
+    expect(await refused).toBe(false);
+    http.verify();
+  });
+});
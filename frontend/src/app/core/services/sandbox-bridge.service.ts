@@ -1,7 +1,36 @@
 import { Injectable, Inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, catchError, of, map, interval, Subject, takeUntil, switchMap, filter, take, tap, scan, throwError } from 'rxjs';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import {
+  Observable,
+  EMPTY,
+  catchError,
+  of,
+  map,
+  interval,
+  Subject,
+  takeUntil,
+  switchMap,
+  filter,
+  take,
+  tap,
+  scan,
+  throwError,
+  concatMap,
+  takeWhile,
+  timeout,
+  retry
+} from 'rxjs';
 import { APP_CONFIG, AppConfig } from './config.service';
+import { AuthService } from './auth.service';
+import {
+  AgentEvent,
+  AgentLiveState,
+  AgentStreamUnavailableError,
+  INITIAL_AGENT_LIVE_STATE,
+  agentEventsSocketUrl,
+  applyAgentEvent,
+  parseAgentEvent
+} from './agent-events';
 
 export interface ChatResponse {
   response: string;
@@ -33,9 +62,84 @@ export interface RepoStatusResponse {
   project_entries: string[];
 }
 
+export type SandboxProfileState = 'pending' | 'running' | 'succeeded' | 'failed' | 'unknown';
+
+export interface SandboxProfileStep {
+  command: string;
+  /** `profile` or the devcontainer hook, e.g. `devcontainer postCreateCommand`. */
+  source: string;
+  state: 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+  exit_code: number | null;
+}
+
+/** Response from GET /profile/status — repository sandbox profile progress and log since `offset`. */
+export interface SandboxProfileStatusResponse {
+  configured: boolean;
+  state?: SandboxProfileState;
+  steps?: SandboxProfileStep[];
+  env_names?: string[];
+  preview_port?: number | null;
+  devcontainer_file?: string | null;
+  notes?: string[];
+  log?: string;
+  /** Pass back as `offset` to receive only new output. */
+  offset?: number;
+  log_size?: number;
+}
+
+export type TestRunState = 'idle' | 'running' | 'passed' | 'failed';
+
+/** Response from GET /tests/status — the last pre-PR test run and its log from `offset` on. */
+export interface TestRunStatusResponse {
+  state: TestRunState;
+  command?: string | null;
+  exit_code?: number | null;
+  duration_seconds?: number | null;
+  log?: string;
+  /** Pass back as `offset` to receive only new output. */
+  offset?: number;
+  log_size?: number;
+}
+
+/** A TCP port listening in the sandbox (GET /ports), with the process behind it when the bridge can see it. */
+export interface ListeningPort {
+  port: number;
+  /** Bound to localhost only; the preview proxy forwards it anyway. */
+  loopback_only: boolean;
+  pid: number | null;
+  /** Process name, e.g. `node`. */
+  process: string | null;
+  command: string | null;
+  /** Answers plain HTTP requests (dev servers, APIs). */
+  http: boolean;
+  /** False for ports the preview proxy refuses (databases, ssh, ...). */
+  previewable: boolean;
+}
+
+/** Response from GET /git/diff — everything the push would commit, as a unified diff against HEAD. */
+export interface WorkingTreeDiffResponse {
+  diff: string;
+  /** The diff exceeded the bridge limit or could not be sent as UTF-8; `diff` is empty and only `files` is filled. */
+  too_large: boolean;
+  files: string[];
+}
+
 export interface ProjectFile {
   name: string;
   type: 'file' | 'directory';
+  /** Bytes; null for directories. */
+  size?: number | null;
+  /** Unix seconds. */
+  modified?: number | null;
+}
+
+/** GET /project/files: `path` is absolute, `relative_path` is '' at the projects root. */
+export interface ProjectDirectoryListing {
+  files: ProjectFile[];
+  path: string;
+  relative_path: string;
+  /** Repository folder, relative to the projects root. */
+  workspace: string;
 }
 
 export interface ConversationMessage {
@@ -53,6 +157,8 @@ export interface ZedConversation {
   had_tool_execution?: boolean; // true if response involved tool calls
   tool_calls?: { name: string; args?: Record<string, unknown>; result?: string }[];
   iterations?: number;
+  /** Tokens of the turn (tool-call rounds included) when the LLM reported them. */
+  usage?: { prompt_tokens: number; completion_tokens: number };
 }
 
 export interface LiveResponse {
@@ -71,6 +177,15 @@ export interface HeadlessProgress {
   user_prompt?: string;
 }
 
+/** One step of {@link SandboxBridgeService.followHeadlessPrompt}. */
+export interface HeadlessPromptUpdate {
+  live: AgentLiveState;
+  /** True on the last update, once the run is over. */
+  finished: boolean;
+  /** The run's stored conversation (last update only); null when none was recorded. */
+  conversation: ZedConversation | null;
+}
+
 export interface ZedConversationsResponse {
   conversations: ZedConversation[];
   count: number;
@@ -105,9 +220,19 @@ export interface SandboxStats {
   agent_panel_open: boolean;
 }
 
+/** GET /activity — inputs of the sandbox idle auto-shutdown policy. */
+export interface SandboxActivity {
+  agent_running: boolean;
+  /** 0 while a chat/completions request or headless agent run is in flight. */
+  agent_idle_seconds: number;
+  /** Desktop (VNC) keyboard/mouse idle time; null when the sandbox image cannot report it. */
+  input_idle_seconds: number | null;
+}
+
 /**
  * Consecutive idle polls (same latest conversation id, no LLM round in flight) before treating
- * the agent as "settled" for Push PR and implementation-complete heuristics.
+ * the agent as "settled" for Push PR and implementation-complete heuristics. Only used when the
+ * agent event stream (explicit turn_complete) is unavailable.
  */
 export const SANDBOX_AGENT_QUIET_POLL_COUNT = 4;
 
@@ -123,7 +248,11 @@ export const SANDBOX_AGENT_QUIET_POLL_COUNT = 4;
 export class SandboxBridgeService {
   private apiUrl: string;
 
-  constructor(private http: HttpClient, @Inject(APP_CONFIG) config: AppConfig) {
+  constructor(
+    private http: HttpClient,
+    private authService: AuthService,
+    @Inject(APP_CONFIG) config: AppConfig
+  ) {
     this.apiUrl = config.apiUrl;
   }
 
@@ -133,12 +262,26 @@ export class SandboxBridgeService {
 
   /**
    * In-sandbox dev server (Vite, webpack, etc.) via backend reverse proxy.
-   * Same access model as VNC: gated by sandbox id (no JWT on iframe navigation).
+   * Iframe navigation carries no JWT, so call {@link openPreviewSession} before loading it.
    */
   buildPreviewUrl(sandboxId: string, port: number): string {
     return `${this.apiUrl}/sandboxes/${encodeURIComponent(sandboxId)}/preview/${port}/`;
   }
 
+  /**
+   * Has the backend set the owner's preview cookie (HttpOnly, scoped to this sandbox's preview path)
+   * that the preview iframe sends in place of the JWT. `withCredentials` so a cross-origin dev API stores it.
+   * Emits false when the session could not be started.
+   */
+  openPreviewSession(sandboxId: string): Observable<boolean> {
+    return this.http.post(`${this.apiUrl}/sandboxes/${encodeURIComponent(sandboxId)}/preview-session`, null, {
+      withCredentials: true
+    }).pipe(
+      map(() => true),
+      catchError(() => of(false))
+    );
+  }
+
   health(sandboxId: string): Observable<HealthResponse> {
     return this.http.get<HealthResponse>(`${this.getBridgeUrl(sandboxId)}/health`).pipe(
       catchError(error => {
@@ -161,6 +304,46 @@ export class SandboxBridgeService {
     );
   }
 
+  /**
+   * Progress of the repository sandbox profile (setup commands) with the log from `offset` on.
+   * Returns null on transient errors so callers can keep polling.
+   */
+  profileStatus(sandboxId: string, offset = 0): Observable<SandboxProfileStatusResponse | null> {
+    return this.http.get<SandboxProfileStatusResponse>(`${this.getBridgeUrl(sandboxId)}/profile/status`, {
+      params: { offset: String(offset) }
+    }).pipe(
+      catchError(() => of(null))
+    );
+  }
+
+  /**
+   * TCP ports listening in the sandbox, for the preview port picker.
+   * Returns null on transient errors so callers can keep polling.
+   */
+  listPorts(sandboxId: string): Observable<ListeningPort[] | null> {
+    return this.http.get<{ ports: ListeningPort[] }>(`${this.getBridgeUrl(sandboxId)}/ports`).pipe(
+      map(res => res.ports ?? []),
+      catchError(() => of(null))
+    );
+  }
+
+  /** Starts the repository's test command in the project folder; fails with 409 while a run is in progress. */
+  runTests(sandboxId: string, command: string): Observable<{ status: string }> {
+    return this.http.post<{ status: string }>(`${this.getBridgeUrl(sandboxId)}/tests/run`, { command });
+  }
+
+  /**
+   * State of the last test run with the log from `offset` on.
+   * Returns null on transient errors so callers can keep polling.
+   */
+  testStatus(sandboxId: string, offset = 0): Observable<TestRunStatusResponse | null> {
+    return this.http.get<TestRunStatusResponse>(`${this.getBridgeUrl(sandboxId)}/tests/status`, {
+      params: { offset: String(offset) }
+    }).pipe(
+      catchError(() => of(null))
+    );
+  }
+
   chat(sandboxId: string, message: string): Observable<ChatResponse & { conversation_id?: string }> {
     return this.http.post<ChatResponse & { conversation_id?: string }>(`${this.getBridgeUrl(sandboxId)}/chat`, { message });
   }
@@ -192,6 +375,13 @@ export class SandboxBridgeService {
     );
   }
 
+  /** Text selected in the sandbox desktop (X11 PRIMARY), else its clipboard; empty when there is none. */
+  copySandboxClipboard(sandboxId: string): Observable<{ text: string; selection: 'primary' | 'clipboard' | null }> {
+    return this.http.get<{ text: string; selection: 'primary' | 'clipboard' | null }>(
+      `${this.getBridgeUrl(sandboxId)}/clipboard/copy`
+    );
+  }
+
   openZedAgent(sandboxId: string): Observable<{ status: string; window_id?: string }> {
     return this.http.post<{ status: string; window_id?: string }>(
       `${this.getBridgeUrl(sandboxId)}/zed/open-agent`,
@@ -322,8 +512,27 @@ export class SandboxBridgeService {
     return this.http.delete<{ status: string }>(`${this.getBridgeUrl(sandboxId)}/history`);
   }
 
-  listFiles(sandboxId: string): Observable<{ files: ProjectFile[]; path: string }> {
-    return this.http.get<{ files: ProjectFile[]; path: string }>(`${this.getBridgeUrl(sandboxId)}/project/files`);
+  /** `path` is relative to the projects root (default: the root itself). */
+  listFiles(sandboxId: string, path = ''): Observable<ProjectDirectoryListing> {
+    return this.http.get<ProjectDirectoryListing>(`${this.getBridgeUrl(sandboxId)}/project/files`, {
+      params: path ? { path } : {}
+    });
+  }
+
+  /** A file as is, or a folder zipped by the bridge. */
+  downloadProjectPath(sandboxId: string, path: string): Observable<Blob> {
+    return this.http.get(`${this.getBridgeUrl(sandboxId)}/project/download`, { params: { path }, responseType: 'blob' });
+  }
+
+  /**
+   * Saves the files into `directory` (relative to the projects root; null: the repository folder),
+   * overwriting same-named files.
+   */
+  uploadProjectFiles(sandboxId: string, directory: string | null, files: readonly File[]): Observable<{ status: string; saved: string[] }> {
+    const fd = new FormData();
+    if (directory !== null) fd.append('path', directory);
+    for (const file of files) fd.append('files', file, file.name);
+    return this.http.post<{ status: string; saved: string[] }>(`${this.getBridgeUrl(sandboxId)}/project/upload`, fd);
   }
 
   readFile(sandboxId: string, filepath: string): Observable<{ content: string; path: string }> {
@@ -346,6 +555,8 @@ export class SandboxBridgeService {
       prTitle: string;
       prBody?: string;
       gitCredentials?: string;
+      /** Reviewed subset of the working tree diff to commit; without it every change is committed. */
+      patch?: string;
     }
   ): Observable<{ status: string; branch: string; pr_title: string; pr_body: string }> {
     return this.http.post<{ status: string; branch: string; pr_title: string; pr_body: string }>(
@@ -355,11 +566,16 @@ export class SandboxBridgeService {
         commit_message: params.commitMessage,
         pr_title: params.prTitle,
         pr_body: params.prBody ?? '',
-        git_credentials: params.gitCredentials
+        git_credentials: params.gitCredentials,
+        patch: params.patch
       }
     );
   }
 
+  getWorkingTreeDiff(sandboxId: string): Observable<WorkingTreeDiffResponse> {
+    return this.http.get<WorkingTreeDiffResponse>(`${this.getBridgeUrl(sandboxId)}/git/diff`);
+  }
+
   /** Zip of the in-sandbox project root (for unpublished "Commit" flow). */
   getProjectArchiveZip(sandboxId: string): Observable<Blob> {
     return this.http.get(`${this.getBridgeUrl(sandboxId)}/project/archive.zip`, { responseType: 'blob' });
@@ -430,12 +646,67 @@ export class SandboxBridgeService {
     return this.http.get<ZedConversationsResponse>(url);
   }
 
+  // ============================================================
+  // Agent event stream (bridge /agent/events over WebSocket)
+  // ============================================================
+
   /**
-   * Wait for implementation to complete.
-   *
-   * Heuristic: require (1) at least one conversation after `promptSentTimestamp`, (2) while not
-   * in progress, the *latest* such conversation id unchanged for `stableIdlePolls` consecutive
-   * polls. That approximates "quiet period after the last stored assistant reply".
+   * Live agent events of the sandbox: a `hello` snapshot, then turn start, token deltas, tool start/end
+   * and turn complete. Errors with {@link AgentStreamUnavailableError} when the socket cannot be opened
+   * or drops, so callers can fall back to polling; unsubscribing closes the socket.
+   */
+  agentEvents(sandboxId: string): Observable<AgentEvent> {
+    return new Observable<AgentEvent>(subscriber => {
+      const url = agentEventsSocketUrl(this.apiUrl, sandboxId, this.authService.getToken(), window.location.href);
+      const socket = new WebSocket(url);
+      let closedByClient = false;
+      socket.onmessage = (message) => {
+        const event = parseAgentEvent(message.data);
+        if (event) subscriber.next(event);
+      };
+      socket.onclose = (close) => {
+        if (!closedByClient) subscriber.error(new AgentStreamUnavailableError(close.reason || undefined));
+      };
+      return () => {
+        closedByClient = true;
+        socket.close();
+      };
+    });
+  }
+
+  /**
+   * Progress of a headless /agent/prompt run, ending with its stored conversation once the bridge
+   * reports the turn complete. Errors with {@link AgentStreamUnavailableError} like {@link agentEvents}.
+   */
+  followHeadlessPrompt(sandboxId: string, promptId: string): Observable<HeadlessPromptUpdate> {
+    return this.agentEvents(sandboxId).pipe(
+      scan(
+        (acc: { live: AgentLiveState; event: AgentEvent | null }, event: AgentEvent) => ({
+          live: applyAgentEvent(acc.live, event),
+          event
+        }),
+        { live: INITIAL_AGENT_LIVE_STATE, event: null }
+      ),
+      concatMap(({ live, event }): Observable<HeadlessPromptUpdate> => {
+        const completed = event?.type === 'turn_complete' && event.prompt_id === promptId;
+        // Connected after the run ended (another prompt or none running): done once its answer is stored
+        const endedBeforeConnect = event?.type === 'hello' && live.promptId !== promptId;
+        if (!completed && !endedBeforeConnect) {
+          return of({ live, finished: false, conversation: null });
+        }
+        return this.getAllConversations(sandboxId).pipe(
+          map(all => all.conversations.find(c => c.id === promptId) ?? null),
+          map(conversation => ({ live, finished: completed || !!conversation, conversation }))
+        );
+      }),
+      takeWhile(update => !update.finished, true)
+    );
+  }
+
+  /**
+   * Wait for implementation to complete: the bridge reports the turn complete (or idle on connect)
+   * and a conversation was stored after `promptSentTimestamp` (seconds). Polls with the quiet-period
+   * heuristic instead when the agent event stream is unavailable or the conversations keep failing to load.
    */
   waitForImplementationComplete(
     sandboxId: string,
@@ -443,6 +714,43 @@ export class SandboxBridgeService {
     pollIntervalMs: number = 5000,
     timeoutMs: number = 600000,
     stableIdlePolls: number = SANDBOX_AGENT_QUIET_POLL_COUNT
+  ): Observable<ZedConversation> {
+    const startTime = Date.now();
+    return this.agentEvents(sandboxId).pipe(
+      filter(event => event.type === 'turn_complete' || (event.type === 'hello' && !event.request_in_progress)),
+      concatMap(() => this.getAllConversations(sandboxId).pipe(retry({ count: 2, delay: pollIntervalMs }))),
+      map(response => {
+        const recent = response.conversations.filter(c => c.timestamp > promptSentTimestamp);
+        return recent.length > 0 ? recent[recent.length - 1] : null;
+      }),
+      filter((conv): conv is ZedConversation => conv !== null),
+      take(1),
+      timeout({ first: timeoutMs, with: () => throwError(() => new Error('Timeout waiting for implementation to complete')) }),
+      tap(conv => console.log('[WaitForImpl] Implementation complete (turn complete):', conv.id)),
+      catchError(err => {
+        if (!(err instanceof AgentStreamUnavailableError) && !(err instanceof HttpErrorResponse)) {
+          return throwError(() => err);
+        }
+        console.log('[WaitForImpl] Agent event stream or conversations unavailable, polling instead');
+        const remainingMs = Math.max(0, timeoutMs - (Date.now() - startTime));
+        return this.pollForImplementationComplete(sandboxId, promptSentTimestamp, pollIntervalMs, remainingMs, stableIdlePolls);
+      })
+    );
+  }
+
+  /**
+   * Polling fallback of {@link waitForImplementationComplete}.
+   *
+   * Heuristic: require (1) at least one conversation after `promptSentTimestamp`, (2) while not
+   * in progress, the *latest* such conversation id unchanged for `stableIdlePolls` consecutive
+   * polls. That approximates "quiet period after the last stored assistant reply".
+   */
+  private pollForImplementationComplete(
+    sandboxId: string,
+    promptSentTimestamp: number,
+    pollIntervalMs: number,
+    timeoutMs: number,
+    stableIdlePolls: number
   ): Observable<ZedConversation> {
     const stop$ = new Subject<void>();
     const startTime = Date.now();
@@ -474,7 +782,13 @@ export class SandboxBridgeService {
           return throwError(() => new Error('Timeout waiting for implementation to complete'));
         }
         console.log(`[WaitForImpl] Polling... (${Math.round(elapsed / 1000)}s elapsed)`);
-        return this.getAllConversations(sandboxId);
+        // A failed poll is skipped; the next tick (or the timeout) decides
+        return this.getAllConversations(sandboxId).pipe(
+          catchError(err => {
+            console.warn('[WaitForImpl] Poll failed, retrying on the next tick:', err?.status ?? err);
+            return EMPTY;
+          })
+        );
       }),
       scan((acc: Accum, response): Accum => {
         const inProgress = response.request_in_progress === true;
@@ -530,6 +844,13 @@ export class SandboxBridgeService {
     );
   }
 
+  /** Idle times for the idle auto-shutdown policy; null when the bridge is unreachable or too old. */
+  getActivity(sandboxId: string): Observable<SandboxActivity | null> {
+    return this.http.get<SandboxActivity>(`${this.getBridgeUrl(sandboxId)}/activity`).pipe(
+      catchError(() => of(null))
+    );
+  }
+
   getSystemInfo(sandboxId: string): Observable<SandboxStats | null> {
     return this.http.get<SandboxStats>(`${this.getBridgeUrl(sandboxId)}/system-info`).pipe(
       catchError(() => of(null))
@@ -0,0 +1,33 @@
+import {
+  SANDBOX_UPLOAD_MAX_BYTES,
+  joinProjectPath,
+  parentProjectPath,
+  projectDownloadName,
+  projectPathCrumbs,
+  uploadSizeError
+} from './sandbox-files';
+
+describe('sandbox files', () => {
+  it('walks relative project paths', () => {
+    expect(joinProjectPath('', 'repo')).toBe('repo');
+    expect(joinProjectPath('repo/', 'logs')).toBe('repo/logs');
+    expect(parentProjectPath('repo/logs/test.log')).toBe('repo/logs');
+    expect(parentProjectPath('repo')).toBe('');
+    expect(parentProjectPath('')).toBe('');
+    expect(projectPathCrumbs('repo/logs')).toEqual([
+      { label: 'projects', path: '' },
+      { label: 'repo', path: 'repo' },
+      { label: 'logs', path: 'repo/logs' }
+    ]);
+  });
+
+  it('names folder downloads as zips', () => {
+    expect(projectDownloadName({ name: 'dist', type: 'directory' })).toBe('dist.zip');
+    expect(projectDownloadName({ name: 'test.log', type: 'file' })).toBe('test.log');
+  });
+
+  it('rejects uploads over the limit', () => {
+    expect(uploadSizeError([{ size: 1024 }, { size: 2048 }])).toBeNull();
+    expect(uploadSizeError([{ size: SANDBOX_UPLOAD_MAX_BYTES }, { size: 1 }])).toContain('the limit is 25.0 MB');
+  });
+});
@@ -0,0 +1,40 @@
+import { ProjectFile } from './sandbox-bridge.service';
+import { formatBytes } from './workspace-snapshot';
+
+/** Largest upload the bridge accepts (UPLOAD_MAX_BYTES in the bridge; the API's body limit is 30 MB). */
+export const SANDBOX_UPLOAD_MAX_BYTES = 25 * 1024 * 1024;
+
+/** `dir` + `name` with `/` separators; '' is the projects root. */
+export function joinProjectPath(dir: string, name: string): string {
+  return dir ? `${dir.replace(/\/+$/, '')}/${name}` : name;
+}
+
+/** Parent of a relative project path; the root's parent is the root. */
+export function parentProjectPath(path: string): string {
+  const parts = path.split('/').filter(Boolean);
+  parts.pop();
+  return parts.join('/');
+}
+
+/** Breadcrumbs for a relative project path, starting with the projects root. */
+export function projectPathCrumbs(path: string): { label: string; path: string }[] {
+  const crumbs = [{ label: 'projects', path: '' }];
+  let current = '';
+  for (const part of path.split('/').filter(Boolean)) {
+    current = joinProjectPath(current, part);
+    crumbs.push({ label: part, path: current });
+  }
+  return crumbs;
+}
+
+/** Name the browser saves a download under: folders are zipped by the bridge. */
+export function projectDownloadName(entry: ProjectFile): string {
+  return entry.type === 'directory' ? `${entry.name}.zip` : entry.name;
+}
+
+/** Why these files cannot be uploaded in one request, or null. */
+export function uploadSizeError(files: readonly { size: number }[]): string | null {
+  const total = files.reduce((sum, f) => sum + f.size, 0);
+  if (total <= SANDBOX_UPLOAD_MAX_BYTES) return null;
+  return `Upload is ${formatBytes(total)}; the limit is ${formatBytes(SANDBOX_UPLOAD_MAX_BYTES)}.`;
+}
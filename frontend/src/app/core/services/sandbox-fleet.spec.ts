@@ -0,0 +1,40 @@
+import { FleetSandbox } from './sandbox.service';
+import { fleetBindingLabel, formatUptime, isSandboxRunning, secondsSince, secondsUntil } from './sandbox-fleet';
+
+describe('sandbox fleet helpers', () => {
+  const row = (patch: Partial<FleetSandbox>): FleetSandbox => ({
+    id: 'sb', status: 'running', createdAt: null, expiresAt: null, ownerId: null, ownerEmail: null,
+    ownerName: null, isOwn: true, kind: 'other', repositoryId: null, repositoryName: null, branch: null,
+    storyId: null, storyTitle: null, vncPassword: null, ...patch
+  });
+
+  it('treats docker and k8s running statuses alike', () => {
+    expect(isSandboxRunning('running')).toBe(true);
+    expect(isSandboxRunning('Running')).toBe(true);
+    expect(isSandboxRunning('exited')).toBe(false);
+    expect(isSandboxRunning(null)).toBe(false);
+  });
+
+  it('formats uptimes compactly', () => {
+    expect(formatUptime(42)).toBe('42s');
+    expect(formatUptime(12 * 60 + 5)).toBe('12m');
+    expect(formatUptime(3 * 3600 + 5 * 60)).toBe('3h 05m');
+    expect(formatUptime(2 * 86400 + 4 * 3600)).toBe('2d 4h');
+    expect(formatUptime(null)).toBe('–');
+  });
+
+  it('measures age and time left from ISO dates', () => {
+    const now = Date.parse('2026-05-05T12:00:00Z');
+    expect(secondsSince('2026-05-05T11:00:00Z', now)).toBe(3600);
+    expect(secondsUntil('2026-05-05T12:30:00Z', now)).toBe(1800);
+    expect(secondsUntil('2026-05-05T11:00:00Z', now)).toBe(0);
+    expect(secondsSince(null, now)).toBeNull();
+    expect(secondsUntil('not a date', now)).toBeNull();
+  });
+
+  it('describes what the sandbox is bound to', () => {
+    expect(fleetBindingLabel(row({ kind: 'story', storyTitle: 'Add login', repositoryName: 'app' }))).toBe('Add login');
+    expect(fleetBindingLabel(row({ kind: 'ask', repositoryName: 'app', branch: 'main' }))).toBe('app · main · Ask');
+    expect(fleetBindingLabel(row({ kind: 'other' }))).toBe('Unbound');
+  });
+});
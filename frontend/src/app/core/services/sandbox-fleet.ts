@@ -0,0 +1,44 @@
+import { FleetSandbox } from './sandbox.service';
+
+/** Manager statuses are lower-case for docker and k8s phases (`Running`) for pods. */
+export function isSandboxRunning(status: string | null | undefined): boolean {
+  return (status ?? '').toLowerCase() === 'running';
+}
+
+/** Compact duration: `45s`, `12m`, `3h 05m`, `2d 4h`. */
+export function formatUptime(seconds: number | null | undefined): string {
+  if (seconds == null || !Number.isFinite(seconds) || seconds < 0) return '–';
+  const s = Math.floor(seconds);
+  if (s < 60) return `${s}s`;
+  const minutes = Math.floor(s / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${String(minutes % 60).padStart(2, '0')}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+/** Seconds since the sandbox was created, or null when the manager did not report it. */
+export function secondsSince(iso: string | null | undefined, now: number): number | null {
+  if (!iso) return null;
+  const t = Date.parse(iso);
+  return Number.isNaN(t) ? null : Math.max(0, (now - t) / 1000);
+}
+
+/** Seconds until the manager's cleanup removes the sandbox; 0 once expired, null when unknown. */
+export function secondsUntil(iso: string | null | undefined, now: number): number | null {
+  if (!iso) return null;
+  const t = Date.parse(iso);
+  return Number.isNaN(t) ? null : Math.max(0, (t - now) / 1000);
+}
+
+/** What the sandbox is working on: the story title, `repo · branch · Ask`, or `Unbound`. */
+export function fleetBindingLabel(row: FleetSandbox): string {
+  if (row.kind === 'story' && row.storyTitle) return row.storyTitle;
+  if (row.repositoryName) {
+    const parts = [row.repositoryName];
+    if (row.branch) parts.push(row.branch);
+    if (row.kind === 'ask') parts.push('Ask');
+    return parts.join(' · ');
+  }
+  return row.kind === 'story' ? 'Story' : 'Unbound';
+}
@@ -0,0 +1,211 @@
+import { Injectable, OnDestroy, signal } from '@angular/core';
+import { Subscription, forkJoin, timer } from 'rxjs';
+import { NotificationService } from './notification.service';
+import { SandboxActivity, SandboxBridgeService } from './sandbox-bridge.service';
+import { SandboxService } from './sandbox.service';
+import { VncViewer, VncViewerService } from './vnc-viewer.service';
+import {
+  SandboxIdlePolicy,
+  SandboxIdleState,
+  formatIdleCountdown,
+  idleSeconds,
+  idleState
+} from './sandbox-idle';
+
+/** Countdown refresh. */
+const TICK_MS = 5_000;
+/** Bridge /activity poll per open sandbox. */
+const ACTIVITY_POLL_MS = 30_000;
+
+interface TrackedSandbox {
+  title: string;
+  activity: SandboxActivity | null;
+  fetchedAt: number | null;
+  lastLocalActivityAt: number;
+  warningToastId: string | null;
+  stopping: boolean;
+}
+
+const DISABLED: SandboxIdleState = { phase: 'disabled', secondsLeft: null };
+
+/**
+ * Idle auto-shutdown for sandboxes with an open viewer: once nothing happened for the policy's idle
+ * period (no agent run, no desktop input, no interaction with the viewer) a "keep alive" warning is
+ * shown, then the sandbox is stopped. The active Code Ask sandbox is left to the Code page.
+ * Started once by the app shell.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SandboxIdleService implements OnDestroy {
+  private readonly policySignal = signal<SandboxIdlePolicy | null>(null);
+  readonly policy = this.policySignal.asReadonly();
+
+  /** Per-sandbox state, recomputed on every tick. */
+  private readonly statesSignal = signal<Record<string, SandboxIdleState>>({});
+
+  private readonly tracked = new Map<string, TrackedSandbox>();
+  private subscriptions: Subscription[] = [];
+  private policyLoading = false;
+
+  constructor(
+    private vncViewerService: VncViewerService,
+    private sandboxService: SandboxService,
+    private bridgeService: SandboxBridgeService,
+    private notificationService: NotificationService
+  ) {}
+
+  start(): void {
+    if (this.subscriptions.length > 0) return;
+    this.subscriptions.push(
+      this.vncViewerService.viewers$.subscribe(viewers => this.syncTracked(viewers)),
+      timer(ACTIVITY_POLL_MS, ACTIVITY_POLL_MS).subscribe(() => this.pollActivity()),
+      timer(TICK_MS, TICK_MS).subscribe(() => this.evaluate())
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(s => s.unsubscribe());
+    this.subscriptions = [];
+  }
+
+  stateFor(sandboxId: string | undefined): SandboxIdleState {
+    return (sandboxId && this.statesSignal()[sandboxId]) || DISABLED;
+  }
+
+  /** Activity seen in the browser (viewer interaction, "keep alive"); resets the countdown. */
+  markActivity(sandboxId: string | undefined): void {
+    const entry = sandboxId ? this.tracked.get(sandboxId) : undefined;
+    if (!entry) return;
+    entry.lastLocalActivityAt = Date.now();
+    this.evaluate();
+  }
+
+  /** Apply a policy saved from the settings page without waiting for a reload. */
+  setPolicy(policy: SandboxIdlePolicy): void {
+    this.policySignal.set(policy);
+    this.evaluate();
+  }
+
+  private syncTracked(viewers: VncViewer[]): void {
+    const ids = new Set(viewers.map(v => v.id));
+    for (const [id, entry] of this.tracked) {
+      if (!ids.has(id)) {
+        this.dismissWarning(entry);
+        this.tracked.delete(id);
+      }
+    }
+    const now = Date.now();
+    const added: string[] = [];
+    for (const v of viewers) {
+      const existing = this.tracked.get(v.id);
+      if (existing) {
+        existing.title = v.title || existing.title;
+        continue;
+      }
+      this.tracked.set(v.id, {
+        title: v.title || `Sandbox ${v.id.slice(0, 6)}`,
+        activity: null,
+        fetchedAt: null,
+        lastLocalActivityAt: now,
+        warningToastId: null,
+        stopping: false
+      });
+      added.push(v.id);
+    }
+    if (this.tracked.size > 0 && !this.policySignal()) this.loadPolicy();
+    if (added.length > 0) this.pollActivity(added);
+    this.evaluate();
+  }
+
+  private loadPolicy(): void {
+    if (this.policyLoading) return;
+    this.policyLoading = true;
+    this.sandboxService.getIdlePolicy().subscribe({
+      next: policy => {
+        this.policyLoading = false;
+        this.setPolicy(policy);
+      },
+      error: () => {
+        // Retried on the next activity poll; without a policy nothing is stopped.
+        this.policyLoading = false;
+      }
+    });
+  }
+
+  private pollActivity(ids: string[] = [...this.tracked.keys()]): void {
+    if (ids.length === 0) return;
+    if (!this.policySignal()) this.loadPolicy();
+    forkJoin(ids.map(id => this.bridgeService.getActivity(id))).subscribe(results => {
+      const fetchedAt = Date.now();
+      results.forEach((activity, i) => {
+        const entry = this.tracked.get(ids[i]);
+        // Keep the previous sample when the bridge does not answer; elapsed time keeps counting.
+        if (entry && activity) {
+          entry.activity = activity;
+          entry.fetchedAt = fetchedAt;
+        }
+      });
+      this.evaluate();
+    });
+  }
+
+  private evaluate(): void {
+    const policy = this.policySignal();
+    const now = Date.now();
+    const states: Record<string, SandboxIdleState> = {};
+    // The Code page owns the active Ask sandbox and tears it down itself.
+    const askSandboxId = this.sandboxService.getCodeAskActiveSandboxId();
+    for (const [id, entry] of this.tracked) {
+      if (id === askSandboxId) {
+        this.dismissWarning(entry);
+        continue;
+      }
+      const state = idleState(idleSeconds(entry.activity, entry.fetchedAt, entry.lastLocalActivityAt, now), policy);
+      states[id] = state;
+      if (state.phase === 'warning') {
+        this.showWarning(id, entry, state);
+      } else {
+        this.dismissWarning(entry);
+      }
+      if (state.phase === 'expired' && !entry.stopping) {
+        this.stop(id, entry, policy?.idleMinutes ?? 0);
+      }
+    }
+    this.statesSignal.set(states);
+  }
+
+  private showWarning(id: string, entry: TrackedSandbox, state: SandboxIdleState): void {
+    if (entry.warningToastId) return;
+    entry.warningToastId = this.notificationService.warning(
+      'Sandbox idle',
+      `"${entry.title}" will be stopped in ${formatIdleCountdown(state.secondsLeft)} unless you keep it alive.`,
+      { duration: 0, action: { label: 'Keep alive', callback: () => this.markActivity(id) } }
+    );
+  }
+
+  private dismissWarning(entry: TrackedSandbox): void {
+    if (!entry.warningToastId) return;
+    this.notificationService.dismiss(entry.warningToastId);
+    entry.warningToastId = null;
+  }
+
+  private stop(id: string, entry: TrackedSandbox, idleMinutes: number): void {
+    entry.stopping = true;
+    this.dismissWarning(entry);
+    this.sandboxService.stopSandbox(id).subscribe(stopped => {
+      if (!stopped) {
+        // Try again after another full idle period rather than on every tick.
+        entry.stopping = false;
+        entry.lastLocalActivityAt = Date.now();
+        return;
+      }
+      this.notificationService.info(
+        'Sandbox stopped',
+        `"${entry.title}" was stopped after ${idleMinutes} min without activity.`,
+        { duration: 10_000 }
+      );
+      this.vncViewerService.dismissStoppedViewer(id);
+    });
+  }
+}
@@ -0,0 +1,34 @@
+import { formatIdleCountdown, idleSeconds, idleState } from './sandbox-idle';
+
+describe('sandbox idle policy', () => {
+  const now = 1_000_000;
+  const policy = { idleMinutes: 30, warningMinutes: 5 };
+
+  it('takes the most recent of bridge and browser activity', () => {
+    const activity = { agent_running: false, agent_idle_seconds: 600, input_idle_seconds: 120 };
+    expect(idleSeconds(activity, now - 30_000, now - 900_000, now)).toBe(150);
+    expect(idleSeconds(activity, now - 30_000, now - 10_000, now)).toBe(10);
+    expect(idleSeconds({ ...activity, input_idle_seconds: null }, now, now - 900_000, now)).toBe(600);
+    expect(idleSeconds(null, null, now - 60_000, now)).toBe(60);
+  });
+
+  it('never counts a running agent as idle', () => {
+    const activity = { agent_running: true, agent_idle_seconds: 0, input_idle_seconds: 3_000 };
+    expect(idleSeconds(activity, now - 60_000, now - 900_000, now)).toBe(0);
+  });
+
+  it('moves from active to warning to expired', () => {
+    expect(idleState(60, policy)).toEqual({ phase: 'active', secondsLeft: 1740 });
+    expect(idleState(26 * 60, policy)).toEqual({ phase: 'warning', secondsLeft: 240 });
+    expect(idleState(31 * 60, policy)).toEqual({ phase: 'expired', secondsLeft: 0 });
+    expect(idleState(10_000, { idleMinutes: 0, warningMinutes: 5 })).toEqual({ phase: 'disabled', secondsLeft: null });
+    expect(idleState(10, null).phase).toBe('disabled');
+  });
+
+  it('formats the countdown', () => {
+    expect(formatIdleCountdown(245)).toBe('4:05');
+    expect(formatIdleCountdown(42 * 60)).toBe('42m');
+    expect(formatIdleCountdown(65 * 60)).toBe('1h 05m');
+    expect(formatIdleCountdown(null)).toBe('');
+  });
+});
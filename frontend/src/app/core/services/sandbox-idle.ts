@@ -0,0 +1,61 @@
+import { SandboxActivity } from './sandbox-bridge.service';
+
+export interface SandboxIdlePolicyValues {
+  /** Minutes without agent activity or VNC input before the sandbox is stopped; 0 = never. */
+  idleMinutes: number;
+  /** Minutes before the stop when the "keep alive" warning is shown. */
+  warningMinutes: number;
+}
+
+/** GET /sandboxes/idle-policy: the effective policy plus what it is made of. */
+export interface SandboxIdlePolicy extends SandboxIdlePolicyValues {
+  source: 'user' | 'admin' | 'builtin';
+  /** The user's override, if any. */
+  user: SandboxIdlePolicyValues | null;
+  /** Admin default (or built-in default) used without an override. */
+  default: SandboxIdlePolicyValues;
+}
+
+export type SandboxIdlePhase = 'disabled' | 'active' | 'warning' | 'expired';
+
+export interface SandboxIdleState {
+  phase: SandboxIdlePhase;
+  /** Seconds until the sandbox is stopped; null when auto-shutdown is disabled. */
+  secondsLeft: number | null;
+}
+
+/**
+ * Seconds since the last activity: the most recent of what the bridge reported at `fetchedAt`
+ * (agent run, desktop input) and activity seen in the browser (`lastLocalActivityAt`).
+ */
+export function idleSeconds(
+  activity: SandboxActivity | null,
+  fetchedAt: number | null,
+  lastLocalActivityAt: number,
+  now: number
+): number {
+  const local = Math.max(0, (now - lastLocalActivityAt) / 1000);
+  if (!activity || fetchedAt == null) return local;
+  if (activity.agent_running) return 0;
+  const remoteAtFetch = Math.min(activity.agent_idle_seconds, activity.input_idle_seconds ?? Infinity);
+  const remote = remoteAtFetch + Math.max(0, (now - fetchedAt) / 1000);
+  return Math.min(local, remote);
+}
+
+export function idleState(idle: number, policy: SandboxIdlePolicyValues | null): SandboxIdleState {
+  if (!policy || policy.idleMinutes <= 0) return { phase: 'disabled', secondsLeft: null };
+  const secondsLeft = Math.max(0, Math.ceil(policy.idleMinutes * 60 - idle));
+  if (secondsLeft === 0) return { phase: 'expired', secondsLeft };
+  if (secondsLeft <= policy.warningMinutes * 60) return { phase: 'warning', secondsLeft };
+  return { phase: 'active', secondsLeft };
+}
+
+/** `4:05` under ten minutes (warning countdown), else `42m` or `1h 05m`. */
+export function formatIdleCountdown(seconds: number | null): string {
+  if (seconds == null) return '';
+  const s = Math.max(0, Math.floor(seconds));
+  if (s < 600) return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+  const minutes = Math.ceil(s / 60);
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+}
@@ -0,0 +1,30 @@
+import { ListeningPort } from './sandbox-bridge.service';
+import { appendPreviewQueryParam, describePortProcess, firstHttpPort, parsePreviewPort, withPreviewPath } from './sandbox-preview';
+
+const port = (p: Partial<ListeningPort> & { port: number }): ListeningPort => ({
+  loopback_only: false, pid: null, process: null, command: null, http: false, previewable: true, ...p
+});
+
+describe('sandbox preview', () => {
+  it('validates typed ports', () => {
+    expect(parsePreviewPort(' 4200 ')).toEqual({ port: 4200 });
+    expect(parsePreviewPort('')).toEqual({ error: 'Enter a port number.' });
+    expect(parsePreviewPort('70000')).toEqual({ error: 'Port must be a whole number between 1 and 65535.' });
+    expect('error' in parsePreviewPort('5432')).toBe(true);
+  });
+
+  it('opens the first previewable HTTP port', () => {
+    expect(firstHttpPort([port({ port: 5432, http: false, previewable: false }), port({ port: 5173, http: true }), port({ port: 8080, http: true })]))
+      .toBe(5173);
+    expect(firstHttpPort([port({ port: 27017, http: true, previewable: false })])).toBeNull();
+    expect(describePortProcess(port({ port: 3000, process: 'node', pid: 42 }))).toBe('node (pid 42)');
+    expect(describePortProcess(port({ port: 3000 }))).toBeNull();
+  });
+
+  it('builds preview URLs with a path and a cache-busting param', () => {
+    const base = 'http://api/sandboxes/s1/preview/4200/';
+    expect(withPreviewPath(base, '/login')).toBe(base + 'login');
+    expect(withPreviewPath(base, '?x=1')).toBe(base + '?x=1');
+    expect(appendPreviewQueryParam(base + 'a?x=1#top', 'v', '2')).toBe(base + 'a?x=1&v=2#top');
+  });
+});
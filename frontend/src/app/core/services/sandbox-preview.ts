@@ -0,0 +1,59 @@
+import { ListeningPort } from './sandbox-bridge.service';
+
+/** Ports blocked by the proxy (keep in sync with DENIED_PREVIEW_PORTS on the backend / manager). */
+export const DENIED_PREVIEW_PORTS: ReadonlySet<number> = new Set([
+  0, 22, 25, 111, 135, 139, 445, 389, 636, 1433, 3306, 5432,
+  5900, 6379, 6080, 6081, 8090, 8091, 9042, 11211, 27017
+]);
+
+/** Common dev-server ports shown as quick-pick suggestions (any other port works too). */
+export const COMMON_PREVIEW_PORTS: readonly number[] = [
+  3000, 3001, 4173, 4200, 5000, 5173, 5174, 8000, 8080, 8081, 8888, 9000
+];
+
+/** Port typed into the picker, or why it cannot be previewed. */
+export function parsePreviewPort(raw: string): { port: number } | { error: string } {
+  const text = raw.trim();
+  if (!text) return { error: 'Enter a port number.' };
+  const port = Number(text);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    return { error: 'Port must be a whole number between 1 and 65535.' };
+  }
+  if (DENIED_PREVIEW_PORTS.has(port)) {
+    return { error: `Port ${port} is reserved for an internal service and cannot be previewed.` };
+  }
+  return { port };
+}
+
+/** Port opened automatically: the lowest previewable port that answers HTTP. */
+export function firstHttpPort(ports: readonly ListeningPort[]): number | null {
+  return ports.find(p => p.http && p.previewable)?.port ?? null;
+}
+
+/** `node (pid 42)`, or null when the bridge could not see the process. */
+export function describePortProcess(port: ListeningPort): string | null {
+  if (!port.process) return null;
+  return port.pid != null ? `${port.process} (pid ${port.pid})` : port.process;
+}
+
+/**
+ * Appends an optional sub-path to a preview base URL. The base keeps its trailing `/` so sandboxed
+ * dev servers (Angular/Vite) resolve relative assets correctly; a leading `/` of the path is stripped.
+ */
+export function withPreviewPath(baseUrl: string, subPath: string): string {
+  const trimmed = (subPath || '').trim();
+  if (!trimmed) return baseUrl;
+  const hasQueryOrHash = trimmed.startsWith('?') || trimmed.startsWith('#');
+  return `${baseUrl}${hasQueryOrHash ? trimmed : trimmed.replace(/^\/+/, '')}`;
+}
+
+/** Adds a query param to a preview URL without breaking an existing `?` / `#` structure. */
+export function appendPreviewQueryParam(url: string, key: string, value: string): string {
+  const sep = (s: string) => (s.includes('?') ? '&' : '?') + key + '=' + encodeURIComponent(value);
+  const hashIdx = url.indexOf('#');
+  if (hashIdx === -1) {
+    return url + sep(url);
+  }
+  const before = url.slice(0, hashIdx);
+  return before + sep(before) + url.slice(hashIdx);
+}
@@ -0,0 +1,21 @@
+import { formatEnvLines, isSandboxProfileActive, parseEnvLines, parseSetupCommands } from './sandbox-profile';
+
+describe('sandbox profile helpers', () => {
+  it('parses setup commands one per line', () => {
+    expect(parseSetupCommands('npm ci\n\n  # warm caches\n dotnet restore ')).toEqual(['npm ci', 'dotnet restore']);
+  });
+
+  it('parses and formats env lines', () => {
+    const { env, errors } = parseEnvLines('ASPNETCORE_ENVIRONMENT=Development\n# note\nURL=http://a?b=c\nbad line\n1X=2');
+    expect(env).toEqual({ ASPNETCORE_ENVIRONMENT: 'Development', URL: 'http://a?b=c' });
+    expect(errors).toEqual(['Line 4: expected NAME=value', 'Line 5: expected NAME=value']);
+    expect(formatEnvLines(env)).toBe('ASPNETCORE_ENVIRONMENT=Development\nURL=http://a?b=c');
+  });
+
+  it('keeps polling until the profile has finished', () => {
+    expect(isSandboxProfileActive(null)).toBe(true);
+    expect(isSandboxProfileActive({ configured: true, state: 'running' })).toBe(true);
+    expect(isSandboxProfileActive({ configured: true, state: 'failed' })).toBe(false);
+    expect(isSandboxProfileActive({ configured: false })).toBe(false);
+  });
+});
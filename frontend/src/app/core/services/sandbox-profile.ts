@@ -0,0 +1,41 @@
+import { SandboxProfileStatusResponse } from './sandbox-bridge.service';
+
+/** Setup commands from the editor: one per line, blank lines and `#` comments dropped. */
+export function parseSetupCommands(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !line.startsWith('#'));
+}
+
+/**
+ * `KEY=value` lines from the editor. Blank lines and `#` comments are ignored; the value keeps
+ * everything after the first `=`. Invalid lines are reported by 1-based line number.
+ */
+export function parseEnvLines(text: string): { env: Record<string, string>; errors: string[] } {
+  const env: Record<string, string> = {};
+  const errors: string[] = [];
+  text.split('\n').forEach((raw, idx) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    const eq = line.indexOf('=');
+    const name = (eq < 0 ? line : line.slice(0, eq)).trim();
+    if (eq < 0 || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      errors.push(`Line ${idx + 1}: expected NAME=value`);
+      return;
+    }
+    env[name] = line.slice(eq + 1).trim();
+  });
+  return { env, errors };
+}
+
+export function formatEnvLines(env: Record<string, string> | null | undefined): string {
+  return Object.entries(env ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join('\n');
+}
+
+/** True while the viewer should keep polling /profile/status. */
+export function isSandboxProfileActive(status: SandboxProfileStatusResponse | null): boolean {
+  return !status || (status.configured && (status.state === 'pending' || status.state === 'running'));
+}
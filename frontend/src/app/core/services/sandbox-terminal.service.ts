@@ -0,0 +1,182 @@
+import { Inject, Injectable, WritableSignal, signal } from '@angular/core';
+import type { Terminal } from '@xterm/xterm';
+import type { FitAddon } from '@xterm/addon-fit';
+import { APP_CONFIG, AppConfig } from './config.service';
+import { AuthService } from './auth.service';
+import { VncViewerService } from './vnc-viewer.service';
+import {
+  TerminalClientMessage,
+  nextTerminalTitle,
+  parseTerminalMessage,
+  terminalSocketUrl
+} from './sandbox-terminal';
+
+export type SandboxTerminalState = 'connecting' | 'open' | 'closed';
+
+/** One terminal tab: an xterm instance bound to its own shell in the sandbox. */
+export interface SandboxTerminalSession {
+  readonly id: string;
+  readonly sandboxId: string;
+  readonly title: string;
+  readonly terminal: Terminal;
+  readonly fit: FitAddon;
+  readonly state: WritableSignal<SandboxTerminalState>;
+  socket: WebSocket | null;
+}
+
+/**
+ * Web terminal sessions per sandbox. Sessions live here rather than in the component so shells keep
+ * running (and scrollback survives) while the viewer is minimized or the Ask tab is left.
+ * xterm is loaded on first use so it stays out of the main bundle.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SandboxTerminalService {
+  private readonly sessions = signal<SandboxTerminalSession[]>([]);
+  private nextId = 1;
+  private xterm?: Promise<[typeof import('@xterm/xterm'), typeof import('@xterm/addon-fit')]>;
+
+  constructor(
+    @Inject(APP_CONFIG) private config: AppConfig,
+    private authService: AuthService,
+    vncViewerService: VncViewerService
+  ) {
+    // Closing the viewer stops the sandbox; its shells are gone with it.
+    vncViewerService.viewerClosed$.subscribe(sandboxId => this.closeAllFor(sandboxId));
+  }
+
+  sessionsFor(sandboxId: string): SandboxTerminalSession[] {
+    return this.sessions().filter(s => s.sandboxId === sandboxId);
+  }
+
+  async open(sandboxId: string): Promise<SandboxTerminalSession> {
+    this.xterm ??= Promise.all([import('@xterm/xterm'), import('@xterm/addon-fit')]);
+    const [{ Terminal }, { FitAddon }] = await this.xterm;
+    const terminal = new Terminal({
+      cursorBlink: true,
+      fontFamily: "'SF Mono', 'Cascadia Code', 'JetBrains Mono', Menlo, monospace",
+      fontSize: 13,
+      scrollback: 5000,
+      theme: { background: '#0d1117' }
+    });
+    const fit = new FitAddon();
+    terminal.loadAddon(fit);
+
+    const session: SandboxTerminalSession = {
+      id: `term-${this.nextId++}`,
+      sandboxId,
+      title: nextTerminalTitle(this.sessionsFor(sandboxId).map(s => s.title)),
+      terminal,
+      fit,
+      state: signal<SandboxTerminalState>('connecting'),
+      socket: null
+    };
+
+    terminal.onData(data => this.send(session, { type: 'input', data }));
+    terminal.onResize(({ cols, rows }) => this.send(session, { type: 'resize', cols, rows }));
+    // Ctrl+Shift+C / Ctrl+Shift+V copy and paste, as in desktop terminals (plain Ctrl+C stays SIGINT).
+    terminal.attachCustomKeyEventHandler(event => {
+      if (event.type !== 'keydown' || !event.ctrlKey || !event.shiftKey) return true;
+      if (event.code === 'KeyC') {
+        void this.copySelection(session);
+        return false;
+      }
+      if (event.code === 'KeyV') {
+        void this.paste(session);
+        return false;
+      }
+      return true;
+    });
+
+    this.sessions.update(list => [...list, session]);
+    this.connect(session);
+    return session;
+  }
+
+  /** Starts a new shell in a tab whose connection has closed, keeping its scrollback. */
+  reconnect(session: SandboxTerminalSession): void {
+    if (session.state() !== 'closed') return;
+    session.terminal.write('\r\n');
+    this.connect(session);
+  }
+
+  close(session: SandboxTerminalSession): void {
+    this.sessions.update(list => list.filter(s => s !== session));
+    const socket = session.socket;
+    session.socket = null;
+    socket?.close();
+    session.terminal.dispose();
+  }
+
+  closeAllFor(sandboxId: string): void {
+    this.sessionsFor(sandboxId).forEach(s => this.close(s));
+  }
+
+  /** Fits the terminal to its container; the resulting resize is forwarded to the shell. */
+  fit(session: SandboxTerminalSession): void {
+    if (!session.terminal.element?.isConnected) return;
+    try {
+      session.fit.fit();
+    } catch {
+      // container not laid out yet
+    }
+  }
+
+  async copySelection(session: SandboxTerminalSession): Promise<boolean> {
+    const text = session.terminal.getSelection();
+    if (!text) return false;
+    try {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async paste(session: SandboxTerminalSession): Promise<void> {
+    try {
+      const text = await navigator.clipboard.readText();
+      if (text) session.terminal.paste(text);
+    } catch {
+      // clipboard read denied; the browser's own paste (context menu, Cmd+V) still works
+    }
+    session.terminal.focus();
+  }
+
+  private connect(session: SandboxTerminalSession): void {
+    const url = terminalSocketUrl(this.config.apiUrl, session.sandboxId, this.authService.getToken(), window.location.href);
+    const socket = new WebSocket(url);
+    session.socket = socket;
+    session.state.set('connecting');
+    let exited = false;
+
+    socket.onopen = () => {
+      if (session.socket !== socket) return;
+      session.state.set('open');
+      this.send(session, { type: 'resize', cols: session.terminal.cols, rows: session.terminal.rows });
+    };
+    socket.onmessage = event => {
+      const msg = parseTerminalMessage(event.data);
+      if (!msg) return;
+      if (msg.type === 'output') {
+        session.terminal.write(msg.data);
+      } else {
+        exited = true;
+        session.terminal.write(`\r\n\x1b[2m[process exited${msg.code != null ? ` with code ${msg.code}` : ''}]\x1b[0m\r\n`);
+      }
+    };
+    socket.onclose = () => {
+      if (session.socket !== socket) return;
+      session.socket = null;
+      session.state.set('closed');
+      if (!exited) session.terminal.write('\r\n\x1b[2m[connection closed]\x1b[0m\r\n');
+    };
+  }
+
+  private send(session: SandboxTerminalSession, message: TerminalClientMessage): void {
+    if (session.socket?.readyState === WebSocket.OPEN) {
+      session.socket.send(JSON.stringify(message));
+    }
+  }
+}
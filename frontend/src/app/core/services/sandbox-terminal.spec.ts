@@ -0,0 +1,24 @@
+import { nextTerminalTitle, parseTerminalMessage, terminalSocketUrl } from './sandbox-terminal';
+
+describe('sandbox terminal helpers', () => {
+  it('builds the socket URL from a relative or absolute API root', () => {
+    expect(terminalSocketUrl('/api', 'sb 1', 'jwt', 'https://devpilot.example/backlog/1'))
+      .toBe('wss://devpilot.example/api/sandboxes/sb%201/bridge/terminal?access_token=jwt');
+    expect(terminalSocketUrl('http://localhost:5000/api/', 'abc', null, 'http://localhost:4200/'))
+      .toBe('ws://localhost:5000/api/sandboxes/abc/bridge/terminal');
+  });
+
+  it('parses output and exit frames and ignores anything else', () => {
+    expect(parseTerminalMessage('{"type":"output","data":"$ "}')).toEqual({ type: 'output', data: '$ ' });
+    expect(parseTerminalMessage('{"type":"exit","code":3}')).toEqual({ type: 'exit', code: 3 });
+    expect(parseTerminalMessage('{"type":"exit","code":null}')).toEqual({ type: 'exit', code: null });
+    expect(parseTerminalMessage('{"type":"output"}')).toBeNull();
+    expect(parseTerminalMessage('not json')).toBeNull();
+    expect(parseTerminalMessage(new ArrayBuffer(2))).toBeNull();
+  });
+
+  it('reuses the lowest free tab number', () => {
+    expect(nextTerminalTitle([])).toBe('Terminal 1');
+    expect(nextTerminalTitle(['Terminal 1', 'Terminal 3'])).toBe('Terminal 2');
+  });
+});
@@ -0,0 +1,45 @@
+/** Browser → bridge frames on the web terminal socket (`/api/sandboxes/{id}/bridge/terminal`). */
+export type TerminalClientMessage =
+  | { type: 'input'; data: string }
+  | { type: 'resize'; cols: number; rows: number };
+
+/** Bridge → browser frames: shell output, then `exit` once the shell has ended. */
+export type TerminalServerMessage =
+  | { type: 'output'; data: string }
+  | { type: 'exit'; code: number | null };
+
+/**
+ * WebSocket URL of the sandbox web terminal. `apiUrl` may be relative (`/api`), so it is resolved
+ * against the page; the JWT goes in the query string because browsers cannot set WebSocket headers.
+ */
+export function terminalSocketUrl(apiUrl: string, sandboxId: string, token: string | null, pageUrl: string): string {
+  const url = new URL(`${apiUrl.replace(/\/$/, '')}/sandboxes/${encodeURIComponent(sandboxId)}/bridge/terminal`, pageUrl);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (token) url.searchParams.set('access_token', token);
+  return url.toString();
+}
+
+/** Parses a frame from the bridge; unknown or malformed frames yield null. */
+export function parseTerminalMessage(raw: unknown): TerminalServerMessage | null {
+  if (typeof raw !== 'string') return null;
+  try {
+    const msg = JSON.parse(raw) as Record<string, unknown>;
+    if (msg['type'] === 'output' && typeof msg['data'] === 'string') {
+      return { type: 'output', data: msg['data'] };
+    }
+    if (msg['type'] === 'exit') {
+      return { type: 'exit', code: typeof msg['code'] === 'number' ? msg['code'] : null };
+    }
+  } catch {
+    // not JSON
+  }
+  return null;
+}
+
+/** `Terminal N` with the lowest number not used by an open tab. */
+export function nextTerminalTitle(openTitles: readonly string[]): string {
+  const used = new Set(openTitles);
+  let n = 1;
+  while (used.has(`Terminal ${n}`)) n++;
+  return `Terminal ${n}`;
+}
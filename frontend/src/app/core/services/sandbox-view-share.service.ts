@@ -0,0 +1,37 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+import { ZedConversationsResponse } from './sandbox-bridge.service';
+import { SandboxViewShare, SharedSandboxView } from './sandbox-view-share';
+
+/**
+ * Read-only share links of a sandbox: managed by the owner from the viewer toolbar, opened by teammates
+ * without signing in (the `shared/{token}` endpoints are gated by the link token only).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SandboxViewShareService {
+  constructor(private apiService: ApiService) {}
+
+  list(sandboxId: string): Observable<SandboxViewShare[]> {
+    return this.apiService.get<SandboxViewShare[]>(`/sandboxes/${sandboxId}/view-shares`);
+  }
+
+  /** `expiresInMinutes` null: the link lasts until revoked or the sandbox is removed. */
+  create(sandboxId: string, title: string, expiresInMinutes: number | null): Observable<SandboxViewShare> {
+    return this.apiService.post<SandboxViewShare>(`/sandboxes/${sandboxId}/view-shares`, { title, expiresInMinutes });
+  }
+
+  revoke(sandboxId: string, shareId: string): Observable<void> {
+    return this.apiService.delete<void>(`/sandboxes/${sandboxId}/view-shares/${shareId}`);
+  }
+
+  getSharedView(token: string): Observable<SharedSandboxView> {
+    return this.apiService.get<SharedSandboxView>(`/shared/${encodeURIComponent(token)}`);
+  }
+
+  getSharedConversations(token: string): Observable<ZedConversationsResponse> {
+    return this.apiService.get<ZedConversationsResponse>(`/shared/${encodeURIComponent(token)}/conversations`);
+  }
+}
@@ -0,0 +1,23 @@
+import { buildSharedVncUrl, shareExpiryLabel, shareViewPath } from './sandbox-view-share';
+
+describe('sandbox view share', () => {
+  it('builds the share page path and the view-only VNC url behind the token proxy', () => {
+    expect(shareViewPath('tok_-x')).toBe('/share/tok_-x');
+
+    const url = buildSharedVncUrl('/api', 'tok', 'p@ss');
+    expect(url.startsWith('/api/shared/tok/vnc/vnc_lite.html?')).toBe(true);
+    expect(url).toContain('view_only=true');
+    expect(url).toContain('path=api/shared/tok/vnc/websockify');
+    expect(url).not.toContain('sandboxes/');
+    expect(url).toContain('password=p%40ss');
+  });
+
+  it('describes the time left on a link', () => {
+    const now = Date.parse('2026-05-12T10:00:00Z');
+    expect(shareExpiryLabel(null, now)).toBe('No expiry');
+    expect(shareExpiryLabel('2026-05-12T09:59:00Z', now)).toBe('Expired');
+    expect(shareExpiryLabel('2026-05-12T10:45:00Z', now)).toBe('Expires in 45 min');
+    expect(shareExpiryLabel('2026-05-12T13:00:00Z', now)).toBe('Expires in 3 h');
+    expect(shareExpiryLabel('2026-05-19T10:00:00Z', now)).toBe('Expires in 7 d');
+  });
+});
@@ -0,0 +1,49 @@
+/** Read-only share link of a running sandbox (GET/POST /sandboxes/{id}/view-shares). */
+export interface SandboxViewShare {
+  id: string;
+  token: string;
+  title: string;
+  createdAt: string;
+  /** null when the link lasts until revoked. */
+  expiresAt: string | null;
+}
+
+/** GET /shared/{token}: what the share page needs; anonymous. */
+export interface SharedSandboxView {
+  title: string;
+  expiresAt: string | null;
+  vncViewPassword: string;
+}
+
+export const SHARE_EXPIRY_OPTIONS: ReadonlyArray<{ minutes: number | null; label: string }> = [
+  { minutes: 60, label: '1 hour' },
+  { minutes: 4 * 60, label: '4 hours' },
+  { minutes: 24 * 60, label: '1 day' },
+  { minutes: 7 * 24 * 60, label: '7 days' },
+  { minutes: null, label: 'Until revoked' }
+];
+
+/** App route of the share page: `/share/{token}`. The sandbox id stays server-side, resolved from the token. */
+export function shareViewPath(token: string): string {
+  return `/share/${encodeURIComponent(token)}`;
+}
+
+/**
+ * View-only noVNC page of a share link. Static files and websockify go through the token-gated
+ * `/shared/{token}/vnc/…` proxy, so the stream closes when the link is revoked.
+ */
+export function buildSharedVncUrl(apiUrl: string, token: string, viewPassword: string): string {
+  const prefix = `shared/${encodeURIComponent(token)}/vnc`;
+  return `${apiUrl}/${prefix}/vnc_lite.html?autoconnect=true&reconnect=true&reconnect_delay=3000&scale=true&view_only=true` +
+    `&path=api/${prefix}/websockify&password=${encodeURIComponent(viewPassword)}`;
+}
+
+/** `No expiry`, `Expires in 45 min`, `Expires in 3 h`, `Expires in 2 d`, `Expired`. */
+export function shareExpiryLabel(expiresAt: string | null, now: number = Date.now()): string {
+  if (!expiresAt) return 'No expiry';
+  const minutes = Math.ceil((new Date(expiresAt).getTime() - now) / 60_000);
+  if (minutes <= 0) return 'Expired';
+  if (minutes < 60) return `Expires in ${minutes} min`;
+  if (minutes < 48 * 60) return `Expires in ${Math.round(minutes / 60)} h`;
+  return `Expires in ${Math.round(minutes / (24 * 60))} d`;
+}
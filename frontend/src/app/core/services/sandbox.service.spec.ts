@@ -57,6 +57,20 @@ describe('SandboxService', () => {
     req.flush({ sandboxes: [{ id: 'a', port: 1, status: 'up' }] });
   });
 
+  it('getFleet requests the all-users view and passes errors on', () => {
+    svc.getFleet(true).subscribe((res) => {
+      expect(res.isAdmin).toBe(true);
+      expect(res.sandboxes[0].id).toBe('a');
+    });
+    http.expectOne('http://api.test/sandboxes/fleet?allUsers=true')
+      .flush({ sandboxes: [{ id: 'a', status: 'running' }], isAdmin: true });
+
+    const onError = jest.fn();
+    svc.getFleet().subscribe({ error: onError });
+    http.expectOne('http://api.test/sandboxes/fleet?allUsers=false').flush('err', { status: 502, statusText: 'Bad Gateway' });
+    expect(onError).toHaveBeenCalled();
+  });
+
   it('listSandboxes returns empty on error', () => {
     svc.listSandboxes().subscribe((list) => expect(list).toEqual([]));
 
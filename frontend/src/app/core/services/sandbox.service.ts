@@ -4,6 +4,7 @@ import { BehaviorSubject, Observable, of, Subject } from 'rxjs';
 import { catchError, distinctUntilChanged, map, tap } from 'rxjs/operators';
 import { APP_CONFIG, AppConfig } from './config.service';
 import { AuthService } from './auth.service';
+import { SandboxIdlePolicy, SandboxIdlePolicyValues } from './sandbox-idle';
 
 export interface Sandbox {
   id: string;
@@ -33,6 +34,34 @@ export interface CodeAskBinding {
   branch: string;
 }
 
+/** One row of GET /sandboxes/fleet (sandbox fleet page). */
+export interface FleetSandbox {
+  id: string;
+  status: string;
+  /** ISO date; null when the manager did not report it. */
+  createdAt: string | null;
+  /** When the manager's cleanup removes the sandbox (ISO date), if known. */
+  expiresAt: string | null;
+  ownerId: string | null;
+  /** Set in the admin all-users view only. */
+  ownerEmail: string | null;
+  ownerName: string | null;
+  isOwn: boolean;
+  /** story = implementing a backlog story, ask = Code Ask / repository sandbox, other = unbound */
+  kind: 'story' | 'ask' | 'other';
+  repositoryId: string | null;
+  repositoryName: string | null;
+  branch: string | null;
+  storyId: string | null;
+  storyTitle: string | null;
+  vncPassword: string | null;
+}
+
+export interface FleetResponse {
+  sandboxes: FleetSandbox[];
+  isAdmin: boolean;
+}
+
 /**
  * Sandbox creation request.
  * AI config, MCP servers, and Zed settings are resolved server-side —
@@ -54,6 +83,22 @@ export interface CreateSandboxRequest {
   agent_rules?: string;
   /** When set with repo_name, agent rules resolve from this story's profile or repository default. */
   story_id?: string;
+  /** Resume: seed the sandbox from this snapshot of `story_id` (workspace files and agent history). */
+  workspace_snapshot_id?: string;
+  /** Run the agent with this LLM setting instead of the repository's (multi-model comparison). */
+  llm_setting_id?: string;
+}
+
+/** Saved workspace (files + agent conversations) of a story sandbox; a new sandbox can resume from it. */
+export interface StoryWorkspaceSnapshot {
+  id: string;
+  storyId: string;
+  sandboxId: string;
+  createdByUserId: string;
+  branch: string | null;
+  archiveSizeBytes: number;
+  conversationCount: number;
+  createdAt: string;
 }
 
 /**
@@ -65,6 +110,7 @@ export interface CreateSandboxRequest {
 })
 export class SandboxService {
   private apiUrl: string;
+  private snapshotsUrl: string;
   private currentSandboxSubject = new BehaviorSubject<Sandbox | null>(null);
 
   currentSandbox$ = this.currentSandboxSubject.asObservable();
@@ -116,6 +162,7 @@ export class SandboxService {
     private authService: AuthService
   ) {
     this.apiUrl = `${config.apiUrl}/sandboxes`;
+    this.snapshotsUrl = `${config.apiUrl}/workspace-snapshots`;
   }
 
   /**
@@ -158,6 +205,62 @@ export class SandboxService {
     );
   }
 
+  /**
+   * Sandboxes of the current user with their bindings, or of every user for admins (`allUsers`).
+   * Errors are passed on so the fleet page can show them.
+   */
+  getFleet(allUsers = false): Observable<FleetResponse> {
+    const params = new HttpParams().set('allUsers', String(allUsers));
+    return this.http.get<FleetResponse>(`${this.apiUrl}/fleet`, { params }).pipe(
+      map(res => ({ sandboxes: res.sandboxes ?? [], isAdmin: !!res.isAdmin }))
+    );
+  }
+
+  /** Effective idle auto-shutdown policy (user override, else admin default). */
+  getIdlePolicy(): Observable<SandboxIdlePolicy> {
+    return this.http.get<SandboxIdlePolicy>(`${this.apiUrl}/idle-policy`);
+  }
+
+  saveIdlePolicy(values: SandboxIdlePolicyValues): Observable<SandboxIdlePolicy> {
+    return this.http.put<SandboxIdlePolicy>(`${this.apiUrl}/idle-policy`, values);
+  }
+
+  /** Drop the user's override so the admin default applies. */
+  resetIdlePolicy(): Observable<SandboxIdlePolicy> {
+    return this.http.delete<SandboxIdlePolicy>(`${this.apiUrl}/idle-policy`);
+  }
+
+  /** Admin only: default for users without an override. */
+  saveDefaultIdlePolicy(values: SandboxIdlePolicyValues): Observable<SandboxIdlePolicy> {
+    return this.http.put<SandboxIdlePolicy>(`${this.apiUrl}/idle-policy/default`, values);
+  }
+
+  /** Save the sandbox workspace and agent history as a snapshot of the story (errors are passed on). */
+  createWorkspaceSnapshot(sandboxId: string, storyId: string): Observable<StoryWorkspaceSnapshot> {
+    return this.http.post<StoryWorkspaceSnapshot>(`${this.apiUrl}/${sandboxId}/workspace-snapshots`, { storyId });
+  }
+
+  /** Snapshots of a story, newest first; empty on failure. */
+  listWorkspaceSnapshots(storyId: string): Observable<StoryWorkspaceSnapshot[]> {
+    return this.http.get<{ snapshots: StoryWorkspaceSnapshot[] }>(`${this.snapshotsUrl}/story/${storyId}`).pipe(
+      map(res => res.snapshots ?? []),
+      catchError(error => {
+        console.error('Failed to list workspace snapshots:', error);
+        return of([]);
+      })
+    );
+  }
+
+  deleteWorkspaceSnapshot(snapshotId: string): Observable<boolean> {
+    return this.http.delete(`${this.snapshotsUrl}/${snapshotId}`).pipe(
+      map(() => true),
+      catchError(error => {
+        console.error('Failed to delete workspace snapshot:', error);
+        return of(false);
+      })
+    );
+  }
+
   /**
    * All live Code-Ask sandboxes for this user (repo/branch), for header and similar UIs.
    * Empty on failure so callers can keep a local fallback.
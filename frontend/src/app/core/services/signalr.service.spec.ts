@@ -0,0 +1,85 @@
+import { TestBed } from '@angular/core/testing';
+import * as signalR from '@microsoft/signalr';
+import { APP_CONFIG } from './config.service';
+import { AuthService } from './auth.service';
+import { BoardEvent, SignalRService } from './signalr.service';
+
+describe('SignalRService', () => {
+  let svc: SignalRService;
+  let handlers: Record<string, (payload: unknown) => void>;
+  let onReconnected: () => void;
+  let connection: {
+    state: signalR.HubConnectionState;
+    start: jest.Mock;
+    stop: jest.Mock;
+    invoke: jest.Mock;
+    on: jest.Mock;
+    off: jest.Mock;
+    onreconnecting: jest.Mock;
+    onreconnected: jest.Mock;
+    onclose: jest.Mock;
+  };
+  let withUrl: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    handlers = {};
+    connection = {
+      state: signalR.HubConnectionState.Connected,
+      start: jest.fn().mockResolvedValue(undefined),
+      stop: jest.fn().mockResolvedValue(undefined),
+      invoke: jest.fn().mockResolvedValue(undefined),
+      on: jest.fn((name: string, cb: (payload: unknown) => void) => (handlers[name] = cb)),
+      off: jest.fn(),
+      onreconnecting: jest.fn(),
+      onreconnected: jest.fn((cb: () => void) => (onReconnected = cb)),
+      onclose: jest.fn()
+    };
+    withUrl = jest.spyOn(signalR.HubConnectionBuilder.prototype, 'withUrl');
+    jest.spyOn(signalR.HubConnectionBuilder.prototype, 'build').mockReturnValue(connection as unknown as signalR.HubConnection);
+
+    TestBed.configureTestingModule({
+      providers: [
+        SignalRService,
+        { provide: APP_CONFIG, useValue: { apiUrl: 'http://api.test/api' } },
+        { provide: AuthService, useValue: { getToken: () => 'jwt' } }
+      ]
+    });
+    svc = TestBed.inject(SignalRService);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('connects to the hub next to the API root and joins the board group', async () => {
+    await svc.joinBoardGroup('repo-1');
+    expect(withUrl.mock.calls[0][0]).toBe('http://api.test/hubs/board');
+    expect(connection.invoke).toHaveBeenCalledWith('JoinBoardGroup', 'repo-1');
+  });
+
+  it('filters board events by type', async () => {
+    await svc.joinBoardGroup('repo-1');
+    const moved: BoardEvent[] = [];
+    svc.boardEvent$('storyMoved').subscribe(e => moved.push(e));
+
+    handlers['BoardUpdated']({ type: 'storyDeleted', repositoryId: 'repo-1', storyId: 's1', occurredAt: '' });
+    handlers['BoardUpdated']({ type: 'storyMoved', repositoryId: 'repo-1', storyId: 's2', status: 'Done', occurredAt: '' });
+
+    expect(moved.map(e => e.type)).toEqual(['storyMoved']);
+  });
+
+  it('re-joins remembered groups after a reconnect, then asks for a resync', async () => {
+    await svc.joinBoardGroup('repo-1');
+    await svc.joinBoardGroup('repo-2');
+    await svc.leaveBoardGroup('repo-2');
+    connection.invoke.mockClear();
+
+    const resync = jest.fn();
+    svc.resyncNeeded$.subscribe(resync);
+    onReconnected();
+    await Promise.resolve();
+    await Promise.resolve();
+
+    expect(connection.invoke.mock.calls).toEqual([['JoinBoardGroup', 'repo-1']]);
+    expect(resync).toHaveBeenCalledTimes(1);
+  });
+});
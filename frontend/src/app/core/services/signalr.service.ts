@@ -1,6 +1,95 @@
-import { Injectable } from '@angular/core';
+import { Inject, Injectable } from '@angular/core';
 import * as signalR from '@microsoft/signalr';
-import { Subject } from 'rxjs';
+import { Observable, Subject, filter } from 'rxjs';
+import { APP_CONFIG, AppConfig } from './config.service';
+import { AuthService } from './auth.service';
+
+interface BoardEventBase {
+  repositoryId: string;
+  /** ISO timestamp set by the API. */
+  occurredAt: string;
+}
+
+export interface StoryCreatedEvent extends BoardEventBase {
+  type: 'storyCreated';
+  storyId: string;
+  featureId: string;
+}
+
+export interface StoryUpdatedEvent extends BoardEventBase {
+  type: 'storyUpdated';
+  storyId: string;
+}
+
+export interface StoryMovedEvent extends BoardEventBase {
+  type: 'storyMoved';
+  storyId: string;
+  status: string;
+  prUrl?: string | null;
+}
+
+export interface StoryDeletedEvent extends BoardEventBase {
+  type: 'storyDeleted';
+  storyId: string;
+}
+
+export interface PrStatusChangedEvent extends BoardEventBase {
+  type: 'prStatusChanged';
+  storyId: string;
+  status: string;
+  prUrl?: string | null;
+  merged: boolean;
+}
+
+export interface SyncFinishedEvent extends BoardEventBase {
+  type: 'syncFinished';
+  provider: 'AzureDevOps' | 'GitHub';
+  direction: 'import' | 'export' | 'both';
+}
+
+/** Epics / features were added, edited or removed (or a whole backlog was created); clients reload. */
+export interface BacklogChangedEvent extends BoardEventBase {
+  type: 'backlogChanged';
+}
+
+/**
+ * Payloads of the hub's `BoardUpdated` message, sent to everyone viewing a repository board.
+ * Discriminated on `type`; see `BoardEventPublisher` in the API for the server side.
+ */
+export type BoardEvent =
+  | StoryCreatedEvent
+  | StoryUpdatedEvent
+  | StoryMovedEvent
+  | StoryDeletedEvent
+  | PrStatusChangedEvent
+  | SyncFinishedEvent
+  | BacklogChangedEvent;
+
+export type BoardEventType = BoardEvent['type'];
+
+/** One connection on a repository board (a user with two tabs open appears twice). */
+export interface BoardPresenceViewer {
+  connectionId: string;
+  userId: string;
+  displayName: string;
+  /** Story open in the edit modal. */
+  editingStoryId: string | null;
+  /** Stories with an implementation sandbox open. */
+  implementingStoryIds: string[];
+}
+
+/** Payload of the hub's `PresenceChanged` message: everyone currently on the board. */
+export interface BoardPresenceEvent {
+  repositoryId: string;
+  viewers: BoardPresenceViewer[];
+}
+
+/** Backoff between reconnect attempts; the last delay repeats, so the client never gives up. */
+const RECONNECT_DELAYS_MS = [0, 2000, 5000, 10000, 30000];
+
+function reconnectDelay(previousRetryCount: number): number {
+  return RECONNECT_DELAYS_MS[Math.min(previousRetryCount, RECONNECT_DELAYS_MS.length - 1)];
+}
 
 /**
  * SignalR service for real-time communication with backend
@@ -13,8 +102,39 @@ export class SignalRService {
   private connection?: signalR.HubConnection;
   private connectionSubject = new Subject<boolean>();
   public connectionStatus$ = this.connectionSubject.asObservable();
+  private readonly hubUrl: string;
+
+  /** Board groups to re-join after the connection comes back (the server forgets groups on reconnect). */
+  private readonly joinedBoardGroups = new Set<string>();
+  private startRetryTimer?: ReturnType<typeof setTimeout>;
+  private startRetryCount = 0;
 
-  constructor() {}
+  private readonly boardEventsSubject = new Subject<BoardEvent>();
+  private readonly presenceSubject = new Subject<BoardPresenceEvent>();
+  private readonly resyncSubject = new Subject<void>();
+
+  /** Every board event received, for all joined repositories. */
+  readonly boardEvents$: Observable<BoardEvent> = this.boardEventsSubject.asObservable();
+  readonly presence$: Observable<BoardPresenceEvent> = this.presenceSubject.asObservable();
+  /**
+   * Emits after the connection came back and board groups were re-joined.
+   * Events sent while offline are lost, so subscribers should reload what they show.
+   */
+  readonly resyncNeeded$: Observable<void> = this.resyncSubject.asObservable();
+
+  constructor(@Inject(APP_CONFIG) config: AppConfig, private authService: AuthService) {
+    // Hubs are mapped next to the API root (http://host/api -> http://host/hubs/board)
+    this.hubUrl = `${config.apiUrl.replace(/\/api\/?$/, '')}/hubs/board`;
+  }
+
+  /**
+   * Board events of one type, typed by the `type` discriminator
+   */
+  boardEvent$<T extends BoardEventType>(type: T): Observable<Extract<BoardEvent, { type: T }>> {
+    return this.boardEvents$.pipe(
+      filter((event): event is Extract<BoardEvent, { type: T }> => event.type === type)
+    );
+  }
 
   /**
    * Start SignalR connection
@@ -25,54 +145,99 @@ export class SignalRService {
     }
 
     this.connection = new signalR.HubConnectionBuilder()
-      .withUrl('http://localhost:5000/hubs/board')
-      .withAutomaticReconnect()
+      .withUrl(this.hubUrl, { accessTokenFactory: () => this.authService.getToken() ?? '' })
+      .withAutomaticReconnect({ nextRetryDelayInMilliseconds: ctx => reconnectDelay(ctx.previousRetryCount) })
       .build();
 
-    try {
-      await this.connection.start();
-      this.connectionSubject.next(true);
-      console.log('SignalR connection started');
-    } catch (err) {
-      console.error('Error starting SignalR connection:', err);
-      this.connectionSubject.next(false);
-    }
+    this.connection.on('BoardUpdated', (event: BoardEvent) => this.boardEventsSubject.next(event));
+    this.connection.on('PresenceChanged', (event: BoardPresenceEvent) => this.presenceSubject.next(event));
 
     // Handle reconnection
     this.connection.onreconnecting(() => {
       console.log('SignalR reconnecting...');
+      this.connectionSubject.next(false);
     });
 
     this.connection.onreconnected(() => {
       console.log('SignalR reconnected');
       this.connectionSubject.next(true);
+      void this.rejoinBoardGroups();
     });
 
     this.connection.onclose(() => {
       console.log('SignalR connection closed');
       this.connectionSubject.next(false);
     });
+
+    await this.tryStart();
+  }
+
+  /**
+   * First start; automatic reconnect only covers connections that were up once, so failures are retried here.
+   */
+  private async tryStart(): Promise<boolean> {
+    const connection = this.connection;
+    if (!connection) return false;
+    try {
+      await connection.start();
+      this.startRetryCount = 0;
+      this.connectionSubject.next(true);
+      console.log('SignalR connection started');
+      return true;
+    } catch (err) {
+      console.error('Error starting SignalR connection:', err);
+      this.connectionSubject.next(false);
+      this.startRetryTimer = setTimeout(async () => {
+        this.startRetryTimer = undefined;
+        if (this.connection !== connection) return;
+        if (await this.tryStart()) {
+          await this.rejoinBoardGroups();
+        }
+      }, reconnectDelay(++this.startRetryCount));
+      return false;
+    }
+  }
+
+  private async rejoinBoardGroups(): Promise<void> {
+    const connection = this.connection;
+    if (!connection) return;
+    for (const repositoryId of this.joinedBoardGroups) {
+      try {
+        await connection.invoke('JoinBoardGroup', repositoryId);
+      } catch (err) {
+        console.warn(`SignalR could not re-join board group ${repositoryId}:`, err);
+      }
+    }
+    this.resyncSubject.next();
   }
 
   /**
    * Stop SignalR connection
    */
   async stopConnection(): Promise<void> {
+    if (this.startRetryTimer) {
+      clearTimeout(this.startRetryTimer);
+      this.startRetryTimer = undefined;
+    }
+    this.joinedBoardGroups.clear();
     if (this.connection) {
-      await this.connection.stop();
+      const connection = this.connection;
       this.connection = undefined;
+      await connection.stop();
       this.connectionSubject.next(false);
     }
   }
 
   /**
-   * Join a board group for a specific repository
+   * Join a board group for a specific repository.
+   * The group is remembered, so it is joined again after a reconnect even if this first call fails.
    */
   async joinBoardGroup(repositoryId: string): Promise<void> {
+    this.joinedBoardGroups.add(repositoryId);
     if (!this.connection) {
       await this.startConnection();
     }
-    if (this.connection) {
+    if (this.connection?.state === signalR.HubConnectionState.Connected) {
       await this.connection.invoke('JoinBoardGroup', repositoryId);
     }
   }
@@ -81,15 +246,16 @@ export class SignalRService {
    * Leave a board group
    */
   async leaveBoardGroup(repositoryId: string): Promise<void> {
-    if (this.connection) {
+    this.joinedBoardGroups.delete(repositoryId);
+    if (this.connection?.state === signalR.HubConnectionState.Connected) {
       await this.connection.invoke('LeaveBoardGroup', repositoryId);
     }
   }
 
   /**
-   * Subscribe to board updates
+   * Subscribe to board updates (all event types; prefer `boardEvents$` / `boardEvent$()`)
    */
-  onBoardUpdate(callback: (data: any) => void): void {
+  onBoardUpdate(callback: (data: BoardEvent) => void): void {
     if (this.connection) {
       this.connection.on('BoardUpdated', callback);
     }
@@ -98,12 +264,30 @@ export class SignalRService {
   /**
    * Unsubscribe from board updates
    */
-  offBoardUpdate(callback: (data: any) => void): void {
+  offBoardUpdate(callback: (data: BoardEvent) => void): void {
     if (this.connection) {
       this.connection.off('BoardUpdated', callback);
     }
   }
 
+  /**
+   * Tell the board which story this client has open in the edit modal (null when closed)
+   */
+  async setEditingStory(repositoryId: string, storyId: string | null): Promise<void> {
+    if (this.connection?.state === signalR.HubConnectionState.Connected) {
+      await this.connection.invoke('SetEditingStory', repositoryId, storyId);
+    }
+  }
+
+  /**
+   * Tell the board which stories this client is running sandboxes for
+   */
+  async setImplementingStories(repositoryId: string, storyIds: string[]): Promise<void> {
+    if (this.connection?.state === signalR.HubConnectionState.Connected) {
+      await this.connection.invoke('SetImplementingStories', repositoryId, storyIds);
+    }
+  }
+
   /**
    * Get the underlying SignalR connection
    */
@@ -0,0 +1,69 @@
+import { Sprint } from '../../shared/models/sprint.model';
+import { UserStory } from '../../shared/models/user-story.model';
+import { averageVelocity, summarizeSprint, velocitySeries } from './sprint-planning';
+
+describe('sprint planning', () => {
+  const sprint = (id: string, extra: Partial<Sprint> = {}): Sprint => ({
+    id,
+    repositoryId: 'r1',
+    name: id.toUpperCase(),
+    status: 'Planned',
+    createdAt: '',
+    ...extra
+  });
+
+  const story = (id: string, sprintId: string | null, storyPoints?: number, status = 'Backlog'): UserStory => ({
+    id, title: id, featureId: 'f1', status, storyPoints, sprintId, createdAt: '', tasks: []
+  });
+
+  it('sums committed and done points of the stories in the sprint', () => {
+    const stories = [story('a', 's1', 5, 'Done'), story('b', 's1', 3), story('c', 's1'), story('d', 's2', 8)];
+    const summary = summarizeSprint(sprint('s1', { capacityPoints: 10 }), stories);
+    expect(summary).toEqual({
+      storyCount: 3,
+      unestimatedCount: 1,
+      committedPoints: 8,
+      completedPoints: 5,
+      capacityPoints: 10,
+      remainingPoints: 2,
+      overCapacity: false,
+      loadPercent: 80
+    });
+  });
+
+  it('warns when committed points exceed capacity', () => {
+    const summary = summarizeSprint(sprint('s1', { capacityPoints: 5 }), [story('a', 's1', 3), story('b', 's1', 5)]);
+    expect(summary.overCapacity).toBe(true);
+    expect(summary.remainingPoints).toBe(-3);
+    expect(summary.loadPercent).toBe(160);
+  });
+
+  it('has no load without capacity', () => {
+    const summary = summarizeSprint(sprint('s1'), [story('a', 's1', 3)]);
+    expect(summary.overCapacity).toBe(false);
+    expect(summary.remainingPoints).toBeNull();
+    expect(summary.loadPercent).toBeNull();
+  });
+
+  it('uses the snapshot of completed sprints', () => {
+    const done = sprint('s1', { status: 'Completed', committedPoints: 13, completedPoints: 8 });
+    const summary = summarizeSprint(done, []);
+    expect(summary.committedPoints).toBe(13);
+    expect(summary.completedPoints).toBe(8);
+  });
+
+  it('builds the velocity series from completed sprints only', () => {
+    const sprints = [
+      sprint('s1', { status: 'Completed', committedPoints: 10, completedPoints: 8 }),
+      sprint('s2', { status: 'Completed', committedPoints: 12, completedPoints: 12 }),
+      sprint('s3', { status: 'Active' }),
+      sprint('s4', { status: 'Completed', committedPoints: 9, completedPoints: 4 })
+    ];
+    const series = velocitySeries(sprints);
+    expect(series.map(p => p.sprintId)).toEqual(['s1', 's2', 's4']);
+    expect(velocitySeries(sprints, 2).map(p => p.sprintId)).toEqual(['s2', 's4']);
+    expect(averageVelocity(series)).toBe(8);
+    expect(averageVelocity(series, 2)).toBe(8);
+    expect(averageVelocity([])).toBeNull();
+  });
+});
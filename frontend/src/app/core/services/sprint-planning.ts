@@ -0,0 +1,70 @@
+import { Sprint } from '../../shared/models/sprint.model';
+import { UserStory } from '../../shared/models/user-story.model';
+
+/** Points and load of one sprint, as shown in the planning view. */
+export interface SprintSummary {
+  storyCount: number;
+  /** Stories without story points; they count as 0 in every total. */
+  unestimatedCount: number;
+  committedPoints: number;
+  completedPoints: number;
+  capacityPoints: number | null;
+  /** Capacity minus committed points; negative when over capacity, null without capacity. */
+  remainingPoints: number | null;
+  overCapacity: boolean;
+  /** Committed / capacity in percent (may exceed 100), null without a positive capacity. */
+  loadPercent: number | null;
+}
+
+export interface VelocityPoint {
+  sprintId: string;
+  name: string;
+  committed: number;
+  completed: number;
+}
+
+/** Same rule the API uses when snapshotting a completed sprint. */
+export function isStoryDone(story: Pick<UserStory, 'status'>): boolean {
+  return (story.status ?? '').toLowerCase() === 'done';
+}
+
+/**
+ * Summarize a sprint from the stories currently committed to it.
+ * Completed sprints report the points snapshotted when they were closed.
+ */
+export function summarizeSprint(sprint: Sprint, stories: UserStory[]): SprintSummary {
+  const inSprint = stories.filter(s => s.sprintId === sprint.id);
+  const points = (list: UserStory[]) => list.reduce((sum, s) => sum + (s.storyPoints ?? 0), 0);
+
+  const completedSnapshot = sprint.status === 'Completed' && sprint.committedPoints != null;
+  const committedPoints = completedSnapshot ? sprint.committedPoints! : points(inSprint);
+  const completedPoints = completedSnapshot ? sprint.completedPoints ?? 0 : points(inSprint.filter(isStoryDone));
+  const capacityPoints = sprint.capacityPoints ?? null;
+
+  return {
+    storyCount: inSprint.length,
+    unestimatedCount: inSprint.filter(s => s.storyPoints == null).length,
+    committedPoints,
+    completedPoints,
+    capacityPoints,
+    remainingPoints: capacityPoints == null ? null : capacityPoints - committedPoints,
+    overCapacity: capacityPoints != null && committedPoints > capacityPoints,
+    loadPercent: capacityPoints ? Math.round((committedPoints / capacityPoints) * 100) : null
+  };
+}
+
+/** Committed vs completed points of the last `limit` completed sprints, oldest first. */
+export function velocitySeries(sprints: Sprint[], limit = 8): VelocityPoint[] {
+  return sprints
+    .filter(s => s.status === 'Completed' && s.committedPoints != null)
+    .map(s => ({ sprintId: s.id, name: s.name, committed: s.committedPoints ?? 0, completed: s.completedPoints ?? 0 }))
+    .slice(-limit);
+}
+
+/** Average completed points over the last `window` sprints of the series (one decimal), null when empty. */
+export function averageVelocity(series: VelocityPoint[], window = 3): number | null {
+  const recent = series.slice(-window);
+  if (recent.length === 0) return null;
+  const avg = recent.reduce((sum, p) => sum + p.completed, 0) / recent.length;
+  return Math.round(avg * 10) / 10;
+}
@@ -0,0 +1,27 @@
+import { StoryStatusHistoryEntry, describeStatusChange, pullRequestLabel } from './story-status-history';
+
+describe('story status history', () => {
+  const entry = (source: string, changedByName: string | null = null, changedByEmail: string | null = null): StoryStatusHistoryEntry => ({
+    id: '1', fromStatus: 'InProgress', toStatus: 'Done', source, changedByUserId: null,
+    changedByName, changedByEmail, prUrl: null, changedAt: '2026-05-05T10:00:00Z'
+  });
+
+  it('names the user for manual changes', () => {
+    expect(describeStatusChange(entry('User', 'Ada'))).toBe('Ada');
+    expect(describeStatusChange(entry('User', null, 'ada@example.com'))).toBe('ada@example.com');
+    expect(describeStatusChange(entry('User'))).toBe('A user');
+  });
+
+  it('names the source for automated changes', () => {
+    expect(describeStatusChange(entry('PrSync'))).toBe('PR sync');
+    expect(describeStatusChange(entry('Agent', 'Ada'))).toBe('Agent (Ada)');
+    expect(describeStatusChange(entry('GitHubSync', null, 'ada@example.com'))).toBe('GitHub sync (ada@example.com)');
+  });
+
+  it('extracts PR numbers from GitHub and Azure DevOps URLs', () => {
+    expect(pullRequestLabel('https://github.com/o/r/pull/42')).toBe('#42');
+    expect(pullRequestLabel('https://dev.azure.com/org/proj/_git/repo/pullrequest/7')).toBe('#7');
+    expect(pullRequestLabel('https://example.com/review')).toBe('PR');
+    expect(pullRequestLabel(null)).toBeNull();
+  });
+});
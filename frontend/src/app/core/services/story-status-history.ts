@@ -0,0 +1,48 @@
+/** Who or what moved a story; the API only accepts 'User' and 'Agent' from the client. */
+export type StatusChangeSource = 'User' | 'Agent' | 'PrSync' | 'AzureDevOpsSync' | 'GitHubSync' | 'Unknown';
+
+/** One entry of a story's status audit history. */
+export interface StoryStatusHistoryEntry {
+  id: string;
+  fromStatus: string | null;
+  toStatus: string;
+  source: StatusChangeSource | string;
+  changedByUserId: string | null;
+  changedByName: string | null;
+  changedByEmail: string | null;
+  /** PR linked to the story when the change happened. */
+  prUrl: string | null;
+  changedAt: string;
+}
+
+export interface StoryStatusHistoryResponse {
+  storyId: string;
+  /** Newest first. */
+  history: StoryStatusHistoryEntry[];
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  Agent: 'Agent',
+  PrSync: 'PR sync',
+  AzureDevOpsSync: 'Azure DevOps sync',
+  GitHubSync: 'GitHub sync',
+  Unknown: 'Unknown'
+};
+
+/**
+ * Short "who/what" label of a history entry: the user for manual changes,
+ * the source (plus the user who triggered it, when known) otherwise.
+ */
+export function describeStatusChange(entry: StoryStatusHistoryEntry): string {
+  const user = entry.changedByName || entry.changedByEmail;
+  if (entry.source === 'User') return user ?? 'A user';
+  const label = SOURCE_LABELS[entry.source] ?? entry.source;
+  return user ? `${label} (${user})` : label;
+}
+
+/** PR number ("#42") from a GitHub or Azure DevOps pull request URL, or null. */
+export function pullRequestLabel(prUrl: string | null | undefined): string | null {
+  if (!prUrl) return null;
+  const match = /\/pull(?:request)?s?\/(\d+)/i.exec(prUrl);
+  return match ? `#${match[1]}` : 'PR';
+}
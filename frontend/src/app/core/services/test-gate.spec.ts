@@ -0,0 +1,31 @@
+import { appendTestReport, summarizeTestLog, TEST_REPORT_MARKER, toTestGateResult } from './test-gate';
+
+describe('test gate', () => {
+  it('finds the summary line of common runners', () => {
+    expect(summarizeTestLog('PASS a.spec.ts\nTests:       1 failed, 41 passed, 42 total\nTime: 3s')).toBe('Tests: 1 failed, 41 passed, 42 total');
+    expect(summarizeTestLog('\u001b[32m===== 3 passed, 1 skipped in 0.52s =====\u001b[0m')).toBe('3 passed, 1 skipped');
+    expect(summarizeTestLog('Failed!  - Failed:     1, Passed:    41, Skipped:     0, Total:    42, Duration: 3 s - App.Tests.dll (net9.0)'))
+      .toBe('Failed! - Failed: 1, Passed: 41, Skipped: 0, Total: 42');
+    expect(summarizeTestLog('  12 passing (2s)')).toBe('12 passing (2s)');
+    expect(summarizeTestLog('make: *** [test] Error 2')).toBeNull();
+  });
+
+  it('falls back to the exit code when no summary is found', () => {
+    const result = toTestGateResult({ state: 'failed', command: 'make test', exit_code: 2, duration_seconds: 4.2 }, 'boom\n');
+    expect(result).toEqual(expect.objectContaining({ passed: false, summary: 'Tests failed (exit code 2)', exitCode: 2 }));
+  });
+
+  it('appends the report to the PR body and replaces an earlier one', () => {
+    const failed = toTestGateResult({ state: 'failed', command: 'npm test', exit_code: 1, duration_seconds: 12 }, 'Tests: 1 failed, 1 total\n');
+    const body = appendTestReport('## Implements\n\nText\n', failed);
+    expect(body.startsWith('## Implements\n\nText\n\n' + TEST_REPORT_MARKER)).toBe(true);
+    expect(body).toContain('❌ Failed: Tests: 1 failed, 1 total in 12s');
+    expect(body).toContain('<details>');
+
+    const passed = toTestGateResult({ state: 'passed', command: 'npm test', exit_code: 0, duration_seconds: null }, '');
+    const again = appendTestReport(body, passed);
+    expect(again.split(TEST_REPORT_MARKER)).toHaveLength(2);
+    expect(again).toContain('✅ Passed: Tests passed');
+    expect(again).not.toContain('<details>');
+  });
+});
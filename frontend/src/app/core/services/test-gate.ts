@@ -0,0 +1,79 @@
+import { TestRunStatusResponse } from './sandbox-bridge.service';
+
+/** Outcome of the pre-PR test run, as shown in the push dialog and appended to the PR body. */
+export interface TestGateResult {
+  passed: boolean;
+  command: string;
+  summary: string;
+  exitCode: number | null;
+  durationSeconds: number | null;
+  log: string;
+}
+
+/** Marks the generated section so a second run replaces it instead of appending another one. */
+export const TEST_REPORT_MARKER = '<!-- devpilot:test-results -->';
+const REPORT_LOG_LINES = 40;
+
+const ANSI_ESCAPE = /\u001b\[[0-9;]*[A-Za-z]/g;
+
+/** Recognized runner summary lines, checked against the log from the end. */
+const SUMMARY_PATTERNS: { pattern: RegExp; group: number }[] = [
+  // jest / vitest: "Tests:       1 failed, 41 passed, 42 total"
+  { pattern: /^\s*(Tests:\s+.*\d+ total)\s*$/, group: 1 },
+  // dotnet test: "Failed!  - Failed: 1, Passed: 41, Skipped: 0, Total: 42, Duration: 3 s - App.Tests.dll (net9.0)"
+  { pattern: /^\s*((?:Passed|Failed)!\s+-\s+Failed:\s*\d+.*?Total:\s*\d+)/, group: 1 },
+  // pytest: "===== 1 failed, 41 passed in 2.31s ====="
+  { pattern: /^=+ ((?:\d+ \w+,? ?)+) in [\d.]+s.*=+$/, group: 1 },
+  // mocha: "  41 passing (2s)"
+  { pattern: /^\s*(\d+ passing \([^)]*\))\s*$/, group: 1 }
+];
+
+/** The runner's own summary line (jest, vitest, pytest, dotnet test, mocha), or null when none was found. */
+export function summarizeTestLog(log: string): string | null {
+  const lines = log.replace(ANSI_ESCAPE, '').split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    for (const { pattern, group } of SUMMARY_PATTERNS) {
+      const match = pattern.exec(lines[i]);
+      if (match) return match[group].trim().replace(/\s{2,}/g, ' ');
+    }
+  }
+  return null;
+}
+
+/** True while the viewer should keep polling /tests/status. */
+export function isTestRunActive(status: TestRunStatusResponse | null): boolean {
+  return !status || status.state === 'running';
+}
+
+export function toTestGateResult(status: TestRunStatusResponse, log: string): TestGateResult {
+  const passed = status.state === 'passed';
+  const exitCode = status.exit_code ?? null;
+  return {
+    passed,
+    command: status.command ?? '',
+    summary: summarizeTestLog(log) ?? (passed ? 'Tests passed' : `Tests failed (exit code ${exitCode ?? 'unknown'})`),
+    exitCode,
+    durationSeconds: status.duration_seconds ?? null,
+    log
+  };
+}
+
+/** PR body with the test section appended; a section from an earlier run is replaced. */
+export function appendTestReport(body: string, result: TestGateResult): string {
+  const markerAt = body.indexOf(TEST_REPORT_MARKER);
+  const base = (markerAt >= 0 ? body.slice(0, markerAt) : body).trimEnd();
+  const duration = result.durationSeconds != null ? ` in ${Math.round(result.durationSeconds)}s` : '';
+  const section = [
+    TEST_REPORT_MARKER,
+    '## Test results',
+    '',
+    `${result.passed ? '✅ Passed' : '❌ Failed'}: ${result.summary}${duration}`,
+    '',
+    `Command: \`${result.command}\``
+  ];
+  if (!result.passed) {
+    const tail = result.log.replace(ANSI_ESCAPE, '').trimEnd().split('\n').slice(-REPORT_LOG_LINES).join('\n');
+    section.push('', '<details><summary>Test output (last lines)</summary>', '', '```', tail, '```', '', '</details>');
+  }
+  return (base ? base + '\n\n' : '') + section.join('\n') + '\n';
+}
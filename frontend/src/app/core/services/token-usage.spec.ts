@@ -0,0 +1,55 @@
+import { budgetPercent, formatCost, formatTokens, parseAmount, rollUpUsage, topUsage } from './token-usage';
+
+describe('token usage', () => {
+  const row = (storyId: string | null, epicId: string | null, userId: string | null, cost: number, tokens = 100) => ({
+    storyId,
+    epicId,
+    userId,
+    promptTokens: tokens,
+    completionTokens: tokens / 2,
+    cost,
+    turns: 1
+  });
+
+  it('rolls usage up per story, epic, user and repository', () => {
+    const rollup = rollUpUsage([
+      row('s1', 'e1', 'u1', 0.5),
+      row('s1', 'e1', 'u2', 0.25),
+      row('s2', 'e1', 'u1', 1),
+      row('s3', null, 'u1', 0)
+    ]);
+    expect(rollup.repository).toEqual({ promptTokens: 400, completionTokens: 200, cost: 1.75, turns: 4 });
+    expect(rollup.byStory.get('s1')).toEqual({ promptTokens: 200, completionTokens: 100, cost: 0.75, turns: 2 });
+    expect(rollup.byEpic.get('e1')?.cost).toBe(1.75);
+    expect(rollup.byEpic.size).toBe(1);
+    expect(rollup.byUser.get('u1')?.turns).toBe(3);
+  });
+
+  it('sorts the most expensive entries first, then by tokens', () => {
+    const rollup = rollUpUsage([row('a', null, null, 0.1), row('b', null, null, 2), row('c', null, null, 0.1, 500)]);
+    expect(topUsage(rollup.byStory, 2).map(e => e.id)).toEqual(['b', 'c']);
+  });
+
+  it('formats tokens and cost', () => {
+    expect(formatTokens(850)).toBe('850');
+    expect(formatTokens(12_345)).toBe('12.3k');
+    expect(formatTokens(250_000)).toBe('250k');
+    expect(formatTokens(4_500_000)).toBe('4.5M');
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(0.004)).toBe('<$0.01');
+    expect(formatCost(12.3)).toBe('$12.30');
+  });
+
+  it('measures the budget against the hard limit, else the soft limit', () => {
+    expect(budgetPercent({ spent: 25, monthlySoftLimit: 40, monthlyHardLimit: 100 })).toBe(25);
+    expect(budgetPercent({ spent: 30, monthlySoftLimit: 20, monthlyHardLimit: null })).toBe(100);
+    expect(budgetPercent({ spent: 30, monthlySoftLimit: null, monthlyHardLimit: null })).toBeNull();
+  });
+
+  it('treats a blank amount as none', () => {
+    expect(parseAmount('')).toBeNull();
+    expect(parseAmount(null)).toBeNull();
+    expect(parseAmount(' 12.5 ')).toBe(12.5);
+    expect(parseAmount('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+/** Usage of one (story, epic, user) group of a repository; cost in USD. */
+export interface TokenUsageTotals {
+  storyId: string | null;
+  epicId: string | null;
+  userId: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  turns: number;
+}
+
+/** GET /usage/repository/{id} */
+export interface RepositoryUsageResponse {
+  totals: TokenUsageTotals[];
+  users: { id: string; name: string }[];
+}
+
+export type UsageBudgetState = 'Ok' | 'SoftLimitReached' | 'HardLimitReached';
+
+/** GET /usage/budget: the signed-in user's spend this month (UTC calendar month). */
+export interface UsageBudgetStatus {
+  monthStart: string;
+  promptTokens: number;
+  completionTokens: number;
+  spent: number;
+  monthlySoftLimit: number | null;
+  monthlyHardLimit: number | null;
+  state: UsageBudgetState;
+  /** Where the limits come from: the user's own budget, the admin default, or none. */
+  source: 'user' | 'admin' | 'none';
+}
+
+export interface UsageBudgetValues {
+  monthlySoftLimit: number | null;
+  monthlyHardLimit: number | null;
+}
+
+export interface UserUsageBudget {
+  userId: string;
+  name: string | null;
+  email: string;
+  /** The user's own budget; null when the default applies. */
+  budget: UsageBudgetValues | null;
+  promptTokens: number;
+  completionTokens: number;
+  spent: number;
+  state: UsageBudgetState;
+}
+
+/** GET /usage/budgets (admin) */
+export interface UsageBudgetsResponse {
+  monthStart: string;
+  default: UsageBudgetValues | null;
+  users: UserUsageBudget[];
+}
+
+export interface UsageSum {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  turns: number;
+}
+
+export interface UsageRollup {
+  repository: UsageSum;
+  byStory: Map<string, UsageSum>;
+  byEpic: Map<string, UsageSum>;
+  byUser: Map<string, UsageSum>;
+}
+
+export function emptyUsage(): UsageSum {
+  return { promptTokens: 0, completionTokens: 0, cost: 0, turns: 0 };
+}
+
+/** Sums the repository's usage groups per story, epic and user. */
+export function rollUpUsage(totals: TokenUsageTotals[]): UsageRollup {
+  const rollup: UsageRollup = { repository: emptyUsage(), byStory: new Map(), byEpic: new Map(), byUser: new Map() };
+  const add = (map: Map<string, UsageSum>, key: string | null, row: TokenUsageTotals) => {
+    if (!key) return;
+    let sum = map.get(key);
+    if (!sum) map.set(key, (sum = emptyUsage()));
+    addInto(sum, row);
+  };
+  for (const row of totals) {
+    addInto(rollup.repository, row);
+    add(rollup.byStory, row.storyId, row);
+    add(rollup.byEpic, row.epicId, row);
+    add(rollup.byUser, row.userId, row);
+  }
+  return rollup;
+}
+
+function addInto(sum: UsageSum, row: UsageSum): void {
+  sum.promptTokens += row.promptTokens;
+  sum.completionTokens += row.completionTokens;
+  sum.cost += row.cost;
+  sum.turns += row.turns;
+}
+
+/** Entries of a rollup map sorted by cost, then tokens, most expensive first. */
+export function topUsage(map: Map<string, UsageSum>, limit: number): Array<{ id: string; usage: UsageSum }> {
+  return [...map.entries()]
+    .map(([id, usage]) => ({ id, usage }))
+    .sort((a, b) => b.usage.cost - a.usage.cost || totalTokens(b.usage) - totalTokens(a.usage))
+    .slice(0, limit);
+}
+
+export function totalTokens(usage: Pick<UsageSum, 'promptTokens' | 'completionTokens'>): number {
+  return usage.promptTokens + usage.completionTokens;
+}
+
+/** `850`, `12.3k`, `4.5M` */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(Math.round(tokens));
+  if (tokens < 1_000_000) return `${trimDecimal(tokens / 1000)}k`;
+  return `${trimDecimal(tokens / 1_000_000)}M`;
+}
+
+/** `$0.42`, `$12.30`, `<$0.01` for tiny non-zero amounts. */
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return '<$0.01';
+  return `$${cost.toFixed(2)}`;
+}
+
+/** Share of the hard limit (else soft limit) spent, capped at 100; null without limits. */
+export function budgetPercent(status: Pick<UsageBudgetStatus, 'spent' | 'monthlySoftLimit' | 'monthlyHardLimit'>): number | null {
+  const limit = status.monthlyHardLimit ?? status.monthlySoftLimit;
+  if (limit == null) return null;
+  if (limit <= 0) return 100;
+  return Math.min(100, Math.round((status.spent / limit) * 100));
+}
+
+/** Parses an amount typed in a form (limit, price): blank means none. */
+export function parseAmount(value: string | number | null | undefined): number | null {
+  if (value == null) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+  const n = Number(text);
+  return Number.isFinite(n) ? n : null;
+}
+
+function trimDecimal(value: number): string {
+  return value >= 100 ? String(Math.round(value)) : String(Math.round(value * 10) / 10);
+}
@@ -0,0 +1,42 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { ApiService } from './api.service';
+import {
+  RepositoryUsageResponse,
+  UsageBudgetStatus,
+  UsageBudgetValues,
+  UsageBudgetsResponse
+} from './token-usage';
+
+/** Token usage and cost of agent turns, and monthly AI budgets (admin endpoints under /usage/budgets). */
+@Injectable({
+  providedIn: 'root'
+})
+export class UsageService {
+  constructor(private apiService: ApiService) {}
+
+  getRepositoryUsage(repositoryId: string): Observable<RepositoryUsageResponse> {
+    return this.apiService.get<RepositoryUsageResponse>(`/usage/repository/${repositoryId}`);
+  }
+
+  getMyBudget(): Observable<UsageBudgetStatus> {
+    return this.apiService.get<UsageBudgetStatus>('/usage/budget');
+  }
+
+  getBudgets(): Observable<UsageBudgetsResponse> {
+    return this.apiService.get<UsageBudgetsResponse>('/usage/budgets');
+  }
+
+  saveDefaultBudget(values: UsageBudgetValues): Observable<UsageBudgetsResponse> {
+    return this.apiService.put<UsageBudgetsResponse>('/usage/budgets/default', values);
+  }
+
+  saveUserBudget(userId: string, values: UsageBudgetValues): Observable<UsageBudgetsResponse> {
+    return this.apiService.put<UsageBudgetsResponse>(`/usage/budgets/users/${userId}`, values);
+  }
+
+  /** Removes the user's own budget so the default applies again. */
+  resetUserBudget(userId: string): Observable<UsageBudgetsResponse> {
+    return this.apiService.delete<UsageBudgetsResponse>(`/usage/budgets/users/${userId}`);
+  }
+}
@@ -0,0 +1,57 @@
+import { TestBed } from '@angular/core/testing';
+import { firstValueFrom, of, throwError } from 'rxjs';
+import { APP_CONFIG } from './config.service';
+import { ApiService } from './api.service';
+import { VncViewerService, withVncTicket } from './vnc-viewer.service';
+
+describe('VncViewerService', () => {
+  const post = jest.fn();
+
+  const create = () => {
+    TestBed.configureTestingModule({
+      providers: [
+        VncViewerService,
+        { provide: APP_CONFIG, useValue: { apiUrl: '/api' } },
+        { provide: ApiService, useValue: { post } },
+      ],
+    });
+    return TestBed.inject(VncViewerService);
+  };
+
+  /** The websockify path as noVNC reads it (it decodes the `path` query value). */
+  const socketPath = (url: string) => new URL(url, 'https://devpilot.example/').searchParams.get('path');
+
+  afterEach(() => post.mockReset());
+
+  it('buildVncUrl keeps credentials out of the noVNC page url', () => {
+    const url = create().buildVncUrl('sb-1', 'p@ss');
+
+    expect(url.startsWith('/api/sandboxes/sb-1/vnc/vnc_lite.html?')).toBe(true);
+    expect(socketPath(url)).toBe('api/sandboxes/sb-1/vnc/websockify');
+    expect(url).toContain('password=p%40ss');
+    expect(url).not.toContain('access_token');
+  });
+
+  it('withVncTicket puts the ticket on the websockify path and replaces an earlier one', () => {
+    const url = create().buildVncUrl('sb-1', 'pw');
+
+    const first = withVncTicket(url, 'a.1.x+y');
+    expect(socketPath(first)).toBe('api/sandboxes/sb-1/vnc/websockify?ticket=a.1.x%2By');
+    expect(first).toContain('password=pw');
+
+    expect(socketPath(withVncTicket(first, 'b.2.z'))).toBe('api/sandboxes/sb-1/vnc/websockify?ticket=b.2.z');
+  });
+
+  it('vncUrlWithTicket fetches a fresh ticket for each load and falls back to the bare url', async () => {
+    const svc = create();
+    const url = svc.buildVncUrl('sb-1');
+
+    post.mockReturnValueOnce(of({ ticket: 't1', expiresAt: '2026-10-19T12:00:00Z' }));
+    expect(socketPath(await firstValueFrom(svc.vncUrlWithTicket('sb-1', url))))
+      .toBe('api/sandboxes/sb-1/vnc/websockify?ticket=t1');
+    expect(post).toHaveBeenCalledWith('/sandboxes/sb-1/vnc/ticket', null);
+
+    post.mockReturnValueOnce(throwError(() => new Error('offline')));
+    expect(await firstValueFrom(svc.vncUrlWithTicket('sb-1', url))).toBe(url);
+  });
+});
@@ -1,11 +1,15 @@
 import { Injectable, Inject } from '@angular/core';
-import { BehaviorSubject, Observable, Subject } from 'rxjs';
+import { BehaviorSubject, Observable, Subject, catchError, map, of } from 'rxjs';
 import { VncConfig } from '../../shared/models/vnc-config.model';
 import { APP_CONFIG, AppConfig } from './config.service';
+import { ApiService } from './api.service';
 
 /** tiled = dock grid in bottom tray; floating = free window; new sandboxes start minimized */
 export type DockPosition = 'floating' | 'tiled' | 'right' | 'bottom' | 'minimized';
 
+/** Content of a viewer: agent chat, the VNC desktop, both side by side, the web terminal, or the app preview */
+export type VncViewMode = 'sandbox' | 'split' | 'chat' | 'terminal' | 'preview';
+
 /** Context when sandbox was opened for implementing a user story */
 export interface ImplementationContext {
   repositoryId: string;
@@ -29,7 +33,7 @@ export interface VncViewer {
   implementationContext?: ImplementationContext;
   readyForPr?: boolean;
   connectionState?: string;
-  viewMode?: 'sandbox' | 'split' | 'chat';
+  viewMode?: VncViewMode;
   /**
    * When true, minimize / tray collapse removes the viewer UI without placing a chip in the
    * bottom sandbox dock (container keeps running; use e.g. Code Ask “Open desktop” to show again).
@@ -42,6 +46,23 @@ export interface OpenVncViewerOptions {
   hideMinimizedTray?: boolean;
 }
 
+/** POST /sandboxes/{id}/vnc/ticket: lets one noVNC page load connect to the desktop stream. */
+export interface VncTicket {
+  ticket: string;
+  expiresAt: string;
+}
+
+/**
+ * `url` with `ticket` on its websockify `path` (noVNC decodes `path`, so the ticket's query string is encoded
+ * into it). Replaces an earlier ticket, so a reload can swap in a fresh one.
+ */
+export function withVncTicket(url: string, ticket: string): string {
+  return url.replace(/([?&]path=)([^&]*)/, (_, prefix: string, value: string) => {
+    const wsPath = decodeURIComponent(value).replace(/\?ticket=.*$/, '');
+    return prefix + encodeURIComponent(`${wsPath}?ticket=${encodeURIComponent(ticket)}`);
+  });
+}
+
 /**
  * Service for managing multiple VNC viewer instances
  * Limited to MAX_SANDBOXES concurrent viewers
@@ -69,14 +90,15 @@ export class VncViewerService {
   viewers$: Observable<VncViewer[]> = this.viewersSubject.asObservable();
   viewerClosed$: Observable<string> = this.viewerClosedSubject.asObservable();
 
-  constructor(@Inject(APP_CONFIG) config: AppConfig) {
+  constructor(@Inject(APP_CONFIG) config: AppConfig, private apiService: ApiService) {
     this.apiUrl = config.apiUrl;
   }
 
   /**
    * Build the proxied VNC iframe URL for a given sandbox ID.
    * noVNC static files are served through /api/sandboxes/{id}/vnc/…
-   * and websockify goes through /api/sandboxes/{id}/vnc/websockify.
+   * and websockify goes through /api/sandboxes/{id}/vnc/websockify, which needs a ticket:
+   * load the URL through {@link vncUrlWithTicket}.
    */
   buildVncUrl(sandboxId: string, vncPassword?: string): string {
     const wsPath = `api/sandboxes/${sandboxId}/vnc/websockify`;
@@ -87,6 +109,18 @@ export class VncViewerService {
     return url;
   }
 
+  /**
+   * `url` (from {@link buildVncUrl}) with a fresh, short-lived ticket for the desktop stream; fetch one for every
+   * (re)load of the noVNC page. Emits `url` unchanged when no ticket can be had (the stream then stays closed
+   * until the next reload).
+   */
+  vncUrlWithTicket(sandboxId: string, url: string): Observable<string> {
+    return this.apiService.post<VncTicket>(`/sandboxes/${encodeURIComponent(sandboxId)}/vnc/ticket`, null).pipe(
+      map(({ ticket }) => withVncTicket(url, ticket)),
+      catchError(() => of(url))
+    );
+  }
+
   get viewers(): VncViewer[] {
     return this.viewersSubject.value;
   }
@@ -216,6 +250,16 @@ export class VncViewerService {
     this.viewersSubject.next(viewers);
   }
 
+  /**
+   * Remove the viewer of a sandbox that was already stopped (idle auto-shutdown). Drops the stored
+   * context so it is not restored, without the delete that {@link close} triggers.
+   */
+  dismissStoppedViewer(viewerId: string): void {
+    if (!this.viewersSubject.value.some(v => v.id === viewerId)) return;
+    this.removeStoredContext(viewerId);
+    this.viewersSubject.next(this.viewersSubject.value.filter(v => v.id !== viewerId));
+  }
+
   close(viewerId: string): void {
     const viewer = this.viewersSubject.value.find(v => v.id === viewerId);
     if (viewer) {
@@ -280,7 +324,7 @@ export class VncViewerService {
     this.viewersSubject.next(viewers);
   }
 
-  setViewMode(viewerId: string, mode: 'sandbox' | 'split' | 'chat'): void {
+  setViewMode(viewerId: string, mode: VncViewMode): void {
     const viewers = this.viewersSubject.value.map(v =>
       v.id === viewerId ? { ...v, viewMode: mode } : v
     );
@@ -0,0 +1,72 @@
+import { buildPatch, diffUnitKeys, isLockfile, parseUnifiedDiff } from './working-tree-diff';
+
+const DIFF = [
+  'diff --git a/a.txt b/a.txt',
+  'index 1c99002..ac56d6d 100644',
+  '--- a/a.txt',
+  '+++ b/a.txt',
+  '@@ -1,6 +1,6 @@',
+  ' 1',
+  ' 2',
+  '-3',
+  '+three',
+  ' 4',
+  '@@ -32,7 +32,7 @@',
+  ' 34',
+  '-35',
+  '+thirtyfive',
+  ' 36',
+  'diff --git a/bin.dat b/bin.dat',
+  'new file mode 100644',
+  'index 0000000000000000000000000000000000000000..8352675d67aed6625ece79af41c27fdb4ee2e867',
+  'GIT binary patch',
+  'literal 3',
+  'KcmZQzWC8#H2LJ>B',
+  '',
+  'literal 0',
+  'HcmV?d00001',
+  '',
+  'diff --git a/old name.txt b/docs/new name.txt',
+  'similarity index 100%',
+  'rename from old name.txt',
+  'rename to docs/new name.txt',
+  'diff --git a/package-lock.json b/package-lock.json',
+  'deleted file mode 100644',
+  'index 27c61aa..0000000',
+  '--- a/package-lock.json',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-lock1',
+  ''
+].join('\n');
+
+describe('working tree diff', () => {
+  it('splits files and hunks', () => {
+    const files = parseUnifiedDiff(DIFF);
+    expect(files.map(f => [f.path, f.status, f.binary, f.hunks.length, f.additions, f.deletions])).toEqual([
+      ['a.txt', 'modified', false, 2, 2, 2],
+      ['bin.dat', 'added', true, 0, 0, 0],
+      ['docs/new name.txt', 'renamed', false, 0, 0, 0],
+      ['package-lock.json', 'deleted', false, 1, 0, 1]
+    ]);
+    expect(files[2].oldPath).toBe('old name.txt');
+    expect(diffUnitKeys(files[0])).toEqual(['a.txt#0', 'a.txt#1']);
+    expect(diffUnitKeys(files[1])).toEqual(['bin.dat#*']);
+  });
+
+  it('rebuilds the original diff when nothing is excluded', () => {
+    expect(buildPatch(parseUnifiedDiff(DIFF), new Set())).toBe(DIFF);
+  });
+
+  it('drops excluded hunks and files', () => {
+    const patch = buildPatch(parseUnifiedDiff(DIFF), new Set(['a.txt#1', 'bin.dat#*', 'docs/new name.txt#*', 'package-lock.json#0']));
+    expect(patch).toBe(DIFF.split('\n').slice(0, 10).join('\n') + '\n');
+    expect(buildPatch(parseUnifiedDiff(DIFF), new Set(['a.txt#0', 'a.txt#1', 'bin.dat#*', 'docs/new name.txt#*', 'package-lock.json#0']))).toBe('');
+  });
+
+  it('recognises lockfiles by file name', () => {
+    expect(isLockfile('web/package-lock.json')).toBe(true);
+    expect(isLockfile('go.sum')).toBe(true);
+    expect(isLockfile('src/lock.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+/** One `@@` hunk of a file diff: its header line and the body lines (with their ` `/`+`/`-` prefix). */
+export interface DiffHunk {
+  header: string;
+  lines: string[];
+  additions: number;
+  deletions: number;
+}
+
+/** One file of a unified `git diff`, as returned by bridge GET /git/diff. */
+export interface DiffFile {
+  path: string;
+  /** Previous path of a rename. */
+  oldPath: string | null;
+  status: 'added' | 'deleted' | 'modified' | 'renamed';
+  binary: boolean;
+  /** `diff --git` through `+++` (or the whole section for binary and mode-only changes). */
+  headerLines: string[];
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+const LOCKFILES = new Set([
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb', 'bun.lock',
+  'packages.lock.json', 'poetry.lock', 'Pipfile.lock', 'uv.lock', 'Cargo.lock', 'Gemfile.lock',
+  'composer.lock', 'go.sum', 'mix.lock', 'pubspec.lock'
+]);
+
+export function isLockfile(path: string): boolean {
+  return LOCKFILES.has(path.slice(path.lastIndexOf('/') + 1));
+}
+
+/** Strips git's `a/` / `b/` prefix and C-style quoting from a header path. */
+function headerPath(raw: string): string | null {
+  let p = raw.trim();
+  if (p === '/dev/null') return null;
+  if (p.startsWith('"') && p.endsWith('"')) {
+    p = p.slice(1, -1).replace(/\\(["\\])/g, '$1').replace(/\\t/g, '\t').replace(/\\n/g, '\n');
+  }
+  return p.replace(/^[ab]\//, '');
+}
+
+/** Splits `git diff` output into files and hunks; the inverse of {@link buildPatch} for a full selection. */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const lines = diff.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  const files: DiffFile[] = [];
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+
+  for (const line of lines) {
+    if (line.startsWith('diff --git ')) {
+      const m = /^diff --git a\/(.*) b\/(.*)$/.exec(line);
+      file = {
+        path: m ? m[2] : line.slice('diff --git '.length),
+        oldPath: null,
+        status: 'modified',
+        binary: false,
+        headerLines: [line],
+        hunks: [],
+        additions: 0,
+        deletions: 0
+      };
+      hunk = null;
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+
+    if (!file.binary && line.startsWith('@@')) {
+      hunk = { header: line, lines: [], additions: 0, deletions: 0 };
+      file.hunks.push(hunk);
+      continue;
+    }
+    if (hunk) {
+      hunk.lines.push(line);
+      if (line.startsWith('+')) {
+        hunk.additions++;
+        file.additions++;
+      } else if (line.startsWith('-')) {
+        hunk.deletions++;
+        file.deletions++;
+      }
+      continue;
+    }
+
+    file.headerLines.push(line);
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.oldPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      file.path = line.slice('rename to '.length);
+    } else if (line.startsWith('+++ ')) {
+      file.path = headerPath(line.slice(4)) ?? file.path;
+    } else if (line.startsWith('--- ') && file.status === 'deleted') {
+      file.path = headerPath(line.slice(4)) ?? file.path;
+    } else if (line === 'GIT binary patch' || line.startsWith('Binary files ')) {
+      file.binary = true;
+    }
+  }
+  return files;
+}
+
+/**
+ * Keys of the units of a file that can be excluded: one per hunk, or a single `#*` unit for
+ * files without hunks (binary files, pure renames, mode changes).
+ */
+export function diffUnitKeys(file: DiffFile): string[] {
+  return file.hunks.length ? file.hunks.map((_, i) => `${file.path}#${i}`) : [`${file.path}#*`];
+}
+
+/**
+ * Patch with only the units not in `excluded`, for `git apply --cached`. Whole files are kept
+ * byte for byte; dropping hunks leaves the other hunk headers as they are (git apply tolerates the
+ * shifted new-file line numbers since it only matches on the old side).
+ */
+export function buildPatch(files: readonly DiffFile[], excluded: ReadonlySet<string>): string {
+  const out: string[] = [];
+  for (const file of files) {
+    const keys = diffUnitKeys(file);
+    const kept = keys.filter(k => !excluded.has(k));
+    if (kept.length === 0) continue;
+    out.push(...file.headerLines);
+    file.hunks.forEach((hunk, i) => {
+      if (excluded.has(keys[i])) return;
+      out.push(hunk.header, ...hunk.lines);
+    });
+  }
+  return out.length ? out.join('\n') + '\n' : '';
+}
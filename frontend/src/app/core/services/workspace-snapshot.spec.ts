@@ -0,0 +1,20 @@
+import { StoryWorkspaceSnapshot } from './sandbox.service';
+import { formatBytes, workspaceSnapshotDetails } from './workspace-snapshot';
+
+describe('workspace snapshot helpers', () => {
+  it('formats archive sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(14.2 * 1024)).toBe('14.2 KB');
+    expect(formatBytes(3 * 1024 * 1024)).toBe('3.0 MB');
+    expect(formatBytes(null)).toBe('–');
+  });
+
+  it('describes branch, agent turns and size', () => {
+    const snapshot: StoryWorkspaceSnapshot = {
+      id: 's1', storyId: 'st', sandboxId: 'sb', createdByUserId: 'u', branch: 'feature/login',
+      archiveSizeBytes: 2048, conversationCount: 1, createdAt: '2026-05-07T10:00:00Z'
+    };
+    expect(workspaceSnapshotDetails(snapshot)).toBe('feature/login · 1 agent turn · 2.0 KB');
+    expect(workspaceSnapshotDetails({ ...snapshot, branch: null, conversationCount: 3 })).toBe('3 agent turns · 2.0 KB');
+  });
+});
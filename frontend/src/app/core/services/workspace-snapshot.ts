@@ -0,0 +1,24 @@
+import { StoryWorkspaceSnapshot } from './sandbox.service';
+
+/** `512 B`, `14.2 KB`, `3.1 MB`, `1.2 GB`. */
+export function formatBytes(bytes: number | null | undefined): string {
+  if (bytes == null || !Number.isFinite(bytes) || bytes < 0) return '–';
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/** Secondary line for a snapshot: `feature/x · 4 agent turns · 3.1 MB`. */
+export function workspaceSnapshotDetails(snapshot: StoryWorkspaceSnapshot): string {
+  const parts: string[] = [];
+  if (snapshot.branch) parts.push(snapshot.branch);
+  parts.push(`${snapshot.conversationCount} agent turn${snapshot.conversationCount === 1 ? '' : 's'}`);
+  parts.push(formatBytes(snapshot.archiveSizeBytes));
+  return parts.join(' · ');
+}
@@ -4,17 +4,43 @@ import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { ActivatedRoute, RouterLink } from '@angular/router';
 import { BacklogService, AzureDevOpsWorkItem, AzureDevOpsWorkItemsHierarchy, AzureDevOpsProject, AzureDevOpsAreaPathOption, GitHubIssue, GitHubMilestone, GitHubIssuesHierarchy, STANDALONE_EPIC_TITLE, AzureSyncPlanItemResponse, AzureSyncDirection, ApplyGitHubSyncRequest } from '../../core/services/backlog.service';
-import { RepositoryService, ReplaceRepositoryAgentRuleItem } from '../../core/services/repository.service';
+import { RepositoryService, ReplaceRepositoryAgentRuleItem, ReplaceRepositoryPromptTemplateItem, RepositoryPromptTemplateDto } from '../../core/services/repository.service';
+import { formatEnvLines, parseEnvLines, parseSetupCommands } from '../../core/services/sandbox-profile';
+import { DEFAULT_PR_TEMPLATE, PR_TEMPLATE_PLACEHOLDERS, PrTemplateEditorValue, fromPrTemplateEditor, toPrTemplateEditor } from '../../core/services/pr-template';
 import { GlobalAgentRulesService, GlobalAgentRuleDto } from '../../core/services/global-agent-rules.service';
 import { Repository } from '../../shared/models/repository.model';
-import { SandboxService, CreateSandboxResponse } from '../../core/services/sandbox.service';
+import { SandboxService, CreateSandboxResponse, StoryWorkspaceSnapshot } from '../../core/services/sandbox.service';
 import { SandboxBridgeService } from '../../core/services/sandbox-bridge.service';
-import { VncViewerService } from '../../core/services/vnc-viewer.service';
+import { ImplementationContext, VncViewerService } from '../../core/services/vnc-viewer.service';
+import { ImplementationQueueService, ImplementationQueueState } from '../../core/services/implementation-queue.service';
 import { AIConfigService } from '../../core/services/ai-config.service';
-import { ArtifactFeedService } from '../../core/services/artifact-feed.service';
-import { AuthService } from '../../core/services/auth.service';
+import { ArtifactFeedService, SandboxArtifactFeed } from '../../core/services/artifact-feed.service';
+import { AuthService, LlmSettingDto } from '../../core/services/auth.service';
+import { ModelComparisonService } from '../../core/services/model-comparison.service';
+import { ModelComparisonRun } from '../../core/services/model-comparison';
+import { NotificationService } from '../../core/services/notification.service';
+import { UsageService } from '../../core/services/usage.service';
+import { UsageSum, formatCost, formatTokens, rollUpUsage, totalTokens } from '../../core/services/token-usage';
 import { LastVisitedRepositoryService } from '../../core/services/last-visited-repository.service';
 import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
+import { SignalRService, BoardPresenceViewer } from '../../core/services/signalr.service';
+import { isEmptyDelta } from '../../core/services/backlog-delta';
+import { PresenceUser, formatPresenceNames, summarizeBoardPresence } from '../../core/services/board-presence';
+import { BoardColumnDef, BoardItem, BoardLane, BoardSwimlaneMode, buildBoard } from '../../core/services/backlog-board';
+import {
+  BACKLOG_FILE_FORMATS,
+  BacklogFile,
+  BacklogFileFormat,
+  parseBacklogFile,
+  serializeBacklogFile,
+  toBacklogFile
+} from '../../core/services/backlog-file';
+import {
+  DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE,
+  ImplementationPromptContext,
+  PROMPT_TEMPLATE_PLACEHOLDERS,
+  renderImplementationPrompt
+} from '../../core/services/implementation-prompt';
 import { VPS_CONFIG } from '../../core/config/vps.config';
 import { Epic } from '../../shared/models/epic.model';
 import { Feature } from '../../shared/models/feature.model';
@@ -23,14 +49,20 @@ import {
   AddBacklogItemModalComponent,
   AddItemType,
   EditItemData,
-  StoryAgentRuleOption
+  StoryAgentRuleOption,
+  StoryDependencyOption,
+  StoryPromptTemplateOption
 } from '../../components/add-backlog-item-modal/add-backlog-item-modal.component';
+import { SprintPlanningComponent } from '../../components/sprint-planning/sprint-planning.component';
+import { StoryStatusHistoryComponent } from '../../components/story-status-history/story-status-history.component';
+import { StoryWorkspaceSnapshotsComponent } from '../../components/story-workspace-snapshots/story-workspace-snapshots.component';
+import { ModelComparisonComponent } from '../../components/model-comparison/model-comparison.component';
 import { MarkdownPipe } from '../../shared/pipes/markdown.pipe';
 import { Subject, takeUntil, forkJoin, map, firstValueFrom, of } from 'rxjs';
-import { catchError, switchMap } from 'rxjs/operators';
+import { catchError, debounceTime, filter, switchMap } from 'rxjs/operators';
 
 type WorkItemType = 'epic' | 'feature' | 'story';
-type ViewMode = 'tree' | 'flat';
+type ViewMode = 'tree' | 'flat' | 'board' | 'sprints';
 
 interface RulesProfileRow {
   id: string | null;
@@ -51,7 +83,7 @@ interface ExpandedState {
 @Component({
   selector: 'app-backlog',
   standalone: true,
-  imports: [CommonModule, FormsModule, RouterLink, AddBacklogItemModalComponent, MarkdownPipe],
+  imports: [CommonModule, FormsModule, RouterLink, AddBacklogItemModalComponent, SprintPlanningComponent, StoryStatusHistoryComponent, StoryWorkspaceSnapshotsComponent, ModelComparisonComponent, MarkdownPipe],
   templateUrl: './backlog.component.html',
   styleUrl: './backlog.component.css'
 })
@@ -90,6 +122,65 @@ export class BacklogComponent implements OnInit, OnDestroy {
   /** Suggestions panel open (combobox, not a static list). */
   templateAutocompleteOpen = signal(false);
 
+  /** Which part of the rules modal is shown: agent rules profiles, implementation prompt templates or the sandbox profile. */
+  rulesModalTab = signal<'rules' | 'prompts' | 'sandbox' | 'pullRequest'>('rules');
+  /** Saved prompt templates of the repository (used when Implement builds the prompt). */
+  repositoryPromptTemplates = signal<RepositoryPromptTemplateDto[]>([]);
+  /** Token usage and cost of agent turns per story (story row badge). */
+  storyUsage = signal<Map<string, UsageSum>>(new Map());
+  /** Draft rows of the prompt template editor (same shape as rules profiles). */
+  promptTemplateRows = signal<RulesProfileRow[]>([]);
+  promptTemplateActiveIndex = signal<number>(0);
+  promptTemplatesLoading = signal<boolean>(false);
+  promptTemplatesSaving = signal<boolean>(false);
+  /** Story rendered in the live preview (empty = first story of the backlog). */
+  promptPreviewStoryId = signal<string>('');
+  /** Sandbox profile editor: commands and env vars are edited as text, one per line. */
+  sandboxProfileCommandsText = signal<string>('');
+  sandboxProfileEnvText = signal<string>('');
+  sandboxProfilePreviewPort = signal<string>('');
+  sandboxProfileUseDevcontainer = signal<boolean>(false);
+  sandboxProfileTestCommand = signal<string>('');
+  sandboxProfileBlockOnTestFailure = signal<boolean>(false);
+  sandboxProfileLoading = signal<boolean>(false);
+  sandboxProfileSaving = signal<boolean>(false);
+  sandboxProfileError = signal<string | null>(null);
+  /** Pull request template editor; reviewers and labels are edited as comma separated text. */
+  prTemplateForm = signal<PrTemplateEditorValue>(toPrTemplateEditor(null));
+  prTemplateLoading = signal<boolean>(false);
+  prTemplateSaving = signal<boolean>(false);
+  prTemplateError = signal<string | null>(null);
+  readonly prTemplateDefaults = DEFAULT_PR_TEMPLATE;
+  readonly prTemplatePlaceholders = PR_TEMPLATE_PLACEHOLDERS.map(p => ({ ...p, token: `{${p.key}}` }));
+  readonly promptTemplatePlaceholders = PROMPT_TEMPLATE_PLACEHOLDERS.map(p => ({ ...p, token: `{{${p.key}}}` }));
+
+  /** Options for the per-story prompt template dropdown. */
+  readonly repositoryStoryPromptTemplateOptions = computed<StoryPromptTemplateOption[]>(() =>
+    this.repositoryPromptTemplates().map(t => ({
+      id: t.id,
+      name: t.isDefault ? `${t.name} (default)` : t.name,
+      isDefault: t.isDefault
+    }))
+  );
+
+  /** Stories that can be picked for the template preview. */
+  readonly promptPreviewStories = computed(() =>
+    this.epics().flatMap(e => e.features.flatMap(f => f.userStories))
+  );
+
+  readonly promptPreviewStory = computed<UserStory | null>(() => {
+    const stories = this.promptPreviewStories();
+    return stories.find(s => s.id === this.promptPreviewStoryId()) ?? stories[0] ?? null;
+  });
+
+  /** Active template rendered against {@link promptPreviewStory}. */
+  readonly promptTemplatePreview = computed(() => {
+    const row = this.promptTemplateRows()[this.promptTemplateActiveIndex()];
+    const story = this.promptPreviewStory();
+    if (!row || !story) return '';
+    return renderImplementationPrompt(row.body, this.buildImplementationPromptContext(story));
+  });
+
   /** Global library rows matching {@link globalTemplateSearchQuery} (and full list when query empty). */
   readonly filteredGlobalRuleTemplates = computed(() => {
     const all = this.globalRuleLibrary();
@@ -262,6 +353,44 @@ export class BacklogComponent implements OnInit, OnDestroy {
   ghNameFilter = signal<string>('');
   ghShowAllStatuses = signal<boolean>(false); // false = Active only (open) by default, true = All
 
+  // Backlog file export / import
+  readonly backlogFileFormats = BACKLOG_FILE_FORMATS;
+  showExportMenu = signal<boolean>(false);
+  showFileImport = signal<boolean>(false);
+  fileImportName = signal<string>('');
+  fileImportData = signal<BacklogFile | null>(null);
+  fileImportError = signal<string | null>(null);
+  /** Selected tree keys: "e", "e.f" and "e.f.s" (indexes into {@link fileImportData}). */
+  selectedFileImportKeys = signal<Set<string>>(new Set());
+  expandedFileImportKeys = signal<Set<string>>(new Set());
+  fileImporting = signal<boolean>(false);
+  backlogFileInput = viewChild<ElementRef<HTMLInputElement>>('backlogFileInput');
+
+  /** Keys of file items that already exist in the backlog (matched by title like the provider imports). */
+  readonly existingFileImportKeys = computed(() => {
+    const keys = new Set<string>();
+    const norm = (t: string) => t.toLowerCase().trim();
+    const epics = this.epics();
+    (this.fileImportData()?.epics ?? []).forEach((e, ei) => {
+      const epic = epics.find(x => norm(x.title) === norm(e.title));
+      if (!epic) return;
+      keys.add(`${ei}`);
+      e.features.forEach((f, fi) => {
+        const feature = (epic.features ?? []).find(x => norm(x.title) === norm(f.title));
+        if (!feature) return;
+        keys.add(`${ei}.${fi}`);
+        f.userStories.forEach((s, si) => {
+          if ((feature.userStories ?? []).some(x => norm(x.title) === norm(s.title))) keys.add(`${ei}.${fi}.${si}`);
+        });
+      });
+    });
+    return keys;
+  });
+
+  readonly selectedFileImportStoryCount = computed(
+    () => [...this.selectedFileImportKeys()].filter(k => k.split('.').length === 3).length
+  );
+
   private destroy$ = new Subject<void>();
   private generationLiveScrollRaf = 0;
   
@@ -270,14 +399,39 @@ export class BacklogComponent implements OnInit, OnDestroy {
   searchQuery = signal<string>('');
   statusFilter = signal<string>('all');
   viewMode = signal<ViewMode>('tree');
-  /** Narrow screens only show the flat list; tree is desktop-only. */
+  /** Narrow screens only show the flat list; tree and board are desktop-only. */
   effectiveViewMode = computed<ViewMode>(() =>
     this.backlogCrudFormsAllowed() ? this.viewMode() : 'flat'
   );
+
+  // Board view (stories as cards in status columns)
+  boardSwimlanes = signal<BoardSwimlaneMode>('none');
+  /** Story being dragged and the lane it was picked up from (cards only move between columns of their own lane). */
+  boardDrag = signal<{ storyId: string; laneKey: string; columnKey: string } | null>(null);
+  /** `laneKey|columnKey` of the column under the dragged card. */
+  boardDropTarget = signal<string | null>(null);
+  boardMovingStoryIds = signal<Set<string>>(new Set());
+  boardMoveError = signal<string | null>(null);
+  /** Repository whose SignalR board group this component joined. */
+  private boardGroupRepositoryId: string | null = null;
+  /** Remote changes other than moves reload the backlog; bursts (e.g. a sync) are coalesced. */
+  private readonly backlogResync$ = new Subject<void>();
+  private static readonly BOARD_RESYNC_DEBOUNCE_MS = 400;
+
+  // Presence (teammates on this board and the stories they are editing / implementing)
+  boardPresence = signal<BoardPresenceViewer[]>([]);
+  presence = computed(() =>
+    summarizeBoardPresence(this.boardPresence(), this.authService.getCurrentUser()?.id ?? null)
+  );
+  presenceViewerNames = computed(() => formatPresenceNames(this.presence().viewers));
+  /** Story this client reported as open in the edit modal. */
+  private presenceEditingStoryId: string | null = null;
   selectedItemId = signal<string | null>(null);
   
-  // Sandbox state
-  creatingSandboxForStory = signal<string | null>(null);
+  // Sandbox state (several stories can be starting at once when the implementation queue runs)
+  creatingSandboxForStories = signal<Set<string>>(new Set());
+  /** Story whose "Implement with N models" dialog is open (model picker, or its running comparison). */
+  modelComparisonTarget = signal<{ story: UserStory; featureTitle: string; epicTitle: string } | null>(null);
 
   // LLM selector (repo override, same UI as branch dropdown)
   repoLlmUpdating = signal<boolean>(false);
@@ -350,6 +504,54 @@ export class BacklogComponent implements OnInit, OnDestroy {
     return false;
   });
 
+  /** Selected stories the batch "Implement selected" action would queue (no PR, no open sandbox, not done). */
+  implementableSelectedStories = computed(() => {
+    const selected = this.selectedSyncToAzureStories();
+    const openIds = this.openSandboxStoryIds();
+    const out: Array<{ story: UserStory; featureTitle: string; epicTitle: string }> = [];
+    if (selected.size === 0) return out;
+    for (const epic of this.epics()) {
+      for (const feature of epic.features) {
+        for (const story of feature.userStories) {
+          if (!selected.has(story.id) || story.prUrl || openIds.includes(story.id)) continue;
+          if (this.normalizeStatus(story.status) === 'done') continue;
+          if (this.getBlockingStories(story).length > 0) continue;
+          out.push({
+            story,
+            featureTitle: feature.title,
+            epicTitle: epic.title === STANDALONE_EPIC_TITLE ? '' : epic.title
+          });
+        }
+      }
+    }
+    return out;
+  });
+
+  /** Every user story of the backlog by id (dependency lookups). */
+  storiesById = computed(() => {
+    const map = new Map<string, UserStory>();
+    for (const epic of this.epics()) {
+      for (const feature of epic.features || []) {
+        for (const story of feature.userStories || []) map.set(story.id, story);
+      }
+    }
+    return map;
+  });
+
+  /** Stories offered in the "Depends on" picker of the story modal. */
+  storyDependencyOptions = computed<StoryDependencyOption[]>(() =>
+    this.epics().flatMap(epic =>
+      (epic.features || []).flatMap(feature =>
+        (feature.userStories || []).map(story => ({
+          id: story.id,
+          title: story.title,
+          status: story.status,
+          featureTitle: feature.title
+        }))
+      )
+    )
+  );
+
   hasSyncSelection = computed(() => {
     return this.selectedSyncToAzureEpics().size > 0 ||
       this.selectedSyncToAzureFeatures().size > 0 ||
@@ -545,6 +747,8 @@ export class BacklogComponent implements OnInit, OnDestroy {
     return stories;
   });
 
+  boardLanes = computed(() => buildBoard(this.flatStories(), this.boardSwimlanes()));
+
   constructor(
     private route: ActivatedRoute,
     private backlogService: BacklogService,
@@ -559,7 +763,12 @@ export class BacklogComponent implements OnInit, OnDestroy {
     private markdownPipe: MarkdownPipe,
     private lastVisitedRepository: LastVisitedRepositoryService,
     private confirmDialog: ConfirmDialogService,
-    private globalAgentRulesService: GlobalAgentRulesService
+    private globalAgentRulesService: GlobalAgentRulesService,
+    private signalRService: SignalRService,
+    readonly implementationQueue: ImplementationQueueService,
+    private modelComparison: ModelComparisonService,
+    private usageService: UsageService,
+    private notificationService: NotificationService
   ) {
     // Sync with backlog service signal for real-time updates (e.g., when PR is created)
     effect(() => {
@@ -581,6 +790,7 @@ export class BacklogComponent implements OnInit, OnDestroy {
       this.loadRepository(repoId);
       this.refreshAzureIdentityWarningDismissedFromStorage(repoId);
       this.tryResumeHeadlessBacklogGeneration();
+      this.joinBoardUpdates(repoId);
     } else {
       this.error.set('Repository ID is required');
     }
@@ -598,6 +808,7 @@ export class BacklogComponent implements OnInit, OnDestroy {
         .filter(v => v.implementationContext?.storyId)
         .map(v => v.implementationContext!.storyId);
       this.openSandboxStoryIds.set(storyIds);
+      this.publishImplementingStories();
     });
 
     this.initBacklogCrudMediaQuery();
@@ -621,6 +832,108 @@ export class BacklogComponent implements OnInit, OnDestroy {
     }
   }
 
+  /** Receive story moves made by teammates on this repository's board. */
+  /**
+   * Follow this repository's board over SignalR: apply moves in place, resync the backlog for
+   * everything else, and after a reconnect (events may have been missed) resync and re-announce presence.
+   */
+  private joinBoardUpdates(repositoryId: string): void {
+    this.boardGroupRepositoryId = repositoryId;
+    const isThisBoard = <T extends { repositoryId: string }>(event: T) =>
+      event?.repositoryId?.toLowerCase() === repositoryId.toLowerCase();
+
+    this.signalRService.boardEvent$('storyMoved')
+      .pipe(filter(isThisBoard), takeUntil(this.destroy$))
+      .subscribe(event => {
+        if (this.boardMovingStoryIds().has(event.storyId)) return;
+        this.backlogService.applyStoryStatus(event.storyId, event.status, event.prUrl);
+      });
+
+    this.signalRService.boardEvent$('prStatusChanged')
+      .pipe(filter(isThisBoard), takeUntil(this.destroy$))
+      .subscribe(event => this.backlogService.applyStoryStatus(event.storyId, event.status, event.prUrl));
+
+    this.signalRService.boardEvents$
+      .pipe(
+        filter(isThisBoard),
+        filter(event => event.type !== 'storyMoved' && event.type !== 'prStatusChanged'),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(() => this.backlogResync$.next());
+
+    this.backlogResync$
+      .pipe(debounceTime(BacklogComponent.BOARD_RESYNC_DEBOUNCE_MS), takeUntil(this.destroy$))
+      .subscribe(() => this.resyncBacklog());
+
+    this.signalRService.presence$
+      .pipe(filter(isThisBoard), takeUntil(this.destroy$))
+      .subscribe(event => this.boardPresence.set(event.viewers ?? []));
+
+    this.signalRService.resyncNeeded$
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(() => {
+        this.presenceEditingStoryId = null;
+        const editing = this.addModalType() === 'story' ? this.editModalData()?.id ?? null : null;
+        this.publishEditingStory(editing);
+        this.publishImplementingStories();
+        this.resyncBacklog();
+      });
+
+    this.signalRService.joinBoardGroup(repositoryId)
+      .then(() => this.publishImplementingStories())
+      .catch(err => console.warn('[BacklogComponent] Live board updates unavailable:', err));
+  }
+
+  private leaveBoardUpdates(): void {
+    const repositoryId = this.boardGroupRepositoryId;
+    if (!repositoryId) return;
+    this.boardGroupRepositoryId = null;
+    this.boardPresence.set([]);
+    this.signalRService.leaveBoardGroup(repositoryId).catch(() => {});
+  }
+
+  /** Apply server-side changes without reloading the page state (expanded rows, selection, filters). */
+  private resyncBacklog(): void {
+    const repositoryId = this.boardGroupRepositoryId;
+    if (!repositoryId || this.loading()) return;
+    if (this.boardMovingStoryIds().size > 0) {
+      // Let in-flight drags land first, or the resync would briefly undo them
+      this.backlogResync$.next();
+      return;
+    }
+    this.backlogService.resyncBacklog(repositoryId).subscribe({
+      next: (delta) => {
+        if (isEmptyDelta(delta)) return;
+        this.epics.set(delta.epics);
+        if (delta.removedStoryIds.length > 0) {
+          this.selectedSyncToAzureStories.update(ids => new Set([...ids].filter(id => !delta.removedStoryIds.includes(id))));
+        }
+      },
+      error: (err) => console.warn('[BacklogComponent] Backlog resync failed:', err)
+    });
+  }
+
+  private publishEditingStory(storyId: string | null): void {
+    if (this.presenceEditingStoryId === storyId || !this.boardGroupRepositoryId) return;
+    this.presenceEditingStoryId = storyId;
+    this.signalRService.setEditingStory(this.boardGroupRepositoryId, storyId).catch(() => {});
+  }
+
+  private publishImplementingStories(): void {
+    if (!this.boardGroupRepositoryId) return;
+    this.signalRService.setImplementingStories(this.boardGroupRepositoryId, this.openSandboxStoryIds()).catch(() => {});
+  }
+
+  /** Teammates editing or implementing a story, for the avatars on its row (null when nobody). */
+  getStoryPresence(storyId: string): Array<{ user: PresenceUser; activity: 'editing' | 'implementing'; title: string }> | null {
+    const { editing, implementing } = this.presence();
+    const present = [
+      ...(editing.get(storyId) ?? []).map(user => ({ user, activity: 'editing' as const, title: `${user.displayName} is editing this story` })),
+      ...(implementing.get(storyId) ?? []).map(user => ({ user, activity: 'implementing' as const, title: `${user.displayName} has a sandbox open for this story` }))
+    ];
+    return present.length > 0 ? present : null;
+  }
+
   private tryResumeHeadlessBacklogGeneration(): void {
     if (this.generationState() !== 'idle' && this.generationState() !== 'error') return;
     const currentRepoId = this.repositoryId();
@@ -733,6 +1046,8 @@ export class BacklogComponent implements OnInit, OnDestroy {
         this.loading.set(false);
 
         this.refreshStoryRuleOptions(repositoryId);
+        this.refreshPromptTemplates(repositoryId);
+        this.refreshStoryUsage(repositoryId);
 
         // Auto-sync PR statuses if we have stories with PRs
         this.syncPrStatuses(repositoryId, epics);
@@ -895,6 +1210,7 @@ export class BacklogComponent implements OnInit, OnDestroy {
     this.addModalType.set(null);
     this.addModalParentId.set(null);
     this.editModalData.set(null);
+    this.publishEditingStory(null);
   }
 
   // Edit item methods
@@ -922,8 +1238,24 @@ export class BacklogComponent implements OnInit, OnDestroy {
     });
   }
 
+  /** Open the story edit modal, confirming first when a teammate already has it open. */
   openEditStory(story: UserStory): void {
     if (!this.backlogCrudFormsAllowed()) return;
+    const editors = this.presence().editing.get(story.id) ?? [];
+    if (editors.length === 0) {
+      this.showEditStoryModal(story);
+      return;
+    }
+    void this.confirmDialog.confirm({
+      title: 'Story is being edited',
+      message: `${formatPresenceNames(editors)} ${editors.length === 1 ? 'has' : 'have'} "${story.title}" open for editing. Changes saved by one of you may overwrite the other's.`,
+      confirmText: 'Edit anyway'
+    }).then(ok => {
+      if (ok) this.showEditStoryModal(story);
+    });
+  }
+
+  private showEditStoryModal(story: UserStory): void {
     this.addModalType.set('story');
     this.addModalParentId.set(story.featureId);
     this.editModalData.set({
@@ -933,8 +1265,11 @@ export class BacklogComponent implements OnInit, OnDestroy {
       acceptanceCriteria: story.acceptanceCriteria,
       storyPoints: story.storyPoints,
       status: story.status,
-      repositoryAgentRuleId: story.repositoryAgentRuleId != null ? String(story.repositoryAgentRuleId) : undefined
+      repositoryAgentRuleId: story.repositoryAgentRuleId != null ? String(story.repositoryAgentRuleId) : undefined,
+      dependsOnStoryIds: story.dependsOnStoryIds ?? [],
+      repositoryPromptTemplateId: story.repositoryPromptTemplateId ?? undefined
     });
+    this.publishEditingStory(story.id);
   }
 
   // Open delete confirmation modal
@@ -1082,6 +1417,9 @@ export class BacklogComponent implements OnInit, OnDestroy {
     status?: string;
     repositoryAgentRuleId?: string | null;
     updateRepositoryAgentRule?: boolean;
+    dependsOnStoryIds?: string[];
+    repositoryPromptTemplateId?: string | null;
+    updateRepositoryPromptTemplate?: boolean;
   }): void {
     const type = this.addModalType();
     const parentId = data.parentId ?? this.addModalParentId();
@@ -1163,6 +1501,13 @@ export class BacklogComponent implements OnInit, OnDestroy {
                 updateRepositoryAgentRule: true,
                 repositoryAgentRuleId: data.repositoryAgentRuleId ?? null
               }
+            : undefined,
+          data.dependsOnStoryIds,
+          data.updateRepositoryPromptTemplate
+            ? {
+                updateRepositoryPromptTemplate: true,
+                repositoryPromptTemplateId: data.repositoryPromptTemplateId ?? null
+              }
             : undefined
         ).subscribe({
           next: () => {
@@ -1181,7 +1526,13 @@ export class BacklogComponent implements OnInit, OnDestroy {
           data.description,
           data.acceptanceCriteria,
           data.storyPoints,
-          repoId
+          repoId,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          data.dependsOnStoryIds,
+          data.repositoryPromptTemplateId
         ).subscribe({
           next: (newStory) => {
             this.epics.update(epics =>
@@ -1228,22 +1579,160 @@ export class BacklogComponent implements OnInit, OnDestroy {
   // Click on implement button - open sandbox
   onImplementClick(event: Event, story: UserStory, featureTitle: string, epicTitle: string): void {
     event.stopPropagation(); // Don't trigger row click
-    this.implementUserStory(story, featureTitle, epicTitle);
+    if (this.getBlockingStories(story).length > 0) return;
+    const implementers = this.presence().implementing.get(story.id) ?? [];
+    if (implementers.length === 0) {
+      this.implementUserStory(story, featureTitle, epicTitle);
+      return;
+    }
+    void this.confirmDialog.confirm({
+      title: 'Story is being implemented',
+      message: `${formatPresenceNames(implementers)} already ${implementers.length === 1 ? 'has' : 'have'} a sandbox open for "${story.title}". Starting another one may produce conflicting branches and pull requests.`,
+      confirmText: 'Implement anyway'
+    }).then(ok => {
+      if (ok) this.implementUserStory(story, featureTitle, epicTitle);
+    });
+  }
+
+  /** "Implement with N models": opens the model picker, or the running comparison of the story. */
+  openModelComparison(event: Event, story: UserStory, featureTitle: string, epicTitle: string): void {
+    event.stopPropagation();
+    this.modelComparisonTarget.set({ story, featureTitle, epicTitle });
+  }
+
+  closeModelComparison(): void {
+    this.modelComparisonTarget.set(null);
+  }
+
+  hasModelComparison(storyId: string): boolean {
+    return !!this.modelComparison.get(storyId);
+  }
+
+  /** Creates one implementation sandbox per chosen model, all with the same prompt and branch. */
+  startModelComparison(settings: LlmSettingDto[]): void {
+    const target = this.modelComparisonTarget();
+    const repo = this.repository();
+    if (!target || !repo || settings.length === 0) return;
+    const { story, featureTitle, epicTitle } = target;
+
+    this.modelComparison.start(story.id, story.title, repo.id, settings);
+    this.setCreatingSandbox(story.id, true);
+    this.warnIfOverSoftBudget();
+    this.error.set(null);
+
+    const testCommand$ = this.repositoryService.getRepositorySandboxProfile(repo.id).pipe(
+      map(profile => profile.testCommand?.trim() || null),
+      catchError(() => of(null))
+    );
+    void firstValueFrom(testCommand$).then(testCommand => {
+      this.modelComparison.setTestCommand(story.id, testCommand);
+      this.resolveImplementationSource(repo, story, undefined, (repoUrl, branch, archiveUrl, artifactFeeds) => {
+        const prompt = this.buildImplementationPrompt(story, featureTitle, epicTitle);
+        let pending = settings.length;
+        let statusUpdated = false;
+        const onSandboxResult = (created: boolean) => {
+          if (--pending === 0) this.setCreatingSandbox(story.id, false);
+          // Same rule as a single implementation: only a story without PR moves to InProgress.
+          if (!created || statusUpdated || story.prUrl) return;
+          statusUpdated = true;
+          this.backlogService.updateStoryStatus(story.id, 'InProgress', undefined, 'Agent').subscribe({
+            error: (err) => console.warn('Failed to update story status to InProgress:', err)
+          });
+        };
+        for (const setting of settings) {
+          this.sandboxService.createSandbox({
+            ...(repoUrl?.trim() ? { repo_url: repoUrl } : {}),
+            repo_name: repo.name,
+            repo_branch: branch,
+            repo_archive_url: archiveUrl,
+            artifact_feeds: artifactFeeds.length ? artifactFeeds : undefined,
+            story_id: story.id,
+            llm_setting_id: setting.id
+          }).subscribe({
+            next: (sandbox) => {
+              onSandboxResult(true);
+              this.modelComparison.markSandboxCreated(story.id, setting.id, sandbox.id, sandbox.vnc_password);
+              setTimeout(() => {
+                this.sendImplementationPrompt(sandbox.id, prompt, {
+                  sent: () => this.modelComparison.markImplementing(story.id, setting.id),
+                  completed: () => this.modelComparison.markFinished(story.id, setting.id, testCommand),
+                  failed: reason => this.modelComparison.markFailed(story.id, setting.id, reason)
+                });
+              }, VPS_CONFIG.sandboxReadyDelayMs);
+            },
+            error: (err) => {
+              onSandboxResult(false);
+              this.modelComparison.markFailed(story.id, setting.id, err.error?.error || err.message || 'Failed to create sandbox');
+            }
+          });
+        }
+      }, (reason) => {
+        this.setCreatingSandbox(story.id, false);
+        for (const setting of settings) this.modelComparison.markFailed(story.id, setting.id, reason);
+      });
+    });
+  }
+
+  /** The chosen run becomes the story's implementation: its sandbox opens in the viewer with the PR flow. */
+  chooseModelComparisonRun(run: ModelComparisonRun): void {
+    const target = this.modelComparisonTarget();
+    const repo = this.repository();
+    if (!target || !repo || !run.sandboxId) return;
+    const { story } = target;
+    this.modelComparison.choose(story.id, run.sandboxId);
+    this.closeModelComparison();
+    this.vncViewerService.open(
+      run.sandboxId,
+      `${repo.name} - ${story.title} (${run.label})`,
+      this.buildImplementationContext(repo, story),
+      run.vncPassword
+    );
+    if (run.state === 'finished') this.vncViewerService.setReadyForPrByStoryId(story.id, true);
+  }
+
+  /** Start a new sandbox seeded from a saved workspace snapshot of the story. */
+  onResumeFromSnapshot(story: UserStory, snapshot: StoryWorkspaceSnapshot): void {
+    if (this.isCreatingSandbox(story.id)) return;
+    this.implementUserStory(story, '', '', snapshot);
   }
 
   /**
-   * Open a sandbox with the user story implementation prompt
+   * Open a sandbox with the user story implementation prompt, or — when resuming
+   * from a workspace snapshot — with the saved files and agent history instead.
    */
-  implementUserStory(story: UserStory, featureTitle: string, epicTitle: string): void {
+  implementUserStory(story: UserStory, featureTitle: string, epicTitle: string, snapshot?: StoryWorkspaceSnapshot): void {
     const repo = this.repository();
     if (!repo) {
       this.error.set('Repository not found');
+      this.implementationQueue.markFailed(story.id, 'Repository not found');
       return;
     }
 
-    this.creatingSandboxForStory.set(story.id);
+    this.setCreatingSandbox(story.id, true);
+    this.warnIfOverSoftBudget();
     this.error.set(null);
 
+    this.resolveImplementationSource(repo, story, snapshot, (repoUrl, branch, archiveUrl, artifactFeeds) => {
+      this.createImplementationSandbox(repo, repoUrl, story, featureTitle, epicTitle, branch, archiveUrl, artifactFeeds, snapshot);
+    }, (reason) => {
+      this.setCreatingSandbox(story.id, false);
+      this.error.set('Failed to create sandbox: ' + reason);
+      this.implementationQueue.markFailed(story.id, reason);
+    });
+  }
+
+  /**
+   * Resolves where an implementation sandbox gets its code: the authenticated clone URL (or archive),
+   * the branch (snapshot branch, else the existing PR head, else the default branch) and the enabled artifact feeds.
+   * `failed` runs instead of `open` when loading the feeds or resolving the source throws.
+   */
+  private resolveImplementationSource(
+    repo: Repository,
+    story: UserStory,
+    snapshot: StoryWorkspaceSnapshot | undefined,
+    open: (repoUrl: string, branch: string, archiveUrl: string | undefined, artifactFeeds: SandboxArtifactFeed[]) => void,
+    failed?: (reason: string) => void
+  ): void {
     const defaultBranch = repo.defaultBranch || 'main';
 
     this.artifactFeedService.getEnabledFeeds().then((artifactFeeds) => {
@@ -1253,10 +1742,14 @@ export class BacklogComponent implements OnInit, OnDestroy {
       }));
 
       const openSandboxWithBranch = (repoUrl: string, branch: string, archiveUrl?: string) => {
-        this.createImplementationSandbox(repo, repoUrl, story, featureTitle, epicTitle, branch, archiveUrl, feedsPayload);
+        open(repoUrl, branch, archiveUrl, feedsPayload);
       };
 
       const resolveBranch = (repoUrl: string, archiveUrl?: string) => {
+        if (snapshot?.branch) {
+          openSandboxWithBranch(repoUrl, snapshot.branch, archiveUrl);
+          return;
+        }
         if (story.prUrl?.trim()) {
           this.backlogService.getPrHeadBranch(story.prUrl.trim()).subscribe({
             next: (res) => {
@@ -1280,6 +1773,9 @@ export class BacklogComponent implements OnInit, OnDestroy {
           resolveBranch(repoUrl);
         }
       });
+    }).catch((err) => {
+      console.error('Failed to resolve the implementation source:', err);
+      failed?.(err?.error?.error || err?.message || 'Failed to prepare the sandbox');
     });
   }
 
@@ -1291,7 +1787,8 @@ export class BacklogComponent implements OnInit, OnDestroy {
     epicTitle: string,
     branch: string,
     repoArchiveUrl?: string,
-    artifactFeeds?: any[]
+    artifactFeeds?: SandboxArtifactFeed[],
+    snapshot?: StoryWorkspaceSnapshot
   ): void {
     this.sandboxService.createSandbox({
       ...(repoUrl?.trim() ? { repo_url: repoUrl } : {}),
@@ -1299,79 +1796,42 @@ export class BacklogComponent implements OnInit, OnDestroy {
       repo_branch: branch,
       repo_archive_url: repoArchiveUrl,
       artifact_feeds: artifactFeeds?.length ? artifactFeeds : undefined,
-      story_id: story.id
+      story_id: story.id,
+      workspace_snapshot_id: snapshot?.id
     }).subscribe({
       next: (sandbox) => {
         console.log('Sandbox created for user story:', story.title);
+        this.implementationQueue.markSandboxCreated(story.id, sandbox.id);
         
         // First-time implementation only: move to InProgress. If a PR exists (e.g. PendingReview), keep that status.
-        if (!story.prUrl) {
-          this.backlogService.updateStoryStatus(story.id, 'InProgress').subscribe({
+        if (!story.prUrl && !snapshot) {
+          this.backlogService.updateStoryStatus(story.id, 'InProgress', undefined, 'Agent').subscribe({
             next: () => console.log('Story status updated to InProgress'),
             error: (err) => console.warn('Failed to update story status to InProgress:', err)
           });
         }
         
         setTimeout(() => {
-          this.creatingSandboxForStory.set(null);
+          this.setCreatingSandbox(story.id, false);
           
           this.vncViewerService.open(
             sandbox.id,
             `${repo.name} - ${story.title}`,
-            {
-              repositoryId: repo.id,
-              repositoryFullName: repo.fullName,
-              defaultBranch: repo.defaultBranch || 'main',
-              storyTitle: story.title,
-              storyId: story.id,
-              repositoryProvider: repo.provider,
-              azureDevOpsWorkItemId: story.azureDevOpsWorkItemId
-            },
+            this.buildImplementationContext(repo, story),
             sandbox.vnc_password
           );
 
-          if (!story.prUrl) {
-            const sid = sandbox.id;
-            const prompt = this.buildImplementationPrompt(story, featureTitle, epicTitle);
-            const maxRetries = 5;
-
-            const sendWithRetry = (attempt: number) => {
-              const delay = attempt === 0 ? 25000 : 15000;
-              setTimeout(() => {
-                const promptSentTimestamp = Date.now() / 1000;
-                console.log(`Sending implementation prompt to Zed (attempt ${attempt + 1}/${maxRetries})...`);
-
-                this.sandboxBridgeService.sendZedPrompt(sid, prompt).subscribe({
-                  next: (result) => {
-                    console.log('Implementation prompt sent:', result);
-
-                    this.sandboxBridgeService.waitForImplementationComplete(
-                      sid,
-                      promptSentTimestamp,
-                      5000,
-                      600000
-                    ).subscribe({
-                      next: (conversation) => {
-                        console.log('Implementation completed!', conversation);
-                        this.vncViewerService.setReadyForPrByStoryId(story.id, true);
-                      },
-                      error: (err) => {
-                        console.warn('Failed to detect implementation completion:', err);
-                      }
-                    });
-                  },
-                  error: (err) => {
-                    console.warn(`Prompt send attempt ${attempt + 1} failed:`, err);
-                    if (attempt + 1 < maxRetries) {
-                      sendWithRetry(attempt + 1);
-                    } else {
-                      console.error('All prompt send attempts failed after retries');
-                    }
-                  }
-                });
-              }, delay);
-            };
-            sendWithRetry(0);
+          if (snapshot) {
+            console.log('Resumed from workspace snapshot, skipping auto-prompt');
+          } else if (!story.prUrl) {
+            this.sendImplementationPrompt(sandbox.id, this.buildImplementationPrompt(story, featureTitle, epicTitle), {
+              sent: () => this.implementationQueue.markPromptSent(story.id),
+              completed: () => {
+                this.vncViewerService.setReadyForPrByStoryId(story.id, true);
+                this.implementationQueue.markReadyForPr(story.id);
+              },
+              failed: reason => this.implementationQueue.markFailed(story.id, reason)
+            });
           } else if (story.prUrl) {
             console.log('Story already has PR, skipping auto-prompt - user can interact manually');
           }
@@ -1379,40 +1839,107 @@ export class BacklogComponent implements OnInit, OnDestroy {
       },
       error: (err) => {
         console.error('Failed to create sandbox:', err);
-        this.creatingSandboxForStory.set(null);
-        this.error.set('Failed to create sandbox: ' + (err.message || 'Unknown error'));
+        this.setCreatingSandbox(story.id, false);
+        // A 403 carries the reason (e.g. the monthly AI budget is spent) in `error`.
+        const reason = err.error?.error || err.message;
+        this.error.set('Failed to create sandbox: ' + (reason || 'Unknown error'));
+        this.implementationQueue.markFailed(story.id, reason || 'Failed to create sandbox');
       }
     });
   }
 
+  /** Implementation viewer context: enables the push / PR flow of the story in the viewer. */
+  private buildImplementationContext(repo: Repository, story: UserStory): ImplementationContext {
+    return {
+      repositoryId: repo.id,
+      repositoryFullName: repo.fullName,
+      defaultBranch: repo.defaultBranch || 'main',
+      storyTitle: story.title,
+      storyId: story.id,
+      repositoryProvider: repo.provider,
+      azureDevOpsWorkItemId: story.azureDevOpsWorkItemId
+    };
+  }
+
   /**
-   * Build the implementation prompt for a user story
+   * Sends the implementation prompt (retried while the agent boots), then waits until the agent goes quiet.
    */
-  private buildImplementationPrompt(story: UserStory, featureTitle: string, epicTitle: string): string {
-    let prompt = `Please implement the following User Story:
-
-## Epic: ${epicTitle}
-## Feature: ${featureTitle}
-
-## User Story: ${story.title}
-
-**Description:**
-${story.description || 'No description provided'}
-`;
+  private sendImplementationPrompt(
+    sandboxId: string,
+    prompt: string,
+    handlers: { sent: () => void; completed: () => void; failed: (reason: string) => void }
+  ): void {
+    const maxRetries = 5;
+
+    const sendWithRetry = (attempt: number) => {
+      const delay = attempt === 0 ? 25000 : 15000;
+      setTimeout(() => {
+        const promptSentTimestamp = Date.now() / 1000;
+        console.log(`Sending implementation prompt to Zed (attempt ${attempt + 1}/${maxRetries})...`);
+
+        this.sandboxBridgeService.sendZedPrompt(sandboxId, prompt).subscribe({
+          next: (result) => {
+            console.log('Implementation prompt sent:', result);
+            handlers.sent();
+
+            this.sandboxBridgeService.waitForImplementationComplete(
+              sandboxId,
+              promptSentTimestamp,
+              5000,
+              600000
+            ).subscribe({
+              next: (conversation) => {
+                console.log('Implementation completed!', conversation);
+                handlers.completed();
+              },
+              error: (err) => {
+                console.warn('Failed to detect implementation completion:', err);
+                handlers.failed('Could not detect when the agent finished');
+              }
+            });
+          },
+          error: (err) => {
+            console.warn(`Prompt send attempt ${attempt + 1} failed:`, err);
+            if (attempt + 1 < maxRetries) {
+              sendWithRetry(attempt + 1);
+            } else {
+              console.error('All prompt send attempts failed after retries');
+              handlers.failed('Prompt could not be sent to the agent');
+            }
+          }
+        });
+      }, delay);
+    };
+    sendWithRetry(0);
+  }
 
-    if (story.acceptanceCriteria) {
-      prompt += `
-**Acceptance Criteria:**
-${story.acceptanceCriteria}
-`;
-    }
+  /**
+   * Build the implementation prompt for a user story from its prompt template
+   * (story selection, else the repository default, else the built-in template).
+   */
+  private buildImplementationPrompt(story: UserStory, featureTitle: string, epicTitle: string): string {
+    const templates = this.repositoryPromptTemplates();
+    const template =
+      templates.find(t => t.id === story.repositoryPromptTemplateId) ?? templates.find(t => t.isDefault);
+    const body = template?.body?.trim() ? template.body : DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE;
+    const ctx = this.buildImplementationPromptContext(story);
+    return renderImplementationPrompt(body, {
+      ...ctx,
+      feature: { ...ctx.feature, title: featureTitle },
+      epic: { ...ctx.epic, title: epicTitle }
+    });
+  }
 
-    if (story.storyPoints) {
-      prompt += `
-**Story Points:** ${story.storyPoints}
-`;
-    }
-    return prompt;
+  private buildImplementationPromptContext(story: UserStory): ImplementationPromptContext {
+    const epic = this.epics().find(e => e.features.some(f => f.id === story.featureId));
+    const feature = epic?.features.find(f => f.id === story.featureId);
+    const repo = this.repository();
+    return {
+      story,
+      feature: { title: feature?.title ?? '', description: feature?.description },
+      epic: { title: epic?.title ?? '', description: epic?.description },
+      repository: repo ? { name: repo.name, fullName: repo.fullName, defaultBranch: repo.defaultBranch } : undefined
+    };
   }
 
   /**
@@ -1427,7 +1954,89 @@ ${story.acceptanceCriteria}
   }
 
   isCreatingSandbox(storyId: string): boolean {
-    return this.creatingSandboxForStory() === storyId;
+    return this.creatingSandboxForStories().has(storyId);
+  }
+
+  /** Implement is unavailable while the sandbox is being created, the story waits in the queue or a dependency is not Done. */
+  isImplementBlocked(storyId: string): boolean {
+    if (this.isCreatingSandbox(storyId) || this.implementationQueue.getState(storyId) === 'waiting') return true;
+    const story = this.storiesById().get(storyId);
+    return !!story && this.getBlockingStories(story).length > 0;
+  }
+
+  /** Dependencies of the story that are not Done yet (ids no longer in the backlog are ignored). */
+  getBlockingStories(story: UserStory): UserStory[] {
+    const byId = this.storiesById();
+    return (story.dependsOnStoryIds ?? [])
+      .map(id => byId.get(id))
+      .filter((dep): dep is UserStory => !!dep && this.normalizeStatus(dep.status) !== 'done');
+  }
+
+  /** Tooltip for the blocked badge and disabled Implement buttons; null when nothing blocks the story. */
+  getBlockedReason(storyId: string): string | null {
+    const story = this.storiesById().get(storyId);
+    const blocking = story ? this.getBlockingStories(story) : [];
+    if (blocking.length === 0) return null;
+    return `Blocked until done: ${blocking.map(dep => dep.title).join(', ')}`;
+  }
+
+  private setCreatingSandbox(storyId: string, creating: boolean): void {
+    this.creatingSandboxForStories.update(ids => {
+      const next = new Set(ids);
+      if (creating) next.add(storyId);
+      else next.delete(storyId);
+      return next;
+    });
+  }
+
+  /** Queue every implementable selected story; the queue starts them as sandbox slots free up. */
+  implementSelectedStories(): void {
+    const repo = this.repository();
+    const items = this.implementableSelectedStories();
+    if (!repo || items.length === 0) return;
+    this.implementationQueue.enqueue(
+      items.map(({ story, featureTitle, epicTitle }) => ({
+        storyId: story.id,
+        storyTitle: story.title,
+        repositoryId: repo.id,
+        start: () => this.implementUserStory(story, featureTitle, epicTitle)
+      }))
+    );
+    this.deselectAllForSyncToAzure();
+  }
+
+  onQueueConcurrencyChange(value: string | number): void {
+    this.implementationQueue.setMaxConcurrent(Number(value));
+  }
+
+  getQueueState(storyId: string): ImplementationQueueState | null {
+    return this.implementationQueue.getState(storyId);
+  }
+
+  getQueueStateLabel(state: ImplementationQueueState): string {
+    switch (state) {
+      case 'waiting': return 'Queued';
+      case 'starting': return 'Starting sandbox';
+      case 'prompt_sent': return 'Prompt sent';
+      case 'ready_for_pr': return 'Ready for PR';
+      case 'failed': return 'Queue failed';
+    }
+  }
+
+  getQueueStateTitle(storyId: string): string {
+    const item = this.implementationQueue.getItem(storyId);
+    if (!item) return '';
+    if (item.state === 'failed' && item.error) return `Failed: ${item.error} (click to dismiss)`;
+    return this.getQueueStateLabel(item.state);
+  }
+
+  /** Dismiss a queue badge: drops failed items, cancels waiting ones. */
+  onQueueBadgeClick(event: Event, storyId: string): void {
+    event.stopPropagation();
+    const state = this.implementationQueue.getState(storyId);
+    if (state === 'failed' || state === 'waiting') {
+      this.implementationQueue.remove(storyId);
+    }
   }
 
   hasOpenSandbox(storyId: string): boolean {
@@ -1472,6 +2081,7 @@ ${story.acceptanceCriteria}
       this.backlogCrudMql.removeEventListener('change', this.onBacklogCrudMediaChange);
       this.backlogCrudMql = undefined;
     }
+    this.leaveBoardUpdates();
     this.destroy$.next();
     this.destroy$.complete();
   }
@@ -1973,6 +2583,12 @@ ${jsonFormatRequirement}`;
     return words.map(w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase()).join(' ');
   }
 
+  /** Tooltip of the last pre-PR test run badge. */
+  getStoryTestTitle(story: UserStory): string {
+    const when = story.lastTestRunAt ? ` (${new Date(story.lastTestRunAt).toLocaleString()})` : '';
+    return `Tests ${story.lastTestStatus?.toLowerCase()}${when}${story.lastTestSummary ? ': ' + story.lastTestSummary : ''}`;
+  }
+
   getStatusPercentage(status: string): number {
     const s = status.toLowerCase();
     if (s === 'done' || s === 'completed' || s === 'closed') return 100;
@@ -2014,6 +2630,93 @@ ${jsonFormatRequirement}`;
     return item.epicTitle === STANDALONE_EPIC_TITLE;
   }
 
+  getBoardLaneTitle(lane: BoardLane<BoardItem>): string {
+    if (this.boardSwimlanes() === 'epic') return this.getDisplayEpicTitle(lane.title);
+    return lane.title;
+  }
+
+  isBoardDropTarget(lane: BoardLane<BoardItem>, column: BoardColumnDef): boolean {
+    return this.boardDropTarget() === `${lane.key}|${column.key}`;
+  }
+
+  isBoardStoryMoving(storyId: string): boolean {
+    return this.boardMovingStoryIds().has(storyId);
+  }
+
+  onBoardDragStart(event: DragEvent, storyId: string, lane: BoardLane<BoardItem>, column: BoardColumnDef): void {
+    if (this.isBoardStoryMoving(storyId)) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer?.setData('text/plain', storyId);
+    if (event.dataTransfer) event.dataTransfer.effectAllowed = 'move';
+    this.boardDrag.set({ storyId, laneKey: lane.key, columnKey: column.key });
+    this.boardMoveError.set(null);
+  }
+
+  onBoardDragOver(event: DragEvent, lane: BoardLane<BoardItem>, column: BoardColumnDef): void {
+    const drag = this.boardDrag();
+    // Swimlanes group by parent; moving a card to another lane would mean re-parenting, which the board does not do
+    if (!drag || drag.laneKey !== lane.key) return;
+    event.preventDefault();
+    if (event.dataTransfer) event.dataTransfer.dropEffect = 'move';
+    this.boardDropTarget.set(`${lane.key}|${column.key}`);
+  }
+
+  onBoardDragLeave(event: DragEvent, lane: BoardLane<BoardItem>, column: BoardColumnDef): void {
+    const related = event.relatedTarget as Node | null;
+    if (related && (event.currentTarget as HTMLElement).contains(related)) return;
+    if (this.isBoardDropTarget(lane, column)) this.boardDropTarget.set(null);
+  }
+
+  onBoardDragEnd(): void {
+    this.boardDrag.set(null);
+    this.boardDropTarget.set(null);
+  }
+
+  onBoardDrop(event: DragEvent, lane: BoardLane<BoardItem>, column: BoardColumnDef): void {
+    event.preventDefault();
+    const drag = this.boardDrag();
+    this.onBoardDragEnd();
+    if (!drag || drag.laneKey !== lane.key || drag.columnKey === column.key) return;
+    this.moveStoryToStatus(drag.storyId, column.status);
+  }
+
+  /** Move a story to another column: update the board right away, then persist (reverted if the API refuses). */
+  private moveStoryToStatus(storyId: string, status: string): void {
+    const story = this.storiesById().get(storyId);
+    if (!story) return;
+    const previousStatus = story.status;
+    const setLocalStatus = (value: string) =>
+      this.epics.update(epics => epics.map(epic => ({
+        ...epic,
+        features: epic.features.map(feature => ({
+          ...feature,
+          userStories: feature.userStories.map(s => (s.id === storyId ? { ...s, status: value } : s))
+        }))
+      })));
+
+    setLocalStatus(status);
+    this.setBoardStoryMoving(storyId, true);
+    this.backlogService.updateStoryStatus(storyId, status).subscribe({
+      next: () => this.setBoardStoryMoving(storyId, false),
+      error: (err) => {
+        this.setBoardStoryMoving(storyId, false);
+        setLocalStatus(previousStatus);
+        this.boardMoveError.set(err?.error?.error || err?.message || `Failed to move "${story.title}"`);
+      }
+    });
+  }
+
+  private setBoardStoryMoving(storyId: string, moving: boolean): void {
+    this.boardMovingStoryIds.update(ids => {
+      const next = new Set(ids);
+      if (moving) next.add(storyId);
+      else next.delete(storyId);
+      return next;
+    });
+  }
+
   /** Whether a user story has a warning (missing acceptance criteria or story points) */
   hasStoryWarning(story: UserStory): boolean {
     const hasAc = story.acceptanceCriteria != null && String(story.acceptanceCriteria).trim().length > 0;
@@ -3364,6 +4067,154 @@ ${jsonFormatRequirement}`;
     return 'ado-state-default';
   }
 
+  // Backlog file export / import
+  exportBacklog(format: BacklogFileFormat): void {
+    this.showExportMenu.set(false);
+    const meta = BACKLOG_FILE_FORMATS.find(f => f.format === format)!;
+    const repoName = this.repository()?.fullName || this.repositoryName();
+    const content = serializeBacklogFile(toBacklogFile(this.epics(), repoName), format);
+    const url = URL.createObjectURL(new Blob([content], { type: `${meta.mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${(this.repositoryName() || 'backlog').replace(/[^\w.-]+/g, '-')}-backlog.${meta.extension}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  openFileImport(): void {
+    this.backlogFileInput()?.nativeElement.click();
+  }
+
+  onBacklogFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    this.fileImportName.set(file.name);
+    this.fileImportData.set(null);
+    this.fileImportError.set(null);
+    this.showFileImport.set(true);
+    file.text().then(
+      text => {
+        try {
+          this.fileImportData.set(parseBacklogFile(file.name, text));
+        } catch (err) {
+          this.fileImportError.set(err instanceof Error ? err.message : 'Could not read the file');
+          return;
+        }
+        this.selectAllFileImportItems();
+        this.expandedFileImportKeys.set(new Set(this.fileImportData()!.epics.map((_, ei) => `${ei}`)));
+      },
+      () => this.fileImportError.set('Could not read the file')
+    );
+  }
+
+  closeFileImport(): void {
+    this.showFileImport.set(false);
+    this.fileImportData.set(null);
+    this.fileImportError.set(null);
+    this.selectedFileImportKeys.set(new Set());
+    this.expandedFileImportKeys.set(new Set());
+  }
+
+  /** The key itself plus all descendant keys, leaving out stories that already exist. */
+  private fileImportSubtreeKeys(key: string): string[] {
+    const data = this.fileImportData();
+    if (!data) return [];
+    const [ei, fi, si] = key.split('.').map(Number);
+    const existing = this.existingFileImportKeys();
+    const keys: string[] = [];
+    const addStory = (k: string) => {
+      if (!existing.has(k)) keys.push(k);
+    };
+    if (si != null) {
+      addStory(key);
+      return keys;
+    }
+    keys.push(key);
+    const epic = data.epics[ei];
+    const features = fi != null ? [fi] : epic.features.map((_, j) => j);
+    for (const j of features) {
+      const fk = `${ei}.${j}`;
+      if (fk !== key) keys.push(fk);
+      epic.features[j].userStories.forEach((_, k) => addStory(`${fk}.${k}`));
+    }
+    return keys;
+  }
+
+  getFileImportCheckboxState(key: string): 'checked' | 'indeterminate' | 'unchecked' {
+    const keys = this.fileImportSubtreeKeys(key);
+    const selected = this.selectedFileImportKeys();
+    const count = keys.filter(k => selected.has(k)).length;
+    if (count === 0) return 'unchecked';
+    return count === keys.length ? 'checked' : 'indeterminate';
+  }
+
+  toggleFileImportSelection(key: string): void {
+    const keys = this.fileImportSubtreeKeys(key);
+    const check = this.getFileImportCheckboxState(key) !== 'checked';
+    const next = new Set(this.selectedFileImportKeys());
+    for (const k of keys) {
+      if (check) next.add(k);
+      else next.delete(k);
+    }
+    this.selectedFileImportKeys.set(next);
+  }
+
+  toggleFileImportExpand(key: string): void {
+    const next = new Set(this.expandedFileImportKeys());
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    this.expandedFileImportKeys.set(next);
+  }
+
+  selectAllFileImportItems(): void {
+    const data = this.fileImportData();
+    if (!data) return;
+    this.selectedFileImportKeys.set(new Set(data.epics.flatMap((_, ei) => this.fileImportSubtreeKeys(`${ei}`))));
+  }
+
+  deselectAllFileImportItems(): void {
+    this.selectedFileImportKeys.set(new Set());
+  }
+
+  importSelectedFileItems(): void {
+    const data = this.fileImportData();
+    const repoId = this.repositoryId();
+    if (!data || !repoId) return;
+    const selected = this.selectedFileImportKeys();
+    const has = (key: string) => selected.has(key) || [...selected].some(k => k.startsWith(key + '.'));
+    const filtered: BacklogFile = {
+      ...data,
+      epics: data.epics
+        .map((e, ei) => ({
+          ...e,
+          features: e.features
+            .map((f, fi) => ({ ...f, userStories: f.userStories.filter((_, si) => selected.has(`${ei}.${fi}.${si}`)) }))
+            .filter((_, fi) => has(`${ei}.${fi}`))
+        }))
+        .filter((_, ei) => has(`${ei}`))
+    };
+    if (filtered.epics.length === 0) {
+      this.fileImportError.set('Please select at least one item to import');
+      return;
+    }
+
+    this.fileImporting.set(true);
+    this.fileImportError.set(null);
+    this.backlogService.importBacklogFile(repoId, filtered).subscribe({
+      next: () => {
+        this.loadBacklog(repoId);
+        this.fileImporting.set(false);
+        this.closeFileImport();
+      },
+      error: (err) => {
+        this.fileImportError.set(err.error?.message || err.message || 'Failed to import backlog file');
+        this.fileImporting.set(false);
+      }
+    });
+  }
+
   // GitHub Import Methods
   openGitHubImport(): void {
     this.showGitHubImport.set(true);
@@ -3740,6 +4591,44 @@ ${jsonFormatRequirement}`;
     });
   }
 
+  private refreshPromptTemplates(repositoryId: string): void {
+    this.repositoryService.getRepositoryPromptTemplates(repositoryId).subscribe({
+      next: res => this.repositoryPromptTemplates.set(res.templates ?? []),
+      error: () => this.repositoryPromptTemplates.set([])
+    });
+  }
+
+  private refreshStoryUsage(repositoryId: string): void {
+    this.usageService.getRepositoryUsage(repositoryId).subscribe({
+      next: res => this.storyUsage.set(rollUpUsage(res.totals).byStory),
+      error: () => this.storyUsage.set(new Map())
+    });
+  }
+
+  /** Cost when the turns were priced, else tokens. */
+  storyUsageLabel(usage: UsageSum): string {
+    return usage.cost > 0 ? formatCost(usage.cost) : `${formatTokens(totalTokens(usage))} tok`;
+  }
+
+  storyUsageTitle(usage: UsageSum): string {
+    return `AI usage: ${formatTokens(usage.promptTokens)} prompt + ${formatTokens(usage.completionTokens)} completion tokens `
+      + `in ${usage.turns} agent turn${usage.turns === 1 ? '' : 's'} · ${formatCost(usage.cost)}`;
+  }
+
+  /** Past the soft limit the user is warned when starting an implementation (the hard limit is enforced by the API). */
+  private warnIfOverSoftBudget(): void {
+    this.usageService.getMyBudget().subscribe({
+      next: budget => {
+        if (budget.state !== 'SoftLimitReached') return;
+        this.notificationService.warning(
+          'AI budget',
+          `You have spent ${formatCost(budget.spent)} this month, over your soft limit of ${formatCost(budget.monthlySoftLimit ?? 0)}.`
+        );
+      },
+      error: () => {}
+    });
+  }
+
   activeRulesProfile(): RulesProfileRow | null {
     const rows = this.rulesProfiles();
     const i = this.rulesActiveProfileIndex();
@@ -3897,6 +4786,15 @@ ${jsonFormatRequirement}`;
     this.rulesViewMode.set('preview');
     this.rulesSaving.set(false);
     this.rulesLoading.set(false);
+    this.rulesModalTab.set('rules');
+    this.promptTemplateRows.set([]);
+    this.promptTemplateActiveIndex.set(0);
+    this.promptPreviewStoryId.set('');
+    this.promptTemplatesSaving.set(false);
+    this.sandboxProfileSaving.set(false);
+    this.sandboxProfileError.set(null);
+    this.prTemplateSaving.set(false);
+    this.prTemplateError.set(null);
   }
 
   onGlobalTemplateAutocompleteFocus(): void {
@@ -3998,6 +4896,249 @@ ${jsonFormatRequirement}`;
       });
   }
 
+  /** Switch the rules modal to prompt templates, loading the saved templates into the editor. */
+  openPromptTemplatesTab(): void {
+    this.rulesModalTab.set('prompts');
+    const repo = this.repository();
+    if (!repo || this.promptTemplatesLoading()) return;
+    this.promptTemplatesLoading.set(true);
+    this.repositoryService.getRepositoryPromptTemplates(repo.id).subscribe({
+      next: res => {
+        this.repositoryPromptTemplates.set(res.templates ?? []);
+        this.setPromptTemplateRows(res.templates ?? []);
+        this.promptTemplatesLoading.set(false);
+      },
+      error: () => {
+        this.setPromptTemplateRows(this.repositoryPromptTemplates());
+        this.promptTemplatesLoading.set(false);
+      }
+    });
+  }
+
+  private setPromptTemplateRows(templates: RepositoryPromptTemplateDto[]): void {
+    const rows: RulesProfileRow[] = templates.map(t => ({
+      id: t.id,
+      name: t.name,
+      body: t.body ?? '',
+      isDefault: t.isDefault,
+      sortOrder: t.sortOrder
+    }));
+    this.promptTemplateRows.set(rows);
+    const defIdx = rows.findIndex(r => r.isDefault);
+    this.promptTemplateActiveIndex.set(defIdx >= 0 ? defIdx : 0);
+  }
+
+  activePromptTemplate(): RulesProfileRow | null {
+    return this.promptTemplateRows()[this.promptTemplateActiveIndex()] ?? null;
+  }
+
+  patchActivePromptTemplate(partial: Partial<RulesProfileRow>): void {
+    const idx = this.promptTemplateActiveIndex();
+    this.promptTemplateRows.update(rows => {
+      if (!rows[idx]) return rows;
+      const next = [...rows];
+      next[idx] = { ...next[idx], ...partial };
+      return next;
+    });
+  }
+
+  selectPromptTemplateIndex(i: number): void {
+    if (i >= 0 && i < this.promptTemplateRows().length) {
+      this.promptTemplateActiveIndex.set(i);
+    }
+  }
+
+  /** New templates start from the built-in prompt so there is something to adapt. */
+  addPromptTemplateRow(): void {
+    this.promptTemplateRows.update(rows => [
+      ...rows,
+      {
+        id: null,
+        name: `Template ${rows.length + 1}`,
+        body: DEFAULT_IMPLEMENTATION_PROMPT_TEMPLATE,
+        isDefault: rows.length === 0,
+        sortOrder: rows.length
+      }
+    ]);
+    this.promptTemplateActiveIndex.set(Math.max(0, this.promptTemplateRows().length - 1));
+  }
+
+  removePromptTemplateRow(idx: number): void {
+    this.promptTemplateRows.update(rows => {
+      if (idx < 0 || idx >= rows.length) return rows;
+      const next = rows.filter((_, j) => j !== idx).map((r, j) => ({ ...r, sortOrder: j }));
+      if (next.length > 0 && !next.some(r => r.isDefault)) {
+        next[0] = { ...next[0], isDefault: true };
+      }
+      return next;
+    });
+    this.promptTemplateActiveIndex.update(cur =>
+      Math.min(cur, Math.max(0, this.promptTemplateRows().length - 1))
+    );
+  }
+
+  onPromptTemplateDefaultChange(checked: boolean): void {
+    const idx = this.promptTemplateActiveIndex();
+    this.promptTemplateRows.update(rows => {
+      if (checked || rows.length <= 1) {
+        return rows.map((r, j) => ({ ...r, isDefault: rows.length <= 1 || j === idx }));
+      }
+      const next = rows.map((r, j) => ({ ...r, isDefault: j === idx ? false : r.isDefault }));
+      if (!next.some(r => r.isDefault)) {
+        const fallback = idx === 0 ? 1 : 0;
+        return next.map((r, j) => ({ ...r, isDefault: j === fallback }));
+      }
+      return next;
+    });
+  }
+
+  /** Insert `{{key}}` at the editor caret (or at the end when the editor has no selection). */
+  insertPromptPlaceholder(key: string, editor: HTMLTextAreaElement): void {
+    const body = this.activePromptTemplate()?.body ?? '';
+    const token = `{{${key}}}`;
+    const start = editor.selectionStart ?? body.length;
+    const end = editor.selectionEnd ?? start;
+    this.patchActivePromptTemplate({ body: body.slice(0, start) + token + body.slice(end) });
+    setTimeout(() => {
+      editor.focus();
+      editor.setSelectionRange(start + token.length, start + token.length);
+    });
+  }
+
+  savePromptTemplates(): void {
+    const repo = this.repository();
+    if (!repo) return;
+    this.promptTemplatesSaving.set(true);
+    const payload = this.promptTemplateRows().map((r, i) => {
+      const item: ReplaceRepositoryPromptTemplateItem = {
+        name: (r.name || `Template ${i + 1}`).trim(),
+        body: r.body ?? '',
+        isDefault: r.isDefault,
+        sortOrder: i
+      };
+      const id = this.guidish(r.id);
+      if (id) item.id = id;
+      return item;
+    });
+    this.repositoryService.replaceRepositoryPromptTemplates(repo.id, payload).subscribe({
+      next: res => {
+        this.promptTemplatesSaving.set(false);
+        this.repositoryPromptTemplates.set(res.templates ?? []);
+        this.setPromptTemplateRows(res.templates ?? []);
+      },
+      error: () => {
+        this.promptTemplatesSaving.set(false);
+      }
+    });
+  }
+
+  /** Switch the rules modal to the sandbox profile, loading the saved profile into the editor. */
+  openSandboxProfileTab(): void {
+    this.rulesModalTab.set('sandbox');
+    const repo = this.repository();
+    if (!repo || this.sandboxProfileLoading()) return;
+    this.sandboxProfileLoading.set(true);
+    this.sandboxProfileError.set(null);
+    this.repositoryService.getRepositorySandboxProfile(repo.id).subscribe({
+      next: profile => {
+        this.sandboxProfileCommandsText.set((profile.setupCommands ?? []).join('\n'));
+        this.sandboxProfileEnvText.set(formatEnvLines(profile.environmentVariables));
+        this.sandboxProfilePreviewPort.set(profile.previewPort != null ? String(profile.previewPort) : '');
+        this.sandboxProfileUseDevcontainer.set(!!profile.useDevcontainer);
+        this.sandboxProfileTestCommand.set(profile.testCommand ?? '');
+        this.sandboxProfileBlockOnTestFailure.set(!!profile.blockPullRequestOnTestFailure);
+        this.sandboxProfileLoading.set(false);
+      },
+      error: () => {
+        this.sandboxProfileError.set('Failed to load the sandbox profile');
+        this.sandboxProfileLoading.set(false);
+      }
+    });
+  }
+
+  saveSandboxProfile(): void {
+    const repo = this.repository();
+    if (!repo) return;
+    const { env, errors } = parseEnvLines(this.sandboxProfileEnvText());
+    if (errors.length) {
+      this.sandboxProfileError.set(errors.join('; '));
+      return;
+    }
+    const testCommand = this.sandboxProfileTestCommand().trim();
+    if (testCommand.includes('\n')) {
+      this.sandboxProfileError.set('The test command must be a single line');
+      return;
+    }
+    const portText = this.sandboxProfilePreviewPort().trim();
+    const previewPort = portText ? Number(portText) : null;
+    if (previewPort != null && (!Number.isInteger(previewPort) || previewPort < 1 || previewPort > 65535)) {
+      this.sandboxProfileError.set('Preview port must be between 1 and 65535');
+      return;
+    }
+    this.sandboxProfileSaving.set(true);
+    this.sandboxProfileError.set(null);
+    this.repositoryService.updateRepositorySandboxProfile(repo.id, {
+      setupCommands: parseSetupCommands(this.sandboxProfileCommandsText()),
+      environmentVariables: env,
+      previewPort,
+      useDevcontainer: this.sandboxProfileUseDevcontainer(),
+      testCommand: testCommand || null,
+      blockPullRequestOnTestFailure: !!testCommand && this.sandboxProfileBlockOnTestFailure()
+    }).subscribe({
+      next: profile => {
+        this.sandboxProfileSaving.set(false);
+        this.sandboxProfileCommandsText.set((profile.setupCommands ?? []).join('\n'));
+        this.sandboxProfileEnvText.set(formatEnvLines(profile.environmentVariables));
+        this.sandboxProfileTestCommand.set(profile.testCommand ?? '');
+        this.sandboxProfileBlockOnTestFailure.set(!!profile.blockPullRequestOnTestFailure);
+      },
+      error: err => {
+        this.sandboxProfileSaving.set(false);
+        this.sandboxProfileError.set(err?.error?.message || 'Failed to save the sandbox profile');
+      }
+    });
+  }
+
+  /** Switch the rules modal to the pull request template, loading the saved template into the editor. */
+  openPullRequestTemplateTab(): void {
+    this.rulesModalTab.set('pullRequest');
+    const repo = this.repository();
+    if (!repo || this.prTemplateLoading()) return;
+    this.prTemplateLoading.set(true);
+    this.prTemplateError.set(null);
+    this.repositoryService.getRepositoryPullRequestTemplate(repo.id).subscribe({
+      next: template => {
+        this.prTemplateForm.set(toPrTemplateEditor(template));
+        this.prTemplateLoading.set(false);
+      },
+      error: () => {
+        this.prTemplateError.set('Failed to load the pull request template');
+        this.prTemplateLoading.set(false);
+      }
+    });
+  }
+
+  updatePrTemplateForm<K extends keyof PrTemplateEditorValue>(key: K, value: PrTemplateEditorValue[K]): void {
+    this.prTemplateForm.update(form => ({ ...form, [key]: value }));
+  }
+
+  savePullRequestTemplate(): void {
+    const repo = this.repository();
+    if (!repo) return;
+    this.prTemplateSaving.set(true);
+    this.prTemplateError.set(null);
+    this.repositoryService.updateRepositoryPullRequestTemplate(repo.id, fromPrTemplateEditor(this.prTemplateForm())).subscribe({
+      next: template => {
+        this.prTemplateSaving.set(false);
+        this.prTemplateForm.set(toPrTemplateEditor(template));
+      },
+      error: err => {
+        this.prTemplateSaving.set(false);
+        this.prTemplateError.set(err?.error?.message || 'Failed to save the pull request template');
+      }
+    });
+  }
+
   private azureIdentityWarningDismissStorageKey(repositoryId: string): string {
     return `${BacklogComponent.AZURE_IDENTITY_WARNING_DISMISS_STORAGE_PREFIX}${repositoryId}`;
   }
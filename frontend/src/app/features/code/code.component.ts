@@ -8,15 +8,16 @@ import {
   viewChild,
   ElementRef,
   effect,
-  inject
+  inject,
+  SecurityContext
 } from '@angular/core';
+import { DomSanitizer } from '@angular/platform-browser';
 import { CommonModule } from '@angular/common';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { HttpClient } from '@angular/common/http';
-import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
-import { Subject, Subscription, interval, firstValueFrom, of } from 'rxjs';
-import { takeUntil, takeWhile, switchMap, catchError } from 'rxjs/operators';
+import { Subject, Subscription, interval, firstValueFrom, of, throwError } from 'rxjs';
+import { takeUntil, takeWhile, switchMap, catchError, filter, tap, timeout } from 'rxjs/operators';
 import {
   RepositoryService,
   RepositoryTree,
@@ -30,7 +31,13 @@ import {
 import { SandboxService, CreateSandboxResponse } from '../../core/services/sandbox.service';
 import { AIConfigService } from '../../core/services/ai-config.service';
 import { VncViewerService } from '../../core/services/vnc-viewer.service';
-import { SandboxBridgeService, ZedConversation, ConversationMessage } from '../../core/services/sandbox-bridge.service';
+import {
+  SandboxBridgeService,
+  ZedConversation,
+  ConversationMessage,
+  HeadlessPromptUpdate
+} from '../../core/services/sandbox-bridge.service';
+import { AgentStreamUnavailableError, AgentToolActivity } from '../../core/services/agent-events';
 import { MarkdownPipe } from '../../shared/pipes/markdown.pipe';
 import { Repository } from '../../shared/models/repository.model';
 import { CodeHighlightPipe } from '../../shared/pipes/code-highlight.pipe';
@@ -38,7 +45,16 @@ import { VPS_CONFIG } from '../../core/config/vps.config';
 import { LastVisitedRepositoryService } from '../../core/services/last-visited-repository.service';
 import { CodeAskConversationService } from '../../core/services/code-ask-conversation.service';
 import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
+import {
+  TRANSCRIPT_FORMATS,
+  TranscriptFormat,
+  renderTranscript,
+  transcriptFileName,
+  turnsFromCodeAsk
+} from '../../core/services/conversation-transcript';
 import { ButtonComponent } from '../../shared/components';
+import { SandboxTerminalComponent } from '../../components/sandbox-terminal/sandbox-terminal.component';
+import { SandboxPreviewComponent } from '../../components/sandbox-preview/sandbox-preview.component';
 
 // Extended tree item with children and state
 export interface TreeNode extends RepositoryTreeItem {
@@ -50,6 +66,9 @@ export interface TreeNode extends RepositoryTreeItem {
 
 export type TabType = 'code' | 'pullRequests' | 'analysis' | 'ask';
 
+/** Longest wait for a streamed Ask answer (the polling fallback has its own attempt cap). */
+const ASK_ANSWER_TIMEOUT_MS = 10 * 60 * 1000;
+
 /** One turn in the Code “Ask” panel (headless sandbox agent). */
 export interface CodeAskMessage {
   id: string;
@@ -65,12 +84,11 @@ export interface CodeAskMessage {
 @Component({
   selector: 'app-code',
   standalone: true,
-  imports: [CommonModule, FormsModule, RouterLink, CodeHighlightPipe, MarkdownPipe, ButtonComponent],
+  imports: [CommonModule, FormsModule, RouterLink, CodeHighlightPipe, MarkdownPipe, ButtonComponent, SandboxTerminalComponent, SandboxPreviewComponent],
   templateUrl: './code.component.html',
   styleUrl: './code.component.css'
 })
 export class CodeComponent implements OnInit, OnDestroy {
-  private readonly sanitizer = inject(DomSanitizer);
 
   // State signals
   repository = signal<Repository | null>(null);
@@ -132,6 +150,9 @@ export class CodeComponent implements OnInit, OnDestroy {
 
   // Ask (headless agent — same bridge `/agent/prompt` as ACP tool loop; no VNC)
   codeChatMessages = signal<CodeAskMessage[]>([]);
+  /** Transcript export menu of the Ask thread. */
+  showAskExportMenu = signal(false);
+  readonly transcriptFormats = TRANSCRIPT_FORMATS;
   codeChatInput = signal<string>('');
   codeChatBusy = signal<boolean>(false);
   codeChatError = signal<string | null>(null);
@@ -146,49 +167,17 @@ export class CodeComponent implements OnInit, OnDestroy {
   /** Short status line from bridge live_response.content (current tool name or “Starting agent…”). */
   codeChatStreamHint = signal<string | null>(null);
 
-  /** Dev-server port for Ask app preview; null until the user picks one (iframe stays empty). */
-  codeAskPreviewPort = signal<number | null>(null);
   /** When true, split Ask into two columns: chat left, sandbox app preview right. */
   codeAskPreviewEmbedded = signal<boolean>(false);
-  /** Custom port dropdown (same pattern as branch selector). */
-  showCodeAskPreviewPortDropdown = signal<boolean>(false);
-  /** Free-form port input backing value for the dropdown's text field. */
-  codeAskPreviewPortInput = signal<string>('');
-  /** Transient validation message for the port field. */
-  codeAskPreviewPortError = signal<string | null>(null);
-  /**
-   * Optional sub-path appended to the preview URL (e.g. "/login", "app/dashboard?x=1").
-   * Kept as the raw user string while editing; normalized when the URL is built.
-   */
-  codeAskPreviewPath = signal<string>('');
-  /**
-   * Last-applied path (the one actually loaded in the iframe). Mutating the text
-   * field above shouldn't reload the iframe on every keystroke — we only reload
-   * when the user hits Enter, clicks Go, or picks a new port.
-   */
-  codeAskPreviewAppliedPath = signal<string>('');
-  /**
-   * Bumped on embedded preview refresh so the iframe `src` changes and reloads.
-   */
-  private readonly codeAskPreviewReloadNonce = signal(0);
+  /** Web terminal into the Ask sandbox, docked under the chat (and preview). */
+  codeAskTerminalOpen = signal<boolean>(false);
+  /** Preview port from the repository's sandbox profile; preselected when the preview opens. */
+  readonly profilePreviewPort = signal<number | null>(null);
   /**
    * When true (with split preview on), the preview column gets most of the width and
    * the iframe a tall min-height for a “big view” without leaving the app.
    */
   codeAskPreviewBigView = signal(false);
-  /** Wrapper around the preview iframe; used for browser fullscreen. */
-  private readonly askPreviewFrameHost = viewChild<ElementRef<HTMLElement>>('codeAskPreviewFrameWrap');
-
-  /** Ports blocked by the proxy (keep in sync with DENIED_PREVIEW_PORTS on the backend / manager). */
-  private readonly codeAskPreviewDeniedPorts: ReadonlySet<number> = new Set([
-    0, 22, 25, 111, 135, 139, 445, 389, 636, 1433, 3306, 5432,
-    5900, 6379, 6080, 6081, 8090, 8091, 9042, 11211, 27017
-  ]);
-
-  /** Common dev-server ports shown as quick-pick suggestions (any other port works too). */
-  readonly codeAskPreviewPortOptions: readonly number[] = [
-    3000, 3001, 4173, 4200, 5000, 5173, 5174, 8000, 8080, 8081, 8888, 9000
-  ];
 
   /** Avoid double restore when branches + tree load triggers twice. */
   private codeAskRestoreDoneForRepo: string | null = null;
@@ -203,6 +192,8 @@ export class CodeComponent implements OnInit, OnDestroy {
   askPushFeedback = signal<{ type: 'success' | 'error'; message: string } | null>(null);
   /** User requested stop while the headless agent is running. */
   private codeAskStopRequested = false;
+  /** Ends a streamed Ask wait on stop (the polling fallback checks {@link codeAskStopRequested}). */
+  private readonly codeAskStop$ = new Subject<void>();
   /** Set after `/agent/prompt` returns so we can resolve partial output on user stop. */
   private lastCodeAskPromptId: string | null = null;
 
@@ -277,45 +268,6 @@ export class CodeComponent implements OnInit, OnDestroy {
   openPrCount = computed(() => this.pullRequests().filter(pr => pr.state === 'open').length);
   closedPrCount = computed(() => this.pullRequests().filter(pr => pr.state !== 'open').length);
 
-  /** Safe URL for split-view preview iframe (null until port is chosen or column hidden). */
-  askPreviewSafeUrl = computed((): SafeResourceUrl | null => {
-    if (!this.codeAskPreviewEmbedded()) return null;
-    const sid = this.codeChatSandboxId();
-    if (!sid) return null;
-    const port = this.codeAskPreviewPort();
-    if (port == null) return null;
-    const raw = this.buildCodeAskPreviewUrl(sid, port, this.codeAskPreviewAppliedPath());
-    const bust = this.codeAskPreviewReloadNonce();
-    const withBust = this.appendPreviewQueryParam(raw, '__dpPreview', String(bust));
-    return this.sanitizer.bypassSecurityTrustResourceUrl(withBust);
-  });
-
-  /**
-   * Build a preview URL with an optional sub-path. Keeps the trailing `/` on the
-   * base so sandboxed dev servers (Angular/Vite) resolve relative assets correctly,
-   * then appends the user-provided path segment (leading `/` is stripped).
-   */
-  private buildCodeAskPreviewUrl(sandboxId: string, port: number, subPath: string): string {
-    const base = this.sandboxBridgeService.buildPreviewUrl(sandboxId, port);
-    const trimmed = (subPath || '').trim();
-    if (!trimmed) return base;
-    const hasQueryOrHash = trimmed.startsWith('?') || trimmed.startsWith('#');
-    const normalized = hasQueryOrHash ? trimmed : trimmed.replace(/^\/+/, '');
-    return `${base}${normalized}`;
-  }
-
-  /**
-   * Add a query param to a preview URL without breaking an existing `?` / `#` structure.
-   */
-  private appendPreviewQueryParam(url: string, key: string, value: string): string {
-    const sep = (s: string) => (s.includes('?') ? '&' : '?') + key + '=' + encodeURIComponent(value);
-    const hashIdx = url.indexOf('#');
-    if (hashIdx === -1) {
-      return url + sep(url);
-    }
-    const before = url.slice(0, hashIdx);
-    return before + sep(before) + url.slice(hashIdx);
-  }
 
   constructor(
     private route: ActivatedRoute,
@@ -328,7 +280,9 @@ export class CodeComponent implements OnInit, OnDestroy {
     private codeAskConversationService: CodeAskConversationService,
     private confirmDialog: ConfirmDialogService,
     private http: HttpClient,
-    private lastVisitedRepository: LastVisitedRepositoryService
+    private lastVisitedRepository: LastVisitedRepositoryService,
+    private sanitizer: DomSanitizer,
+    private markdownPipe: MarkdownPipe
   ) {
     effect(() => {
       this.activeTab();
@@ -339,7 +293,6 @@ export class CodeComponent implements OnInit, OnDestroy {
       this.codeChatStatus();
       this.codeChatError();
       if (this.activeTab() !== 'ask') {
-        this.showCodeAskPreviewPortDropdown.set(false);
         this.teardownAskThreadMutationObserver();
         return;
       }
@@ -457,6 +410,7 @@ export class CodeComponent implements OnInit, OnDestroy {
       this.lastVisitedRepository.remember(repoId);
       this.repositoryId.set(repoId);
       this.loadRepository(repoId);
+      this.loadSandboxProfilePreviewPort(repoId);
     } else {
       this.error.set('Repository ID is required');
     }
@@ -525,6 +479,15 @@ export class CodeComponent implements OnInit, OnDestroy {
     }
   }
 
+  private loadSandboxProfilePreviewPort(repositoryId: string): void {
+    this.repositoryService.getRepositorySandboxProfile(repositoryId)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: profile => this.profilePreviewPort.set(profile.previewPort ?? null),
+        error: () => this.profilePreviewPort.set(null)
+      });
+  }
+
   private loadBranchesAndTree(repositoryId: string): void {
     this.loading.set(true);
     this.error.set(null);
@@ -935,7 +898,7 @@ export class CodeComponent implements OnInit, OnDestroy {
       this.lastCodeAskPromptId = promptId;
 
       this.codeChatStatus.set('Agent is exploring the repository…');
-      const conv = await this.pollForHeadlessAnswer(sid, promptId);
+      const conv = await this.waitForHeadlessAnswer(sid, promptId);
       this.applyCompletedAskAssistantTurn(promptId, conv);
       this.codeChatStatus.set('');
       this.codeChatLiveTools.set([]);
@@ -1330,160 +1293,18 @@ export class CodeComponent implements OnInit, OnDestroy {
     this.vncViewerService.setDockPosition(sid, 'floating');
   }
 
-  /** Open proxied dev-server preview in a new tab (e.g. after agent runs `npm run dev`). */
-  openCodeAskPreviewInNewTab(): void {
-    const sid = this.codeChatSandboxId();
-    const port = this.codeAskPreviewPort();
-    if (!sid || port == null) return;
-    const url = this.buildCodeAskPreviewUrl(sid, port, this.codeAskPreviewAppliedPath());
-    const t = window.open(url, '_blank', 'noopener,noreferrer');
-    t?.focus();
-  }
-
   /** Widen the preview and give the iframe a much larger share of the page (in-app, no popup). */
   toggleCodeAskPreviewBigView(): void {
-    this.codeAskPreviewBigView.update(was => {
-      if (was) {
-        this.exitCodeAskPreviewFullscreenIfNeeded();
-      }
-      return !was;
-    });
-  }
-
-  isCodeAskPreviewInFullscreen(): boolean {
-    const el = this.askPreviewFrameHost()?.nativeElement;
-    return !!el && document.fullscreenElement === el;
-  }
-
-  @HostListener('document:fullscreenchange')
-  onCodeAskPreviewDocumentFullscreenChange(): void {
-    /* Ensures the fullscreen toggle icon updates when the user hits Escape. */
-  }
-
-  /** Fullscreen the preview frame on the current monitor (best paired with big view). */
-  toggleCodeAskPreviewFullscreen(): void {
-    const el = this.askPreviewFrameHost()?.nativeElement;
-    if (!el) {
-      return;
-    }
-    if (document.fullscreenElement === el) {
-      this.exitCodeAskPreviewFullscreenIfNeeded();
-      return;
-    }
-    const req =
-      el.requestFullscreen?.bind(el) ||
-      (el as HTMLElement & { webkitRequestFullscreen?: () => Promise<void> }).webkitRequestFullscreen?.bind(
-        el
-      );
-    if (req) {
-      void req();
-    }
-  }
-
-  private exitCodeAskPreviewFullscreenIfNeeded(): void {
-    if (!document.fullscreenElement) {
-      return;
-    }
-    const ex =
-      document.exitFullscreen?.bind(document) ||
-      (document as Document & { webkitExitFullscreen?: () => Promise<void> }).webkitExitFullscreen?.bind(
-        document
-      );
-    if (ex) {
-      void ex();
-    }
-  }
-
-  /** Reload the embedded preview iframe (full navigation). */
-  refreshCodeAskPreview(): void {
-    if (this.codeAskPreviewPort() == null) {
-      return;
-    }
-    this.codeAskPreviewReloadNonce.update(n => n + 1);
+    this.codeAskPreviewBigView.update(was => !was);
   }
 
   toggleCodeAskPreviewEmbedded(): void {
     this.codeAskPreviewEmbedded.update(v => {
-      const next = !v;
-      if (next) {
-        this.codeAskPreviewPort.set(null);
-        this.codeAskPreviewPortInput.set('');
-        this.codeAskPreviewPortError.set(null);
-        this.codeAskPreviewPath.set('');
-        this.codeAskPreviewAppliedPath.set('');
-      } else {
-        this.codeAskPreviewBigView.set(false);
-        this.exitCodeAskPreviewFullscreenIfNeeded();
-      }
-      this.showCodeAskPreviewPortDropdown.set(false);
-      return next;
-    });
-  }
-
-  /** Commit the edited path (Enter / Go button): reloads the iframe. */
-  applyCodeAskPreviewPath(): void {
-    this.codeAskPreviewAppliedPath.set(this.codeAskPreviewPath());
-  }
-
-  /** Enter commits the path; Escape reverts to the last applied value. */
-  onCodeAskPreviewPathKeydown(event: KeyboardEvent): void {
-    if (event.key === 'Enter') {
-      event.preventDefault();
-      this.applyCodeAskPreviewPath();
-    } else if (event.key === 'Escape') {
-      this.codeAskPreviewPath.set(this.codeAskPreviewAppliedPath());
-    }
-  }
-
-  toggleCodeAskPreviewPortDropdown(): void {
-    this.showCodeAskPreviewPortDropdown.update(open => {
-      const next = !open;
-      if (next) {
-        this.codeAskPreviewPortInput.set(String(this.codeAskPreviewPort() ?? ''));
-        this.codeAskPreviewPortError.set(null);
-      }
-      return next;
+      if (v) this.codeAskPreviewBigView.set(false);
+      return !v;
     });
   }
 
-  selectCodeAskPreviewPort(port: number): void {
-    this.codeAskPreviewPort.set(port);
-    this.codeAskPreviewPortInput.set(String(port));
-    this.codeAskPreviewPortError.set(null);
-    this.showCodeAskPreviewPortDropdown.set(false);
-    // Keep the pending text-field path but commit it now so the iframe loads the combined URL.
-    this.codeAskPreviewAppliedPath.set(this.codeAskPreviewPath());
-  }
-
-  /** Apply the free-form port from the dropdown input (Enter / Apply button). */
-  applyCustomCodeAskPreviewPort(): void {
-    const raw = this.codeAskPreviewPortInput().trim();
-    if (!raw) {
-      this.codeAskPreviewPortError.set('Enter a port number.');
-      return;
-    }
-    const port = Number(raw);
-    if (!Number.isInteger(port) || port < 1 || port > 65535) {
-      this.codeAskPreviewPortError.set('Port must be a whole number between 1 and 65535.');
-      return;
-    }
-    if (this.codeAskPreviewDeniedPorts.has(port)) {
-      this.codeAskPreviewPortError.set(
-        `Port ${port} is reserved for an internal service and cannot be previewed.`);
-      return;
-    }
-    this.selectCodeAskPreviewPort(port);
-  }
-
-  onCodeAskPreviewPortKeydown(event: KeyboardEvent): void {
-    if (event.key === 'Enter') {
-      event.preventDefault();
-      this.applyCustomCodeAskPreviewPort();
-    } else if (event.key === 'Escape') {
-      this.showCodeAskPreviewPortDropdown.set(false);
-    }
-  }
-
   /**
    * Clear all Ask messages for the current branch: UI, persisted snapshot, and bridge history when connected.
    */
@@ -1530,6 +1351,35 @@ export class CodeComponent implements OnInit, OnDestroy {
     }
   }
 
+  /** Downloads the Ask thread of the current branch as a Markdown, HTML or JSON transcript. */
+  exportCodeAskConversation(format: TranscriptFormat): void {
+    this.showAskExportMenu.set(false);
+    const repo = this.repository();
+    const branch = this.currentBranch() || 'main';
+    const messages = this.codeChatMessages();
+    const title = `${repo?.name ?? 'Repository'} Ask (${branch})`;
+    const content = renderTranscript(
+      {
+        title,
+        details: [
+          { label: 'Repository', value: repo?.fullName ?? repo?.name ?? '' },
+          { label: 'Branch', value: branch }
+        ],
+        exportedAt: new Date().toISOString(),
+        sessions: [{ label: 'Code Ask', sandboxId: this.codeChatSandboxId() ?? undefined, turns: turnsFromCodeAsk(messages), raw: messages }]
+      },
+      format,
+      md => this.sanitizer.sanitize(SecurityContext.HTML, this.markdownPipe.renderHtml(md)) ?? ''
+    );
+    const meta = TRANSCRIPT_FORMATS.find(f => f.format === format)!;
+    const url = URL.createObjectURL(new Blob([content], { type: `${meta.mimeType};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = transcriptFileName(title, format);
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   /**
    * Request the running Ask headless task to end (clone wait, or agent poll).
    * Best-effort: also POSTs to the bridge stream abort endpoint.
@@ -1539,6 +1389,7 @@ export class CodeComponent implements OnInit, OnDestroy {
       return;
     }
     this.codeAskStopRequested = true;
+    this.codeAskStop$.next();
     const sid = this.codeChatSandboxId();
     if (sid) {
       this.sandboxBridgeService.abortStream(sid).subscribe({ error: () => void 0 });
@@ -1735,7 +1586,7 @@ export class CodeComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Merge or append the assistant turn after {@link pollForHeadlessAnswer} (send flow or refresh-resume).
+   * Merge or append the assistant turn after {@link waitForHeadlessAnswer} (send flow or refresh-resume).
    */
   private applyCompletedAskAssistantTurn(promptId: string, conv: ZedConversation): void {
     const toolSummary =
@@ -1790,7 +1641,7 @@ export class CodeComponent implements OnInit, OnDestroy {
     this.codeChatStatus.set('Agent still running — reconnecting…');
     this.codeAskStopRequested = false;
     try {
-      const conv = await this.pollForHeadlessAnswer(sandboxId, pid);
+      const conv = await this.waitForHeadlessAnswer(sandboxId, pid);
       this.applyCompletedAskAssistantTurn(pid, conv);
       this.codeChatStatus.set('');
       this.codeChatLiveTools.set([]);
@@ -1819,6 +1670,54 @@ export class CodeComponent implements OnInit, OnDestroy {
     }
   }
 
+  /**
+   * Answer of a headless Ask run: follows the agent event stream (live tools and text, explicit turn
+   * complete) and polls with {@link pollForHeadlessAnswer} when streaming is unavailable.
+   */
+  private async waitForHeadlessAnswer(sandboxId: string, promptId: string): Promise<ZedConversation> {
+    let update: HeadlessPromptUpdate | null;
+    try {
+      update = await firstValueFrom(
+        this.sandboxBridgeService.followHeadlessPrompt(sandboxId, promptId).pipe(
+          tap(u => this.showAskLiveProgress(u.live.tools, u.live.content)),
+          filter(u => u.finished),
+          takeUntil(this.codeAskStop$),
+          timeout({ first: ASK_ANSWER_TIMEOUT_MS, with: () => throwError(() => new Error('Timed out waiting for the agent.')) })
+        ),
+        { defaultValue: null }
+      );
+    } catch (e: unknown) {
+      if (e instanceof AgentStreamUnavailableError) {
+        return this.pollForHeadlessAnswer(sandboxId, promptId);
+      }
+      throw e;
+    }
+    if (this.codeAskStopRequested || !update) {
+      throw new Error('Stopped');
+    }
+    const hit = update.conversation;
+    if (hit?.assistant_message?.trim()) {
+      return hit;
+    }
+    if (hit) {
+      throw new Error('Agent finished but returned an empty answer. Try rephrasing your prompt.');
+    }
+    throw new Error('Agent finished without a recorded answer. Try again or check sandbox logs.');
+  }
+
+  /** Live tool calls and answer text of the running Ask turn. */
+  private showAskLiveProgress(tools: AgentToolActivity[], content: string | undefined): void {
+    if (tools.length) {
+      this.codeChatLiveTools.set(tools.map(t => ({ name: t.name, args_preview: t.args_preview })));
+    }
+    if (content) {
+      this.codeChatStreamHint.set(content);
+    } else if (tools.length) {
+      const last = tools[tools.length - 1];
+      this.codeChatStreamHint.set(last?.name ? `Running: ${last.name}` : null);
+    }
+  }
+
   private async pollForHeadlessAnswer(sandboxId: string, promptId: string): Promise<ZedConversation> {
     const maxAttempts = 600;
     for (let i = 0; i < maxAttempts; i++) {
@@ -1832,18 +1731,7 @@ export class CodeComponent implements OnInit, OnDestroy {
       const running = await firstValueFrom(this.sandboxBridgeService.getAgentRunningStatus(sandboxId));
 
       const all = await firstValueFrom(this.sandboxBridgeService.getAllConversations(sandboxId));
-      const hp = all.headless_progress;
-      if (hp?.tools?.length) {
-        this.codeChatLiveTools.set(
-          hp.tools.map(t => ({ name: t.name, args_preview: t.args_preview }))
-        );
-      }
-      if (all.live_response?.content) {
-        this.codeChatStreamHint.set(all.live_response.content);
-      } else if (hp?.tools?.length) {
-        const last = hp.tools[hp.tools.length - 1];
-        this.codeChatStreamHint.set(last?.name ? `Running: ${last.name}` : null);
-      }
+      this.showAskLiveProgress(all.headless_progress?.tools ?? [], all.live_response?.content);
 
       const hit = all.conversations.find(c => c.id === promptId);
       const body = hit?.assistant_message?.trim();
@@ -1906,13 +1794,6 @@ export class CodeComponent implements OnInit, OnDestroy {
     this.codeChatSandboxOwned.set(false);
     this.codeAskPreviewEmbedded.set(false);
     this.codeAskPreviewBigView.set(false);
-    this.codeAskPreviewPort.set(null);
-    this.codeAskPreviewPortInput.set('');
-    this.codeAskPreviewPortError.set(null);
-    this.codeAskPreviewPath.set('');
-    this.codeAskPreviewAppliedPath.set('');
-    this.showCodeAskPreviewPortDropdown.set(false);
-    this.exitCodeAskPreviewFullscreenIfNeeded();
     this.codeChatMessages.set([]);
     this.codeChatStatus.set('');
     this.codeChatError.set(null);
@@ -0,0 +1,259 @@
+import { Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { Subject, forkJoin, takeUntil } from 'rxjs';
+import { BacklogService } from '../../core/services/backlog.service';
+import { RepositoryService } from '../../core/services/repository.service';
+import { UsageService } from '../../core/services/usage.service';
+import {
+  BurndownPoint,
+  RepositoryInsightsResponse,
+  buildAgentShare,
+  buildBurndown,
+  buildCycleTimes,
+  formatDuration,
+  groupTransitions,
+  summarizeCycleTimes
+} from '../../core/services/backlog-insights';
+import {
+  RepositoryUsageResponse,
+  UsageBudgetStatus,
+  UsageSum,
+  formatCost,
+  formatTokens,
+  rollUpUsage,
+  topUsage,
+  totalTokens
+} from '../../core/services/token-usage';
+import { Epic } from '../../shared/models/epic.model';
+import { Sprint } from '../../shared/models/sprint.model';
+import { UserStory } from '../../shared/models/user-story.model';
+
+/** Chart drawing area, in SVG user units. */
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+/** Rows shown per table of the AI usage card. */
+const USAGE_ROWS = 8;
+
+interface UsageRow {
+  id: string;
+  label: string;
+  usage: UsageSum;
+}
+
+interface BurndownScope {
+  /** `sprint:<id>` or `epic:<id>` */
+  key: string;
+  label: string;
+}
+
+@Component({
+  selector: 'app-insights',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './insights.component.html',
+  styleUrl: './insights.component.css'
+})
+export class InsightsComponent implements OnInit, OnDestroy {
+  private readonly destroy$ = new Subject<void>();
+
+  readonly chartWidth = CHART_WIDTH;
+  readonly chartHeight = CHART_HEIGHT;
+
+  repositoryId = signal('');
+  repositoryName = signal('');
+  loading = signal(true);
+  error = signal<string | null>(null);
+
+  private readonly epics = signal<Epic[]>([]);
+  readonly sprints = signal<Sprint[]>([]);
+  private readonly insights = signal<RepositoryInsightsResponse>({ transitions: [], agentRuns: [] });
+  burndownScope = signal('');
+  /** Token usage of agent turns; null until loaded (or when the usage endpoint fails). */
+  private readonly usage = signal<RepositoryUsageResponse | null>(null);
+  readonly myBudget = signal<UsageBudgetStatus | null>(null);
+
+  private readonly stories = computed<UserStory[]>(() =>
+    this.epics().flatMap(e => e.features.flatMap(f => f.userStories))
+  );
+  private readonly byStory = computed(() => groupTransitions(this.insights().transitions));
+
+  readonly scopes = computed<BurndownScope[]>(() => [
+    ...this.sprints().map(s => ({ key: `sprint:${s.id}`, label: `Sprint · ${s.name}` })),
+    ...this.epics().map(e => ({ key: `epic:${e.id}`, label: `Epic · ${e.title}` }))
+  ]);
+
+  readonly burndown = computed<BurndownPoint[]>(() => {
+    const [kind, id] = this.burndownScope().split(':');
+    const now = new Date();
+    if (kind === 'sprint') {
+      const sprint = this.sprints().find(s => s.id === id);
+      if (!sprint) return [];
+      const stories = this.stories().filter(s => s.sprintId === sprint.id);
+      const start = sprint.startDate ? new Date(sprint.startDate) : earliest(stories) ?? now;
+      const end = sprint.endDate ? new Date(sprint.endDate) : now;
+      return buildBurndown(stories, this.byStory(), start, end, now);
+    }
+    if (kind === 'epic') {
+      const epic = this.epics().find(e => e.id === id);
+      if (!epic) return [];
+      const stories = epic.features.flatMap(f => f.userStories);
+      return buildBurndown(stories, this.byStory(), earliest(stories) ?? new Date(epic.createdAt), now, now);
+    }
+    return [];
+  });
+
+  readonly burndownMax = computed(() =>
+    Math.max(1, ...this.burndown().map(p => Math.max(p.ideal, p.remaining ?? 0)))
+  );
+  readonly idealLine = computed(() => this.polyline(this.burndown().map(p => p.ideal)));
+  readonly actualLine = computed(() => this.polyline(this.burndown().map(p => p.remaining)));
+
+  /** Tick labels: first, middle and last day. */
+  readonly axisLabels = computed(() => {
+    const points = this.burndown();
+    const idx = points.length ? [...new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])] : [];
+    return idx.map(i => ({ x: this.x(i, points.length), label: points[i].date.slice(5) }));
+  });
+
+  readonly burndownRemaining = computed(() => {
+    const known = this.burndown().filter(p => p.remaining != null);
+    return known.length ? known[known.length - 1].remaining : null;
+  });
+
+  readonly cycleTimes = computed(() =>
+    buildCycleTimes(this.stories(), this.byStory())
+      .filter(e => e.doneAt)
+      .sort((a, b) => (b.doneAt ?? '').localeCompare(a.doneAt ?? ''))
+  );
+  readonly cycleSummary = computed(() => summarizeCycleTimes(this.cycleTimes()));
+  readonly agentShare = computed(() => buildAgentShare(this.stories(), this.insights().agentRuns));
+  readonly agentPercent = computed(() => {
+    const { agent, manual } = this.agentShare();
+    return agent + manual === 0 ? 0 : Math.round((agent / (agent + manual)) * 100);
+  });
+  readonly hasHistory = computed(() => this.insights().transitions.length > 0);
+
+  readonly usageRollup = computed(() => rollUpUsage(this.usage()?.totals ?? []));
+  readonly hasUsage = computed(() => this.usageRollup().repository.turns > 0);
+  readonly usageByEpic = computed<UsageRow[]>(() => {
+    const titles = new Map(this.epics().map(e => [e.id, e.title]));
+    return topUsage(this.usageRollup().byEpic, USAGE_ROWS)
+      .map(e => ({ ...e, label: titles.get(e.id) ?? 'Deleted epic' }));
+  });
+  readonly usageByStory = computed<UsageRow[]>(() => {
+    const titles = new Map(this.stories().map(s => [s.id, s.title]));
+    return topUsage(this.usageRollup().byStory, USAGE_ROWS)
+      .map(e => ({ ...e, label: titles.get(e.id) ?? 'Deleted story' }));
+  });
+  readonly usageByUser = computed<UsageRow[]>(() => {
+    const names = new Map((this.usage()?.users ?? []).map(u => [u.id, u.name]));
+    return topUsage(this.usageRollup().byUser, USAGE_ROWS)
+      .map(e => ({ ...e, label: names.get(e.id) ?? 'Unknown user' }));
+  });
+  readonly usageTables = computed(() => [
+    { title: 'Story', rows: this.usageByStory() },
+    { title: 'Epic', rows: this.usageByEpic() },
+    { title: 'User', rows: this.usageByUser() }
+  ]);
+
+  readonly formatDuration = formatDuration;
+  readonly formatCost = formatCost;
+  readonly formatTokens = formatTokens;
+  readonly totalTokens = totalTokens;
+
+  constructor(
+    private route: ActivatedRoute,
+    private backlogService: BacklogService,
+    private repositoryService: RepositoryService,
+    private usageService: UsageService
+  ) {}
+
+  ngOnInit(): void {
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe(params => {
+      const id = params.get('repositoryId');
+      if (!id) return;
+      this.repositoryId.set(id);
+      this.loadRepositoryName(id);
+      this.load(id);
+      this.loadUsage(id);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  load(repositoryId: string): void {
+    this.loading.set(true);
+    this.error.set(null);
+    forkJoin({
+      epics: this.backlogService.getBacklog(repositoryId),
+      sprints: this.backlogService.getSprints(repositoryId),
+      insights: this.backlogService.getInsights(repositoryId)
+    }).pipe(takeUntil(this.destroy$)).subscribe({
+      next: ({ epics, sprints, insights }) => {
+        this.epics.set(epics);
+        this.sprints.set(sprints);
+        this.insights.set(insights);
+        this.burndownScope.set(this.defaultScope(epics, sprints));
+        this.loading.set(false);
+      },
+      error: err => {
+        this.loading.set(false);
+        this.error.set(err?.error?.error || 'Failed to load insights');
+      }
+    });
+  }
+
+  /** Loaded apart from the backlog so the other cards still show when usage is unavailable. */
+  private loadUsage(repositoryId: string): void {
+    this.usage.set(null);
+    this.usageService.getRepositoryUsage(repositoryId).pipe(takeUntil(this.destroy$)).subscribe({
+      next: usage => this.usage.set(usage),
+      error: err => console.error('Failed to load AI usage', err)
+    });
+    this.usageService.getMyBudget().pipe(takeUntil(this.destroy$)).subscribe({
+      next: budget => this.myBudget.set(budget),
+      error: () => this.myBudget.set(null)
+    });
+  }
+
+  private defaultScope(epics: Epic[], sprints: Sprint[]): string {
+    const sprint = sprints.find(s => s.status === 'Active')
+      ?? [...sprints].reverse().find(s => s.status === 'Completed')
+      ?? sprints[0];
+    if (sprint) return `sprint:${sprint.id}`;
+    return epics[0] ? `epic:${epics[0].id}` : '';
+  }
+
+  private polyline(values: Array<number | null>): string {
+    const max = this.burndownMax();
+    return values
+      .map((v, i) => (v == null ? null : `${this.x(i, values.length)},${CHART_HEIGHT - (v / max) * CHART_HEIGHT}`))
+      .filter(p => p != null)
+      .join(' ');
+  }
+
+  private x(index: number, count: number): number {
+    return count <= 1 ? 0 : (index / (count - 1)) * CHART_WIDTH;
+  }
+
+  private loadRepositoryName(repositoryId: string): void {
+    this.repositoryService.getRepositories().pipe(takeUntil(this.destroy$)).subscribe({
+      next: repos => {
+        const repo = repos.find(r => String(r.id) === String(repositoryId))
+          ?? this.repositoryService.getRepositoryById(repositoryId);
+        if (repo) this.repositoryName.set(repo.name);
+      }
+    });
+  }
+}
+
+function earliest(stories: UserStory[]): Date | null {
+  const times = stories.map(s => Date.parse(s.createdAt)).filter(t => !Number.isNaN(t));
+  return times.length ? new Date(Math.min(...times)) : null;
+}
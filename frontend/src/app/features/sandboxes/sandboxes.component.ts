@@ -0,0 +1,245 @@
+import { Component, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { EMPTY, Observable, Subject, forkJoin, of, timer } from 'rxjs';
+import { catchError, switchMap, takeUntil } from 'rxjs/operators';
+import { AuthService } from '../../core/services/auth.service';
+import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
+import { FleetSandbox, SandboxService } from '../../core/services/sandbox.service';
+import { SandboxBridgeService, SandboxStats } from '../../core/services/sandbox-bridge.service';
+import { VncViewerService } from '../../core/services/vnc-viewer.service';
+import {
+  fleetBindingLabel,
+  formatUptime,
+  isSandboxRunning,
+  secondsSince,
+  secondsUntil
+} from '../../core/services/sandbox-fleet';
+
+/** Fleet list refresh; bridge stats are reloaded with it. */
+const POLL_INTERVAL_MS = 15_000;
+
+/** Live numbers from the sandbox bridge (running sandboxes only). */
+interface SandboxLiveInfo {
+  stats: SandboxStats | null;
+  agentRunning: boolean;
+}
+
+/**
+ * Every sandbox the user can see (all users for admins), with its binding, uptime, time left
+ * before cleanup and live bridge stats. Supports bulk stop / delete and opening the desktop.
+ */
+@Component({
+  selector: 'app-sandboxes',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './sandboxes.component.html',
+  styleUrl: './sandboxes.component.css'
+})
+export class SandboxesComponent implements OnInit, OnDestroy {
+  private readonly destroy$ = new Subject<void>();
+  private readonly refresh$ = new Subject<void>();
+
+  readonly sandboxes = signal<FleetSandbox[]>([]);
+  readonly live = signal<Record<string, SandboxLiveInfo>>({});
+  readonly selected = signal<ReadonlySet<string>>(new Set());
+  readonly allUsers = signal(false);
+  readonly loading = signal(true);
+  readonly busy = signal(false);
+  readonly error = signal<string | null>(null);
+  readonly now = signal(Date.now());
+
+  readonly isAdmin = computed(() => this.authService.isAdmin());
+  readonly allSelected = computed(() => {
+    const rows = this.sandboxes();
+    return rows.length > 0 && rows.every(r => this.selected().has(r.id));
+  });
+  readonly selectedCount = computed(() => this.selected().size);
+  readonly runningCount = computed(() => this.sandboxes().filter(r => isSandboxRunning(r.status)).length);
+
+  readonly bindingLabel = fleetBindingLabel;
+  readonly formatUptime = formatUptime;
+  readonly isRunning = isSandboxRunning;
+
+  constructor(
+    private sandboxService: SandboxService,
+    private bridgeService: SandboxBridgeService,
+    private vncViewerService: VncViewerService,
+    private authService: AuthService,
+    private confirmDialog: ConfirmDialogService
+  ) {}
+
+  ngOnInit(): void {
+    this.refresh$
+      .pipe(
+        switchMap(() => timer(0, POLL_INTERVAL_MS)),
+        switchMap(() =>
+          this.sandboxService.getFleet(this.allUsers()).pipe(
+            catchError(err => {
+              this.loading.set(false);
+              this.error.set(err?.error?.error || 'Failed to load sandboxes');
+              return EMPTY;
+            })
+          )
+        ),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(({ sandboxes }) => {
+        this.now.set(Date.now());
+        this.sandboxes.set(sandboxes);
+        this.pruneSelection(sandboxes);
+        this.loading.set(false);
+        this.error.set(null);
+        this.loadLiveInfo(sandboxes);
+      });
+    this.refresh$.next();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  refresh(): void {
+    this.refresh$.next();
+  }
+
+  setAllUsers(value: boolean): void {
+    this.allUsers.set(value);
+    this.selected.set(new Set());
+    this.loading.set(true);
+    this.refresh();
+  }
+
+  toggle(id: string): void {
+    const next = new Set(this.selected());
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    this.selected.set(next);
+  }
+
+  toggleAll(): void {
+    this.selected.set(this.allSelected() ? new Set() : new Set(this.sandboxes().map(r => r.id)));
+  }
+
+  uptime(row: FleetSandbox): string {
+    if (!isSandboxRunning(row.status)) return '–';
+    const seconds = this.live()[row.id]?.stats?.uptime_seconds ?? secondsSince(row.createdAt, this.now());
+    return formatUptime(seconds);
+  }
+
+  timeLeft(row: FleetSandbox): string {
+    const seconds = secondsUntil(row.expiresAt, this.now());
+    if (seconds == null) return '–';
+    return seconds === 0 ? 'Expiring' : formatUptime(seconds);
+  }
+
+  owner(row: FleetSandbox): string {
+    if (row.isOwn) return 'You';
+    return row.ownerName || row.ownerEmail || (row.ownerId ? 'Unknown user' : 'Unclaimed');
+  }
+
+  /**
+   * Opens the noVNC desktop. Someone else's or a Code Ask sandbox opens as an auxiliary viewer,
+   * so closing the window does not delete it.
+   */
+  openDesktop(row: FleetSandbox): void {
+    const keepOnClose = !row.isOwn || row.kind === 'ask';
+    const title = row.kind === 'ask' && row.repositoryName
+      ? `${row.repositoryName}${row.branch ? ' · ' + row.branch : ''} · Ask`
+      : this.bindingLabel(row);
+    this.vncViewerService.open(row.id, title, undefined, row.vncPassword ?? undefined,
+      keepOnClose ? { hideMinimizedTray: true } : undefined);
+    this.vncViewerService.bringToFront(row.id);
+  }
+
+  async stopSelected(): Promise<void> {
+    const ids = this.selectedRunningIds();
+    if (ids.length === 0) return;
+    const ok = await this.confirmDialog.confirm({
+      title: 'Stop sandboxes',
+      message: `Stop ${ids.length} sandbox${ids.length === 1 ? '' : 'es'}? Running agents are interrupted.`,
+      confirmText: 'Stop'
+    });
+    if (!ok) return;
+    this.runBulk(ids.map(id => this.sandboxService.stopSandbox(id)));
+  }
+
+  async deleteSelected(): Promise<void> {
+    const rows = this.sandboxes().filter(r => this.selected().has(r.id));
+    if (rows.length === 0) return;
+    const ok = await this.confirmDialog.confirm({
+      title: 'Delete sandboxes',
+      message: `Delete ${rows.length} sandbox${rows.length === 1 ? '' : 'es'}? Unpushed work inside them is lost.`,
+      confirmText: 'Delete',
+      variant: 'danger'
+    });
+    if (!ok) return;
+    this.runBulk(rows.map(r => this.deleteRow(r)));
+  }
+
+  selectedRunningIds(): string[] {
+    return this.sandboxes()
+      .filter(r => this.selected().has(r.id) && isSandboxRunning(r.status))
+      .map(r => r.id);
+  }
+
+  /** Same teardown paths as the header menu, so Code Ask and open viewers clean up their state. */
+  private deleteRow(row: FleetSandbox): Observable<boolean> {
+    if (this.sandboxService.getCodeAskActiveSandboxId() === row.id) {
+      this.sandboxService.requestReleaseCodeChatSandbox(row.id);
+      return of(true);
+    }
+    const viewer = this.vncViewerService.getViewer(row.id);
+    if (viewer && !viewer.hideMinimizedTray) {
+      // The app deletes the sandbox when its viewer closes.
+      this.vncViewerService.close(row.id);
+      return of(true);
+    }
+    if (viewer) this.vncViewerService.dismissViewerKeepSandbox(row.id);
+    return this.sandboxService.deleteSandbox(row.id);
+  }
+
+  private runBulk(actions: Observable<boolean>[]): void {
+    this.busy.set(true);
+    forkJoin(actions)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(results => {
+        this.busy.set(false);
+        const failed = results.filter(ok => !ok).length;
+        this.error.set(failed > 0 ? `${failed} of ${results.length} sandboxes could not be updated` : null);
+        this.selected.set(new Set());
+        this.refresh();
+      });
+  }
+
+  private loadLiveInfo(rows: FleetSandbox[]): void {
+    const running = rows.filter(r => isSandboxRunning(r.status));
+    if (running.length === 0) {
+      this.live.set({});
+      return;
+    }
+    forkJoin(
+      running.map(r =>
+        forkJoin({
+          stats: this.bridgeService.getSystemInfo(r.id),
+          agent: this.bridgeService.getAgentRunningStatus(r.id)
+        })
+      )
+    )
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(results => {
+        const next: Record<string, SandboxLiveInfo> = {};
+        running.forEach((r, i) => {
+          next[r.id] = { stats: results[i].stats, agentRunning: results[i].agent.running };
+        });
+        this.live.set(next);
+      });
+  }
+
+  private pruneSelection(rows: FleetSandbox[]): void {
+    const ids = new Set(rows.map(r => r.id));
+    const kept = [...this.selected()].filter(id => ids.has(id));
+    if (kept.length !== this.selected().size) this.selected.set(new Set(kept));
+  }
+}
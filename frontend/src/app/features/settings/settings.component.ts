@@ -14,7 +14,20 @@ import {
   GlobalAgentRuleDto
 } from '../../core/services/global-agent-rules.service';
 import { ConfirmDialogService } from '../../core/services/confirm-dialog.service';
-import { firstValueFrom } from 'rxjs';
+import { SandboxService } from '../../core/services/sandbox.service';
+import { SandboxIdleService } from '../../core/services/sandbox-idle.service';
+import { SandboxIdlePolicy } from '../../core/services/sandbox-idle';
+import { UsageService } from '../../core/services/usage.service';
+import {
+  UsageBudgetStatus,
+  UsageBudgetsResponse,
+  UserUsageBudget,
+  budgetPercent,
+  formatCost,
+  formatTokens,
+  parseAmount
+} from '../../core/services/token-usage';
+import { Observable, firstValueFrom } from 'rxjs';
 import {
   siAnthropic,
   siGithub,
@@ -29,6 +42,7 @@ export type SettingsSectionTab =
   | 'ai'
   | 'mcp'
   | 'artifacts'
+  | 'sandboxes'
   | 'agentRules'
   | 'users';
 
@@ -51,6 +65,9 @@ export class SettingsComponent implements OnInit {
   readonly settingsTabIconAi = siAnthropic;
   readonly settingsTabIconMcp = siModelcontextprotocol;
   readonly settingsTabIconArtifacts = siNuget;
+  /** Monitor icon (24×24), same as the Sandboxes page. */
+  readonly settingsTabIconSandboxesPath =
+    'M4 3h16a2 2 0 0 1 2 2v10a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2zm0 2v10h16V5H4zm4 16v-2h8v2H8z';
   /** Library / document icon (24×24), aligned with backlog “Agent rules” modal. */
   readonly settingsTabIconAgentRulesPath =
     'M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8l-6-6z M14 2v6h6 M8 13h8 M8 17h5';
@@ -128,6 +145,23 @@ export class SettingsComponent implements OnInit {
   /** Filter list after “Browse Feeds” loads Azure DevOps feeds */
   artifactBrowseSearchQuery = signal('');
 
+  /** Sandbox idle auto-shutdown: effective policy, the user's form and (admins) the default form. */
+  idlePolicy = signal<SandboxIdlePolicy | null>(null);
+  idlePolicyLoading = signal(false);
+  idleFormMinutes = signal(0);
+  idleFormWarning = signal(0);
+  idleDefaultMinutes = signal(0);
+  idleDefaultWarning = signal(0);
+
+  /** Monthly AI budget: the user's spend and (admins) the default budget and every user's budget. */
+  budgetStatus = signal<UsageBudgetStatus | null>(null);
+  adminBudgets = signal<UsageBudgetsResponse | null>(null);
+  budgetDefaultSoft = signal('');
+  budgetDefaultHard = signal('');
+  readonly formatCost = formatCost;
+  readonly formatTokens = formatTokens;
+  readonly budgetPercent = budgetPercent;
+
   adminUsers = signal<AdminUserListItem[]>([]);
   adminUsersLoading = signal(false);
   /** Filter users list (email and name). */
@@ -175,6 +209,10 @@ export class SettingsComponent implements OnInit {
     if (tab === 'agentRules' && this.authService.isAdmin()) {
       void this.loadGlobalAgentRules();
     }
+    if (tab === 'sandboxes') {
+      void this.loadIdlePolicy();
+      void this.loadUsageBudgets();
+    }
   }
 
   constructor(
@@ -185,6 +223,9 @@ export class SettingsComponent implements OnInit {
     private globalAgentRulesService: GlobalAgentRulesService,
     private oidcSecurityService: OidcSecurityService,
     private confirmDialog: ConfirmDialogService,
+    private sandboxService: SandboxService,
+    private sandboxIdleService: SandboxIdleService,
+    private usageService: UsageService,
     private router: Router,
     private route: ActivatedRoute
   ) {}
@@ -504,6 +545,140 @@ export class SettingsComponent implements OnInit {
     return 'admin-user-' + id;
   }
 
+  // ---- Sandbox idle auto-shutdown ----
+
+  async loadIdlePolicy(): Promise<void> {
+    this.idlePolicyLoading.set(true);
+    this.error.set(null);
+    try {
+      this.applyIdlePolicy(await firstValueFrom(this.sandboxService.getIdlePolicy()));
+    } catch (err: any) {
+      console.error(err);
+      this.error.set(err.error?.message || 'Failed to load the sandbox idle policy');
+    } finally {
+      this.idlePolicyLoading.set(false);
+    }
+  }
+
+  async saveIdlePolicy(): Promise<void> {
+    await this.runIdlePolicyAction(
+      'idle-save',
+      this.sandboxService.saveIdlePolicy({ idleMinutes: this.idleFormMinutes(), warningMinutes: this.idleFormWarning() }),
+      'Idle shutdown saved'
+    );
+  }
+
+  async resetIdlePolicy(): Promise<void> {
+    await this.runIdlePolicyAction('idle-reset', this.sandboxService.resetIdlePolicy(), 'Using the default idle shutdown');
+  }
+
+  async saveDefaultIdlePolicy(): Promise<void> {
+    await this.runIdlePolicyAction(
+      'idle-default-save',
+      this.sandboxService.saveDefaultIdlePolicy({
+        idleMinutes: this.idleDefaultMinutes(),
+        warningMinutes: this.idleDefaultWarning()
+      }),
+      'Default idle shutdown saved'
+    );
+  }
+
+  private async runIdlePolicyAction(key: string, request: Observable<SandboxIdlePolicy>, message: string): Promise<void> {
+    this.actionLoading.set(key);
+    this.error.set(null);
+    try {
+      this.applyIdlePolicy(await firstValueFrom(request));
+      this.successMessage.set(message);
+      setTimeout(() => this.successMessage.set(null), 4000);
+    } catch (err: any) {
+      this.error.set(err.error?.message || 'Failed to save the sandbox idle policy');
+    } finally {
+      this.actionLoading.set(null);
+    }
+  }
+
+  private applyIdlePolicy(policy: SandboxIdlePolicy): void {
+    this.idlePolicy.set(policy);
+    this.idleFormMinutes.set(policy.idleMinutes);
+    this.idleFormWarning.set(policy.warningMinutes);
+    this.idleDefaultMinutes.set(policy.default.idleMinutes);
+    this.idleDefaultWarning.set(policy.default.warningMinutes);
+    this.sandboxIdleService.setPolicy(policy);
+  }
+
+  // ---- Monthly AI budget ----
+
+  async loadUsageBudgets(): Promise<void> {
+    try {
+      this.budgetStatus.set(await firstValueFrom(this.usageService.getMyBudget()));
+      if (this.authService.isAdmin()) this.applyAdminBudgets(await firstValueFrom(this.usageService.getBudgets()));
+    } catch (err: any) {
+      console.error(err);
+      this.error.set(err.error?.message || 'Failed to load the AI budget');
+    }
+  }
+
+  async saveDefaultBudget(): Promise<void> {
+    await this.runBudgetAction(
+      'budget-default-save',
+      this.usageService.saveDefaultBudget({
+        monthlySoftLimit: parseAmount(this.budgetDefaultSoft()),
+        monthlyHardLimit: parseAmount(this.budgetDefaultHard())
+      }),
+      'Default AI budget saved'
+    );
+  }
+
+  async saveUserBudget(user: UserUsageBudget, soft: string, hard: string): Promise<void> {
+    await this.runBudgetAction(
+      this.budgetActionKey(user.userId),
+      this.usageService.saveUserBudget(user.userId, { monthlySoftLimit: parseAmount(soft), monthlyHardLimit: parseAmount(hard) }),
+      `AI budget of ${user.email} saved`
+    );
+  }
+
+  async resetUserBudget(user: UserUsageBudget): Promise<void> {
+    await this.runBudgetAction(
+      this.budgetActionKey(user.userId),
+      this.usageService.resetUserBudget(user.userId),
+      `${user.email} uses the default AI budget`
+    );
+  }
+
+  budgetActionKey(userId: string): string {
+    return 'budget-user-' + userId;
+  }
+
+  budgetStateLabel(state: string): string {
+    switch (state) {
+      case 'HardLimitReached': return 'Hard limit reached';
+      case 'SoftLimitReached': return 'Soft limit reached';
+      default: return 'Within budget';
+    }
+  }
+
+  private async runBudgetAction(key: string, request: Observable<UsageBudgetsResponse>, message: string): Promise<void> {
+    this.actionLoading.set(key);
+    this.error.set(null);
+    try {
+      this.applyAdminBudgets(await firstValueFrom(request));
+      // The admin's own status may follow the default that was just saved.
+      this.budgetStatus.set(await firstValueFrom(this.usageService.getMyBudget()));
+      this.successMessage.set(message);
+      setTimeout(() => this.successMessage.set(null), 4000);
+    } catch (err: any) {
+      this.error.set(err.error?.message || 'Failed to save the AI budget');
+    } finally {
+      this.actionLoading.set(null);
+    }
+  }
+
+  private applyAdminBudgets(budgets: UsageBudgetsResponse): void {
+    this.adminBudgets.set(budgets);
+    this.budgetDefaultSoft.set(budgets.default?.monthlySoftLimit?.toString() ?? '');
+    this.budgetDefaultHard.set(budgets.default?.monthlyHardLimit?.toString() ?? '');
+  }
+
   // ---- Global agent rules (admin library) ----
 
   async loadGlobalAgentRules(): Promise<void> {
@@ -636,6 +811,14 @@ export class SettingsComponent implements OnInit {
     void this.aiConfigService.testLlmConnectivity(id);
   }
 
+  /** `$2.50 / $10.00 per 1M tokens`, or empty when the provider has no prices. */
+  llmPricingLabel(item: LlmSettingDto): string {
+    const input = item.inputPricePerMillionTokens;
+    const output = item.outputPricePerMillionTokens;
+    if (input == null && output == null) return '';
+    return `${input != null ? formatCost(input) : '–'} / ${output != null ? formatCost(output) : '–'} per 1M tokens`;
+  }
+
   llmHealth(item: LlmSettingDto) {
     return this.aiConfigService.getLlmHealthState(item.id);
   }
@@ -649,6 +832,9 @@ export class SettingsComponent implements OnInit {
   readonly adminLlmFormBaseUrl = signal('');
   readonly adminLlmFormApiKey = signal('');
   readonly adminLlmFormShowApiKey = signal(false);
+  /** USD per million tokens; blank = not priced. */
+  readonly adminLlmFormInputPrice = signal('');
+  readonly adminLlmFormOutputPrice = signal('');
 
   openAdminAddLlmForm(): void {
     this.adminLlmFormId.set(null);
@@ -657,6 +843,8 @@ export class SettingsComponent implements OnInit {
     this.adminLlmFormModel.set('gpt-4o');
     this.adminLlmFormBaseUrl.set('');
     this.adminLlmFormApiKey.set('');
+    this.adminLlmFormInputPrice.set('');
+    this.adminLlmFormOutputPrice.set('');
     this.adminLlmFormOpen.set(true);
   }
 
@@ -669,6 +857,8 @@ export class SettingsComponent implements OnInit {
     this.adminLlmFormModel.set(item.model || 'gpt-4o');
     this.adminLlmFormBaseUrl.set(item.baseUrl || '');
     this.adminLlmFormApiKey.set('');
+    this.adminLlmFormInputPrice.set(item.inputPricePerMillionTokens?.toString() ?? '');
+    this.adminLlmFormOutputPrice.set(item.outputPricePerMillionTokens?.toString() ?? '');
     this.adminLlmFormOpen.set(true);
   }
 
@@ -694,15 +884,22 @@ export class SettingsComponent implements OnInit {
     const model = this.adminLlmFormModel().trim() || undefined;
     const baseUrl = this.adminLlmFormBaseUrl().trim() || undefined;
     const apiKey = this.adminLlmFormApiKey().trim() || undefined;
+    const inputPricePerMillionTokens = parseAmount(this.adminLlmFormInputPrice());
+    const outputPricePerMillionTokens = parseAmount(this.adminLlmFormOutputPrice());
 
     this.actionLoading.set('admin-llm-save');
     this.error.set(null);
     try {
       if (id) {
-        await firstValueFrom(this.authService.adminUpdateSharedLlmSetting(id, { name, provider, apiKey, model, baseUrl }));
+        await firstValueFrom(this.authService.adminUpdateSharedLlmSetting(id, {
+          name, provider, apiKey, model, baseUrl,
+          updatePricing: true, inputPricePerMillionTokens, outputPricePerMillionTokens
+        }));
         this.successMessage.set('Shared AI provider updated');
       } else {
-        await firstValueFrom(this.authService.adminCreateSharedLlmSetting({ name, provider, apiKey, model, baseUrl }));
+        await firstValueFrom(this.authService.adminCreateSharedLlmSetting({
+          name, provider, apiKey, model, baseUrl, inputPricePerMillionTokens, outputPricePerMillionTokens
+        }));
         this.successMessage.set('Shared AI provider created');
       }
       await this.aiConfigService.loadLlmSettings({ testConnectivity: true });
@@ -0,0 +1,116 @@
+import { Component, Inject, OnDestroy, OnInit, computed, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute } from '@angular/router';
+import { DomSanitizer, SafeResourceUrl } from '@angular/platform-browser';
+import { EMPTY, Subject, timer } from 'rxjs';
+import { catchError, switchMap, takeUntil } from 'rxjs/operators';
+import { APP_CONFIG, AppConfig } from '../../core/services/config.service';
+import { LiveResponse, ZedConversation } from '../../core/services/sandbox-bridge.service';
+import { SandboxViewShareService } from '../../core/services/sandbox-view-share.service';
+import { SharedSandboxView, buildSharedVncUrl, shareExpiryLabel } from '../../core/services/sandbox-view-share';
+import { stripEditInstructions } from '../../core/services/conversation-transcript';
+import { MarkdownPipe } from '../../shared/pipes/markdown.pipe';
+
+/** Agent chat refresh while the page is open. */
+const CONVERSATION_POLL_MS = 3000;
+
+/**
+ * Public page of a read-only share link (`/share/:token`): the sandbox desktop in view-only
+ * noVNC and the agent chat, both refreshed live. No sign-in; the link token is the only credential,
+ * and a revoked or expired link shows a message instead.
+ */
+@Component({
+  selector: 'app-shared-view',
+  standalone: true,
+  imports: [CommonModule, MarkdownPipe],
+  templateUrl: './shared-view.component.html',
+  styleUrl: './shared-view.component.css'
+})
+export class SharedViewComponent implements OnInit, OnDestroy {
+  private readonly destroy$ = new Subject<void>();
+  private readonly token: string;
+  private readonly apiUrl: string;
+
+  readonly view = signal<SharedSandboxView | null>(null);
+  readonly error = signal<string | null>(null);
+  readonly loading = signal(true);
+  readonly conversations = signal<ZedConversation[]>([]);
+  readonly liveResponse = signal<LiveResponse | null>(null);
+  readonly requestInProgress = signal(false);
+  readonly now = signal(Date.now());
+
+  readonly vncUrl = computed<SafeResourceUrl | null>(() => {
+    const view = this.view();
+    if (!view || this.error()) return null;
+    return this.sanitizer.bypassSecurityTrustResourceUrl(
+      buildSharedVncUrl(this.apiUrl, this.token, view.vncViewPassword)
+    );
+  });
+  readonly expiryLabel = computed(() => shareExpiryLabel(this.view()?.expiresAt ?? null, this.now()));
+
+  readonly cleanUserMessage = stripEditInstructions;
+
+  constructor(
+    route: ActivatedRoute,
+    private sandboxViewShareService: SandboxViewShareService,
+    private sanitizer: DomSanitizer,
+    @Inject(APP_CONFIG) config: AppConfig
+  ) {
+    this.token = route.snapshot.paramMap.get('token') ?? '';
+    this.apiUrl = config.apiUrl;
+  }
+
+  ngOnInit(): void {
+    this.sandboxViewShareService
+      .getSharedView(this.token)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (view) => {
+          this.view.set(view);
+          this.loading.set(false);
+          this.pollConversations();
+        },
+        error: (err) => {
+          this.loading.set(false);
+          this.error.set(this.describeError(err));
+        }
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  private pollConversations(): void {
+    timer(0, CONVERSATION_POLL_MS)
+      .pipe(
+        switchMap(() =>
+          this.sandboxViewShareService.getSharedConversations(this.token).pipe(
+            catchError(err => {
+              // Revoked or expired while open: drop the desktop and stop polling.
+              if (err?.status === 404 || err?.status === 410) {
+                this.error.set(this.describeError(err));
+                this.destroy$.next();
+              }
+              return EMPTY;
+            })
+          )
+        ),
+        takeUntil(this.destroy$)
+      )
+      .subscribe(res => {
+        this.now.set(Date.now());
+        this.conversations.set(res.conversations ?? []);
+        this.requestInProgress.set(!!res.request_in_progress);
+        this.liveResponse.set(res.request_in_progress ? res.live_response ?? null : null);
+      });
+  }
+
+  private describeError(err: any): string {
+    if (err?.status === 404 || err?.status === 410) {
+      return err?.error?.error || 'This share link has expired or was revoked';
+    }
+    return err?.error?.error || 'The sandbox is not reachable right now';
+  }
+}
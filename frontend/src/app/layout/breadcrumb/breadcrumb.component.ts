@@ -53,6 +53,10 @@ export class BreadcrumbComponent {
       return [{ label: 'Settings', link: null }];
     }
 
+    if (parts[0] === 'sandboxes' && parts.length === 1) {
+      return [{ label: 'Sandboxes', link: null }];
+    }
+
     if (parts[0] === 'backlog' && parts[1]) {
       const repoId = parts[1];
       const name = this.repoLabel(repoId);
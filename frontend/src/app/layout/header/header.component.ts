@@ -9,6 +9,7 @@ import {
   viewChild
 } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { ThemeService } from '../../core/services/theme.service';
 import { VncViewerService, VncViewer } from '../../core/services/vnc-viewer.service';
 import { CodeAskBinding, SandboxService } from '../../core/services/sandbox.service';
@@ -30,7 +31,7 @@ export interface HeaderRunningSandboxRow {
 @Component({
   selector: 'app-header',
   standalone: true,
-  imports: [CommonModule, BreadcrumbComponent],
+  imports: [CommonModule, RouterLink, BreadcrumbComponent],
   templateUrl: './header.component.html',
   styleUrl: './header.component.css'
 })
@@ -43,14 +43,15 @@ export class SidebarComponent {
     this.router.navigate(['/login']);
   }
 
-  /** Repos list + repo-scoped backlog/code live outside `/repositories/*` in the router. */
+  /** Repos list + repo-scoped backlog/code/insights live outside `/repositories/*` in the router. */
   repositoriesNavActive(): boolean {
     const path = this.router.url.split('?')[0].split('#')[0];
     return (
       path === '/repositories' ||
       path.startsWith('/repositories/') ||
       path.startsWith('/backlog/') ||
-      path.startsWith('/code/')
+      path.startsWith('/code/') ||
+      path.startsWith('/insights/')
     );
   }
 }
@@ -0,0 +1,23 @@
+/** "Planned" | "Active" | "Completed" */
+export type SprintStatus = 'Planned' | 'Active' | 'Completed';
+
+export interface Sprint {
+  id: string;
+  repositoryId: string;
+  name: string;
+  goal?: string | null;
+  startDate?: string | null;
+  endDate?: string | null;
+  /** Story points the team can take on; null when not planned by capacity. */
+  capacityPoints?: number | null;
+  status: SprintStatus;
+  /** Azure DevOps iteration path stories of this sprint are synced to. */
+  azureDevOpsIterationPath?: string | null;
+  /** GitHub milestone number issues of this sprint are synced to. */
+  gitHubMilestoneNumber?: number | null;
+  /** Snapshot taken when the sprint was completed (velocity chart). */
+  committedPoints?: number | null;
+  completedPoints?: number | null;
+  createdAt: string;
+  updatedAt?: string;
+}
@@ -16,6 +16,16 @@ export interface UserStory {
   gitHubIssueNumber?: number;
   /** When set, sandbox agent rules use this named repository profile instead of the repo default. */
   repositoryAgentRuleId?: string | null;
+  /** When set, the implementation prompt uses this repository template instead of the default one. */
+  repositoryPromptTemplateId?: string | null;
+  /** Stories that must be Done before this one can be implemented. */
+  dependsOnStoryIds?: string[];
+  /** Sprint the story is committed to; null while it sits in the backlog. */
+  sprintId?: string | null;
+  /** Outcome of the last pre-PR test run: "Passed" | "Failed"; null when the tests never ran. */
+  lastTestStatus?: string | null;
+  lastTestSummary?: string | null;
+  lastTestRunAt?: string | null;
   createdAt: string;
   updatedAt?: string;
   tasks: Task[];
@@ -0,0 +1,44 @@
+import { SecurityContext } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { DomSanitizer } from '@angular/platform-browser';
+import { MarkdownPipe } from './markdown.pipe';
+import { transcriptToHtml } from '../../core/services/conversation-transcript';
+
+describe('MarkdownPipe', () => {
+  let pipe: MarkdownPipe;
+  let sanitizer: DomSanitizer;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    pipe = TestBed.inject(MarkdownPipe);
+    sanitizer = TestBed.inject(DomSanitizer);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('renderHtml returns a plain string', () => {
+    expect(pipe.renderHtml('**bold**')).toContain('<strong>bold</strong>');
+    expect(pipe.renderHtml(null)).toBe('');
+  });
+
+  it('strips script and event handlers from an exported assistant message', () => {
+    const html = transcriptToHtml(
+      {
+        title: 'Export',
+        details: [],
+        exportedAt: '2026-01-02T00:00:00.000Z',
+        sessions: [{
+          label: 'Sandbox',
+          turns: [{ id: 't1', timestamp: null, user: 'Hi', assistant: 'Look <img src=x onerror=alert(1)> here <script>alert(2)</script>', toolCalls: [] }],
+          raw: []
+        }]
+      },
+      md => sanitizer.sanitize(SecurityContext.HTML, pipe.renderHtml(md)) ?? ''
+    );
+
+    expect(html).toContain('Look');
+    expect(html).not.toContain('onerror');
+    expect(html).not.toContain('alert(2)');
+    expect(html).not.toMatch(/<script/i);
+  });
+});
@@ -140,7 +140,18 @@ export class MarkdownPipe implements PipeTransform {
 
   transform(value: string | null | undefined): SafeHtml {
     if (!value) return '';
-    
+    return this.sanitizer.bypassSecurityTrustHtml(this.render(value, true));
+  }
+
+  /**
+   * The same HTML as a plain, untrusted string, without rendering Mermaid diagrams into the page.
+   * For HTML that leaves the app (transcript export); sanitize it with `SecurityContext.HTML` first.
+   */
+  renderHtml(value: string | null | undefined): string {
+    return value ? this.render(value, false) : '';
+  }
+
+  private render(value: string, renderMermaid: boolean): string {
     try {
       // Strip Zed's internal system prompt / edit format instructions that leak into responses
       let processedValue = this.stripZedSystemPrompt(value);
@@ -261,7 +272,7 @@ export class MarkdownPipe implements PipeTransform {
       
       // Schedule mermaid rendering after DOM update
       // Use longer delay to ensure theme is properly set
-      if (mermaidBlocks.length > 0) {
+      if (renderMermaid && mermaidBlocks.length > 0) {
         setTimeout(() => {
           // Re-initialize mermaid with current theme before rendering
           initMermaidWithTheme();
@@ -290,10 +301,10 @@ export class MarkdownPipe implements PipeTransform {
         html = html.replace(`<p>${id}</p>`, diffHtml);
       }
 
-      return this.sanitizer.bypassSecurityTrustHtml(html);
+      return html;
     } catch (error) {
       console.error('Markdown parsing error:', error);
-      return this.sanitizer.bypassSecurityTrustHtml(`<pre>${this.escapeHtml(value)}</pre>`);
+      return `<pre>${this.escapeHtml(value)}</pre>`;
     }
   }
   
@@ -336,25 +347,58 @@ export class MarkdownPipe implements PipeTransform {
       let rows = '';
 
       for (const line of oldLines) {
-        rows += `<tr class="diff-row diff-removed"><td class="diff-gutter diff-gutter-removed">${lineNum}</td><td class="diff-sign">−</td><td class="diff-code">${this.escapeHtml(line)}</td></tr>`;
+        rows += this.diffRowHtml('removed', lineNum, line);
         lineNum++;
       }
       for (const line of newLines) {
-        rows += `<tr class="diff-row diff-added"><td class="diff-gutter diff-gutter-added">${startLine ? lineNum : '+'}</td><td class="diff-sign">+</td><td class="diff-code">${this.escapeHtml(line)}</td></tr>`;
+        rows += this.diffRowHtml('added', startLine ? lineNum : '+', line);
         lineNum++;
       }
 
-      diffs.push(
-        `<div class="diff-block">` +
-        `<div class="diff-header"><svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 3v18"/><path d="M3 12h18"/></svg><span>Change${startLine ? ` at line ${m[1]}` : ''}</span></div>` +
-        `<table class="diff-table"><tbody>${rows}</tbody></table>` +
-        `</div>`
-      );
+      diffs.push(this.diffBlockHtml(`Change${startLine ? ` at line ${m[1]}` : ''}`, rows));
     }
 
     return diffs.length > 0 ? diffs.join('') : '';
   }
 
+  /**
+   * Styled HTML for one unified-diff hunk (`@@ -a,b +c,d @@` header plus prefixed lines), with the
+   * same markup as agent edit blocks. Used by the pre-push review.
+   */
+  renderUnifiedHunk(title: string, header: string, lines: readonly string[]): SafeHtml {
+    const m = /^@@ -(\d+)(?:,\d+)? \+(\d+)/.exec(header);
+    let oldLine = m ? parseInt(m[1], 10) : 1;
+    let newLine = m ? parseInt(m[2], 10) : 1;
+    let rows = '';
+
+    for (const line of lines) {
+      const code = line.slice(1);
+      if (line.startsWith('-')) {
+        rows += this.diffRowHtml('removed', oldLine++, code);
+      } else if (line.startsWith('+')) {
+        rows += this.diffRowHtml('added', newLine++, code);
+      } else if (!line.startsWith('\\')) { // skip "\ No newline at end of file"
+        rows += this.diffRowHtml('context', newLine, code);
+        oldLine++;
+        newLine++;
+      }
+    }
+
+    return this.sanitizer.bypassSecurityTrustHtml(this.diffBlockHtml(title, rows));
+  }
+
+  private diffRowHtml(kind: 'added' | 'removed' | 'context', gutter: number | string, code: string): string {
+    const sign = kind === 'removed' ? '−' : kind === 'added' ? '+' : '';
+    return `<tr class="diff-row diff-${kind}"><td class="diff-gutter diff-gutter-${kind}">${gutter}</td><td class="diff-sign">${sign}</td><td class="diff-code">${this.escapeHtml(code)}</td></tr>`;
+  }
+
+  private diffBlockHtml(title: string, rows: string): string {
+    return `<div class="diff-block">` +
+      `<div class="diff-header"><svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 3v18"/><path d="M3 12h18"/></svg><span>${this.escapeHtml(title)}</span></div>` +
+      `<table class="diff-table"><tbody>${rows}</tbody></table>` +
+      `</div>`;
+  }
+
   /**
    * Strip Zed's internal system prompt boilerplate that sometimes leaks into assistant messages.
    * This includes the edit format instructions, file editing instructions, etc.
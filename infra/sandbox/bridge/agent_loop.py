@@ -61,10 +61,14 @@ class AgentResult:
     tool_executions: list[ToolExecution] = field(default_factory=list)
     model: str = ""
     iterations: int = 0
+    # Summed over every LLM round-trip of the run (cost accounting).
+    prompt_tokens: int = 0
+    completion_tokens: int = 0
     prompt_id: str = field(default_factory=lambda: str(uuid.uuid4())[:8])
 
 
 ToolCallback = Callable[[str, dict[str, Any], str], None]
+ToolStartCallback = Callable[[str, dict[str, Any]], None]
 AssistantStreamCallback = Callable[[str], None]
 
 
@@ -181,6 +185,16 @@ def _pick(obj: Any, key: str, default: Any = None) -> Any:
     return getattr(obj, key, default)
 
 
+def _add_usage(result: AgentResult, usage: Any) -> None:
+    """Add an OpenAI-style ``usage`` (SDK object or dict) to the run totals."""
+    prompt_tokens = _pick(usage, "prompt_tokens")
+    completion_tokens = _pick(usage, "completion_tokens")
+    if isinstance(prompt_tokens, int):
+        result.prompt_tokens += prompt_tokens
+    if isinstance(completion_tokens, int):
+        result.completion_tokens += completion_tokens
+
+
 def _stream_delta_content(d: Any) -> str:
     v = _pick(d, "content")
     if v is None:
@@ -225,14 +239,17 @@ def _message_from_stream(
     on_assistant_delta: Optional[AssistantStreamCallback] = None,
     should_abort: ShouldAbort = None,
 ) -> Any:
-    """One chat completion with ``stream=True``; returns an object like ``choice.message``."""
+    """One chat completion with ``stream=True``; returns an object like ``choice.message``
+    with the ``usage`` of the final chunk (None when the provider does not report it)."""
     accumulated = ""
+    usage = None
     tool_acc: dict[int, dict[str, str]] = {}
     stream = llm_client.chat.completions.create(
         model=model,
         messages=messages,
         tools=tools.SCHEMAS,
         stream=True,
+        stream_options={"include_usage": True},
     )
     for chunk in stream:
         if should_abort is not None and should_abort():
@@ -241,7 +258,10 @@ def _message_from_stream(
             return SimpleNamespace(
                 content=accumulated or "Stopped by user.",
                 tool_calls=None,
+                usage=usage,
             )
+        if _pick(chunk, "usage"):
+            usage = chunk.usage
         if not chunk.choices:
             continue
         ch0 = chunk.choices[0]
@@ -271,8 +291,9 @@ def _message_from_stream(
         return SimpleNamespace(
             content=accumulated if accumulated else None,
             tool_calls=lst,
+            usage=usage,
         )
-    return SimpleNamespace(content=accumulated or None, tool_calls=None)
+    return SimpleNamespace(content=accumulated or None, tool_calls=None, usage=usage)
 
 
 def run(
@@ -283,6 +304,7 @@ def run(
     *,
     max_iterations: int = MAX_ITERATIONS,
     on_tool_call: Optional[ToolCallback] = None,
+    on_tool_start: Optional[ToolStartCallback] = None,
     on_assistant_delta: Optional[AssistantStreamCallback] = None,
     conversation_history: Optional[list[dict[str, Any]]] = None,
     should_abort: ShouldAbort = None,
@@ -305,6 +327,9 @@ def run(
         Optional ``(tool_name, arguments, result) -> None`` callback
         invoked after every tool execution (used by the ACP agent to
         stream progress to Zed).
+    on_tool_start:
+        Optional ``(tool_name, arguments) -> None`` callback invoked just
+        before a tool runs (live UIs show it as running).
     on_assistant_delta:
         If set, LLM calls use streaming; invoked with accumulated assistant
         text for the current turn (for live UIs). Tool rounds reset before
@@ -347,6 +372,7 @@ def run(
                         on_assistant_delta=on_assistant_delta,
                         should_abort=should_abort,
                     )
+                    _add_usage(result, message.usage)
                 except Exception as stream_exc:
                     logger.warning(
                         "LLM streaming failed (%s), falling back to non-streaming",
@@ -361,6 +387,7 @@ def run(
                         tools=tools.SCHEMAS,
                     )
                     message = response.choices[0].message
+                    _add_usage(result, response.usage)
                     if on_assistant_delta is not None:
                         piece = message.content or ""
                         if piece:
@@ -375,6 +402,7 @@ def run(
                     tools=tools.SCHEMAS,
                 )
                 message = response.choices[0].message
+                _add_usage(result, response.usage)
         except Exception as exc:
             logger.error("LLM request failed: %s", exc)
             result.content = f"LLM error: {exc}"
@@ -395,6 +423,9 @@ def run(
             except json.JSONDecodeError:
                 args = {}
 
+            if on_tool_start is not None:
+                on_tool_start(tc.function.name, args)
+
             t0 = time.monotonic()
             tool_result = tools.execute(tc.function.name, args, project_path)
             elapsed_ms = int((time.monotonic() - t0) * 1000)
@@ -30,6 +30,8 @@ MANAGER_API_KEY  = os.environ.get("MANAGER_API_KEY", "")
 HOST_IP          = os.environ.get("HOST_IP", "localhost")
 SANDBOX_IMAGE    = os.environ.get("SANDBOX_IMAGE", "devpilot-desktop:latest")
 HTTPS_PROXY_BASE = os.environ.get("HTTPS_PROXY_BASE", "").rstrip("/")
+# Sandboxes older than this are removed by the cleanup thread (Docker) or CronJob (K8s, same variable).
+SANDBOX_MAX_AGE_SECONDS = int(os.environ.get("SANDBOX_MAX_AGE_SECONDS", str(2 * 3600)))
 
 SANDBOX_NETWORK  = "devpilot-sandbox-net"
 MANAGER_PORT     = 8090
@@ -357,12 +359,14 @@ def stop_sandbox(sandbox_id):
 
 # ── Shared environment builder ────────────────────────────────────────────────
 
-def _build_environment(data: dict, sandbox_id: str, sandbox_token: str, vnc_password: str) -> dict:
+def _build_environment(data: dict, sandbox_id: str, sandbox_token: str, vnc_password: str, vnc_view_password: str) -> dict:
     environment = {
         "SANDBOX_ID":  sandbox_id,
         "RESOLUTION":  data.get("resolution", "1920x1080x24"),
         "SANDBOX_TOKEN": sandbox_token,
         "VNC_PASSWORD":  vnc_password,
+        # View-only x11vnc password for read-only share links (no keyboard / mouse input).
+        "VNC_VIEW_PASSWORD": vnc_view_password,
     }
 
     repo_url     = data.get("repo_url", "")
@@ -374,6 +378,10 @@ def _build_environment(data: dict, sandbox_id: str, sandbox_token: str, vnc_pass
     if data.get("repo_name"):             environment["REPO_NAME"]        = data["repo_name"]
     if data.get("repo_branch"):           environment["REPO_BRANCH"]      = data["repo_branch"]
     if data.get("repo_archive_url"):      environment["REPO_ARCHIVE_URL"] = data["repo_archive_url"]
+    if data.get("workspace_snapshot_url"):
+        environment["WORKSPACE_SNAPSHOT_URL"] = data["workspace_snapshot_url"]
+    if data.get("workspace_snapshot_conversations_url"):
+        environment["WORKSPACE_SNAPSHOT_CONVERSATIONS_URL"] = data["workspace_snapshot_conversations_url"]
 
     if data.get("ai_config"):
         ai       = data["ai_config"]
@@ -445,6 +453,8 @@ def _build_environment(data: dict, sandbox_id: str, sandbox_token: str, vnc_pass
         environment["AZURE_DEVOPS_PAT"] = data["azure_devops_pat"]
     if data.get("agent_rules"):
         environment["AGENT_RULES"] = data["agent_rules"]
+    if data.get("sandbox_profile"):
+        environment["SANDBOX_PROFILE_JSON"] = json.dumps(data["sandbox_profile"])
 
     if data.get("azure_identity_client_id"):
         environment["AZURE_CLIENT_ID"] = data["azure_identity_client_id"]
@@ -464,7 +474,8 @@ def _docker_create_sandbox():
     sandbox_id   = str(uuid.uuid4())[:8]
     sandbox_token = secrets.token_urlsafe(32)
     vnc_password  = secrets.token_urlsafe(8)[:8]
-    environment  = _build_environment(data, sandbox_id, sandbox_token, vnc_password)
+    vnc_view_password = secrets.token_urlsafe(8)[:8]
+    environment  = _build_environment(data, sandbox_id, sandbox_token, vnc_password, vnc_view_password)
     cname        = _sandbox_container_name(sandbox_id)
 
     volumes = {}
@@ -507,6 +518,7 @@ def _docker_create_sandbox():
                 "created_at": time.time(),
                 "sandbox_token": sandbox_token,
                 "vnc_password": vnc_password,
+                "vnc_view_password": vnc_view_password,
             }
 
         vnc_url, bridge_url = _build_sandbox_urls(sandbox_id)
@@ -517,6 +529,7 @@ def _docker_create_sandbox():
             "status": "starting",
             "sandbox_token": sandbox_token,
             "vnc_password":  vnc_password,
+            "vnc_view_password": vnc_view_password,
         }), 201
 
     except Exception as e:
@@ -537,8 +550,10 @@ def _docker_list_sandboxes():
                 "bridge_url": bridge_url,
                 "status": container.status,
                 "created_at": info["created_at"],
+                "expires_at": info["created_at"] + SANDBOX_MAX_AGE_SECONDS,
                 "sandbox_token": info.get("sandbox_token", ""),
                 "vnc_password": info.get("vnc_password", ""),
+                "vnc_view_password": info.get("vnc_view_password", ""),
             })
         except Exception:
             pass
@@ -559,6 +574,7 @@ def _docker_get_sandbox(sandbox_id):
             "status": container.status,
             "sandbox_token": info.get("sandbox_token", ""),
             "vnc_password": info.get("vnc_password", ""),
+            "vnc_view_password": info.get("vnc_view_password", ""),
         })
     except Exception:
         return jsonify({"error": "Container not found"}), 404
@@ -1031,14 +1047,54 @@ def proxy_vnc_websocket(ws, sandbox_id):
         return
 
     host, port = target
-    upstream_url = f"ws://{host}:{port}/websockify"
+    _relay_websocket(ws, f"ws://{host}:{port}/websockify", "Cannot connect to sandbox VNC")
+
+
+@sock.route("/sandbox/<sandbox_id>/bridge/terminal")
+def proxy_bridge_terminal(ws, sandbox_id):
+    """WebSocket reverse proxy for the bridge web terminal (container port 8091)."""
+    target = _resolve_sandbox_target(sandbox_id, 8091)
+    if not target:
+        ws.close(1008, "Sandbox not found")
+        return
+
+    host, port = target
+    auth = request.headers.get("Authorization")
+    _relay_websocket(
+        ws,
+        f"ws://{host}:{port}/terminal",
+        "Cannot connect to sandbox terminal",
+        header=[f"Authorization: {auth}"] if auth else None,
+    )
+
+
+
+@sock.route("/sandbox/<sandbox_id>/bridge/agent/events")
+def proxy_bridge_agent_events(ws, sandbox_id):
+    """WebSocket reverse proxy for the bridge agent event stream (deltas, tool calls, turn complete)."""
+    target = _resolve_sandbox_target(sandbox_id, 8091)
+    if not target:
+        ws.close(1008, "Sandbox not found")
+        return
+
+    host, port = target
+    auth = request.headers.get("Authorization")
+    _relay_websocket(
+        ws,
+        f"ws://{host}:{port}/agent/events",
+        "Cannot connect to sandbox agent events",
+        header=[f"Authorization: {auth}"] if auth else None,
+    )
+
+def _relay_websocket(ws, upstream_url: str, unreachable_reason: str, header: list[str] | None = None):
+    """Pipe frames both ways between the client socket and ``upstream_url`` until either side closes."""
     try:
-        upstream = ws_client.create_connection(upstream_url, timeout=10)
+        upstream = ws_client.create_connection(upstream_url, timeout=10, header=header)
         # After connecting, remove the socket timeout so recv_data() blocks
-        # indefinitely instead of killing the connection when VNC is idle.
+        # indefinitely instead of killing the connection when the sandbox is idle.
         upstream.settimeout(None)
     except Exception:
-        ws.close(1011, "Cannot connect to sandbox VNC")
+        ws.close(1011, unreachable_reason)
         return
 
     alive = threading.Event()
@@ -1099,7 +1155,8 @@ def _k8s_create_sandbox():
     sandbox_id    = str(uuid.uuid4())[:8]
     sandbox_token = secrets.token_urlsafe(32)
     vnc_password  = secrets.token_urlsafe(8)[:8]
-    environment   = _build_environment(data, sandbox_id, sandbox_token, vnc_password)
+    vnc_view_password = secrets.token_urlsafe(8)[:8]
+    environment   = _build_environment(data, sandbox_id, sandbox_token, vnc_password, vnc_view_password)
 
     vnc_port, bridge_port = k8s_utils.allocate_nodeport_pair(core_v1)
     if not vnc_port:
@@ -1119,6 +1176,7 @@ def _k8s_create_sandbox():
                 "created_at": time.time(),
                 "sandbox_token": sandbox_token,
                 "vnc_password": vnc_password,
+                "vnc_view_password": vnc_view_password,
             }
 
         vnc_url, bridge_url = _build_sandbox_urls(sandbox_id, vnc_port=vnc_port, bridge_port=bridge_port)
@@ -1131,6 +1189,7 @@ def _k8s_create_sandbox():
             "status": "starting",
             "sandbox_token": sandbox_token,
             "vnc_password":  vnc_password,
+            "vnc_view_password": vnc_view_password,
         }), 201
 
     except Exception as e:
@@ -1157,6 +1216,9 @@ def _k8s_list_sandboxes():
                 vnc_port = bridge_port = 0
 
             vnc_url, bridge_url = _build_sandbox_urls(sid, vnc_port=vnc_port, bridge_port=bridge_port)
+            created_at = cache.get("created_at") or (
+                pod.metadata.creation_timestamp.timestamp() if pod.metadata.creation_timestamp else 0
+            )
             result.append({
                 "id": sid,
                 "port": vnc_port,
@@ -1164,9 +1226,11 @@ def _k8s_list_sandboxes():
                 "url": vnc_url,
                 "bridge_url": bridge_url,
                 "status": pod.status.phase or "Unknown",
-                "created_at": cache.get("created_at", 0),
+                "created_at": created_at,
+                "expires_at": created_at + SANDBOX_MAX_AGE_SECONDS if created_at else 0,
                 "sandbox_token": cache.get("sandbox_token", ""),
                 "vnc_password": cache.get("vnc_password", ""),
+                "vnc_view_password": cache.get("vnc_view_password", ""),
             })
         return jsonify({"sandboxes": result})
     except Exception as e:
@@ -1191,6 +1255,7 @@ def _k8s_get_sandbox(sandbox_id):
             "status": pod.status.phase or "Unknown",
             "sandbox_token": cache.get("sandbox_token", ""),
             "vnc_password": cache.get("vnc_password", ""),
+            "vnc_view_password": cache.get("vnc_view_password", ""),
         })
     except k8s_client.exceptions.ApiException as e:
         if e.status == 404:
@@ -1234,7 +1299,7 @@ def _cleanup_old_sandboxes_docker():
     while True:
         time.sleep(300)
         now = time.time()
-        to_delete = [sid for sid, info in list(sandboxes.items()) if now - info["created_at"] > 7200]
+        to_delete = [sid for sid, info in list(sandboxes.items()) if now - info["created_at"] > SANDBOX_MAX_AGE_SECONDS]
         for sid in to_delete:
             try:
                 info = sandboxes.pop(sid, {})
@@ -377,7 +377,7 @@ RUN apt-get update && apt-get install -y --no-install-recommends \
     libxkbcommon0 libvulkan1 libasound2t64 libgbm1 \
     mesa-utils libgl1-mesa-dri libegl1 libgles2 \
     mesa-vulkan-drivers \
-    xdotool wmctrl xclip xsel autocutsel \
+    xdotool wmctrl xclip xsel autocutsel xprintidle \
     xdg-desktop-portal xdg-desktop-portal-gtk \
     xdg-utils bzip2 xz-utils \
     gnome-keyring libsecret-1-0 \
@@ -573,6 +573,7 @@ RUN python3 -m venv /opt/devpilot-venv && \
         openai \
         flask \
         flask-cors \
+        flask-sock \
         requests
 
 # Add venv to PATH
@@ -751,10 +752,11 @@ RUN mkdir -p /home/sandbox/.config/zed && \
 
 USER root
 
-# Copy DevPilot ACP agent, bridge API, and shared agent modules
+# Copy DevPilot ACP agent, bridge API, sandbox profile runner, and shared agent modules
 COPY bridge/ /opt/devpilot/bridge/
 COPY devpilot-agent.py /opt/devpilot/devpilot-agent.py
 COPY devpilot-bridge.py /opt/devpilot/devpilot-bridge.py
+COPY devpilot-profile.py /opt/devpilot/devpilot-profile.py
 RUN chmod +x /opt/devpilot/*.py /opt/devpilot/bridge/acp_agent.py
 
 # Startup script
@@ -1069,6 +1071,213 @@ if __name__ == "__main__":
     asyncio.run(agent.run())
 DEVPILOT_AGENT
 
+# ============================================================
+# Create sandbox profile runner (per-repository setup commands, env vars, devcontainer)
+# ============================================================
+log_info "Creating sandbox profile runner..."
+cat > desktop/devpilot-profile.py << 'DEVPILOT_PROFILE'
+#!/usr/bin/env python3
+"""
+DevPilot sandbox profile runner.
+
+  devpilot-profile.py plan <work_dir>   Resolve the repository profile (SANDBOX_PROFILE_JSON and, when
+                                        enabled, .devcontainer/devcontainer.json) and write the env file.
+  devpilot-profile.py run               Run the planned setup commands one by one, appending their
+                                        output to the log the bridge streams to the viewer.
+"""
+import json
+import os
+import re
+import shlex
+import subprocess
+import sys
+import time
+
+PLAN_FILE = '/tmp/devpilot-profile-plan.json'
+STATUS_FILE = '/tmp/devpilot-profile-status.json'
+LOG_FILE = '/tmp/devpilot-profile.log'
+ENV_FILE = '/home/sandbox/.devpilot-profile-env.sh'
+COMMAND_TIMEOUT_SECONDS = 30 * 60
+
+# Devcontainer lifecycle hooks that make sense once, after the clone (in spec order)
+DEVCONTAINER_COMMAND_KEYS = ('onCreateCommand', 'updateContentCommand', 'postCreateCommand', 'postStartCommand')
+
+
+def _strip_jsonc(text):
+    """devcontainer.json allows comments and trailing commas; drop them outside of strings."""
+    out = []
+    i, n = 0, len(text)
+    in_string = False
+    while i < n:
+        c = text[i]
+        if in_string:
+            out.append(c)
+            if c == '\\' and i + 1 < n:
+                out.append(text[i + 1])
+                i += 1
+            elif c == '"':
+                in_string = False
+        elif c == '"':
+            in_string = True
+            out.append(c)
+        elif text.startswith('//', i):
+            while i < n and text[i] != '\n':
+                i += 1
+            continue
+        elif text.startswith('/*', i):
+            end = text.find('*/', i + 2)
+            i = n if end < 0 else end + 2
+            continue
+        else:
+            out.append(c)
+        i += 1
+    return re.sub(r',(\s*[}\]])', r'\1', ''.join(out))
+
+
+def _devcontainer_commands(value):
+    """A lifecycle command is a string, an argv array or an object of named commands."""
+    if isinstance(value, str):
+        return [value] if value.strip() else []
+    if isinstance(value, list):
+        return [shlex.join(str(v) for v in value)] if value else []
+    if isinstance(value, dict):
+        commands = []
+        for v in value.values():
+            commands.extend(_devcontainer_commands(v))
+        return commands
+    return []
+
+
+def _first_port(values):
+    for v in values or []:
+        try:
+            return int(str(v).rsplit(':', 1)[-1])
+        except ValueError:
+            continue
+    return None
+
+
+def _read_devcontainer(work_dir):
+    for rel in ('.devcontainer/devcontainer.json', '.devcontainer.json'):
+        path = os.path.join(work_dir, rel)
+        if os.path.isfile(path):
+            with open(path, 'r', encoding='utf-8') as f:
+                return rel, json.loads(_strip_jsonc(f.read()))
+    return None, None
+
+
+def _write_json(path, data):
+    tmp = path + '.tmp'
+    with open(tmp, 'w') as f:
+        json.dump(data, f)
+    os.replace(tmp, path)
+
+
+def plan(work_dir):
+    profile = json.loads(os.environ.get('SANDBOX_PROFILE_JSON') or '{}')
+    commands, env, notes = [], {}, []
+    preview_port = profile.get('preview_port')
+    devcontainer_file = None
+
+    if profile.get('use_devcontainer'):
+        try:
+            devcontainer_file, dc = _read_devcontainer(work_dir)
+        except (OSError, ValueError) as e:
+            dc = None
+            notes.append(f'Could not read devcontainer.json: {e}')
+        if dc is None and devcontainer_file is None and not notes:
+            notes.append('Devcontainer support is on but the repository has no devcontainer.json.')
+        if dc:
+            for key in ('containerEnv', 'remoteEnv'):
+                for name, value in (dc.get(key) or {}).items():
+                    # ${localEnv:...} style references point at the developer machine; skip them
+                    if value is not None and '${' not in str(value):
+                        env[name] = str(value)
+            for key in DEVCONTAINER_COMMAND_KEYS:
+                for cmd in _devcontainer_commands(dc.get(key)):
+                    commands.append({'command': cmd, 'source': f'devcontainer {key}'})
+            if not preview_port:
+                preview_port = _first_port(dc.get('forwardPorts')) or _first_port(
+                    dc.get('appPort') if isinstance(dc.get('appPort'), list) else [dc.get('appPort')])
+
+    # Profile values win over the devcontainer
+    env.update({k: str(v) for k, v in (profile.get('env') or {}).items()})
+    for cmd in profile.get('setup_commands') or []:
+        if str(cmd).strip():
+            commands.append({'command': str(cmd).strip(), 'source': 'profile'})
+
+    with open(ENV_FILE, 'w') as f:
+        f.write('# Written by devpilot-profile.py from the repository sandbox profile\n')
+        for name, value in env.items():
+            f.write(f'export {name}={shlex.quote(value)}\n')
+
+    _write_json(PLAN_FILE, {
+        'work_dir': work_dir,
+        'commands': commands,
+        'env_names': sorted(env.keys()),
+        'preview_port': preview_port,
+        'devcontainer_file': devcontainer_file,
+        'notes': notes,
+    })
+    _write_json(STATUS_FILE, {
+        'state': 'pending' if commands else 'succeeded',
+        'steps': [{**c, 'state': 'pending', 'exit_code': None} for c in commands],
+    })
+    open(LOG_FILE, 'w').close()
+    print(f'Sandbox profile planned: {len(commands)} command(s), {len(env)} env var(s), preview port {preview_port}')
+
+
+def run():
+    with open(PLAN_FILE) as f:
+        planned = json.load(f)
+    with open(STATUS_FILE) as f:
+        status = json.load(f)
+    if not status['steps']:
+        return
+
+    env = dict(os.environ)
+    env.pop('SANDBOX_PROFILE_JSON', None)
+    status['state'] = 'running'
+    status['started_at'] = time.time()
+    failed = False
+    with open(LOG_FILE, 'a', buffering=1) as log:
+        for step in status['steps']:
+            if failed:
+                step['state'] = 'skipped'
+                continue
+            step['state'] = 'running'
+            _write_json(STATUS_FILE, status)
+            log.write(f"\n$ {step['command']}\n")
+            # Source the env file so commands see exactly what the agent's terminal sees
+            script = f'[ -f {shlex.quote(ENV_FILE)} ] && . {shlex.quote(ENV_FILE)}; {step["command"]}'
+            proc = subprocess.Popen(['bash', '-lc', script], cwd=planned['work_dir'], env=env,
+                                    stdout=log, stderr=subprocess.STDOUT)
+            try:
+                step['exit_code'] = proc.wait(timeout=COMMAND_TIMEOUT_SECONDS)
+            except subprocess.TimeoutExpired:
+                proc.kill()
+                proc.wait()
+                step['exit_code'] = -1
+                log.write(f'\nTimed out after {COMMAND_TIMEOUT_SECONDS // 60} minutes\n')
+            step['state'] = 'succeeded' if step['exit_code'] == 0 else 'failed'
+            if step['state'] == 'failed':
+                failed = True
+                log.write(f"\nCommand failed with exit code {step['exit_code']}\n")
+    status['state'] = 'failed' if failed else 'succeeded'
+    status['finished_at'] = time.time()
+    _write_json(STATUS_FILE, status)
+
+
+if __name__ == '__main__':
+    if len(sys.argv) >= 3 and sys.argv[1] == 'plan':
+        plan(sys.argv[2])
+    elif len(sys.argv) >= 2 and sys.argv[1] == 'run':
+        run()
+    else:
+        print(__doc__)
+        sys.exit(2)
+DEVPILOT_PROFILE
+
 # ============================================================
 # Create DevPilot Bridge API (HTTP API for frontend communication)
 # ============================================================
@@ -1091,8 +1300,19 @@ import subprocess
 import logging
 import threading
 import time as _time_mod
+import codecs
+import fcntl
+import pty
+import select
+import shlex
+import shutil
+import signal
+import struct
+import tempfile
+import termios
 from flask import Flask, request, jsonify, send_file
 from flask_cors import CORS
+from flask_sock import Sock
 
 bridge_start_time = _time_mod.time()
 
@@ -1109,6 +1329,7 @@ logger = logging.getLogger(__name__)
 
 app = Flask(__name__)
 CORS(app, resources={r"/*": {"origins": "*", "allow_headers": ["Authorization", "Content-Type"]}})
+sock = Sock(app)
 
 # Per-sandbox token — injected as SANDBOX_TOKEN env var by the manager at container creation
 SANDBOX_TOKEN = os.environ.get('SANDBOX_TOKEN', '')
@@ -1179,6 +1400,17 @@ except ImportError:
 # Store all Zed conversations (for frontend access)
 zed_conversations = []
 
+# Resumed from a story workspace snapshot: setup.sh downloads the saved /all-conversations body here
+# before starting the bridge, so the history (and the agent's prior turns) carry over.
+RESTORED_CONVERSATIONS_FILE = '/tmp/devpilot-restored-conversations.json'
+if os.path.exists(RESTORED_CONVERSATIONS_FILE):
+    try:
+        with open(RESTORED_CONVERSATIONS_FILE, 'r') as f:
+            zed_conversations.extend(json.load(f).get("conversations", [])[-50:])
+        logger.info("Restored %d conversations from workspace snapshot", len(zed_conversations))
+    except Exception as e:
+        logger.warning(f"Could not restore snapshot conversations: {e}")
+
 # True while handling a chat/completions request (LLM streaming or processing)
 # Frontend uses this to know when implementation is truly done (no 30s guess)
 bridge_request_in_progress = False
@@ -1192,12 +1424,34 @@ live_stream_user_message = ""
 headless_live_tools = []
 headless_live_user_prompt = ""
 _agent_running = False
+# Last time a chat/completions request or headless agent run finished (idle auto-shutdown, GET /activity).
+last_agent_activity_time = _time_mod.time()
 # Set while a headless /agent/prompt thread is active (for refresh → resume polling in the UI)
 current_headless_prompt_id = None
 
 # Set to True by POST /stream/abort — checked each iteration of generate_stream().
 abort_stream = False
 
+# Token usage of the chat/completions calls since the last stored conversation. Tool-call rounds
+# are not stored on their own, so their tokens are carried over to the turn that ends them.
+pending_turn_usage = {"prompt_tokens": 0, "completion_tokens": 0}
+
+def add_turn_usage(usage):
+    """Adds an OpenAI-style usage object (dict or SDK object) to the pending turn usage."""
+    if not usage:
+        return
+    for key in ("prompt_tokens", "completion_tokens"):
+        value = usage.get(key) if isinstance(usage, dict) else getattr(usage, key, None)
+        if isinstance(value, int) and value > 0:
+            pending_turn_usage[key] += value
+
+def take_turn_usage():
+    """Usage to attach to the conversation entry being stored; resets the accumulator."""
+    usage = dict(pending_turn_usage)
+    pending_turn_usage["prompt_tokens"] = 0
+    pending_turn_usage["completion_tokens"] = 0
+    return usage
+
 # Patterns to filter out system/internal Zed messages
 SYSTEM_MESSAGE_PATTERNS = [
     "Generate a concise",
@@ -1220,6 +1474,134 @@ def is_system_message(user_message):
             return True
     return False
 
+# ── Agent event stream ──────────────────────────────────────────────────────
+# WebSocket /agent/events pushes what the agent is doing as it happens: turn_start, token deltas,
+# tool_start / tool_end and an explicit turn_complete, so UIs neither poll /all-conversations for
+# live text nor guess from quiet polls when a turn is over. Events are numbered and kept in a small
+# ring buffer; each socket sends those after the seq it has seen, or a fresh "hello" snapshot when
+# it fell behind the buffer.
+
+AGENT_EVENT_BUFFER_SIZE = 500
+AGENT_EVENT_ARGS_CAP = 16000
+AGENT_EVENT_RESULT_CAP = 24000
+AGENT_EVENT_PING_SECONDS = 15
+agent_events = []
+agent_event_seq = 0
+agent_events_cond = threading.Condition()
+# A Zed turn spans several chat/completions rounds (Zed runs the tools in between, while
+# bridge_request_in_progress is False): open from the prompt until a round ends without tool calls.
+zed_turn_open = False
+
+def emit_agent_event(event_type, **data):
+    """Publishes one event to every /agent/events socket."""
+    global agent_event_seq
+    with agent_events_cond:
+        agent_event_seq += 1
+        agent_events.append({"seq": agent_event_seq, "type": event_type, "at": _time_mod.time(), **data})
+        if len(agent_events) > AGENT_EVENT_BUFFER_SIZE:
+            del agent_events[0]
+        agent_events_cond.notify_all()
+
+def agent_event_preview(value, cap):
+    """Tool arguments or result as text for an event, truncated to ``cap`` characters."""
+    if isinstance(value, str):
+        return value[:cap]
+    if isinstance(value, list):
+        return ' '.join(b.get('text', '') for b in value if isinstance(b, dict))[:cap]
+    try:
+        return json.dumps(value, ensure_ascii=False, default=str)[:cap]
+    except Exception:
+        return str(value)[:cap]
+
+def agent_events_snapshot():
+    """The "hello" event: the turn running right now (if any), so a socket opened mid-turn can render it."""
+    running = bridge_request_in_progress or _agent_running or zed_turn_open
+    return {
+        "seq": agent_event_seq,
+        "type": "hello",
+        "request_in_progress": running,
+        "source": ("headless_agent" if _agent_running else "proxy") if running else None,
+        "prompt_id": current_headless_prompt_id,
+        "user_message": (headless_live_user_prompt if _agent_running else live_stream_user_message) if running else "",
+        "content": live_stream_content if running else "",
+        "tools": list(headless_live_tools) if _agent_running else [],
+    }
+
+def zed_round_started(messages, user_message):
+    """A Zed chat/completions round begins: a new prompt starts a turn, trailing tool messages end the tools Zed ran."""
+    global zed_turn_open
+    if not messages or messages[-1].get('role') != 'tool':
+        zed_turn_open = True
+        emit_agent_event("turn_start", source="proxy", prompt_id=None, user_message=user_message)
+        return
+    zed_turn_open = True
+    tool_names = {}
+    for msg in reversed(messages):
+        if msg.get('role') == 'assistant' and msg.get('tool_calls'):
+            tool_names = {tc.get('id'): tc.get('function', {}).get('name', 'tool') for tc in msg['tool_calls']}
+            break
+    results = []
+    for msg in reversed(messages):
+        if msg.get('role') != 'tool':
+            break
+        results.append(msg)
+    for msg in reversed(results):
+        emit_agent_event(
+            "tool_end",
+            name=tool_names.get(msg.get('tool_call_id'), 'tool'),
+            result_preview=agent_event_preview(msg.get('content', ''), AGENT_EVENT_RESULT_CAP),
+        )
+
+def zed_round_finished(tool_calls, conversation_id=None, aborted=False, error=None):
+    """A Zed round ended: tool calls go back to Zed (tool_start), anything else completes the turn."""
+    global zed_turn_open
+    if tool_calls:
+        for tc in tool_calls:
+            emit_agent_event(
+                "tool_start",
+                name=tc.get('function', {}).get('name') or 'tool',
+                args_preview=agent_event_preview(tc.get('function', {}).get('arguments', ''), AGENT_EVENT_ARGS_CAP),
+            )
+        return
+    zed_turn_open = False
+    emit_agent_event("turn_complete", source="proxy", prompt_id=None,
+                     conversation_id=conversation_id, aborted=aborted, error=error)
+
+@sock.route('/agent/events')
+def agent_events_socket(ws):
+    """
+    Live agent events (send-only; the client never writes).
+    Bridge -> client: {"type": "hello", ...snapshot} first, then
+    {"type": "turn_start", "source", "prompt_id", "user_message"},
+    {"type": "delta", "text", "replace"?} (replace: text is the whole current answer, else appended),
+    {"type": "tool_start", "name", "args_preview"}, {"type": "tool_end", "name", "result_preview"},
+    {"type": "turn_complete", "source", "prompt_id", "conversation_id", "aborted", "error"},
+    and {"type": "ping"} when idle. Every event but ping carries "seq" and "at".
+    """
+    with agent_events_cond:
+        hello = agent_events_snapshot()
+    last_seq = hello["seq"]
+    try:
+        ws.send(json.dumps(hello))
+        while True:
+            with agent_events_cond:
+                agent_events_cond.wait_for(lambda: agent_event_seq > last_seq, timeout=AGENT_EVENT_PING_SECONDS)
+                pending = [e for e in agent_events if e["seq"] > last_seq]
+                behind = agent_event_seq > last_seq and (not pending or pending[0]["seq"] > last_seq + 1)
+                if behind:
+                    hello = agent_events_snapshot()
+            if behind:
+                ws.send(json.dumps(hello))
+                last_seq = hello["seq"]
+            elif pending:
+                for event in pending:
+                    ws.send(json.dumps(event))
+                last_seq = pending[-1]["seq"]
+            else:
+                ws.send(json.dumps({"type": "ping"}))
+    except Exception:
+        pass  # ConnectionClosed when the browser tab or proxy goes away
+
 @app.route('/health', methods=['GET'])
 def health():
     """Health check endpoint"""
@@ -1303,6 +1685,245 @@ def repo_status():
         "project_entries": entries,
     }), 200 if ready else 503
 
+PROFILE_PLAN_FILE = '/tmp/devpilot-profile-plan.json'
+PROFILE_STATUS_FILE = '/tmp/devpilot-profile-status.json'
+PROFILE_LOG_FILE = '/tmp/devpilot-profile.log'
+PROFILE_LOG_CHUNK = 64 * 1024
+
+@app.route('/profile/status', methods=['GET'])
+def profile_status():
+    """Progress of the repository sandbox profile (see devpilot-profile.py).
+
+    Returns the planned steps with their state plus the log from ?offset= on, so the
+    viewer can poll and append output without re-downloading it.
+    """
+    if not os.path.exists(PROFILE_PLAN_FILE):
+        if not os.environ.get('SANDBOX_PROFILE_JSON'):
+            return jsonify({"configured": False})
+        # setup.sh plans the profile right before writing the repo-ready marker
+        if os.path.exists('/tmp/devpilot-repo-ready'):
+            return jsonify({"configured": True, "state": "failed", "steps": [], "log": "",
+                            "offset": 0, "notes": ["The sandbox profile could not be prepared."]})
+        return jsonify({"configured": True, "state": "pending", "steps": [], "log": "", "offset": 0})
+    try:
+        with open(PROFILE_PLAN_FILE) as f:
+            plan = json.load(f)
+        with open(PROFILE_STATUS_FILE) as f:
+            status = json.load(f)
+    except (OSError, ValueError) as e:
+        return jsonify({"configured": True, "state": "unknown", "error": str(e)}), 500
+
+    offset = max(0, request.args.get('offset', 0, type=int))
+    log, size = '', 0
+    try:
+        size = os.path.getsize(PROFILE_LOG_FILE)
+        if offset > size:
+            offset = 0
+        with open(PROFILE_LOG_FILE, 'rb') as f:
+            f.seek(offset)
+            chunk = f.read(PROFILE_LOG_CHUNK)
+        log = chunk.decode('utf-8', errors='replace')
+        offset += len(chunk)
+    except OSError:
+        pass
+
+    return jsonify({
+        "configured": True,
+        "state": status.get("state"),
+        "steps": status.get("steps", []),
+        "env_names": plan.get("env_names", []),
+        "preview_port": plan.get("preview_port"),
+        "devcontainer_file": plan.get("devcontainer_file"),
+        "notes": plan.get("notes", []),
+        "log": log,
+        "offset": offset,
+        "log_size": size,
+    })
+
+TEST_LOG_FILE = '/tmp/devpilot-tests.log'
+TEST_TIMEOUT_SECONDS = 30 * 60
+PROFILE_ENV_FILE = '/home/sandbox/.devpilot-profile-env.sh'
+_test_lock = threading.Lock()
+_test_run = {"state": "idle"}
+
+
+def _wait_for_tests(proc, log):
+    """Background waiter for /tests/run: records the exit code (or a timeout) once the command ends."""
+    try:
+        exit_code = proc.wait(timeout=TEST_TIMEOUT_SECONDS)
+    except subprocess.TimeoutExpired:
+        try:
+            os.killpg(proc.pid, signal.SIGKILL)
+        except (ProcessLookupError, PermissionError):
+            pass
+        proc.wait()
+        exit_code = -1
+        log.write(f'\nTimed out after {TEST_TIMEOUT_SECONDS // 60} minutes\n')
+    log.write(f'\nExited with code {exit_code}\n')
+    log.close()
+    with _test_lock:
+        _test_run.update(state='passed' if exit_code == 0 else 'failed', exit_code=exit_code,
+                         finished_at=_time_mod.time())
+
+
+@app.route('/tests/run', methods=['POST'])
+def tests_run():
+    """Start the repository's test command in the project folder (pre-push test gate); poll /tests/status."""
+    data = request.get_json(silent=True) or {}
+    command = str(data.get('command') or '').strip()
+    if not command:
+        return jsonify({"error": "command is required"}), 400
+    with _test_lock:
+        if _test_run.get('state') == 'running':
+            return jsonify({"error": "Tests are already running"}), 409
+        log = open(TEST_LOG_FILE, 'w', buffering=1)
+        log.write(f'$ {command}\n')
+        env = dict(os.environ)
+        env.pop('SANDBOX_PROFILE_JSON', None)
+        # Same environment as the profile setup commands and the terminal
+        script = f'[ -f {shlex.quote(PROFILE_ENV_FILE)} ] && . {shlex.quote(PROFILE_ENV_FILE)}; {command}'
+        try:
+            proc = subprocess.Popen(['bash', '-lc', script], cwd=get_git_project_path(), env=env,
+                                    stdout=log, stderr=subprocess.STDOUT, stdin=subprocess.DEVNULL,
+                                    start_new_session=True)
+        except OSError as e:
+            log.close()
+            return jsonify({"error": f"Failed to start tests: {e}"}), 500
+        _test_run.clear()
+        _test_run.update(state='running', command=command, exit_code=None,
+                         started_at=_time_mod.time(), finished_at=None)
+    threading.Thread(target=_wait_for_tests, args=(proc, log), daemon=True).start()
+    return jsonify({"status": "started"})
+
+
+@app.route('/tests/status', methods=['GET'])
+def tests_status():
+    """State of the last /tests/run plus its log from ?offset= on (same paging as /profile/status)."""
+    with _test_lock:
+        run = dict(_test_run)
+    offset = max(0, request.args.get('offset', 0, type=int))
+    log, size = '', 0
+    if run.get('state') != 'idle':
+        try:
+            size = os.path.getsize(TEST_LOG_FILE)
+            if offset > size:
+                offset = 0
+            with open(TEST_LOG_FILE, 'rb') as f:
+                f.seek(offset)
+                chunk = f.read(PROFILE_LOG_CHUNK)
+            log = chunk.decode('utf-8', errors='replace')
+            offset += len(chunk)
+        except OSError:
+            pass
+    started, finished = run.get('started_at'), run.get('finished_at')
+    return jsonify({
+        "state": run.get('state'),
+        "command": run.get('command'),
+        "exit_code": run.get('exit_code'),
+        "duration_seconds": round((finished or _time_mod.time()) - started, 1) if started else None,
+        "log": log,
+        "offset": offset,
+        "log_size": size,
+    })
+
+# Ports the sandbox itself listens on (VNC, noVNC, manager, bridge); never listed as previews
+SANDBOX_INTERNAL_PORTS = frozenset({5900, 6080, 6081, 8090, 8091})
+# Keep in sync with DENIED_PREVIEW_PORTS in manager.py: listed, but the proxy refuses them
+DENIED_PREVIEW_PORTS = frozenset({0, 22, 25, 111, 135, 139, 445, 389, 636, 1433, 3306, 5432,
+                                  6379, 9042, 11211, 27017})
+_port_http_cache = set()
+
+
+def _listening_sockets():
+    """Socket inode -> (port, loopback only) for TCP sockets in LISTEN state."""
+    sockets = {}
+    for path in ('/proc/net/tcp', '/proc/net/tcp6'):
+        try:
+            with open(path) as f:
+                next(f, None)
+                for line in f:
+                    parts = line.split()
+                    if len(parts) < 10 or parts[3] != '0A':
+                        continue
+                    address, port_hex = parts[1].rsplit(':', 1)
+                    # IPv4 127.x.x.x is stored little-endian ("0100007F"); IPv6 ::1 ends in "01000000"
+                    loopback = address.endswith('7F') if len(address) == 8 \
+                        else address == '00000000000000000000000001000000'
+                    sockets[parts[9]] = (int(port_hex, 16), loopback)
+        except OSError:
+            continue
+    return sockets
+
+
+def _socket_owners(inodes):
+    """Socket inode -> (pid, process name, command line) for the processes we are allowed to inspect."""
+    owners = {}
+    for pid in filter(str.isdigit, os.listdir('/proc')):
+        try:
+            fds = os.listdir(f'/proc/{pid}/fd')
+        except OSError:
+            continue
+        for fd in fds:
+            try:
+                target = os.readlink(f'/proc/{pid}/fd/{fd}')
+            except OSError:
+                continue
+            inode = target[8:-1] if target.startswith('socket:[') else None
+            if inode not in inodes or inode in owners:
+                continue
+            try:
+                with open(f'/proc/{pid}/cmdline', 'rb') as f:
+                    command = f.read().replace(b'\0', b' ').decode('utf-8', errors='replace').strip()
+                with open(f'/proc/{pid}/comm') as f:
+                    name = f.read().strip()
+            except OSError:
+                command, name = '', ''
+            owners[inode] = (int(pid), name, command)
+    return owners
+
+
+def _speaks_http(port):
+    """True when the port answers a plain HTTP request (dev servers, APIs) within half a second."""
+    import socket
+    for host in ('127.0.0.1', '::1'):
+        try:
+            with socket.create_connection((host, port), timeout=0.5) as conn:
+                conn.sendall(b'HEAD / HTTP/1.0\r\nHost: localhost\r\n\r\n')
+                return conn.recv(5) == b'HTTP/'
+        except OSError:
+            continue
+    return False
+
+
+@app.route('/ports', methods=['GET'])
+def list_ports():
+    """TCP ports listening in the sandbox and the process behind each, for the preview port picker."""
+    sockets = _listening_sockets()
+    owners = _socket_owners(set(sockets))
+    ports = {}
+    for inode, (port, loopback) in sockets.items():
+        if port in SANDBOX_INTERNAL_PORTS:
+            continue
+        entry = ports.setdefault(port, {"port": port, "loopback_only": True, "pid": None,
+                                        "process": None, "command": None})
+        entry["loopback_only"] = entry["loopback_only"] and loopback
+        owner = owners.get(inode)
+        # The manager's forwarder for localhost-only servers is not the process the user cares about
+        if owner and entry["pid"] is None and 'dp_preview_forwarder' not in owner[2]:
+            entry["pid"], entry["process"], entry["command"] = owner[0], owner[1], owner[2][:300]
+    result = []
+    for port in sorted(ports):
+        entry = ports[port]
+        # Only positive answers are cached: a dev server often listens before it serves requests
+        key = (port, entry["pid"])
+        if key not in _port_http_cache and _speaks_http(port):
+            _port_http_cache.add(key)
+        entry["http"] = key in _port_http_cache
+        entry["previewable"] = port not in DENIED_PREVIEW_PORTS
+        result.append(entry)
+    return jsonify({"ports": result})
+
+
 @app.route('/system-info', methods=['GET'])
 def system_info():
     """Return system information for the frontend stats overlay."""
@@ -1531,8 +2152,17 @@ def openai_chat_completions():
     
     logger.info(f"Extracted user message: {user_message[:200] if user_message else '(none)'}...")
     
-    global bridge_request_in_progress
+    # Title and inline-edit requests are not agent turns: keep them off the event stream
+    track_turn = bool(user_message) and not is_system_message(user_message)
+    
+    global bridge_request_in_progress, last_agent_activity_time
     bridge_request_in_progress = True
+    if track_turn:
+        zed_round_started(messages, user_message)
+    # Non-streaming round outcome, reported in the finally block below (streams report their own)
+    round_tool_calls = None
+    round_conversation_id = None
+    round_error = None
     try:
         import requests as http_requests
         import time
@@ -1547,6 +2177,12 @@ def openai_chat_completions():
         # This preserves: tools, tool_choice, messages (including tool results), etc.
         payload = dict(data)
         payload["model"] = model
+        # Ask for the token usage in the final stream chunk (cost accounting); dropped again below
+        # when the provider rejects the option.
+        added_stream_options = False
+        if stream and "stream_options" not in payload:
+            payload["stream_options"] = {"include_usage": True}
+            added_stream_options = True
         
         # Log tool-related info
         if payload.get('tools'):
@@ -1558,10 +2194,13 @@ def openai_chat_completions():
         if stream:
             # Streaming response with full tool call support
             def generate_stream():
-                global bridge_request_in_progress, live_stream_content, live_stream_user_message, abort_stream
+                global bridge_request_in_progress, live_stream_content, live_stream_user_message, abort_stream, last_agent_activity_time
                 full_text_response = ""
                 has_tool_calls = False
                 tool_calls_buffer = []  # Buffer to collect tool call chunks
+                aborted = False
+                conversation_id = None
+                stream_error = None
                 live_stream_content = ""
                 live_stream_user_message = user_message
                 abort_stream = False
@@ -1577,6 +2216,18 @@ def openai_chat_completions():
                         stream=True,
                         verify=REQUESTS_SSL_VERIFY
                     )
+                    if response.status_code == 400 and added_stream_options:
+                        logger.info("LLM rejected stream_options, retrying without usage reporting")
+                        response.close()
+                        payload.pop("stream_options", None)
+                        response = http_requests.post(
+                            f"{API_BASE}/chat/completions",
+                            headers=headers,
+                            json=payload,
+                            timeout=300,
+                            stream=True,
+                            verify=REQUESTS_SSL_VERIFY
+                        )
                     
                     if response.status_code != 200:
                         logger.error(f"LLM stream error: {response.status_code}")
@@ -1585,12 +2236,12 @@ def openai_chat_completions():
                             logger.error(f"Error body: {error_body[:500]}")
                         except:
                             pass
-                        error_data = {"error": {"message": f"LLM error: {response.status_code}", "type": "api_error"}}
+                        stream_error = f"LLM error: {response.status_code}"
+                        error_data = {"error": {"message": stream_error, "type": "api_error"}}
                         yield f"data: {json.dumps(error_data)}\n\n"
                         yield "data: [DONE]\n\n"
                         return
                     
-                    aborted = False
                     for line in response.iter_lines():
                         if abort_stream:
                             logger.info("=== STREAM ABORTED BY USER ===")
@@ -1605,11 +2256,16 @@ def openai_chat_completions():
                                 try:
                                     if line_str != 'data: [DONE]':
                                         chunk_data = json.loads(line_str[6:])
+                                        if chunk_data.get('usage'):
+                                            add_turn_usage(chunk_data['usage'])
                                         if chunk_data.get('choices'):
                                             choice = chunk_data['choices'][0]
                                             delta = choice.get('delta', {})
                                             
                                             if delta.get('content'):
+                                                if track_turn:
+                                                    # The first text of a round replaces the previous round's
+                                                    emit_agent_event("delta", text=delta['content'], replace=not full_text_response)
                                                 full_text_response += delta['content']
                                                 live_stream_content = full_text_response
                                             
@@ -1645,15 +2301,17 @@ def openai_chat_completions():
                         logger.info(f"Assistant (truncated): {full_text_response[:200]}...")
                         
                         if user_message and full_text_response.strip() and not is_system_message(user_message):
+                            conversation_id = str(uuid.uuid4())
                             conversation_entry = {
-                                "id": str(uuid.uuid4()),
+                                "id": conversation_id,
                                 "timestamp": time.time(),
                                 "user_message": user_message,
                                 "assistant_message": full_text_response + ("\n\n*(generation stopped)*" if aborted else ""),
                                 "model": model,
                                 "had_tool_execution": has_tool_results or has_tool_calls_in_history,
                                 "source": "proxy",
-                                "aborted": aborted
+                                "aborted": aborted,
+                                "usage": take_turn_usage()
                             }
                             zed_conversations.append(conversation_entry)
                             if len(zed_conversations) > 50:
@@ -1675,13 +2333,19 @@ def openai_chat_completions():
                     logger.error(f"Stream error: {e}")
                     import traceback
                     logger.error(traceback.format_exc())
+                    stream_error = str(e)
                     error_data = {"error": {"message": str(e), "type": "api_error"}}
                     yield f"data: {json.dumps(error_data)}\n\n"
                     yield "data: [DONE]\n\n"
                 finally:
                     bridge_request_in_progress = False
+                    last_agent_activity_time = _time_mod.time()
                     live_stream_content = ""
                     live_stream_user_message = ""
+                    if track_turn:
+                        ended_with_tools = has_tool_calls and not aborted and not stream_error
+                        zed_round_finished(tool_calls_buffer if ended_with_tools else None,
+                                           conversation_id, aborted, stream_error)
             
             from flask import Response
             return Response(
@@ -1708,12 +2372,14 @@ def openai_chat_completions():
             
             if response.status_code != 200:
                 logger.error(f"LLM error: {response.status_code} - {response.text[:500]}")
+                round_error = f"LLM error: {response.status_code}"
                 try:
                     return jsonify(response.json()), response.status_code
                 except:
                     return jsonify({"error": {"message": response.text, "type": "api_error"}}), response.status_code
             
             result = response.json()
+            add_turn_usage(result.get('usage'))
             
             # Check what type of response we got
             if result.get('choices') and len(result['choices']) > 0:
@@ -1728,6 +2394,7 @@ def openai_chat_completions():
                     logger.info(f"=== ZED RESPONSE - TOOL CALLS ===")
                     logger.info(f"Tool calls ({len(tool_calls)}): {tool_names}")
                     logger.info(f"Finish reason: {finish_reason}")
+                    round_tool_calls = tool_calls
                     # Don't store - Zed will execute tools and continue
                 elif content:
                     # Final text response
@@ -1737,14 +2404,16 @@ def openai_chat_completions():
                     
                     # Store final text responses (filter out system messages)
                     if user_message and content.strip() and not is_system_message(user_message):
+                        round_conversation_id = str(uuid.uuid4())
                         conversation_entry = {
-                            "id": str(uuid.uuid4()),
+                            "id": round_conversation_id,
                             "timestamp": time.time(),
                             "user_message": user_message,
                             "assistant_message": content,
                             "model": model,
                             "had_tool_execution": has_tool_results or has_tool_calls_in_history,
-                            "source": "proxy"
+                            "source": "proxy",
+                            "usage": take_turn_usage()
                         }
                         zed_conversations.append(conversation_entry)
                         
@@ -1768,6 +2437,7 @@ def openai_chat_completions():
             return jsonify(result)
     
     except http_requests.exceptions.SSLError as ssl_err:
+        round_error = f"SSL certificate error: {ssl_err}"
         logger.error(f"SSL Error connecting to LLM: {ssl_err}")
         logger.error(f"API_BASE: {API_BASE}")
         logger.error(f"SSL_VERIFY setting: {REQUESTS_SSL_VERIFY}")
@@ -1783,6 +2453,7 @@ def openai_chat_completions():
             }
         }), 502
     except http_requests.exceptions.ConnectionError as conn_err:
+        round_error = f"Connection error: {conn_err}"
         logger.error(f"Connection error to LLM: {conn_err}")
         logger.error(f"API_BASE: {API_BASE}")
         return jsonify({
@@ -1792,6 +2463,7 @@ def openai_chat_completions():
             }
         }), 502
     except Exception as e:
+        round_error = str(e)
         logger.error(f"Proxy error: {e}")
         import traceback
         logger.error(traceback.format_exc())
@@ -1804,6 +2476,9 @@ def openai_chat_completions():
     finally:
         if not stream:
             bridge_request_in_progress = False
+            last_agent_activity_time = _time_mod.time()
+        if track_turn and (not stream or round_error):
+            zed_round_finished(round_tool_calls, round_conversation_id, error=round_error)
 
 @app.route('/v1/models', methods=['GET'])
 def openai_list_models():
@@ -2104,6 +2779,7 @@ Be concise and helpful."""
         )
         
         assistant_message = response.choices[0].message.content
+        add_turn_usage(getattr(response, 'usage', None))
         
         # Store in conversation history (for context)
         conversation_history.append({"role": "user", "content": message})
@@ -2117,7 +2793,8 @@ Be concise and helpful."""
                 "user_message": message,
                 "assistant_message": assistant_message,
                 "model": MODEL,
-                "source": "direct_chat"
+                "source": "direct_chat",
+                "usage": take_turn_usage()
             }
             zed_conversations.append(conversation_entry)
             if len(zed_conversations) > 50:
@@ -2629,6 +3306,24 @@ def clipboard_paste():
         logger.error(f"clipboard/paste error: {e}")
         return jsonify({"error": str(e)}), 500
 
+@app.route('/clipboard/copy', methods=['GET'])
+def clipboard_copy():
+    """Text to copy to the host: the current selection (X11 PRIMARY) in the desktop, else the CLIPBOARD.
+
+    Uses xsel, which exits once the selection is read (xclip -o can hang on some owners).
+    """
+    env = {**os.environ, 'DISPLAY': ':0'}
+    for selection in ('--primary', '--clipboard'):
+        try:
+            proc = subprocess.run(['xsel', selection, '--output'], env=env, capture_output=True, timeout=5)
+        except Exception as e:
+            logger.error(f"clipboard/copy error: {e}")
+            return jsonify({"error": str(e)}), 500
+        text = proc.stdout.decode('utf-8', errors='replace') if proc.returncode == 0 else ''
+        if text.strip():
+            return jsonify({"text": text, "selection": selection.lstrip('-')})
+    return jsonify({"text": "", "selection": None})
+
 @app.route('/history', methods=['GET'])
 def get_history():
     """Get conversation history"""
@@ -2641,18 +3336,50 @@ def clear_history():
     conversation_history = []
     return jsonify({"status": "cleared"})
 
+def _resolve_project_path(relpath):
+    """Absolute path of `relpath` under PROJECT_PATH, or None when it resolves outside (.., symlinks)."""
+    root = os.path.realpath(PROJECT_PATH)
+    full = os.path.realpath(os.path.join(root, (relpath or '').lstrip('/')))
+    if full != root and not full.startswith(root + os.sep):
+        return None
+    return full
+
 @app.route('/project/files', methods=['GET'])
 def list_files():
-    """List project files"""
+    """List a project directory: ?path= relative to PROJECT_PATH (default: PROJECT_PATH itself).
+    Directories first; `relative_path` is the listed directory relative to PROJECT_PATH ('' at the root)
+    and `workspace` the repository folder, where the file browser starts."""
+    directory = _resolve_project_path(request.args.get('path', ''))
+    if directory is None:
+        return jsonify({"error": "Invalid path"}), 400
+    if not os.path.isdir(directory):
+        return jsonify({"error": "Directory not found"}), 404
     try:
         items = []
-        for item in os.listdir(PROJECT_PATH):
-            path = os.path.join(PROJECT_PATH, item)
+        for item in os.listdir(directory):
+            path = os.path.join(directory, item)
+            is_dir = os.path.isdir(path)
+            try:
+                st = os.stat(path)
+                size, modified = (None if is_dir else st.st_size), int(st.st_mtime)
+            except OSError:
+                size, modified = None, None
             items.append({
                 "name": item,
-                "type": "directory" if os.path.isdir(path) else "file"
+                "type": "directory" if is_dir else "file",
+                "size": size,
+                "modified": modified
             })
-        return jsonify({"files": items, "path": PROJECT_PATH})
+        items.sort(key=lambda i: (i["type"] != "directory", i["name"].lower()))
+        root = os.path.realpath(PROJECT_PATH)
+        rel = os.path.relpath(directory, root)
+        workspace = os.path.relpath(os.path.realpath(get_git_project_path()), root)
+        return jsonify({
+            "files": items,
+            "path": directory,
+            "relative_path": '' if rel == '.' else rel.replace(os.sep, '/'),
+            "workspace": '' if workspace == '.' or workspace.startswith('..') else workspace.replace(os.sep, '/')
+        })
     except Exception as e:
         return jsonify({"error": str(e)}), 500
 
@@ -2674,6 +3401,77 @@ def read_file():
     except Exception as e:
         return jsonify({"error": str(e)}), 500
 
+# Below the API's default request body limit (30 MB), which every upload passes through.
+UPLOAD_MAX_BYTES = 25 * 1024 * 1024
+
+@app.route('/project/download', methods=['GET'])
+def download_project_path():
+    """Download ?path= (relative to PROJECT_PATH): a file as is, a directory as <name>.zip (without .git).
+    Symlinks inside the directory are left out: they may point outside PROJECT_PATH."""
+    relpath = request.args.get('path', '')
+    full_path = _resolve_project_path(relpath)
+    if full_path is None:
+        return jsonify({"error": "Invalid path"}), 400
+    if os.path.isfile(full_path):
+        return send_file(full_path, as_attachment=True, download_name=os.path.basename(full_path))
+    if not os.path.isdir(full_path):
+        return jsonify({"error": "Path not found"}), 404
+
+    # Spooled: small folders stay in memory, large ones (node_modules, build output) go to disk.
+    buf = tempfile.SpooledTemporaryFile(max_size=32 * 1024 * 1024)
+    with zipfile.ZipFile(buf, "w", zipfile.ZIP_DEFLATED) as zf:
+        for dirpath, dirnames, filenames in os.walk(full_path):
+            if '.git' in dirnames:
+                dirnames.remove('.git')
+            for fn in filenames:
+                abspath = os.path.join(dirpath, fn)
+                if os.path.islink(abspath) or not os.path.isfile(abspath):
+                    continue
+                zf.write(abspath, os.path.relpath(abspath, full_path).replace(os.sep, '/'))
+    buf.seek(0)
+    name = os.path.basename(full_path) or 'project'
+    return send_file(buf, mimetype='application/zip', as_attachment=True, download_name=f"{name}.zip")
+
+@app.route('/project/upload', methods=['POST'])
+def upload_project_files():
+    """Save multipart `files` into the directory `path` (form field, relative to PROJECT_PATH; default: the
+    repository folder). Existing files with the same name are overwritten; a symlink in the way rejects the
+    upload, since saving would write through it."""
+    if request.content_length and request.content_length > UPLOAD_MAX_BYTES:
+        return jsonify({"error": f"Upload is larger than {UPLOAD_MAX_BYTES // (1024 * 1024)} MB"}), 413
+    if 'path' in request.form:
+        directory = _resolve_project_path(request.form['path'])
+    else:
+        directory = os.path.realpath(get_git_project_path())
+    if directory is None:
+        return jsonify({"error": "Invalid path"}), 400
+    if not os.path.isdir(directory):
+        return jsonify({"error": "Directory not found"}), 404
+    uploads = request.files.getlist('files')
+    if not uploads:
+        return jsonify({"error": "No files"}), 400
+
+    targets = []
+    for upload in uploads:
+        name = os.path.basename((upload.filename or '').replace('\\', '/'))
+        if name in ('', '.', '..'):
+            continue
+        target = os.path.join(directory, name)
+        if os.path.islink(target):
+            return jsonify({"error": f"{name} is a symlink; not overwriting it"}), 400
+        targets.append((upload, name, target))
+
+    saved = []
+    try:
+        for upload, name, target in targets:
+            upload.save(target)
+            saved.append(name)
+    except Exception as e:
+        logger.error(f"project/upload error: {e}")
+        return jsonify({"error": str(e), "saved": saved}), 500
+    logger.info(f"Uploaded {len(saved)} file(s) to {directory}")
+    return jsonify({"status": "ok", "saved": saved})
+
 def get_git_project_path():
     """Get the git repository path (may be PROJECT_PATH or PROJECT_PATH/REPO_NAME)"""
     repo_name = os.environ.get('REPO_NAME', '')
@@ -2681,37 +3479,145 @@ def get_git_project_path():
         return os.path.join(PROJECT_PATH, repo_name)
     return PROJECT_PATH
 
+SNAPSHOT_DELETED_LIST = '.devpilot-snapshot/deleted.txt'
+
+def _git_lines(args, cwd):
+    """Run a git command and return its non-empty output lines (empty on failure)."""
+    try:
+        result = subprocess.run(['git'] + args, cwd=cwd, capture_output=True, text=True, timeout=60)
+    except Exception:
+        return []
+    if result.returncode != 0:
+        return []
+    return [line for line in result.stdout.splitlines() if line.strip()]
+
 @app.route('/project/archive.zip', methods=['GET'])
 def download_project_archive():
-    """Zip project files for uploading back to the DevPilot API (unpublished / local projects)."""
+    """Zip project files for uploading back to the DevPilot API (unpublished / local projects).
+
+    ?snapshot=1 (story workspace snapshots): in a git repo only tracked and untracked, non-ignored files
+    are included (no node_modules / build output), plus SNAPSHOT_DELETED_LIST naming tracked files that
+    were deleted so a restore on top of a fresh clone can remove them. The checked-out branch is returned
+    in the X-DevPilot-Branch header.
+    """
     root = get_git_project_path()
     if not os.path.isdir(root):
         return jsonify({"error": "Project path not found"}), 404
+    snapshot = request.args.get('snapshot') in ('1', 'true')
+    is_git = os.path.isdir(os.path.join(root, '.git'))
+    branch = None
     buf = io.BytesIO()
     with zipfile.ZipFile(buf, "w", zipfile.ZIP_DEFLATED) as zf:
-        for dirpath, dirnames, filenames in os.walk(root):
-            if '.git' in dirnames:
-                dirnames.remove('.git')
-            for fn in filenames:
-                abspath = os.path.join(dirpath, fn)
-                relp = os.path.relpath(abspath, root)
-                relp = relp.replace(os.sep, '/')
-                if relp.startswith('.git/') or '/.git/' in relp:
+        if snapshot and is_git:
+            deleted = _git_lines(['ls-files', '--deleted'], root)
+            deleted_set = set(deleted)
+            for relp in _git_lines(['ls-files', '--cached', '--others', '--exclude-standard'], root):
+                abspath = os.path.join(root, relp)
+                if relp in deleted_set or not os.path.isfile(abspath):
                     continue
                 zf.write(abspath, relp)
+            if deleted:
+                zf.writestr(SNAPSHOT_DELETED_LIST, '\n'.join(deleted) + '\n')
+            head = _git_lines(['rev-parse', '--abbrev-ref', 'HEAD'], root)
+            branch = head[0].strip() if head and head[0].strip() != 'HEAD' else None
+        else:
+            for dirpath, dirnames, filenames in os.walk(root):
+                if '.git' in dirnames:
+                    dirnames.remove('.git')
+                for fn in filenames:
+                    abspath = os.path.join(dirpath, fn)
+                    relp = os.path.relpath(abspath, root)
+                    relp = relp.replace(os.sep, '/')
+                    if relp.startswith('.git/') or '/.git/' in relp:
+                        continue
+                    zf.write(abspath, relp)
     buf.seek(0)
-    return send_file(
+    response = send_file(
         buf,
         mimetype='application/zip',
         as_attachment=True,
         download_name='project.zip'
     )
+    if branch:
+        response.headers['X-DevPilot-Branch'] = branch
+    return response
+
+GIT_DIFF_MAX_BYTES = 4 * 1024 * 1024
+
+def _diff_sections(raw):
+    """Splits `git diff` output into one chunk per file (each starting at its `diff --git` line)."""
+    sections = []
+    for line in raw.splitlines(keepends=True):
+        if line.startswith(b'diff --git ') or not sections:
+            sections.append(bytearray())
+        sections[-1] += line
+    return [bytes(section) for section in sections]
+
+def _is_utf8(data):
+    try:
+        data.decode('utf-8')
+        return True
+    except UnicodeDecodeError:
+        return False
+
+@app.route('/git/diff', methods=['GET'])
+def git_working_tree_diff():
+    """
+    Working tree changes vs HEAD as one unified diff (with binary patches), for the pre-push review.
+    Untracked, non-ignored files are included. Staging happens in a throwaway copy of the index so
+    the real index is left untouched. Files whose text is not UTF-8 come as binary patches, so the
+    review keeps them whole and the selected patch still applies byte for byte. Over GIT_DIFF_MAX_BYTES,
+    or when such a file cannot be turned into a binary patch, only the changed paths are returned.
+    """
+    git_path = get_git_project_path()
+    if not os.path.isdir(os.path.join(git_path, '.git')):
+        return jsonify({"error": "Not a git repository", "path": git_path}), 400
+
+    diff_args = ['diff', '--cached', '--binary', '--no-color', '--no-ext-diff', 'HEAD']
+    with tempfile.TemporaryDirectory() as tmp:
+        index_path = os.path.join(tmp, 'index')
+        real_index = os.path.join(git_path, '.git', 'index')
+        if os.path.isfile(real_index):
+            shutil.copyfile(real_index, index_path)  # keeps git's stat cache, so add -A stays fast
+        env = {**os.environ, 'GIT_INDEX_FILE': index_path, 'GIT_TERMINAL_PROMPT': '0'}
+        try:
+            add = subprocess.run(['git', 'add', '-A'], cwd=git_path, capture_output=True, text=True, env=env, timeout=120)
+            if add.returncode != 0:
+                return jsonify({"error": "Failed to collect changes", "stderr": add.stderr}), 500
+            diff = subprocess.run(['git'] + diff_args, cwd=git_path, capture_output=True, env=env, timeout=120)
+            if diff.returncode != 0:
+                return jsonify({"error": "Failed to diff", "stderr": diff.stderr.decode('utf-8', errors='replace')}), 500
+            raw = diff.stdout
+            sections = _diff_sections(raw)
+            if len(raw) <= GIT_DIFF_MAX_BYTES and not all(_is_utf8(section) for section in sections):
+                # Same diff with every file as binary (`-diff`); only the sections that are not UTF-8 are taken from it
+                attributes_path = os.path.join(tmp, 'attributes')
+                with open(attributes_path, 'w') as f:
+                    f.write('* -diff\n')
+                as_binary = subprocess.run(['git', '-c', f'core.attributesFile={attributes_path}'] + diff_args,
+                                           cwd=git_path, capture_output=True, env=env, timeout=120)
+                binary_sections = _diff_sections(as_binary.stdout) if as_binary.returncode == 0 else []
+                if len(binary_sections) == len(sections):
+                    raw = b''.join(section if _is_utf8(section) else binary_sections[i]
+                                   for i, section in enumerate(sections))
+            # The repository's own attributes can still force a text diff; then nothing is decoded lossily
+            if len(raw) > GIT_DIFF_MAX_BYTES or not _is_utf8(raw):
+                names = subprocess.run(['git', 'diff', '--cached', '--name-only', 'HEAD'],
+                                       cwd=git_path, capture_output=True, text=True, env=env, timeout=120)
+                return jsonify({"diff": "", "too_large": True,
+                                "files": [line for line in names.stdout.splitlines() if line.strip()]})
+        except subprocess.TimeoutExpired:
+            return jsonify({"error": "Timed out collecting changes"}), 504
+
+    return jsonify({"diff": raw.decode('utf-8'), "too_large": False, "files": []})
 
 @app.route('/git/push-and-create-pr', methods=['POST'])
 def git_push_and_create_pr():
     """
     Push changes and prepare for PR creation.
     Runs: git add, commit, push to new branch.
+    When `patch` is given (changes picked in the pre-push review, from GET /git/diff) only that patch
+    is committed; everything else stays in the working tree.
     PR creation is done by the backend after push succeeds.
     """
     data = request.get_json() or {}
@@ -2720,6 +3626,7 @@ def git_push_and_create_pr():
     pr_title = data.get('pr_title', '')
     pr_body = data.get('pr_body', '')
     git_credentials = data.get('git_credentials', '')  # PAT or OAuth token for push auth
+    patch = data.get('patch')
     
     if not branch_name:
         return jsonify({"error": "branch_name is required"}), 400
@@ -2779,14 +3686,29 @@ def git_push_and_create_pr():
             subprocess.run(['git', 'checkout', branch_name],
                          cwd=git_path, capture_output=True, text=True, env=env, check=True)
         
-        # Stage everything (including renames/deletes / new files under subdirs)
-        add_result = subprocess.run(['git', 'add', '-A'],
-                                  cwd=git_path, capture_output=True, text=True, env=env)
-        results.append({"step": "add", "returncode": add_result.returncode})
-        
-        # Check if there are changes to commit
-        status_result = subprocess.run(['git', 'status', '--porcelain'],
-                                     cwd=git_path, capture_output=True, text=True, env=env)
+        if isinstance(patch, str):
+            # Stage only the reviewed selection: index back to HEAD, then apply the patch to it
+            subprocess.run(['git', 'reset', '-q'], cwd=git_path, capture_output=True, text=True, env=env)
+            apply_result = subprocess.run(['git', 'apply', '--cached', '--whitespace=nowarn', '-'],
+                                          input=patch, cwd=git_path, capture_output=True, text=True, env=env)
+            results.append({"step": "apply", "returncode": apply_result.returncode})
+            if apply_result.returncode != 0:
+                return jsonify({
+                    "error": "The selected changes no longer apply",
+                    "hint": "The workspace changed since the review was loaded. Reload the diff and select again.",
+                    "stderr": apply_result.stderr
+                }), 409
+            status_result = subprocess.run(['git', 'diff', '--cached', '--name-only'],
+                                           cwd=git_path, capture_output=True, text=True, env=env)
+        else:
+            # Stage everything (including renames/deletes / new files under subdirs)
+            add_result = subprocess.run(['git', 'add', '-A'],
+                                      cwd=git_path, capture_output=True, text=True, env=env)
+            results.append({"step": "add", "returncode": add_result.returncode})
+
+            # Check if there are changes to commit
+            status_result = subprocess.run(['git', 'status', '--porcelain'],
+                                         cwd=git_path, capture_output=True, text=True, env=env)
         if not status_result.stdout.strip():
             return jsonify({
                 "error": "No changes to commit",
@@ -2859,7 +3781,8 @@ def agent_prompt():
     """Run a headless agent loop (LLM + tool execution) without Zed/xdotool.
 
     Starts the agent in a background thread and returns immediately.
-    Results appear in GET /all-conversations when the agent finishes.
+    Progress streams over the /agent/events socket; the result appears in
+    GET /all-conversations when the agent finishes (turn_complete).
     """
     global _agent_running
 
@@ -2876,10 +3799,11 @@ def agent_prompt():
         return jsonify({"error": "An agent task is already running"}), 409
 
     import uuid as _uuid
-    prompt_id = str(_uuid.uuid4())[:8]
+    # Full UUID: it becomes the conversation entry id, which the backend dedups token usage on per repository
+    prompt_id = str(_uuid.uuid4())
 
     def _run():
-        global _agent_running, bridge_request_in_progress, live_stream_user_message, live_stream_content
+        global _agent_running, bridge_request_in_progress, live_stream_user_message, live_stream_content, last_agent_activity_time
         global headless_live_tools, headless_live_user_prompt, abort_stream, current_headless_prompt_id
         abort_stream = False
         _agent_running = True
@@ -2889,10 +3813,25 @@ def agent_prompt():
         headless_live_user_prompt = prompt
         live_stream_user_message = prompt
         live_stream_content = ""
+        emit_agent_event("turn_start", source="headless_agent", prompt_id=prompt_id, user_message=prompt)
+        stored = False
+        run_error = None
+        aborted = False
 
         def _on_assistant_stream(text: str):
             global live_stream_content
+            previous = live_stream_content
             live_stream_content = text
+            if text == previous:
+                return
+            # The loop reports the accumulated text of the round; send only what was appended
+            if previous and text.startswith(previous):
+                emit_agent_event("delta", text=text[len(previous):])
+            else:
+                emit_agent_event("delta", text=text, replace=True)
+
+        def _on_tool_start(name, args):
+            emit_agent_event("tool_start", name=name, args_preview=agent_event_preview(args, AGENT_EVENT_ARGS_CAP))
 
         def _on_tool(name, args, tool_result):
             global headless_live_tools
@@ -2909,6 +3848,7 @@ def agent_prompt():
                 "result_preview": (tool_result or "")[:_result_cap],
                 "at": _time_mod.time(),
             })
+            emit_agent_event("tool_end", name=name, result_preview=(tool_result or "")[:AGENT_EVENT_RESULT_CAP])
 
         try:
             from bridge.agent_loop import build_headless_chat_history as _headless_hist
@@ -2926,6 +3866,7 @@ def agent_prompt():
                 llm_client=client,
                 model=MODEL,
                 on_tool_call=_on_tool,
+                on_tool_start=_on_tool_start,
                 on_assistant_delta=_on_assistant_stream,
                 conversation_history=_prior if _prior else None,
                 should_abort=lambda: abort_stream,
@@ -2943,8 +3884,10 @@ def agent_prompt():
                     for tc in result.tool_executions
                 ],
                 "iterations": result.iterations,
+                "usage": {"prompt_tokens": result.prompt_tokens, "completion_tokens": result.completion_tokens},
             }
             zed_conversations.append(conversation_entry)
+            stored = True
             if len(zed_conversations) > 50:
                 zed_conversations.pop(0)
             try:
@@ -2958,8 +3901,11 @@ def agent_prompt():
             logger.error("Agent prompt %s failed: %s", prompt_id, e)
             import traceback
             logger.error(traceback.format_exc())
+            run_error = str(e)
         finally:
+            aborted = abort_stream
             _agent_running = False
+            last_agent_activity_time = _time_mod.time()
             current_headless_prompt_id = None
             bridge_request_in_progress = False
             abort_stream = False
@@ -2967,16 +3913,173 @@ def agent_prompt():
             live_stream_user_message = ""
             headless_live_tools = []
             headless_live_user_prompt = ""
+            emit_agent_event("turn_complete", source="headless_agent", prompt_id=prompt_id,
+                             conversation_id=prompt_id if stored else None, aborted=aborted, error=run_error)
 
     threading.Thread(target=_run, daemon=True).start()
     logger.info("Agent prompt %s started in background", prompt_id)
     return jsonify({"status": "ok", "prompt_id": prompt_id})
 
+@app.route('/activity', methods=['GET'])
+def activity():
+    """Idle times for the sandbox idle auto-shutdown policy: desktop input (VNC) and agent."""
+    now = _time_mod.time()
+    agent_busy = bridge_request_in_progress or _agent_running
+    input_idle_seconds = None
+    try:
+        result = subprocess.run(['xprintidle'], capture_output=True, text=True, timeout=5,
+                                env={**os.environ, 'DISPLAY': os.environ.get('DISPLAY', ':0')})
+        if result.returncode == 0 and result.stdout.strip():
+            input_idle_seconds = int(result.stdout.strip()) // 1000
+    except Exception:
+        pass
+    return jsonify({
+        "agent_running": agent_busy,
+        "agent_idle_seconds": 0 if agent_busy else int(now - last_agent_activity_time),
+        "input_idle_seconds": input_idle_seconds,
+    })
+
 @app.route('/agent/status', methods=['GET'])
 def agent_status():
     """Check whether a headless agent task is currently running; includes prompt_id while running."""
     return jsonify({"running": _agent_running, "prompt_id": current_headless_prompt_id})
 
+# ── Web terminal ────────────────────────────────────────────────────────────
+# Each WebSocket on /terminal gets its own login shell on a PTY, so the frontend
+# can run commands without going through the VNC desktop (works for headless
+# Code Ask sandboxes too). The shell is hung up when the socket closes.
+
+TERMINAL_MAX_SESSIONS = 8
+_terminal_sessions = 0
+_terminal_sessions_lock = threading.Lock()
+
+
+def _terminal_resize(fd, cols, rows):
+    cols = max(1, min(int(cols), 1000))
+    rows = max(1, min(int(rows), 500))
+    fcntl.ioctl(fd, termios.TIOCSWINSZ, struct.pack('HHHH', rows, cols, 0, 0))
+
+
+def _terminal_cwd():
+    repo_name = os.environ.get('REPO_NAME', '') or ''
+    repo_dir = os.path.join(PROJECT_PATH, repo_name) if repo_name else PROJECT_PATH
+    return repo_dir if os.path.isdir(repo_dir) else (PROJECT_PATH if os.path.isdir(PROJECT_PATH) else os.path.expanduser('~'))
+
+
+def _terminal_reap(pid, hang_up):
+    """Wait for the shell to exit (hanging it up first if the client left); returns its exit code."""
+    if hang_up:
+        try:
+            os.killpg(pid, signal.SIGHUP)
+        except (ProcessLookupError, PermissionError):
+            pass
+    deadline = _time_mod.time() + 3
+    while True:
+        try:
+            done, status = os.waitpid(pid, os.WNOHANG)
+        except ChildProcessError:
+            return None
+        if done:
+            return os.waitstatus_to_exitcode(status)
+        if _time_mod.time() > deadline:
+            try:
+                os.killpg(pid, signal.SIGKILL)
+            except (ProcessLookupError, PermissionError):
+                pass
+            _, status = os.waitpid(pid, 0)
+            return os.waitstatus_to_exitcode(status)
+        _time_mod.sleep(0.1)
+
+
+@sock.route('/terminal')
+def terminal(ws):
+    """
+    Interactive shell for the frontend web terminal.
+    Client -> bridge: {"type": "input", "data": str} and {"type": "resize", "cols": int, "rows": int}
+    Bridge -> client: {"type": "output", "data": str}, then {"type": "exit", "code": int} when the shell ends.
+    """
+    global _terminal_sessions
+    with _terminal_sessions_lock:
+        if _terminal_sessions >= TERMINAL_MAX_SESSIONS:
+            ws.send(json.dumps({"type": "output", "data": f"Too many open terminals (max {TERMINAL_MAX_SESSIONS}).\r\n"}))
+            ws.close(1013, 'Too many terminals')
+            return
+        _terminal_sessions += 1
+
+    cwd = _terminal_cwd()
+    pid, fd = pty.fork()
+    if pid == 0:
+        env = {k: v for k, v in os.environ.items() if k not in ('SANDBOX_TOKEN', 'SANDBOX_PROFILE_JSON')}
+        env.update({'TERM': 'xterm-256color', 'COLORTERM': 'truecolor'})
+        try:
+            os.chdir(cwd)
+        except OSError:
+            pass
+        os.execvpe('bash', ['bash', '-l'], env)
+
+    logger.info(f"Terminal session started (pid {pid}, cwd {cwd})")
+    _terminal_resize(fd, 120, 32)
+    exited = threading.Event()
+
+    def forward_output():
+        decoder = codecs.getincrementaldecoder('utf-8')(errors='replace')
+        while True:
+            ready, _, _ = select.select([fd], [], [], 1.0)
+            if not ready:
+                continue
+            try:
+                chunk = os.read(fd, 65536)
+            except OSError:
+                chunk = b''  # EIO: the shell exited and the PTY closed
+            if not chunk:
+                exited.set()
+                return
+            text = decoder.decode(chunk)
+            if text:
+                try:
+                    ws.send(json.dumps({"type": "output", "data": text}))
+                except Exception:
+                    return  # socket closed by the client
+
+    reader = threading.Thread(target=forward_output, daemon=True)
+    reader.start()
+
+    try:
+        while not exited.is_set():
+            raw = ws.receive(timeout=1)
+            if raw is None:
+                continue
+            try:
+                msg = json.loads(raw)
+            except (TypeError, ValueError):
+                continue
+            if msg.get('type') == 'input' and isinstance(msg.get('data'), str):
+                os.write(fd, msg['data'].encode('utf-8'))
+            elif msg.get('type') == 'resize':
+                try:
+                    _terminal_resize(fd, msg.get('cols', 120), msg.get('rows', 32))
+                except (TypeError, ValueError, OSError):
+                    pass
+    except Exception:
+        pass  # ConnectionClosed when the browser tab or proxy goes away
+    finally:
+        code = _terminal_reap(pid, hang_up=not exited.is_set())
+        if exited.is_set():
+            try:
+                ws.send(json.dumps({"type": "exit", "code": code}))
+                ws.close()
+            except Exception:
+                pass
+        reader.join(timeout=2)
+        try:
+            os.close(fd)
+        except OSError:
+            pass
+        with _terminal_sessions_lock:
+            _terminal_sessions -= 1
+        logger.info(f"Terminal session ended (pid {pid}, exit code {code})")
+
+
 if __name__ == '__main__':
     threading.Thread(target=_deferred_terminal_open, daemon=True).start()
     port = int(os.environ.get('BRIDGE_PORT', 8091))
@@ -3309,8 +4412,8 @@ autocutsel -fork -selection CLIPBOARD &
 autocutsel -fork -selection PRIMARY &
 sleep 1
 
-# Start VNC server
-x11vnc -display $DISPLAY -forever -shared -rfbport 5900 -passwd "${VNC_PASSWORD:-devpilot}" -xkb -noxdamage &
+# Start VNC server (VNC_VIEW_PASSWORD, when set, connects view-only: used by read-only share links)
+x11vnc -display $DISPLAY -forever -shared -rfbport 5900 -passwd "${VNC_PASSWORD:-devpilot}" ${VNC_VIEW_PASSWORD:+-viewpasswd "$VNC_VIEW_PASSWORD"} -xkb -noxdamage &
 sleep 1
 
 # Start websockify on internal port 6081 (heartbeat keeps WebSocket alive through proxies)
@@ -3325,6 +4428,16 @@ export DEVPILOT_MODEL="${DEVPILOT_MODEL:-gpt-4o}"
 export DEVPILOT_PROVIDER="${DEVPILOT_PROVIDER:-openai}"
 export DEVPILOT_PROJECT_PATH="/home/sandbox/projects"
 
+# Resuming a story from a workspace snapshot: fetch its agent conversations before the bridge starts
+if [ -n "$WORKSPACE_SNAPSHOT_CONVERSATIONS_URL" ]; then
+    if curl -sSfL -H "User-Agent: DevPilot" -o /tmp/devpilot-restored-conversations.json "$WORKSPACE_SNAPSHOT_CONVERSATIONS_URL" 2>>/tmp/sandbox-debug.log; then
+        echo "Workspace snapshot conversations downloaded" >> /tmp/sandbox-debug.log
+    else
+        rm -f /tmp/devpilot-restored-conversations.json
+        echo "Warning: failed to download workspace snapshot conversations" >> /tmp/sandbox-debug.log
+    fi
+fi
+
 # Start DevPilot Bridge API (for frontend communication)
 echo "Starting DevPilot Bridge API on port 8091..."
 /opt/devpilot-venv/bin/python /opt/devpilot/devpilot-bridge.py &
@@ -3682,6 +4795,51 @@ if [ -n "$REPO_ARCHIVE_URL" ] && [ ! -d "$WORK_DIR/$REPO_NAME" ] && [ ! -d "/hom
     fi
 fi
 
+# ── Resume from a story workspace snapshot ──────────────────────────────────
+# Overlay the saved files on the fresh clone, remove files the snapshot had deleted and keep the
+# snapshot's branch name (it may never have been pushed) so uncommitted agent work carries over.
+if [ -n "$WORKSPACE_SNAPSHOT_URL" ]; then
+    SNAPSHOT_DIR="/home/sandbox/projects/$REPO_NAME"
+    mkdir -p "$SNAPSHOT_DIR"
+    if curl -sSfL -H "User-Agent: DevPilot" -o /tmp/workspace-snapshot.zip "$WORKSPACE_SNAPSHOT_URL" 2>>/tmp/sandbox-debug.log \
+        && unzip -o -q /tmp/workspace-snapshot.zip -d "$SNAPSHOT_DIR" 2>>/tmp/sandbox-debug.log; then
+        DELETED_LIST="$SNAPSHOT_DIR/.devpilot-snapshot/deleted.txt"
+        if [ -f "$DELETED_LIST" ]; then
+            while IFS= read -r deleted_path; do
+                [ -n "$deleted_path" ] && rm -f -- "$SNAPSHOT_DIR/$deleted_path"
+            done < "$DELETED_LIST"
+        fi
+        rm -rf "$SNAPSHOT_DIR/.devpilot-snapshot"
+        if [ -d "$SNAPSHOT_DIR/.git" ] && [ -n "$REPO_BRANCH" ]; then
+            current_branch=$(git -C "$SNAPSHOT_DIR" rev-parse --abbrev-ref HEAD 2>/dev/null || true)
+            if [ "$current_branch" != "$REPO_BRANCH" ]; then
+                git -C "$SNAPSHOT_DIR" checkout -b "$REPO_BRANCH" 2>>/tmp/sandbox-debug.log || true
+            fi
+        fi
+        WORK_DIR="$SNAPSHOT_DIR"
+        chown -R sandbox:sandbox "$WORK_DIR"
+        echo "Workspace snapshot restored to: $WORK_DIR" >> /tmp/sandbox-debug.log
+    else
+        echo "ERROR: Failed to restore workspace snapshot" >> /tmp/sandbox-debug.log
+        echo "Warning: Failed to restore workspace snapshot"
+    fi
+    rm -f /tmp/workspace-snapshot.zip
+fi
+
+# ── Repository sandbox profile ───────────────────────────────────────────────
+# Plan synchronously (before the repo-ready marker, so the bridge never sees a finished clone without a
+# plan) so the profile env file exists before Zed and the terminal start, then run the setup commands in
+# the background; the bridge streams /tmp/devpilot-profile.log to the viewer.
+if [ -n "$SANDBOX_PROFILE_JSON" ]; then
+    if python3 /opt/devpilot/devpilot-profile.py plan "$WORK_DIR" >> /tmp/sandbox-debug.log 2>&1; then
+        grep -q devpilot-profile-env /home/sandbox/.bashrc 2>/dev/null \
+            || echo '[ -f ~/.devpilot-profile-env.sh ] && . ~/.devpilot-profile-env.sh' >> /home/sandbox/.bashrc
+        nohup python3 /opt/devpilot/devpilot-profile.py run >> /tmp/sandbox-debug.log 2>&1 &
+    else
+        echo "ERROR: Failed to plan sandbox profile" >> /tmp/sandbox-debug.log
+    fi
+fi
+
 # ── Mark repository setup phase as complete ──────────────────────────────────
 # The DevPilot Bridge API started earlier (see "Start DevPilot Bridge API") and
 # answers /health OK long before the clone/archive finishes. For big repos this
@@ -3835,6 +4993,9 @@ export G_MESSAGES_DEBUG=""
 export GNOME_KEYRING_CONTROL=
 export SECRET_SERVICE_BUS_NAME=
 
+# Non-secret env vars from the repository sandbox profile
+[ -f /home/sandbox/.devpilot-profile-env.sh ] && . /home/sandbox/.devpilot-profile-env.sh
+
 echo "Launching Zed at: \$(date)" >> /tmp/zed-stdout.log
 exec /home/sandbox/.local/bin/zed "${WORK_DIR}" >> /tmp/zed-stdout.log 2>&1
 ZEDLAUNCHER